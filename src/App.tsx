@@ -3,7 +3,7 @@
  * 다양한 프로그래밍 언어의 코드 포매팅과 컨벤션 관리 기능을 제공합니다.
  */
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useDeferredValue } from 'react';
 import { 
   Layout, 
   Card, 
@@ -21,7 +21,8 @@ import {
   Menu,
   Statistic,
   Alert,
-  Switch
+  Switch,
+  Segmented
 } from 'antd';
 import { 
   CopyOutlined, 
@@ -36,7 +37,12 @@ import {
   FileTextOutlined,
   BugOutlined,
   ClockCircleOutlined,
-  WarningOutlined
+  WarningOutlined,
+  SettingOutlined,
+  UserOutlined,
+  ImportOutlined,
+  ScanOutlined,
+  FormatPainterOutlined
 } from '@ant-design/icons';
 
 // 서비스와 컴포넌트 임포트
@@ -44,11 +50,21 @@ import { FormattingService } from './services/FormattingService';
 import LanguageSelector from './components/LanguageSelector';
 import ConventionSelector from './components/ConventionSelector';
 import IdeExportModal from './components/IdeExportModal';
+import ConventionEditorModal from './components/ConventionEditorModal';
+import PresetLibraryModal from './components/PresetLibraryModal';
+import IdeImportModal from './components/IdeImportModal';
+import StyleDetectModal from './components/StyleDetectModal';
+import DiagnosticList from './components/DiagnosticList';
+import SqlStatementList from './components/SqlStatementList';
+import DiffViewer from './components/DiffViewer';
+import { DiagnosticCollector } from './utils/DiagnosticCollector';
 import { 
   SupportedLanguage, 
   PresetConvention, 
   FormattingResult,
-  FormattingConvention 
+  FormattingConvention,
+  Diagnostic,
+  SqlStatementResult
 } from './types/FormattingTypes';
 
 const { Header, Content, Sider } = Layout;
@@ -61,6 +77,17 @@ const { TabPane } = Tabs;
  */
 type FormattingMode = 'code' | 'delimiter' | 'json-tools';
 
+/**
+ * 결과 영역 보기 방식 타입 정의
+ */
+type OutputView = 'result' | 'side-by-side' | 'unified';
+
+/** 다른 언어로 전환을 제안하는 최소 감지 신뢰도 */
+const LANGUAGE_SUGGEST_CONFIDENCE = 0.5;
+
+/** 언어 자동 전환이 켜져 있을 때 바로 전환하는 최소 감지 신뢰도 */
+const LANGUAGE_AUTO_SWITCH_CONFIDENCE = 0.75;
+
 /**
  * 메인 애플리케이션 컴포넌트
  */
@@ -79,16 +106,35 @@ const App: React.FC = () => {
   
   // UI 관련 상태
   const [ideExportModalVisible, setIdeExportModalVisible] = useState(false);
+  const [conventionEditorVisible, setConventionEditorVisible] = useState(false);
+  const [presetLibraryVisible, setPresetLibraryVisible] = useState(false);
+  const [ideImportModalVisible, setIdeImportModalVisible] = useState(false);
+  const [styleDetectVisible, setStyleDetectVisible] = useState(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [autoFormat, setAutoFormat] = useState(false);
+  const [autoDetectLanguage, setAutoDetectLanguage] = useState(false);
+  const [dismissedLanguage, setDismissedLanguage] = useState<SupportedLanguage | null>(null);
+  const [selectedDiagnostic, setSelectedDiagnostic] = useState<Diagnostic | null>(null);
+  const [selectedStatement, setSelectedStatement] = useState<SqlStatementResult | null>(null);
+  const [outputView, setOutputView] = useState<OutputView>('result');
+  const [resultSourceCode, setResultSourceCode] = useState<string>('');
+  // 입력창에서 선택한 범위 (문자 오프셋)
+  const [inputSelection, setInputSelection] = useState<{ start: number; end: number } | null>(null);
+  const outputRef = useRef<HTMLPreElement>(null);
+  // 언어 전환과 함께 선택할 프리셋 (언어 변경 시 기본 프리셋 대신 사용)
+  const pendingPresetRef = useRef<PresetConvention | null>(null);
 
   /**
    * 언어 변경 시 기본 프리셋을 설정합니다.
    */
   useEffect(() => {
-    const presets = FormattingService.getPresetsByLanguage(selectedLanguage);
-    if (presets.length > 0) {
-      const defaultPreset = presets.find(p => p.isOfficial) || presets[0];
+    const defaultPreset = FormattingService.getDefaultPreset(selectedLanguage);
+    const pendingPreset = pendingPresetRef.current;
+    pendingPresetRef.current = null;
+    if (pendingPreset && pendingPreset.language === selectedLanguage) {
+      setSelectedPresetId(pendingPreset.id);
+      setSelectedPreset(pendingPreset);
+    } else if (defaultPreset) {
       setSelectedPresetId(defaultPreset.id);
       setSelectedPreset(defaultPreset);
     } else {
@@ -100,8 +146,37 @@ const App: React.FC = () => {
     if (!inputCode.trim()) {
       setInputCode(FormattingService.getExampleCode(selectedLanguage));
     }
+
+    // 포매터 모듈을 미리 불러옴 (실패하면 포매팅할 때 다시 시도)
+    FormattingService.loadLanguage(selectedLanguage).catch(error => console.error(error));
   }, [selectedLanguage]);
 
+  /**
+   * 입력 코드의 언어를 감지합니다. (입력 중에는 지연된 값으로 계산)
+   */
+  const deferredInputCode = useDeferredValue(inputCode);
+  const languageDetection = useMemo(
+    () => (activeMode === 'code' && deferredInputCode.trim() ? FormattingService.detectLanguage(deferredInputCode) : null),
+    [deferredInputCode, activeMode]
+  );
+  const suggestedLanguage = languageDetection?.language &&
+    languageDetection.language !== selectedLanguage &&
+    languageDetection.language !== dismissedLanguage &&
+    languageDetection.confidence >= LANGUAGE_SUGGEST_CONFIDENCE
+    ? languageDetection.language
+    : null;
+
+  /**
+   * 언어 자동 전환이 켜져 있으면 신뢰도가 충분할 때 감지한 언어로 전환합니다.
+   */
+  useEffect(() => {
+    if (autoDetectLanguage && suggestedLanguage && languageDetection &&
+        languageDetection.confidence >= LANGUAGE_AUTO_SWITCH_CONFIDENCE) {
+      setSelectedLanguage(suggestedLanguage);
+      message.info(`입력 코드에 맞춰 언어를 ${FormattingService.getLanguageDisplayName(suggestedLanguage)}(으)로 전환했습니다.`);
+    }
+  }, [languageDetection, autoDetectLanguage]);
+
   /**
    * 자동 포매팅 기능
    */
@@ -115,13 +190,34 @@ const App: React.FC = () => {
     }
   }, [inputCode, autoFormat, selectedPreset]);
 
+  /**
+   * 새 결과가 나오면 진단/문 선택을 해제합니다.
+   */
+  useEffect(() => {
+    setSelectedDiagnostic(null);
+    setSelectedStatement(null);
+  }, [lastFormattingResult]);
+
+  // 결과 영역에서 강조할 줄 범위 (선택된 진단이나 SQL 문)
+  const selectedRange = selectedDiagnostic ?? selectedStatement;
+
+  /**
+   * 선택된 진단이나 문 위치로 결과 영역을 스크롤합니다.
+   */
+  useEffect(() => {
+    if (selectedRange && outputView === 'result') {
+      const lineElement = outputRef.current?.querySelector(`[data-line="${selectedRange.startLine}"]`);
+      lineElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [selectedRange, outputView]);
+
   /**
    * 현재 모드에서 사용 가능한 액션들을 반환합니다.
    */
   const availableActions = useMemo(() => {
     switch (activeMode) {
       case 'code':
-        return selectedPreset ? ['format', 'export'] : [];
+        return selectedPreset ? ['format', 'format-selection', 'export'] : [];
       case 'delimiter':
         return ['align'];
       case 'json-tools':
@@ -147,6 +243,7 @@ const App: React.FC = () => {
 
     setIsProcessing(true);
     try {
+      await FormattingService.loadLanguage(selectedLanguage);
       const result = FormattingService.formatCode(
         inputCode,
         selectedLanguage,
@@ -154,6 +251,7 @@ const App: React.FC = () => {
       );
       
       setOutputCode(result.formattedCode);
+      setResultSourceCode(inputCode);
       setLastFormattingResult(result);
       
       if (result.errors.length > 0) {
@@ -171,6 +269,54 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * 입력창에서 선택한 줄만 포매팅합니다.
+   * 범위 밖의 줄은 그대로 두므로 레거시 코드를 고칠 때 비교 결과가 선택한 줄로 한정됩니다.
+   */
+  const handleSelectionFormat = async () => {
+    if (!inputSelection || inputSelection.start === inputSelection.end) {
+      message.warning('포매팅할 영역을 입력창에서 선택해주세요.');
+      return;
+    }
+
+    if (!selectedPreset) {
+      message.warning('포매팅 컨벤션을 선택해주세요.');
+      return;
+    }
+
+    const startLine = inputCode.slice(0, inputSelection.start).split('\n').length;
+    // 선택이 줄바꿈 바로 뒤에서 끝나면 다음 줄은 포함하지 않음
+    const endOffset = inputCode[inputSelection.end - 1] === '\n' ? inputSelection.end - 1 : inputSelection.end;
+    const endLine = Math.max(startLine, inputCode.slice(0, endOffset).split('\n').length);
+
+    setIsProcessing(true);
+    try {
+      await FormattingService.loadLanguage(selectedLanguage);
+      const result = FormattingService.formatRange(
+        inputCode,
+        selectedLanguage,
+        selectedPreset.convention,
+        startLine,
+        endLine
+      );
+
+      setOutputCode(result.formattedCode);
+      setResultSourceCode(inputCode);
+      setLastFormattingResult(result);
+
+      if (result.errors.length > 0) {
+        message.error(`선택 영역 포매팅 중 오류 발생: ${result.errors[0]}`);
+      } else {
+        message.success(`${startLine}~${endLine}줄을 포매팅했습니다. ${result.changedLines}줄이 변경되었습니다.`);
+      }
+    } catch (error) {
+      message.error('선택 영역 포매팅 중 오류가 발생했습니다.');
+      console.error(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   /**
    * 구분자 기반 정렬을 수행합니다.
    */
@@ -184,6 +330,7 @@ const App: React.FC = () => {
     try {
       const result = FormattingService.alignByDelimiter(inputCode, '/');
       setOutputCode(result.formattedCode);
+      setResultSourceCode(inputCode);
       setLastFormattingResult(result);
       
       if (result.errors.length > 0) {
@@ -212,6 +359,7 @@ const App: React.FC = () => {
     try {
       const result = FormattingService.prettifyJson(inputCode);
       setOutputCode(result.formattedCode);
+      setResultSourceCode(inputCode);
       setLastFormattingResult(result);
       
       if (result.errors.length > 0) {
@@ -240,6 +388,7 @@ const App: React.FC = () => {
     try {
       const result = FormattingService.minifyJson(inputCode);
       setOutputCode(result.formattedCode);
+      setResultSourceCode(inputCode);
       setLastFormattingResult(result);
       
       if (result.errors.length > 0) {
@@ -275,6 +424,45 @@ const App: React.FC = () => {
     setSelectedPreset(preset);
   };
 
+  /**
+   * 컨벤션 편집기에서 저장한 사용자 프리셋을 선택합니다.
+   */
+  const handleUserPresetSave = (preset: PresetConvention) => {
+    handlePresetChange(preset.id, preset);
+    setConventionEditorVisible(false);
+  };
+
+  /**
+   * IDE 설정에서 가져온 사용자 프리셋을 해당 언어와 함께 선택합니다.
+   */
+  const handleIdeImported = (preset: PresetConvention) => {
+    if (preset.language === selectedLanguage) {
+      handlePresetChange(preset.id, preset);
+    } else {
+      pendingPresetRef.current = preset;
+      setSelectedLanguage(preset.language);
+    }
+    setIdeImportModalVisible(false);
+  };
+
+  /**
+   * 스타일 감지에서 고른 프리셋을 선택합니다.
+   */
+  const handleDetectedPresetApply = (preset: PresetConvention) => {
+    handlePresetChange(preset.id, preset);
+    setStyleDetectVisible(false);
+  };
+
+  /**
+   * 선택된 사용자 프리셋이 삭제되면 선택을 해제합니다.
+   */
+  const handleUserPresetRemoved = (presetId: string) => {
+    if (presetId === selectedPresetId) {
+      setSelectedPresetId('');
+      setSelectedPreset(null);
+    }
+  };
+
   /**
    * 예시 코드 로드
    */
@@ -290,10 +478,38 @@ const App: React.FC = () => {
   const clearAll = () => {
     setInputCode('');
     setOutputCode('');
+    setResultSourceCode('');
     setLastFormattingResult(null);
+    setDismissedLanguage(null);
     message.info('모든 내용이 지워졌습니다.');
   };
 
+  /**
+   * 진단을 선택하고 결과 보기로 전환합니다.
+   */
+  const handleDiagnosticSelect = (diagnostic: Diagnostic) => {
+    setSelectedDiagnostic(diagnostic);
+    setSelectedStatement(null);
+    setOutputView('result');
+  };
+
+  /**
+   * SQL 문을 선택하고 결과 보기로 전환합니다.
+   */
+  const handleStatementSelect = (statement: SqlStatementResult) => {
+    setSelectedStatement(statement);
+    setSelectedDiagnostic(null);
+    setOutputView('result');
+  };
+
+  /**
+   * 진단의 수정 제안을 적용한 코드를 입력창에 넣습니다.
+   */
+  const handleApplyFix = (diagnostic: Diagnostic) => {
+    setInputCode(DiagnosticCollector.applyFix(outputCode, diagnostic));
+    message.success('수정 제안을 적용한 코드를 입력창에 넣었습니다.');
+  };
+
   /**
    * 결과를 입력으로 복사
    */
@@ -316,6 +532,11 @@ const App: React.FC = () => {
           코드 포매팅
         </Menu.Item>
       )}
+      {availableActions.includes('format-selection') && (
+        <Menu.Item key="format-selection" icon={<FormatPainterOutlined />} onClick={handleSelectionFormat}>
+          선택 영역 포매팅
+        </Menu.Item>
+      )}
       {availableActions.includes('align') && (
         <Menu.Item key="align" icon={<SortAscendingOutlined />} onClick={handleDelimiterAlign}>
           컬럼 정렬
@@ -383,6 +604,12 @@ const App: React.FC = () => {
               onChange={setAutoFormat}
               size="small"
             />
+            <Text type="secondary">언어 자동 전환</Text>
+            <Switch
+              checked={autoDetectLanguage}
+              onChange={setAutoDetectLanguage}
+              size="small"
+            />
             {selectedPreset && (
               <Button 
                 type="text" 
@@ -474,6 +701,31 @@ const App: React.FC = () => {
                       selectedPresetId={selectedPresetId}
                       onPresetChange={handlePresetChange}
                     />
+
+                    <Space.Compact block>
+                      <Button
+                        block
+                        icon={<SettingOutlined />}
+                        onClick={() => setConventionEditorVisible(true)}
+                      >
+                        컨벤션 편집
+                      </Button>
+                      <Button
+                        block
+                        icon={<UserOutlined />}
+                        onClick={() => setPresetLibraryVisible(true)}
+                      >
+                        내 컨벤션 관리
+                      </Button>
+                    </Space.Compact>
+
+                    <Button
+                      block
+                      icon={<ImportOutlined />}
+                      onClick={() => setIdeImportModalVisible(true)}
+                    >
+                      IDE 설정 가져오기
+                    </Button>
                   </>
                 )}
 
@@ -566,6 +818,23 @@ const App: React.FC = () => {
             </div>
           </Card>
 
+          {/* 언어 감지 제안 */}
+          {suggestedLanguage && languageDetection && (
+            <Alert
+              type="info"
+              showIcon
+              closable
+              onClose={() => setDismissedLanguage(suggestedLanguage)}
+              style={{ marginBottom: '24px' }}
+              message={`입력 코드가 ${FormattingService.getLanguageDisplayName(suggestedLanguage)} 코드로 보입니다. (신뢰도 ${Math.round(languageDetection.confidence * 100)}%)`}
+              action={
+                <Button size="small" type="primary" onClick={() => setSelectedLanguage(suggestedLanguage)}>
+                  {FormattingService.getLanguageDisplayName(suggestedLanguage)}(으)로 전환
+                </Button>
+              }
+            />
+          )}
+
           {/* 입력/출력 영역 */}
           <Row gutter={[24, 24]}>
             <Col xs={24} lg={12}>
@@ -584,6 +853,28 @@ const App: React.FC = () => {
                 }
                 extra={
                   <Space>
+                    {activeMode === 'code' && (
+                      <Button
+                        size="small"
+                        onClick={() => setStyleDetectVisible(true)}
+                        icon={<ScanOutlined />}
+                        disabled={!inputCode.trim()}
+                      >
+                        스타일 감지
+                      </Button>
+                    )}
+                    {activeMode === 'code' && (
+                      <Tooltip title="선택한 줄만 포매팅하고 나머지는 그대로 둡니다">
+                        <Button
+                          size="small"
+                          onClick={handleSelectionFormat}
+                          icon={<FormatPainterOutlined />}
+                          disabled={!selectedPreset || !inputSelection || inputSelection.start === inputSelection.end}
+                        >
+                          선택 영역 포매팅
+                        </Button>
+                      </Tooltip>
+                    )}
                     <Button size="small" onClick={loadExampleCode} icon={<FileTextOutlined />}>
                       예시
                     </Button>
@@ -599,6 +890,10 @@ const App: React.FC = () => {
                   <TextArea
                     value={inputCode}
                     onChange={(e) => setInputCode(e.target.value)}
+                    onSelect={(e) => setInputSelection({
+                      start: e.currentTarget.selectionStart,
+                      end: e.currentTarget.selectionEnd
+                    })}
                     placeholder={{
                       'code': `${FormattingService.getLanguageDisplayName(selectedLanguage)} 코드를 입력하세요...`,
                       'delimiter': `/ 구분자를 포함한 텍스트를 입력하세요...\n예시:\napple/fruit/red\nbanana/fruit/yellow\ncarrot/vegetable/orange`,
@@ -628,6 +923,17 @@ const App: React.FC = () => {
                       포매팅 결과
                     </span>
                     <Space>
+                      <Segmented
+                        size="small"
+                        value={outputView}
+                        onChange={(value) => setOutputView(value as OutputView)}
+                        options={[
+                          { label: '결과', value: 'result' },
+                          { label: '나란히 비교', value: 'side-by-side' },
+                          { label: '통합 비교', value: 'unified' }
+                        ]}
+                        disabled={!outputCode}
+                      />
                       <Tag color="blue">{outputCode.split('\n').length} 줄</Tag>
                       <Tag color="purple">{outputCode.length} 문자</Tag>
                       <Tooltip title="클립보드에 복사">
@@ -658,8 +964,14 @@ const App: React.FC = () => {
                 bodyStyle={{ padding: 0, height: 'calc(100% - 57px)' }}
               >
                 <div style={{ height: '100%', border: 'none', overflow: 'hidden' }}>
-                  {outputCode ? (
-                    <pre style={{
+                  {outputCode && outputView !== 'result' ? (
+                    <DiffViewer
+                      original={resultSourceCode}
+                      formatted={outputCode}
+                      mode={outputView}
+                    />
+                  ) : outputCode ? (
+                    <pre ref={outputRef} style={{
                       margin: 0,
                       padding: '16px',
                       fontSize: '13px',
@@ -673,7 +985,16 @@ const App: React.FC = () => {
                       wordBreak: 'break-word'
                     }}>
                       {outputCode.split('\n').map((line, index) => (
-                        <div key={index} style={{ display: 'flex' }}>
+                        <div
+                          key={index}
+                          data-line={index + 1}
+                          style={{
+                            display: 'flex',
+                            background: selectedRange && (
+                              index + 1 >= selectedRange.startLine && index + 1 <= selectedRange.endLine
+                            ) ? '#fff1b8' : undefined
+                          }}
+                        >
                           <span style={{ 
                             color: '#999', 
                             marginRight: '12px',
@@ -710,6 +1031,40 @@ const App: React.FC = () => {
                   )}
                 </div>
               </Card>
+              {lastFormattingResult?.statements && lastFormattingResult.statements.length > 0 && (
+                <Card
+                  size="small"
+                  title={`SQL 문 ${lastFormattingResult.statements.length}개`}
+                  extra={
+                    <Text type="secondary" style={{ fontSize: '12px' }}>
+                      건너뜀 {lastFormattingResult.statements.filter(statement => statement.status === 'skipped').length}개
+                    </Text>
+                  }
+                  style={{ marginTop: '16px' }}
+                  bodyStyle={{ padding: 0 }}
+                >
+                  <SqlStatementList
+                    statements={lastFormattingResult.statements}
+                    selectedStatement={selectedStatement}
+                    onSelect={handleStatementSelect}
+                  />
+                </Card>
+              )}
+              {lastFormattingResult && lastFormattingResult.diagnostics.length > 0 && (
+                <Card
+                  size="small"
+                  title={`진단 ${lastFormattingResult.diagnostics.length}개`}
+                  style={{ marginTop: '16px' }}
+                  bodyStyle={{ padding: 0 }}
+                >
+                  <DiagnosticList
+                    diagnostics={lastFormattingResult.diagnostics}
+                    selectedDiagnostic={selectedDiagnostic}
+                    onSelect={handleDiagnosticSelect}
+                    onApplyFix={handleApplyFix}
+                  />
+                </Card>
+              )}
             </Col>
           </Row>
         </Content>
@@ -722,6 +1077,38 @@ const App: React.FC = () => {
         language={selectedLanguage}
         convention={selectedPreset?.convention || {} as FormattingConvention}
       />
+
+      {/* 컨벤션 편집기 모달 */}
+      <ConventionEditorModal
+        visible={conventionEditorVisible}
+        onCancel={() => setConventionEditorVisible(false)}
+        language={selectedLanguage}
+        basePreset={selectedPreset}
+        onSave={handleUserPresetSave}
+      />
+
+      {/* 사용자 프리셋 라이브러리 모달 */}
+      <PresetLibraryModal
+        visible={presetLibraryVisible}
+        onCancel={() => setPresetLibraryVisible(false)}
+        onPresetRemoved={handleUserPresetRemoved}
+      />
+
+      {/* IDE 설정 가져오기 모달 */}
+      <IdeImportModal
+        visible={ideImportModalVisible}
+        onCancel={() => setIdeImportModalVisible(false)}
+        onImported={handleIdeImported}
+      />
+
+      {/* 스타일 감지 모달 */}
+      <StyleDetectModal
+        visible={styleDetectVisible}
+        onCancel={() => setStyleDetectVisible(false)}
+        code={inputCode}
+        language={selectedLanguage}
+        onApply={handleDetectedPresetApply}
+      />
     </Layout>
   );
 };
@@ -0,0 +1,165 @@
+/**
+ * CLI 인자 파서
+ * `--name value`, `--name=value`, `-n value` 형식의 옵션과 위치 인자를 읽습니다.
+ * '--' 뒤의 인자는 모두 위치 인자로 취급합니다.
+ */
+
+import { SupportedLanguage, IdeExportFormat } from '../types/FormattingTypes';
+import { CliCommand, CliOptions } from '../types/CliTypes';
+import { FormattingService } from '../services/FormattingService';
+
+/**
+ * 옵션 정의
+ */
+interface OptionSpec {
+  /** 긴 이름 (--language) */
+  name: string;
+  /** 짧은 이름 (-l) */
+  alias?: string;
+  /** 값을 받는 옵션인지 여부 */
+  takesValue: boolean;
+}
+
+export class CliArgumentParser {
+  /** 지원 명령 목록 */
+  public static readonly COMMANDS: CliCommand[] = ['format', 'check', 'align', 'json', 'yaml', 'export-ide'];
+
+  /** IDE 설정 파일 형식 목록 */
+  private static readonly IDE_FORMATS: IdeExportFormat[] = ['vscode', 'intellij', 'eclipse', 'prettier', 'eslint', 'stylelint', 'pyproject', 'editorconfig'];
+
+  /** 옵션 목록 */
+  private static readonly OPTIONS: OptionSpec[] = [
+    { name: 'language', alias: 'l', takesValue: true },
+    { name: 'preset', alias: 'p', takesValue: true },
+    { name: 'config', alias: 'c', takesValue: true },
+    { name: 'write', alias: 'w', takesValue: false },
+    { name: 'diff', takesValue: false },
+    { name: 'delimiter', alias: 'd', takesValue: true },
+    { name: 'format', alias: 'f', takesValue: true },
+    { name: 'output', alias: 'o', takesValue: true },
+    { name: 'help', alias: 'h', takesValue: false },
+    { name: 'version', alias: 'v', takesValue: false }
+  ];
+
+  /**
+   * CLI 인자를 파싱합니다.
+   * @param argv 프로그램 이름을 제외한 인자 목록
+   * @returns 파싱된 옵션
+   * @throws 알 수 없는 명령/옵션이나 잘못된 값이면 Error
+   */
+  public static parse(argv: string[]): CliOptions {
+    const options: CliOptions = { command: null, args: [], write: false, diff: false, help: false, version: false };
+    const positionals: string[] = [];
+
+    for (let index = 0; index < argv.length; index++) {
+      const arg = argv[index];
+
+      if (arg === '--') {
+        positionals.push(...argv.slice(index + 1));
+        break;
+      }
+      if (arg === '-' || !arg.startsWith('-')) {
+        positionals.push(arg);
+        continue;
+      }
+
+      const [rawName, inlineValue] = this.splitInlineValue(arg);
+      const spec = this.findOption(rawName);
+      if (!spec) {
+        throw new Error(`알 수 없는 옵션입니다: ${rawName}`);
+      }
+
+      if (!spec.takesValue) {
+        if (inlineValue !== undefined) {
+          throw new Error(`--${spec.name} 옵션은 값을 받지 않습니다.`);
+        }
+        this.applyFlag(options, spec.name);
+        continue;
+      }
+
+      const value = inlineValue ?? argv[++index];
+      if (value === undefined) {
+        throw new Error(`--${spec.name} 옵션에 값이 필요합니다.`);
+      }
+      this.applyValue(options, spec.name, value);
+    }
+
+    if (positionals.length > 0) {
+      const command = positionals[0] as CliCommand;
+      if (!this.COMMANDS.includes(command)) {
+        throw new Error(`알 수 없는 명령입니다: ${positionals[0]} (사용 가능: ${this.COMMANDS.join(', ')})`);
+      }
+      options.command = command;
+      options.args = positionals.slice(1);
+    }
+
+    return options;
+  }
+
+  /**
+   * `--name=value`를 이름과 값으로 나눕니다.
+   */
+  private static splitInlineValue(arg: string): [string, string | undefined] {
+    const equals = arg.indexOf('=');
+    return arg.startsWith('--') && equals !== -1
+      ? [arg.slice(0, equals), arg.slice(equals + 1)]
+      : [arg, undefined];
+  }
+
+  private static findOption(rawName: string): OptionSpec | undefined {
+    return rawName.startsWith('--')
+      ? this.OPTIONS.find(option => option.name === rawName.slice(2))
+      : this.OPTIONS.find(option => option.alias === rawName.slice(1));
+  }
+
+  private static applyFlag(options: CliOptions, name: string): void {
+    switch (name) {
+      case 'write':
+        options.write = true;
+        break;
+      case 'diff':
+        options.diff = true;
+        break;
+      case 'help':
+        options.help = true;
+        break;
+      case 'version':
+        options.version = true;
+        break;
+    }
+  }
+
+  private static applyValue(options: CliOptions, name: string, value: string): void {
+    switch (name) {
+      case 'language': {
+        const languages = FormattingService.getSupportedLanguages();
+        if (!languages.includes(value as SupportedLanguage)) {
+          throw new Error(`지원하지 않는 언어입니다: ${value} (사용 가능: ${languages.join(', ')})`);
+        }
+        options.language = value as SupportedLanguage;
+        break;
+      }
+      case 'format':
+        if (!this.IDE_FORMATS.includes(value as IdeExportFormat)) {
+          throw new Error(`지원하지 않는 설정 파일 형식입니다: ${value} (사용 가능: ${this.IDE_FORMATS.join(', ')})`);
+        }
+        options.ideFormat = value as IdeExportFormat;
+        break;
+      case 'preset':
+        options.preset = value;
+        break;
+      case 'config':
+        options.config = value;
+        break;
+      case 'delimiter':
+        if (value === '') {
+          throw new Error('--delimiter 옵션에 빈 문자열은 쓸 수 없습니다.');
+        }
+        options.delimiter = value;
+        break;
+      case 'output':
+        options.output = value;
+        break;
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * CLI 컨벤션 해석기
+ * --preset(프리셋 ID)과 --config(JSON 파일)로 포매팅에 쓸 컨벤션을 결정합니다.
+ * --config 파일은 컨벤션 객체, 프리셋 객체, 프리셋 라이브러리 파일을 모두 받습니다.
+ * 둘 다 없으면 파일마다 프로젝트 설정(.webalignrc)을 찾아 적용합니다.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { SupportedLanguage, FormattingConvention } from '../types/FormattingTypes';
+import { CliOptions, ResolvedConvention } from '../types/CliTypes';
+import { PresetValidationError } from '../types/PresetLibraryTypes';
+import { ConfigFileReader } from '../types/ProjectConfigTypes';
+import { FormattingService } from '../services/FormattingService';
+import { UserPresetService } from '../services/UserPresetService';
+import { ProjectConfigService } from '../services/ProjectConfigService';
+import { PresetValidator } from '../utils/PresetValidator';
+
+export class CliConventionResolver {
+  /** 프로젝트 설정 파일을 읽는 Node 파일 시스템 구현 */
+  private static readonly fileReader: ConfigFileReader = {
+    readFile: filePath => (fs.existsSync(filePath) && fs.statSync(filePath).isFile() ? fs.readFileSync(filePath, 'utf8') : null)
+  };
+
+  /**
+   * 옵션으로 지정한 컨벤션을 찾습니다.
+   * @param options CLI 옵션
+   * @param cwd 상대 경로 기준 디렉토리
+   * @returns 지정한 컨벤션 (--preset/--config가 없으면 null: 파일마다 언어의 기본 프리셋 사용)
+   * @throws 프리셋이 없거나 설정 파일이 유효하지 않으면 Error
+   */
+  public static resolve(options: CliOptions, cwd: string): ResolvedConvention | null {
+    const resolved = options.config
+      ? this.resolveConfig(options.config, options, cwd)
+      : options.preset
+        ? this.resolvePreset(options.preset)
+        : null;
+
+    if (resolved && options.language && resolved.language !== options.language) {
+      throw new Error(
+        `${resolved.source}의 언어(${resolved.language})가 --language(${options.language})와 다릅니다.`
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * 언어의 기본 컨벤션을 반환합니다.
+   */
+  public static getDefault(language: SupportedLanguage): ResolvedConvention {
+    const preset = FormattingService.getDefaultPreset(language);
+    if (!preset) {
+      throw new Error(`${language} 언어의 프리셋이 없습니다.`);
+    }
+    return { language, convention: preset.convention, source: preset.id };
+  }
+
+  /**
+   * 프로젝트 설정(.webalignrc)에서 파일의 컨벤션을 찾습니다.
+   * @param filePath 파일 경로
+   * @param cwd 상대 경로 기준 디렉토리
+   * @returns 파일에 적용되는 컨벤션 (언어를 알 수 없으면 null)
+   * @throws 설정 파일이 유효하지 않으면 Error
+   */
+  public static resolveProject(filePath: string, cwd: string): ResolvedConvention | null {
+    const result = ProjectConfigService.resolveConvention(path.resolve(cwd, filePath), this.fileReader);
+    if (!result.language || !result.convention) {
+      return null;
+    }
+    const source = result.configFiles.length > 0 ? result.configFiles[result.configFiles.length - 1] : result.presetId;
+    return { language: result.language, convention: result.convention, source: source ?? filePath };
+  }
+
+  /**
+   * 파일이 무시 파일(.webalignignore)에 의해 제외되는지 확인합니다.
+   */
+  public static isIgnored(filePath: string, cwd: string): boolean {
+    return ProjectConfigService.isIgnored(path.resolve(cwd, filePath), this.fileReader);
+  }
+
+  private static resolvePreset(presetId: string): ResolvedConvention {
+    const preset = FormattingService.getPresetById(presetId);
+    if (!preset) {
+      throw new Error(`프리셋을 찾을 수 없습니다: ${presetId}\n사용 가능: ${FormattingService.getAllPresets().map(item => item.id).join(', ')}`);
+    }
+    return { language: preset.language, convention: preset.convention, source: preset.id };
+  }
+
+  /**
+   * --config 파일을 읽습니다.
+   * - 프리셋 라이브러리 파일: --preset ID의 프리셋 (프리셋이 하나면 생략 가능)
+   * - 프리셋 객체 ({ language, convention, ... })
+   * - 컨벤션 객체: --preset(없으면 --language의 기본 프리셋) 위에 덮어씀
+   */
+  private static resolveConfig(configPath: string, options: CliOptions, cwd: string): ResolvedConvention {
+    const absolute = path.resolve(cwd, configPath);
+    if (!fs.existsSync(absolute)) {
+      throw new Error(`설정 파일을 찾을 수 없습니다: ${configPath}`);
+    }
+
+    const content = fs.readFileSync(absolute, 'utf8');
+    let value: unknown;
+    try {
+      value = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`${configPath}: JSON 구문 오류: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!PresetValidator.isObject(value)) {
+      throw new Error(`${configPath}: 설정 파일은 객체여야 합니다.`);
+    }
+
+    if (Array.isArray(value.presets)) {
+      return this.resolveLibrary(configPath, content, options.preset);
+    }
+
+    if (PresetValidator.isObject(value.convention)) {
+      const basename = path.basename(configPath);
+      const presetValue = { id: basename, name: basename, ...value };
+      this.throwIfInvalid(configPath, PresetValidator.validatePreset(presetValue, '$'));
+      const preset = PresetValidator.toPreset(presetValue);
+      return { language: preset.language, convention: preset.convention, source: configPath };
+    }
+
+    const base = options.preset
+      ? this.resolvePreset(options.preset)
+      : options.language
+        ? this.getDefault(options.language)
+        : null;
+    if (!base) {
+      throw new Error(`${configPath}: 컨벤션 파일에는 --language 또는 --preset이 필요합니다.`);
+    }
+
+    const convention = { ...base.convention, ...value } as Record<string, unknown>;
+    this.throwIfInvalid(configPath, PresetValidator.validateConvention(base.language, convention, '$'));
+    return { language: base.language, convention: convention as unknown as FormattingConvention, source: configPath };
+  }
+
+  private static resolveLibrary(configPath: string, content: string, presetId: string | undefined): ResolvedConvention {
+    const result = UserPresetService.parseLibrary(content);
+    this.throwIfInvalid(configPath, result.errors);
+
+    const preset = presetId
+      ? result.imported.find(item => item.id === presetId)
+      : result.imported.length === 1 ? result.imported[0] : undefined;
+    if (!preset) {
+      throw new Error(presetId
+        ? `${configPath}에 프리셋이 없습니다: ${presetId}`
+        : `${configPath}에 프리셋이 여러 개 있습니다. --preset으로 고르세요: ${result.imported.map(item => item.id).join(', ')}`);
+    }
+    return { language: preset.language, convention: preset.convention, source: `${configPath}#${preset.id}` };
+  }
+
+  private static throwIfInvalid(configPath: string, errors: PresetValidationError[]): void {
+    if (errors.length > 0) {
+      throw new Error(`${configPath}: 유효하지 않은 설정입니다.\n${errors.map(error => `  ${error.path}: ${error.message}`).join('\n')}`);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * CLI 입력 해석기
+ * 파일 경로, 디렉토리, 글롭 패턴, 표준 입력('-')을 읽을 입력 목록으로 바꿉니다.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { CliInput } from '../types/CliTypes';
+import { GlobMatcher } from '../utils/GlobMatcher';
+import { FormattingService } from '../services/FormattingService';
+
+export class CliInputResolver {
+  /** 디렉토리를 탐색할 때 건너뛰는 디렉토리 */
+  private static readonly IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build']);
+
+  /**
+   * 위치 인자를 파일 경로 목록으로 펼칩니다.
+   * 디렉토리는 지원 언어 확장자의 파일만, 글롭은 일치하는 모든 파일을 포함합니다.
+   * @param patterns 파일/디렉토리/글롭 목록 ('-'는 표준 입력으로 그대로 유지)
+   * @param cwd 상대 경로 기준 디렉토리
+   * @returns 중복을 제거한 경로 목록 (cwd 기준 상대 경로)
+   * @throws 존재하지 않는 경로나 일치하는 파일이 없는 글롭이면 Error
+   */
+  public static expand(patterns: string[], cwd: string): string[] {
+    const files: string[] = [];
+
+    for (const pattern of patterns) {
+      if (pattern === '-') {
+        files.push(pattern);
+      } else if (this.isGlob(pattern)) {
+        const matched = this.expandGlob(pattern, cwd);
+        if (matched.length === 0) {
+          throw new Error(`패턴과 일치하는 파일이 없습니다: ${pattern}`);
+        }
+        files.push(...matched);
+      } else {
+        const absolute = path.resolve(cwd, pattern);
+        if (!fs.existsSync(absolute)) {
+          throw new Error(`파일을 찾을 수 없습니다: ${pattern}`);
+        }
+        if (fs.statSync(absolute).isDirectory()) {
+          files.push(...this.walk(absolute)
+            .filter(file => FormattingService.getLanguageByFilename(file) !== undefined)
+            .map(file => this.toDisplayPath(file, cwd)));
+        } else {
+          files.push(pattern);
+        }
+      }
+    }
+
+    return [...new Set(files)];
+  }
+
+  /**
+   * 입력 목록을 읽습니다.
+   * @param files expand()의 결과 (비어 있으면 표준 입력 하나)
+   * @param cwd 상대 경로 기준 디렉토리
+   */
+  public static async read(files: string[], cwd: string): Promise<CliInput[]> {
+    if (files.length === 0) {
+      return [{ path: null, content: await this.readStdin() }];
+    }
+
+    const inputs: CliInput[] = [];
+    for (const file of files) {
+      inputs.push(file === '-'
+        ? { path: null, content: await this.readStdin() }
+        : { path: file, content: fs.readFileSync(path.resolve(cwd, file), 'utf8') });
+    }
+    return inputs;
+  }
+
+  /**
+   * 표준 입력을 끝까지 읽습니다.
+   * @throws 표준 입력이 터미널이면 (파이프/리디렉션이 없으면) Error
+   */
+  public static async readStdin(): Promise<string> {
+    if (process.stdin.isTTY) {
+      throw new Error('입력 파일을 지정하거나 표준 입력으로 코드를 전달하세요.');
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private static isGlob(pattern: string): boolean {
+    return /[*?[{]/.test(pattern);
+  }
+
+  /**
+   * 글롭 패턴의 고정된 앞부분 디렉토리부터 탐색해 일치하는 파일을 찾습니다.
+   * 셸 글롭처럼 패턴은 cwd(절대 패턴이면 루트)에 고정됩니다.
+   */
+  private static expandGlob(pattern: string, cwd: string): string[] {
+    const normalized = pattern.replace(/\\/g, '/');
+    const segments = normalized.split('/');
+    const firstGlob = segments.findIndex(segment => this.isGlob(segment));
+    const baseDirectory = path.resolve(cwd, segments.slice(0, firstGlob).join('/') || '.');
+    if (!fs.existsSync(baseDirectory) || !fs.statSync(baseDirectory).isDirectory()) {
+      return [];
+    }
+
+    const absolutePattern = path.isAbsolute(normalized);
+    // 앞에 '/'를 붙이면 GlobMatcher가 패턴을 기준 디렉토리에 고정함
+    const anchored = `/${normalized.replace(/^\.?\//, '')}`;
+
+    return this.walk(baseDirectory)
+      .filter(file => {
+        const target = absolutePattern
+          ? file.replace(/\\/g, '/')
+          : path.relative(cwd, file).replace(/\\/g, '/');
+        return GlobMatcher.matches(anchored, target.replace(/^\//, ''));
+      })
+      .map(file => this.toDisplayPath(file, cwd))
+      .sort();
+  }
+
+  /**
+   * 디렉토리 아래의 모든 파일 경로(절대 경로)를 반환합니다.
+   */
+  private static walk(directory: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!this.IGNORED_DIRECTORIES.has(entry.name)) {
+          files.push(...this.walk(fullPath));
+        }
+      } else if (entry.isFile()) {
+        files.push(fullPath);
+      }
+    }
+    return files.sort();
+  }
+
+  private static toDisplayPath(file: string, cwd: string): string {
+    const relative = path.relative(cwd, file);
+    return relative.startsWith('..') ? file : relative;
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * 명령줄 인터페이스
+ * FormattingService를 감싸 스크립트와 CI에서 웹 도구와 같은 컨벤션으로 포매팅/검사합니다.
+ *
+ * 종료 코드: 0 성공, 1 포매팅이 필요한 파일 있음(check), 2 사용법/포매팅 오류
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import packageJson from '../../package.json';
+import { FormattingResult, SupportedLanguage } from '../types/FormattingTypes';
+import { CliInput, CliOptions, ResolvedConvention } from '../types/CliTypes';
+import { LineRange } from '../types/DiffTypes';
+import { FormattingService } from '../services/FormattingService';
+import { CliArgumentParser } from './CliArgumentParser';
+import { CliInputResolver } from './CliInputResolver';
+import { CliConventionResolver } from './CliConventionResolver';
+
+/**
+ * 입력 하나를 변환하는 함수
+ */
+type InputTransform = (input: CliInput) => FormattingResult;
+
+export class CodeFormatterCli {
+  public static readonly EXIT_OK = 0;
+  public static readonly EXIT_UNFORMATTED = 1;
+  public static readonly EXIT_ERROR = 2;
+
+  /**
+   * 도움말을 만듭니다. (나중에 등록한 언어도 목록에 나타나도록 호출할 때마다 생성)
+   */
+  private static usage(): string {
+    return `사용법: code-formatter <명령> [옵션] [파일|디렉토리|글롭|-]...
+
+명령:
+  format                 코드를 포매팅해 표준 출력으로 내보냅니다 (--write면 파일을 덮어씀)
+  check                  포매팅이 필요한 파일을 출력하고, 있으면 종료 코드 1을 반환합니다
+  align                  구분자 기준으로 컬럼을 정렬합니다
+  json minify|prettify   JSON을 압축하거나 정리합니다
+  yaml minify|prettify   YAML을 압축하거나 정리합니다
+  export-ide             컨벤션을 IDE/도구 설정 파일로 내보냅니다
+
+옵션:
+  -l, --language <언어>   ${FormattingService.getSupportedLanguages().join(', ')} (생략하면 확장자/내용으로 추론)
+  -p, --preset <ID>       사용할 프리셋 ID (생략하면 언어의 기본 프리셋)
+  -c, --config <파일>     컨벤션/프리셋/프리셋 라이브러리 JSON 파일
+                          (--preset/--config가 없으면 파일마다 .webalignrc를 찾아 적용)
+  -w, --write             결과를 원본 파일에 씁니다
+      --diff              format/check: 파일 대신 unified diff(없으면 표준 입력)를 읽고
+                          diff가 추가/수정한 줄만 포매팅합니다 (예: git diff -U0 | code-formatter check --diff)
+  -d, --delimiter <문자>  align 구분자 (기본값: /)
+  -f, --format <형식>     export-ide 형식: vscode, intellij, eclipse, prettier, eslint, stylelint, pyproject, editorconfig
+  -o, --output <경로>     결과를 쓸 파일 (export-ide는 디렉토리도 가능)
+  -h, --help              도움말을 출력합니다
+  -v, --version           버전을 출력합니다
+
+파일을 지정하지 않으면 표준 입력을 읽습니다.
+.webalignignore에 맞는 파일은 건너뜁니다.`;
+  }
+
+  /**
+   * CLI를 실행합니다.
+   * @param argv 프로그램 이름을 제외한 인자 목록
+   * @param cwd 상대 경로 기준 디렉토리
+   * @returns 종료 코드
+   */
+  public static async run(argv: string[], cwd: string = process.cwd()): Promise<number> {
+    try {
+      const options = CliArgumentParser.parse(argv);
+
+      if (options.version) {
+        this.print(`${packageJson.version}\n`);
+        return this.EXIT_OK;
+      }
+      if (options.help) {
+        this.print(`${this.usage()}\n`);
+        return this.EXIT_OK;
+      }
+      if (!options.command) {
+        this.printError(`${this.usage()}\n`);
+        return this.EXIT_ERROR;
+      }
+
+      if (options.diff && options.command !== 'format' && options.command !== 'check') {
+        throw new Error('--diff는 format, check 명령에서만 쓸 수 있습니다.');
+      }
+
+      switch (options.command) {
+        case 'format':
+          return await this.runFormat(options, cwd);
+        case 'check':
+          return await this.runCheck(options, cwd);
+        case 'align':
+          return await this.runTransform(options, await this.readInputs(options.args, cwd), cwd,
+            input => FormattingService.alignByDelimiter(input.content, options.delimiter ?? '/'));
+        case 'json':
+          return await this.runJson(options, cwd);
+        case 'yaml':
+          return await this.runYaml(options, cwd);
+        case 'export-ide':
+          return this.runExportIde(options, cwd);
+      }
+    } catch (error) {
+      this.printError(`오류: ${error instanceof Error ? error.message : String(error)}\n`);
+      return this.EXIT_ERROR;
+    }
+  }
+
+  /**
+   * format 명령: 포매팅 결과를 표준 출력이나 원본 파일에 씁니다.
+   */
+  private static async runFormat(options: CliOptions, cwd: string): Promise<number> {
+    const resolved = CliConventionResolver.resolve(options, cwd);
+    const { inputs, changedLines } = await this.readFormatInputs(options, resolved, cwd);
+    await this.loadLanguages();
+    return this.runTransform(options, inputs, cwd,
+      input => this.formatInput(input, options, resolved, cwd, changedLines));
+  }
+
+  /**
+   * check 명령: 포매팅 결과가 원본과 다른 파일을 출력합니다.
+   */
+  private static async runCheck(options: CliOptions, cwd: string): Promise<number> {
+    const resolved = CliConventionResolver.resolve(options, cwd);
+    const { inputs, changedLines } = await this.readFormatInputs(options, resolved, cwd);
+    await this.loadLanguages();
+    let unformatted = 0;
+    let failed = 0;
+
+    for (const input of inputs) {
+      const result = this.applyTransform(input, input => this.formatInput(input, options, resolved, cwd, changedLines));
+      if (!result) {
+        failed++;
+      } else if (result.formattedCode !== input.content) {
+        unformatted++;
+        this.print(`${this.displayName(input)}\n`);
+      }
+    }
+
+    if (failed > 0) {
+      this.printError(`${failed}개 파일을 검사하지 못했습니다.\n`);
+      return this.EXIT_ERROR;
+    }
+    if (unformatted > 0) {
+      this.printError(`${inputs.length}개 중 ${unformatted}개 파일의 포매팅이 필요합니다.\n`);
+      return this.EXIT_UNFORMATTED;
+    }
+    this.printError(`${inputs.length}개 파일이 모두 컨벤션을 따릅니다.\n`);
+    return this.EXIT_OK;
+  }
+
+  /**
+   * json 명령: 첫 인자(minify/prettify)에 따라 JSON을 변환합니다.
+   */
+  private static async runJson(options: CliOptions, cwd: string): Promise<number> {
+    const [mode, ...files] = options.args;
+    if (mode !== 'minify' && mode !== 'prettify') {
+      throw new Error('json 명령에는 minify 또는 prettify가 필요합니다. (예: code-formatter json prettify data.json)');
+    }
+    return this.runTransform(options, await this.readInputs(files, cwd), cwd, input => mode === 'minify'
+      ? FormattingService.minifyJson(input.content)
+      : FormattingService.prettifyJson(input.content));
+  }
+
+  /**
+   * yaml 명령: 첫 인자(minify/prettify)에 따라 YAML을 변환합니다.
+   */
+  private static async runYaml(options: CliOptions, cwd: string): Promise<number> {
+    const [mode, ...files] = options.args;
+    if (mode !== 'minify' && mode !== 'prettify') {
+      throw new Error('yaml 명령에는 minify 또는 prettify가 필요합니다. (예: code-formatter yaml prettify config.yaml)');
+    }
+    return this.runTransform(options, await this.readInputs(files, cwd), cwd, input => mode === 'minify'
+      ? FormattingService.minifyYaml(input.content)
+      : FormattingService.prettifyYaml(input.content));
+  }
+
+  /**
+   * export-ide 명령: 컨벤션을 설정 파일로 내보냅니다.
+   */
+  private static runExportIde(options: CliOptions, cwd: string): number {
+    if (!options.ideFormat) {
+      throw new Error('export-ide 명령에는 --format이 필요합니다.');
+    }
+
+    const resolved = CliConventionResolver.resolve(options, cwd) ??
+      (options.language ? CliConventionResolver.getDefault(options.language) : null);
+    if (!resolved) {
+      throw new Error('export-ide 명령에는 --preset, --config 또는 --language가 필요합니다.');
+    }
+    if (!FormattingService.getSupportedIdeFormats(resolved.language).includes(options.ideFormat)) {
+      throw new Error(`${resolved.language} 언어는 ${options.ideFormat} 형식을 지원하지 않습니다.`);
+    }
+
+    const result = FormattingService.exportToIde(resolved.convention, resolved.language, options.ideFormat);
+    if (!options.output && !options.write) {
+      this.print(result.content.endsWith('\n') ? result.content : `${result.content}\n`);
+      return this.EXIT_OK;
+    }
+
+    let target = path.resolve(cwd, options.output ?? result.filename);
+    const outputIsDirectory = options.output !== undefined &&
+      (/[\\/]$/.test(options.output) || (fs.existsSync(target) && fs.statSync(target).isDirectory()));
+    if (outputIsDirectory) {
+      target = path.join(target, result.filename);
+    }
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, result.content);
+    this.printError(`${path.relative(cwd, target) || target}을(를) 만들었습니다.\n\n${result.instructions}\n`);
+    return this.EXIT_OK;
+  }
+
+  /**
+   * 입력마다 변환을 실행하고 결과를 씁니다.
+   * --write면 바뀐 파일만 덮어쓰고(표준 입력은 표준 출력으로), --output이면 그 파일에,
+   * 둘 다 없으면 표준 출력으로 내보냅니다.
+   */
+  private static async runTransform(
+    options: CliOptions,
+    inputs: CliInput[],
+    cwd: string,
+    transform: InputTransform
+  ): Promise<number> {
+    if (options.output && inputs.length > 1) {
+      throw new Error('--output은 입력이 하나일 때만 쓸 수 있습니다.');
+    }
+
+    let failed = 0;
+    for (const input of inputs) {
+      const result = this.applyTransform(input, transform);
+      if (!result) {
+        failed++;
+        continue;
+      }
+
+      if (options.output) {
+        fs.writeFileSync(path.resolve(cwd, options.output), result.formattedCode);
+      } else if (options.write && input.path) {
+        if (result.formattedCode !== input.content) {
+          fs.writeFileSync(path.resolve(cwd, input.path), result.formattedCode);
+          this.printError(`${input.path}\n`);
+        }
+      } else {
+        this.print(result.formattedCode);
+      }
+    }
+
+    return failed > 0 ? this.EXIT_ERROR : this.EXIT_OK;
+  }
+
+  /**
+   * 입력을 읽습니다. 무시 파일(.webalignignore)에 맞는 파일은 제외합니다.
+   */
+  private static async readInputs(patterns: string[], cwd: string): Promise<CliInput[]> {
+    const files = CliInputResolver.expand(patterns, cwd);
+    const included = files.filter(file => file === '-' || !CliConventionResolver.isIgnored(file, cwd));
+    // 모두 제외되면 표준 입력을 읽지 않도록 빈 목록 반환
+    return files.length > 0 && included.length === 0 ? [] : CliInputResolver.read(included, cwd);
+  }
+
+  /**
+   * format/check 입력을 읽습니다.
+   * --diff면 위치 인자(없으면 표준 입력)를 unified diff로 읽어, 바뀐 줄이 있고 포매팅할 수 있는 언어의
+   * 파일과 파일별 변경 줄 범위를 반환합니다. diff 경로는 cwd 기준입니다. (git diff는 저장소 루트에서 실행)
+   */
+  private static async readFormatInputs(
+    options: CliOptions,
+    resolved: ResolvedConvention | null,
+    cwd: string
+  ): Promise<{ inputs: CliInput[]; changedLines: Map<string, LineRange[]> | null }> {
+    if (!options.diff) {
+      return { inputs: await this.readInputs(options.args, cwd), changedLines: null };
+    }
+
+    const changedLines = new Map<string, LineRange[]>();
+    for (const diff of await CliInputResolver.read(CliInputResolver.expand(options.args, cwd), cwd)) {
+      for (const file of FormattingService.parseUnifiedDiff(diff.content)) {
+        if (file.newPath && file.changedRanges.length > 0) {
+          changedLines.set(file.newPath, [...(changedLines.get(file.newPath) ?? []), ...file.changedRanges]);
+        }
+      }
+    }
+
+    // 언어를 정할 수 없는 파일(문서, 이미지 등)과 지정한 언어가 아닌 파일은 건너뜀
+    const language = resolved?.language ?? options.language;
+    const files = [...changedLines.keys()].filter(file => {
+      if (!fs.existsSync(path.resolve(cwd, file))) {
+        throw new Error(`diff의 파일을 찾을 수 없습니다: ${file} (diff를 만든 디렉토리에서 실행하세요)`);
+      }
+      const fileLanguage = resolved
+        ? FormattingService.getLanguageByFilename(file)
+        : CliConventionResolver.resolveProject(file, cwd)?.language;
+      return fileLanguage !== undefined && (!language || fileLanguage === language) &&
+        !CliConventionResolver.isIgnored(file, cwd);
+    });
+    return { inputs: files.length > 0 ? await CliInputResolver.read(files, cwd) : [], changedLines };
+  }
+
+  /**
+   * 포매터가 쓰는 모듈을 불러옵니다. (입력마다 언어가 다를 수 있으므로 모든 언어를 한 번에)
+   */
+  private static async loadLanguages(): Promise<void> {
+    await Promise.all(FormattingService.getSupportedLanguages().map(language => FormattingService.loadLanguage(language)));
+  }
+
+  /**
+   * 입력 하나를 변환하고 진단을 출력합니다.
+   * @returns 변환 결과 (오류가 있으면 null, 다른 입력은 계속 처리)
+   */
+  private static applyTransform(input: CliInput, transform: InputTransform): FormattingResult | null {
+    try {
+      const result = transform(input);
+      this.reportDiagnostics(input, result);
+      return result.errors.length > 0 ? null : result;
+    } catch (error) {
+      this.printError(`${this.displayName(input)}: ${error instanceof Error ? error.message : String(error)}\n`);
+      return null;
+    }
+  }
+
+  /**
+   * 입력 하나를 포매팅합니다. (--diff면 변경 줄 범위만)
+   */
+  private static formatInput(
+    input: CliInput,
+    options: CliOptions,
+    resolved: ResolvedConvention | null,
+    cwd: string,
+    changedLines: Map<string, LineRange[]> | null
+  ): FormattingResult {
+    const { language, convention } = this.resolveInputConvention(input, options, resolved, cwd);
+    const ranges = input.path ? changedLines?.get(input.path) : undefined;
+    return ranges
+      ? FormattingService.formatChangedLines(input.content, language, convention, ranges)
+      : FormattingService.formatCode(input.content, language, convention);
+  }
+
+  /**
+   * 입력에 적용할 언어와 컨벤션을 정합니다.
+   * 언어는 --language, 지정한 컨벤션, 파일 확장자, 코드 내용 순으로 정합니다.
+   * --preset/--config가 없으면 프로젝트 설정(.webalignrc)의 언어와 컨벤션을 씁니다. (--language와 언어가 다르면 무시)
+   */
+  private static resolveInputConvention(
+    input: CliInput,
+    options: CliOptions,
+    resolved: ResolvedConvention | null,
+    cwd: string
+  ): ResolvedConvention {
+    const project = !resolved && input.path ? CliConventionResolver.resolveProject(input.path, cwd) : null;
+    if (project && (!options.language || options.language === project.language)) {
+      return project;
+    }
+
+    const language = this.resolveLanguage(input, options, resolved);
+    return resolved ?? CliConventionResolver.getDefault(language);
+  }
+
+  private static resolveLanguage(input: CliInput, options: CliOptions, resolved: ResolvedConvention | null): SupportedLanguage {
+    const byFilename = input.path ? FormattingService.getLanguageByFilename(input.path) : undefined;
+    if (resolved && byFilename && byFilename !== resolved.language && !options.language) {
+      throw new Error(`파일 언어(${byFilename})가 컨벤션 언어(${resolved.language})와 다릅니다.`);
+    }
+
+    const language = options.language ?? resolved?.language ?? byFilename ??
+      FormattingService.detectLanguage(input.content).language;
+    if (!language) {
+      throw new Error('언어를 알 수 없습니다. --language로 지정하세요.');
+    }
+    return language;
+  }
+
+  /**
+   * 진단을 `파일:줄:열: 심각도: 메시지 [규칙]` 형식으로 표준 오류에 출력합니다.
+   */
+  private static reportDiagnostics(input: CliInput, result: FormattingResult): void {
+    for (const diagnostic of result.diagnostics) {
+      if (diagnostic.severity === 'info') {
+        continue;
+      }
+      this.printError(
+        `${this.displayName(input)}:${diagnostic.startLine}:${diagnostic.startColumn}: ` +
+        `${diagnostic.severity}: ${diagnostic.message} [${diagnostic.ruleId}]\n`
+      );
+    }
+  }
+
+  private static displayName(input: CliInput): string {
+    return input.path ?? '<stdin>';
+  }
+
+  private static print(text: string): void {
+    process.stdout.write(text);
+  }
+
+  private static printError(text: string): void {
+    process.stderr.write(text);
+  }
+}
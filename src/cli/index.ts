@@ -0,0 +1,10 @@
+/**
+ * CLI 진입점
+ * `npm run build:cli`로 dist-cli/code-formatter.cjs에 번들됩니다.
+ */
+
+import { CodeFormatterCli } from './CodeFormatterCli';
+
+CodeFormatterCli.run(process.argv.slice(2)).then(exitCode => {
+  process.exitCode = exitCode;
+});
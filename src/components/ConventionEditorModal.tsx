@@ -0,0 +1,314 @@
+/**
+ * 컨벤션 편집기 모달 컴포넌트
+ * 언어별 스키마로 생성한 입력 컨트롤로 컨벤션을 수정하고,
+ * 예시 코드 포매팅 결과를 실시간으로 미리 보며 사용자 프리셋으로 저장합니다.
+ */
+
+import React, { useState, useEffect, useMemo, useDeferredValue } from 'react';
+import {
+  Modal,
+  Select,
+  InputNumber,
+  Switch,
+  Input,
+  Button,
+  Space,
+  Typography,
+  Row,
+  Col,
+  Divider,
+  Tag,
+  Tooltip,
+  message
+} from 'antd';
+import { SaveOutlined, UndoOutlined, QuestionCircleOutlined } from '@ant-design/icons';
+import {
+  SupportedLanguage,
+  PresetConvention,
+  FormattingConvention
+} from '../types/FormattingTypes';
+import { ConventionFieldDescriptor } from '../types/ConventionSchemaTypes';
+import { FormattingService } from '../services/FormattingService';
+import { UserPresetService } from '../services/UserPresetService';
+
+const { Text } = Typography;
+const { Option, OptGroup } = Select;
+
+interface ConventionEditorModalProps {
+  /** 모달 표시 여부 */
+  visible: boolean;
+  /** 모달 닫기 콜백 */
+  onCancel: () => void;
+  /** 프로그래밍 언어 */
+  language: SupportedLanguage;
+  /** 편집을 시작할 프리셋 */
+  basePreset: PresetConvention | null;
+  /** 사용자 프리셋으로 저장했을 때 호출되는 콜백 함수 */
+  onSave: (preset: PresetConvention) => void;
+}
+
+/**
+ * 컨벤션 편집기 모달 컴포넌트
+ */
+export const ConventionEditorModal: React.FC<ConventionEditorModalProps> = ({
+  visible,
+  onCancel,
+  language,
+  basePreset,
+  onSave
+}) => {
+  const [startPresetId, setStartPresetId] = useState<string>('');
+  const [convention, setConvention] = useState<FormattingConvention | null>(null);
+  const [presetName, setPresetName] = useState<string>('');
+  const [presetDescription, setPresetDescription] = useState<string>('');
+  // 포매터 모듈을 불러온 언어 (미리보기는 불러온 뒤에 계산)
+  const [loadedLanguage, setLoadedLanguage] = useState<SupportedLanguage | null>(null);
+
+  /**
+   * 시작할 수 있는 프리셋 목록 (내장 + 사용자 프리셋)
+   */
+  const startPresets = useMemo(() => ({
+    builtIn: FormattingService.getPresetsByLanguage(language),
+    user: UserPresetService.getByLanguage(language)
+  }), [language, visible]);
+
+  const fields = useMemo(() => FormattingService.getConventionFields(language), [language]);
+
+  /**
+   * 프리셋에서 편집을 시작합니다.
+   */
+  const startFrom = (preset: PresetConvention | undefined) => {
+    if (!preset) {
+      return;
+    }
+    setStartPresetId(preset.id);
+    setConvention({ ...preset.convention });
+    setPresetName(UserPresetService.isUserPreset(preset.id) ? preset.name : `${preset.name} (사용자 정의)`);
+    setPresetDescription(preset.description);
+  };
+
+  /**
+   * 모달을 열 때 선택된 프리셋(없으면 언어의 첫 프리셋)에서 시작합니다.
+   */
+  useEffect(() => {
+    if (visible) {
+      const preset = basePreset?.language === language
+        ? basePreset
+        : FormattingService.getPresetsByLanguage(language)[0];
+      startFrom(preset);
+    }
+  }, [visible, language, basePreset]);
+
+  /**
+   * 예시 코드 미리보기 (입력 중에는 이전 결과를 유지하며 지연 계산)
+   */
+  useEffect(() => {
+    if (visible) {
+      FormattingService.loadLanguage(language)
+        .then(() => setLoadedLanguage(language))
+        .catch(error => console.error(error));
+    }
+  }, [visible, language]);
+
+  const deferredConvention = useDeferredValue(convention);
+  const preview = useMemo(() => {
+    if (!deferredConvention || loadedLanguage !== language) {
+      return null;
+    }
+    return FormattingService.formatCode(
+      FormattingService.getExampleCode(language),
+      language,
+      deferredConvention
+    );
+  }, [deferredConvention, language, loadedLanguage]);
+
+  /**
+   * 필드 값을 변경합니다.
+   */
+  const updateField = (key: string, value: string | number | boolean | null) => {
+    if (value === null) {
+      return;
+    }
+    setConvention(prev => (prev ? { ...prev, [key]: value } as FormattingConvention : prev));
+  };
+
+  /**
+   * 필드 종류에 맞는 입력 컨트롤을 렌더링합니다.
+   */
+  const renderControl = ({ key, schema }: ConventionFieldDescriptor) => {
+    const value = (convention as unknown as Record<string, unknown> | null)?.[key];
+
+    switch (schema.type) {
+      case 'enum':
+        return (
+          <Select
+            size="small"
+            value={value as string}
+            onChange={(next) => updateField(key, next)}
+            style={{ width: '100%' }}
+            options={schema.options}
+          />
+        );
+      case 'number':
+        return (
+          <InputNumber
+            size="small"
+            value={value as number}
+            min={schema.min}
+            max={schema.max}
+            precision={0}
+            onChange={(next) => updateField(key, next)}
+            style={{ width: '100%' }}
+          />
+        );
+      case 'boolean':
+        return (
+          <Switch
+            size="small"
+            checked={Boolean(value)}
+            onChange={(next) => updateField(key, next)}
+          />
+        );
+    }
+  };
+
+  /**
+   * 필드 목록을 렌더링합니다.
+   */
+  const renderFields = (items: ConventionFieldDescriptor[]) => items.map(field => (
+    <Row key={field.key} align="middle" gutter={8} style={{ marginBottom: '8px' }}>
+      <Col span={12}>
+        <Text style={{ fontSize: '13px' }}>{field.schema.label}</Text>
+        {field.schema.description && (
+          <Tooltip title={field.schema.description}>
+            <QuestionCircleOutlined style={{ marginLeft: '4px', color: '#999' }} />
+          </Tooltip>
+        )}
+      </Col>
+      <Col span={12}>{renderControl(field)}</Col>
+    </Row>
+  ));
+
+  /**
+   * 사용자 프리셋으로 저장합니다.
+   */
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!convention || !name) {
+      message.warning('프리셋 이름을 입력해주세요.');
+      return;
+    }
+
+    // 사용자 프리셋에서 시작해 이름을 그대로 두면 덮어쓰고, 그렇지 않으면 새 프리셋으로 저장
+    const created = UserPresetService.createPreset(name, language, convention, presetDescription.trim());
+    const overwrite = UserPresetService.getById(startPresetId)?.name === name;
+    const preset = overwrite ? { ...created, id: startPresetId } : created;
+    UserPresetService.save(preset);
+    setStartPresetId(preset.id);
+    onSave(preset);
+    message.success(`'${name}' 프리셋이 저장되었습니다.`);
+  };
+
+  return (
+    <Modal
+      title={`${FormattingService.getLanguageDisplayName(language)} 컨벤션 편집`}
+      open={visible}
+      onCancel={onCancel}
+      width={1100}
+      footer={[
+        <Button key="cancel" onClick={onCancel}>
+          취소
+        </Button>,
+        <Button key="save" type="primary" icon={<SaveOutlined />} onClick={handleSave} disabled={!convention}>
+          사용자 프리셋으로 저장
+        </Button>
+      ]}
+    >
+      <Row gutter={24}>
+        <Col span={10}>
+          <Space direction="vertical" size="small" style={{ width: '100%' }}>
+            <Text strong>시작 프리셋</Text>
+            <Space.Compact style={{ width: '100%' }}>
+              <Select
+                value={startPresetId}
+                onChange={(presetId) => startFrom(FormattingService.getPresetById(presetId))}
+                style={{ width: '100%' }}
+              >
+                {startPresets.user.length > 0 && (
+                  <OptGroup label="내 컨벤션">
+                    {startPresets.user.map(preset => (
+                      <Option key={preset.id} value={preset.id}>{preset.name}</Option>
+                    ))}
+                  </OptGroup>
+                )}
+                <OptGroup label="내장 컨벤션">
+                  {startPresets.builtIn.map(preset => (
+                    <Option key={preset.id} value={preset.id}>{preset.name}</Option>
+                  ))}
+                </OptGroup>
+              </Select>
+              <Tooltip title="시작 프리셋 값으로 되돌리기">
+                <Button
+                  icon={<UndoOutlined />}
+                  onClick={() => startFrom(FormattingService.getPresetById(startPresetId))}
+                />
+              </Tooltip>
+            </Space.Compact>
+            <Input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="프리셋 이름"
+            />
+            <Input
+              value={presetDescription}
+              onChange={(e) => setPresetDescription(e.target.value)}
+              placeholder="프리셋 설명 (선택)"
+            />
+          </Space>
+
+          <div style={{ maxHeight: '420px', overflow: 'auto', marginTop: '8px', paddingRight: '8px' }}>
+            <Divider orientation="left" plain style={{ margin: '8px 0' }}>공통</Divider>
+            {renderFields(fields.filter(field => field.isCommon))}
+            <Divider orientation="left" plain style={{ margin: '8px 0' }}>
+              {FormattingService.getLanguageDisplayName(language)}
+            </Divider>
+            {renderFields(fields.filter(field => !field.isCommon))}
+          </div>
+        </Col>
+
+        <Col span={14}>
+          <Space style={{ marginBottom: '8px' }}>
+            <Text strong>미리보기</Text>
+            {preview && (
+              <>
+                <Tag color="blue">{preview.changedLines}줄 변경</Tag>
+                {preview.warnings.length > 0 && <Tag color="orange">경고 {preview.warnings.length}개</Tag>}
+                {preview.errors.length > 0 && <Tag color="red">오류 {preview.errors.length}개</Tag>}
+              </>
+            )}
+          </Space>
+          <pre style={{
+            margin: 0,
+            padding: '12px',
+            height: '560px',
+            overflow: 'auto',
+            fontSize: '12px',
+            lineHeight: '1.6',
+            fontFamily: 'Monaco, Menlo, "Ubuntu Mono", Consolas, "source-code-pro", monospace',
+            background: '#fafafa',
+            border: '1px solid #f0f0f0',
+            borderRadius: '6px',
+            opacity: deferredConvention !== convention ? 0.6 : 1
+          }}>
+            {preview?.formattedCode}
+          </pre>
+          {preview && preview.errors.length > 0 && (
+            <Text type="danger" style={{ fontSize: '12px' }}>{preview.errors[0]}</Text>
+          )}
+        </Col>
+      </Row>
+    </Modal>
+  );
+};
+
+export default ConventionEditorModal;
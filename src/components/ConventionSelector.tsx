@@ -3,11 +3,13 @@
  * 언어별 프리셋 포매팅 컨벤션을 선택할 수 있는 인터페이스를 제공합니다.
  */
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useSyncExternalStore } from 'react';
 import { Select, Space, Tag, Tooltip, Typography } from 'antd';
-import { StarOutlined, CheckCircleOutlined, SettingOutlined } from '@ant-design/icons';
+import { StarOutlined, CheckCircleOutlined, SettingOutlined, UserOutlined } from '@ant-design/icons';
 import { SupportedLanguage, PresetConvention } from '../types/FormattingTypes';
 import { FormattingService } from '../services/FormattingService';
+import { UserPresetService } from '../services/UserPresetService';
+import { LanguageRegistry } from '../services/LanguageRegistry';
 
 const { Option, OptGroup } = Select;
 const { Text } = Typography;
@@ -38,6 +40,9 @@ export const ConventionSelector: React.FC<ConventionSelectorProps> = ({
   disabled = false,
   style
 }) => {
+  const userPresets = useSyncExternalStore(UserPresetService.subscribe, UserPresetService.getAll);
+  const plugins = useSyncExternalStore(LanguageRegistry.subscribe, LanguageRegistry.getAll);
+
   /**
    * 언어별 프리셋 목록을 그룹화하여 반환합니다.
    */
@@ -46,9 +51,10 @@ export const ConventionSelector: React.FC<ConventionSelectorProps> = ({
     
     const official = presets.filter(preset => preset.isOfficial);
     const community = presets.filter(preset => !preset.isOfficial);
+    const user = userPresets.filter(preset => preset.language === language);
     
-    return { official, community };
-  }, [language]);
+    return { official, community, user };
+  }, [language, userPresets, plugins]);
 
   /**
    * 선택된 프리셋 정보를 반환합니다.
@@ -56,7 +62,7 @@ export const ConventionSelector: React.FC<ConventionSelectorProps> = ({
   const selectedPreset = useMemo(() => {
     if (!selectedPresetId) return null;
     return FormattingService.getPresetById(selectedPresetId);
-  }, [selectedPresetId]);
+  }, [selectedPresetId, userPresets, plugins]);
 
   /**
    * 프리셋의 인기도에 따른 별 아이콘을 반환합니다.
@@ -89,12 +95,14 @@ export const ConventionSelector: React.FC<ConventionSelectorProps> = ({
             {preset.description}
           </Text>
         </div>
-        <div style={{ display: 'flex', alignItems: 'center', marginLeft: '8px' }}>
-          {getPopularityStars(preset.popularity)}
-          <Text type="secondary" style={{ fontSize: '11px', marginLeft: '4px' }}>
-            ({preset.popularity}/10)
-          </Text>
-        </div>
+        {!UserPresetService.isUserPreset(preset.id) && (
+          <div style={{ display: 'flex', alignItems: 'center', marginLeft: '8px' }}>
+            {getPopularityStars(preset.popularity)}
+            <Text type="secondary" style={{ fontSize: '11px', marginLeft: '4px' }}>
+              ({preset.popularity}/10)
+            </Text>
+          </div>
+        )}
       </div>
     </Option>
   );
@@ -116,8 +124,10 @@ export const ConventionSelector: React.FC<ConventionSelectorProps> = ({
         {selectedPreset && (
           <Tooltip title={selectedPreset.description}>
             <Tag 
-              color={selectedPreset.isOfficial ? 'green' : 'blue'} 
-              icon={selectedPreset.isOfficial ? <CheckCircleOutlined /> : <SettingOutlined />}
+              color={selectedPreset.isOfficial ? 'green' : UserPresetService.isUserPreset(selectedPreset.id) ? 'gold' : 'blue'} 
+              icon={selectedPreset.isOfficial
+                ? <CheckCircleOutlined />
+                : UserPresetService.isUserPreset(selectedPreset.id) ? <UserOutlined /> : <SettingOutlined />}
             >
               {selectedPreset.name}
             </Tag>
@@ -139,6 +149,12 @@ export const ConventionSelector: React.FC<ConventionSelectorProps> = ({
           option?.children?.toString().toLowerCase().includes(input.toLowerCase())) || false
         }
       >
+        {groupedPresets.user.length > 0 && (
+          <OptGroup label="⭐ 내 컨벤션">
+            {groupedPresets.user.map(renderPresetOption)}
+          </OptGroup>
+        )}
+
         {groupedPresets.official.length > 0 && (
           <OptGroup label="🏛️ 공식 컨벤션">
             {groupedPresets.official.map(renderPresetOption)}
@@ -151,7 +167,7 @@ export const ConventionSelector: React.FC<ConventionSelectorProps> = ({
           </OptGroup>
         )}
         
-        {groupedPresets.official.length === 0 && groupedPresets.community.length === 0 && (
+        {groupedPresets.official.length === 0 && groupedPresets.community.length === 0 && groupedPresets.user.length === 0 && (
           <Option value="" disabled>
             해당 언어의 프리셋이 없습니다
           </Option>
@@ -168,12 +184,14 @@ export const ConventionSelector: React.FC<ConventionSelectorProps> = ({
           <Space direction="vertical" size={4} style={{ width: '100%' }}>
             <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
               <Text strong style={{ fontSize: '13px' }}>컨벤션 요약</Text>
-              <div style={{ display: 'flex', alignItems: 'center' }}>
-                {getPopularityStars(selectedPreset.popularity)}
-                <Text type="secondary" style={{ fontSize: '11px', marginLeft: '4px' }}>
-                  인기도 {selectedPreset.popularity}/10
-                </Text>
-              </div>
+              {!UserPresetService.isUserPreset(selectedPreset.id) && (
+                <div style={{ display: 'flex', alignItems: 'center' }}>
+                  {getPopularityStars(selectedPreset.popularity)}
+                  <Text type="secondary" style={{ fontSize: '11px', marginLeft: '4px' }}>
+                    인기도 {selectedPreset.popularity}/10
+                  </Text>
+                </div>
+              )}
             </div>
             
             <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px 16px' }}>
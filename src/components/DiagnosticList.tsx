@@ -0,0 +1,102 @@
+/**
+ * 진단 목록 컴포넌트
+ * 포매팅 결과의 오류/경고를 위치와 함께 보여주고, 클릭하면 해당 위치로 이동합니다.
+ */
+
+import React from 'react';
+import { List, Tag, Button, Typography, Tooltip } from 'antd';
+import { BugOutlined, WarningOutlined, InfoCircleOutlined, ToolOutlined } from '@ant-design/icons';
+import { Diagnostic, DiagnosticSeverity } from '../types/FormattingTypes';
+
+const { Text } = Typography;
+
+interface DiagnosticListProps {
+  /** 표시할 진단 목록 */
+  diagnostics: Diagnostic[];
+  /** 진단을 클릭했을 때 호출되는 콜백 함수 */
+  onSelect: (diagnostic: Diagnostic) => void;
+  /** 수정 제안 적용 버튼을 눌렀을 때 호출되는 콜백 함수 */
+  onApplyFix?: (diagnostic: Diagnostic) => void;
+  /** 현재 선택된 진단 */
+  selectedDiagnostic?: Diagnostic | null;
+}
+
+/**
+ * 심각도별 표시 정보
+ */
+const SEVERITY_DISPLAY: Record<DiagnosticSeverity, { color: string; label: string; icon: React.ReactNode }> = {
+  error: { color: 'red', label: '오류', icon: <BugOutlined /> },
+  warning: { color: 'orange', label: '경고', icon: <WarningOutlined /> },
+  info: { color: 'blue', label: '정보', icon: <InfoCircleOutlined /> }
+};
+
+/**
+ * 진단 목록 컴포넌트
+ */
+export const DiagnosticList: React.FC<DiagnosticListProps> = ({
+  diagnostics,
+  onSelect,
+  onApplyFix,
+  selectedDiagnostic
+}) => {
+  // 오류, 경고, 정보 순으로 정렬하고 같은 심각도는 위치 순으로 정렬
+  const severityOrder: DiagnosticSeverity[] = ['error', 'warning', 'info'];
+  const sortedDiagnostics = [...diagnostics].sort((a, b) =>
+    severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity) ||
+    a.startLine - b.startLine ||
+    a.startColumn - b.startColumn
+  );
+
+  return (
+    <List
+      size="small"
+      dataSource={sortedDiagnostics}
+      style={{ maxHeight: '240px', overflow: 'auto' }}
+      renderItem={(diagnostic) => {
+        const display = SEVERITY_DISPLAY[diagnostic.severity];
+        const isSelected = diagnostic === selectedDiagnostic;
+
+        return (
+          <List.Item
+            onClick={() => onSelect(diagnostic)}
+            style={{
+              cursor: 'pointer',
+              padding: '8px 16px',
+              background: isSelected ? '#e6f7ff' : undefined
+            }}
+            actions={diagnostic.fix && onApplyFix ? [
+              <Tooltip key="fix" title={diagnostic.fix.description}>
+                <Button
+                  size="small"
+                  icon={<ToolOutlined />}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onApplyFix(diagnostic);
+                  }}
+                >
+                  수정 적용
+                </Button>
+              </Tooltip>
+            ] : []}
+          >
+            <div style={{ display: 'flex', alignItems: 'flex-start', gap: '8px', width: '100%' }}>
+              <Tag color={display.color} icon={display.icon} style={{ margin: 0 }}>
+                {display.label}
+              </Tag>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <Text style={{ fontSize: '13px' }}>{diagnostic.message}</Text>
+                <div>
+                  <Text type="secondary" style={{ fontSize: '12px' }}>
+                    {diagnostic.startLine}번째 줄, {diagnostic.startColumn}열 · {diagnostic.ruleId}
+                  </Text>
+                </div>
+              </div>
+            </div>
+          </List.Item>
+        );
+      }}
+    />
+  );
+};
+
+export default DiagnosticList;
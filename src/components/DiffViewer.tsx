@@ -0,0 +1,208 @@
+/**
+ * 비교(diff) 보기 컴포넌트
+ * 입력 코드와 포매팅 결과의 차이를 나란히 보기 또는 통합 보기로 표시합니다.
+ */
+
+import React, { useMemo } from 'react';
+import { Tag, Space, Typography } from 'antd';
+import { DiffService } from '../services/DiffService';
+import { CharRange, DiffLine } from '../types/DiffTypes';
+
+const { Text } = Typography;
+
+/**
+ * 비교 보기 방식
+ */
+export type DiffViewMode = 'side-by-side' | 'unified';
+
+interface DiffViewerProps {
+  /** 원본 코드 */
+  original: string;
+  /** 포매팅된 코드 */
+  formatted: string;
+  /** 보기 방식 */
+  mode: DiffViewMode;
+}
+
+/**
+ * 줄 종류별 배경색
+ */
+const LINE_BACKGROUND = {
+  removed: '#fff1f0',
+  added: '#f6ffed',
+  empty: '#f5f5f5'
+};
+
+/**
+ * 바뀐 문자 범위의 배경색
+ */
+const RANGE_BACKGROUND = {
+  removed: '#ffccc7',
+  added: '#b7eb8f'
+};
+
+const CODE_FONT = 'Monaco, Menlo, "Ubuntu Mono", Consolas, "source-code-pro", monospace';
+
+const lineNumberStyle: React.CSSProperties = {
+  color: '#999',
+  minWidth: '36px',
+  padding: '0 8px',
+  textAlign: 'right',
+  userSelect: 'none',
+  verticalAlign: 'top'
+};
+
+const codeCellStyle: React.CSSProperties = {
+  padding: '0 8px',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+  verticalAlign: 'top'
+};
+
+/**
+ * 바뀐 문자 범위를 강조해 줄 내용을 그립니다.
+ */
+const renderText = (text: string, ranges: CharRange[] | undefined, side: 'removed' | 'added') => {
+  if (!ranges || ranges.length === 0) {
+    return text;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach((range, index) => {
+    if (range.start > position) {
+      parts.push(text.slice(position, range.start));
+    }
+    parts.push(
+      <span key={index} style={{ background: RANGE_BACKGROUND[side], borderRadius: '2px' }}>
+        {text.slice(range.start, range.end)}
+      </span>
+    );
+    position = range.end;
+  });
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+  return parts;
+};
+
+/**
+ * 나란히 보기의 한 줄
+ */
+const SideBySideRow: React.FC<{ line: DiffLine }> = ({ line }) => {
+  const hasOld = line.oldLineNumber !== undefined;
+  const hasNew = line.newLineNumber !== undefined;
+  const isContext = line.type === 'context';
+  const oldBackground = !hasOld ? LINE_BACKGROUND.empty : isContext ? undefined : LINE_BACKGROUND.removed;
+  const newBackground = !hasNew ? LINE_BACKGROUND.empty : isContext ? undefined : LINE_BACKGROUND.added;
+
+  return (
+    <tr>
+      <td style={{ ...lineNumberStyle, background: oldBackground }}>{line.oldLineNumber}</td>
+      <td style={{ ...codeCellStyle, background: oldBackground, borderRight: '1px solid #f0f0f0' }}>
+        {hasOld && renderText(line.oldText ?? '', line.oldRanges, 'removed')}
+      </td>
+      <td style={{ ...lineNumberStyle, background: newBackground }}>{line.newLineNumber}</td>
+      <td style={{ ...codeCellStyle, background: newBackground }}>
+        {hasNew && renderText(line.newText ?? '', line.newRanges, 'added')}
+      </td>
+    </tr>
+  );
+};
+
+/**
+ * 통합 보기의 한 줄 (수정 줄은 삭제/추가 두 줄로 표시)
+ */
+const UnifiedRows: React.FC<{ line: DiffLine }> = ({ line }) => {
+  const removedRow = (
+    <tr style={{ background: LINE_BACKGROUND.removed }}>
+      <td style={lineNumberStyle}>{line.oldLineNumber}</td>
+      <td style={lineNumberStyle} />
+      <td style={codeCellStyle}>-{renderText(line.oldText ?? '', line.oldRanges, 'removed')}</td>
+    </tr>
+  );
+  const addedRow = (
+    <tr style={{ background: LINE_BACKGROUND.added }}>
+      <td style={lineNumberStyle} />
+      <td style={lineNumberStyle}>{line.newLineNumber}</td>
+      <td style={codeCellStyle}>+{renderText(line.newText ?? '', line.newRanges, 'added')}</td>
+    </tr>
+  );
+
+  switch (line.type) {
+    case 'removed':
+      return removedRow;
+    case 'added':
+      return addedRow;
+    case 'modified':
+      return <>{removedRow}{addedRow}</>;
+    default:
+      return (
+        <tr>
+          <td style={lineNumberStyle}>{line.oldLineNumber}</td>
+          <td style={lineNumberStyle}>{line.newLineNumber}</td>
+          <td style={codeCellStyle}> {line.oldText}</td>
+        </tr>
+      );
+  }
+};
+
+/**
+ * 비교 보기 컴포넌트
+ */
+export const DiffViewer: React.FC<DiffViewerProps> = ({ original, formatted, mode }) => {
+  // 나란히 보기는 전체 파일을, 통합 보기는 변경 주변만 보여줌
+  const diff = useMemo(
+    () => DiffService.computeDiff(
+      original,
+      formatted,
+      mode === 'side-by-side' ? Infinity : DiffService.DEFAULT_CONTEXT_LINES
+    ),
+    [original, formatted, mode]
+  );
+
+  return (
+    <div style={{
+      height: '100%',
+      overflow: 'auto',
+      background: '#fafafa',
+      fontFamily: CODE_FONT,
+      fontSize: '13px',
+      lineHeight: '1.6'
+    }}>
+      <Space size="small" style={{ padding: '8px 16px' }}>
+        <Tag color="green">+{diff.addedLines} 추가</Tag>
+        <Tag color="red">-{diff.removedLines} 삭제</Tag>
+        <Tag color="orange">~{diff.modifiedLines} 수정</Tag>
+      </Space>
+
+      {diff.changedLines === 0 ? (
+        <div style={{ padding: '16px', textAlign: 'center' }}>
+          <Text type="secondary">변경된 줄이 없습니다</Text>
+        </div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse', tableLayout: 'auto' }}>
+          <tbody>
+            {diff.hunks.map((hunk, hunkIndex) => (
+              <React.Fragment key={hunkIndex}>
+                {mode === 'unified' && (
+                  <tr style={{ background: '#e6f7ff', color: '#1890ff' }}>
+                    <td colSpan={3} style={{ padding: '2px 8px' }}>
+                      @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                    </td>
+                  </tr>
+                )}
+                {hunk.lines.map((line, lineIndex) => mode === 'side-by-side'
+                  ? <SideBySideRow key={lineIndex} line={line} />
+                  : <UnifiedRows key={lineIndex} line={line} />
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default DiffViewer;
@@ -74,6 +74,8 @@ export const IdeExportModal: React.FC<IdeExportModalProps> = ({
       eclipse: { icon: '🌙', name: 'Eclipse', color: '#2C2255' },
       prettier: { icon: '💄', name: 'Prettier', color: '#F7B93E' },
       eslint: { icon: '📏', name: 'ESLint', color: '#4B32C3' },
+      stylelint: { icon: '🎨', name: 'Stylelint', color: '#263238' },
+      pyproject: { icon: '🐍', name: 'pyproject.toml (Black/isort)', color: '#3776AB' },
       editorconfig: { icon: '⚙️', name: 'EditorConfig', color: '#169BD8' }
     };
     
@@ -0,0 +1,232 @@
+/**
+ * IDE 설정 가져오기 모달 컴포넌트
+ * .editorconfig, .prettierrc, .eslintrc, IntelliJ/Eclipse XML을 읽어 컨벤션으로 만들고
+ * 사용자 프리셋으로 저장합니다.
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  Modal,
+  Button,
+  Space,
+  Typography,
+  Alert,
+  Tag,
+  Select,
+  Input,
+  Descriptions,
+  message
+} from 'antd';
+import { UploadOutlined, SaveOutlined, WarningOutlined } from '@ant-design/icons';
+import {
+  SupportedLanguage,
+  PresetConvention,
+  IdeImportResult
+} from '../types/FormattingTypes';
+import { FormattingService } from '../services/FormattingService';
+import { UserPresetService } from '../services/UserPresetService';
+
+const { Text, Paragraph } = Typography;
+
+interface IdeImportModalProps {
+  /** 모달 표시 여부 */
+  visible: boolean;
+  /** 모달 닫기 콜백 */
+  onCancel: () => void;
+  /** 가져온 컨벤션을 사용자 프리셋으로 저장했을 때 호출되는 콜백 함수 */
+  onImported: (preset: PresetConvention) => void;
+}
+
+/**
+ * 선택한 설정 파일
+ */
+interface ImportSource {
+  filename: string;
+  content: string;
+}
+
+/**
+ * IDE 설정 가져오기 모달 컴포넌트
+ */
+export const IdeImportModal: React.FC<IdeImportModalProps> = ({
+  visible,
+  onCancel,
+  onImported
+}) => {
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [language, setLanguage] = useState<SupportedLanguage | undefined>(undefined);
+  const [result, setResult] = useState<IdeImportResult | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * 설정 파일을 컨벤션으로 변환합니다.
+   */
+  const runImport = (next: ImportSource, nextLanguage: SupportedLanguage | undefined) => {
+    try {
+      const imported = FormattingService.importFromIde(next.content, {
+        filename: next.filename,
+        language: nextLanguage
+      });
+      setResult(imported);
+      setImportError(null);
+      setPresetName(imported.convention.name);
+    } catch (error) {
+      setResult(null);
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  /**
+   * 선택한 파일을 읽습니다.
+   */
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    const next = { filename: file.name, content: await file.text() };
+    setSource(next);
+    setLanguage(undefined);
+    runImport(next, undefined);
+  };
+
+  /**
+   * 적용할 언어를 바꿔 다시 가져옵니다.
+   */
+  const handleLanguageChange = (nextLanguage: SupportedLanguage) => {
+    setLanguage(nextLanguage);
+    if (source) {
+      runImport(source, nextLanguage);
+    }
+  };
+
+  /**
+   * 가져온 컨벤션을 사용자 프리셋으로 저장합니다.
+   */
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!result || !name) {
+      message.warning('프리셋 이름을 입력해주세요.');
+      return;
+    }
+
+    const preset = UserPresetService.createPreset(name, result.language, result.convention, result.convention.description);
+    UserPresetService.save(preset);
+    onImported(preset);
+    message.success(`'${name}' 프리셋이 저장되었습니다.`);
+    handleModalCancel();
+  };
+
+  /**
+   * 모달 초기화
+   */
+  const handleModalCancel = () => {
+    setSource(null);
+    setLanguage(undefined);
+    setResult(null);
+    setImportError(null);
+    onCancel();
+  };
+
+  const fieldLabels = result
+    ? Object.fromEntries(FormattingService.getConventionFields(result.language).map(field => [field.key, field.schema.label]))
+    : {};
+
+  return (
+    <Modal
+      title="IDE 설정 가져오기"
+      open={visible}
+      onCancel={handleModalCancel}
+      width={720}
+      footer={[
+        <Button key="cancel" onClick={handleModalCancel}>
+          취소
+        </Button>,
+        <Button key="save" type="primary" icon={<SaveOutlined />} onClick={handleSave} disabled={!result}>
+          사용자 프리셋으로 저장
+        </Button>
+      ]}
+    >
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Paragraph type="secondary" style={{ margin: 0 }}>
+          .editorconfig, .prettierrc(JSON/YAML), .eslintrc.json, IntelliJ 코드 스타일 XML, Eclipse 포매터 프로필을 지원합니다.
+        </Paragraph>
+
+        <Space>
+          <Button icon={<UploadOutlined />} onClick={() => fileInputRef.current?.click()}>
+            설정 파일 선택
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            style={{ display: 'none' }}
+            onChange={handleFileChange}
+          />
+          {source && <Text code>{source.filename}</Text>}
+          {source && (
+            <Select
+              placeholder="언어 자동 추론"
+              value={language ?? result?.language}
+              onChange={handleLanguageChange}
+              style={{ width: 160 }}
+              options={FormattingService.getSupportedLanguages().map(item => ({
+                value: item,
+                label: FormattingService.getLanguageDisplayName(item)
+              }))}
+            />
+          )}
+        </Space>
+
+        {importError && <Alert type="error" showIcon message={importError} />}
+
+        {result && (
+          <>
+            <Descriptions size="small" column={2} bordered>
+              <Descriptions.Item label="형식">
+                <Tag color="blue">{result.format}</Tag>
+              </Descriptions.Item>
+              <Descriptions.Item label="언어">
+                {FormattingService.getLanguageDisplayName(result.language)}
+              </Descriptions.Item>
+              <Descriptions.Item label="가져온 설정" span={2}>
+                {result.appliedFields.length > 0
+                  ? result.appliedFields.map(field => (
+                    <Tag key={field}>
+                      {fieldLabels[field] ?? field}: {String((result.convention as unknown as Record<string, unknown>)[field])}
+                    </Tag>
+                  ))
+                  : <Text type="secondary">없음 (기준 컨벤션 값 사용)</Text>}
+              </Descriptions.Item>
+            </Descriptions>
+
+            {result.warnings.length > 0 && (
+              <Alert
+                type="warning"
+                icon={<WarningOutlined />}
+                showIcon
+                message={`적용하지 않은 설정 ${result.warnings.length}개`}
+                description={
+                  <ul style={{ margin: 0, paddingLeft: '16px', maxHeight: '160px', overflow: 'auto' }}>
+                    {result.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                  </ul>
+                }
+              />
+            )}
+
+            <Input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="프리셋 이름"
+            />
+          </>
+        )}
+      </Space>
+    </Modal>
+  );
+};
+
+export default IdeImportModal;
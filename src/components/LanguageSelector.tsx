@@ -1,13 +1,14 @@
 /**
  * 언어 선택 컴포넌트
- * 지원되는 프로그래밍 언어를 선택할 수 있는 인터페이스를 제공합니다.
+ * 등록된 언어 플러그인 중 하나를 선택할 수 있는 인터페이스를 제공합니다.
  */
 
-import React from 'react';
+import React, { useSyncExternalStore } from 'react';
 import { Select, Space, Tag } from 'antd';
 import { CodeOutlined } from '@ant-design/icons';
 import { SupportedLanguage } from '../types/FormattingTypes';
-import { FormattingService } from '../services/FormattingService';
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { LanguageRegistry } from '../services/LanguageRegistry';
 
 const { Option } = Select;
 
@@ -34,56 +35,25 @@ export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
   disabled = false,
   style
 }) => {
-  const supportedLanguages = FormattingService.getSupportedLanguages();
+  const plugins = useSyncExternalStore(LanguageRegistry.subscribe, LanguageRegistry.getAll);
+  const selectedPlugin = plugins.find(plugin => plugin.id === selectedLanguage);
 
   /**
-   * 언어별 아이콘을 반환합니다.
+   * 플러그인의 아이콘을 반환합니다. (아이콘이 없으면 기본 코드 아이콘)
    */
-  const getLanguageIcon = (language: SupportedLanguage): React.ReactNode => {
+  const getLanguageIcon = (plugin: LanguagePlugin | undefined): React.ReactNode => {
     const iconStyle = { marginRight: '8px' };
-    
-    switch (language) {
-      case 'java':
-        return <span style={{ ...iconStyle, color: '#ED8B00' }}>☕</span>;
-      case 'json':
-        return <span style={{ ...iconStyle, color: '#4B8BBE' }}>📄</span>;
-      case 'javascript':
-        return <span style={{ ...iconStyle, color: '#F7DF1E' }}>🟨</span>;
-      case 'kotlin':
-        return <span style={{ ...iconStyle, color: '#7F52FF' }}>🟣</span>;
-      case 'sql':
-        return <span style={{ ...iconStyle, color: '#336791' }}>🗃️</span>;
-      default:
-        return <CodeOutlined style={iconStyle} />;
-    }
-  };
-
-  /**
-   * 언어별 색상을 반환합니다.
-   */
-  const getLanguageColor = (language: SupportedLanguage): string => {
-    switch (language) {
-      case 'java':
-        return 'orange';
-      case 'json':
-        return 'blue';
-      case 'javascript':
-        return 'gold';
-      case 'kotlin':
-        return 'purple';
-      case 'sql':
-        return 'cyan';
-      default:
-        return 'default';
-    }
+    return plugin?.icon
+      ? <span style={iconStyle}>{plugin.icon}</span>
+      : <CodeOutlined style={iconStyle} />;
   };
 
   return (
     <Space direction="vertical" size="small" style={{ width: '100%', ...style }}>
       <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
         <span style={{ fontSize: '14px', fontWeight: 500 }}>프로그래밍 언어</span>
-        <Tag color={getLanguageColor(selectedLanguage)} icon={getLanguageIcon(selectedLanguage)}>
-          {FormattingService.getLanguageDisplayName(selectedLanguage)}
+        <Tag color={selectedPlugin?.color ?? 'default'} icon={getLanguageIcon(selectedPlugin)}>
+          {selectedPlugin?.displayName ?? selectedLanguage}
         </Tag>
       </div>
       
@@ -96,15 +66,15 @@ export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
         placeholder="프로그래밍 언어를 선택하세요"
         optionLabelProp="label"
       >
-        {supportedLanguages.map(language => (
+        {plugins.map(plugin => (
           <Option 
-            key={language} 
-            value={language}
-            label={FormattingService.getLanguageDisplayName(language)}
+            key={plugin.id} 
+            value={plugin.id}
+            label={plugin.displayName}
           >
             <div style={{ display: 'flex', alignItems: 'center' }}>
-              {getLanguageIcon(language)}
-              <span>{FormattingService.getLanguageDisplayName(language)}</span>
+              {getLanguageIcon(plugin)}
+              <span>{plugin.displayName}</span>
             </div>
           </Option>
         ))}
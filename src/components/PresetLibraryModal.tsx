@@ -0,0 +1,189 @@
+/**
+ * 사용자 프리셋 라이브러리 모달 컴포넌트
+ * 저장된 사용자 프리셋을 관리하고, 라이브러리 파일로 내보내거나 가져옵니다.
+ */
+
+import React, { useRef, useState, useSyncExternalStore } from 'react';
+import {
+  Modal,
+  List,
+  Button,
+  Space,
+  Tag,
+  Typography,
+  Alert,
+  Popconfirm,
+  Empty,
+  message
+} from 'antd';
+import {
+  DownloadOutlined,
+  UploadOutlined,
+  DeleteOutlined
+} from '@ant-design/icons';
+import { PresetValidationError } from '../types/PresetLibraryTypes';
+import { FormattingService } from '../services/FormattingService';
+import { UserPresetService } from '../services/UserPresetService';
+
+const { Text } = Typography;
+
+interface PresetLibraryModalProps {
+  /** 모달 표시 여부 */
+  visible: boolean;
+  /** 모달 닫기 콜백 */
+  onCancel: () => void;
+  /** 프리셋을 삭제했을 때 호출되는 콜백 함수 */
+  onPresetRemoved?: (presetId: string) => void;
+}
+
+/**
+ * 사용자 프리셋 라이브러리 모달 컴포넌트
+ */
+export const PresetLibraryModal: React.FC<PresetLibraryModalProps> = ({
+  visible,
+  onCancel,
+  onPresetRemoved
+}) => {
+  const presets = useSyncExternalStore(UserPresetService.subscribe, UserPresetService.getAll);
+  const [importErrors, setImportErrors] = useState<PresetValidationError[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * 라이브러리 파일을 다운로드합니다.
+   */
+  const handleExport = () => {
+    const blob = new Blob([UserPresetService.exportLibrary()], { type: 'application/json;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'code-formatter-presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    message.success(`사용자 프리셋 ${presets.length}개를 내보냈습니다.`);
+  };
+
+  /**
+   * 선택한 라이브러리 파일을 가져옵니다.
+   */
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    const result = UserPresetService.importLibrary(await file.text());
+    setImportErrors(result.errors);
+
+    if (result.imported.length > 0 && result.errors.length === 0) {
+      message.success(`프리셋 ${result.imported.length}개를 가져왔습니다.`);
+    } else if (result.imported.length > 0) {
+      message.warning(`프리셋 ${result.imported.length}개를 가져왔습니다. (오류 ${result.errors.length}개)`);
+    } else {
+      message.error('가져올 수 있는 프리셋이 없습니다.');
+    }
+  };
+
+  /**
+   * 사용자 프리셋을 삭제합니다.
+   */
+  const handleRemove = (presetId: string) => {
+    UserPresetService.remove(presetId);
+    onPresetRemoved?.(presetId);
+  };
+
+  /**
+   * 모달 닫기
+   */
+  const handleModalCancel = () => {
+    setImportErrors([]);
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title="내 컨벤션 관리"
+      open={visible}
+      onCancel={handleModalCancel}
+      width={640}
+      footer={null}
+    >
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Space>
+          <Button icon={<DownloadOutlined />} onClick={handleExport} disabled={presets.length === 0}>
+            라이브러리 내보내기
+          </Button>
+          <Button icon={<UploadOutlined />} onClick={() => fileInputRef.current?.click()}>
+            라이브러리 가져오기
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            style={{ display: 'none' }}
+            onChange={handleImport}
+          />
+        </Space>
+
+        {importErrors.length > 0 && (
+          <Alert
+            type="error"
+            showIcon
+            closable
+            onClose={() => setImportErrors([])}
+            message={`가져오기 검증 오류 ${importErrors.length}개`}
+            description={
+              <ul style={{ margin: 0, paddingLeft: '16px', maxHeight: '160px', overflow: 'auto' }}>
+                {importErrors.map((error, index) => (
+                  <li key={index}>
+                    <Text code>{error.path}</Text> {error.message}
+                  </li>
+                ))}
+              </ul>
+            }
+          />
+        )}
+
+        {presets.length === 0 ? (
+          <Empty description="저장된 사용자 프리셋이 없습니다" />
+        ) : (
+          <List
+            size="small"
+            bordered
+            dataSource={presets}
+            renderItem={(preset) => (
+              <List.Item
+                actions={[
+                  <Popconfirm
+                    key="remove"
+                    title={`'${preset.name}' 프리셋을 삭제할까요?`}
+                    okText="삭제"
+                    cancelText="취소"
+                    onConfirm={() => handleRemove(preset.id)}
+                  >
+                    <Button type="text" danger size="small" icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                ]}
+              >
+                <List.Item.Meta
+                  title={
+                    <Space>
+                      <Text strong>{preset.name}</Text>
+                      <Tag>{FormattingService.getLanguageDisplayName(preset.language)}</Tag>
+                    </Space>
+                  }
+                  description={preset.description || undefined}
+                />
+              </List.Item>
+            )}
+          />
+        )}
+      </Space>
+    </Modal>
+  );
+};
+
+export default PresetLibraryModal;
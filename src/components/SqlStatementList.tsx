@@ -0,0 +1,84 @@
+/**
+ * SQL 문 목록 컴포넌트
+ * SQL 스크립트의 문마다 포매팅 상태와 진단 수를 보여주고, 클릭하면 결과에서 해당 문으로 이동합니다.
+ */
+
+import React from 'react';
+import { List, Tag, Typography } from 'antd';
+import { CheckCircleOutlined, MinusCircleOutlined, StopOutlined, WarningOutlined } from '@ant-design/icons';
+import { SqlStatementResult, SqlStatementStatus } from '../types/FormattingTypes';
+
+const { Text } = Typography;
+
+interface SqlStatementListProps {
+  /** 표시할 문별 결과 */
+  statements: SqlStatementResult[];
+  /** 문을 클릭했을 때 호출되는 콜백 함수 */
+  onSelect: (statement: SqlStatementResult) => void;
+  /** 현재 선택된 문 */
+  selectedStatement?: SqlStatementResult | null;
+}
+
+/**
+ * 상태별 표시 정보
+ */
+const STATUS_DISPLAY: Record<SqlStatementStatus, { color: string; label: string; icon: React.ReactNode }> = {
+  formatted: { color: 'green', label: '포매팅', icon: <CheckCircleOutlined /> },
+  unchanged: { color: 'default', label: '변경 없음', icon: <MinusCircleOutlined /> },
+  skipped: { color: 'red', label: '건너뜀', icon: <StopOutlined /> }
+};
+
+/**
+ * SQL 문 목록 컴포넌트
+ */
+export const SqlStatementList: React.FC<SqlStatementListProps> = ({
+  statements,
+  onSelect,
+  selectedStatement
+}) => {
+  return (
+    <List
+      size="small"
+      dataSource={statements}
+      style={{ maxHeight: '240px', overflow: 'auto' }}
+      renderItem={(statement, index) => {
+        const display = STATUS_DISPLAY[statement.status];
+        const isSelected = statement === selectedStatement;
+        const warningCount = statement.diagnostics.filter(diagnostic => diagnostic.severity !== 'info').length;
+
+        return (
+          <List.Item
+            onClick={() => onSelect(statement)}
+            style={{
+              cursor: 'pointer',
+              padding: '8px 16px',
+              background: isSelected ? '#e6f7ff' : undefined
+            }}
+          >
+            <div style={{ display: 'flex', alignItems: 'flex-start', gap: '8px', width: '100%' }}>
+              <Tag color={display.color} icon={display.icon} style={{ margin: 0 }}>
+                {display.label}
+              </Tag>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <Text code ellipsis style={{ fontSize: '12px', maxWidth: '100%' }}>{statement.summary}</Text>
+                <div>
+                  <Text type="secondary" style={{ fontSize: '12px' }}>
+                    {index + 1}번째 문 · 원본 {statement.sourceStartLine}~{statement.sourceEndLine}줄
+                    → 결과 {statement.startLine}~{statement.endLine}줄
+                  </Text>
+                  {warningCount > 0 && (
+                    <Text type="warning" style={{ fontSize: '12px', marginLeft: '8px' }}>
+                      <WarningOutlined /> {warningCount}개
+                    </Text>
+                  )}
+                </div>
+              </div>
+            </div>
+          </List.Item>
+        );
+      }}
+    />
+  );
+};
+
+export default SqlStatementList;
@@ -0,0 +1,202 @@
+/**
+ * 코드 스타일 감지 모달 컴포넌트
+ * 입력 코드에서 추론한 컨벤션 필드와 프리셋 일치도를 보여주고,
+ * 가장 가까운 프리셋을 적용하거나 추론한 컨벤션을 사용자 프리셋으로 저장합니다.
+ */
+
+import React, { useMemo } from 'react';
+import {
+  Modal,
+  Button,
+  Space,
+  Typography,
+  Table,
+  List,
+  Progress,
+  Tag,
+  Empty,
+  message
+} from 'antd';
+import { CheckOutlined, SaveOutlined } from '@ant-design/icons';
+import { SupportedLanguage, PresetConvention } from '../types/FormattingTypes';
+import { ConventionFieldSchema } from '../types/ConventionSchemaTypes';
+import { DetectedStyleField } from '../types/StyleDetectionTypes';
+import { FormattingService } from '../services/FormattingService';
+import { UserPresetService } from '../services/UserPresetService';
+
+const { Text } = Typography;
+
+interface StyleDetectModalProps {
+  /** 모달 표시 여부 */
+  visible: boolean;
+  /** 모달 닫기 콜백 */
+  onCancel: () => void;
+  /** 분석할 코드 */
+  code: string;
+  /** 코드 언어 */
+  language: SupportedLanguage;
+  /** 프리셋을 적용할 때 호출되는 콜백 함수 */
+  onApply: (preset: PresetConvention) => void;
+}
+
+/**
+ * 필드 값을 화면 표시용 문자열로 변환합니다.
+ */
+const formatValue = (schema: ConventionFieldSchema | undefined, value: string | number | boolean): string => {
+  if (schema?.type === 'enum') {
+    return schema.options.find(option => option.value === value)?.label ?? String(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? '사용' : '사용 안 함';
+  }
+  return String(value);
+};
+
+/**
+ * 코드 스타일 감지 모달 컴포넌트
+ */
+export const StyleDetectModal: React.FC<StyleDetectModalProps> = ({
+  visible,
+  onCancel,
+  code,
+  language,
+  onApply
+}) => {
+  const detection = useMemo(
+    () => (visible && code.trim() ? FormattingService.detectStyle(code, language) : null),
+    [visible, code, language]
+  );
+
+  const schemas = useMemo(
+    () => new Map(FormattingService.getConventionFields(language).map(field => [field.key, field.schema])),
+    [language]
+  );
+
+  /**
+   * 추론한 컨벤션을 사용자 프리셋으로 저장하고 적용합니다.
+   */
+  const handleSave = () => {
+    if (!detection) {
+      return;
+    }
+    const { convention } = detection;
+    const preset = UserPresetService.createPreset(convention.name, language, convention, convention.description);
+    UserPresetService.save(preset);
+    message.success(`'${preset.name}' 프리셋이 저장되었습니다.`);
+    onApply(preset);
+  };
+
+  const fieldColumns = [
+    {
+      title: '필드',
+      dataIndex: 'key',
+      key: 'key',
+      render: (key: string) => schemas.get(key)?.label ?? key
+    },
+    {
+      title: '추론한 값',
+      key: 'value',
+      render: (_: unknown, field: DetectedStyleField) => <Tag>{formatValue(schemas.get(field.key), field.value)}</Tag>
+    },
+    {
+      title: '신뢰도',
+      key: 'confidence',
+      width: 180,
+      render: (_: unknown, field: DetectedStyleField) => (
+        <Progress percent={Math.round(field.confidence * 100)} size="small" />
+      )
+    },
+    {
+      title: '표본',
+      dataIndex: 'samples',
+      key: 'samples',
+      width: 64
+    }
+  ];
+
+  return (
+    <Modal
+      title={`스타일 감지 - ${FormattingService.getLanguageDisplayName(language)}`}
+      open={visible}
+      onCancel={onCancel}
+      width={760}
+      footer={[
+        <Button key="cancel" onClick={onCancel}>
+          닫기
+        </Button>,
+        <Button
+          key="save"
+          type="primary"
+          icon={<SaveOutlined />}
+          onClick={handleSave}
+          disabled={!detection || detection.fields.length === 0}
+        >
+          감지한 컨벤션 저장
+        </Button>
+      ]}
+    >
+      {!detection || detection.fields.length === 0 ? (
+        <Empty description="스타일을 추론할 수 있는 코드가 없습니다" />
+      ) : (
+        <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+          <Table
+            size="small"
+            rowKey="key"
+            pagination={false}
+            dataSource={detection.fields}
+            columns={fieldColumns}
+          />
+
+          <List
+            size="small"
+            bordered
+            header={<Text strong>가까운 프리셋</Text>}
+            dataSource={detection.matches}
+            renderItem={(match, index) => {
+              const mismatches = match.fields.filter(field => !field.matches);
+              return (
+                <List.Item
+                  actions={[
+                    <Button
+                      key="apply"
+                      size="small"
+                      type={index === 0 ? 'primary' : 'default'}
+                      icon={<CheckOutlined />}
+                      onClick={() => onApply(match.preset)}
+                    >
+                      적용
+                    </Button>
+                  ]}
+                >
+                  <List.Item.Meta
+                    title={
+                      <Space>
+                        <Text strong>{match.preset.name}</Text>
+                        <Progress
+                          percent={Math.round(match.score * 100)}
+                          size="small"
+                          style={{ width: '140px', margin: 0 }}
+                        />
+                      </Space>
+                    }
+                    description={
+                      mismatches.length === 0
+                        ? '추론한 모든 필드가 일치합니다.'
+                        : mismatches.map(field => (
+                          <Tag key={field.key} color="orange">
+                            {schemas.get(field.key)?.label ?? field.key}: {formatValue(schemas.get(field.key), field.expected)}
+                          </Tag>
+                        ))
+                    }
+                  />
+                </List.Item>
+              );
+            }}
+          />
+        </Space>
+      )}
+    </Modal>
+  );
+};
+
+export default StyleDetectModal;
@@ -0,0 +1,325 @@
+/**
+ * 언어별 컨벤션 편집기 스키마
+ * FormattingTypes.ts의 컨벤션 인터페이스 필드마다 입력 컨트롤과 허용 범위를 정의합니다.
+ */
+
+import {
+  BaseFormattingConvention,
+  JavaFormattingConvention,
+  JsonFormattingConvention,
+  YamlFormattingConvention,
+  MarkupFormattingConvention,
+  XmlFormattingConvention,
+  HtmlFormattingConvention,
+  CssFormattingConvention,
+  PythonFormattingConvention,
+  JavaScriptFormattingConvention,
+  KotlinFormattingConvention,
+  GoFormattingConvention,
+  RustFormattingConvention,
+  CSharpFormattingConvention,
+  SqlFormattingConvention
+} from '../types/FormattingTypes';
+import {
+  ConventionSchema,
+  ConventionFieldOption
+} from '../types/ConventionSchemaTypes';
+
+/**
+ * 중괄호 스타일 선택지
+ */
+const BRACE_STYLE_OPTIONS: ConventionFieldOption[] = [
+  { value: 'kr', label: 'K&R' },
+  { value: 'allman', label: 'Allman' },
+  { value: 'gnu', label: 'GNU' },
+  { value: 'horstmann', label: 'Horstmann' }
+];
+
+/**
+ * 따옴표 스타일 선택지
+ */
+const QUOTE_STYLE_OPTIONS: ConventionFieldOption[] = [
+  { value: 'single', label: '작은따옴표 (\')' },
+  { value: 'double', label: '큰따옴표 (")' }
+];
+
+/**
+ * 속성 줄바꿈 방식 선택지
+ */
+const ATTRIBUTE_WRAPPING_OPTIONS: ConventionFieldOption[] = [
+  { value: 'auto', label: '최대 줄 길이를 넘을 때' },
+  { value: 'always', label: '속성이 둘 이상이면 항상' },
+  { value: 'never', label: '줄바꿈 안 함' }
+];
+
+/**
+ * 모든 언어에 공통인 필드
+ */
+export const BASE_CONVENTION_SCHEMA: ConventionSchema<BaseFormattingConvention> = {
+  indentationType: {
+    type: 'enum',
+    label: '들여쓰기 타입',
+    options: [
+      { value: 'space', label: '스페이스' },
+      { value: 'tab', label: '탭' }
+    ]
+  },
+  indentSize: { type: 'number', label: '들여쓰기 크기', min: 1, max: 8 },
+  maxLineLength: { type: 'number', label: '최대 줄 길이', description: '0이면 검사하지 않습니다.', min: 0, max: 400 },
+  insertFinalNewline: { type: 'boolean', label: '파일 끝 개행 추가' },
+  trimTrailingWhitespace: { type: 'boolean', label: '줄 끝 공백 제거' }
+};
+
+export const JAVA_CONVENTION_SCHEMA: ConventionSchema<JavaFormattingConvention> = {
+  ...BASE_CONVENTION_SCHEMA,
+  braceStyle: { type: 'enum', label: '중괄호 스타일', options: BRACE_STYLE_OPTIONS },
+  organizeImports: { type: 'boolean', label: 'import 정렬' },
+  separateStaticImports: { type: 'boolean', label: 'static import 분리' },
+  separateImportGroups: { type: 'boolean', label: 'import 그룹 사이 빈 줄' },
+  blankLinesBetweenMethods: { type: 'number', label: '메서드 사이 빈 줄', min: 0, max: 5 },
+  blankLinesBetweenClasses: { type: 'number', label: '클래스 사이 빈 줄', min: 0, max: 5 },
+  blankLineAfterAnnotations: { type: 'boolean', label: '어노테이션 뒤 빈 줄' },
+  spaceAroundOperators: { type: 'boolean', label: '연산자 주변 공백' },
+  spaceBeforeMethodParens: { type: 'boolean', label: '메서드 괄호 앞 공백' },
+  spaceBeforeControlParens: { type: 'boolean', label: '제어문 괄호 앞 공백' }
+};
+
+export const JSON_CONVENTION_SCHEMA: ConventionSchema<JsonFormattingConvention> = {
+  ...BASE_CONVENTION_SCHEMA,
+  quoteStyle: { type: 'enum', label: '따옴표 스타일', options: QUOTE_STYLE_OPTIONS },
+  trailingComma: { type: 'boolean', label: 'trailing comma' },
+  arrayWrapThreshold: { type: 'number', label: '배열 한 줄 최대 요소 수', min: 0, max: 50 },
+  objectWrapThreshold: { type: 'number', label: '객체 한 줄 최대 속성 수', min: 0, max: 50 },
+  autoWrapNested: { type: 'boolean', label: '중첩 구조 자동 줄바꿈' },
+  sortKeys: { type: 'boolean', label: '키 알파벳순 정렬' }
+};
+
+export const YAML_CONVENTION_SCHEMA: ConventionSchema<YamlFormattingConvention> = {
+  ...BASE_CONVENTION_SCHEMA,
+  quoteStyle: { type: 'enum', label: '따옴표 스타일', options: QUOTE_STYLE_OPTIONS },
+  indentSequences: { type: 'boolean', label: '시퀀스 항목 들여쓰기' },
+  bracketSpacing: { type: 'boolean', label: '플로우 매핑 중괄호 안 공백' },
+  sortKeys: { type: 'boolean', label: '키 알파벳순 정렬' }
+};
+
+/**
+ * XML/HTML에 공통인 필드
+ */
+const MARKUP_CONVENTION_SCHEMA: ConventionSchema<MarkupFormattingConvention> = {
+  ...BASE_CONVENTION_SCHEMA,
+  attributeWrapping: { type: 'enum', label: '속성 줄바꿈', options: ATTRIBUTE_WRAPPING_OPTIONS },
+  firstAttributeOnTagLine: {
+    type: 'boolean',
+    label: '첫 속성을 태그와 같은 줄에 두기',
+    description: '속성을 줄바꿈할 때 적용됩니다.'
+  },
+  bracketSameLine: {
+    type: 'boolean',
+    label: "'>'를 마지막 속성 뒤에 두기",
+    description: '속성을 줄바꿈할 때 적용됩니다.'
+  },
+  selfClosingSpace: { type: 'boolean', label: "'/>' 앞 공백" }
+};
+
+export const XML_CONVENTION_SCHEMA: ConventionSchema<XmlFormattingConvention> = {
+  ...MARKUP_CONVENTION_SCHEMA,
+  collapseEmptyElements: { type: 'boolean', label: '빈 요소를 스스로 닫는 태그로 바꾸기' }
+};
+
+export const HTML_CONVENTION_SCHEMA: ConventionSchema<HtmlFormattingConvention> = {
+  ...MARKUP_CONVENTION_SCHEMA,
+  closeVoidElements: { type: 'boolean', label: "빈 요소(br, img 등)를 '/>'로 닫기" }
+};
+
+export const CSS_CONVENTION_SCHEMA: ConventionSchema<CssFormattingConvention> = {
+  ...BASE_CONVENTION_SCHEMA,
+  selectorPerLine: { type: 'boolean', label: '선택자를 한 줄에 하나씩' },
+  propertySort: {
+    type: 'enum',
+    label: '속성 정렬',
+    description: '변수, 커스텀 속성, 주석, @include 앞뒤로는 순서를 바꾸지 않습니다.',
+    options: [
+      { value: 'none', label: '원문 순서 유지' },
+      { value: 'alphabetical', label: '알파벳 순' },
+      { value: 'grouped', label: '그룹 순 (위치 → 박스 → 글꼴 → 시각 효과)' }
+    ]
+  },
+  colorCase: {
+    type: 'enum',
+    label: '16진수 색상 대소문자',
+    options: [
+      { value: 'lower', label: '소문자 (#fff)' },
+      { value: 'upper', label: '대문자 (#FFF)' },
+      { value: 'preserve', label: '유지' }
+    ]
+  },
+  removeZeroUnits: { type: 'boolean', label: '0 값의 단위 제거 (0px → 0)' },
+  quoteStyle: { type: 'enum', label: '따옴표 스타일', options: QUOTE_STYLE_OPTIONS },
+  urlQuotes: {
+    type: 'enum',
+    label: 'url() 따옴표',
+    options: [
+      { value: 'always', label: '항상 감싸기' },
+      { value: 'never', label: '가능하면 빼기' },
+      { value: 'preserve', label: '유지' }
+    ]
+  },
+  blankLinesBetweenRules: { type: 'number', label: '규칙 사이 빈 줄', min: 0, max: 3 }
+};
+
+export const PYTHON_CONVENTION_SCHEMA: ConventionSchema<PythonFormattingConvention> = {
+  ...BASE_CONVENTION_SCHEMA,
+  quoteStyle: {
+    type: 'enum',
+    label: '따옴표 스타일',
+    description: '바꾸면 이스케이프가 늘어나는 문자열과 따옴표가 든 f-string은 그대로 둡니다.',
+    options: [...QUOTE_STYLE_OPTIONS, { value: 'preserve', label: '유지' }]
+  },
+  magicTrailingComma: {
+    type: 'boolean',
+    label: '마지막 쉼표가 있으면 요소마다 나누기',
+    description: 'Black의 magic trailing comma 규칙입니다.'
+  },
+  blankLinesTopLevel: { type: 'number', label: '최상위 def/class 사이 빈 줄', min: 1, max: 3 },
+  blankLinesBetweenMethods: { type: 'number', label: '메서드 사이 빈 줄', min: 0, max: 2 },
+  sortImports: { type: 'boolean', label: 'import 정렬 (isort)' },
+  forceSortWithinSections: { type: 'boolean', label: 'import와 from import를 섞어 정렬' }
+};
+
+export const JAVASCRIPT_CONVENTION_SCHEMA: ConventionSchema<JavaScriptFormattingConvention> = {
+  ...BASE_CONVENTION_SCHEMA,
+  quoteStyle: { type: 'enum', label: '따옴표 스타일', options: QUOTE_STYLE_OPTIONS },
+  useSemicolons: { type: 'boolean', label: '세미콜론 사용' },
+  trailingComma: {
+    type: 'enum',
+    label: 'trailing comma',
+    options: [
+      { value: 'none', label: '사용 안 함' },
+      { value: 'es5', label: 'ES5 (객체/배열)' },
+      { value: 'all', label: '모두 (함수 인자 포함)' }
+    ]
+  },
+  braceStyle: { type: 'enum', label: '중괄호 스타일', options: BRACE_STYLE_OPTIONS },
+  arrowParens: {
+    type: 'enum',
+    label: '화살표 함수 괄호',
+    options: [
+      { value: 'always', label: '항상' },
+      { value: 'avoid', label: '가능하면 생략' }
+    ]
+  },
+  spaceAroundOperators: { type: 'boolean', label: '연산자 주변 공백' },
+  spaceBeforeFunctionParens: { type: 'boolean', label: '함수 괄호 앞 공백' },
+  spaceInObjectBraces: { type: 'boolean', label: '객체 중괄호 내부 공백' },
+  spaceInArrayBrackets: { type: 'boolean', label: '배열 대괄호 내부 공백' },
+  jsxQuoteStyle: { type: 'enum', label: 'JSX 따옴표 스타일', options: QUOTE_STYLE_OPTIONS },
+  jsxBracketSameLine: { type: 'boolean', label: 'JSX 닫는 괄호 같은 줄' }
+};
+
+export const KOTLIN_CONVENTION_SCHEMA: ConventionSchema<KotlinFormattingConvention> = {
+  ...BASE_CONVENTION_SCHEMA,
+  braceStyle: { type: 'enum', label: '중괄호 스타일', options: BRACE_STYLE_OPTIONS },
+  organizeImports: { type: 'boolean', label: 'import 정렬' },
+  separateImportGroups: { type: 'boolean', label: 'import 그룹 사이 빈 줄' },
+  blankLinesBetweenMethods: { type: 'number', label: '함수 사이 빈 줄', min: 0, max: 5 },
+  blankLinesBetweenClasses: { type: 'number', label: '클래스 사이 빈 줄', min: 0, max: 5 },
+  spaceAroundOperators: { type: 'boolean', label: '연산자 주변 공백' },
+  spaceBeforeFunctionParens: { type: 'boolean', label: '함수 괄호 앞 공백' },
+  spaceAroundTypeColon: { type: 'boolean', label: '타입 콜론 주변 공백' },
+  spaceAroundLambdaArrow: { type: 'boolean', label: '람다 화살표 주변 공백' },
+  spaceAroundWhenArrow: { type: 'boolean', label: 'when 화살표 주변 공백' },
+  chainedCallWrapping: {
+    type: 'enum',
+    label: '체이닝 호출 줄바꿈',
+    options: [
+      { value: 'off', label: '사용 안 함' },
+      { value: 'if_long', label: '길 때만' },
+      { value: 'always', label: '항상' }
+    ]
+  }
+};
+
+export const GO_CONVENTION_SCHEMA: ConventionSchema<GoFormattingConvention> = {
+  ...BASE_CONVENTION_SCHEMA,
+  // Go는 세미콜론 자동 삽입 때문에 여는 중괄호를 다음 줄에 둘 수 없음
+  braceStyle: { type: 'enum', label: '중괄호 스타일', options: [{ value: 'kr', label: 'K&R' }] },
+  organizeImports: { type: 'boolean', label: 'import 정렬' },
+  separateImportGroups: { type: 'boolean', label: '표준 라이브러리 import 분리', description: 'goimports처럼 표준 라이브러리와 외부 패키지 사이에 빈 줄을 넣습니다.' },
+  blankLinesBetweenMethods: { type: 'number', label: '함수 사이 빈 줄', min: 0, max: 1 },
+  blankLinesBetweenClasses: { type: 'number', label: '타입 선언 사이 빈 줄', min: 0, max: 1 },
+  spaceAroundOperators: { type: 'boolean', label: '연산자 주변 공백' }
+};
+
+export const RUST_CONVENTION_SCHEMA: ConventionSchema<RustFormattingConvention> = {
+  ...BASE_CONVENTION_SCHEMA,
+  braceStyle: { type: 'enum', label: '중괄호 스타일', options: BRACE_STYLE_OPTIONS.slice(0, 2) },
+  organizeImports: { type: 'boolean', label: 'use 정렬' },
+  separateImportGroups: { type: 'boolean', label: 'use 그룹 분리', description: 'std, 외부 크레이트, crate 순으로 묶고 빈 줄로 구분합니다. (StdExternalCrate)' },
+  blankLinesBetweenMethods: { type: 'number', label: '함수 사이 빈 줄', min: 0, max: 5 },
+  blankLinesBetweenClasses: { type: 'number', label: '타입 선언 사이 빈 줄', min: 0, max: 5 },
+  spaceAroundOperators: { type: 'boolean', label: '연산자 주변 공백' },
+  spaceAfterColon: { type: 'boolean', label: '콜론 뒤 공백' }
+};
+
+export const CSHARP_CONVENTION_SCHEMA: ConventionSchema<CSharpFormattingConvention> = {
+  ...BASE_CONVENTION_SCHEMA,
+  braceStyle: { type: 'enum', label: '중괄호 스타일', options: BRACE_STYLE_OPTIONS },
+  organizeImports: { type: 'boolean', label: 'using 정렬' },
+  systemUsingsFirst: { type: 'boolean', label: 'System using 우선' },
+  separateImportGroups: { type: 'boolean', label: 'using 그룹 사이 빈 줄', description: '최상위 네임스페이스가 바뀔 때마다 빈 줄을 넣습니다.' },
+  blankLinesBetweenMethods: { type: 'number', label: '메서드 사이 빈 줄', min: 0, max: 5 },
+  blankLinesBetweenClasses: { type: 'number', label: '클래스 사이 빈 줄', min: 0, max: 5 },
+  spaceAroundOperators: { type: 'boolean', label: '연산자 주변 공백' },
+  spaceBeforeMethodParens: { type: 'boolean', label: '메서드 괄호 앞 공백' },
+  spaceBeforeControlParens: { type: 'boolean', label: '제어문 괄호 앞 공백' }
+};
+
+export const SQL_CONVENTION_SCHEMA: ConventionSchema<SqlFormattingConvention> = {
+  ...BASE_CONVENTION_SCHEMA,
+  dialect: {
+    type: 'enum',
+    label: 'SQL 방언',
+    options: [
+      { value: 'standard', label: '표준 SQL' },
+      { value: 'postgresql', label: 'PostgreSQL' },
+      { value: 'mysql', label: 'MySQL' },
+      { value: 'tsql', label: 'T-SQL (SQL Server)' },
+      { value: 'oracle', label: 'Oracle' },
+      { value: 'bigquery', label: 'BigQuery' }
+    ]
+  },
+  keywordCase: {
+    type: 'enum',
+    label: '키워드 대소문자',
+    options: [
+      { value: 'upper', label: '대문자' },
+      { value: 'lower', label: '소문자' },
+      { value: 'capitalize', label: '첫 글자만 대문자' }
+    ]
+  },
+  identifierCase: {
+    type: 'enum',
+    label: '식별자 대소문자',
+    options: [
+      { value: 'upper', label: '대문자' },
+      { value: 'lower', label: '소문자' },
+      { value: 'preserve', label: '유지' }
+    ]
+  },
+  commaPosition: {
+    type: 'enum',
+    label: '쉼표 위치',
+    options: [
+      { value: 'trailing', label: '줄 끝' },
+      { value: 'leading', label: '줄 앞' }
+    ]
+  },
+  selectColumnsOnNewLine: { type: 'boolean', label: 'SELECT 컬럼 줄바꿈' },
+  whereConditionsOnNewLine: { type: 'boolean', label: 'WHERE 조건 줄바꿈' },
+  joinOnNewLine: { type: 'boolean', label: 'JOIN 줄바꿈' },
+  indentSubqueries: { type: 'boolean', label: '서브쿼리 들여쓰기' },
+  functionArgWrapThreshold: { type: 'number', label: '함수 인자 줄바꿈 임계값', min: 0, max: 20 },
+  insertValuesOnNewLine: { type: 'boolean', label: 'VALUES 절 줄바꿈' },
+  alignColumnDefinitions: { type: 'boolean', label: '컬럼 정의 정렬' },
+  lintQueries: { type: 'boolean', label: '쿼리 린트 경고' }
+};
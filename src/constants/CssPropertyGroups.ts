@@ -0,0 +1,64 @@
+/**
+ * CSS 속성 그룹 순서
+ * propertySort가 'grouped'일 때 포매터와 stylelint-order 내보내기가 함께 쓰는 순서입니다.
+ * 목록에 없는 속성은 같은 접두사의 속성 자리(margin-block → margin)로, 그마저 없으면 맨 뒤로 갑니다.
+ */
+
+/**
+ * 속성 그룹
+ */
+export interface CssPropertyGroup {
+  /** 그룹 이름 (stylelint-order groupName) */
+  name: string;
+  /** 그룹에 속한 속성 (순서대로) */
+  properties: string[];
+}
+
+export const CSS_PROPERTY_GROUPS: CssPropertyGroup[] = [
+  {
+    name: 'positioning',
+    properties: ['position', 'inset', 'top', 'right', 'bottom', 'left', 'z-index']
+  },
+  {
+    name: 'box model',
+    properties: [
+      'display', 'flex', 'flex-direction', 'flex-wrap', 'flex-flow', 'flex-grow', 'flex-shrink', 'flex-basis',
+      'grid', 'grid-area', 'grid-template', 'grid-template-areas', 'grid-template-rows', 'grid-template-columns',
+      'grid-row', 'grid-column', 'grid-auto-flow', 'grid-auto-rows', 'grid-auto-columns',
+      'gap', 'row-gap', 'column-gap', 'place-content', 'place-items', 'place-self',
+      'align-content', 'align-items', 'align-self', 'justify-content', 'justify-items', 'justify-self', 'order',
+      'float', 'clear', 'box-sizing', 'width', 'min-width', 'max-width', 'height', 'min-height', 'max-height',
+      'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+      'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+      'overflow', 'overflow-x', 'overflow-y'
+    ]
+  },
+  {
+    name: 'border',
+    properties: [
+      'border', 'border-width', 'border-style', 'border-color',
+      'border-top', 'border-right', 'border-bottom', 'border-left', 'border-radius',
+      'outline', 'outline-width', 'outline-style', 'outline-color', 'outline-offset'
+    ]
+  },
+  {
+    name: 'typography',
+    properties: [
+      'font', 'font-family', 'font-size', 'font-style', 'font-weight', 'font-variant', 'line-height',
+      'letter-spacing', 'color', 'text-align', 'text-decoration', 'text-indent', 'text-overflow',
+      'text-transform', 'text-shadow', 'white-space', 'word-break', 'word-wrap', 'overflow-wrap',
+      'vertical-align', 'list-style'
+    ]
+  },
+  {
+    name: 'visual',
+    properties: [
+      'background', 'background-color', 'background-image', 'background-repeat', 'background-position',
+      'background-size', 'box-shadow', 'opacity', 'visibility', 'filter', 'cursor', 'pointer-events', 'content'
+    ]
+  },
+  {
+    name: 'animation',
+    properties: ['transform', 'transform-origin', 'transition', 'animation', 'will-change']
+  }
+];
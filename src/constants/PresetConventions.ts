@@ -7,8 +7,16 @@ import {
   PresetConvention, 
   JavaFormattingConvention, 
   JsonFormattingConvention, 
+  YamlFormattingConvention, 
+  XmlFormattingConvention, 
+  HtmlFormattingConvention, 
+  CssFormattingConvention, 
+  PythonFormattingConvention, 
   JavaScriptFormattingConvention, 
   KotlinFormattingConvention, 
+  GoFormattingConvention, 
+  RustFormattingConvention, 
+  CSharpFormattingConvention, 
   SqlFormattingConvention 
 } from '../types/FormattingTypes';
 
@@ -174,6 +182,373 @@ export const JSON_PRESETS: PresetConvention[] = [
   }
 ];
 
+/**
+ * YAML 언어 프리셋 컨벤션들
+ */
+export const YAML_PRESETS: PresetConvention[] = [
+  {
+    id: 'standard-yaml',
+    name: 'Standard YAML',
+    language: 'yaml',
+    description: '2 스페이스 들여쓰기와 들여쓴 시퀀스를 쓰는 표준 YAML 컨벤션입니다.',
+    popularity: 10,
+    isOfficial: true,
+    convention: {
+      name: 'Standard YAML',
+      description: '표준 YAML 포매팅',
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 120,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      quoteStyle: 'single',
+      indentSequences: true,
+      bracketSpacing: true,
+      sortKeys: false
+    } as YamlFormattingConvention
+  },
+  {
+    id: 'prettier-yaml',
+    name: 'Prettier YAML',
+    language: 'yaml',
+    description: 'Prettier의 YAML 포매팅 스타일입니다. 큰따옴표를 씁니다.',
+    popularity: 9,
+    isOfficial: false,
+    convention: {
+      name: 'Prettier YAML',
+      description: 'Prettier YAML 포매팅 스타일',
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 80,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      quoteStyle: 'double',
+      indentSequences: true,
+      bracketSpacing: true,
+      sortKeys: false
+    } as YamlFormattingConvention
+  },
+  {
+    id: 'kubernetes-yaml',
+    name: 'Kubernetes YAML',
+    language: 'yaml',
+    description: 'kubectl 출력처럼 시퀀스를 부모 키와 같은 열에 쓰는 스타일입니다.',
+    popularity: 8,
+    isOfficial: false,
+    convention: {
+      name: 'Kubernetes YAML',
+      description: 'Kubernetes 매니페스트 스타일',
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 120,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      quoteStyle: 'double',
+      indentSequences: false,
+      bracketSpacing: false,
+      sortKeys: false
+    } as YamlFormattingConvention
+  }
+];
+
+/**
+ * XML 언어 프리셋 컨벤션들
+ */
+export const XML_PRESETS: PresetConvention[] = [
+  {
+    id: 'standard-xml',
+    name: 'Standard XML',
+    language: 'xml',
+    description: '2 스페이스 들여쓰기와 긴 태그의 속성 줄바꿈을 쓰는 표준 XML 컨벤션입니다.',
+    popularity: 10,
+    isOfficial: true,
+    convention: {
+      name: 'Standard XML',
+      description: '표준 XML 포매팅',
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 120,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      attributeWrapping: 'auto',
+      firstAttributeOnTagLine: true,
+      bracketSameLine: true,
+      selfClosingSpace: true,
+      collapseEmptyElements: false
+    } as XmlFormattingConvention
+  },
+  {
+    id: 'android-xml',
+    name: 'Android XML',
+    language: 'xml',
+    description: 'Android Studio의 레이아웃/리소스 XML 스타일입니다. 속성을 한 줄에 하나씩 씁니다.',
+    popularity: 9,
+    isOfficial: false,
+    convention: {
+      name: 'Android XML',
+      description: 'Android 리소스 XML 스타일',
+      indentationType: 'space',
+      indentSize: 4,
+      maxLineLength: 100,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      attributeWrapping: 'always',
+      firstAttributeOnTagLine: true,
+      bracketSameLine: true,
+      selfClosingSpace: true,
+      collapseEmptyElements: true
+    } as XmlFormattingConvention
+  },
+  {
+    id: 'maven-pom',
+    name: 'Maven POM',
+    language: 'xml',
+    description: 'Maven 프로젝트(pom.xml) 스타일입니다. 빈 요소를 <relativePath/>처럼 씁니다.',
+    popularity: 8,
+    isOfficial: false,
+    convention: {
+      name: 'Maven POM',
+      description: 'Maven POM 스타일',
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 120,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      attributeWrapping: 'auto',
+      firstAttributeOnTagLine: true,
+      bracketSameLine: true,
+      selfClosingSpace: false,
+      collapseEmptyElements: true
+    } as XmlFormattingConvention
+  },
+  {
+    id: 'prettier-xml',
+    name: 'Prettier XML',
+    language: 'xml',
+    description: 'Prettier XML 플러그인 스타일입니다. 줄바꿈한 속성 뒤의 \'>\'를 다음 줄에 씁니다.',
+    popularity: 7,
+    isOfficial: false,
+    convention: {
+      name: 'Prettier XML',
+      description: 'Prettier XML 포매팅 스타일',
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 80,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      attributeWrapping: 'auto',
+      firstAttributeOnTagLine: false,
+      bracketSameLine: false,
+      selfClosingSpace: true,
+      collapseEmptyElements: false
+    } as XmlFormattingConvention
+  }
+];
+
+/**
+ * HTML 언어 프리셋 컨벤션들
+ */
+export const HTML_PRESETS: PresetConvention[] = [
+  {
+    id: 'standard-html',
+    name: 'Standard HTML',
+    language: 'html',
+    description: '2 스페이스 들여쓰기와 긴 태그의 속성 줄바꿈을 쓰는 표준 HTML 컨벤션입니다.',
+    popularity: 10,
+    isOfficial: true,
+    convention: {
+      name: 'Standard HTML',
+      description: '표준 HTML 포매팅',
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 120,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      attributeWrapping: 'auto',
+      firstAttributeOnTagLine: true,
+      bracketSameLine: true,
+      selfClosingSpace: true,
+      closeVoidElements: false
+    } as HtmlFormattingConvention
+  },
+  {
+    id: 'prettier-html',
+    name: 'Prettier HTML',
+    language: 'html',
+    description: 'Prettier의 HTML 포매팅 스타일입니다. 빈 요소를 \'/>\'로 닫습니다.',
+    popularity: 9,
+    isOfficial: false,
+    convention: {
+      name: 'Prettier HTML',
+      description: 'Prettier HTML 포매팅 스타일',
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 80,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      attributeWrapping: 'auto',
+      firstAttributeOnTagLine: false,
+      bracketSameLine: false,
+      selfClosingSpace: true,
+      closeVoidElements: true
+    } as HtmlFormattingConvention
+  }
+];
+
+/**
+ * CSS/SCSS/Less 언어 프리셋 컨벤션들
+ */
+export const CSS_PRESETS: PresetConvention[] = [
+  {
+    id: 'airbnb-css',
+    name: 'Airbnb CSS',
+    language: 'css',
+    description: 'Airbnb CSS/Sass 스타일 가이드입니다. Airbnb JavaScript와 같은 작은따옴표, 속성 알파벳 순 정렬을 씁니다.',
+    popularity: 10,
+    isOfficial: true,
+    convention: {
+      name: 'Airbnb CSS',
+      description: 'Airbnb CSS/Sass 스타일',
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 100,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      selectorPerLine: true,
+      propertySort: 'alphabetical',
+      colorCase: 'lower',
+      removeZeroUnits: true,
+      quoteStyle: 'single',
+      urlQuotes: 'always',
+      blankLinesBetweenRules: 1
+    } as CssFormattingConvention
+  },
+  {
+    id: 'standard-css',
+    name: 'CSS Standard',
+    language: 'css',
+    description: 'stylelint-config-standard 스타일입니다. JavaScript Standard와 함께 쓰는 큰따옴표, 원문 속성 순서를 씁니다.',
+    popularity: 9,
+    isOfficial: true,
+    convention: {
+      name: 'CSS Standard',
+      description: 'stylelint 표준 스타일',
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 120,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      selectorPerLine: true,
+      propertySort: 'none',
+      colorCase: 'lower',
+      removeZeroUnits: true,
+      quoteStyle: 'double',
+      urlQuotes: 'always',
+      blankLinesBetweenRules: 1
+    } as CssFormattingConvention
+  },
+  {
+    id: 'prettier-css',
+    name: 'Prettier CSS',
+    language: 'css',
+    description: 'Prettier의 CSS/SCSS/Less 포매팅 스타일입니다. 값의 단위와 따옴표 없는 url()은 그대로 둡니다.',
+    popularity: 9,
+    isOfficial: false,
+    convention: {
+      name: 'Prettier CSS',
+      description: 'Prettier CSS 스타일',
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 80,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      selectorPerLine: true,
+      propertySort: 'none',
+      colorCase: 'lower',
+      removeZeroUnits: false,
+      quoteStyle: 'double',
+      urlQuotes: 'preserve',
+      blankLinesBetweenRules: 1
+    } as CssFormattingConvention
+  },
+  {
+    id: 'idiomatic-css',
+    name: 'Idiomatic CSS',
+    language: 'css',
+    description: 'idiomatic-css 원칙에 따라 속성을 위치, 박스 모델, 글꼴, 시각 효과 순으로 묶습니다.',
+    popularity: 7,
+    isOfficial: false,
+    convention: {
+      name: 'Idiomatic CSS',
+      description: 'Idiomatic CSS 스타일',
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 80,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      selectorPerLine: true,
+      propertySort: 'grouped',
+      colorCase: 'lower',
+      removeZeroUnits: true,
+      quoteStyle: 'double',
+      urlQuotes: 'always',
+      blankLinesBetweenRules: 1
+    } as CssFormattingConvention
+  }
+];
+
+/**
+ * Python 언어 프리셋 컨벤션들
+ */
+export const PYTHON_PRESETS: PresetConvention[] = [
+  {
+    id: 'black-python',
+    name: 'Black',
+    language: 'python',
+    description: 'Black 기본 설정입니다. 88자 줄, 큰따옴표, magic trailing comma, isort(profile=black) import 정렬을 씁니다.',
+    popularity: 10,
+    isOfficial: true,
+    convention: {
+      name: 'Black',
+      description: 'Black 스타일',
+      indentationType: 'space',
+      indentSize: 4,
+      maxLineLength: 88,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      quoteStyle: 'double',
+      magicTrailingComma: true,
+      blankLinesTopLevel: 2,
+      blankLinesBetweenMethods: 1,
+      sortImports: true,
+      forceSortWithinSections: false
+    } as PythonFormattingConvention
+  },
+  {
+    id: 'pep8-python',
+    name: 'PEP 8',
+    language: 'python',
+    description: 'PEP 8 스타일 가이드입니다. 79자 줄, 원문 따옴표 유지, 최상위 정의 사이 빈 줄 2개를 씁니다.',
+    popularity: 9,
+    isOfficial: true,
+    convention: {
+      name: 'PEP 8',
+      description: 'PEP 8 스타일',
+      indentationType: 'space',
+      indentSize: 4,
+      maxLineLength: 79,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      quoteStyle: 'preserve',
+      magicTrailingComma: false,
+      blankLinesTopLevel: 2,
+      blankLinesBetweenMethods: 1,
+      sortImports: true,
+      forceSortWithinSections: false
+    } as PythonFormattingConvention
+  }
+];
+
 /**
  * JavaScript 언어 프리셋 컨벤션들
  */
@@ -326,6 +701,170 @@ export const KOTLIN_PRESETS: PresetConvention[] = [
   }
 ];
 
+/**
+ * Go 언어 프리셋 컨벤션들
+ */
+export const GO_PRESETS: PresetConvention[] = [
+  {
+    id: 'gofmt',
+    name: 'gofmt',
+    language: 'go',
+    description: 'Go 표준 포매터 gofmt의 스타일입니다. 탭 들여쓰기를 쓰고 줄 길이를 제한하지 않습니다.',
+    popularity: 10,
+    isOfficial: true,
+    convention: {
+      name: 'gofmt',
+      description: 'Go 표준 포매터 스타일',
+      indentationType: 'tab',
+      indentSize: 4,
+      maxLineLength: 0,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      braceStyle: 'kr',
+      organizeImports: true,
+      separateImportGroups: false,
+      blankLinesBetweenMethods: 1,
+      blankLinesBetweenClasses: 1,
+      spaceAroundOperators: true
+    } as GoFormattingConvention
+  },
+  {
+    id: 'goimports',
+    name: 'goimports',
+    language: 'go',
+    description: 'gofmt에 더해 표준 라이브러리 import를 외부 패키지와 분리하는 goimports 스타일입니다.',
+    popularity: 9,
+    isOfficial: true,
+    convention: {
+      name: 'goimports',
+      description: 'gofmt + import 그룹 분리',
+      indentationType: 'tab',
+      indentSize: 4,
+      maxLineLength: 0,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      braceStyle: 'kr',
+      organizeImports: true,
+      separateImportGroups: true,
+      blankLinesBetweenMethods: 1,
+      blankLinesBetweenClasses: 1,
+      spaceAroundOperators: true
+    } as GoFormattingConvention
+  }
+];
+
+/**
+ * Rust 언어 프리셋 컨벤션들
+ */
+export const RUST_PRESETS: PresetConvention[] = [
+  {
+    id: 'rustfmt',
+    name: 'rustfmt',
+    language: 'rust',
+    description: 'Rust 표준 포매터 rustfmt의 기본 스타일입니다.',
+    popularity: 10,
+    isOfficial: true,
+    convention: {
+      name: 'rustfmt',
+      description: 'rustfmt 기본 스타일',
+      indentationType: 'space',
+      indentSize: 4,
+      maxLineLength: 100,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      braceStyle: 'kr',
+      organizeImports: true,
+      separateImportGroups: false,
+      blankLinesBetweenMethods: 1,
+      blankLinesBetweenClasses: 1,
+      spaceAroundOperators: true,
+      spaceAfterColon: true
+    } as RustFormattingConvention
+  },
+  {
+    id: 'rustfmt-std-external-crate',
+    name: 'rustfmt (StdExternalCrate)',
+    language: 'rust',
+    description: 'use 문을 std, 외부 크레이트, crate 순으로 묶는 rustfmt 설정(group_imports = "StdExternalCrate")입니다.',
+    popularity: 7,
+    isOfficial: false,
+    convention: {
+      name: 'rustfmt (StdExternalCrate)',
+      description: 'use 그룹 분리 rustfmt 스타일',
+      indentationType: 'space',
+      indentSize: 4,
+      maxLineLength: 100,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      braceStyle: 'kr',
+      organizeImports: true,
+      separateImportGroups: true,
+      blankLinesBetweenMethods: 1,
+      blankLinesBetweenClasses: 1,
+      spaceAroundOperators: true,
+      spaceAfterColon: true
+    } as RustFormattingConvention
+  }
+];
+
+/**
+ * C# 언어 프리셋 컨벤션들
+ */
+export const CSHARP_PRESETS: PresetConvention[] = [
+  {
+    id: 'dotnet',
+    name: '.NET',
+    language: 'csharp',
+    description: 'Microsoft .NET 런타임 코딩 스타일입니다. 중괄호를 다음 줄에 두고 System using을 먼저 정렬합니다.',
+    popularity: 10,
+    isOfficial: true,
+    convention: {
+      name: '.NET',
+      description: 'Microsoft .NET 코딩 스타일',
+      indentationType: 'space',
+      indentSize: 4,
+      maxLineLength: 120,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      braceStyle: 'allman',
+      organizeImports: true,
+      systemUsingsFirst: true,
+      separateImportGroups: false,
+      blankLinesBetweenMethods: 1,
+      blankLinesBetweenClasses: 1,
+      spaceAroundOperators: true,
+      spaceBeforeMethodParens: false,
+      spaceBeforeControlParens: true
+    } as CSharpFormattingConvention
+  },
+  {
+    id: 'mono-csharp',
+    name: 'Mono',
+    language: 'csharp',
+    description: 'Mono 프로젝트 스타일입니다. 탭 들여쓰기와 괄호 앞 공백을 사용하고 중괄호는 같은 줄에 둡니다.',
+    popularity: 6,
+    isOfficial: false,
+    convention: {
+      name: 'Mono',
+      description: 'Mono 프로젝트 코딩 스타일',
+      indentationType: 'tab',
+      indentSize: 8,
+      maxLineLength: 120,
+      insertFinalNewline: true,
+      trimTrailingWhitespace: true,
+      braceStyle: 'kr',
+      organizeImports: true,
+      systemUsingsFirst: true,
+      separateImportGroups: false,
+      blankLinesBetweenMethods: 1,
+      blankLinesBetweenClasses: 1,
+      spaceAroundOperators: true,
+      spaceBeforeMethodParens: true,
+      spaceBeforeControlParens: true
+    } as CSharpFormattingConvention
+  }
+];
+
 /**
  * SQL 언어 프리셋 컨벤션들
  */
@@ -345,6 +884,7 @@ export const SQL_PRESETS: PresetConvention[] = [
       maxLineLength: 120,
       insertFinalNewline: true,
       trimTrailingWhitespace: true,
+      dialect: 'standard',
       keywordCase: 'upper',
       identifierCase: 'lower',
       commaPosition: 'trailing',
@@ -353,7 +893,9 @@ export const SQL_PRESETS: PresetConvention[] = [
       joinOnNewLine: true,
       indentSubqueries: true,
       functionArgWrapThreshold: 3,
-      insertValuesOnNewLine: true
+      insertValuesOnNewLine: true,
+      alignColumnDefinitions: true,
+      lintQueries: false
     } as SqlFormattingConvention
   },
   {
@@ -371,6 +913,7 @@ export const SQL_PRESETS: PresetConvention[] = [
       maxLineLength: 100,
       insertFinalNewline: true,
       trimTrailingWhitespace: true,
+      dialect: 'postgresql',
       keywordCase: 'lower',
       identifierCase: 'lower',
       commaPosition: 'leading',
@@ -379,7 +922,9 @@ export const SQL_PRESETS: PresetConvention[] = [
       joinOnNewLine: true,
       indentSubqueries: true,
       functionArgWrapThreshold: 2,
-      insertValuesOnNewLine: false
+      insertValuesOnNewLine: false,
+      alignColumnDefinitions: true,
+      lintQueries: false
     } as SqlFormattingConvention
   },
   {
@@ -397,6 +942,7 @@ export const SQL_PRESETS: PresetConvention[] = [
       maxLineLength: 200,
       insertFinalNewline: false,
       trimTrailingWhitespace: true,
+      dialect: 'standard',
       keywordCase: 'upper',
       identifierCase: 'preserve',
       commaPosition: 'trailing',
@@ -405,43 +951,9 @@ export const SQL_PRESETS: PresetConvention[] = [
       joinOnNewLine: false,
       indentSubqueries: false,
       functionArgWrapThreshold: 10,
-      insertValuesOnNewLine: false
+      insertValuesOnNewLine: false,
+      alignColumnDefinitions: false,
+      lintQueries: false
     } as SqlFormattingConvention
   }
 ];
-
-/**
- * 모든 프리셋 컨벤션을 합친 배열
- */
-export const ALL_PRESETS: PresetConvention[] = [
-  ...JAVA_PRESETS,
-  ...JSON_PRESETS,
-  ...JAVASCRIPT_PRESETS,
-  ...KOTLIN_PRESETS,
-  ...SQL_PRESETS
-];
-
-/**
- * 언어별 프리셋 맵
- */
-export const PRESETS_BY_LANGUAGE = {
-  java: JAVA_PRESETS,
-  json: JSON_PRESETS,
-  javascript: JAVASCRIPT_PRESETS,
-  kotlin: KOTLIN_PRESETS,
-  sql: SQL_PRESETS
-};
-
-/**
- * 인기순으로 정렬된 프리셋 목록
- */
-export const POPULAR_PRESETS = ALL_PRESETS
-  .sort((a, b) => b.popularity - a.popularity)
-  .slice(0, 10);
-
-/**
- * 공식 프리셋만 필터링한 목록
- */
-export const OFFICIAL_PRESETS = ALL_PRESETS
-  .filter(preset => preset.isOfficial)
-  .sort((a, b) => b.popularity - a.popularity);
\ No newline at end of file
@@ -0,0 +1,129 @@
+/**
+ * SQL 방언별 규칙
+ * 토크나이저는 따옴표/주석/문자열 표기와 키워드 목록을, 포매터는 SELECT 수식어와 절 키워드를 씁니다.
+ */
+
+import { SqlDialect } from '../types/FormattingTypes';
+import { SqlDialectRules } from '../types/SqlTypes';
+
+export const SQL_DIALECTS: Record<SqlDialect, SqlDialectRules> = {
+  standard: {
+    displayName: '표준 SQL',
+    keywords: [],
+    identifierQuotes: ['"'],
+    stringEscape: 'double',
+    stringPrefixes: { N: 'double', X: 'double', B: 'double' },
+    tripleQuotedStrings: false,
+    dollarQuoting: false,
+    alternativeQuoting: false,
+    hashComments: false,
+    nestedBlockComments: false,
+    clauseKeywords: ['LIMIT', 'OFFSET', 'FETCH'],
+    declareSections: false,
+    delimiterCommand: false
+  },
+  postgresql: {
+    displayName: 'PostgreSQL',
+    keywords: [
+      'RETURNING', 'ILIKE', 'SIMILAR', 'LATERAL', 'CONFLICT', 'NOTHING', 'WINDOW', 'FILTER',
+      'MATERIALIZED', 'SERIAL', 'BIGSERIAL', 'TEXT', 'BOOLEAN', 'JSONB', 'UUID', 'TIMESTAMPTZ',
+      'INTERVAL', 'LANGUAGE', 'RETURNS', 'COMMIT', 'ROLLBACK', 'VACUUM', 'ANALYZE', 'EXPLAIN'
+    ],
+    identifierQuotes: ['"'],
+    stringEscape: 'double',
+    // E'...'만 백슬래시 이스케이프를 씀 (standard_conforming_strings 기본값)
+    stringPrefixes: { E: 'backslash', N: 'double', X: 'double', B: 'double', 'U&': 'double' },
+    tripleQuotedStrings: false,
+    dollarQuoting: true,
+    alternativeQuoting: false,
+    hashComments: false,
+    nestedBlockComments: true,
+    selectModifier: /^DISTINCT\s+ON\s*\([^)]*\)/i,
+    clauseKeywords: ['LIMIT', 'OFFSET', 'FETCH', 'RETURNING', 'WINDOW', 'ON CONFLICT'],
+    declareSections: false,
+    delimiterCommand: false
+  },
+  mysql: {
+    displayName: 'MySQL',
+    keywords: [
+      'AUTO_INCREMENT', 'ENGINE', 'CHARSET', 'COLLATE', 'UNSIGNED', 'ZEROFILL', 'DELIMITER',
+      'IGNORE', 'DUPLICATE', 'KEY', 'STRAIGHT_JOIN', 'SQL_CALC_FOUND_ROWS', 'REGEXP',
+      'RLIKE', 'DIV', 'XOR', 'SHOW', 'DESCRIBE', 'USE', 'TINYINT', 'MEDIUMINT', 'BIGINT',
+      'VARCHAR', 'TEXT', 'LONGTEXT', 'DATETIME', 'ENUM', 'WINDOW', 'LEAVE', 'ITERATE'
+    ],
+    identifierQuotes: ['`'],
+    stringEscape: 'backslash',
+    stringPrefixes: { N: 'backslash', X: 'double', B: 'double' },
+    tripleQuotedStrings: false,
+    dollarQuoting: false,
+    alternativeQuoting: false,
+    hashComments: true,
+    nestedBlockComments: false,
+    clauseKeywords: ['LIMIT', 'WINDOW', 'ON DUPLICATE KEY UPDATE'],
+    declareSections: false,
+    delimiterCommand: true
+  },
+  tsql: {
+    displayName: 'T-SQL (SQL Server)',
+    keywords: [
+      'TOP', 'PERCENT', 'TIES', 'NOLOCK', 'IDENTITY', 'NVARCHAR', 'NCHAR', 'VARCHAR', 'BIT',
+      'DATETIME2', 'UNIQUEIDENTIFIER', 'EXEC', 'EXECUTE', 'MERGE', 'MATCHED', 'OUTPUT', 'APPLY',
+      'PIVOT', 'UNPIVOT', 'TRAN', 'TRANSACTION', 'COMMIT', 'ROLLBACK', 'TRY', 'CATCH',
+      'THROW', 'PRINT', 'ROWS', 'NEXT', 'ONLY', 'OPTION', 'PROC'
+    ],
+    identifierQuotes: ['"', '['],
+    stringEscape: 'double',
+    stringPrefixes: { N: 'double' },
+    tripleQuotedStrings: false,
+    dollarQuoting: false,
+    alternativeQuoting: false,
+    hashComments: false,
+    nestedBlockComments: true,
+    batchSeparator: 'GO',
+    selectModifier: /^(?:(?:DISTINCT|ALL)\s+)?TOP\s*(?:\([^)]*\)|\d+)(?:\s+PERCENT)?(?:\s+WITH\s+TIES)?/i,
+    clauseKeywords: ['OFFSET', 'FETCH', 'OPTION'],
+    declareSections: false,
+    delimiterCommand: false
+  },
+  oracle: {
+    displayName: 'Oracle',
+    keywords: [
+      'ROWNUM', 'ROWID', 'SYSDATE', 'DUAL', 'CONNECT BY', 'START WITH', 'PRIOR', 'NOCYCLE', 'MINUS',
+      'VARCHAR2', 'NVARCHAR2', 'NUMBER', 'CLOB', 'BLOB', 'MERGE', 'MATCHED',
+      'EXCEPTION', 'ELSIF', 'RETURNING', 'PACKAGE', 'BODY', 'ROWS',
+      'NEXT', 'ONLY', 'DECODE', 'NVL'
+    ],
+    identifierQuotes: ['"'],
+    stringEscape: 'double',
+    stringPrefixes: { N: 'double' },
+    tripleQuotedStrings: false,
+    dollarQuoting: false,
+    alternativeQuoting: true,
+    hashComments: false,
+    nestedBlockComments: false,
+    batchSeparator: '/',
+    clauseKeywords: ['OFFSET', 'FETCH', 'CONNECT BY', 'START WITH', 'MINUS'],
+    declareSections: true,
+    delimiterCommand: false
+  },
+  bigquery: {
+    displayName: 'BigQuery',
+    keywords: [
+      'QUALIFY', 'STRUCT', 'ARRAY', 'UNNEST', 'SAFE_CAST', 'EXCEPT', 'WINDOW',
+      'CLUSTER BY', 'OPTIONS', 'INT64', 'FLOAT64', 'NUMERIC', 'BIGNUMERIC', 'STRING',
+      'BYTES', 'BOOL', 'DATE', 'DATETIME', 'TIMESTAMP', 'INTERVAL', 'ROLLUP'
+    ],
+    identifierQuotes: ['`'],
+    stringEscape: 'backslash',
+    stringPrefixes: { R: 'none', B: 'backslash', RB: 'none', BR: 'none' },
+    tripleQuotedStrings: true,
+    dollarQuoting: false,
+    alternativeQuoting: false,
+    hashComments: true,
+    nestedBlockComments: false,
+    selectModifier: /^(?:(?:DISTINCT|ALL)\s+)?AS\s+(?:STRUCT|VALUE)\b/i,
+    clauseKeywords: ['QUALIFY', 'WINDOW', 'LIMIT'],
+    declareSections: false,
+    delimiterCommand: false
+  }
+};
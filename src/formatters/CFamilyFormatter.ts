@@ -0,0 +1,769 @@
+/**
+ * 중괄호 언어(C 계열) 공통 포매팅 엔진
+ * 공백 규칙, import 정렬, 선언 사이 빈 줄, 중괄호 스타일, 들여쓰기를 언어별 문법 설정(CFamilyGrammar)에 따라 적용합니다.
+ * 언어별 포매터는 토크나이저와 문법 설정을 정하고, 언어 고유의 토큰 규칙은 applyTokenRules를 재정의해 추가합니다.
+ */
+
+import { CFamilyFormattingConvention, FormattingResult } from '../types/FormattingTypes';
+import { CFamilyGrammar } from '../types/CFamilyTypes';
+import { Token } from '../types/TokenTypes';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { DiffService } from '../services/DiffService';
+import { BaseTokenizer } from '../tokenizers/BaseTokenizer';
+import { TokenUtils } from '../tokenizers/TokenUtils';
+
+/**
+ * 들여쓰기 중인 중괄호 블록
+ */
+interface OpenBlock {
+  /** 블록을 연 줄의 들여쓰기 레벨 (닫는 중괄호 줄도 같은 레벨) */
+  openerLevel: number;
+  /** switch 블록이면 case 레이블의 레벨 */
+  caseLevel: number | null;
+  /** case 레이블 뒤의 문인지 여부 */
+  inCase: boolean;
+  /** 블록을 열 때의 괄호 연속 줄 수 */
+  continuationBase: number;
+}
+
+/**
+ * 한 줄에 쓴 블록을 펼칠 때 추적하는 여는 중괄호 종류
+ * - block: 블록 (안의 문과 닫는 중괄호를 줄로 나눔)
+ * - inline: 줄 가운데서 연 블록이 아닌 중괄호 (초기화식, 람다 등으로 안쪽은 건드리지 않음)
+ * - open: 줄 끝에서 연 블록이 아닌 중괄호 (타입 본문 등으로 안쪽의 블록은 펼침)
+ */
+type InlineBrace = 'block' | 'inline' | 'open';
+
+export abstract class CFamilyFormatter<C extends CFamilyFormattingConvention> {
+  protected convention: C;
+  /** 언어 토크나이저 */
+  protected abstract readonly tokenizer: BaseTokenizer;
+  /** 언어별 문법 설정 */
+  protected abstract readonly grammar: CFamilyGrammar;
+
+  /** case 레이블 줄 (case 1:, default:, default ->) */
+  private static readonly CASE_LABEL = /^(?:case\b|default\s*(?::|->))/;
+  /** K&R 스타일에서 닫는 중괄호 줄에 이어 붙이는 키워드 */
+  private static readonly CUDDLED_KEYWORDS = /^(?:else|catch|finally)\b/;
+  /** 주석 줄 (리터럴을 가린 코드 기준) */
+  private static readonly COMMENT_LINE = /^(?:\/\/|\/\*)/;
+
+  constructor(convention: C) {
+    this.convention = convention;
+  }
+
+  /**
+   * 코드를 지정된 컨벤션에 따라 포매팅합니다.
+   * @param code 포매팅할 코드
+   * @returns 포매팅 결과
+   */
+  public format(code: string): FormattingResult {
+    const startTime = Date.now();
+    const diagnostics = new DiagnosticCollector();
+
+    try {
+      // 1. 토큰 단위 규칙 적용 (문자열/주석 내용은 건드리지 않음)
+      let tokens = this.tokenizer.tokenize(code);
+      tokens = this.applyTokenRules(tokens);
+      tokens = this.applySpacingRules(tokens);
+
+      // 2. 줄 단위 규칙을 위해 리터럴/주석 내용을 가림
+      const masked = TokenUtils.mask(tokens);
+
+      // 3. 기본 정규화 (공백, 개행 정리)
+      let formattedCode = this.normalizeWhitespace(masked.code);
+
+      // 4. import 문 정리
+      if (this.convention.organizeImports) {
+        formattedCode = this.organizeImports(formattedCode, masked.literals);
+      }
+
+      // 5. 중괄호 스타일 적용 (세미콜론을 쓰지 않는 언어는 펼친 뒤 줄 끝 세미콜론 제거)
+      formattedCode = this.applyBraceStyle(formattedCode);
+      if (this.grammar.omitStatementSemicolons) {
+        formattedCode = formattedCode.replace(/;(\s*(?:\/\/.*|\/\*.*\*\/)?)$/gm, '$1');
+      }
+
+      // 6. 선언 사이 빈 줄 정리
+      formattedCode = this.applyBlankLineRules(formattedCode);
+
+      // 7. 들여쓰기 적용
+      formattedCode = this.applyIndentation(formattedCode);
+
+      // 8. 리터럴/주석 복원 및 최종 정리
+      formattedCode = this.finalCleanup(TokenUtils.unmask(formattedCode, masked.literals));
+      diagnostics.reportLongLines(formattedCode, this.convention.maxLineLength);
+
+      const originalLines = code.split('\n');
+      const formattedLines = formattedCode.split('\n');
+      const changedLines = DiffService.countChangedLines(originalLines, formattedLines);
+
+      return {
+        formattedCode,
+        changedLines,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
+        processingTime: Date.now() - startTime
+      };
+    } catch (error) {
+      diagnostics.error('internal-error', `포매팅 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        formattedCode: code,
+        changedLines: 0,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
+        processingTime: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * 언어 고유의 토큰 규칙을 적용합니다. (기본: 없음)
+   */
+  protected applyTokenRules(tokens: Token[]): Token[] {
+    return tokens;
+  }
+
+  /**
+   * 제어문 키워드 뒤 괄호 앞 공백을 맞춥니다. (if (, for (, while ()
+   */
+  protected applyControlParenSpacing(tokens: Token[], space: boolean): Token[] {
+    return TokenUtils.adjustSpacing(
+      tokens,
+      (token, index, all) => token.value === '(' &&
+        this.grammar.controlKeywords.has(TokenUtils.previousSignificant(all, index)?.value ?? ''),
+      space
+    );
+  }
+
+  /**
+   * 메서드 이름 뒤 괄호 앞 공백을 맞춥니다.
+   */
+  protected applyMethodParenSpacing(tokens: Token[], space: boolean): Token[] {
+    return TokenUtils.adjustSpacing(
+      tokens,
+      (token, index, all) => token.value === '(' && TokenUtils.previousSignificant(all, index)?.type === 'identifier',
+      space
+    );
+  }
+
+  /**
+   * 언어 공통 공백 규칙을 적용합니다. (이항 연산자, 쉼표, 세미콜론, else/catch/finally, 여는 중괄호)
+   */
+  private applySpacingRules(tokens: Token[]): Token[] {
+    if (this.convention.spaceAroundOperators) {
+      // 화살표는 앞이 키워드여도 이항 연산자 (default -> ...)
+      tokens = TokenUtils.adjustSpacing(
+        tokens,
+        (token, index, all) => TokenUtils.isBinaryOperator(all, index, this.grammar.binaryOperators) ||
+          (token.type === 'punctuation' && token.value === '->' && this.grammar.binaryOperators.has('->')),
+        true,
+        true
+      );
+
+      if (this.grammar.ternaryOperator) {
+        const ternary = this.findTernaryOperators(tokens);
+        tokens = TokenUtils.adjustSpacing(tokens, (_, index) => ternary.has(index), true, true);
+      }
+    }
+
+    // 쉼표 앞 공백 제거, 뒤 공백 한 칸
+    tokens = TokenUtils.adjustSpacing(tokens, token => token.type === 'punctuation' && token.value === ',', false, true);
+
+    // for 헤더 등 한 줄 안의 세미콜론 뒤 공백 한 칸 (for (;;), 닫는 괄호 앞, 줄 끝 주석 앞은 그대로 둠)
+    tokens = TokenUtils.adjustSpacing(
+      tokens,
+      (token, index, all) => {
+        if (token.type !== 'punctuation' || token.value !== ';') {
+          return false;
+        }
+        let next = index + 1;
+        while (all[next]?.type === 'whitespace') {
+          next++;
+        }
+        return next < all.length && all[next].type !== 'newline' && all[next].type !== 'comment' &&
+          ![';', ')', '}'].includes(all[next].value);
+      },
+      false,
+      true
+    );
+
+    // 닫는 중괄호와 뒤따르는 else/catch/finally 사이 공백 (}else → } else)
+    tokens = TokenUtils.adjustSpacing(
+      tokens,
+      (token, index, all) => CFamilyFormatter.CUDDLED_KEYWORDS.test(token.value) &&
+        TokenUtils.previousSignificant(all, index)?.value === '}',
+      true
+    );
+
+    if (this.grammar.spaceBeforeOpenBrace) {
+      // 괄호 바로 안쪽의 중괄호(foo({ ... }))와 경로 묶음(use a::{b, c})은 제외
+      tokens = TokenUtils.adjustSpacing(
+        tokens,
+        (token, index, all) => token.value === '{' &&
+          !['(', '[', '{', '#', '$', '::'].includes(TokenUtils.previousSignificant(all, index)?.value ?? '('),
+        true
+      );
+    }
+
+    return tokens;
+  }
+
+  /**
+   * 조건 연산자의 '?'와 짝이 되는 ':'의 위치를 찾습니다.
+   * 피연산자 뒤의 '?'에서 같은 괄호 깊이의 ':'까지 짝을 맞추며, 짝이 없는 '?'(nullable 타입, 와일드카드)와
+   * 다른 ':'(case 레이블, for-each, 상속)는 제외합니다.
+   */
+  private findTernaryOperators(tokens: Token[]): Set<number> {
+    const result = new Set<number>();
+    const isPunctuation = (index: number, value: string) =>
+      tokens[index].type === 'punctuation' && tokens[index].value === value;
+
+    for (let i = 0; i < tokens.length; i++) {
+      if (!isPunctuation(i, '?') || !TokenUtils.isOperand(TokenUtils.previousSignificant(tokens, i))) {
+        continue;
+      }
+
+      let depth = 0;
+      let nested = 0;
+      for (let j = i + 1; j < tokens.length; j++) {
+        const { type, value } = tokens[j];
+        if (type !== 'punctuation') {
+          continue;
+        }
+        if (['(', '[', '{'].includes(value)) {
+          depth++;
+        } else if ([')', ']', '}'].includes(value)) {
+          depth--;
+        } else if (depth === 0 && value === '?') {
+          nested++;
+        } else if (depth === 0 && value === ':') {
+          if (nested === 0) {
+            result.add(i).add(j);
+            break;
+          }
+          nested--;
+        }
+        if (depth < 0 || (depth === 0 && (value === ';' || value === ','))) {
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 기본 공백과 개행을 정규화합니다.
+   */
+  private normalizeWhitespace(code: string): string {
+    // 탭을 스페이스로 변환하거나 그 반대
+    if (this.convention.indentationType === 'space') {
+      code = code.replace(/\t/g, ' '.repeat(this.convention.indentSize));
+    }
+
+    // 줄 끝 공백 제거
+    if (this.convention.trimTrailingWhitespace) {
+      code = code.replace(/[ \t]+$/gm, '');
+    }
+
+    // 여러 연속된 빈 줄을 하나로 정리
+    code = code.replace(/\n\s*\n\s*\n/g, '\n\n');
+
+    return code;
+  }
+
+  /**
+   * 파일 앞부분의 import 문을 정렬하고 그룹화합니다.
+   * 헤더 선언(package 등)과 주석 뒤에 이어진 import 문만 대상으로 하며, 다른 코드가 먼저 나오면 그대로 둡니다.
+   * @param code 리터럴을 가린 코드
+   * @param literals 가린 리터럴 (정렬 키를 원문으로 비교할 때 사용)
+   */
+  protected organizeImports(code: string, literals: string[]): string {
+    const rules = this.grammar.imports;
+    if (!rules) {
+      return code;
+    }
+
+    const lines = code.split('\n');
+    let start = 0;
+    while (start < lines.length && !rules.statement.test(lines[start].trim())) {
+      const trimmed = lines[start].trim();
+      if (trimmed !== '' && !CFamilyFormatter.COMMENT_LINE.test(trimmed) && !rules.header?.test(trimmed)) {
+        return code;
+      }
+      start++;
+    }
+
+    const statements: string[] = [];
+    let end = start;
+    for (; end < lines.length; end++) {
+      const trimmed = lines[end].trim();
+      if (rules.statement.test(trimmed)) {
+        statements.push(trimmed);
+      } else if (trimmed !== '') {
+        break;
+      }
+    }
+    if (statements.length === 0) {
+      return code;
+    }
+
+    // 세미콜론을 빼고 비교해야 상위 이름이 먼저 옴 (using System; → using System.Text;)
+    const sortKey = (statement: string) => TokenUtils.unmask(statement, literals).replace(/\s*;$/, '');
+    const compare = (a: string, b: string) => {
+      const keyA = sortKey(a);
+      const keyB = sortKey(b);
+      return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+    };
+
+    // leading 묶음 (Java static import)
+    const leading = statements.filter(statement => rules.leading?.test(statement)).sort(compare);
+    const others = statements.filter(statement => !rules.leading?.test(statement));
+
+    // 그룹별 정렬 (그룹 사이 빈 줄을 넣지 않아도 그룹 순서는 지킴)
+    const groups: string[][] = [...rules.groups.map(() => []), []];
+    others.forEach(statement => {
+      const index = rules.groups.findIndex(pattern => pattern.test(statement));
+      groups[index === -1 ? groups.length - 1 : index].push(statement);
+    });
+    const blocks = groups
+      .flatMap(group => this.splitByRootName(group.sort(compare), rules.rootName))
+      .filter(group => group.length > 0);
+
+    const imports: string[] = [...leading];
+    if (leading.length > 0 && blocks.length > 0 && rules.separateLeading) {
+      imports.push('');
+    }
+    blocks.forEach((block, index) => {
+      if (index > 0 && this.convention.separateImportGroups) {
+        imports.push('');
+      }
+      imports.push(...block);
+    });
+
+    const prefix = lines.slice(0, start);
+    while (prefix.length > 0 && prefix[prefix.length - 1].trim() === '') {
+      prefix.pop();
+    }
+    const rest = lines.slice(end);
+    return [
+      ...prefix,
+      ...(prefix.length > 0 ? [''] : []),
+      ...imports,
+      ...(rest.length > 0 ? [''] : []),
+      ...rest
+    ].join('\n');
+  }
+
+  /**
+   * 정렬된 import 그룹을 최상위 이름이 바뀌는 곳에서 나눕니다. (그룹 사이 빈 줄을 넣을 때만)
+   */
+  private splitByRootName(group: string[], rootName: RegExp | undefined): string[][] {
+    if (!rootName || !this.convention.separateImportGroups) {
+      return [group];
+    }
+    const blocks: string[][] = [];
+    let previousRoot: string | undefined;
+    group.forEach(statement => {
+      const root = rootName.exec(statement)?.[1] ?? '';
+      if (blocks.length === 0 || root !== previousRoot) {
+        blocks.push([]);
+      }
+      blocks[blocks.length - 1].push(statement);
+      previousRoot = root;
+    });
+    return blocks;
+  }
+
+  /**
+   * 중괄호 스타일을 적용합니다. (K&R, Allman 외의 스타일은 원문 유지)
+   * 한 줄에 쓴 블록은 먼저 펼친 뒤 중괄호를 스타일에 맞는 줄로 옮깁니다.
+   */
+  private applyBraceStyle(code: string): string {
+    if (this.grammar.preserveBracePlacement) {
+      return this.expandInlineBlocks(code);
+    }
+    switch (this.convention.braceStyle) {
+      case 'kr':
+        return this.joinOpeningBraces(this.expandInlineBlocks(code));
+      case 'allman':
+        return this.splitOpeningBraces(this.expandInlineBlocks(code));
+      default:
+        return code;
+    }
+  }
+
+  /**
+   * 한 줄에 쓴 블록을 펼칩니다. (void M() { a(); if (b) { c(); } } → 여는 중괄호 뒤, 문 사이, 닫는 중괄호 앞뒤에서 줄을 나눔)
+   * 블록 키워드나 함수 선언으로 시작하는 중괄호만 펼치고, 괄호 안의 중괄호와 빈 블록({ })은 그대로 둡니다.
+   */
+  private expandInlineBlocks(code: string): string {
+    const result: string[] = [];
+    const braces: InlineBrace[] = [];
+    let parenDepth = 0;
+    let previous = '';
+
+    for (const line of code.split('\n')) {
+      const trimmed = line.trim();
+      const indent = line.slice(0, line.length - line.trimStart().length);
+      const pieces: string[] = [];
+      let current = '';
+      // 현재 문이 시작한 위치 (current 기준)
+      let statementStart = 0;
+
+      const breakLine = (rest: string) => {
+        // 주석은 앞 코드 줄에 남김
+        if (current.trim() !== '' && rest.trim() !== '' && !rest.trimStart().startsWith('//')) {
+          pieces.push(current.trim());
+          current = '';
+          statementStart = 0;
+        }
+      };
+
+      for (let i = 0; i < trimmed.length; i++) {
+        const char = trimmed[i];
+        if (trimmed.startsWith('//', i)) {
+          current += trimmed.slice(i);
+          break;
+        }
+        if (char === '(' || char === '[') {
+          parenDepth++;
+        } else if ((char === ')' || char === ']') && parenDepth > 0) {
+          parenDepth--;
+        }
+        if (parenDepth > 0 || (char !== '{' && char !== '}' && char !== ';')) {
+          current += char;
+          continue;
+        }
+
+        const rest = trimmed.slice(i + 1);
+        const statement = current.slice(statementStart).trim().replace(/^\}\s*/, '');
+        const inInline = braces.includes('inline');
+        current += char;
+
+        if (char === ';') {
+          // 괄호 없는 헤더의 세미콜론(Go의 for i := 0; i < n; i++ {, if err := f(); err != nil {)은 중괄호까지 한 문으로 둠
+          if (this.isHeaderClause(statement, rest)) {
+            continue;
+          }
+          statementStart = current.length;
+          if (braces[braces.length - 1] === 'block') {
+            breakLine(rest);
+          }
+        } else if (char === '{') {
+          const header = statement || (current.trim() === '{' && pieces.length === 0 ? previous : '');
+          if (inInline || rest.trimStart().startsWith('}')) {
+            braces.push('inline');
+          } else if (this.isBlockHeader(header)) {
+            braces.push('block');
+            breakLine(rest);
+          } else {
+            braces.push(rest.trim() === '' ? 'open' : 'inline');
+          }
+        } else {
+          if (braces.pop() === 'block') {
+            current = current.slice(0, -1);
+            breakLine(char);
+            current += char;
+            // else/catch 등과 do-while의 while은 닫는 중괄호 뒤에 두고 중괄호 스타일 단계에서 옮김
+            const next = rest.trimStart();
+            if (/^[\p{L}_$]/u.test(next) && !CFamilyFormatter.CUDDLED_KEYWORDS.test(next) && !/^while\b/.test(next)) {
+              breakLine(rest);
+            }
+            statementStart = current.length;
+          }
+        }
+      }
+
+      if (current.trim() !== '' || pieces.length === 0) {
+        pieces.push(current.trim());
+      }
+      // 펼친 줄에서는 case 레이블 뒤의 문도 다음 줄로 나눔
+      const expanded = pieces.length > 1 ? pieces.flatMap(piece => this.splitCaseLabel(piece)) : pieces;
+      result.push(...expanded.map(piece => (piece ? indent + piece : '')));
+      if (trimmed !== '') {
+        previous = expanded[expanded.length - 1];
+      }
+    }
+
+    return result.join('\n');
+  }
+
+  /**
+   * 여는 중괄호 앞 코드가 블록을 여는지 확인합니다. (블록 키워드로 시작하거나 함수 선언)
+   */
+  private isBlockHeader(header: string): boolean {
+    const keyword = /^[\p{L}_]+/u.exec(header)?.[0];
+    return (keyword !== undefined && this.grammar.blockKeywords.has(keyword)) ||
+      this.grammar.declarations.function.test(header);
+  }
+
+  /**
+   * case 레이블과 같은 줄에 쓴 문을 나눕니다. (case 1: a(); → case 1:, a();)
+   * 화살표 case(case 1 -> ...)와 Go의 :=는 레이블 끝으로 보지 않습니다.
+   */
+  private splitCaseLabel(piece: string): string[] {
+    if (!CFamilyFormatter.CASE_LABEL.test(piece)) {
+      return [piece];
+    }
+
+    let depth = 0;
+    for (let i = 0; i < piece.length; i++) {
+      const char = piece[i];
+      if (char === '(' || char === '[' || char === '{') {
+        depth++;
+      } else if (char === ')' || char === ']' || char === '}') {
+        depth--;
+      } else if (char === '-' && piece[i + 1] === '>' && depth === 0) {
+        return [piece];
+      } else if (char === ':' && depth === 0 && piece[i + 1] !== '=' && piece[i + 1] !== ':' && piece[i - 1] !== ':') {
+        const body = piece.slice(i + 1).trim();
+        return body === '' || body.startsWith('//') ? [piece] : [piece.slice(0, i + 1), body];
+      }
+    }
+    return [piece];
+  }
+
+  /**
+   * 세미콜론 앞 코드가 괄호 없이 쓴 제어문 헤더의 일부인지 확인합니다. (블록 키워드 뒤에 괄호가 없고 같은 줄에 여는 중괄호가 남음)
+   */
+  private isHeaderClause(statement: string, rest: string): boolean {
+    const match = /^([\p{L}_]+)\s*(\S?)/u.exec(statement);
+    return match !== null && this.grammar.blockKeywords.has(match[1]) && match[2] !== '(' && rest.includes('{');
+  }
+
+  /**
+   * K&R 스타일: 따로 떨어진 여는 중괄호를 앞 줄 끝으로 올리고, else/catch/finally를 닫는 중괄호 뒤에 붙입니다.
+   */
+  private joinOpeningBraces(code: string): string {
+    const result: string[] = [];
+
+    for (const line of code.split('\n')) {
+      const trimmed = line.trim();
+      let previousIndex = result.length - 1;
+      while (previousIndex >= 0 && result[previousIndex].trim() === '') {
+        previousIndex--;
+      }
+      const previous = previousIndex >= 0 ? result[previousIndex].trim() : undefined;
+
+      const joinsBrace = trimmed.startsWith('{') && previous !== undefined && this.canTakeOpeningBrace(previous);
+      const joinsKeyword = previous === '}' && CFamilyFormatter.CUDDLED_KEYWORDS.test(trimmed);
+      if (joinsBrace || joinsKeyword) {
+        result.splice(previousIndex + 1);
+        result[previousIndex] = `${result[previousIndex].trimEnd()} ${trimmed}`;
+      } else {
+        result.push(line);
+      }
+    }
+
+    return result.join('\n');
+  }
+
+  /**
+   * 줄 끝에 여는 중괄호를 붙일 수 있는지 확인합니다.
+   * 문이 끝난 줄, 주석이 있는 줄, 어노테이션 줄 뒤의 중괄호는 독립 블록이므로 올리지 않습니다.
+   */
+  private canTakeOpeningBrace(line: string): boolean {
+    return !/[;{},]$/.test(line) && !line.endsWith('*/') && !line.includes('//') &&
+      !this.grammar.declarations.annotation.test(line);
+  }
+
+  /**
+   * Allman 스타일: 줄 끝의 여는 중괄호를 다음 줄로 내리고, 닫는 중괄호 뒤의 else/catch 등을 다음 줄로 나눕니다.
+   */
+  private splitOpeningBraces(code: string): string {
+    const result: string[] = [];
+    const pending = code.split('\n');
+
+    for (let i = 0; i < pending.length; i++) {
+      const line = pending[i];
+      const trimmed = line.trim();
+      const indent = line.slice(0, line.length - line.trimStart().length);
+
+      const afterClose = trimmed.startsWith('}') ? trimmed.slice(1).trimStart() : '';
+      if (/^[\p{L}_]/u.test(afterClose)) {
+        result.push(`${indent}}`);
+        pending.splice(i + 1, 0, indent + afterClose);
+        continue;
+      }
+
+      const opensBlock = trimmed.endsWith('{') && trimmed !== '{' &&
+        (this.grammar.allmanBlockLine?.test(trimmed) ?? true);
+      if (opensBlock) {
+        result.push(`${indent}${trimmed.slice(0, -1).trimEnd()}`, `${indent}{`);
+      } else {
+        result.push(line);
+      }
+    }
+
+    return result.join('\n');
+  }
+
+  /**
+   * 타입/함수 선언 앞에 빈 줄을 맞춥니다.
+   * 선언에 붙은 주석과 어노테이션은 선언과 함께 두고, 블록의 첫 선언 앞에는 빈 줄을 넣지 않습니다.
+   */
+  protected applyBlankLineRules(code: string): string {
+    const { declarations } = this.grammar;
+    const result: string[] = [];
+
+    for (const line of code.split('\n')) {
+      const trimmed = line.trim();
+      let count = 0;
+      if (declarations.type.test(trimmed)) {
+        count = this.convention.blankLinesBetweenClasses;
+      } else if (declarations.function.test(trimmed)) {
+        count = this.convention.blankLinesBetweenMethods;
+      }
+      if (count > 0) {
+        this.addBlankLines(result, count);
+      }
+      result.push(line);
+    }
+
+    return result.join('\n');
+  }
+
+  /**
+   * 마지막 선언 헤더(주석, 어노테이션) 앞의 빈 줄을 지정한 개수로 맞춥니다.
+   * 블록이나 파일의 첫 선언, import 문 바로 뒤의 선언은 건드리지 않습니다.
+   */
+  private addBlankLines(result: string[], count: number): void {
+    const { annotation } = this.grammar.declarations;
+    let headerStart = result.length;
+    while (headerStart > 0) {
+      const line = result[headerStart - 1].trim();
+      // 어노테이션 뒤 빈 줄(Java blankLineAfterAnnotations)도 선언에 붙은 것으로 봄
+      const blankAfterAnnotation = line === '' && headerStart > 1 && annotation.test(result[headerStart - 2].trim());
+      if (!this.isDeclarationHeader(line) && !blankAfterAnnotation) {
+        break;
+      }
+      headerStart--;
+    }
+    let blankStart = headerStart;
+    while (blankStart > 0 && result[blankStart - 1].trim() === '') {
+      blankStart--;
+    }
+
+    const previous = result[blankStart - 1]?.trim();
+    const imports = this.grammar.imports;
+    if (previous === undefined || previous.endsWith('{') ||
+      imports?.statement.test(previous) || imports?.header?.test(previous)) {
+      return;
+    }
+    result.splice(blankStart, headerStart - blankStart, ...new Array<string>(count).fill(''));
+  }
+
+  /**
+   * 선언 앞에 붙는 줄(주석, 어노테이션)인지 확인합니다.
+   */
+  private isDeclarationHeader(line: string): boolean {
+    return CFamilyFormatter.COMMENT_LINE.test(line) || this.grammar.declarations.annotation.test(line);
+  }
+
+  /**
+   * 들여쓰기를 적용합니다.
+   * 중괄호 블록마다 한 단계, 닫히지 않은 소괄호/대괄호가 남은 줄과 '.'로 시작하는 체이닝 줄,
+   * 이항 연산자로 끝난 줄의 다음 줄은 한 단계 더 들여씁니다.
+   */
+  private applyIndentation(code: string): string {
+    const indentString = this.convention.indentationType === 'tab'
+      ? '\t'
+      : ' '.repeat(this.convention.indentSize);
+    const blocks: OpenBlock[] = [];
+    // 괄호 연속 줄마다 그 줄이 연 괄호 깊이
+    const continuation: number[] = [];
+    let bracketDepth = 0;
+    let previousCode = '';
+    // 앞 줄이 괄호를 열지 않고 이항 연산자로 끝났는지 여부 (괄호 연속 줄과 겹쳐 들여쓰지 않음)
+    let operatorContinuation = false;
+
+    return code.split('\n').map(line => {
+      const trimmed = line.trim();
+      if (trimmed === '') {
+        return '';
+      }
+
+      // 줄 앞의 닫는 괄호가 닫는 연속 줄은 이 줄부터 빠짐
+      const leadingClosers = /^[)\]]*/.exec(trimmed)![0].length;
+      while (continuation.length > 0 && continuation[continuation.length - 1] > bracketDepth - leadingClosers) {
+        continuation.pop();
+      }
+
+      let level: number;
+      if (trimmed.startsWith('}')) {
+        const block = blocks.pop();
+        level = block?.openerLevel ?? 0;
+        continuation.length = Math.min(continuation.length, block?.continuationBase ?? 0);
+      } else {
+        const block = blocks[blocks.length - 1];
+        level = block ? block.openerLevel + 1 : 0;
+        if (block && block.caseLevel !== null) {
+          if (CFamilyFormatter.CASE_LABEL.test(trimmed)) {
+            level = block.caseLevel;
+            block.inCase = true;
+          } else if (block.inCase) {
+            level = block.caseLevel + 1;
+          }
+        }
+        level += continuation.length - (block?.continuationBase ?? 0);
+        if (/^\??\.[\p{L}_]/u.test(trimmed) || operatorContinuation) {
+          level++;
+        }
+      }
+
+      // 괄호 깊이 갱신 (중괄호로 끝나는 줄의 괄호는 블록 들여쓰기로 대신함)
+      const depthBefore = bracketDepth;
+      bracketDepth = Math.max(0, bracketDepth + (trimmed.match(/[([]/g) || []).length -
+        (trimmed.match(/[)\]]/g) || []).length);
+      while (continuation.length > 0 && continuation[continuation.length - 1] > bracketDepth) {
+        continuation.pop();
+      }
+      if (bracketDepth > depthBefore && !trimmed.endsWith('{')) {
+        continuation.push(bracketDepth);
+      }
+      operatorContinuation = bracketDepth <= depthBefore && this.endsWithBinaryOperator(trimmed);
+
+      if (trimmed.endsWith('{')) {
+        const header = trimmed === '{' ? previousCode : trimmed;
+        const isSwitch = this.grammar.switchKeywords.has(/^\w+/.exec(header)?.[0] ?? '');
+        blocks.push({
+          openerLevel: level,
+          caseLevel: isSwitch ? level + (this.grammar.indentCaseLabels ? 1 : 0) : null,
+          inCase: false,
+          continuationBase: continuation.length
+        });
+      }
+      previousCode = trimmed;
+
+      return indentString.repeat(Math.max(0, level)) + trimmed;
+    }).join('\n');
+  }
+
+  /**
+   * 줄이 이항 연산자로 끝나는지 확인합니다. (줄 끝 주석 제외)
+   */
+  private endsWithBinaryOperator(line: string): boolean {
+    const operator = /[^\p{L}\p{N}_\s)\]}'"`]+$/u.exec(line.replace(/\/\/.*$/, '').trimEnd())?.[0];
+    return operator !== undefined && this.grammar.binaryOperators.has(operator);
+  }
+
+  /**
+   * 최종 정리를 수행합니다.
+   */
+  private finalCleanup(code: string): string {
+    // 파일 끝 개행 처리
+    if (this.convention.insertFinalNewline) {
+      if (!code.endsWith('\n')) {
+        code += '\n';
+      }
+    } else {
+      code = code.replace(/\n+$/, '');
+    }
+
+    return code;
+  }
+}
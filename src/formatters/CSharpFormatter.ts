@@ -0,0 +1,50 @@
+/**
+ * C# 언어를 위한 코드 포매터
+ * .NET 기본 스타일(Allman 중괄호, System using 우선)과 Mono 스타일 등을 지원합니다.
+ */
+
+import { CSharpFormattingConvention } from '../types/FormattingTypes';
+import { CFamilyGrammar } from '../types/CFamilyTypes';
+import { Token } from '../types/TokenTypes';
+import { CSharpTokenizer } from '../tokenizers/CSharpTokenizer';
+import { CFamilyFormatter } from './CFamilyFormatter';
+
+export class CSharpFormatter extends CFamilyFormatter<CSharpFormattingConvention> {
+  protected readonly tokenizer = new CSharpTokenizer();
+
+  protected readonly grammar: CFamilyGrammar = {
+    binaryOperators: new Set([
+      '=', '==', '!=', '<', '>', '<=', '>=', '+', '-', '*', '/', '%', '&&', '||', '&', '|', '^',
+      '<<', '>>', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>=', '??', '??=', '=>'
+    ]),
+    ternaryOperator: true,
+    controlKeywords: new Set(['if', 'for', 'foreach', 'while', 'switch', 'catch', 'when', 'using', 'lock', 'fixed']),
+    spaceBeforeOpenBrace: true,
+    switchKeywords: new Set(['switch']),
+    blockKeywords: new Set(['if', 'else', 'for', 'foreach', 'while', 'do', 'switch', 'try', 'catch', 'finally', 'using', 'lock', 'fixed', 'unsafe', 'checked', 'unchecked']),
+    indentCaseLabels: true,
+    imports: {
+      statement: /^(?:global\s+)?using\s+(?:static\s+)?(?:\w+\s*=\s*)?[\w.]+(?:<[\w.<>, ]+>)?\s*;$/,
+      header: /^#/,
+      // dotnet_sort_system_directives_first
+      groups: this.convention.systemUsingsFirst
+        ? [/^(?:global\s+)?using\s+(?:static\s+)?System(?:\.|\s*;)/]
+        : [],
+      // dotnet_separate_import_directive_groups: 최상위 네임스페이스가 바뀔 때마다 빈 줄
+      rootName: /using\s+(?:static\s+)?(\w+)/
+    },
+    declarations: {
+      type: /^(?:(?:public|private|protected|internal|static|sealed|abstract|partial|readonly|ref|unsafe|file|new)\s+)*(?:class|struct|interface|enum|record)\s+\w/,
+      function: /^(?!(?:return|new|throw|else|if|for|foreach|while|switch|catch|try|do|using|lock|fixed|case|await|yield|var|goto|checked|unchecked)\b)(?:[\w<>[\]?,.]+\s+)+\w+(?:<[^>]*>)?\s*\([^;]*$/,
+      annotation: /^\[[^\]].*\]$/
+    }
+  };
+
+  /**
+   * 제어문/메서드 괄호 앞 공백을 맞춥니다.
+   */
+  protected applyTokenRules(tokens: Token[]): Token[] {
+    tokens = this.applyControlParenSpacing(tokens, this.convention.spaceBeforeControlParens);
+    return this.applyMethodParenSpacing(tokens, this.convention.spaceBeforeMethodParens);
+  }
+}
@@ -0,0 +1,581 @@
+/**
+ * CSS/SCSS/Less 포매터
+ * 규칙과 선언을 한 줄에 하나씩 들여쓰고, 선택자 줄바꿈, 속성 정렬, 색상 대소문자, 0 단위, 따옴표를 통일합니다.
+ * 선택자와 값은 토큰 단위로만 고치므로 SCSS/Less의 변수, 보간, 믹스인, 맵은 원문 그대로 남습니다.
+ */
+
+import { CssFormattingConvention, FormattingResult } from '../types/FormattingTypes';
+import { CssAtRule, CssDeclaration, CssNode } from '../types/CssTypes';
+import { CssStructureParser } from '../utils/CssStructureParser';
+import { CSS_PROPERTY_GROUPS } from '../constants/CssPropertyGroups';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { DiffService } from '../services/DiffService';
+
+/**
+ * 값을 정리할 때 적용할 변환
+ */
+interface ValueOptions {
+  /** 공백을 한 칸으로 줄일지 여부 (여러 줄 값이면 줄 구조를 유지) */
+  collapse: boolean;
+  /** 16진수 색상 대소문자를 고칠지 여부 (선언 값만 해당) */
+  colors: boolean;
+  /** 0 단위를 뺄지 여부 (변수 값은 calc() 안에서 쓰일 수 있어 제외) */
+  zeroUnits: boolean;
+  /** 문자열 따옴표를 바꿀지 여부 */
+  quotes: boolean;
+}
+
+export class CssFormatter {
+  /** 단위를 뺄 수 있는 길이 단위 (시간, 각도, %, fr은 0이어도 단위가 필요할 수 있어 제외) */
+  private static readonly ZERO_LENGTH = new RegExp(
+    '(^|[\\s,(:/*+])[-+]?(?:0+(?:\\.0*)?|\\.0+)(?:' +
+    'px|em|rem|ex|ch|lh|rlh|vw|vh|vmin|vmax|vi|vb|svw|svh|lvw|lvh|dvw|dvh|cqw|cqh|cqi|cqb|cqmin|cqmax|' +
+    'cm|mm|q|in|pt|pc)(?![\\w%-])',
+    'gi'
+  );
+
+  /** 16진수 색상 */
+  private static readonly HEX_COLOR = /#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})(?![\w-])/gi;
+
+  /** 안의 0에 단위가 필요한 수식 함수 */
+  private static readonly MATH_FUNCTIONS = new Set(['calc', 'min', 'max', 'clamp', 'round', 'mod', 'rem']);
+
+  /** 벤더 접두사 (정렬할 때 떼고 비교) */
+  private static readonly VENDOR_PREFIX = /^-(?:webkit|moz|ms|o)-/i;
+
+  private convention: CssFormattingConvention;
+  private indentUnit: string;
+
+  constructor(convention: CssFormattingConvention) {
+    this.convention = convention;
+    this.indentUnit = convention.indentationType === 'tab' ? '\t' : ' '.repeat(convention.indentSize);
+  }
+
+  /**
+   * CSS/SCSS/Less 코드를 지정된 컨벤션에 따라 포매팅합니다.
+   * @param code 포매팅할 코드
+   * @returns 포매팅 결과
+   */
+  public format(code: string): FormattingResult {
+    const startTime = Date.now();
+    const diagnostics = new DiagnosticCollector();
+
+    try {
+      const nodes = CssStructureParser.parse(code.replace(/\r\n/g, '\n'));
+      const out: string[] = [];
+      this.printBlock(nodes, '', out);
+
+      const formattedCode = this.finalCleanup(out.join('\n'));
+      diagnostics.reportLongLines(formattedCode, this.convention.maxLineLength);
+
+      const originalLines = code.split('\n');
+      const formattedLines = formattedCode.split('\n');
+      const changedLines = DiffService.countChangedLines(originalLines, formattedLines);
+
+      return {
+        formattedCode,
+        changedLines,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
+        processingTime: Date.now() - startTime
+      };
+    } catch (error) {
+      diagnostics.parseError(code, error, 'CSS 포매팅');
+      return {
+        formattedCode: code,
+        changedLines: 0,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
+        processingTime: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * 블록 내용을 출력합니다.
+   * 규칙 앞뒤에는 blankLinesBetweenRules만큼 빈 줄을 넣고, 나머지 노드 사이의 빈 줄은 하나까지 유지합니다.
+   */
+  private printBlock(nodes: CssNode[], indent: string, out: string[]): void {
+    const ordered = this.sortDeclarations(nodes);
+
+    ordered.forEach((node, index) => {
+      const previous = ordered[index - 1];
+      if (previous && this.continuesIfChain(previous, node)) {
+        const closing = out.pop()!;
+        const lines = this.printNode(node, indent);
+        out.push(`${closing} ${lines[0].trimStart()}`, ...lines.slice(1));
+        return;
+      }
+
+      if (previous) {
+        out.push(...Array(this.blankLinesBefore(ordered, index)).fill(''));
+      }
+      out.push(...this.printNode(node, indent));
+    });
+  }
+
+  private printNode(node: CssNode, indent: string): string[] {
+    const lines = this.printNodeBody(node, indent);
+    if (node.trailingComment) {
+      lines[lines.length - 1] += ` ${node.trailingComment}`;
+    }
+    return lines;
+  }
+
+  private printNodeBody(node: CssNode, indent: string): string[] {
+    switch (node.kind) {
+      case 'rule':
+        return this.printBlockNode(this.formatSelector(node.selector, indent), node.children, indent);
+      case 'atrule': {
+        const head = this.formatAtRuleHead(node, indent);
+        return node.children ? this.printBlockNode(head, node.children, indent) : [`${head};`];
+      }
+      case 'decl':
+        return [this.formatDeclaration(node, indent)];
+      case 'raw':
+        return [`${indent}${this.normalizeValue(node.text, { collapse: !node.text.includes('\n'), colors: false, zeroUnits: false, quotes: false })};`];
+      case 'comment':
+        return [indent + this.reindent(node.text, node.sourceIndent, indent)];
+    }
+  }
+
+  private printBlockNode(head: string, children: CssNode[], indent: string): string[] {
+    if (children.length === 0) {
+      return [`${head} {}`];
+    }
+    const lines = [`${head} {`];
+    this.printBlock(children, indent + this.indentUnit, lines);
+    lines.push(`${indent}}`);
+    return lines;
+  }
+
+  /**
+   * 노드 앞에 넣을 빈 줄 개수를 계산합니다.
+   * 규칙 바로 앞에 붙은 주석은 규칙과 한 덩어리로 보아 주석 앞에 빈 줄을 넣습니다.
+   */
+  private blankLinesBefore(nodes: CssNode[], index: number): number {
+    const node = nodes[index];
+    const previous = nodes[index - 1];
+
+    if (this.isBlock(previous)) {
+      return this.convention.blankLinesBetweenRules;
+    }
+    if (this.isBlock(node) || this.isCommentBeforeBlock(nodes, index)) {
+      return this.isCommentBeforeBlock(nodes, index - 1) ? 0 : this.convention.blankLinesBetweenRules;
+    }
+    return node.blankBefore ? 1 : 0;
+  }
+
+  private isBlock(node: CssNode): boolean {
+    return node.kind === 'rule' || (node.kind === 'atrule' && node.children !== null);
+  }
+
+  /**
+   * 빈 줄 없이 규칙 바로 앞에 붙은 주석인지 확인합니다.
+   */
+  private isCommentBeforeBlock(nodes: CssNode[], index: number): boolean {
+    const node = nodes[index];
+    const next = nodes[index + 1];
+    if (node?.kind !== 'comment' || !next || next.blankBefore) {
+      return false;
+    }
+    return this.isBlock(next) || this.isCommentBeforeBlock(nodes, index + 1);
+  }
+
+  /**
+   * SCSS @if 블록 뒤의 @else를 '} @else {'로 이어 쓸지 확인합니다.
+   */
+  private continuesIfChain(previous: CssNode, node: CssNode): boolean {
+    return node.kind === 'atrule' && node.children !== null && node.name.toLowerCase() === 'else' &&
+      previous.kind === 'atrule' && previous.children !== null && !previous.trailingComment &&
+      ['if', 'else'].includes(previous.name.toLowerCase());
+  }
+
+  /**
+   * 선택자 목록을 정리합니다. 쉼표로 나눈 선택자마다 공백과 결합자(>, +, ~) 주변 공백을 맞춥니다.
+   */
+  private formatSelector(selector: string, indent: string): string {
+    if (this.hasComment(selector)) {
+      return indent + selector.split('\n').map(line => line.trim()).join(`\n${indent}`);
+    }
+
+    const selectors = this.splitTopLevel(selector, ',').map(part => this.mapTopLevel(
+      this.normalizeValue(part, { collapse: true, colors: false, zeroUnits: false, quotes: true }),
+      text => text.replace(/\s*(>>>|[>+~])\s*/g, ' $1 ')
+    ).trim());
+    return indent + selectors.join(this.convention.selectorPerLine ? `,\n${indent}` : ', ');
+  }
+
+  private formatAtRuleHead(node: CssAtRule, indent: string): string {
+    const name = node.name.toLowerCase();
+    let params = this.hasComment(node.params)
+      ? node.params
+      : this.normalizeValue(node.params, { collapse: true, colors: false, zeroUnits: false, quotes: name !== 'charset' });
+
+    if (['media', 'supports', 'container', 'custom-media'].includes(name)) {
+      params = params.replace(/\(\s*([\w-]+)\s*:\s*/g, '($1: ');
+    }
+    const separator = params && node.spaceAfterName ? ' ' : '';
+    return `${indent}@${node.name}${separator}${params}`;
+  }
+
+  /**
+   * 선언을 출력합니다. 커스텀 속성(--x)의 값은 무엇이든 될 수 있으므로 그대로 둡니다.
+   * 여러 줄 값(SCSS 맵, grid-template-areas 등)은 줄 구조를 유지하고 들여쓰기만 옮깁니다.
+   */
+  private formatDeclaration(node: CssDeclaration, indent: string): string {
+    const isCustomProperty = node.property.startsWith('--');
+    const isVariable = isCustomProperty || /^[$@]/.test(node.property);
+    const property = /^-?[A-Za-z][\w-]*$/.test(node.property) ? node.property.toLowerCase() : node.property;
+
+    const value = isCustomProperty
+      ? node.value
+      : this.normalizeValue(node.value, {
+        collapse: !node.value.includes('\n'),
+        colors: true,
+        zeroUnits: !isVariable,
+        quotes: true
+      });
+    const separator = value === '' ? ':' : ': ';
+    return `${indent}${property}${separator}${this.reindent(value, node.sourceIndent, indent)};`;
+  }
+
+  /**
+   * 값의 문자열, url(), 보간, 주석은 원문을 지키면서 나머지 부분의 공백, 쉼표, 색상, 0 단위를 정리합니다.
+   */
+  private normalizeValue(text: string, options: ValueOptions): string {
+    let result = '';
+    let plain = '';
+    const mathStack: boolean[] = [];
+    let index = 0;
+
+    const flush = () => {
+      result += this.normalizePlain(plain, options, mathStack[mathStack.length - 1] ?? false);
+      plain = '';
+    };
+
+    while (index < text.length) {
+      const char = text[index];
+      const end = this.literalEnd(text, index);
+
+      if (end !== null) {
+        flush();
+        const literal = text.slice(index, end);
+        result += char === '"' || char === "'"
+          ? (options.quotes ? this.convertQuotes(literal) : literal)
+          : literal;
+        index = end;
+        continue;
+      }
+
+      const url = /^url\(/i.test(text.slice(index, index + 4)) && !/[\w-]/.test(text[index - 1] ?? '')
+        ? this.urlEnd(text, index)
+        : null;
+      if (url !== null) {
+        flush();
+        result += this.formatUrl(text.slice(index, url), options.quotes);
+        index = url;
+        continue;
+      }
+
+      if (char === '(') {
+        const name = (result + plain).match(/([\w-]*)$/)![1].toLowerCase();
+        plain += char;
+        flush();
+        mathStack.push((mathStack[mathStack.length - 1] ?? false) || CssFormatter.MATH_FUNCTIONS.has(name));
+      } else if (char === ')') {
+        flush();
+        mathStack.pop();
+        plain += char;
+      } else {
+        plain += char;
+      }
+      index++;
+    }
+    flush();
+
+    return options.collapse
+      ? result.trim()
+      : result.split('\n').map(line => line.trimEnd()).join('\n').trim();
+  }
+
+  /**
+   * 문자열, 주석, 보간이 시작하는 위치이면 그 끝 위치를, 아니면 null을 반환합니다.
+   */
+  private literalEnd(text: string, index: number): number | null {
+    const char = text[index];
+    if (char === '"' || char === "'") {
+      let end = index + 1;
+      while (end < text.length && text[end] !== char) {
+        end += text[end] === '\\' ? 2 : 1;
+      }
+      return Math.min(end + 1, text.length);
+    }
+    if (text.startsWith('/*', index)) {
+      const end = text.indexOf('*/', index + 2);
+      return end === -1 ? text.length : end + 2;
+    }
+    if (CssStructureParser.isLineComment(text, index)) {
+      const end = text.indexOf('\n', index);
+      return end === -1 ? text.length : end;
+    }
+    if ((char === '#' || char === '@') && text[index + 1] === '{') {
+      let depth = 0;
+      for (let end = index + 1; end < text.length; end++) {
+        if (text[end] === '{') depth++;
+        if (text[end] === '}' && --depth === 0) return end + 1;
+      }
+      return text.length;
+    }
+    return null;
+  }
+
+  /**
+   * url( 위치에서 짝이 맞는 ')' 다음 위치를 반환합니다.
+   */
+  private urlEnd(text: string, index: number): number | null {
+    let depth = 0;
+    for (let end = index + 3; end < text.length; end++) {
+      const literal = text[end] === '"' || text[end] === "'" ? this.literalEnd(text, end) : null;
+      if (literal !== null) {
+        end = literal - 1;
+        continue;
+      }
+      if (text[end] === '(') depth++;
+      if (text[end] === ')' && --depth === 0) return end + 1;
+    }
+    return null;
+  }
+
+  /**
+   * url() 주소의 따옴표를 urlQuotes에 맞춥니다.
+   * 변수($url, @url)나 식이 들어 있는 주소는 따옴표를 붙이면 의미가 바뀌므로 그대로 둡니다.
+   */
+  private formatUrl(url: string, quotes: boolean): string {
+    const name = url.slice(0, 3);
+    const address = url.slice(4, -1).trim();
+    const quoted = /^(["'])(?:\\.|(?!\1)[^\\\n])*\1$/.test(address);
+
+    if (!quotes) {
+      return `${name}(${address})`;
+    }
+    if (this.convention.urlQuotes === 'preserve') {
+      return `${name}(${quoted ? this.convertQuotes(address) : address})`;
+    }
+    if (quoted) {
+      const inner = address.slice(1, -1);
+      const unquotable = this.convention.urlQuotes === 'never' && /^[^\s'"()\\$@]*$/.test(inner) && !inner.includes('#{');
+      return `${name}(${unquotable ? inner : this.convertQuotes(address)})`;
+    }
+    if (this.convention.urlQuotes === 'always' && /^[^\s'"()\\$@]+$/.test(address)) {
+      const quote = this.convention.quoteStyle === 'single' ? "'" : '"';
+      return `${name}(${quote}${address}${quote})`;
+    }
+    return `${name}(${address})`;
+  }
+
+  /**
+   * 문자열, url(), 주석 바깥 부분을 정리합니다.
+   * @param inMath calc() 같은 수식 함수 안인지 여부 (0 단위를 남김)
+   */
+  private normalizePlain(text: string, options: ValueOptions, inMath: boolean): string {
+    let result = options.collapse ? text.replace(/\s+/g, ' ') : text;
+    result = result
+      .replace(/[ \t]*,[ \t]*/g, ', ')
+      .replace(/\s*!\s*(important|default|global|optional)\b/gi, (_, flag: string) => ` !${flag.toLowerCase()}`);
+
+    if (options.colors && this.convention.colorCase !== 'preserve') {
+      const upper = this.convention.colorCase === 'upper';
+      result = result.replace(CssFormatter.HEX_COLOR, color => upper ? color.toUpperCase() : color.toLowerCase());
+    }
+    if (options.zeroUnits && this.convention.removeZeroUnits && !inMath) {
+      result = result.replace(CssFormatter.ZERO_LENGTH, (_, boundary: string) => `${boundary}0`);
+    }
+    return result;
+  }
+
+  /**
+   * 문자열을 quoteStyle의 따옴표로 바꿉니다. 내용에 그 따옴표가 있으면 이스케이프가 필요하므로 그대로 둡니다.
+   */
+  private convertQuotes(literal: string): string {
+    const quote = this.convention.quoteStyle === 'single' ? "'" : '"';
+    const inner = literal.slice(1, -1);
+    if (literal[0] === quote || literal.length < 2 || literal[literal.length - 1] !== literal[0] || inner.includes(quote)) {
+      return literal;
+    }
+    return quote + inner + quote;
+  }
+
+  /**
+   * 괄호, 대괄호, 문자열, 보간 바깥 부분에만 변환을 적용합니다.
+   */
+  private mapTopLevel(text: string, transform: (part: string) => string): string {
+    let result = '';
+    let plain = '';
+    let depth = 0;
+    let index = 0;
+
+    while (index < text.length) {
+      const end = this.literalEnd(text, index);
+      const char = text[index];
+      if (end !== null || depth > 0 || char === '(' || char === '[') {
+        if (depth === 0) {
+          result += transform(plain);
+          plain = '';
+        }
+        const next = end ?? index + 1;
+        if (end === null) {
+          if (char === '(' || char === '[') depth++;
+          if ((char === ')' || char === ']') && depth > 0) depth--;
+        }
+        result += text.slice(index, next);
+        index = next;
+        continue;
+      }
+      plain += char;
+      index++;
+    }
+    return result + transform(plain);
+  }
+
+  /**
+   * 괄호, 대괄호, 문자열, 보간 바깥의 구분자로 나눕니다.
+   */
+  private splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    let index = 0;
+
+    while (index < text.length) {
+      const end = this.literalEnd(text, index);
+      if (end !== null) {
+        index = end;
+        continue;
+      }
+      const char = text[index];
+      if (char === '(' || char === '[') depth++;
+      if ((char === ')' || char === ']') && depth > 0) depth--;
+      if (char === separator && depth === 0) {
+        parts.push(text.slice(start, index));
+        start = index + 1;
+      }
+      index++;
+    }
+    parts.push(text.slice(start));
+    return parts;
+  }
+
+  private hasComment(text: string): boolean {
+    for (let index = 0; index < text.length;) {
+      const end = this.literalEnd(text, index);
+      if (end !== null && text[index] === '/') {
+        return true;
+      }
+      index = end ?? index + 1;
+    }
+    return false;
+  }
+
+  /**
+   * 여러 줄 텍스트의 둘째 줄부터 원문 들여쓰기를 새 들여쓰기로 옮깁니다. (상대 들여쓰기 유지)
+   */
+  private reindent(text: string, sourceIndent: string, indent: string): string {
+    return text.split('\n').map((line, index) => {
+      if (index === 0 || line.trim() === '') {
+        return index === 0 ? line : '';
+      }
+      return line.startsWith(sourceIndent) ? indent + line.slice(sourceIndent.length) : indent + line.trimStart();
+    }).join('\n');
+  }
+
+  /**
+   * propertySort에 따라 연속한 선언을 정렬합니다.
+   * 변수, 커스텀 속성, 보간이 들어간 속성, 주석, @include 같은 문은 순서가 의미를 가질 수 있어 정렬 경계로 둡니다.
+   */
+  private sortDeclarations(nodes: CssNode[]): CssNode[] {
+    if (this.convention.propertySort === 'none') {
+      return nodes;
+    }
+
+    const result: CssNode[] = [];
+    let run: CssDeclaration[] = [];
+    const flushRun = () => {
+      const sorted = run
+        .map((node, position) => ({ node, position, key: this.sortKey(node.property) }))
+        .sort((a, b) => this.compareKeys(a.key, b.key) || a.position - b.position)
+        .map(({ node }, position) => ({ ...node, blankBefore: position === 0 ? run[0].blankBefore : false }));
+      result.push(...sorted);
+      run = [];
+    };
+
+    for (const node of nodes) {
+      if (node.kind === 'decl' && /^-?[A-Za-z][\w-]*$/.test(node.property)) {
+        run.push(node);
+      } else {
+        flushRun();
+        result.push(node);
+      }
+    }
+    flushRun();
+    return result;
+  }
+
+  /**
+   * 정렬 키를 만듭니다. (그룹 순위, 벤더 접두사를 뗀 속성 이름, 접두사 여부)
+   */
+  private sortKey(property: string): [number, string, number] {
+    const lower = property.toLowerCase();
+    const name = lower.replace(CssFormatter.VENDOR_PREFIX, '');
+    const prefixed = name === lower ? 1 : 0;
+    if (this.convention.propertySort === 'alphabetical') {
+      return [0, name, prefixed];
+    }
+    return [this.groupRank(name), '', prefixed];
+  }
+
+  private compareKeys(a: [number, string, number], b: [number, string, number]): number {
+    return a[0] - b[0] || a[1].localeCompare(b[1]) || a[2] - b[2];
+  }
+
+  /**
+   * CSS_PROPERTY_GROUPS에서의 순위를 반환합니다.
+   * 목록에 없으면 가장 긴 접두사가 같은 속성의 순위를, 그마저 없으면 맨 뒤 순위를 씁니다.
+   */
+  private groupRank(name: string): number {
+    const order = CSS_PROPERTY_GROUPS.flatMap(group => group.properties);
+    const exact = order.indexOf(name);
+    if (exact !== -1) {
+      return exact;
+    }
+
+    const parts = name.split('-');
+    for (let length = parts.length - 1; length > 0; length--) {
+      const rank = order.indexOf(parts.slice(0, length).join('-'));
+      if (rank !== -1) {
+        return rank;
+      }
+    }
+    return order.length;
+  }
+
+  /**
+   * 최종 정리를 수행합니다.
+   */
+  private finalCleanup(code: string): string {
+    // 줄 끝 공백 제거
+    if (this.convention.trimTrailingWhitespace) {
+      code = code.replace(/[ \t]+$/gm, '');
+    }
+
+    // 파일 끝 개행 처리
+    code = code.replace(/\n+$/, '');
+    if (this.convention.insertFinalNewline && code !== '') {
+      code += '\n';
+    }
+
+    return code;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Go 언어를 위한 코드 포매터
+ * gofmt, goimports 동작을 따릅니다. (탭 들여쓰기, case 레이블은 switch와 같은 열, import 블록 정렬)
+ */
+
+import { GoFormattingConvention } from '../types/FormattingTypes';
+import { CFamilyGrammar } from '../types/CFamilyTypes';
+import { Token } from '../types/TokenTypes';
+import { GoTokenizer } from '../tokenizers/GoTokenizer';
+import { TokenUtils } from '../tokenizers/TokenUtils';
+import { CFamilyFormatter } from './CFamilyFormatter';
+
+export class GoFormatter extends CFamilyFormatter<GoFormattingConvention> {
+  protected readonly tokenizer = new GoTokenizer();
+
+  /** 줄 끝의 여는 중괄호가 블록을 여는 줄의 첫 키워드 */
+  private static readonly BLOCK_KEYWORDS = new Set(['if', 'else', 'for', 'switch', 'select', 'func', 'type', 'go', 'defer']);
+
+  protected readonly grammar: CFamilyGrammar = {
+    // '*'는 포인터 타입(*User), '<-'는 채널 타입(<-chan int)과 구분할 수 없어 원문 공백을 유지
+    binaryOperators: new Set([
+      '=', ':=', '==', '!=', '<', '>', '<=', '>=', '+', '-', '/', '%', '&&', '||', '&', '|', '^', '&^',
+      '<<', '>>', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>=', '&^='
+    ]),
+    controlKeywords: new Set(),
+    // 복합 리터럴(User{...}, []int{1, 2})은 중괄호를 붙여 씀
+    spaceBeforeOpenBrace: false,
+    switchKeywords: new Set(['switch', 'select']),
+    blockKeywords: new Set(['if', 'else', 'for', 'switch', 'select']),
+    indentCaseLabels: false,
+    preserveBracePlacement: true,
+    omitStatementSemicolons: true,
+    declarations: {
+      type: /^type\s+\w+(?:\[[^\]]*\])?\s+(?:struct|interface)\b/,
+      function: /^func\b/,
+      // Go에는 어노테이션이 없음 (//go: 지시문은 주석으로 처리)
+      annotation: /(?!)/
+    }
+  };
+
+  /**
+   * 블록을 여는 중괄호 앞에 공백을 넣습니다. (func main() {, if x {)
+   * 복합 리터럴(User{...})과 구분하기 위해 ')' 뒤이거나, 제어문/선언 줄 끝에 있는 중괄호만 대상으로 합니다.
+   */
+  protected applyTokenRules(tokens: Token[]): Token[] {
+    return TokenUtils.adjustSpacing(
+      tokens,
+      (token, index, all) => token.value === '{' &&
+        (TokenUtils.previousSignificant(all, index)?.value === ')' || this.isBlockLineEnd(all, index)),
+      true
+    );
+  }
+
+  /**
+   * 여는 중괄호가 제어문/선언 줄의 끝에 있는지 확인합니다.
+   */
+  private isBlockLineEnd(tokens: Token[], index: number): boolean {
+    let next = index + 1;
+    while (tokens[next]?.type === 'whitespace' || tokens[next]?.type === 'comment') {
+      next++;
+    }
+    if (next < tokens.length && tokens[next].type !== 'newline') {
+      return false;
+    }
+
+    let start = index;
+    while (start > 0 && tokens[start - 1].type !== 'newline') {
+      start--;
+    }
+    const first = tokens.slice(start, index).find(token => TokenUtils.isSignificant(token));
+    return first !== undefined && (first.value === '}' || GoFormatter.BLOCK_KEYWORDS.has(first.value));
+  }
+
+  /**
+   * import ( ... ) 블록 안의 import 경로를 정렬합니다.
+   * goimports처럼 그룹을 나누면 표준 라이브러리를 먼저 두고 빈 줄로 구분하며,
+   * 나누지 않으면 gofmt처럼 빈 줄로 구분된 묶음마다 따로 정렬합니다.
+   */
+  protected organizeImports(code: string, literals: string[]): string {
+    const lines = code.split('\n');
+    const result: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      result.push(lines[i]);
+      if (lines[i].trim() !== 'import (') {
+        continue;
+      }
+      const end = lines.findIndex((line, index) => index > i && line.trim() === ')');
+      if (end === -1) {
+        continue;
+      }
+      result.push(...this.sortImportSpecs(lines.slice(i + 1, end).map(line => line.trim()), literals), lines[end]);
+      i = end;
+    }
+
+    return result.join('\n');
+  }
+
+  /**
+   * import 블록의 각 줄(별칭 포함)을 경로 기준으로 정렬합니다.
+   * 주석이 섞인 블록은 주석이 어느 import에 붙은 것인지 알 수 없으므로 그대로 둡니다.
+   */
+  private sortImportSpecs(specs: string[], literals: string[]): string[] {
+    if (specs.some(spec => spec.includes('//') || spec.includes('/*'))) {
+      return specs;
+    }
+
+    const pathOf = (spec: string) => /["`]([^"`]*)["`]/.exec(TokenUtils.unmask(spec, literals))?.[1] ?? spec;
+    const compare = (a: string, b: string) => {
+      const pathA = pathOf(a);
+      const pathB = pathOf(b);
+      return pathA < pathB ? -1 : pathA > pathB ? 1 : 0;
+    };
+
+    let groups: string[][];
+    if (this.convention.separateImportGroups) {
+      // 첫 경로 요소에 '.'이 없으면 표준 라이브러리 (fmt, net/http)
+      const isStandard = (spec: string) => !pathOf(spec).split('/')[0].includes('.');
+      const imports = specs.filter(spec => spec !== '');
+      groups = [imports.filter(isStandard), imports.filter(spec => !isStandard(spec))];
+    } else {
+      groups = [[]];
+      specs.forEach(spec => {
+        if (spec === '') {
+          groups.push([]);
+        } else {
+          groups[groups.length - 1].push(spec);
+        }
+      });
+    }
+
+    return groups
+      .filter(group => group.length > 0)
+      .flatMap((group, index) => [...(index > 0 ? [''] : []), ...group.sort(compare)]);
+  }
+}
@@ -4,6 +4,8 @@
  */
 
 import { JsonFormattingConvention, FormattingResult } from '../types/FormattingTypes';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { DiffService } from '../services/DiffService';
 
 export class JsonFormatter {
   private convention: JsonFormattingConvention;
@@ -19,8 +21,7 @@ export class JsonFormatter {
    */
   public format(code: string): FormattingResult {
     const startTime = Date.now();
-    const warnings: string[] = [];
-    const errors: string[] = [];
+    const diagnostics = new DiagnosticCollector();
 
     try {
       // JSON 파싱 검증
@@ -28,12 +29,13 @@ export class JsonFormatter {
       try {
         parsedJson = JSON.parse(code);
       } catch (parseError) {
-        errors.push(`유효하지 않은 JSON 형식: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+        this.reportParseError(code, parseError, diagnostics);
         return {
           formattedCode: code,
           changedLines: 0,
-          warnings,
-          errors,
+          warnings: diagnostics.warnings,
+          errors: diagnostics.errors,
+          diagnostics: diagnostics.diagnostics,
           processingTime: Date.now() - startTime
         };
       }
@@ -45,7 +47,7 @@ export class JsonFormatter {
 
       // 따옴표 스타일 조정 (JSON은 항상 double quotes를 사용해야 하므로 경고만)
       if (this.convention.quoteStyle === 'single') {
-        warnings.push('JSON 표준에 따라 double quotes를 사용합니다. single quotes는 지원되지 않습니다.');
+        diagnostics.warning('json-quote-style', 'JSON 표준에 따라 double quotes를 사용합니다. single quotes는 지원되지 않습니다.');
       }
 
       // 포매팅 적용
@@ -53,26 +55,29 @@ export class JsonFormatter {
 
       // 최종 정리
       formattedCode = this.finalCleanup(formattedCode);
+      diagnostics.reportLongLines(formattedCode, this.convention.maxLineLength);
 
       // 변경된 줄 수 계산
       const originalLines = code.split('\n');
       const formattedLines = formattedCode.split('\n');
-      const changedLines = this.countChangedLines(originalLines, formattedLines);
+      const changedLines = DiffService.countChangedLines(originalLines, formattedLines);
 
       return {
         formattedCode,
         changedLines,
-        warnings,
-        errors,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
         processingTime: Date.now() - startTime
       };
     } catch (error) {
-      errors.push(`포매팅 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
+      diagnostics.error('internal-error', `포매팅 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
       return {
         formattedCode: code,
         changedLines: 0,
-        warnings,
-        errors,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
         processingTime: Date.now() - startTime
       };
     }
@@ -248,22 +253,100 @@ export class JsonFormatter {
   }
 
   /**
-   * 변경된 줄 수를 계산합니다.
+   * JSON 파싱 오류를 위치 정보와 함께 진단에 추가합니다.
+   * 닫는 괄호 앞의 trailing comma 때문이면 쉼표를 제거하는 수정 제안을 함께 제공합니다.
    */
-  private countChangedLines(originalLines: string[], formattedLines: string[]): number {
-    let changedCount = 0;
-    const maxLength = Math.max(originalLines.length, formattedLines.length);
-    
-    for (let i = 0; i < maxLength; i++) {
-      const originalLine = originalLines[i] || '';
-      const formattedLine = formattedLines[i] || '';
-      
-      if (originalLine !== formattedLine) {
-        changedCount++;
+  private reportParseError(code: string, error: unknown, diagnostics: DiagnosticCollector): void {
+    const message = error instanceof Error ? error.message : String(error);
+    const offset = this.getParseErrorOffset(code, message);
+    const commaOffset = this.findTrailingComma(code, offset);
+
+    if (commaOffset !== null) {
+      diagnostics.error(
+        'json-parse-error',
+        `유효하지 않은 JSON 형식: ${message}`,
+        DiagnosticCollector.rangeFromOffsets(code, commaOffset, commaOffset + 1),
+        { description: 'trailing comma 제거', replacement: '' }
+      );
+    } else {
+      diagnostics.error(
+        'json-parse-error',
+        `유효하지 않은 JSON 형식: ${message}`,
+        DiagnosticCollector.rangeFromOffsets(code, offset, Math.min(code.length, offset + 1))
+      );
+    }
+  }
+
+  /**
+   * 파싱 오류 위치(오프셋)를 찾습니다.
+   * 메시지에 위치가 없으면("Unexpected token ..." 등) 앞부분만 파싱해 보면서
+   * 입력이 끝나서가 아닌 이유로 처음 실패하는 지점을 찾습니다.
+   */
+  private getParseErrorOffset(code: string, message: string): number {
+    const reported = this.getReportedOffset(code, message);
+    if (reported !== null) {
+      return reported;
+    }
+
+    const failsBefore = (length: number): boolean => {
+      const prefix = code.slice(0, length);
+      try {
+        JSON.parse(prefix);
+        return false;
+      } catch (error) {
+        const prefixMessage = error instanceof Error ? error.message : String(error);
+        if (/end of (JSON )?(input|data)|EOF/i.test(prefixMessage)) {
+          return false;
+        }
+        const offset = this.getReportedOffset(prefix, prefixMessage);
+        return offset === null || offset < length;
+      }
+    };
+
+    let low = 1;
+    let high = code.length;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (failsBefore(middle)) {
+        high = middle;
+      } else {
+        low = middle + 1;
       }
     }
-    
-    return changedCount;
+    return low - 1;
+  }
+
+  /**
+   * 오류 메시지에 포함된 위치를 오프셋으로 변환합니다.
+   * 엔진마다 "line 1 column 5" 또는 "at position 4" 형식을 사용합니다.
+   */
+  private getReportedOffset(code: string, message: string): number | null {
+    const lineColumn = message.match(/line (\d+) column (\d+)/);
+    if (lineColumn) {
+      return DiagnosticCollector.offsetAt(code, Number(lineColumn[1]), Number(lineColumn[2]));
+    }
+    const position = message.match(/position (\d+)/);
+    if (position) {
+      return Math.min(code.length, Number(position[1]));
+    }
+    if (/end of (JSON )?(input|data)|EOF/i.test(message)) {
+      return code.length;
+    }
+    return null;
+  }
+
+  /**
+   * 오류 위치가 닫는 괄호이고 바로 앞이 쉼표이면 쉼표 위치를 반환합니다.
+   */
+  private findTrailingComma(code: string, offset: number): number | null {
+    if (code[offset] !== '}' && code[offset] !== ']') {
+      return null;
+    }
+    let index = offset - 1;
+    while (index >= 0 && /\s/.test(code[index])) {
+      index--;
+    }
+    return code[index] === ',' ? index : null;
   }
 
   /**
@@ -271,8 +354,7 @@ export class JsonFormatter {
    */
   public minify(code: string): FormattingResult {
     const startTime = Date.now();
-    const warnings: string[] = [];
-    const errors: string[] = [];
+    const diagnostics = new DiagnosticCollector();
 
     try {
       const parsedJson = JSON.parse(code);
@@ -280,22 +362,28 @@ export class JsonFormatter {
       
       const originalLines = code.split('\n');
       const formattedLines = [minifiedCode];
-      const changedLines = this.countChangedLines(originalLines, formattedLines);
+      const changedLines = DiffService.countChangedLines(originalLines, formattedLines);
 
       return {
         formattedCode: minifiedCode,
         changedLines,
-        warnings,
-        errors,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
         processingTime: Date.now() - startTime
       };
     } catch (error) {
-      errors.push(`JSON 압축 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof SyntaxError) {
+        this.reportParseError(code, error, diagnostics);
+      } else {
+        diagnostics.error('internal-error', `JSON 압축 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
+      }
       return {
         formattedCode: code,
         changedLines: 0,
-        warnings,
-        errors,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
         processingTime: Date.now() - startTime
       };
     }
@@ -306,8 +394,7 @@ export class JsonFormatter {
    */
   public prettify(code: string): FormattingResult {
     const startTime = Date.now();
-    const warnings: string[] = [];
-    const errors: string[] = [];
+    const diagnostics = new DiagnosticCollector();
 
     try {
       const parsedJson = JSON.parse(code);
@@ -315,22 +402,28 @@ export class JsonFormatter {
       
       const originalLines = code.split('\n');
       const formattedLines = prettifiedCode.split('\n');
-      const changedLines = this.countChangedLines(originalLines, formattedLines);
+      const changedLines = DiffService.countChangedLines(originalLines, formattedLines);
 
       return {
         formattedCode: prettifiedCode,
         changedLines,
-        warnings,
-        errors,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
         processingTime: Date.now() - startTime
       };
     } catch (error) {
-      errors.push(`JSON 정리 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof SyntaxError) {
+        this.reportParseError(code, error, diagnostics);
+      } else {
+        diagnostics.error('internal-error', `JSON 정리 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
+      }
       return {
         formattedCode: code,
         changedLines: 0,
-        warnings,
-        errors,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
         processingTime: Date.now() - startTime
       };
     }
@@ -0,0 +1,1475 @@
+/**
+ * Python 포매터
+ * 들여쓰기로 정해지는 블록 구조를 다시 계산해 indentUnit으로 들여쓰고, Black과 같은 방식으로 토큰 사이 공백,
+ * 문자열 따옴표, def/class 앞뒤 빈 줄을 맞춥니다.
+ * 긴 줄은 오른쪽 괄호부터(def는 매개변수 괄호) 나누고, 괄호 안이 한 줄에 들어가면 한 줄로, 아니면 요소를
+ * 한 줄에 하나씩 쓰며 마지막 쉼표를 붙입니다. 백슬래시로 이어지는 줄과 주석을 옮길 수 없는 줄은 들여쓰기만 고칩니다.
+ */
+
+import { FormattingResult, PythonFormattingConvention } from '../types/FormattingTypes';
+import { Token } from '../types/TokenTypes';
+import { PythonImport } from '../types/PythonTypes';
+import { PythonTokenizer } from '../tokenizers/PythonTokenizer';
+import { PythonImportSorter } from '../utils/PythonImportSorter';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { SourceParseError } from '../utils/SourceParseError';
+import { DiffService } from '../services/DiffService';
+
+/**
+ * 괄호로 묶인 토큰
+ */
+interface BracketGroup {
+  open: Token;
+  children: PythonNode[];
+  close: Token;
+}
+
+type PythonNode = Token | BracketGroup;
+
+/**
+ * 괄호 종류 (등호, 콜론, 마지막 쉼표 규칙이 달라짐)
+ * - call: 이름/괄호 뒤의 ( (호출, def/class 매개변수)
+ * - paren: 묶음 또는 튜플 ( / subscript: 인덱스 [ / list: 리스트 [ / brace: { / top: 괄호 밖
+ */
+type BracketKind = 'top' | 'call' | 'paren' | 'subscript' | 'list' | 'brace';
+
+/**
+ * 토큰을 이어 붙일 때 앞뒤 공백을 정하는 토큰 역할
+ * - tight: 앞뒤 공백 없음 (키워드 인자 =, 단순한 피연산자의 **, 단순한 슬라이스 :)
+ * - slice: 복잡한 슬라이스의 : (이항 연산자처럼 앞뒤 공백)
+ */
+type SpacingRole = 'start' | 'atom' | 'keyword' | 'unary' | 'binary' | 'tight' | 'comma' | 'colon' | 'slice' | 'dot' | 'open';
+
+/**
+ * 토큰을 이어 붙이는 괄호 안 문맥
+ */
+interface JoinContext {
+  kind: BracketKind;
+  /** 슬라이스에 단순하지 않은 식이 있어 :를 띄어 쓸지 여부 */
+  complexSlice: boolean;
+}
+
+/**
+ * 논리 줄 또는 주석 줄
+ */
+interface PythonStatement {
+  kind: 'code' | 'comment';
+  /** 블록 깊이 */
+  level: number;
+  /** 공백/개행을 뺀 토큰 (줄 끝 주석 포함) */
+  tokens: Token[];
+  /** 원문에서 앞에 있던 빈 줄 수 */
+  blankBefore: number;
+  /** 원문과 상관없이 넣을 빈 줄 수 (정렬한 import 구역 사이) */
+  forcedBlankBefore?: number;
+  /** 원문 들여쓰기 너비 (탭은 8칸 단위) */
+  indentWidth: number;
+  /** 원문 토큰 (나누지 않은 논리 줄만, 들여쓰기만 고칠 때 씀) */
+  source?: Token[];
+  /** 백슬래시로 다음 줄에 이어지는지 여부 */
+  continued: boolean;
+}
+
+/**
+ * 괄호 안을 쉼표로 나눈 요소
+ */
+interface BracketElement {
+  nodes: PythonNode[];
+  /** 요소 앞 줄에 있던 주석 */
+  leading: Token[];
+  /** 요소와 같은 줄 뒤에 붙은 주석 */
+  trailing?: Token;
+}
+
+/**
+ * 주석 위치 때문에 줄을 다시 쓸 수 없을 때 던지는 오류 (들여쓰기만 고친 원문으로 대신함)
+ */
+class CommentPlacementError extends Error {}
+
+export class PythonFormatter {
+  /** 본문을 같은 줄에 쓸 수 있는 복합문 키워드 (if x: return) */
+  private static readonly COMPOUND_KEYWORDS = new Set([
+    'if', 'elif', 'else', 'while', 'for', 'try', 'except', 'finally', 'with', 'def', 'class', 'async', 'match', 'case'
+  ]);
+
+  /** 줄 처음에서 블록을 여는 문일 때만 키워드인 이름 (soft keyword) */
+  private static readonly SOFT_KEYWORDS = new Set(['match', 'case']);
+
+  /** 앞 블록에 딸린 절 */
+  private static readonly DEPENDENT_CLAUSES = new Set(['elif', 'else', 'except', 'finally']);
+
+  /** 값으로 쓰이는 키워드 */
+  private static readonly LITERAL_KEYWORDS = new Set(['None', 'True', 'False']);
+
+  /** 괄호 안을 연산자 앞에서 나눌 때의 우선순위 (클수록 먼저 나눔) */
+  private static readonly OPERATOR_PRIORITY: Record<string, number> = {
+    'if': 16, 'else': 16, 'or': 14, 'and': 13,
+    'in': 10, 'is': 10, '<': 10, '>': 10, '==': 10, '!=': 10, '<=': 10, '>=': 10,
+    '|': 8, '^': 7, '&': 6, '<<': 5, '>>': 5, '+': 4, '-': 4, '*': 3, '/': 3, '//': 3, '%': 3, '@': 3
+  };
+
+  private convention: PythonFormattingConvention;
+  private indentUnit: string;
+  private tokenizer = new PythonTokenizer();
+
+  constructor(convention: PythonFormattingConvention) {
+    this.convention = convention;
+    this.indentUnit = convention.indentationType === 'tab' ? '\t' : ' '.repeat(convention.indentSize);
+  }
+
+  /**
+   * Python 코드를 지정된 컨벤션에 따라 포매팅합니다.
+   * @param code 포매팅할 코드
+   * @returns 포매팅 결과
+   */
+  public format(code: string): FormattingResult {
+    const startTime = Date.now();
+    const diagnostics = new DiagnosticCollector();
+
+    try {
+      let statements = this.parse(code.replace(/\r\n/g, '\n'));
+      if (this.convention.sortImports) {
+        statements = this.sortImports(statements);
+      }
+
+      const formattedCode = this.finalCleanup(this.print(statements).join('\n'));
+      diagnostics.reportLongLines(formattedCode, this.convention.maxLineLength);
+
+      const originalLines = code.split('\n');
+      const formattedLines = formattedCode.split('\n');
+      const changedLines = DiffService.countChangedLines(originalLines, formattedLines);
+
+      return {
+        formattedCode,
+        changedLines,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
+        processingTime: Date.now() - startTime
+      };
+    } catch (error) {
+      diagnostics.parseError(code, error, 'Python 포매팅');
+      return {
+        formattedCode: code,
+        changedLines: 0,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
+        processingTime: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * 코드를 논리 줄로 나누고 들여쓰기 너비로 블록 깊이를 정합니다.
+   * 한 줄에 쓴 복합문 본문(if x: y)과 ';'로 이은 문은 여러 문으로 나눕니다.
+   */
+  private parse(code: string): PythonStatement[] {
+    const lines = this.readLogicalLines(this.tokenizer.tokenize(code));
+    const statements: PythonStatement[] = [];
+    const stack = [0];
+    let comments: PythonStatement[] = [];
+    let opensBlock = false;
+
+    for (const line of lines) {
+      if (line.kind === 'comment') {
+        comments.push(line);
+        continue;
+      }
+
+      const width = line.indentWidth;
+      const outer = [...stack];
+      if (opensBlock) {
+        if (width <= stack[stack.length - 1]) {
+          this.fail(line.tokens[0].line, '들여쓴 블록이 필요합니다.');
+        }
+        stack.push(width);
+      } else if (width > stack[stack.length - 1]) {
+        this.fail(line.tokens[0].line, '예상하지 못한 들여쓰기입니다.');
+      } else {
+        while (width < stack[stack.length - 1]) {
+          stack.pop();
+        }
+        if (width !== stack[stack.length - 1]) {
+          this.fail(line.tokens[0].line, '들여쓰기가 바깥 블록과 맞지 않습니다.');
+        }
+      }
+      line.level = stack.length - 1;
+
+      // 주석은 원문 위치와 가장 가까운 블록에 두되, 다음 문보다 얕게 두지 않음
+      const candidates = opensBlock ? stack : outer;
+      for (const comment of comments) {
+        comment.level = Math.max(line.level, this.deepestLevel(candidates, comment.indentWidth));
+      }
+      statements.push(...comments, ...this.splitSimpleStatements(line));
+      comments = [];
+      opensBlock = this.opensBlock(line);
+    }
+
+    for (const comment of comments) {
+      comment.level = this.deepestLevel(stack, comment.indentWidth);
+    }
+    statements.push(...comments);
+    return statements;
+  }
+
+  /**
+   * 토큰을 논리 줄로 묶습니다. 괄호 안의 개행과 백슬래시 뒤 개행은 줄을 끝내지 않습니다.
+   */
+  private readLogicalLines(tokens: Token[]): PythonStatement[] {
+    const lines: PythonStatement[] = [];
+    let index = 0;
+    let blankBefore = 0;
+
+    while (index < tokens.length) {
+      let indentWidth = 0;
+      if (tokens[index].type === 'whitespace') {
+        indentWidth = this.measureIndent(tokens[index].value);
+        index++;
+      }
+      const first = tokens[index];
+      if (!first) {
+        break;
+      }
+      if (first.type === 'newline') {
+        blankBefore++;
+        index++;
+        continue;
+      }
+      if (first.type === 'comment') {
+        lines.push({ kind: 'comment', level: 0, tokens: [first], blankBefore, indentWidth, continued: false });
+        blankBefore = 0;
+        index += tokens[index + 1]?.type === 'newline' ? 2 : 1;
+        continue;
+      }
+
+      const significant: Token[] = [];
+      const source: Token[] = [];
+      const brackets: Token[] = [];
+      let continued = false;
+
+      while (index < tokens.length) {
+        const token = tokens[index];
+        index++;
+        if (token.type === 'newline' && brackets.length === 0) {
+          const previous = source.filter(item => item.type !== 'whitespace').pop();
+          if (previous?.value !== '\\') {
+            break;
+          }
+        }
+        source.push(token);
+        if (token.type === 'whitespace' || token.type === 'newline') {
+          continue;
+        }
+        if (token.type === 'punctuation' && token.value === '\\') {
+          continued = true;
+          continue;
+        }
+        if (token.type === 'string' && !this.isClosedString(token.value)) {
+          this.fail(token.line, '문자열이 닫히지 않았습니다.');
+        }
+        if (token.type === 'punctuation' && '([{'.includes(token.value)) {
+          brackets.push(token);
+        } else if (token.type === 'punctuation' && ')]}'.includes(token.value)) {
+          const open = brackets.pop();
+          if (!open || '([{'.indexOf(open.value) !== ')]}'.indexOf(token.value)) {
+            this.fail(token.line, `'${token.value}'와 짝이 맞는 여는 괄호가 없습니다.`);
+          }
+        }
+        significant.push(token);
+      }
+
+      if (brackets.length > 0) {
+        const open = brackets[brackets.length - 1];
+        this.fail(open.line, `'${open.value}' 괄호가 닫히지 않았습니다.`);
+      }
+      if (this.isSoftKeywordStatement(significant)) {
+        significant[0] = { ...significant[0], type: 'keyword' };
+      }
+      lines.push({ kind: 'code', level: 0, tokens: significant, blankBefore, indentWidth, source, continued });
+      blankBefore = 0;
+    }
+
+    return lines;
+  }
+
+  /**
+   * 한 줄에 쓴 복합문 본문과 ';'로 이은 문을 나눕니다. (def/class의 '...' 본문은 그대로 둠)
+   */
+  private splitSimpleStatements(statement: PythonStatement): PythonStatement[] {
+    const last = statement.tokens[statement.tokens.length - 1];
+    const trailing = last.type === 'comment' ? last : undefined;
+    const tokens = trailing ? statement.tokens.slice(0, -1) : statement.tokens;
+    if (statement.continued || tokens.some(token => token.type === 'comment')) {
+      return [statement];
+    }
+
+    const parts: { tokens: Token[]; level: number }[] = [];
+    let rest = tokens;
+    let level = statement.level;
+
+    if (tokens[0].type === 'keyword' && PythonFormatter.COMPOUND_KEYWORDS.has(tokens[0].value)) {
+      const colon = this.findBlockColon(tokens);
+      const isStub = this.isDefinition(statement) && colon === tokens.length - 2 && tokens[colon + 1].value === '...';
+      if (colon !== -1 && colon < tokens.length - 1 && !isStub) {
+        parts.push({ tokens: tokens.slice(0, colon + 1), level });
+        rest = tokens.slice(colon + 1);
+        level++;
+      }
+    }
+
+    let current: Token[] = [];
+    let depth = 0;
+    for (const token of rest) {
+      if (token.type === 'punctuation') {
+        if ('([{'.includes(token.value)) depth++;
+        if (')]}'.includes(token.value)) depth--;
+      }
+      if (depth === 0 && token.type === 'punctuation' && token.value === ';') {
+        if (current.length > 0) parts.push({ tokens: current, level });
+        current = [];
+        continue;
+      }
+      current.push(token);
+    }
+    if (current.length > 0) {
+      parts.push({ tokens: current, level });
+    }
+
+    if (parts.length === 1 && parts[0].tokens.length === tokens.length) {
+      return [statement];
+    }
+    if (trailing && parts.length > 0) {
+      parts[parts.length - 1].tokens.push(trailing);
+    }
+    return parts.map((part, index) => ({
+      kind: 'code',
+      level: part.level,
+      tokens: part.tokens,
+      blankBefore: index === 0 ? statement.blankBefore : 0,
+      indentWidth: statement.indentWidth,
+      continued: false
+    }));
+  }
+
+  /**
+   * 복합문 머리의 ':' 위치를 찾습니다. (괄호 안과 lambda의 ':'는 제외, 없으면 -1)
+   */
+  private findBlockColon(tokens: Token[]): number {
+    let depth = 0;
+    let lambdas = 0;
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index];
+      if (token.type === 'keyword' && token.value === 'lambda' && depth === 0) {
+        lambdas++;
+      } else if (token.type === 'punctuation') {
+        if ('([{'.includes(token.value)) depth++;
+        if (')]}'.includes(token.value)) depth--;
+        if (depth === 0 && token.value === ':') {
+          if (lambdas === 0) {
+            return index;
+          }
+          lambdas--;
+        }
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * match/case 문인지 확인합니다. (match, case는 줄 처음에서 블록의 ':'가 있는 문을 열 때만 키워드)
+   * match[x]: int 같은 어노테이션과 구분하도록 기호로 시작하는 대상/패턴은 키워드 뒤에 공백이 있어야 합니다.
+   */
+  private isSoftKeywordStatement(tokens: Token[]): boolean {
+    const [first, second] = tokens;
+    if (first.type !== 'identifier' || !PythonFormatter.SOFT_KEYWORDS.has(first.value) || !second) {
+      return false;
+    }
+    if (second.type === 'punctuation' && (!'([{-*'.includes(second.value) || second.start === first.end)) {
+      return false;
+    }
+    const colon = this.findBlockColon(tokens);
+    return first.value === 'match' ? colon === tokens.length - 1 : colon !== -1;
+  }
+
+  /**
+   * 최상위 import 문이 이어진 구간을 isort 방식으로 정렬합니다.
+   * 주석 줄이나 다른 문이 나오면 구간이 끝나며, 해석할 수 없는 import가 있으면 그 앞에서 끝납니다.
+   */
+  private sortImports(statements: PythonStatement[]): PythonStatement[] {
+    const result: PythonStatement[] = [];
+    let index = 0;
+
+    while (index < statements.length) {
+      const imports: PythonImport[] = [];
+      let end = index;
+      while (end < statements.length && this.isSortableImport(statements[end])) {
+        const parsed = PythonImportSorter.parse(statements[end].tokens);
+        if (!parsed) {
+          break;
+        }
+        imports.push(...parsed);
+        end++;
+      }
+      if (end === index) {
+        result.push(statements[index]);
+        index++;
+        continue;
+      }
+
+      const sections = PythonImportSorter.sort(imports, {
+        forceSortWithinSections: this.convention.forceSortWithinSections,
+        maxLineLength: this.convention.maxLineLength
+      });
+      sections.forEach((lines, sectionIndex) => lines.forEach((line, lineIndex) => {
+        const isFirst = sectionIndex === 0 && lineIndex === 0;
+        result.push({
+          kind: 'code',
+          level: 0,
+          tokens: this.tokenizer.tokenize(line).filter(token => token.type !== 'whitespace'),
+          blankBefore: isFirst ? statements[index].blankBefore : 0,
+          forcedBlankBefore: isFirst ? undefined : lineIndex === 0 ? 1 : 0,
+          indentWidth: 0,
+          continued: false
+        });
+      }));
+      index = end;
+    }
+
+    return result;
+  }
+
+  private isSortableImport(statement: PythonStatement): boolean {
+    const first = statement.tokens[0];
+    return statement.kind === 'code' && statement.level === 0 && !statement.continued &&
+      first.type === 'keyword' && (first.value === 'import' || first.value === 'from');
+  }
+
+  /**
+   * 문을 출력 줄로 만들고 문 사이에 빈 줄을 넣습니다.
+   */
+  private print(statements: PythonStatement[]): string[] {
+    const out: string[] = [];
+    const definitionLevels: number[] = [];
+
+    statements.forEach((statement, index) => {
+      let afterDefinition = false;
+      while (definitionLevels.length > 0 && definitionLevels[definitionLevels.length - 1] >= statement.level) {
+        definitionLevels.pop();
+        afterDefinition = true;
+      }
+      if (index > 0) {
+        out.push(...Array(this.blankLinesBefore(statements, index, afterDefinition)).fill(''));
+      }
+      out.push(...this.renderStatement(statements, index));
+      if (this.isDefinition(statement)) {
+        definitionLevels.push(statement.level);
+      }
+    });
+
+    return out;
+  }
+
+  /**
+   * 문 앞에 넣을 빈 줄 수를 정합니다.
+   * - def/class(와 바로 붙은 데코레이터, 주석) 앞, def/class 블록이 끝난 뒤: 최상위는 blankLinesTopLevel, 안쪽은 blankLinesBetweenMethods
+   * - 블록의 첫 문, 데코레이터 뒤: 0
+   * - 그 밖: 원문 빈 줄 수 (최상위는 blankLinesTopLevel, 안쪽은 1 이하)
+   */
+  private blankLinesBefore(statements: PythonStatement[], index: number, afterDefinition: boolean): number {
+    const statement = statements[index];
+    const previous = statements[index - 1];
+    if (statement.forcedBlankBefore !== undefined) {
+      return statement.forcedBlankBefore;
+    }
+    if ((this.opensBlock(previous) && statement.level > previous.level) || this.isDecorator(previous)) {
+      return 0;
+    }
+
+    const topLevel = statement.level === 0;
+    const definitionBlanks = topLevel ? this.convention.blankLinesTopLevel : this.convention.blankLinesBetweenMethods;
+    if (this.startsDefinition(statements, index)) {
+      const attachedComment = previous.kind === 'comment' && previous.level === statement.level && statement.blankBefore === 0;
+      const previousStub = this.isDefinition(previous) && !this.opensBlock(previous) &&
+        previous.level === statement.level && statement.blankBefore === 0 && statement.tokens[0].value !== 'class';
+      return statement.kind === 'code' && (attachedComment || previousStub) ? 0 : definitionBlanks;
+    }
+    if (afterDefinition) {
+      return this.isDependentClause(statement) ? Math.min(1, definitionBlanks) : definitionBlanks;
+    }
+
+    let blanks = Math.min(statement.blankBefore, topLevel ? this.convention.blankLinesTopLevel : 1);
+    if (this.isImport(previous) && !this.isImport(statement) && previous.level === statement.level) {
+      blanks = Math.max(blanks, 1);
+    }
+    if (index === 1 && topLevel && this.isDocstring(statements, 0)) {
+      blanks = 1;
+    }
+    return blanks;
+  }
+
+  /**
+   * 문이 def/class의 시작인지 확인합니다. (빈 줄 없이 def/class로 이어지는 주석과 데코레이터 포함)
+   */
+  private startsDefinition(statements: PythonStatement[], index: number): boolean {
+    const statement = statements[index];
+    for (let next = index; next < statements.length; next++) {
+      const candidate = statements[next];
+      if (candidate.level !== statement.level || (next > index && candidate.blankBefore > 0)) {
+        return false;
+      }
+      if (candidate.kind === 'code') {
+        return this.isDefinition(candidate) || this.isDecorator(candidate);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 문 하나를 출력 줄로 만듭니다.
+   */
+  private renderStatement(statements: PythonStatement[], index: number): string[] {
+    const statement = statements[index];
+    const indent = this.indentUnit.repeat(statement.level);
+    if (statement.kind === 'comment') {
+      return [indent + this.normalizeComment(statement.tokens[0].value)];
+    }
+    if (statement.continued) {
+      return this.renderRaw(statement, indent);
+    }
+
+    const last = statement.tokens[statement.tokens.length - 1];
+    const trailing = last.type === 'comment' ? last : undefined;
+    const tokens = trailing ? statement.tokens.slice(0, -1) : statement.tokens;
+    const docstring = this.isDocstring(statements, index);
+    const converted = tokens.map(token => token.type === 'string'
+      ? { ...token, value: docstring ? this.formatDocstring(token.value, indent) : this.normalizeString(token.value) }
+      : token);
+
+    try {
+      const lines = this.renderCodeLine(this.buildTree(converted), indent);
+      if (trailing) {
+        lines[lines.length - 1] += `  ${this.normalizeComment(trailing.value)}`;
+      }
+      return lines;
+    } catch (error) {
+      if (error instanceof CommentPlacementError && statement.source) {
+        return this.renderRaw(statement, indent);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 원문 토큰을 그대로 쓰되 첫 줄 들여쓰기를 바꾸고, 이어지는 줄도 같은 만큼 옮깁니다.
+   */
+  private renderRaw(statement: PythonStatement, indent: string): string[] {
+    let text = indent;
+    let lineStart = false;
+    for (const token of statement.source ?? []) {
+      if (token.type === 'newline') {
+        text = (this.convention.trimTrailingWhitespace ? text.replace(/[ \t]+$/, '') : text) + '\n';
+        lineStart = true;
+        continue;
+      }
+      if (lineStart && token.type === 'whitespace') {
+        const width = this.measureIndent(token.value);
+        text += width >= statement.indentWidth
+          ? indent + ' '.repeat(width - statement.indentWidth)
+          : token.value;
+      } else {
+        text += token.type === 'comment' ? token.value.trimEnd() : token.value;
+      }
+      lineStart = false;
+    }
+    return text.trimEnd().split('\n');
+  }
+
+  /**
+   * 토큰을 괄호 단위 트리로 묶습니다. (괄호 짝은 readLogicalLines에서 확인함)
+   */
+  private buildTree(tokens: Token[]): PythonNode[] {
+    const root: PythonNode[] = [];
+    const stack: BracketGroup[] = [];
+    for (const token of tokens) {
+      const children = stack.length > 0 ? stack[stack.length - 1].children : root;
+      if (token.type === 'punctuation' && '([{'.includes(token.value)) {
+        const group: BracketGroup = { open: token, children: [], close: token };
+        children.push(group);
+        stack.push(group);
+      } else if (token.type === 'punctuation' && ')]}'.includes(token.value)) {
+        stack.pop()!.close = token;
+      } else {
+        children.push(token);
+      }
+    }
+    return root;
+  }
+
+  /**
+   * 문 한 줄을 출력 줄로 만듭니다.
+   * 대입문의 오른쪽, return 값, if/elif/while 조건이 한 줄에 들어가지 않고 연산자나 쉼표로 나눠야 할 때는
+   * 보이지 않는 괄호로 감싼 것처럼 '(' 뒤에서 나눕니다. (x = (\n    a if b else c\n))
+   */
+  private renderCodeLine(nodes: PythonNode[], indent: string): string[] {
+    const context: JoinContext = { kind: 'top', complexSlice: false };
+    const span = this.findOptionalParenSpan(nodes);
+    if (!span || this.mustSplit(nodes) || this.width(indent + this.joinNodes(nodes, context, 'start')) <= this.lineLimit()) {
+      return this.renderLine(nodes, indent, context, '', 'start');
+    }
+
+    const [start, end] = span;
+    const body = nodes.slice(start, end);
+    if (!this.prefersOptionalParens(nodes, start, end, indent, context)) {
+      return this.renderLine(nodes, indent, context, '', 'start');
+    }
+    const line = this.isGroup(body[0]) ? body[0].open.line : body[0].line;
+    const paren = (value: string): Token => ({ type: 'punctuation', value, start: 0, end: 0, line, column: 0 });
+    const group: BracketGroup = { open: paren('('), children: body, close: paren(')') };
+    return this.renderLine([...nodes.slice(0, start), group, ...nodes.slice(end)], indent, context, '', 'start');
+  }
+
+  /**
+   * 보이지 않는 괄호로 감쌀 수 있는 범위 [시작, 끝)을 반환합니다. (없으면 null)
+   */
+  private findOptionalParenSpan(nodes: PythonNode[]): [number, number] | null {
+    const first = nodes[0];
+    if (this.isKeywordToken(first, 'return')) {
+      return nodes.length > 1 ? [1, nodes.length] : null;
+    }
+    if (this.isKeywordToken(first, 'if') || this.isKeywordToken(first, 'elif') || this.isKeywordToken(first, 'while')) {
+      return this.isPunctuation(nodes[nodes.length - 1], ':') && nodes.length > 2 ? [1, nodes.length - 1] : null;
+    }
+
+    let assignment = -1;
+    let lambdas = 0;
+    nodes.forEach((node, index) => {
+      if (this.isKeywordToken(node, 'lambda')) {
+        lambdas++;
+      } else if (this.isPunctuation(node, ':') && lambdas > 0) {
+        lambdas--;
+      } else if (!this.isGroup(node) && node.type === 'punctuation' && lambdas === 0 &&
+        /^(?:[-+*/%&|^@]|\*\*|\/\/|<<|>>)?=$/.test(node.value)) {
+        assignment = index;
+      }
+    });
+    return assignment !== -1 && assignment < nodes.length - 1 ? [assignment + 1, nodes.length] : null;
+  }
+
+  /**
+   * 보이지 않는 괄호로 감싸는 편이 나은지 확인합니다.
+   * 나눌 연산자나 쉼표가 없으면 감싸지 않고, 가장 낮은 우선순위 연산자가 둘 이상이면 감쌉니다.
+   * 하나뿐이면 끝 괄호(인덱스 제외) 앞까지가 한 줄에 들어가거나 앞에 다른 괄호가 있을 때 끝 괄호에서 나눕니다.
+   */
+  private prefersOptionalParens(nodes: PythonNode[], start: number, end: number, indent: string, context: JoinContext): boolean {
+    const body = nodes.slice(start, end);
+    const commas = body.filter(node => this.isPunctuation(node, ',')).length;
+    const priorities = body.map((_, index) => this.operatorPriority(body, index));
+    const max = Math.max(0, ...priorities);
+    if (commas === 0 && (max === 0 || body.some(node => this.isKeywordToken(node, 'lambda')))) {
+      return false;
+    }
+    if ((commas > 0 ? commas : priorities.filter(priority => priority === max).length) > 1) {
+      return true;
+    }
+
+    const last = body[body.length - 1];
+    if (!this.isGroup(last) || last.children.length === 0 || this.getBracketKind(last, body[body.length - 2]) === 'subscript') {
+      return true;
+    }
+    const head = indent + this.joinNodes([...nodes.slice(0, end - 1), last.open], context, 'start');
+    return !body.slice(0, -1).some(node => this.isGroup(node)) && this.width(head) > this.lineLimit();
+  }
+
+  /**
+   * 노드를 출력 줄로 만듭니다.
+   * 한 줄에 들어가고 펼쳐야 할 괄호(마지막 쉼표, 주석)가 없으면 한 줄로, 아니면 괄호 하나를 골라
+   * 머리(여는 괄호까지), 본문, 꼬리(닫는 괄호부터)로 나누고 머리와 꼬리도 같은 방식으로 다시 나눕니다.
+   * @param suffix 마지막 줄 끝에 붙일 문자열 (요소 뒤 쉼표)
+   * @param startRole 첫 토큰 앞 토큰의 역할 (연산자 앞에서 나눈 줄은 'atom')
+   */
+  private renderLine(
+    nodes: PythonNode[],
+    indent: string,
+    context: JoinContext,
+    suffix: string,
+    startRole: SpacingRole
+  ): string[] {
+    if (!this.mustSplit(nodes)) {
+      const line = indent + this.joinNodes(nodes, context, startRole) + suffix;
+      if (this.width(line) <= this.lineLimit()) {
+        return [line];
+      }
+    }
+
+    const index = this.chooseSplitGroup(nodes, indent, context, startRole);
+    if (index === -1) {
+      return [indent + this.joinNodes(nodes, context, startRole) + suffix];
+    }
+
+    const group = nodes[index] as BracketGroup;
+    const kind = this.getBracketKind(group, nodes[index - 1]);
+    const previous = nodes[index - 1];
+    const previousKeyword = nodes[index - 2];
+    const forceExplode = this.isKeywordToken(previous, 'import') ||
+      (this.isKeywordToken(previousKeyword, 'def') && !this.hasTopLevelComma(group.children));
+
+    const head = this.renderLine([...nodes.slice(0, index), group.open], indent, context, '', startRole);
+    const body = this.renderBody(group, kind, indent + this.indentUnit, head, forceExplode);
+    const tail = this.renderLine([group.close, ...nodes.slice(index + 1)], indent, context, suffix, 'atom');
+    return [...head, ...body, ...tail];
+  }
+
+  /**
+   * 나눌 괄호를 고릅니다. (내용이 없는 괄호 제외, 없으면 -1)
+   * - def: 매개변수 괄호
+   * - 펼쳐야 할 괄호가 있으면 그중 가장 오른쪽
+   * - 그 밖: 오른쪽부터, 머리가 한 줄에 들어가는 첫 괄호 (없으면 가장 오른쪽)
+   */
+  private chooseSplitGroup(nodes: PythonNode[], indent: string, context: JoinContext, startRole: SpacingRole): number {
+    const candidates = nodes
+      .map((node, index) => (this.isGroup(node) && node.children.length > 0 ? index : -1))
+      .filter(index => index !== -1);
+    if (candidates.length === 0) {
+      return -1;
+    }
+
+    const first = nodes[0];
+    const isDef = this.isKeywordToken(first, 'def') ||
+      (this.isKeywordToken(first, 'async') && this.isKeywordToken(nodes[1], 'def'));
+    if (isDef) {
+      return candidates[0];
+    }
+
+    const forced = candidates.filter(index => this.mustSplit([nodes[index]]));
+    if (forced.length > 0) {
+      return forced[forced.length - 1];
+    }
+
+    for (let candidate = candidates.length - 1; candidate >= 0; candidate--) {
+      const index = candidates[candidate];
+      const group = nodes[index] as BracketGroup;
+      const head = indent + this.joinNodes([...nodes.slice(0, index), group.open], context, startRole);
+      if (this.width(head) <= this.lineLimit()) {
+        return index;
+      }
+      const tail = this.joinNodes([group.close, ...nodes.slice(index + 1)], context, 'atom');
+      if (this.width(indent + tail) > this.lineLimit()) {
+        break;
+      }
+    }
+    return candidates[candidates.length - 1];
+  }
+
+  /**
+   * 나눈 괄호의 본문 줄을 만듭니다.
+   * 한 줄에 들어가면 한 줄로, 아니면 컴프리헨션은 for/if 앞에서, 쉼표가 있으면 요소마다,
+   * 연산자만 있으면 가장 낮은 우선순위 연산자 앞에서 나눕니다.
+   * @param head 머리 줄 (여는 괄호 뒤 주석을 붙임)
+   * @param forceExplode 한 줄에 들어가도 요소마다 나눌지 여부 (from import, 매개변수가 하나인 def)
+   */
+  private renderBody(
+    group: BracketGroup,
+    kind: BracketKind,
+    indent: string,
+    head: string[],
+    forceExplode: boolean
+  ): string[] {
+    const children = group.children;
+    const context: JoinContext = { kind, complexSlice: kind === 'subscript' && this.isComplexSubscript(children) };
+    const hasComments = children.some(child => !this.isGroup(child) && child.type === 'comment');
+    const magic = this.convention.magicTrailingComma && this.isMagicComma(group, kind);
+    // 리스트, 딕셔너리, 튜플 같은 컬렉션은 나누면 요소마다 나눔
+    forceExplode = forceExplode || (kind !== 'call' && kind !== 'subscript' && this.hasTopLevelComma(children));
+
+    if (!hasComments && !magic && !forceExplode && !this.mustSplit(children)) {
+      const line = indent + this.joinNodes(this.withoutMagicComma(group, kind), context, 'start');
+      if (this.width(line) <= this.lineLimit()) {
+        return [line];
+      }
+    }
+
+    if (!hasComments && children.some(child => this.isKeywordToken(child, 'for'))) {
+      return this.renderParts(this.splitComprehension(children), indent, context);
+    }
+
+    if (hasComments || forceExplode || this.hasTopLevelComma(children)) {
+      const { elements, headComment, dangling } = this.splitElements(group);
+      if (headComment) {
+        head[head.length - 1] += `  ${this.normalizeComment(headComment.value)}`;
+      }
+      const lastComma = this.lastSignificant(children);
+      const addTrailingComma = elements.length > 1 || forceExplode ||
+        (!!lastComma && !this.isGroup(lastComma) && lastComma.value === ',');
+
+      const lines: string[] = [];
+      elements.forEach((element, index) => {
+        lines.push(...element.leading.map(comment => indent + this.normalizeComment(comment.value)));
+        const comma = index < elements.length - 1 || addTrailingComma ? ',' : '';
+        const elementLines = this.renderLine(element.nodes, indent, context, comma, 'start');
+        if (element.trailing) {
+          elementLines[elementLines.length - 1] += `  ${this.normalizeComment(element.trailing.value)}`;
+        }
+        lines.push(...elementLines);
+      });
+      lines.push(...dangling.map(comment => indent + this.normalizeComment(comment.value)));
+      return lines;
+    }
+
+    const parts = this.splitAtOperators(children);
+    return parts
+      ? this.renderParts(parts, indent, context)
+      : this.renderLine(children, indent, context, '', 'start');
+  }
+
+  /**
+   * 나눈 조각을 한 줄에 하나씩 씁니다. (두 번째 조각부터는 이항 연산자로 시작함)
+   */
+  private renderParts(parts: PythonNode[][], indent: string, context: JoinContext): string[] {
+    return parts.flatMap((part, index) => this.renderLine(part, indent, context, '', index === 0 ? 'start' : 'atom'));
+  }
+
+  /**
+   * 컴프리헨션을 for와 for 뒤의 if 앞에서 나눕니다.
+   */
+  private splitComprehension(children: PythonNode[]): PythonNode[][] {
+    const parts: PythonNode[][] = [[]];
+    let seenFor = false;
+    children.forEach((child, index) => {
+      const startsFor = this.isKeywordToken(child, 'for') && !this.isKeywordToken(children[index - 1], 'async');
+      const startsAsyncFor = this.isKeywordToken(child, 'async') && this.isKeywordToken(children[index + 1], 'for');
+      const startsIf = seenFor && this.isKeywordToken(child, 'if');
+      if ((startsFor || startsAsyncFor || startsIf) && parts[parts.length - 1].length > 0) {
+        parts.push([]);
+      }
+      seenFor = seenFor || startsFor || startsAsyncFor;
+      parts[parts.length - 1].push(child);
+    });
+    return parts;
+  }
+
+  /**
+   * 가장 낮은 우선순위의 이항 연산자 앞에서 나눕니다. (나눌 연산자가 없거나 lambda가 있으면 null)
+   */
+  private splitAtOperators(children: PythonNode[]): PythonNode[][] | null {
+    if (children.some(child => this.isKeywordToken(child, 'lambda'))) {
+      return null;
+    }
+
+    const priorities = children.map((_, index) => this.operatorPriority(children, index));
+    const max = Math.max(0, ...priorities);
+    if (max === 0) {
+      return null;
+    }
+
+    const parts: PythonNode[][] = [[]];
+    children.forEach((child, index) => {
+      if (priorities[index] === max && index > 0) {
+        parts.push([]);
+      }
+      parts[parts.length - 1].push(child);
+    });
+    return parts;
+  }
+
+  private operatorPriority(children: PythonNode[], index: number): number {
+    const node = children[index];
+    if (this.isGroup(node) || !this.isOperandEnd(children[index - 1])) {
+      return 0;
+    }
+    if (node.type === 'string') {
+      return children[index - 1] && !this.isGroup(children[index - 1]) && (children[index - 1] as Token).type === 'string' ? 12 : 0;
+    }
+    if (node.type === 'keyword' && node.value === 'not') {
+      return this.isKeywordToken(children[index + 1], 'in') ? 10 : 0;
+    }
+    if (node.type !== 'keyword' && node.type !== 'punctuation') {
+      return 0;
+    }
+    return PythonFormatter.OPERATOR_PRIORITY[node.value] ?? 0;
+  }
+
+  /**
+   * 괄호 안을 쉼표로 나누고 주석을 요소에 붙입니다.
+   * 같은 줄 뒤 주석은 앞 요소에, 따로 있는 줄의 주석은 다음 요소에 붙이며, 요소 중간의 주석은 옮길 수 없습니다.
+   */
+  private splitElements(group: BracketGroup): { elements: BracketElement[]; headComment?: Token; dangling: Token[] } {
+    const elements: BracketElement[] = [];
+    let current: BracketElement = { nodes: [], leading: [] };
+    let headComment: Token | undefined;
+    let lastLine = group.open.line;
+    let lambdas = 0;
+
+    for (const node of group.children) {
+      if (!this.isGroup(node) && node.type === 'comment') {
+        const previous = elements[elements.length - 1];
+        if (current.nodes.length > 0) {
+          if (current.trailing || node.line !== lastLine) {
+            throw new CommentPlacementError();
+          }
+          current.trailing = node;
+        } else if (previous && !previous.trailing && node.line === lastLine) {
+          previous.trailing = node;
+        } else if (!previous && current.leading.length === 0 && node.line === group.open.line) {
+          headComment = node;
+        } else {
+          current.leading.push(node);
+        }
+        continue;
+      }
+
+      if (!this.isGroup(node) && node.value === ',' && lambdas === 0) {
+        elements.push(current);
+        current = { nodes: [], leading: [] };
+        lastLine = node.line;
+        continue;
+      }
+      if (current.trailing) {
+        throw new CommentPlacementError();
+      }
+      if (this.isKeywordToken(node, 'lambda')) {
+        lambdas++;
+      } else if (lambdas > 0 && !this.isGroup(node) && node.value === ':') {
+        lambdas--;
+      }
+      current.nodes.push(node);
+      lastLine = this.endLine(node);
+    }
+
+    if (current.nodes.length > 0) {
+      elements.push(current);
+      return { elements, headComment, dangling: [] };
+    }
+    return { elements, headComment, dangling: current.leading };
+  }
+
+  /**
+   * 노드를 한 줄로 이어 붙입니다. (주석이 있으면 CommentPlacementError)
+   */
+  private joinNodes(nodes: PythonNode[], context: JoinContext, startRole: SpacingRole): string {
+    let text = '';
+    let role = startRole;
+    let annotation = false;
+    let lambdas = 0;
+
+    nodes.forEach((node, index) => {
+      if (this.isGroup(node)) {
+        const kind = this.getBracketKind(node, nodes[index - 1]);
+        const inner = this.joinNodes(this.withoutMagicComma(node, kind), {
+          kind,
+          complexSlice: kind === 'subscript' && this.isComplexSubscript(node.children)
+        }, 'start');
+        text += (text === '' ? '' : this.getSpace(role, 'open', node.open)) + node.open.value + inner + node.close.value;
+        role = 'atom';
+        return;
+      }
+      if (node.type === 'comment') {
+        throw new CommentPlacementError();
+      }
+
+      const current = this.getRole(node, role, nodes, index, context, annotation, lambdas);
+      if (node.type === 'keyword' && node.value === 'lambda') {
+        lambdas++;
+      } else if (node.value === ':' && lambdas > 0) {
+        lambdas--;
+      } else if (node.value === ':' && context.kind !== 'subscript') {
+        annotation = true;
+      } else if (node.value === ',') {
+        annotation = false;
+      }
+
+      text += (text === '' ? '' : this.getSpace(role, current, node)) + node.value;
+      role = current;
+    });
+
+    return text;
+  }
+
+  /**
+   * 토큰의 공백 역할을 정합니다.
+   */
+  private getRole(
+    token: Token,
+    previousRole: SpacingRole,
+    nodes: PythonNode[],
+    index: number,
+    context: JoinContext,
+    annotation: boolean,
+    lambdas: number
+  ): SpacingRole {
+    switch (token.type) {
+      case 'identifier':
+      case 'number':
+      case 'string':
+        return 'atom';
+      case 'keyword':
+        return PythonFormatter.LITERAL_KEYWORDS.has(token.value) ? 'atom' : 'keyword';
+      default:
+        break;
+    }
+
+    switch (token.value) {
+      case '(':
+      case '[':
+      case '{':
+        return 'open';
+      case ')':
+      case ']':
+      case '}':
+      case '...':
+        return 'atom';
+      case ',':
+      case ';':
+        return 'comma';
+      case '.':
+        return 'dot';
+      case ':':
+        if (context.kind === 'subscript' && lambdas === 0) {
+          return context.complexSlice ? 'slice' : 'tight';
+        }
+        return 'colon';
+      case '=':
+        return ((context.kind === 'call' || context.kind === 'paren') && !annotation) || lambdas > 0 ? 'tight' : 'binary';
+      case '~':
+        return 'unary';
+      case '-':
+      case '+':
+      case '*':
+      case '**':
+      case '@':
+        if (previousRole !== 'atom') {
+          return 'unary';
+        }
+        return token.value === '**' && this.isSimplePower(nodes, index) ? 'tight' : 'binary';
+      default:
+        return 'binary';
+    }
+  }
+
+  /**
+   * 앞 토큰 역할과 현재 토큰 역할 사이의 공백을 반환합니다.
+   */
+  private getSpace(previous: SpacingRole, current: SpacingRole, token: Token): string {
+    if (previous === 'start' || previous === 'unary' || previous === 'tight' || previous === 'open') {
+      return '';
+    }
+    if (current === 'comma' || current === 'colon' || current === 'tight') {
+      return '';
+    }
+    if (current === 'slice' || previous === 'slice') {
+      return current === previous ? '' : ' ';
+    }
+    if (current === 'dot') {
+      return previous === 'keyword' ? ' ' : '';
+    }
+    if (previous === 'dot') {
+      return token.value === 'import' ? ' ' : '';
+    }
+    if (current === 'open') {
+      return token.value !== '{' && previous === 'atom' ? '' : ' ';
+    }
+    return ' ';
+  }
+
+  /**
+   * '**'의 양쪽이 단순한 피연산자(이름, 숫자, 속성 접근, 단항 연산자가 붙은 것)인지 확인합니다.
+   */
+  private isSimplePower(nodes: PythonNode[], index: number): boolean {
+    let left = index - 1;
+    if (!this.isNameOrNumber(nodes[left])) {
+      return false;
+    }
+    while (this.isPunctuation(nodes[left - 1], '.')) {
+      left -= 2;
+      if (!this.isNameOrNumber(nodes[left])) {
+        return false;
+      }
+    }
+
+    let right = index + 1;
+    if (this.isPunctuation(nodes[right], '-') || this.isPunctuation(nodes[right], '+') || this.isPunctuation(nodes[right], '~')) {
+      right++;
+    }
+    if (!this.isNameOrNumber(nodes[right])) {
+      return false;
+    }
+    while (this.isPunctuation(nodes[right + 1], '.') && this.isNameOrNumber(nodes[right + 2])) {
+      right += 2;
+    }
+    return !nodes[right + 1] || !this.isGroup(nodes[right + 1]);
+  }
+
+  /**
+   * 슬라이스에 이름, 숫자, 단항 연산자 밖의 식이 있는지 확인합니다. (ham[lower + offset : upper])
+   */
+  private isComplexSubscript(children: PythonNode[]): boolean {
+    if (!children.some(child => this.isPunctuation(child, ':'))) {
+      return false;
+    }
+    let previousAtom = false;
+    for (const child of children) {
+      if (this.isGroup(child)) {
+        return true;
+      }
+      if (child.value === ':' || child.value === ',') {
+        previousAtom = false;
+      } else if (this.isOperandEnd(child)) {
+        previousAtom = true;
+      } else if (!previousAtom && ['-', '+', '~'].includes(child.value)) {
+        continue;
+      } else {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 펼쳐야 할 괄호(주석이 있거나 마지막 쉼표가 있는 괄호)가 있는지 확인합니다.
+   */
+  private mustSplit(nodes: PythonNode[]): boolean {
+    return nodes.some((node, index) => {
+      if (!this.isGroup(node)) {
+        return node.type === 'comment';
+      }
+      return node.children.some(child => !this.isGroup(child) && child.type === 'comment') ||
+        (this.convention.magicTrailingComma && this.isMagicComma(node, this.getBracketKind(node, nodes[index - 1]))) ||
+        this.mustSplit(node.children);
+    });
+  }
+
+  /**
+   * 괄호 안 마지막 쉼표가 요소를 펼치라는 표시인지 확인합니다. (요소가 하나인 튜플 (1,)과 인덱스 x[1,]은 제외)
+   */
+  private isMagicComma(group: BracketGroup, kind: BracketKind): boolean {
+    const last = this.lastSignificant(group.children);
+    if (!last || this.isGroup(last) || last.value !== ',') {
+      return false;
+    }
+    if (kind === 'paren' || kind === 'subscript') {
+      return this.hasTopLevelComma(group.children.slice(0, group.children.lastIndexOf(last)));
+    }
+    return true;
+  }
+
+  /**
+   * 한 줄로 이어 붙일 괄호 내용을 반환합니다. (펼치라는 표시의 마지막 쉼표는 뺌)
+   */
+  private withoutMagicComma(group: BracketGroup, kind: BracketKind): PythonNode[] {
+    if (!this.isMagicComma(group, kind)) {
+      return group.children;
+    }
+    const index = group.children.lastIndexOf(this.lastSignificant(group.children)!);
+    return [...group.children.slice(0, index), ...group.children.slice(index + 1)];
+  }
+
+  private getBracketKind(group: BracketGroup, previous: PythonNode | undefined): BracketKind {
+    const afterOperand = this.isOperandEnd(previous);
+    switch (group.open.value) {
+      case '(':
+        return afterOperand ? 'call' : 'paren';
+      case '[':
+        return afterOperand ? 'subscript' : 'list';
+      default:
+        return 'brace';
+    }
+  }
+
+  /**
+   * 노드가 피연산자의 끝(이름, 리터럴, 닫는 괄호)인지 확인합니다.
+   */
+  private isOperandEnd(node: PythonNode | undefined): boolean {
+    if (!node) {
+      return false;
+    }
+    if (this.isGroup(node)) {
+      return true;
+    }
+    return node.type === 'identifier' || node.type === 'number' || node.type === 'string' ||
+      (node.type === 'keyword' && PythonFormatter.LITERAL_KEYWORDS.has(node.value)) ||
+      node.value === '...' || ')]}'.includes(node.value) && node.type === 'punctuation';
+  }
+
+  /**
+   * lambda 매개변수 밖에 쉼표가 있는지 확인합니다.
+   */
+  private hasTopLevelComma(children: PythonNode[]): boolean {
+    let lambdas = 0;
+    for (const child of children) {
+      if (this.isKeywordToken(child, 'lambda')) {
+        lambdas++;
+      } else if (this.isPunctuation(child, ':') && lambdas > 0) {
+        lambdas--;
+      } else if (this.isPunctuation(child, ',') && lambdas === 0) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private lastSignificant(children: PythonNode[]): PythonNode | undefined {
+    for (let index = children.length - 1; index >= 0; index--) {
+      const child = children[index];
+      if (this.isGroup(child) || child.type !== 'comment') {
+        return child;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 문자열 접두사와 따옴표를 정리합니다.
+   * 접두사의 u는 빼고 F/B는 소문자로 바꿉니다. 세 따옴표는 항상 큰따옴표로, 한 따옴표는 quoteStyle로 바꾸되
+   * 이스케이프가 늘어나거나 raw/f 문자열 안에 바꿀 따옴표가 있으면 그대로 둡니다.
+   */
+  private normalizeString(value: string): string {
+    const quoteStyle = this.convention.quoteStyle;
+    const match = value.match(/^([A-Za-z]*)('''|"""|'|")([\s\S]*)$/);
+    if (quoteStyle === 'preserve' || !match) {
+      return value;
+    }
+
+    const prefix = this.normalizePrefix(match[1]);
+    const quote = match[2];
+    const body = match[3].slice(0, -quote.length);
+    if (quote.length === 3) {
+      const convert = quote === "'''" && !body.includes('"""') && !body.endsWith('"');
+      return convert ? `${prefix}"""${body}"""` : `${prefix}${quote}${body}${quote}`;
+    }
+
+    const target = quoteStyle === 'double' ? '"' : "'";
+    const other = target === '"' ? "'" : '"';
+    if (/[rRfF]/.test(prefix)) {
+      const next = quote !== target && !body.includes(target) ? target : quote;
+      return `${prefix}${next}${body}${next}`;
+    }
+
+    // 선호하는 따옴표는 이스케이프가 줄어들 때만 바꾸고, 아니면 이스케이프가 늘지 않을 때 선호하는 따옴표로 바꿈
+    const converted = this.convertQuotes(body, quote, quote === target ? other : target);
+    const keep = quote === target
+      ? converted.escapes >= converted.originalEscapes
+      : converted.escapes > converted.originalEscapes;
+    return keep
+      ? `${prefix}${quote}${body}${quote}`
+      : `${prefix}${converted.quote}${converted.body}${converted.quote}`;
+  }
+
+  /**
+   * 문자열 접두사에서 u를 빼고 F/B를 소문자로 바꿉니다. (R은 그대로 둠)
+   */
+  private normalizePrefix(prefix: string): string {
+    return prefix.replace(/[uU]/g, '').replace('F', 'f').replace('B', 'b');
+  }
+
+  /**
+   * 한 따옴표 문자열 본문을 다른 따옴표에 맞게 다시 이스케이프합니다.
+   */
+  private convertQuotes(body: string, from: string, to: string): {
+    quote: string;
+    body: string;
+    escapes: number;
+    originalEscapes: number;
+  } {
+    let converted = '';
+    let originalEscapes = 0;
+    let escapes = 0;
+    for (let index = 0; index < body.length; index++) {
+      const char = body[index];
+      if (char === '\\' && index + 1 < body.length) {
+        const next = body[++index];
+        if (next === from) {
+          converted += from;
+          originalEscapes++;
+        } else {
+          converted += char + next;
+          if (next === to) {
+            originalEscapes++;
+            escapes++;
+          }
+        }
+      } else if (char === to) {
+        converted += `\\${to}`;
+        escapes++;
+      } else {
+        converted += char;
+      }
+    }
+    return { quote: to, body: converted, escapes, originalEscapes };
+  }
+
+  /**
+   * docstring의 들여쓰기를 새 들여쓰기에 맞추고 앞뒤 공백을 정리합니다.
+   * 둘째 줄부터는 공통 들여쓰기를 떼고 indent를 붙이며, 끝 빈 줄은 지우고 닫는 따옴표만 있던 줄은 indent에 맞춥니다.
+   */
+  private formatDocstring(value: string, indent: string): string {
+    const match = value.match(/^([A-Za-z]*)('''|"""|'|")([\s\S]*)$/);
+    if (!match || match[2].length === 1) {
+      return this.normalizeString(value);
+    }
+
+    const quote = match[2];
+    const lines = match[3].slice(0, -quote.length).split('\n');
+    const rest = lines.slice(1);
+    const common = Math.min(...rest.filter(line => line.trim() !== '').map(line => line.length - line.trimStart().length));
+    let content = [
+      lines[0].trimStart(),
+      ...rest.map(line => (line.trim() === '' ? '' : indent + line.slice(common).trimEnd()))
+    ].join('\n').trimEnd();
+    const preserve = this.convention.quoteStyle === 'preserve';
+    const finalQuote = !preserve && quote === "'''" && !content.includes('"""') ? '"""' : quote;
+    if (content.startsWith(finalQuote[0])) {
+      content = ' ' + content;
+    }
+    if (rest.length > 0 && rest[rest.length - 1].trim() === '') {
+      content += '\n' + indent;
+    } else if (content.endsWith(finalQuote[0])) {
+      content += ' ';
+    }
+
+    const prefix = preserve ? match[1] : this.normalizePrefix(match[1]);
+    return `${prefix}${finalQuote}${content}${finalQuote}`;
+  }
+
+  /**
+   * '#' 뒤에 공백을 넣고 끝 공백을 지웁니다. (#!, #:, ## 등은 그대로 둠)
+   */
+  private normalizeComment(text: string): string {
+    return text.trimEnd().replace(/^#(?=[^\s!:#'])/, '# ');
+  }
+
+  /**
+   * 문이 docstring(파일 또는 def/class 블록의 첫 문인 문자열 하나)인지 확인합니다.
+   */
+  private isDocstring(statements: PythonStatement[], index: number): boolean {
+    const statement = statements[index];
+    const code = statement.tokens.filter(token => token.type !== 'comment');
+    if (statement.kind !== 'code' || code.length !== 1 || code[0].type !== 'string') {
+      return false;
+    }
+    const previous = statements.slice(0, index).reverse().find(item => item.kind === 'code');
+    return previous
+      ? this.isDefinition(previous) && this.opensBlock(previous) && statement.level === previous.level + 1
+      : statement.level === 0;
+  }
+
+  private isDefinition(statement: PythonStatement): boolean {
+    const [first, second] = statement.tokens;
+    return statement.kind === 'code' && first.type === 'keyword' &&
+      (first.value === 'def' || first.value === 'class' || (first.value === 'async' && second?.value === 'def'));
+  }
+
+  private isDecorator(statement: PythonStatement): boolean {
+    return statement.kind === 'code' && statement.tokens[0].value === '@';
+  }
+
+  private isImport(statement: PythonStatement): boolean {
+    const first = statement.tokens[0];
+    return statement.kind === 'code' && first.type === 'keyword' && (first.value === 'import' || first.value === 'from');
+  }
+
+  private isDependentClause(statement: PythonStatement): boolean {
+    const first = statement.tokens[0];
+    return statement.kind === 'code' && first.type === 'keyword' && PythonFormatter.DEPENDENT_CLAUSES.has(first.value);
+  }
+
+  /**
+   * 문이 ':'로 끝나 블록을 여는지 확인합니다.
+   */
+  private opensBlock(statement: PythonStatement): boolean {
+    const code = statement.tokens.filter(token => token.type !== 'comment');
+    return statement.kind === 'code' && code.length > 0 && code[code.length - 1].value === ':';
+  }
+
+  /**
+   * 들여쓰기 너비가 width 이하인 가장 깊은 블록 깊이를 반환합니다.
+   */
+  private deepestLevel(stack: number[], width: number): number {
+    let level = 0;
+    stack.forEach((indentWidth, index) => {
+      if (indentWidth <= width) {
+        level = index;
+      }
+    });
+    return level;
+  }
+
+  /**
+   * 들여쓰기 너비를 계산합니다. (탭은 다음 8의 배수까지)
+   */
+  private measureIndent(text: string): number {
+    let width = 0;
+    for (const char of text) {
+      width = char === '\t' ? (Math.floor(width / 8) + 1) * 8 : width + 1;
+    }
+    return width;
+  }
+
+  /**
+   * 문자열 토큰이 닫는 따옴표로 끝나는지 확인합니다.
+   */
+  private isClosedString(value: string): boolean {
+    const match = value.match(/^[A-Za-z]*('''|"""|'|")/);
+    if (!match) {
+      return true;
+    }
+    const quote = match[1];
+    const body = value.slice(match[0].length);
+    if (body.length < quote.length || !body.endsWith(quote)) {
+      return false;
+    }
+    const backslashes = body.slice(0, -quote.length).match(/\\*$/)![0].length;
+    return backslashes % 2 === 0;
+  }
+
+  private endLine(node: PythonNode): number {
+    if (this.isGroup(node)) {
+      return node.close.line;
+    }
+    return node.line + (node.value.match(/\n/g)?.length ?? 0);
+  }
+
+  private isGroup(node: PythonNode | undefined): node is BracketGroup {
+    return !!node && 'children' in node;
+  }
+
+  private isKeywordToken(node: PythonNode | undefined, value: string): boolean {
+    return !!node && !this.isGroup(node) && node.type === 'keyword' && node.value === value;
+  }
+
+  private isPunctuation(node: PythonNode | undefined, value: string): boolean {
+    return !!node && !this.isGroup(node) && node.type === 'punctuation' && node.value === value;
+  }
+
+  private isNameOrNumber(node: PythonNode | undefined): boolean {
+    return !!node && !this.isGroup(node) && (node.type === 'identifier' || node.type === 'number');
+  }
+
+  /**
+   * 줄 너비를 계산합니다. (탭은 indentSize칸)
+   */
+  private width(line: string): number {
+    return line.length + (line.match(/\t/g)?.length ?? 0) * (this.convention.indentSize - 1);
+  }
+
+  private lineLimit(): number {
+    return this.convention.maxLineLength > 0 ? this.convention.maxLineLength : Infinity;
+  }
+
+  /**
+   * 최종 정리를 수행합니다.
+   * 줄 끝 공백은 여러 줄 문자열 내용을 건드리지 않도록 줄을 만들 때 지웁니다.
+   */
+  private finalCleanup(code: string): string {
+    // 파일 끝 개행 처리
+    code = code.replace(/\n+$/, '');
+    if (this.convention.insertFinalNewline && code !== '') {
+      code += '\n';
+    }
+
+    return code;
+  }
+
+  private fail(line: number, message: string): never {
+    throw new SourceParseError('Python', line, null, message);
+  }
+}
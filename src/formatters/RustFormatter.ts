@@ -0,0 +1,58 @@
+/**
+ * Rust 언어를 위한 코드 포매터
+ * rustfmt 기본 스타일을 따르며, use 문 정렬과 콜론 공백(space_after_colon)을 지원합니다.
+ */
+
+import { RustFormattingConvention } from '../types/FormattingTypes';
+import { CFamilyGrammar } from '../types/CFamilyTypes';
+import { Token } from '../types/TokenTypes';
+import { RustTokenizer } from '../tokenizers/RustTokenizer';
+import { TokenUtils } from '../tokenizers/TokenUtils';
+import { CFamilyFormatter } from './CFamilyFormatter';
+
+export class RustFormatter extends CFamilyFormatter<RustFormattingConvention> {
+  protected readonly tokenizer = new RustTokenizer();
+
+  protected readonly grammar: CFamilyGrammar = {
+    // '|'는 클로저 인자(|x| x + 1)와 구분할 수 없어 원문 공백을 유지
+    binaryOperators: new Set([
+      '=', '==', '!=', '<', '>', '<=', '>=', '+', '-', '*', '/', '%', '&&', '||', '&', '^',
+      '<<', '>>', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>=', '=>', '->'
+    ]),
+    controlKeywords: new Set(),
+    spaceBeforeOpenBrace: true,
+    switchKeywords: new Set(),
+    blockKeywords: new Set(['if', 'else', 'for', 'while', 'loop', 'match', 'unsafe']),
+    indentCaseLabels: false,
+    // 클로저와 구조체 리터럴의 중괄호는 Allman 스타일에서도 옮기지 않음
+    allmanBlockLine: /^(?:(?:pub(?:\([^)]*\))?|const|async|unsafe|extern)\s+)*(?:fn|struct|enum|trait|union|impl|mod)\b|^(?:if|else|for|while|loop|match)\b/,
+    imports: {
+      statement: /^(?:pub(?:\([^)]*\))?\s+)?use\s+[^;]+;$/,
+      header: /^(?:#!\[.*\]$|(?:pub\s+)?mod\s+\w+;|extern\s+crate\s)/,
+      // rustfmt group_imports = "StdExternalCrate" (std/core/alloc, 외부 크레이트, crate/self/super)
+      groups: this.convention.separateImportGroups
+        ? [
+          /^(?:pub(?:\([^)]*\))?\s+)?use\s+(?:::)?(?:std|core|alloc)::/,
+          /^(?:pub(?:\([^)]*\))?\s+)?use\s+(?!(?:crate|self|super)::)/
+        ]
+        : []
+    },
+    declarations: {
+      type: /^(?:pub(?:\([^)]*\))?\s+)?(?:unsafe\s+)?(?:(?:struct|enum|trait|union)\s+\w|impl\b|mod\s+\w+\s*(?:\{|$))/,
+      function: /^(?:pub(?:\([^)]*\))?\s+)?(?:(?:const|async|unsafe|extern(?:\s+"[^"]*")?)\s+)*fn\s+\w/,
+      annotation: /^#!?\[.*\]$/
+    }
+  };
+
+  /**
+   * 타입/필드 콜론 공백을 맞춥니다. (x: i32, T: Clone)
+   */
+  protected applyTokenRules(tokens: Token[]): Token[] {
+    return TokenUtils.adjustSpacing(
+      tokens,
+      token => token.type === 'punctuation' && token.value === ':',
+      false,
+      this.convention.spaceAfterColon
+    );
+  }
+}
@@ -1,26 +1,33 @@
 /**
  * SQL 언어 포매터
  * 다양한 SQL 방언과 포매팅 스타일을 지원합니다.
+ * 토큰을 문과 괄호 구조로 묶은 뒤 절 단위로 다시 배치하므로, 서브쿼리/CTE/CASE 식은 깊이에 맞춰 들여씁니다.
+ * 스크립트는 문마다 따로 포매팅하므로 괄호가 맞지 않는 문이 있어도 그 문만 원본 그대로 둡니다.
+ * lintQueries를 켜면 결과 코드에서 위험한 쿼리 패턴(SELECT *, WHERE 없는 UPDATE/DELETE, ...)을 찾아 경고합니다.
  */
 
-import { SqlFormattingConvention, FormattingResult } from '../types/FormattingTypes';
+import { SqlFormattingConvention, FormattingResult, SqlStatementResult } from '../types/FormattingTypes';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { DiffService } from '../services/DiffService';
+import { Token } from '../types/TokenTypes';
+import { SqlTokenizer } from '../tokenizers/SqlTokenizer';
+import { TokenUtils } from '../tokenizers/TokenUtils';
+import { SqlStructureParser } from '../utils/SqlStructureParser';
+import { SqlStatementSplitter } from '../utils/SqlStatementSplitter';
+import { SqlLinter } from '../utils/SqlLinter';
+import { SqlPrinter } from '../printers/SqlPrinter';
+import { SqlSourceStatement, SqlStatement } from '../types/SqlTypes';
 
 export class SqlFormatter {
+  /** 문 목록에 보여줄 첫 줄 요약의 최대 길이 */
+  private static readonly SUMMARY_LENGTH = 60;
+
   private convention: SqlFormattingConvention;
-  private readonly sqlKeywords = [
-    'SELECT', 'FROM', 'WHERE', 'JOIN', 'INNER JOIN', 'LEFT JOIN', 'RIGHT JOIN', 'FULL JOIN',
-    'GROUP BY', 'ORDER BY', 'HAVING', 'INSERT', 'UPDATE', 'DELETE', 'CREATE', 'DROP',
-    'ALTER', 'INDEX', 'TABLE', 'DATABASE', 'SCHEMA', 'VIEW', 'PROCEDURE', 'FUNCTION',
-    'TRIGGER', 'CONSTRAINT', 'PRIMARY KEY', 'FOREIGN KEY', 'UNIQUE', 'NOT NULL',
-    'AND', 'OR', 'NOT', 'IN', 'EXISTS', 'BETWEEN', 'LIKE', 'IS', 'NULL',
-    'UNION', 'INTERSECT', 'EXCEPT', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END',
-    'AS', 'DISTINCT', 'ALL', 'ANY', 'SOME', 'COUNT', 'SUM', 'AVG', 'MIN', 'MAX',
-    'CAST', 'CONVERT', 'SUBSTRING', 'LENGTH', 'UPPER', 'LOWER', 'TRIM',
-    'DECLARE', 'SET', 'IF', 'WHILE', 'FOR', 'CURSOR', 'OPEN', 'FETCH', 'CLOSE'
-  ];
+  private readonly tokenizer: SqlTokenizer;
 
   constructor(convention: SqlFormattingConvention) {
     this.convention = convention;
+    this.tokenizer = new SqlTokenizer(convention.dialect);
   }
 
   /**
@@ -30,324 +37,215 @@ export class SqlFormatter {
    */
   public format(code: string): FormattingResult {
     const startTime = Date.now();
-    const warnings: string[] = [];
-    const errors: string[] = [];
+    const diagnostics = new DiagnosticCollector();
 
     try {
-      // 1. 기본 정규화
-      let formattedCode = this.normalizeWhitespace(code);
-      
-      // 2. 키워드 대소문자 적용
-      formattedCode = this.applyKeywordCase(formattedCode);
-      
-      // 3. 식별자 대소문자 적용
-      formattedCode = this.applyIdentifierCase(formattedCode);
-      
-      // 4. SELECT 문 포매팅
-      formattedCode = this.formatSelectStatements(formattedCode);
-      
-      // 5. INSERT 문 포매팅
-      formattedCode = this.formatInsertStatements(formattedCode);
-      
-      // 6. UPDATE/DELETE 문 포매팅
-      formattedCode = this.formatUpdateDeleteStatements(formattedCode);
-      
-      // 7. JOIN 문 포매팅
-      formattedCode = this.formatJoinStatements(formattedCode);
-      
-      // 8. WHERE 절 포매팅
-      formattedCode = this.formatWhereClause(formattedCode);
-      
-      // 9. 함수 호출 포매팅
-      formattedCode = this.formatFunctionCalls(formattedCode);
-      
-      // 10. 서브쿼리 포매팅
-      formattedCode = this.formatSubqueries(formattedCode);
-      
-      // 11. 쉼표 위치 조정
-      formattedCode = this.adjustCommaPosition(formattedCode);
-      
-      // 12. 들여쓰기 적용
-      formattedCode = this.applyIndentation(formattedCode);
-      
-      // 13. 최종 정리
+      // 1. 문 단위로 나눔 (문자열/주석/달러 인용 안의 세미콜론은 무시하고 DELIMITER, GO를 따름)
+      const sources = SqlStatementSplitter.split(code, this.tokenizer.tokenize(code), this.tokenizer.rules);
+
+      // 2. 문마다 따로 포매팅 (블록 깊이는 같은 printer가 다음 문으로 넘김)
+      const printer = new SqlPrinter(this.convention, this.tokenizer.rules);
+      const statements: SqlStatementResult[] = [];
+      let formattedCode = '';
+      let line = 1;
+
+      sources.forEach((source, index) => {
+        if (index > 0) {
+          const separator = this.hasBlankLineBefore(source) ? '\n\n' : '\n';
+          formattedCode += separator;
+          line += separator.length;
+        }
+
+        const original = code.slice(source.start, source.end);
+        const firstDiagnostic = diagnostics.diagnostics.length;
+        let text: string;
+        let skipped = false;
+        try {
+          // DELIMITER 명령은 구분자를 글자 그대로 써야 하므로 손대지 않음
+          text = source.command === 'delimiter' ? original : this.formatStatement(source, printer);
+        } catch (error) {
+          // 이 문만 원본 그대로 두고 나머지 문은 계속 포매팅
+          text = original;
+          skipped = true;
+          const lines = text.split('\n');
+          diagnostics.warning(
+            'statement-skipped',
+            `문을 포매팅하지 못해 그대로 둡니다: ${error instanceof Error ? error.message : String(error)}`,
+            { startLine: line, startColumn: 1, endLine: line + lines.length - 1, endColumn: lines[lines.length - 1].length + 1 }
+          );
+        }
+        diagnostics.reportLongLines(text, this.convention.maxLineLength, line);
+
+        const lineCount = text.split('\n').length;
+        const summary = this.summarize(code, source);
+        if (!source.command && summary !== null) {
+          const content = source.tokens.filter(token => token.type !== 'whitespace' && token.type !== 'newline');
+          const last = content[content.length - 1];
+          statements.push({
+            summary,
+            status: skipped ? 'skipped' : text === original ? 'unchanged' : 'formatted',
+            sourceStartLine: content[0].line,
+            sourceEndLine: last.line + (last.value.match(/\n/g) || []).length,
+            startLine: line,
+            endLine: line + lineCount - 1,
+            diagnostics: diagnostics.diagnostics.slice(firstDiagnostic)
+          });
+        }
+
+        formattedCode += text;
+        line += lineCount - 1;
+      });
+
+      // 3. 최종 정리
       formattedCode = this.finalCleanup(formattedCode);
 
+      // 4. 쿼리 린트 (결과 코드 기준 위치로 보고)
+      if (this.convention.lintQueries) {
+        this.lint(formattedCode, statements, diagnostics);
+      }
+
       const originalLines = code.split('\n');
       const formattedLines = formattedCode.split('\n');
-      const changedLines = this.countChangedLines(originalLines, formattedLines);
+      const changedLines = DiffService.countChangedLines(originalLines, formattedLines);
 
       return {
         formattedCode,
         changedLines,
-        warnings,
-        errors,
-        processingTime: Date.now() - startTime
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
+        processingTime: Date.now() - startTime,
+        statements
       };
     } catch (error) {
-      errors.push(`포매팅 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
+      diagnostics.error('internal-error', `포매팅 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
       return {
         formattedCode: code,
         changedLines: 0,
-        warnings,
-        errors,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
         processingTime: Date.now() - startTime
       };
     }
   }
 
   /**
-   * 기본 공백과 개행을 정규화합니다.
-   */
-  private normalizeWhitespace(code: string): string {
-    // 탭을 스페이스로 변환
-    if (this.convention.indentationType === 'space') {
-      code = code.replace(/\t/g, ' '.repeat(this.convention.indentSize));
-    }
-    
-    // 줄 끝 공백 제거
-    if (this.convention.trimTrailingWhitespace) {
-      code = code.replace(/[ \t]+$/gm, '');
-    }
-    
-    // 여러 연속된 공백을 하나로 정리
-    code = code.replace(/[ \t]+/g, ' ');
-    
-    // 여러 연속된 빈 줄을 하나로 정리
-    code = code.replace(/\n\s*\n\s*\n/g, '\n\n');
-    
-    return code;
-  }
-
-  /**
-   * SQL 키워드의 대소문자를 적용합니다.
+   * 문 조각 하나를 포매팅합니다.
+   * @throws 괄호 짝이 맞지 않으면 구조 파서의 'SQL N번째 줄: ...' 오류
    */
-  private applyKeywordCase(code: string): string {
-    for (const keyword of this.sqlKeywords) {
-      const regex = new RegExp(`\\b${keyword}\\b`, 'gi');
-      
-      code = code.replace(regex, () => {
-        switch (this.convention.keywordCase) {
-          case 'upper':
-            return keyword.toUpperCase();
-          case 'lower':
-            return keyword.toLowerCase();
-          case 'capitalize':
-            return keyword.split(' ').map(word => 
-              word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
-            ).join(' ');
-          default:
-            return keyword;
-        }
-      });
-    }
-    
-    return code;
+  private formatStatement(source: SqlSourceStatement, printer: SqlPrinter): string {
+    // 키워드/식별자 대소문자 적용 (문자열/주석/따옴표 식별자는 건드리지 않음)
+    let tokens = this.applyKeywordCase(source.tokens);
+    tokens = this.applyIdentifierCase(tokens);
+
+    // 문과 괄호 구조로 묶은 뒤 절 단위로 배치 (주석은 인접 노드에 붙여 함께 옮김)
+    const statements = SqlStructureParser.parse(tokens, this.tokenizer.rules.batchSeparator, source.delimiter ?? undefined);
+    return printer.print(statements);
   }
 
   /**
-   * 식별자(테이블명, 컬럼명)의 대소문자를 적용합니다.
+   * 포매팅한 코드를 다시 문으로 나눠 린트 경고를 추가하고, 경고를 해당 문의 결과에도 넣습니다.
+   * 포매팅하지 못해 원본 그대로 둔 문은 구조를 읽을 수 없으므로 검사하지 않습니다.
    */
-  private applyIdentifierCase(code: string): string {
-    if (this.convention.identifierCase === 'preserve') {
-      return code;
-    }
-
-    // 간단한 식별자 패턴 매칭 (실제로는 더 정교한 파싱이 필요)
-    const identifierPattern = /\b[a-zA-Z_][a-zA-Z0-9_]*\b/g;
-    
-    return code.replace(identifierPattern, (match) => {
-      // SQL 키워드는 제외
-      if (this.sqlKeywords.some(keyword => keyword.toLowerCase() === match.toLowerCase())) {
-        return match;
-      }
-      
-      switch (this.convention.identifierCase) {
-        case 'upper':
-          return match.toUpperCase();
-        case 'lower':
-          return match.toLowerCase();
-        default:
-          return match;
+  private lint(code: string, statements: SqlStatementResult[], diagnostics: DiagnosticCollector): void {
+    const { rules } = this.tokenizer;
+    for (const source of SqlStatementSplitter.split(code, this.tokenizer.tokenize(code), rules)) {
+      if (source.command) {
+        continue;
       }
-    });
-  }
 
-  /**
-   * SELECT 문을 포매팅합니다.
-   */
-  private formatSelectStatements(code: string): string {
-    if (this.convention.selectColumnsOnNewLine) {
-      // SELECT 다음에 컬럼들을 각각 새로운 줄에 배치
-      code = code.replace(/SELECT\s+(.*?)\s+FROM/gis, (match, columns) => {
-        const columnList = columns.split(',').map((col: string) => col.trim());
-        if (columnList.length > 1) {
-          const formattedColumns = columnList.join(',\n    ');
-          return `SELECT\n    ${formattedColumns}\nFROM`;
-        }
-        return match;
-      });
-    }
-    
-    return code;
-  }
-
-  /**
-   * INSERT 문을 포매팅합니다.
-   */
-  private formatInsertStatements(code: string): string {
-    if (this.convention.insertValuesOnNewLine) {
-      // INSERT VALUES 절을 새로운 줄에 배치
-      code = code.replace(/INSERT\s+INTO\s+(.*?)\s+VALUES\s*\(/gis, (_, table) => {
-        return `INSERT INTO ${table.trim()}\nVALUES (`;
-      });
-    }
-    
-    return code;
-  }
+      let parsed: SqlStatement[];
+      try {
+        parsed = SqlStructureParser.parse(source.tokens, rules.batchSeparator, source.delimiter ?? undefined);
+      } catch {
+        continue;
+      }
 
-  /**
-   * UPDATE/DELETE 문을 포매팅합니다.
-   */
-  private formatUpdateDeleteStatements(code: string): string {
-    // UPDATE SET 절 포매팅
-    code = code.replace(/UPDATE\s+(.*?)\s+SET\s+(.*?)\s+WHERE/gis, (_, table, setClause) => {
-      const assignments = setClause.split(',').map((assignment: string) => assignment.trim());
-      if (assignments.length > 1) {
-        const formattedAssignments = assignments.join(',\n    ');
-        return `UPDATE ${table.trim()}\nSET\n    ${formattedAssignments}\nWHERE`;
+      for (const issue of SqlLinter.lint(parsed, rules)) {
+        const range = DiagnosticCollector.rangeFromOffsets(code, issue.start, issue.end);
+        const before = diagnostics.diagnostics.length;
+        diagnostics.warning(issue.ruleId, issue.message, range, issue.fix);
+        statements
+          .find(statement => range.startLine >= statement.startLine && range.startLine <= statement.endLine)
+          ?.diagnostics.push(...diagnostics.diagnostics.slice(before));
       }
-      return `UPDATE ${table.trim()}\nSET ${setClause.trim()}\nWHERE`;
-    });
-    
-    return code;
+    }
   }
 
   /**
-   * JOIN 문을 포매팅합니다.
+   * 조각 앞에 빈 줄이 있었는지 확인합니다. (앞 조각을 끝낸 줄의 개행도 조각에 들어 있음)
    */
-  private formatJoinStatements(code: string): string {
-    if (this.convention.joinOnNewLine) {
-      // JOIN을 새로운 줄에 배치
-      const joinKeywords = ['JOIN', 'INNER JOIN', 'LEFT JOIN', 'RIGHT JOIN', 'FULL JOIN'];
-      
-      for (const joinKeyword of joinKeywords) {
-        const regex = new RegExp(`\\s+(${joinKeyword})\\s+`, 'gis');
-        code = code.replace(regex, `\n${joinKeyword} `);
+  private hasBlankLineBefore(source: SqlSourceStatement): boolean {
+    let newlines = 0;
+    for (const token of source.tokens) {
+      if (token.type === 'newline') {
+        newlines++;
+      } else if (token.type !== 'whitespace') {
+        break;
       }
     }
-    
-    return code;
+    return newlines >= 2;
   }
 
   /**
-   * WHERE 절을 포매팅합니다.
+   * 문 목록에 보여줄 첫 코드 줄을 반환합니다. 주석만 있는 조각이면 null을 반환합니다.
    */
-  private formatWhereClause(code: string): string {
-    if (this.convention.whereConditionsOnNewLine) {
-      // WHERE 조건들을 각각 새로운 줄에 배치
-      code = code.replace(/WHERE\s+(.*?)(?=\s+(?:GROUP BY|ORDER BY|HAVING|$))/gis, (match, conditions) => {
-        // AND/OR로 구분된 조건들을 분리
-        const conditionList = conditions.split(/\s+(AND|OR)\s+/i);
-        if (conditionList.length > 2) {
-          let formatted = 'WHERE ' + conditionList[0].trim();
-          for (let i = 1; i < conditionList.length; i += 2) {
-            const operator = conditionList[i];
-            const condition = conditionList[i + 1];
-            formatted += `\n  ${operator} ${condition.trim()}`;
-          }
-          return formatted;
-        }
-        return match;
-      });
+  private summarize(code: string, source: SqlSourceStatement): string | null {
+    const first = source.tokens.find(token => token.type !== 'whitespace' && token.type !== 'newline' && token.type !== 'comment');
+    if (!first) {
+      return null;
     }
-    
-    return code;
+    const lineEnd = code.indexOf('\n', first.start);
+    const text = code.slice(first.start, Math.min(lineEnd === -1 ? code.length : lineEnd, source.end)).trim();
+    return text.length > SqlFormatter.SUMMARY_LENGTH ? `${text.slice(0, SqlFormatter.SUMMARY_LENGTH)}…` : text;
   }
 
   /**
-   * 함수 호출을 포매팅합니다.
+   * SQL 키워드의 대소문자를 적용합니다.
    */
-  private formatFunctionCalls(code: string): string {
-    // 함수 인자가 많은 경우 줄바꿈
-    const functionPattern = /(\w+)\s*\(\s*([^)]+)\s*\)/g;
-    
-    return code.replace(functionPattern, (match, functionName, args) => {
-      const argList = args.split(',');
-      
-      if (argList.length > this.convention.functionArgWrapThreshold) {
-        const formattedArgs = argList.map((arg: string) => '    ' + arg.trim()).join(',\n');
-        return `${functionName}(\n${formattedArgs}\n)`;
+  private applyKeywordCase(tokens: Token[]): Token[] {
+    return tokens.map(token => {
+      if (token.type !== 'keyword') {
+        return token;
       }
-      
-      return match;
-    });
-  }
 
-  /**
-   * 서브쿼리를 포매팅합니다.
-   */
-  private formatSubqueries(code: string): string {
-    if (this.convention.indentSubqueries) {
-      // 서브쿼리 들여쓰기 (간단한 구현)
-      code = code.replace(/\(\s*SELECT/gi, '(\n    SELECT');
-      code = code.replace(/\)\s*([,\s])/g, '\n)$1');
-    }
-    
-    return code;
+      switch (this.convention.keywordCase) {
+        case 'upper':
+          return { ...token, value: token.value.toUpperCase() };
+        case 'lower':
+          return { ...token, value: token.value.toLowerCase() };
+        case 'capitalize':
+          return { ...token, value: token.value.charAt(0).toUpperCase() + token.value.slice(1).toLowerCase() };
+        default:
+          return token;
+      }
+    });
   }
 
   /**
-   * 쉼표 위치를 조정합니다.
+   * 식별자(테이블명, 컬럼명)의 대소문자를 적용합니다.
+   * 따옴표로 감싼 식별자는 대소문자가 의미를 가지므로 제외합니다.
    */
-  private adjustCommaPosition(code: string): string {
-    if (this.convention.commaPosition === 'leading') {
-      // 쉼표를 앞으로 이동
-      code = code.replace(/,\s*\n\s*/g, '\n, ');
-    } else {
-      // 쉼표를 뒤에 유지 (기본값)
-      code = code.replace(/\n\s*,\s*/g, ',\n');
+  private applyIdentifierCase(tokens: Token[]): Token[] {
+    if (this.convention.identifierCase === 'preserve') {
+      return tokens;
     }
-    
-    return code;
-  }
-
-  /**
-   * 들여쓰기를 적용합니다.
-   */
-  private applyIndentation(code: string): string {
-    const lines = code.split('\n');
-    const result: string[] = [];
-    let indentLevel = 0;
-    const indentString = this.convention.indentationType === 'tab' 
-      ? '\t' 
-      : ' '.repeat(this.convention.indentSize);
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      
-      if (trimmedLine === '') {
-        result.push('');
-        continue;
-      }
 
-      // 들여쓰기 레벨 조정
-      if (trimmedLine.startsWith(')') || trimmedLine.includes('END')) {
-        indentLevel = Math.max(0, indentLevel - 1);
+    return tokens.map(token => {
+      if (token.type !== 'identifier' || TokenUtils.isOpaque(token)) {
+        return token;
       }
 
-      // 들여쓰기 적용
-      result.push(indentString.repeat(indentLevel) + trimmedLine);
-
-      // 다음 줄을 위한 들여쓰기 레벨 조정
-      if (trimmedLine.endsWith('(') || 
-          trimmedLine.toUpperCase().includes('CASE') ||
-          trimmedLine.toUpperCase().includes('BEGIN')) {
-        indentLevel++;
+      switch (this.convention.identifierCase) {
+        case 'upper':
+          return { ...token, value: token.value.toUpperCase() };
+        case 'lower':
+          return { ...token, value: token.value.toLowerCase() };
+        default:
+          return token;
       }
-    }
-
-    return result.join('\n');
+    });
   }
 
   /**
@@ -363,73 +261,59 @@ export class SqlFormatter {
       code = code.replace(/\n+$/, '');
     }
 
-    // 줄 길이 체크
-    const lines = code.split('\n');
-    lines.forEach((line, index) => {
-      if (line.length > this.convention.maxLineLength) {
-        console.warn(`Line ${index + 1} exceeds maximum length of ${this.convention.maxLineLength} characters`);
-      }
-    });
-
     return code;
   }
 
-  /**
-   * 변경된 줄 수를 계산합니다.
-   */
-  private countChangedLines(originalLines: string[], formattedLines: string[]): number {
-    let changedCount = 0;
-    const maxLength = Math.max(originalLines.length, formattedLines.length);
-    
-    for (let i = 0; i < maxLength; i++) {
-      const originalLine = originalLines[i] || '';
-      const formattedLine = formattedLines[i] || '';
-      
-      if (originalLine !== formattedLine) {
-        changedCount++;
-      }
-    }
-    
-    return changedCount;
-  }
-
   /**
    * SQL 쿼리를 압축합니다 (한 줄로)
    */
   public minify(code: string): FormattingResult {
     const startTime = Date.now();
-    const warnings: string[] = [];
-    const errors: string[] = [];
+    const diagnostics = new DiagnosticCollector();
 
     try {
-      // 주석 제거
-      let minifiedCode = code.replace(/--.*$/gm, '');
-      minifiedCode = minifiedCode.replace(/\/\*[\s\S]*?\*\//g, '');
-      
-      // 여러 공백을 하나로 정리
-      minifiedCode = minifiedCode.replace(/\s+/g, ' ');
+      // 주석 제거 및 연속된 공백을 하나로 정리 (문자열 내부는 유지)
+      // 배치 구분자(GO)는 홀로 한 줄에 있어야 하므로 앞뒤 줄바꿈을 남김
+      const parts: string[] = [];
+      const { batchSeparator } = this.tokenizer.rules;
+      for (const token of this.tokenizer.tokenize(code)) {
+        if (token.type === 'keyword' && token.value.toUpperCase() === batchSeparator) {
+          while (parts[parts.length - 1] === ' ') {
+            parts.pop();
+          }
+          parts.push(parts.length > 0 ? '\n' : '', token.value, '\n');
+        } else if (token.type === 'comment' || token.type === 'whitespace' || token.type === 'newline') {
+          if (parts.length > 0 && parts[parts.length - 1] !== ' ' && parts[parts.length - 1] !== '\n') {
+            parts.push(' ');
+          }
+        } else {
+          parts.push(token.value);
+        }
+      }
       
       // 앞뒤 공백 제거
-      minifiedCode = minifiedCode.trim();
+      const minifiedCode = parts.join('').trim();
 
       const originalLines = code.split('\n');
       const formattedLines = [minifiedCode];
-      const changedLines = this.countChangedLines(originalLines, formattedLines);
+      const changedLines = DiffService.countChangedLines(originalLines, formattedLines);
 
       return {
         formattedCode: minifiedCode,
         changedLines,
-        warnings,
-        errors,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
         processingTime: Date.now() - startTime
       };
     } catch (error) {
-      errors.push(`SQL 압축 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
+      diagnostics.error('internal-error', `SQL 압축 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
       return {
         formattedCode: code,
         changedLines: 0,
-        warnings,
-        errors,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
         processingTime: Date.now() - startTime
       };
     }
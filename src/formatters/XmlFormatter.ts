@@ -0,0 +1,257 @@
+/**
+ * XML/HTML 포매터
+ * 요소 구조에 맞춰 들여쓰고, 긴 태그의 속성을 한 줄에 하나씩 줄바꿈하며, 스스로 닫는 태그 모양을 통일합니다.
+ * <pre>, <script>, <style>, <textarea>, xml:space="preserve" 요소와 주석, CDATA는 원문 그대로 두고,
+ * 텍스트가 섞인 내용은 공백이 의미를 가질 수 있으므로 줄바꿈을 바꾸지 않습니다.
+ */
+
+import {
+  XmlFormattingConvention,
+  HtmlFormattingConvention,
+  MarkupFormattingConvention,
+  FormattingResult
+} from '../types/FormattingTypes';
+import { XmlElement, XmlNode } from '../types/XmlTypes';
+import { XmlStructureParser } from '../utils/XmlStructureParser';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { DiffService } from '../services/DiffService';
+
+export class XmlFormatter {
+  private convention: MarkupFormattingConvention;
+  private html: boolean;
+  private indentUnit: string;
+
+  /**
+   * @param convention XML 또는 HTML 컨벤션
+   * @param language 적용할 문법 ('html'이면 빈 요소, 생략 가능한 닫는 태그 등 HTML 규칙을 따름)
+   */
+  constructor(convention: XmlFormattingConvention | HtmlFormattingConvention, language: 'xml' | 'html' = 'xml') {
+    this.convention = convention;
+    this.html = language === 'html';
+    this.indentUnit = convention.indentationType === 'tab' ? '\t' : ' '.repeat(convention.indentSize);
+  }
+
+  /**
+   * XML/HTML 코드를 지정된 컨벤션에 따라 포매팅합니다.
+   * @param code 포매팅할 코드
+   * @returns 포매팅 결과
+   */
+  public format(code: string): FormattingResult {
+    const startTime = Date.now();
+    const diagnostics = new DiagnosticCollector();
+
+    try {
+      const source = code.replace(/\r\n/g, '\n');
+      const nodes = XmlStructureParser.parse(source, this.html);
+      const out: string[] = [];
+      if (this.hasInlineContent(nodes, false)) {
+        out.push(this.inlineContent(source.trim(), nodes, '', ''));
+      } else {
+        this.printBlock(nodes, '', out);
+      }
+
+      const formattedCode = this.finalCleanup(out.join('\n'));
+      diagnostics.reportLongLines(formattedCode, this.convention.maxLineLength);
+
+      const originalLines = code.split('\n');
+      const formattedLines = formattedCode.split('\n');
+      const changedLines = DiffService.countChangedLines(originalLines, formattedLines);
+
+      return {
+        formattedCode,
+        changedLines,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
+        processingTime: Date.now() - startTime
+      };
+    } catch (error) {
+      diagnostics.parseError(code, error, `${this.html ? 'HTML' : 'XML'} 포매팅`);
+      return {
+        formattedCode: code,
+        changedLines: 0,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
+        processingTime: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * 요소와 주석만 있는 내용을 한 줄에 하나씩 출력합니다. 노드 사이의 빈 줄은 하나까지 유지합니다.
+   */
+  private printBlock(nodes: XmlNode[], indent: string, out: string[]): void {
+    let printed = false;
+    let pendingBlank = false;
+
+    for (const node of nodes) {
+      if (node.kind === 'text') {
+        pendingBlank = printed && /\n[^\S\n]*\n/.test(node.text);
+        continue;
+      }
+      if (pendingBlank) {
+        out.push('');
+        pendingBlank = false;
+      }
+      if (node.kind === 'element') {
+        this.printElement(node, indent, out);
+      } else {
+        out.push(indent + node.text);
+      }
+      printed = true;
+    }
+  }
+
+  private printElement(element: XmlElement, indent: string, out: string[]): void {
+    if (element.preserve) {
+      out.push(indent + element.source);
+      return;
+    }
+    if (element.selfClosing) {
+      out.push(...this.printOpenTag(element, indent, this.selfClosingEnd(element), ''));
+      return;
+    }
+
+    const closeTag = element.hasEndTag ? `</${element.name}>` : '';
+    const isEmpty = element.children.every(child => child.kind === 'text' && child.text.trim() === '');
+
+    if (isEmpty) {
+      if (!this.html && (this.convention as XmlFormattingConvention).collapseEmptyElements) {
+        out.push(...this.printOpenTag(element, indent, this.selfClosingEnd(element), ''));
+      } else {
+        out.push(...this.printOpenTag(element, indent, '>', closeTag));
+      }
+      return;
+    }
+
+    if (this.hasInlineContent(element.children, true) || (this.html && XmlStructureParser.isInlineElement(element.name))) {
+      const content = element.hasEndTag ? element.content : element.content.trimEnd();
+      const suffix = this.inlineContent(content, element.children, indent, indent + this.indentUnit) + closeTag;
+      out.push(...this.printOpenTag(element, indent, '>', suffix));
+      return;
+    }
+
+    out.push(...this.printOpenTag(element, indent, '>', ''));
+    this.printBlock(element.children, indent + this.indentUnit, out);
+    if (closeTag) {
+      out.push(indent + closeTag);
+    }
+  }
+
+  /**
+   * 여는 태그를 출력합니다. 속성 줄바꿈 조건에 맞으면 속성을 한 줄에 하나씩 씁니다.
+   * @param end 태그 끝 ('>', '/>', ' />')
+   * @param suffix 태그 뒤에 같은 줄로 이어지는 내용 (줄 길이 계산에 포함)
+   * @returns 출력할 줄 목록
+   */
+  private printOpenTag(element: XmlElement, indent: string, end: string, suffix: string): string[] {
+    const attributes = element.attributes.map(attribute =>
+      attribute.value === null ? attribute.name : `${attribute.name}=${attribute.value}`);
+    const singleLine = `${indent}<${element.name}${attributes.map(attribute => ` ${attribute}`).join('')}${end}${suffix}`;
+
+    if (!this.shouldWrapAttributes(attributes.length, singleLine.split('\n')[0])) {
+      return [singleLine];
+    }
+
+    const attributeIndent = indent + this.indentUnit;
+    const lines = this.convention.firstAttributeOnTagLine
+      ? [`${indent}<${element.name} ${attributes[0]}`, ...attributes.slice(1).map(attribute => attributeIndent + attribute)]
+      : [`${indent}<${element.name}`, ...attributes.map(attribute => attributeIndent + attribute)];
+
+    if (this.convention.bracketSameLine) {
+      lines[lines.length - 1] += end + suffix;
+    } else {
+      lines.push(indent + end.trimStart() + suffix);
+    }
+    return lines;
+  }
+
+  private shouldWrapAttributes(count: number, firstLine: string): boolean {
+    switch (this.convention.attributeWrapping) {
+      case 'always':
+        return count > 1;
+      case 'never':
+        return false;
+      case 'auto': {
+        const wrappable = count > (this.convention.firstAttributeOnTagLine ? 1 : 0);
+        const width = firstLine.replace(/\t/g, ' '.repeat(this.convention.indentSize)).length;
+        return wrappable && this.convention.maxLineLength > 0 && width > this.convention.maxLineLength;
+      }
+    }
+  }
+
+  /**
+   * 스스로 닫는 태그의 끝을 반환합니다. HTML 빈 요소는 closeVoidElements가 꺼져 있으면 '>'로 끝냅니다.
+   */
+  private selfClosingEnd(element: XmlElement): string {
+    if (this.html && XmlStructureParser.isVoidElement(element.name) &&
+        !(this.convention as HtmlFormattingConvention).closeVoidElements) {
+      return '>';
+    }
+    return this.convention.selfClosingSpace ? ' />' : '/>';
+  }
+
+  /**
+   * 텍스트가 섞인 내용을 출력합니다.
+   * XML은 공백이 값의 일부이므로 원문 그대로 두고, HTML은 줄 앞 공백만 새 들여쓰기에 맞춥니다.
+   * (HTML이라도 <pre> 같은 공백 보존 요소가 들어 있으면 원문 그대로 둠)
+   */
+  private inlineContent(content: string, children: XmlNode[], indent: string, childIndent: string): string {
+    if (!this.html || !content.includes('\n') || children.some(child => this.containsPreserved(child))) {
+      return content;
+    }
+
+    const lines = content.split('\n');
+    const last = lines.length - 1;
+    const isClosingLine = lines[last].trim() === '';
+    const body = lines.slice(1, isClosingLine ? last : undefined).filter(line => line.trim() !== '');
+    const baseIndent = Math.min(...body.map(line => line.length - line.trimStart().length));
+
+    return lines.map((line, index) => {
+      if (index === 0) return line.trimEnd();
+      if (index === last && isClosingLine) return indent;
+      return line.trim() === '' ? '' : childIndent + line.slice(baseIndent).trimEnd();
+    }).join('\n');
+  }
+
+  private containsPreserved(node: XmlNode): boolean {
+    return node.kind === 'element' && (node.preserve || node.children.some(child => this.containsPreserved(child)));
+  }
+
+  /**
+   * 줄바꿈을 바꾸면 안 되는 내용인지 확인합니다.
+   * 공백이 아닌 텍스트나 CDATA가 있거나, HTML에서 인라인 요소가 공백 없이 다른 노드나 부모 태그와 붙어 있으면 그렇습니다.
+   * @param inElement 요소의 내용인지 여부 (문서 최상위면 앞뒤에 붙는 부모 태그가 없음)
+   */
+  private hasInlineContent(nodes: XmlNode[], inElement: boolean): boolean {
+    if (nodes.some(node => node.kind === 'cdata' || (node.kind === 'text' && node.text.trim() !== ''))) {
+      return true;
+    }
+    if (!this.html) {
+      return false;
+    }
+
+    const touches = (neighbor: XmlNode | undefined) => neighbor ? neighbor.kind !== 'text' : inElement;
+    return nodes.some((node, index) => node.kind === 'element' && XmlStructureParser.isInlineElement(node.name) &&
+      (touches(nodes[index - 1]) || touches(nodes[index + 1])));
+  }
+
+  /**
+   * 최종 정리를 수행합니다.
+   */
+  private finalCleanup(code: string): string {
+    // 줄 끝 공백 제거
+    if (this.convention.trimTrailingWhitespace) {
+      code = code.replace(/[ \t]+$/gm, '');
+    }
+
+    // 파일 끝 개행 처리
+    code = code.replace(/\n+$/, '');
+    if (this.convention.insertFinalNewline && code !== '') {
+      code += '\n';
+    }
+
+    return code;
+  }
+}
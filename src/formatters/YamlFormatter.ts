@@ -0,0 +1,504 @@
+/**
+ * YAML 포매터
+ * 주석, 앵커/별칭, 태그, 블록 스칼라를 보존하면서 들여쓰기, 시퀀스 들여쓰기 스타일,
+ * 따옴표 스타일, 플로우 컬렉션 공백, 키 순서를 정리합니다. 여러 문서(---)로 된 스트림은 문서별로 포매팅합니다.
+ */
+
+import { YamlFormattingConvention, FormattingResult, QuoteStyle } from '../types/FormattingTypes';
+import {
+  YamlMapping,
+  YamlNode,
+  YamlSequence,
+  YamlStreamPart,
+  YamlTrivia,
+  YamlValue
+} from '../types/YamlTypes';
+import { YamlStructureParser } from '../utils/YamlStructureParser';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { DiffService } from '../services/DiffService';
+
+/**
+ * 출력 옵션 (컨벤션 포매팅, 압축, 정리가 각각 다른 값을 씀)
+ */
+interface YamlPrintOptions {
+  /** 들여쓰기 한 단계 */
+  indent: string;
+  indentSequences: boolean;
+  /** 따옴표 스타일 (null이면 원래 따옴표 유지) */
+  quoteStyle: QuoteStyle | null;
+  bracketSpacing: boolean;
+  sortKeys: boolean;
+  /** 주석과 빈 줄 유지 여부 */
+  keepTrivia: boolean;
+}
+
+export class YamlFormatter {
+  private convention: YamlFormattingConvention;
+
+  /** 시퀀스 항목 내용의 들여쓰기 ('- ' 다음 열) */
+  private static readonly ITEM_INDENT = '  ';
+
+  /** 블록 스칼라(|, >)를 여는 줄 (주석 안의 |, > 제외) */
+  private static readonly BLOCK_SCALAR_HEADER = /^[^#]*(?:^|\s)[|>](?:[1-9][+-]?|[+-][1-9]?)?(?:\s+#.*)?$/;
+
+  /** 압축: 주석과 빈 줄을 지우고 한 칸씩 들여씀 */
+  private static readonly MINIFY_OPTIONS: YamlPrintOptions = {
+    indent: ' ',
+    indentSequences: false,
+    quoteStyle: null,
+    bracketSpacing: false,
+    sortKeys: false,
+    keepTrivia: false
+  };
+
+  /** 정리: 두 칸 들여쓰기와 들여쓴 시퀀스, 주석과 따옴표는 유지 */
+  private static readonly PRETTIFY_OPTIONS: YamlPrintOptions = {
+    indent: '  ',
+    indentSequences: true,
+    quoteStyle: null,
+    bracketSpacing: true,
+    sortKeys: false,
+    keepTrivia: true
+  };
+
+  constructor(convention: YamlFormattingConvention) {
+    this.convention = convention;
+  }
+
+  /**
+   * YAML 코드를 지정된 컨벤션에 따라 포매팅합니다.
+   * @param code 포매팅할 YAML 코드
+   * @returns 포매팅 결과
+   */
+  public format(code: string): FormattingResult {
+    return this.transform(code, 'YAML 포매팅', diagnostics => {
+      if (this.convention.indentationType === 'tab') {
+        diagnostics.warning('yaml-tab-indent', 'YAML은 들여쓰기에 탭을 쓸 수 없어 스페이스로 들여씁니다.');
+      }
+      return this.finalCleanup(this.printStream(code, {
+        indent: ' '.repeat(this.convention.indentSize),
+        indentSequences: this.convention.indentSequences,
+        quoteStyle: this.convention.quoteStyle,
+        bracketSpacing: this.convention.bracketSpacing,
+        sortKeys: this.convention.sortKeys,
+        keepTrivia: true
+      }, diagnostics));
+    }, true);
+  }
+
+  /**
+   * YAML 압축 기능 (주석과 빈 줄 제거, 한 칸 들여쓰기)
+   */
+  public minify(code: string): FormattingResult {
+    return this.transform(code, 'YAML 압축', diagnostics =>
+      this.printStream(code, YamlFormatter.MINIFY_OPTIONS, diagnostics), false);
+  }
+
+  /**
+   * YAML 정리 기능 (기본 2 스페이스 들여쓰기)
+   */
+  public prettify(code: string): FormattingResult {
+    return this.transform(code, 'YAML 정리', diagnostics =>
+      this.printStream(code, YamlFormatter.PRETTIFY_OPTIONS, diagnostics), false);
+  }
+
+  /**
+   * 변환을 실행하고 결과를 만듭니다. 파싱에 실패하면 원본 코드와 오류를 반환합니다.
+   */
+  private transform(
+    code: string,
+    label: string,
+    print: (diagnostics: DiagnosticCollector) => string,
+    reportLongLines: boolean
+  ): FormattingResult {
+    const startTime = Date.now();
+    const diagnostics = new DiagnosticCollector();
+
+    try {
+      const formattedCode = print(diagnostics);
+      if (reportLongLines) {
+        diagnostics.reportLongLines(formattedCode, this.convention.maxLineLength);
+      }
+
+      const originalLines = code.split('\n');
+      const formattedLines = formattedCode.split('\n');
+      const changedLines = DiffService.countChangedLines(originalLines, formattedLines);
+
+      return {
+        formattedCode,
+        changedLines,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
+        processingTime: Date.now() - startTime
+      };
+    } catch (error) {
+      diagnostics.parseError(code, error, label);
+      return {
+        formattedCode: code,
+        changedLines: 0,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
+        processingTime: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * 스트림을 파싱해 문서별로 출력합니다.
+   */
+  private printStream(code: string, options: YamlPrintOptions, diagnostics: DiagnosticCollector): string {
+    const parts = YamlStructureParser.parse(code.replace(/\r\n/g, '\n'));
+    const out: string[] = [];
+
+    for (const part of parts) {
+      switch (part.kind) {
+        case 'directive':
+        case 'marker':
+          out.push(part.text);
+          break;
+        case 'verbatim':
+          diagnostics.warning('yaml-document-preserved', "'---'와 같은 줄에 값이 있는 문서는 포매팅하지 않고 그대로 두었습니다.");
+          out.push(...part.lines);
+          break;
+        case 'document':
+          out.push(...this.printDocument(part, options, diagnostics));
+          break;
+      }
+    }
+
+    return out.join('\n');
+  }
+
+  /**
+   * 문서를 출력합니다. 키 정렬로 별칭이 앵커보다 앞서게 되면 정렬하지 않고 경고를 남깁니다.
+   */
+  private printDocument(
+    document: Extract<YamlStreamPart, { kind: 'document' }>,
+    options: YamlPrintOptions,
+    diagnostics: DiagnosticCollector
+  ): string[] {
+    const print = (printOptions: YamlPrintOptions) => {
+      const out: string[] = [];
+      this.printTrivia(document.leading, '', out, true, printOptions);
+      if (document.root) {
+        this.printRoot(document.root, out, printOptions);
+      }
+      this.printTrivia(document.trailing, '', out, out.length === 0, printOptions);
+      return out;
+    };
+
+    const unsorted = print({ ...options, sortKeys: false });
+    if (!options.sortKeys) {
+      return unsorted;
+    }
+
+    const sorted = print(options);
+    if (this.hasForwardAlias(sorted) && !this.hasForwardAlias(unsorted)) {
+      diagnostics.warning('yaml-sort-keys-skipped', '키를 정렬하면 별칭(*)이 앵커(&)보다 앞에 오게 되어 정렬하지 않았습니다.');
+      return unsorted;
+    }
+    return sorted;
+  }
+
+  private printRoot(root: YamlNode, out: string[], options: YamlPrintOptions): void {
+    switch (root.kind) {
+      case 'mapping':
+        this.printMapping(root, '', out, options);
+        break;
+      case 'sequence':
+        this.printSequence(root, '', out, options);
+        break;
+      case 'scalar':
+        out.push(this.formatScalar(root.lines[0], root.lines.length, options), ...root.lines.slice(1));
+        break;
+      case 'block': {
+        const contentIndent = root.explicitOffset !== null ? ' '.repeat(root.explicitOffset) : options.indent;
+        out.push(root.header, ...root.lines.map(line => line === '' ? '' : contentIndent + line));
+        break;
+      }
+    }
+  }
+
+  private printMapping(mapping: YamlMapping, indent: string, out: string[], options: YamlPrintOptions): void {
+    const entries = options.sortKeys
+      ? [...mapping.entries].sort((a, b) => this.compareKeys(this.keyName(a.key), this.keyName(b.key)))
+      : mapping.entries;
+
+    entries.forEach((entry, index) => {
+      this.printTrivia(entry.leading, indent, out, index === 0, options);
+      this.printValue(
+        `${indent}${this.formatKey(entry.key, options)}:`,
+        entry.value,
+        indent,
+        indent + options.indent,
+        options.indentSequences ? indent + options.indent : indent,
+        out,
+        options
+      );
+    });
+    this.printTrivia(mapping.trailing, indent, out, false, options);
+  }
+
+  private printSequence(sequence: YamlSequence, indent: string, out: string[], options: YamlPrintOptions): void {
+    const childIndent = indent + YamlFormatter.ITEM_INDENT;
+
+    sequence.items.forEach((item, index) => {
+      this.printTrivia(item.leading, indent, out, index === 0, options);
+      const { node } = item.value;
+
+      // 대시 뒤에 블록을 바로 이어 씀 (- key: value, - - item)
+      if (node && (node.kind === 'mapping' || node.kind === 'sequence') && !item.value.props &&
+          !(options.keepTrivia && item.value.comment)) {
+        const lines: string[] = [];
+        this.printBlock(node, childIndent, lines, options);
+        if (lines.length > 0 && lines[0].startsWith(childIndent) && !lines[0].trimStart().startsWith('#')) {
+          out.push(`${indent}- ${lines[0].slice(childIndent.length)}`, ...lines.slice(1));
+          return;
+        }
+      }
+      this.printValue(`${indent}-`, item.value, indent, childIndent, childIndent, out, options);
+    });
+    this.printTrivia(sequence.trailing, indent, out, false, options);
+  }
+
+  private printBlock(node: YamlMapping | YamlSequence, indent: string, out: string[], options: YamlPrintOptions): void {
+    if (node.kind === 'mapping') {
+      this.printMapping(node, indent, out, options);
+    } else {
+      this.printSequence(node, indent, out, options);
+    }
+  }
+
+  /**
+   * 키나 대시 뒤의 값을 출력합니다.
+   * @param head 'key:' 또는 '-'까지의 줄 머리
+   * @param indent 키/대시의 들여쓰기
+   * @param childIndent 다음 줄로 이어지는 값의 들여쓰기
+   * @param sequenceIndent 값이 시퀀스일 때의 들여쓰기
+   */
+  private printValue(
+    head: string,
+    value: YamlValue,
+    indent: string,
+    childIndent: string,
+    sequenceIndent: string,
+    out: string[],
+    options: YamlPrintOptions
+  ): void {
+    const { node } = value;
+    const comment = options.keepTrivia && value.comment ? ` ${value.comment}` : '';
+    const prefix = value.props ? `${head} ${value.props}` : head;
+
+    if (!node) {
+      out.push(prefix + comment);
+      return;
+    }
+
+    switch (node.kind) {
+      case 'scalar':
+        out.push(`${prefix} ${this.formatScalar(node.lines[0], node.lines.length, options)}${comment}`,
+          ...node.lines.slice(1).map(line => line === '' ? '' : childIndent + line));
+        break;
+      case 'block': {
+        const contentIndent = node.explicitOffset !== null ? indent + ' '.repeat(node.explicitOffset) : childIndent;
+        out.push(`${prefix} ${node.header}${comment}`,
+          ...node.lines.map(line => line === '' ? '' : contentIndent + line));
+        break;
+      }
+      case 'mapping':
+        out.push(prefix + comment);
+        this.printMapping(node, childIndent, out, options);
+        break;
+      case 'sequence':
+        out.push(prefix + comment);
+        this.printSequence(node, sequenceIndent, out, options);
+        break;
+    }
+  }
+
+  /**
+   * 주석/빈 줄을 출력합니다. 연속된 빈 줄은 하나로 줄이고, 블록 처음의 빈 줄은 지웁니다.
+   */
+  private printTrivia(trivia: YamlTrivia, indent: string, out: string[], isFirst: boolean, options: YamlPrintOptions): void {
+    if (!options.keepTrivia) {
+      return;
+    }
+
+    let previousBlank = isFirst;
+    for (const text of trivia) {
+      if (text === '') {
+        if (!previousBlank) out.push('');
+        previousBlank = true;
+      } else {
+        out.push(indent + text);
+        previousBlank = false;
+      }
+    }
+  }
+
+  /**
+   * 키의 따옴표 스타일을 바꿉니다. (앵커/태그는 유지)
+   */
+  private formatKey(key: string, options: YamlPrintOptions): string {
+    const { props, rest } = YamlStructureParser.splitProps(key);
+    const formatted = this.formatScalar(rest, 1, options);
+    return props ? `${props} ${formatted}` : formatted;
+  }
+
+  /**
+   * 한 줄짜리 스칼라의 따옴표 스타일과 플로우 컬렉션 공백을 정리합니다. 여러 줄 값은 그대로 둡니다.
+   */
+  private formatScalar(text: string, lineCount: number, options: YamlPrintOptions): string {
+    if (lineCount > 1) {
+      return text;
+    }
+    if (/^["']/.test(text) && YamlStructureParser.closingIndex(text) === text.length) {
+      return this.convertQuotes(text, options.quoteStyle);
+    }
+    if (/^[[{]/.test(text) && YamlStructureParser.closingIndex(text) === text.length) {
+      return this.formatFlow(text, options) ?? text;
+    }
+    return text;
+  }
+
+  /**
+   * 따옴표로 감싼 스칼라를 원하는 따옴표로 바꿉니다.
+   * 값에 이스케이프가 필요해지면(작은따옴표 안의 " 또는 \, 큰따옴표 안의 이스케이프나 ') 원래대로 둡니다.
+   */
+  private convertQuotes(quoted: string, quoteStyle: QuoteStyle | null): string {
+    const target = quoteStyle === 'single' ? '\'' : '"';
+    if (quoteStyle === null || quoted[0] === target) {
+      return quoted;
+    }
+
+    const body = quoted.slice(1, -1);
+    if (target === '"') {
+      const value = body.replace(/''/g, '\'');
+      return /["\\]/.test(value) ? quoted : `"${value}"`;
+    }
+    return /[\\']/.test(body) ? quoted : `'${body}'`;
+  }
+
+  /**
+   * 한 줄짜리 플로우 컬렉션의 구분자 공백을 정리합니다. ('[a, b]', '{ a: 1 }')
+   * @returns 정리된 텍스트 (읽을 수 없으면 null)
+   */
+  private formatFlow(text: string, options: YamlPrintOptions): string | null {
+    let out = '';
+    let index = 0;
+    const skipSpaces = () => {
+      while (index < text.length && /\s/.test(text[index])) index++;
+    };
+    const isCloser = (char: string | undefined) => char === ']' || char === '}';
+
+    while (index < text.length) {
+      const char = text[index];
+      const previous = out.trimEnd().slice(-1);
+
+      if ((char === '"' || char === '\'') && (previous === '' || '[{,:'.includes(previous))) {
+        const length = YamlStructureParser.closingIndex(text.slice(index));
+        if (length < 0) {
+          return null;
+        }
+        out += this.convertQuotes(text.slice(index, index + length), options.quoteStyle);
+        index += length;
+      } else if (char === '[' || char === '{') {
+        out += char;
+        index++;
+        skipSpaces();
+        if (char === '{' && options.bracketSpacing && text[index] !== '}') out += ' ';
+      } else if (isCloser(char)) {
+        out = out.trimEnd();
+        if (char === '}' && options.bracketSpacing && !out.endsWith('{')) out += ' ';
+        out += char;
+        index++;
+      } else if (char === ',') {
+        out = out.trimEnd() + ',';
+        index++;
+        skipSpaces();
+        if (!isCloser(text[index])) out += ' ';
+      } else if (char === ':' && /\s/.test(text[index + 1] ?? '')) {
+        out += ': ';
+        index++;
+        skipSpaces();
+      } else if (/\s/.test(char)) {
+        const start = index;
+        skipSpaces();
+        if (!isCloser(text[index]) && text[index] !== ',') out += text.slice(start, index);
+      } else {
+        out += char;
+        index++;
+      }
+    }
+    return out;
+  }
+
+  /**
+   * 정렬에 쓰는 키 이름 (앵커/태그와 따옴표 제외)
+   */
+  private keyName(key: string): string {
+    const { rest } = YamlStructureParser.splitProps(key);
+    if (rest.startsWith('\'') && rest.endsWith('\'')) {
+      return rest.slice(1, -1).replace(/''/g, '\'');
+    }
+    if (rest.startsWith('"') && rest.endsWith('"')) {
+      try {
+        return JSON.parse(rest);
+      } catch {
+        return rest.slice(1, -1);
+      }
+    }
+    return rest;
+  }
+
+  private compareKeys(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  /**
+   * 정의되기 전에 쓰인 별칭이 있는지 확인합니다.
+   */
+  private hasForwardAlias(lines: string[]): boolean {
+    const defined = new Set<string>();
+    const used = new Set<string>();
+    for (const line of lines) {
+      for (const match of line.matchAll(/(?:^|[\s[{,])([&*])([^\s[\]{},]+)/g)) {
+        if (match[1] === '&') {
+          defined.add(match[2]);
+        } else if (!defined.has(match[2])) {
+          used.add(match[2]);
+        }
+      }
+    }
+    return [...used].some(name => defined.has(name));
+  }
+
+  /**
+   * 최종 정리를 수행합니다.
+   */
+  private finalCleanup(code: string): string {
+    // 줄 끝 공백 제거 (블록 스칼라 내용의 줄 끝 공백은 값의 일부이므로 유지)
+    if (this.convention.trimTrailingWhitespace) {
+      let blockIndent: number | null = null;
+      code = code.split('\n').map(line => {
+        const indent = line.length - line.trimStart().length;
+        if (blockIndent !== null && (line.trim() === '' || indent > blockIndent)) {
+          return line;
+        }
+        const trimmed = line.replace(/[ \t]+$/, '');
+        blockIndent = YamlFormatter.BLOCK_SCALAR_HEADER.test(trimmed) ? indent : null;
+        return trimmed;
+      }).join('\n');
+    }
+
+    // 파일 끝 개행 처리
+    code = code.replace(/\n+$/, '');
+    if (this.convention.insertFinalNewline && code !== '') {
+      code += '\n';
+    }
+
+    return code;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * 기본 제공 언어 플러그인 목록 (언어 선택 화면의 표시 순서)
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { JavaPlugin } from './JavaPlugin';
+import { JsonPlugin } from './JsonPlugin';
+import { YamlPlugin } from './YamlPlugin';
+import { XmlPlugin } from './XmlPlugin';
+import { HtmlPlugin } from './HtmlPlugin';
+import { CssPlugin } from './CssPlugin';
+import { PythonPlugin } from './PythonPlugin';
+import { JavaScriptPlugin } from './JavaScriptPlugin';
+import { KotlinPlugin } from './KotlinPlugin';
+import { GoPlugin } from './GoPlugin';
+import { RustPlugin } from './RustPlugin';
+import { CSharpPlugin } from './CSharpPlugin';
+import { SqlPlugin } from './SqlPlugin';
+
+export const BUILT_IN_PLUGINS: LanguagePlugin[] = [
+  JavaPlugin,
+  JsonPlugin,
+  YamlPlugin,
+  XmlPlugin,
+  HtmlPlugin,
+  CssPlugin,
+  PythonPlugin,
+  JavaScriptPlugin,
+  KotlinPlugin,
+  GoPlugin,
+  RustPlugin,
+  CSharpPlugin,
+  SqlPlugin
+];
@@ -0,0 +1,68 @@
+/**
+ * C# 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { CSharpFormatter } from '../formatters/CSharpFormatter';
+import { CSharpTokenizer } from '../tokenizers/CSharpTokenizer';
+import { CSHARP_PRESETS } from '../constants/PresetConventions';
+import { CSHARP_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+export const CSharpPlugin: LanguagePlugin<'csharp'> = {
+  id: 'csharp',
+  displayName: 'C#',
+  extensions: ['cs'],
+  conventionSchema: CSHARP_CONVENTION_SCHEMA,
+  presets: CSHARP_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'intellij'],
+  icon: '#️⃣',
+  color: 'geekblue',
+  semanticCheck: 'tokens',
+  detection: {
+    cues: [
+      { pattern: /^\s*(global\s+)?using\s+(static\s+)?[\w.]+\s*;/gm, weight: 5 },
+      { pattern: /^\s*namespace\s+[\w.]+\s*[;{]?\s*$/gm, weight: 5 },
+      { pattern: /\{\s*get\s*;\s*(private\s+|init\s*;|set\s*;)?/g, weight: 5 },
+      { pattern: /\bConsole\.(Write|WriteLine|ReadLine)\(/g, weight: 5 },
+      { pattern: /\bforeach\s*\(\s*(var|[\w<>]+)\s+\w+\s+in\b/g, weight: 4 },
+      { pattern: /\b(async\s+Task|override\s+string|string\?|readonly\s+struct)\b|\bvar\s+\w+\s*=\s*new\b/g, weight: 3 },
+      { pattern: /^\s*\[\w+(\(.*\))?\]\s*$/gm, weight: 2 }
+    ]
+  },
+  createFormatter: convention => new CSharpFormatter(convention),
+  createTokenizer: () => new CSharpTokenizer(),
+  exampleCode: `using Microsoft.Extensions.Logging;
+using System.Collections.Generic;
+using System;
+
+namespace Example.Users
+{
+public record User(int Id,string Name,string Email);
+public class UserService{
+private readonly Dictionary<int,User> _users=new();
+private readonly ILogger<UserService> _logger;
+
+public UserService(ILogger<UserService> logger){
+_logger=logger;
+}
+public User AddUser(string name,string email){
+if(!email.Contains('@')){
+throw new ArgumentException($"Invalid email: {email}",nameof(email));
+}
+var user=new User(_users.Count+1,name,email);
+_users[user.Id]=user;
+_logger.LogInformation("Added {Name}",user.Name);
+return user;
+}
+
+public string Describe(int id){
+switch(_users.TryGetValue(id,out var user)){
+case true:
+return $"{user.Name} <{user.Email}>";
+default:
+return "unknown";
+}
+}
+}
+}`
+};
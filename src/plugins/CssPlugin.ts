@@ -0,0 +1,48 @@
+/**
+ * CSS/SCSS/Less 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { CssFormatter } from '../formatters/CssFormatter';
+import { CSS_PRESETS } from '../constants/PresetConventions';
+import { CSS_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+export const CssPlugin: LanguagePlugin<'css'> = {
+  id: 'css',
+  displayName: 'CSS/SCSS/Less',
+  extensions: ['css', 'scss', 'less'],
+  conventionSchema: CSS_CONVENTION_SCHEMA,
+  presets: CSS_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'intellij', 'prettier', 'stylelint'],
+  icon: '🎨',
+  color: 'magenta',
+  semanticCheck: 'css',
+  detection: {
+    cues: [
+      { pattern: /^[ \t]*[.#&:][\w-][^{};\n]*\{/gm, weight: 3 },
+      { pattern: /@(media|import|mixin|include|extend|keyframes|font-face|use|forward|supports)\b/g, weight: 3 },
+      { pattern: /\b(color|background(-color)?|margin|padding|font-(size|weight|family)|display|border(-radius)?|z-index)\s*:\s*[^;{}\n]+;/g, weight: 2 },
+      { pattern: /\b\d*\.?\d+(px|rem|em|vh|vw)\b/g, weight: 2 },
+      { pattern: /^[ \t]*[$@][\w-]+\s*:/gm, weight: 2 },
+      { pattern: /!important\b/g, weight: 2 },
+      { pattern: /#[0-9a-fA-F]{3,6}\b/g, weight: 1 }
+    ]
+  },
+  createFormatter: convention => new CssFormatter(convention),
+  exampleCode: `@use "sass:math";
+$primary:#3B82F6;
+$gutter : 16px;
+
+// 카드 컴포넌트
+.card,.card--featured{padding:$gutter;border:0px solid #E5E7EB;display:flex;background:url("images/card-bg.png") no-repeat;color:#1F2937;margin:0 auto}
+.card>.card__title{font-weight:700;font-family:"Helvetica Neue",Arial,sans-serif;
+  &:hover{color:darken($primary,10%)}
+}
+@media (min-width:768px){
+  .card{width:calc(50% - 0px);box-shadow:0 1px 2px rgba(0,0,0,.1) !important}
+}
+@mixin truncate($lines:1){
+  @if $lines==1{white-space:nowrap;text-overflow:ellipsis}
+  @else{-webkit-line-clamp:$lines;display:-webkit-box}
+}`
+};
@@ -0,0 +1,72 @@
+/**
+ * Go 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { GoFormatter } from '../formatters/GoFormatter';
+import { GoTokenizer } from '../tokenizers/GoTokenizer';
+import { GO_PRESETS } from '../constants/PresetConventions';
+import { GO_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+export const GoPlugin: LanguagePlugin<'go'> = {
+  id: 'go',
+  displayName: 'Go',
+  extensions: ['go'],
+  conventionSchema: GO_CONVENTION_SCHEMA,
+  presets: GO_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'intellij'],
+  icon: '🐹',
+  color: 'lime',
+  semanticCheck: 'go',
+  detection: {
+    cues: [
+      { pattern: /^\s*package\s+\w+\s*$/gm, weight: 3 },
+      { pattern: /\bfunc\s+(\(\s*\w+\s+\*?\w+\s*\)\s*)?\w+\s*\(/g, weight: 4 },
+      { pattern: /^\s*import\s+\(\s*$|^\s*import\s+"[\w./-]+"/gm, weight: 4 },
+      { pattern: /\w\s*:=\s*/g, weight: 3 },
+      { pattern: /\btype\s+\w+\s+(struct|interface)\s*\{/g, weight: 4 },
+      { pattern: /\b(fmt|errors|strings)\.\w+\(|\berr\s*!=\s*nil\b/g, weight: 3 },
+      { pattern: /\b(go|defer)\s+\w|\bchan\s+\w|<-\s*\w/g, weight: 2 }
+    ]
+  },
+  createFormatter: convention => new GoFormatter(convention),
+  createTokenizer: () => new GoTokenizer(),
+  exampleCode: `package main
+
+import (
+	"strings"
+	"github.com/google/uuid"
+	"fmt"
+	"errors"
+)
+
+type User struct {
+	ID    string
+	Name  string
+	Email string
+}
+type UserService struct {
+	users map[string]*User
+}
+
+func NewUserService() *UserService {
+	return &UserService{users: map[string]*User{}}
+}
+func (s *UserService) AddUser(name, email string) (*User, error) {
+if !strings.Contains(email,"@") {
+return nil, errors.New("invalid email")
+}
+user:=&User{ID: uuid.NewString(),Name: name,Email: email}
+s.users[user.ID]=user
+return user, nil
+}
+
+func (s *UserService) Describe(id string) string {
+switch user, ok := s.users[id]; {
+case !ok:
+return "unknown"
+default:
+return fmt.Sprintf("%s <%s>", user.Name, user.Email)
+}
+}`
+};
@@ -0,0 +1,49 @@
+/**
+ * HTML 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { XmlFormatter } from '../formatters/XmlFormatter';
+import { HTML_PRESETS } from '../constants/PresetConventions';
+import { HTML_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+export const HtmlPlugin: LanguagePlugin<'html'> = {
+  id: 'html',
+  displayName: 'HTML',
+  extensions: ['html', 'htm'],
+  conventionSchema: HTML_CONVENTION_SCHEMA,
+  presets: HTML_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'intellij', 'prettier'],
+  icon: '🌐',
+  color: 'red',
+  semanticCheck: 'markup',
+  detection: {
+    cues: [
+      { pattern: /<!doctype\s+html/gi, weight: 8 },
+      { pattern: /<(html|head|body|div|span|p|a|ul|ol|li|table|tr|td|h[1-6]|nav|section|header|footer|form|button|img|br|meta|link)[\s>/]/gi, weight: 2 },
+      { pattern: /\s(class|id|href|src|style|alt)=/g, weight: 2 },
+      { pattern: /&(nbsp|amp|lt|gt|quot|copy);/g, weight: 1 },
+      { pattern: /<\/[\w.:-]+>/g, weight: 1 }
+    ]
+  },
+  createFormatter: convention => new XmlFormatter(convention, 'html'),
+  exampleCode: `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<title>예시 페이지</title>
+<link rel="stylesheet" href="style.css"/>
+</head>
+<body>
+<nav class="navbar navbar-expand-lg navbar-light bg-light" id="main-navigation" data-toggle="collapse" aria-label="메인 메뉴">
+<ul><li><a href="/">홈</a><li><a href="/about">소개</a></ul>
+</nav>
+<p>안녕하세요, <strong>HTML</strong> 포매터입니다.<br/>
+        텍스트 줄바꿈은 그대로 둡니다.</p>
+<pre>
+  공백이   그대로
+    유지됩니다
+</pre>
+</body>
+</html>`
+};
@@ -0,0 +1,50 @@
+/**
+ * Java 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { JavaFormatter } from '../formatters/JavaFormatter';
+import { JavaTokenizer } from '../tokenizers/JavaTokenizer';
+import { JAVA_PRESETS } from '../constants/PresetConventions';
+import { JAVA_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+export const JavaPlugin: LanguagePlugin<'java'> = {
+  id: 'java',
+  displayName: 'Java',
+  extensions: ['java'],
+  conventionSchema: JAVA_CONVENTION_SCHEMA,
+  presets: JAVA_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'intellij', 'eclipse'],
+  icon: '☕',
+  color: 'orange',
+  semanticCheck: 'tokens',
+  detection: {
+    cues: [
+      { pattern: /\b(public|private|protected)\s+(abstract\s+|static\s+|final\s+)*(class|interface|enum|record)\b/g, weight: 2 },
+      { pattern: /\b(public|private|protected)\s+(static\s+|final\s+|synchronized\s+)*(?!fun\b|static\b|async\b|class\b)[\w<>[\],]+\s+\w+\s*\(/g, weight: 3 },
+      { pattern: /\bSystem\.(out|err)\.print/g, weight: 4 },
+      { pattern: /\bimport\s+(static\s+)?[\w.]+(\.\*)?\s*;/g, weight: 3 },
+      { pattern: /\bpackage\s+[\w.]+\s*;/g, weight: 3 },
+      { pattern: /@Override\b|\bthrows\s+\w+/g, weight: 3 },
+      { pattern: /\b(String|int|long|double|float|boolean|char|void)(\[\])?\s+\w+\s*[=;,)]/g, weight: 2 }
+    ]
+  },
+  createFormatter: convention => new JavaFormatter(convention),
+  createTokenizer: () => new JavaTokenizer(),
+  exampleCode: `public class HelloWorld {
+    private static final String MESSAGE = "Hello, World!";
+    
+    public static void main(String[] args) {
+        System.out.println(MESSAGE);
+        for(int i = 0; i < 5; i++) {
+            System.out.println("Count: " + i);
+        }
+    }
+    
+    private void exampleMethod(){
+        if(true){
+            doSomething();
+        }
+    }
+}`
+};
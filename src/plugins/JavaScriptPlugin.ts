@@ -0,0 +1,62 @@
+/**
+ * JavaScript/TypeScript 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { JavaScriptModuleLoader } from '../utils/JavaScriptModuleLoader';
+import { JavaScriptTokenizer } from '../tokenizers/JavaScriptTokenizer';
+import { JAVASCRIPT_PRESETS } from '../constants/PresetConventions';
+import { JAVASCRIPT_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+export const JavaScriptPlugin: LanguagePlugin<'javascript'> = {
+  id: 'javascript',
+  displayName: 'JavaScript/TypeScript',
+  extensions: ['js', 'jsx', 'ts', 'tsx', 'mjs'],
+  conventionSchema: JAVASCRIPT_CONVENTION_SCHEMA,
+  presets: JAVASCRIPT_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'intellij', 'prettier', 'eslint'],
+  icon: '🟨',
+  color: 'gold',
+  semanticCheck: 'javascript',
+  detection: {
+    cues: [
+      { pattern: /\b(const|let)\s+[\w{[]/g, weight: 2 },
+      { pattern: /\bfunction\b\s*\*?\s*\w*\s*\(/g, weight: 3 },
+      { pattern: /=>/g, weight: 2 },
+      { pattern: /\bconsole\.\w+\(/g, weight: 4 },
+      { pattern: /\brequire\(|\bmodule\.exports\b|\bexport\s+(default|const|function|class|interface|type)\b/g, weight: 3 },
+      { pattern: /\bimport\s+[^;\n]*\bfrom\s+["']/g, weight: 3 },
+      { pattern: /===|!==/g, weight: 2 },
+      { pattern: /\b(document|window)\.\w+/g, weight: 2 },
+      { pattern: /:\s*(string|number|boolean|any|unknown|void)\b/g, weight: 2 },
+      { pattern: /\bundefined\b|\btypeof\s+\w+/g, weight: 2 }
+    ]
+  },
+  load: async () => {
+    await JavaScriptModuleLoader.load();
+  },
+  createFormatter: convention => {
+    const { JavaScriptFormatter } = JavaScriptModuleLoader.require();
+    return new JavaScriptFormatter(convention);
+  },
+  createTokenizer: () => new JavaScriptTokenizer(),
+  exampleCode: `const express = require('express');
+const app = express();
+
+function calculateSum(a,b){
+return a+b;
+}
+
+app.get('/api/users',(req,res)=>{
+const users=[
+{id:1,name:'John'},
+{id:2,name:'Jane'}
+];
+res.json(users);
+});
+
+const PORT=process.env.PORT||3000;
+app.listen(PORT,()=>{
+console.log(\`Server running on port \${PORT}\`);
+});`
+};
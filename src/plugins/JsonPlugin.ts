@@ -0,0 +1,65 @@
+/**
+ * JSON 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { JsonFormatter } from '../formatters/JsonFormatter';
+import { JSON_PRESETS } from '../constants/PresetConventions';
+import { JSON_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+/** 유효한 JSON 문서(객체/배열)의 감지 점수 */
+const VALID_JSON_SCORE = 30;
+
+/**
+ * 객체나 배열로 된 유효한 JSON 문서인지 확인합니다.
+ */
+const isJsonDocument = (code: string): boolean => {
+  const trimmed = code.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return false;
+  }
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const JsonPlugin: LanguagePlugin<'json'> = {
+  id: 'json',
+  displayName: 'JSON',
+  extensions: ['json', 'jsonc'],
+  conventionSchema: JSON_CONVENTION_SCHEMA,
+  presets: JSON_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'prettier'],
+  icon: '📄',
+  color: 'blue',
+  semanticCheck: 'json',
+  detection: {
+    cues: [
+      { pattern: /"[^"\n]*"\s*:\s*["{[\d\-tfn]/g, weight: 1 }
+    ],
+    matchRawCode: true,
+    scoreDocument: code => (isJsonDocument(code) ? VALID_JSON_SCORE : 0)
+  },
+  createFormatter: convention => new JsonFormatter(convention),
+  exampleCode: `{
+  "name": "my-project",
+  "version": "1.0.0",
+  "description": "A sample project",
+  "main": "index.js",
+  "scripts": {
+    "start": "node index.js",
+    "test": "jest"
+  },
+  "dependencies": {
+    "express": "^4.18.0",
+    "lodash": "^4.17.21"
+  },
+  "devDependencies": {
+    "jest": "^29.0.0",
+    "nodemon": "^2.0.20"
+  }
+}`
+};
@@ -0,0 +1,59 @@
+/**
+ * Kotlin 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { KotlinFormatter } from '../formatters/KotlinFormatter';
+import { KotlinTokenizer } from '../tokenizers/KotlinTokenizer';
+import { KOTLIN_PRESETS } from '../constants/PresetConventions';
+import { KOTLIN_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+export const KotlinPlugin: LanguagePlugin<'kotlin'> = {
+  id: 'kotlin',
+  displayName: 'Kotlin',
+  extensions: ['kt', 'kts'],
+  conventionSchema: KOTLIN_CONVENTION_SCHEMA,
+  presets: KOTLIN_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'intellij'],
+  icon: '🟣',
+  color: 'purple',
+  semanticCheck: 'tokens',
+  detection: {
+    cues: [
+      { pattern: /\bfun\s+(<[^>]*>\s*)?[\w.]+\s*\(/g, weight: 4 },
+      { pattern: /\bval\s+\w+\s*[:=]/g, weight: 3 },
+      { pattern: /\bvar\s+\w+\s*:\s*\w/g, weight: 2 },
+      { pattern: /\b(data|sealed|enum|inner)\s+class\b|\bcompanion\s+object\b|\bobject\s+\w+\s*[:{]/g, weight: 4 },
+      { pattern: /\bwhen\s*(\([^)]*\))?\s*\{/g, weight: 3 },
+      { pattern: /!!|\?:/g, weight: 2 },
+      { pattern: /^\s*(package|import)\s+[\w.]+(\.\*)?\s*$/gm, weight: 2 },
+      { pattern: /(?<![.\w])println\(/g, weight: 2 },
+      { pattern: /\binit\s*\{|\blateinit\b|\bsuspend\s+fun\b/g, weight: 3 }
+    ]
+  },
+  createFormatter: convention => new KotlinFormatter(convention),
+  createTokenizer: () => new KotlinTokenizer(),
+  exampleCode: `package com.example.demo
+
+import kotlin.random.Random
+
+class UserService{
+private val users=mutableListOf<User>()
+
+fun addUser(name:String,email:String):User{
+val user=User(
+id=Random.nextInt(),
+name=name,
+email=email
+)
+users.add(user)
+return user
+}
+
+fun findUserById(id:Int):User?{
+return users.find{it.id==id}
+}
+}
+
+data class User(val id:Int,val name:String,val email:String)`
+};
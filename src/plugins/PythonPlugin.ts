@@ -0,0 +1,66 @@
+/**
+ * Python 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { PythonFormatter } from '../formatters/PythonFormatter';
+import { PythonTokenizer } from '../tokenizers/PythonTokenizer';
+import { PYTHON_PRESETS } from '../constants/PresetConventions';
+import { PYTHON_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+export const PythonPlugin: LanguagePlugin<'python'> = {
+  id: 'python',
+  displayName: 'Python',
+  extensions: ['py', 'pyi'],
+  conventionSchema: PYTHON_CONVENTION_SCHEMA,
+  presets: PYTHON_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'pyproject'],
+  icon: '🐍',
+  color: 'green',
+  semanticCheck: 'python',
+  indentationSensitive: true,
+  detection: {
+    cues: [
+      { pattern: /^[ \t]*(async\s+)?def\s+\w+\s*\([^)]*\)\s*(->\s*[^:\n]+)?:[ \t]*(#.*)?$/gm, weight: 5 },
+      { pattern: /^[ \t]*class\s+\w+(\([^)]*\))?\s*:[ \t]*$/gm, weight: 4 },
+      { pattern: /^[ \t]*from\s+[\w.]+\s+import\s+/gm, weight: 4 },
+      { pattern: /^[ \t]*(elif\b.*|else|try|finally|except\b[^:\n]*):[ \t]*$/gm, weight: 3 },
+      { pattern: /\bself\.\w+/g, weight: 2 },
+      { pattern: /\b__\w+__\b/g, weight: 2 },
+      { pattern: /^[ \t]*(if|for|while|with)\b[^{};\n]*:[ \t]*$/gm, weight: 2 },
+      { pattern: /\b(None|True|False)\b|\b(not|and|or) \w/g, weight: 1 }
+    ]
+  },
+  createFormatter: convention => new PythonFormatter(convention),
+  createTokenizer: () => new PythonTokenizer(),
+  exampleCode: `"""주문 처리 모듈."""
+import sys
+from typing import Optional,List
+import os
+from .models import Order,OrderItem
+from dataclasses import dataclass
+class OrderService :
+    '''주문을 저장하고 조회합니다.'''
+    def __init__(self,repository,notifier=None):
+        self.repository=repository
+        self.notifier=notifier
+    def find(self,order_id:int)->Optional[Order]:
+        return self.repository.get(order_id)
+    def place_order(self,customer_id:int,items:List[OrderItem],coupon_code:Optional[str]=None,notify:bool=True)->Order:
+        total=sum(item.price*item.quantity for item in items if item.quantity>0)
+        if coupon_code: total=total*0.9
+        order=Order(customer_id=customer_id,items=items,total=total,)
+        self.repository.save(order)
+        if notify and self.notifier is not None:
+            self.notifier.send('order_placed',{'id':order.id,'total':order.total})
+        return order
+@dataclass
+class Summary:
+    count:int=0
+    total:float=0.0
+def main(argv):
+    service=OrderService(repository={})
+    print(service.find(int(argv[1])) if len(argv)>1 else 'no order id')
+if __name__=='__main__':
+    main(sys.argv)`
+};
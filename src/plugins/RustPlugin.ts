@@ -0,0 +1,69 @@
+/**
+ * Rust 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { RustFormatter } from '../formatters/RustFormatter';
+import { RustTokenizer } from '../tokenizers/RustTokenizer';
+import { RUST_PRESETS } from '../constants/PresetConventions';
+import { RUST_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+export const RustPlugin: LanguagePlugin<'rust'> = {
+  id: 'rust',
+  displayName: 'Rust',
+  extensions: ['rs'],
+  conventionSchema: RUST_CONVENTION_SCHEMA,
+  presets: RUST_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'intellij'],
+  icon: '🦀',
+  color: 'volcano',
+  semanticCheck: 'tokens',
+  detection: {
+    cues: [
+      { pattern: /\b(pub\s+)?fn\s+\w+\s*(<[^>]*>)?\s*\(/g, weight: 4 },
+      { pattern: /\blet\s+(mut\s+)?\w+\s*[:=]/g, weight: 3 },
+      { pattern: /^\s*(pub\s+)?use\s+[\w:]+(::\{[^}]*\})?\s*;/gm, weight: 4 },
+      { pattern: /\bimpl\s*(<[^>]*>\s*)?\w+|#\[derive\(/g, weight: 4 },
+      { pattern: /\b(println|format|vec|panic)!\s*[([]/g, weight: 4 },
+      { pattern: /&(mut\s+)?self\b|\bSelf::|->\s*(Self|Result|Option)\b/g, weight: 3 },
+      { pattern: /\bmatch\s+\w[^{]*\{|\b(Some|None|Ok|Err)\b/g, weight: 2 }
+    ]
+  },
+  createFormatter: convention => new RustFormatter(convention),
+  createTokenizer: () => new RustTokenizer(),
+  exampleCode: `use std::collections::HashMap;
+use crate::error::AppError;
+use serde::Serialize;
+
+#[derive(Debug, Clone, Serialize)]
+pub struct User{
+pub id:u32,
+pub name:String,
+pub email:String,
+}
+pub struct UserService{
+users:HashMap<u32,User>,
+next_id:u32,
+}
+impl UserService{
+pub fn new()->Self{
+Self{users:HashMap::new(),next_id:1}
+}
+pub fn add_user(&mut self,name:&str,email:&str)->Result<&User,AppError>{
+if !email.contains('@'){
+return Err(AppError::InvalidEmail(email.to_string()));
+}
+let id=self.next_id;
+self.next_id+=1;
+let user=User{id,name:name.to_string(),email:email.to_string()};
+Ok(self.users.entry(id).or_insert(user))
+}
+
+pub fn describe(&self,id:u32)->String{
+match self.users.get(&id){
+Some(user)=>format!("{} <{}>",user.name,user.email),
+None=>"unknown".to_string(),
+}
+}
+}`
+};
@@ -0,0 +1,38 @@
+/**
+ * SQL 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { SqlFormatter } from '../formatters/SqlFormatter';
+import { SqlTokenizer } from '../tokenizers/SqlTokenizer';
+import { SQL_PRESETS } from '../constants/PresetConventions';
+import { SQL_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+export const SqlPlugin: LanguagePlugin<'sql'> = {
+  id: 'sql',
+  displayName: 'SQL',
+  extensions: ['sql', 'mysql', 'pgsql', 'plsql'],
+  conventionSchema: SQL_CONVENTION_SCHEMA,
+  presets: SQL_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'intellij'],
+  icon: '🗃️',
+  color: 'cyan',
+  semanticCheck: 'tokens-case-insensitive',
+  detection: {
+    cues: [
+      { pattern: /\bselect\b[\s\S]+?\bfrom\b/gi, weight: 4 },
+      { pattern: /\b(insert\s+into|delete\s+from|update\s+\w+\s+set|alter\s+table|drop\s+table|truncate\s+table)\b/gi, weight: 4 },
+      { pattern: /\bcreate\s+(or\s+replace\s+)?(table|view|index|procedure|function|trigger)\b/gi, weight: 4 },
+      { pattern: /\b(group\s+by|order\s+by|(inner|left|right|full|cross)\s+(outer\s+)?join|having)\b/gi, weight: 2 },
+      { pattern: /\bwhere\b[^;{}]*\b(and|or|in|like|between|is\s+(not\s+)?null)\b/gi, weight: 2 },
+      { pattern: /^\s*--\s/gm, weight: 2 }
+    ]
+  },
+  createFormatter: convention => new SqlFormatter(convention),
+  createTokenizer: convention => new SqlTokenizer(convention?.dialect),
+  exampleCode: `SELECT u.id,u.name,u.email,COUNT(o.id) as order_count FROM users u LEFT JOIN orders o ON u.id=o.user_id WHERE u.created_at>=DATE_SUB(NOW(),INTERVAL 30 DAY) GROUP BY u.id,u.name,u.email HAVING COUNT(o.id)>5 ORDER BY order_count DESC,u.name ASC;
+
+INSERT INTO products(name,price,category_id,description) VALUES('Laptop',999.99,1,'High-performance laptop'),('Mouse',29.99,2,'Wireless optical mouse'),('Keyboard',79.99,2,'Mechanical gaming keyboard');
+
+UPDATE users SET last_login=NOW(),login_count=login_count+1 WHERE id=123 AND active=1;`
+};
@@ -0,0 +1,47 @@
+/**
+ * XML 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { XmlFormatter } from '../formatters/XmlFormatter';
+import { XML_PRESETS } from '../constants/PresetConventions';
+import { XML_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+export const XmlPlugin: LanguagePlugin<'xml'> = {
+  id: 'xml',
+  displayName: 'XML',
+  extensions: ['xml', 'xsd', 'xsl', 'xslt', 'svg', 'xhtml'],
+  conventionSchema: XML_CONVENTION_SCHEMA,
+  presets: XML_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'intellij', 'prettier'],
+  icon: '🧾',
+  color: 'volcano',
+  semanticCheck: 'markup',
+  detection: {
+    cues: [
+      { pattern: /^\s*<\?xml\b/g, weight: 8 },
+      { pattern: /\bxmlns(:[\w-]+)?=/g, weight: 3 },
+      { pattern: /\s[\w-]+:[\w-]+=""/g, weight: 2 },
+      { pattern: /<(project|beans?|dependency|groupId|artifactId|manifest|resources|[A-Z]\w*Layout|androidx?\.[\w.]+)[\s>/]/g, weight: 3 },
+      { pattern: /<!\[CDATA\[/g, weight: 2 },
+      { pattern: /<\/[\w.:-]+>/g, weight: 1 }
+    ]
+  },
+  createFormatter: convention => new XmlFormatter(convention, 'xml'),
+  exampleCode: `<?xml version="1.0" encoding="UTF-8"?>
+<project xmlns="http://maven.apache.org/POM/4.0.0" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://maven.apache.org/POM/4.0.0 https://maven.apache.org/xsd/maven-4.0.0.xsd">
+<modelVersion>4.0.0</modelVersion>
+<parent><groupId>org.springframework.boot</groupId><artifactId>spring-boot-starter-parent</artifactId><version>3.2.0</version><relativePath></relativePath></parent>
+
+<!-- 프로젝트 정보 -->
+<groupId>com.example</groupId>
+    <artifactId>demo</artifactId>
+<description><![CDATA[Spring Boot <데모> 프로젝트]]></description>
+<dependencies>
+<dependency>
+<groupId>org.springframework.boot</groupId>
+<artifactId>spring-boot-starter-web</artifactId>
+</dependency>
+</dependencies>
+</project>`
+};
@@ -0,0 +1,52 @@
+/**
+ * YAML 언어 플러그인
+ */
+
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { YamlFormatter } from '../formatters/YamlFormatter';
+import { YAML_PRESETS } from '../constants/PresetConventions';
+import { YAML_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+
+export const YamlPlugin: LanguagePlugin<'yaml'> = {
+  id: 'yaml',
+  displayName: 'YAML',
+  extensions: ['yaml', 'yml'],
+  conventionSchema: YAML_CONVENTION_SCHEMA,
+  presets: YAML_PRESETS,
+  exportFormats: ['vscode', 'editorconfig', 'prettier'],
+  icon: '📝',
+  color: 'geekblue',
+  semanticCheck: 'yaml',
+  indentationSensitive: true,
+  detection: {
+    cues: [
+      { pattern: /^---[ \t]*$/gm, weight: 3 },
+      { pattern: /^[ \t]*[\w.-]+:[ \t]+[|>][-+]?[ \t]*$/gm, weight: 4 },
+      { pattern: /:[ \t]+&[\w-]+[ \t]*$|<<:[ \t]*\*[\w-]+/gm, weight: 4 },
+      { pattern: /^[ \t]*[\w.-]+:[ \t]+[^,;{}()\n]*$/gm, weight: 2 },
+      { pattern: /^[\w.-]+:[ \t]*$/gm, weight: 2 },
+      { pattern: /^[ \t]*- [\w"'.-]/gm, weight: 1 }
+    ]
+  },
+  createFormatter: convention => new YamlFormatter(convention),
+  exampleCode: `# 애플리케이션 배포 설정
+version: 3
+defaults: &defaults
+  image: "node:20-alpine"
+  restart: always
+
+services:
+  web:
+    <<: *defaults
+    ports:
+    - "8080:80"
+    - '8443:443'
+    environment: {NODE_ENV: production,LOG_LEVEL: info}
+    command: |
+      npm ci
+      npm start
+  worker:
+    <<: *defaults
+    command: node worker.js   # 백그라운드 작업
+`
+};
@@ -0,0 +1,321 @@
+/**
+ * 레이아웃 문서(Doc) 빌더와 출력기
+ * 코드 구조를 그룹/들여쓰기/줄바꿈 후보로 표현한 뒤, 최대 줄 길이에 맞춰
+ * 그룹 단위로 한 줄에 출력할지 여러 줄로 나눌지 결정합니다.
+ */
+
+/**
+ * 레이아웃 문서 타입
+ * 문자열은 그대로 출력되고, 배열은 순서대로 이어 붙입니다.
+ */
+export type Doc = string | Doc[] | DocCommand;
+
+/**
+ * 레이아웃 명령
+ * - group: 내용이 한 줄에 들어가면 평면(flat), 아니면 줄바꿈(break) 모드로 출력
+ * - indent: 내부 줄바꿈의 들여쓰기 한 단계 증가
+ * - line: flat 모드에서 공백(soft는 빈 문자열), break 모드에서 개행 (hard는 항상 개행)
+ * - ifBreak: 그룹이 줄바꿈되었는지에 따라 다른 내용 출력
+ * - lineSuffix: 다음 개행 직전에 출력 (줄 끝 주석)
+ * - breakParent: 감싸는 모든 그룹을 줄바꿈 모드로 강제
+ */
+export type DocCommand =
+  | { type: 'group'; contents: Doc; shouldBreak: boolean; id?: symbol }
+  | { type: 'indent'; contents: Doc }
+  | { type: 'line'; mode: 'line' | 'soft' | 'hard' }
+  | { type: 'ifBreak'; breakContents: Doc; flatContents: Doc; groupId?: symbol }
+  | { type: 'lineSuffix'; contents: Doc }
+  | { type: 'breakParent' };
+
+/**
+ * 출력 옵션
+ */
+export interface DocPrintOptions {
+  /** 최대 줄 길이 */
+  printWidth: number;
+  /** 들여쓰기 한 단계 문자열 */
+  indentUnit: string;
+  /** 들여쓰기 한 단계의 표시 너비 (탭 너비 계산용) */
+  indentWidth: number;
+}
+
+type PrintMode = 'break' | 'flat';
+
+interface PrintCommand {
+  indent: string;
+  width: number;
+  mode: PrintMode;
+  doc: Doc;
+}
+
+/**
+ * Doc 생성 함수 모음
+ */
+export class DocBuilder {
+  public static readonly line: Doc = { type: 'line', mode: 'line' };
+  public static readonly softline: Doc = { type: 'line', mode: 'soft' };
+  public static readonly hardline: Doc = { type: 'line', mode: 'hard' };
+  public static readonly breakParent: Doc = { type: 'breakParent' };
+
+  public static group(contents: Doc, shouldBreak: boolean = false, id?: symbol): Doc {
+    return { type: 'group', contents, shouldBreak, id };
+  }
+
+  public static indent(contents: Doc): Doc {
+    return { type: 'indent', contents };
+  }
+
+  public static ifBreak(breakContents: Doc, flatContents: Doc = '', groupId?: symbol): Doc {
+    return { type: 'ifBreak', breakContents, flatContents, groupId };
+  }
+
+  public static lineSuffix(contents: Doc): Doc {
+    return { type: 'lineSuffix', contents };
+  }
+
+  public static join(separator: Doc, docs: Doc[]): Doc[] {
+    const result: Doc[] = [];
+    docs.forEach((doc, index) => {
+      if (index > 0) {
+        result.push(separator);
+      }
+      result.push(doc);
+    });
+    return result;
+  }
+}
+
+/**
+ * Doc를 문자열로 출력합니다.
+ */
+export class DocPrinter {
+  /**
+   * Doc를 옵션에 맞춰 문자열로 변환합니다.
+   * @param doc 출력할 문서
+   * @param options 출력 옵션
+   * @returns 출력된 코드
+   */
+  public static print(doc: Doc, options: DocPrintOptions): string {
+    this.propagateBreaks(doc);
+
+    const groupModes = new Map<symbol, PrintMode>();
+    const output: string[] = [];
+    const commands: PrintCommand[] = [{ indent: '', width: 0, mode: 'break', doc }];
+    let lineSuffixes: PrintCommand[] = [];
+    let position = 0;
+
+    while (commands.length > 0) {
+      const command = commands.pop()!;
+      const { indent, width, mode, doc: current } = command;
+
+      if (typeof current === 'string') {
+        output.push(current);
+        const newlineIndex = current.lastIndexOf('\n');
+        position = newlineIndex === -1 ? position + current.length : current.length - newlineIndex - 1;
+        continue;
+      }
+
+      if (Array.isArray(current)) {
+        for (let i = current.length - 1; i >= 0; i--) {
+          commands.push({ indent, width, mode, doc: current[i] });
+        }
+        continue;
+      }
+
+      switch (current.type) {
+        case 'indent':
+          commands.push({
+            indent: indent + options.indentUnit,
+            width: width + options.indentWidth,
+            mode,
+            doc: current.contents
+          });
+          break;
+
+        case 'group': {
+          const flatCommand: PrintCommand = { indent, width, mode: 'flat', doc: current.contents };
+          const shouldFlat = !current.shouldBreak && (mode === 'flat' ||
+            this.fits(flatCommand, commands, options.printWidth - position, groupModes, lineSuffixes.length > 0));
+          const groupCommand = shouldFlat ? flatCommand : { ...flatCommand, mode: 'break' as PrintMode };
+          if (current.id) {
+            groupModes.set(current.id, groupCommand.mode);
+          }
+          commands.push(groupCommand);
+          break;
+        }
+
+        case 'ifBreak': {
+          const groupMode = current.groupId ? groupModes.get(current.groupId) ?? 'flat' : mode;
+          commands.push({
+            indent,
+            width,
+            mode,
+            doc: groupMode === 'break' ? current.breakContents : current.flatContents
+          });
+          break;
+        }
+
+        case 'lineSuffix':
+          lineSuffixes.push({ indent, width, mode, doc: current.contents });
+          break;
+
+        case 'breakParent':
+          break;
+
+        case 'line':
+          if (mode === 'flat' && current.mode !== 'hard') {
+            if (current.mode === 'line') {
+              output.push(' ');
+              position++;
+            }
+            break;
+          }
+
+          // 줄 끝 주석을 개행 전에 출력
+          if (lineSuffixes.length > 0) {
+            commands.push(command);
+            for (let i = lineSuffixes.length - 1; i >= 0; i--) {
+              commands.push(lineSuffixes[i]);
+            }
+            lineSuffixes = [];
+            break;
+          }
+
+          this.trimTrailingWhitespace(output);
+          output.push('\n' + indent);
+          position = width;
+          break;
+      }
+    }
+
+    for (const suffix of lineSuffixes) {
+      output.push(this.print(suffix.doc, options));
+    }
+
+    return output.join('');
+  }
+
+  /**
+   * 남은 너비 안에 명령이 한 줄로 들어가는지 확인합니다.
+   */
+  private static fits(
+    next: PrintCommand,
+    restCommands: PrintCommand[],
+    remainingWidth: number,
+    groupModes: Map<symbol, PrintMode>,
+    hasLineSuffix: boolean
+  ): boolean {
+    const stack: PrintCommand[] = [next];
+    let restIndex = restCommands.length;
+    let remaining = remainingWidth;
+
+    while (remaining >= 0) {
+      if (stack.length === 0) {
+        if (restIndex === 0) {
+          return true;
+        }
+        stack.push(restCommands[--restIndex]);
+        continue;
+      }
+
+      const { mode, doc } = stack.pop()!;
+
+      if (typeof doc === 'string') {
+        const newlineIndex = doc.indexOf('\n');
+        if (newlineIndex !== -1) {
+          return remaining - newlineIndex >= 0;
+        }
+        remaining -= doc.length;
+        continue;
+      }
+
+      if (Array.isArray(doc)) {
+        for (let i = doc.length - 1; i >= 0; i--) {
+          stack.push({ ...next, mode, doc: doc[i] });
+        }
+        continue;
+      }
+
+      switch (doc.type) {
+        case 'indent':
+          stack.push({ ...next, mode, doc: doc.contents });
+          break;
+        case 'group':
+          stack.push({ ...next, mode: doc.shouldBreak ? 'break' : mode, doc: doc.contents });
+          break;
+        case 'ifBreak': {
+          const groupMode = doc.groupId ? groupModes.get(doc.groupId) ?? 'flat' : mode;
+          stack.push({ ...next, mode, doc: groupMode === 'break' ? doc.breakContents : doc.flatContents });
+          break;
+        }
+        case 'lineSuffix':
+          hasLineSuffix = true;
+          break;
+        case 'breakParent':
+          break;
+        case 'line':
+          if (mode === 'break' || doc.mode === 'hard') {
+            return true;
+          }
+          if (hasLineSuffix && doc.mode === 'line') {
+            return false;
+          }
+          if (doc.mode === 'line') {
+            remaining--;
+          }
+          break;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * 강제 개행을 포함한 그룹과 그 상위 그룹을 모두 줄바꿈 모드로 표시합니다.
+   * @returns 강제 개행 포함 여부
+   */
+  private static propagateBreaks(doc: Doc): boolean {
+    if (typeof doc === 'string') {
+      return false;
+    }
+    if (Array.isArray(doc)) {
+      let hasBreak = false;
+      for (const child of doc) {
+        hasBreak = this.propagateBreaks(child) || hasBreak;
+      }
+      return hasBreak;
+    }
+
+    switch (doc.type) {
+      case 'group': {
+        const childBreak = this.propagateBreaks(doc.contents);
+        doc.shouldBreak = doc.shouldBreak || childBreak;
+        return doc.shouldBreak;
+      }
+      case 'indent':
+      case 'lineSuffix':
+        return this.propagateBreaks(doc.contents);
+      case 'ifBreak':
+        return this.propagateBreaks(doc.breakContents) || this.propagateBreaks(doc.flatContents);
+      case 'line':
+        return doc.mode === 'hard';
+      case 'breakParent':
+        return true;
+    }
+  }
+
+  /**
+   * 출력 버퍼 끝의 공백을 제거합니다.
+   */
+  private static trimTrailingWhitespace(output: string[]): void {
+    while (output.length > 0) {
+      const last = output[output.length - 1];
+      const trimmed = last.replace(/[ \t]+$/, '');
+      if (trimmed.length > 0 || last.length === 0) {
+        output[output.length - 1] = trimmed;
+        return;
+      }
+      output.pop();
+    }
+  }
+}
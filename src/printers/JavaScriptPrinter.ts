@@ -0,0 +1,1898 @@
+/**
+ * JavaScript/TypeScript 구문 트리 출력기
+ * TypeScript 파서가 만든 구문 트리를 레이아웃 문서(Doc)로 변환한 뒤 컨벤션에 맞춰 출력합니다.
+ * 주석은 원래 위치에 다시 붙이며, 출력하지 못한 주석이 있으면 해당 최상위 문장을 원본 그대로 둡니다.
+ */
+
+import * as ts from 'typescript';
+import { JavaScriptFormattingConvention, BraceStyle } from '../types/FormattingTypes';
+import { Doc, DocBuilder, DocPrinter } from './Doc';
+
+const { group, indent, ifBreak, lineSuffix, join } = DocBuilder;
+const { line, softline, hardline, breakParent } = DocBuilder;
+
+/** 같은 우선순위로 묶어 한 줄에 나열할 이항 연산자 그룹 */
+const BINARY_OPERATOR_GROUPS: ReadonlyArray<ReadonlySet<ts.SyntaxKind>> = [
+  new Set([ts.SyntaxKind.AmpersandAmpersandToken]),
+  new Set([ts.SyntaxKind.BarBarToken]),
+  new Set([ts.SyntaxKind.QuestionQuestionToken]),
+  new Set([ts.SyntaxKind.PlusToken, ts.SyntaxKind.MinusToken]),
+  new Set([ts.SyntaxKind.AsteriskToken, ts.SyntaxKind.SlashToken, ts.SyntaxKind.PercentToken]),
+  new Set([ts.SyntaxKind.BarToken]),
+  new Set([ts.SyntaxKind.AmpersandToken]),
+  new Set([ts.SyntaxKind.CaretToken])
+];
+
+/** 목록을 감싸는 괄호별 여는/닫는 토큰 종류 */
+const BRACKET_TOKENS: Record<'(' | '[' | '{', [ts.SyntaxKind, ts.SyntaxKind]> = {
+  '(': [ts.SyntaxKind.OpenParenToken, ts.SyntaxKind.CloseParenToken],
+  '[': [ts.SyntaxKind.OpenBracketToken, ts.SyntaxKind.CloseBracketToken],
+  '{': [ts.SyntaxKind.OpenBraceToken, ts.SyntaxKind.CloseBraceToken]
+};
+
+export class JavaScriptPrinter {
+  private readonly sourceFile: ts.SourceFile;
+  private readonly convention: JavaScriptFormattingConvention;
+  private readonly text: string;
+  private readonly verbatimNodes: ReadonlySet<ts.Node>;
+  private readonly printedComments = new Set<number>();
+  private allComments: ts.CommentRange[] | null = null;
+
+  constructor(
+    sourceFile: ts.SourceFile,
+    convention: JavaScriptFormattingConvention,
+    verbatimNodes: ReadonlySet<ts.Node> = new Set()
+  ) {
+    this.sourceFile = sourceFile;
+    this.convention = convention;
+    this.text = sourceFile.text;
+    this.verbatimNodes = verbatimNodes;
+  }
+
+  /**
+   * 구문 트리를 컨벤션에 맞춰 출력합니다.
+   * 다시 붙이지 못한 주석이 있으면 그 주석을 포함한 최상위 문장을 원본 그대로 두고 다시 출력합니다.
+   * @param sourceFile 파싱된 소스 파일
+   * @param convention 적용할 컨벤션
+   * @returns 출력된 코드
+   */
+  public static format(sourceFile: ts.SourceFile, convention: JavaScriptFormattingConvention): string {
+    const verbatimNodes = new Set<ts.Node>();
+
+    for (;;) {
+      const printer = new JavaScriptPrinter(sourceFile, convention, verbatimNodes);
+      const output = printer.render();
+      const missed = printer.findUnprintedComments();
+      const statements = missed
+        .map(comment => sourceFile.statements.find(statement =>
+          statement.pos <= comment.pos && comment.end <= statement.end))
+        .filter((statement): statement is ts.Statement => !!statement && !verbatimNodes.has(statement));
+
+      if (statements.length === 0) {
+        return output;
+      }
+      statements.forEach(statement => verbatimNodes.add(statement));
+    }
+  }
+
+  /**
+   * 소스 파일 전체를 출력합니다.
+   */
+  public render(): string {
+    return DocPrinter.print(this.printSourceFile(), {
+      printWidth: this.convention.maxLineLength,
+      indentUnit: this.convention.indentationType === 'tab' ? '\t' : ' '.repeat(this.convention.indentSize),
+      indentWidth: this.convention.indentSize
+    });
+  }
+
+  /**
+   * 출력 결과에 포함되지 않은 주석을 반환합니다.
+   */
+  public findUnprintedComments(): ts.CommentRange[] {
+    return this.getAllComments().filter(comment => !this.printedComments.has(comment.pos));
+  }
+
+  // ===== 공통 =====
+
+  private get semi(): string {
+    return this.convention.useSemicolons ? ';' : '';
+  }
+
+  /**
+   * 함수/클래스 등 선언 본문의 중괄호 스타일
+   * GNU 스타일은 제어문 중괄호만 들여쓰고 선언 중괄호는 Allman처럼 둡니다.
+   */
+  private get declarationBraceStyle(): BraceStyle {
+    return this.convention.braceStyle === 'gnu' ? 'allman' : this.convention.braceStyle;
+  }
+
+  private get functionParenSpace(): string {
+    return this.convention.spaceBeforeFunctionParens ? ' ' : '';
+  }
+
+  private get operatorSpace(): Doc {
+    return this.convention.spaceAroundOperators ? ' ' : '';
+  }
+
+  private getText(node: ts.Node): string {
+    return node.getText(this.sourceFile);
+  }
+
+  /**
+   * 노드를 앞뒤 주석과 함께 출력합니다.
+   */
+  private print(node: ts.Node | undefined): Doc {
+    if (!node) {
+      return '';
+    }
+    const leading = this.printLeadingComments(node);
+    const body = this.verbatimNodes.has(node) ? this.printVerbatim(node) : this.printNode(node);
+    return [leading, body, this.printTrailingComments(node)];
+  }
+
+  /**
+   * 노드를 원본 텍스트 그대로 출력합니다. 내부 주석은 출력된 것으로 표시합니다.
+   */
+  private printVerbatim(node: ts.Node): Doc {
+    const start = node.getStart(this.sourceFile);
+    for (const comment of this.getAllComments()) {
+      if (comment.pos >= start && comment.end <= node.end) {
+        this.printedComments.add(comment.pos);
+      }
+    }
+    return this.text.slice(start, node.end);
+  }
+
+  // ===== 주석 =====
+
+  /**
+   * 소스 파일의 모든 주석 위치를 수집합니다.
+   */
+  private getAllComments(): ts.CommentRange[] {
+    if (this.allComments) {
+      return this.allComments;
+    }
+
+    const comments = new Map<number, ts.CommentRange>();
+    const collect = (ranges: ts.CommentRange[] | undefined) =>
+      ranges?.forEach(range => comments.set(range.pos, range));
+
+    const visit = (node: ts.Node) => {
+      const children = node.getChildren(this.sourceFile);
+      if (children.length === 0 || node.kind === ts.SyntaxKind.EndOfFileToken) {
+        if (node.kind !== ts.SyntaxKind.JsxText) {
+          collect(ts.getLeadingCommentRanges(this.text, node.pos));
+          collect(ts.getTrailingCommentRanges(this.text, node.end));
+        }
+        return;
+      }
+      children.forEach(visit);
+    };
+    visit(this.sourceFile);
+
+    this.allComments = [...comments.values()].sort((a, b) => a.pos - b.pos);
+    return this.allComments;
+  }
+
+  private commentText(comment: ts.CommentRange): string {
+    return this.text.slice(comment.pos, comment.end);
+  }
+
+  /**
+   * 주석 앞에 같은 줄의 코드가 있는지 확인합니다.
+   */
+  private isSameLineAsPrevious(pos: number): boolean {
+    let index = pos - 1;
+    while (index >= 0 && (this.text[index] === ' ' || this.text[index] === '\t')) {
+      index--;
+    }
+    return index >= 0 && this.text[index] !== '\n' && this.text[index] !== '\r';
+  }
+
+  private hasNewlineAfter(pos: number): boolean {
+    const pattern = /[ \t]*(\r?\n|$)/y;
+    pattern.lastIndex = pos;
+    return pattern.test(this.text);
+  }
+
+  /**
+   * 지정된 위치부터 공백을 건너뛴 위치를 반환합니다.
+   */
+  private skipWhitespace(pos: number): number {
+    const pattern = /\s*/y;
+    pattern.lastIndex = pos;
+    pattern.exec(this.text);
+    return pattern.lastIndex;
+  }
+
+  private hasBlankLine(start: number, end: number): boolean {
+    return /\n[ \t\r]*\n/.test(this.text.slice(start, end));
+  }
+
+  /**
+   * 주석 하나를 출력합니다. JSDoc 형식의 여러 줄 주석은 현재 들여쓰기에 맞춰 다시 정렬합니다.
+   */
+  private printComment(comment: ts.CommentRange): Doc {
+    this.printedComments.add(comment.pos);
+    const text = this.commentText(comment);
+    if (comment.kind === ts.SyntaxKind.SingleLineCommentTrivia || !text.includes('\n')) {
+      return text;
+    }
+
+    const lines = text.split('\n');
+    if (lines.slice(1).every(commentLine => commentLine.trim().startsWith('*'))) {
+      return join(hardline, lines.map((commentLine, index) =>
+        index === 0 ? commentLine.trimEnd() : ' ' + commentLine.trim()));
+    }
+    return text;
+  }
+
+  /**
+   * 지정된 위치 뒤에 오는 주석을 반환합니다.
+   * 앞 토큰과 같은 줄에 있는 주석(`a, // 설명`)도 포함합니다.
+   */
+  private commentsAfter(pos: number): ts.CommentRange[] {
+    const sameLine = ts.getTrailingCommentRanges(this.text, pos) ?? [];
+    const following = (ts.getLeadingCommentRanges(this.text, pos) ?? [])
+      .filter(comment => !sameLine.some(other => other.pos === comment.pos));
+    return [...sameLine, ...following];
+  }
+
+  private unprintedLeadingComments(pos: number): ts.CommentRange[] {
+    return this.commentsAfter(pos).filter(comment => !this.printedComments.has(comment.pos));
+  }
+
+  /**
+   * 여는 괄호 뒤 같은 줄 끝까지 이어지는 주석(`{ // 설명`)을 반환합니다.
+   * 뒤에 같은 줄의 코드가 이어지면 첫 항목 앞 주석이므로 빈 배열을 반환합니다.
+   */
+  private openingComments(openEnd: number): ts.CommentRange[] {
+    const comments = ts.getTrailingCommentRanges(this.text, openEnd) ?? [];
+    return comments.length > 0 && this.hasNewlineAfter(comments[comments.length - 1].end) ? comments : [];
+  }
+
+  /**
+   * 여는 괄호 줄 끝의 주석인지 확인합니다. 이 주석은 감싸는 목록/블록이 여는 괄호 뒤에 출력합니다.
+   */
+  private isOpeningComment(comment: ts.CommentRange): boolean {
+    let pos = comment.pos;
+    for (;;) {
+      let index = pos - 1;
+      while (index >= 0 && (this.text[index] === ' ' || this.text[index] === '\t')) {
+        index--;
+      }
+      // 같은 줄 앞 주석(`{ /* a */ // b`)은 건너뜀
+      const previous = this.getAllComments().find(other => other.end === index + 1);
+      if (!previous) {
+        return index >= 0 && '{[('.includes(this.text[index]) &&
+          this.openingComments(index + 1).some(other => other.pos === comment.pos);
+      }
+      pos = previous.pos;
+    }
+  }
+
+  /**
+   * 여는 괄호 뒤 같은 줄의 주석을 출력합니다. 주석이 있으면 감싸는 그룹을 여러 줄로 나눕니다.
+   * @param container 여는 괄호를 자식 토큰으로 가진 노드
+   */
+  private printOpeningComments(container: ts.Node, kind: ts.SyntaxKind): Doc[] {
+    const open = container.getChildren(this.sourceFile).find(child => child.kind === kind);
+    const comments = open ? this.openingComments(open.end).filter(comment => !this.printedComments.has(comment.pos)) : [];
+    return comments.length > 0 ? [...comments.map(comment => [' ', this.printComment(comment)]), breakParent] : [];
+  }
+
+  /**
+   * 노드 앞의 주석을 출력합니다.
+   * 앞 코드와 같은 줄에 있던 한 줄 주석은 앞 줄 끝에 붙이고, 여는 괄호 줄 끝의 주석은 감싸는 쪽에 맡깁니다.
+   */
+  private printLeadingComments(node: ts.Node): Doc {
+    const parts: Doc[] = [];
+
+    for (const comment of this.unprintedLeadingComments(node.pos)) {
+      if (this.isOpeningComment(comment)) {
+        continue;
+      }
+      const isLineComment = comment.kind === ts.SyntaxKind.SingleLineCommentTrivia;
+      const sameLine = this.isSameLineAsPrevious(comment.pos);
+
+      if (isLineComment && sameLine) {
+        parts.push(lineSuffix(' ' + this.commentText(comment)), breakParent);
+        this.printedComments.add(comment.pos);
+      } else if (isLineComment || this.hasNewlineAfter(comment.end)) {
+        parts.push(this.printComment(comment), hardline);
+        if (this.hasBlankLine(comment.end, this.skipWhitespace(comment.end))) {
+          parts.push(hardline);
+        }
+      } else {
+        parts.push(this.printComment(comment), ' ');
+      }
+    }
+
+    return parts;
+  }
+
+  /**
+   * 노드 바로 뒤 같은 줄의 주석을 출력합니다.
+   */
+  private printTrailingComments(node: ts.Node): Doc {
+    const parts: Doc[] = [];
+
+    for (const comment of ts.getTrailingCommentRanges(this.text, node.end) ?? []) {
+      if (this.printedComments.has(comment.pos)) {
+        continue;
+      }
+      if (comment.kind === ts.SyntaxKind.SingleLineCommentTrivia) {
+        parts.push(lineSuffix(' ' + this.commentText(comment)), breakParent);
+        this.printedComments.add(comment.pos);
+      } else {
+        parts.push(' ', this.printComment(comment));
+      }
+    }
+
+    return parts;
+  }
+
+  /**
+   * 목록 끝(닫는 괄호 앞)에 남은 주석을 출력합니다.
+   */
+  private printListDanglingComments(pos: number): Doc[] {
+    return this.unprintedLeadingComments(pos).map(comment => {
+      const sameLine = this.isSameLineAsPrevious(comment.pos);
+      if (comment.kind === ts.SyntaxKind.SingleLineCommentTrivia) {
+        this.printedComments.add(comment.pos);
+        return sameLine
+          ? [lineSuffix(' ' + this.commentText(comment)), breakParent]
+          : [hardline, this.commentText(comment), breakParent];
+      }
+      return sameLine ? [' ', this.printComment(comment)] : [hardline, this.printComment(comment), breakParent];
+    });
+  }
+
+  /**
+   * 블록 끝(닫는 중괄호 앞)이나 파일 끝에 남은 주석을 각 줄로 출력합니다.
+   * @returns 남은 주석이 없으면 null
+   */
+  private printDanglingCommentLines(pos: number): Doc | null {
+    const comments = this.unprintedLeadingComments(pos);
+    if (comments.length === 0) {
+      return null;
+    }
+
+    const parts: Doc[] = [];
+    comments.forEach((comment, index) => {
+      if (index > 0) {
+        parts.push(hardline);
+        if (this.hasBlankLine(comments[index - 1].end, comment.pos)) {
+          parts.push(hardline);
+        }
+      }
+      parts.push(this.printComment(comment));
+    });
+    return parts;
+  }
+
+  /**
+   * 닫는 토큰의 시작 위치(앞 공백/주석 포함)를 찾습니다.
+   */
+  private closingTokenPos(node: ts.Node, kind: ts.SyntaxKind): number {
+    const children = node.getChildren(this.sourceFile);
+    for (let i = children.length - 1; i >= 0; i--) {
+      if (children[i].kind === kind) {
+        return children[i].pos;
+      }
+    }
+    return node.end;
+  }
+
+  // ===== 문장 목록과 블록 =====
+
+  /**
+   * 원본에서 노드 앞에 빈 줄이 있었는지 확인합니다. 이미 출력된 주석 뒤부터 검사합니다.
+   */
+  private hasBlankLineBefore(node: ts.Node): boolean {
+    let start = node.pos;
+    let end = node.getStart(this.sourceFile);
+    for (const comment of this.commentsAfter(node.pos)) {
+      if (!this.printedComments.has(comment.pos)) {
+        end = comment.pos;
+        break;
+      }
+      start = comment.end;
+    }
+    return this.hasBlankLine(start, end);
+  }
+
+  /**
+   * 노드 목록을 줄마다 출력합니다. 원본의 빈 줄은 최대 한 줄까지 유지합니다.
+   */
+  private printLines<T extends ts.Node>(nodes: readonly T[], printItem: (node: T, index: number) => Doc): Doc | null {
+    const parts: Doc[] = [];
+
+    nodes.forEach((node, index) => {
+      if (node.kind === ts.SyntaxKind.EmptyStatement || node.kind === ts.SyntaxKind.SemicolonClassElement) {
+        return;
+      }
+      if (parts.length > 0) {
+        parts.push(hardline);
+        if (this.hasBlankLineBefore(node)) {
+          parts.push(hardline);
+        }
+      }
+      parts.push(printItem(node, index));
+    });
+
+    return parts.length > 0 ? parts : null;
+  }
+
+  private printStatements(statements: readonly ts.Statement[]): Doc | null {
+    return this.printLines(statements, statement => this.printStatement(statement));
+  }
+
+  /**
+   * 문장을 출력합니다. 세미콜론을 생략하는 경우 자동 세미콜론 삽입(ASI) 위험이 있는 문장 앞에 `;`를 붙입니다.
+   */
+  private printStatement(statement: ts.Statement): Doc {
+    const printed = this.print(statement);
+    if (this.convention.useSemicolons || !ts.isExpressionStatement(statement)) {
+      return printed;
+    }
+
+    const firstToken = statement.expression.getFirstToken(this.sourceFile);
+    const hazards = [
+      ts.SyntaxKind.OpenParenToken, ts.SyntaxKind.OpenBracketToken, ts.SyntaxKind.NoSubstitutionTemplateLiteral,
+      ts.SyntaxKind.TemplateHead, ts.SyntaxKind.PlusToken, ts.SyntaxKind.MinusToken,
+      ts.SyntaxKind.SlashToken, ts.SyntaxKind.RegularExpressionLiteral, ts.SyntaxKind.LessThanToken
+    ];
+    return firstToken && hazards.includes(firstToken.kind) ? [';', printed] : printed;
+  }
+
+  /**
+   * 중괄호 블록을 K&R 형태로 출력합니다.
+   * @param contents 블록 내용 (없으면 null)
+   * @param container 중괄호를 자식 토큰으로 가진 노드 (여는 중괄호 뒤와 끝에 남은 주석 출력용)
+   */
+  private printBraces(contents: Doc | null, container: ts.Node): Doc {
+    const opening = this.printOpeningComments(container, ts.SyntaxKind.OpenBraceToken);
+    const dangling = this.printDanglingCommentLines(this.closingTokenPos(container, ts.SyntaxKind.CloseBraceToken));
+    const body = contents && dangling ? [contents, hardline, dangling] : contents ?? dangling;
+    if (!body) {
+      return opening.length > 0 ? ['{', opening, hardline, '}'] : '{}';
+    }
+    return ['{', opening, indent([hardline, body]), hardline, '}'];
+  }
+
+  /**
+   * 선언/제어문 본문을 중괄호 스타일에 맞춰 출력합니다. 결과는 앞 구분자(공백 또는 개행)를 포함합니다.
+   * @param container 중괄호를 자식 토큰으로 가진 노드
+   */
+  private printBody(contents: Doc | null, container: ts.Node, style: BraceStyle = this.convention.braceStyle): Doc {
+    const opening = this.printOpeningComments(container, ts.SyntaxKind.OpenBraceToken);
+    const dangling = this.printDanglingCommentLines(this.closingTokenPos(container, ts.SyntaxKind.CloseBraceToken));
+    const body = contents && dangling ? [contents, hardline, dangling] : contents ?? dangling;
+
+    if (!body && opening.length === 0) {
+      return ' {}';
+    }
+    const inner = body ? indent([hardline, body]) : '';
+
+    switch (style) {
+      case 'allman':
+        return [hardline, '{', opening, inner, hardline, '}'];
+      case 'gnu':
+        return indent([hardline, '{', opening, inner, hardline, '}']);
+      case 'horstmann': {
+        // 여는 괄호 줄에 주석이 있거나 첫 줄이 주석이면 여는 괄호 뒤에 붙일 수 없으므로 allman 형태로 출력
+        if (!body || opening.length > 0 || this.startsWithComment(body)) {
+          return [hardline, '{', opening, inner, hardline, '}'];
+        }
+        const padding = this.convention.indentationType === 'tab'
+          ? '\t'
+          : ' '.repeat(Math.max(1, this.convention.indentSize - 1));
+        return [hardline, '{', padding, indent(body), hardline, '}'];
+      }
+      default:
+        return [' {', opening, inner, hardline, '}'];
+    }
+  }
+
+  /**
+   * Doc의 첫 출력 내용이 주석인지 확인합니다.
+   */
+  private startsWithComment(doc: Doc): boolean {
+    if (typeof doc === 'string') {
+      return /^\/[/*]/.test(doc);
+    }
+    if (Array.isArray(doc)) {
+      const isEmpty = (child: Doc): boolean => child === '' || (Array.isArray(child) && child.every(isEmpty));
+      const first = doc.find(child => !isEmpty(child));
+      return first !== undefined && this.startsWithComment(first);
+    }
+    if (doc.type === 'group' || doc.type === 'indent' || doc.type === 'lineSuffix') {
+      return this.startsWithComment(doc.contents);
+    }
+    return false;
+  }
+
+  private printBlock(block: ts.Block, style?: BraceStyle): Doc {
+    return [
+      this.printLeadingComments(block),
+      this.printBody(this.printStatements(block.statements), block, style),
+      this.printTrailingComments(block)
+    ];
+  }
+
+  /**
+   * 제어문 본문을 출력합니다. 블록이 아니면 한 줄에 들어갈 때 같은 줄에 둡니다.
+   */
+  private printClause(statement: ts.Statement): Doc {
+    if (ts.isBlock(statement)) {
+      return this.printBlock(statement);
+    }
+    if (ts.isEmptyStatement(statement)) {
+      return ';';
+    }
+    return group(indent([line, this.print(statement)]));
+  }
+
+  /**
+   * `}` 다음에 이어지는 else/catch/finally/while 앞 구분자
+   */
+  private clauseSeparator(previous: ts.Statement): Doc {
+    // `}` 뒤에 주석이 있으면 이어지는 키워드는 다음 줄로
+    const hasTrailingComment = (ts.getTrailingCommentRanges(this.text, previous.end) ?? []).length > 0;
+    return ts.isBlock(previous) && this.convention.braceStyle === 'kr' && !hasTrailingComment ? ' ' : hardline;
+  }
+
+  // ===== 목록 =====
+
+  /**
+   * 괄호로 감싼 쉼표 목록을 출력합니다. 한 줄에 들어가지 않으면 항목마다 줄을 바꿉니다.
+   * 쉼표 뒤 같은 줄의 주석은 앞 항목 줄 끝에, 여는 괄호 뒤 같은 줄의 주석은 여는 괄호 줄 끝에 유지합니다.
+   * @param container 괄호를 자식 토큰으로 가진 노드
+   */
+  private printList(
+    open: '(' | '[' | '{',
+    nodes: readonly ts.Node[],
+    close: string,
+    container: ts.Node,
+    options: { trailingComma?: boolean; padding?: boolean; shouldBreak?: boolean; forceTrailingComma?: boolean } = {}
+  ): Doc {
+    const edge = options.padding ? line : softline;
+    const [openKind, closeKind] = BRACKET_TOKENS[open];
+    const opening = this.printOpeningComments(container, openKind);
+    const closePos = this.closingTokenPos(container, closeKind);
+
+    if (nodes.length === 0) {
+      const comments = this.unprintedLeadingComments(closePos);
+      if (opening.length === 0 && comments.every(comment => comment.kind === ts.SyntaxKind.MultiLineCommentTrivia &&
+        !this.text.slice(comment.pos, comment.end).includes('\n'))) {
+        return [open, join(' ', comments.map(comment => this.printComment(comment))), close];
+      }
+      return group([open, opening, indent(this.printListDanglingComments(closePos)), softline, close]);
+    }
+
+    const items: Doc[] = [];
+    nodes.forEach((node, index) => {
+      items.push(this.print(node));
+      if (index < nodes.length - 1) {
+        items.push(',', this.printSameLineComments(nodes[index + 1].pos), line);
+      }
+    });
+
+    const trailingComma = options.forceTrailingComma ? ',' : options.trailingComma ? ifBreak(',') : '';
+    const dangling = this.printListDanglingComments(closePos);
+    return group([open, opening, indent([edge, items, trailingComma, dangling]), edge, close], options.shouldBreak);
+  }
+
+  /**
+   * 구분자 바로 뒤 같은 줄의 주석을 출력합니다.
+   */
+  private printSameLineComments(pos: number): Doc {
+    return (ts.getTrailingCommentRanges(this.text, pos) ?? [])
+      .filter(comment => !this.printedComments.has(comment.pos))
+      .map(comment => comment.kind === ts.SyntaxKind.SingleLineCommentTrivia
+        ? [lineSuffix([' ', this.printComment(comment)]), breakParent]
+        : [' ', this.printComment(comment)]);
+  }
+
+  private get es5TrailingComma(): boolean {
+    return this.convention.trailingComma !== 'none';
+  }
+
+  private get allTrailingComma(): boolean {
+    return this.convention.trailingComma === 'all';
+  }
+
+  /**
+   * 원본에서 여는 괄호 바로 뒤에 개행이 있었는지 확인합니다. (여러 줄로 작성된 객체 유지)
+   */
+  private startsOnNewLine(node: ts.Node, first: ts.Node | undefined): boolean {
+    return !!first && this.text.slice(node.getStart(this.sourceFile), first.getStart(this.sourceFile)).includes('\n');
+  }
+
+  private printTypeParameters(
+    node: ts.Node,
+    parameters: ts.NodeArray<ts.TypeParameterDeclaration> | undefined
+  ): Doc {
+    if (!parameters) {
+      return '';
+    }
+    // TSX에서 `<T,>() => ...`의 쉼표는 JSX와 구분하기 위해 필요
+    if (ts.isArrowFunction(node) && this.sourceFile.languageVariant === ts.LanguageVariant.JSX &&
+      parameters.length === 1 && !parameters[0].constraint) {
+      return ['<', this.print(parameters[0]), ',>'];
+    }
+    return group(['<', indent([softline, join([',', line], parameters.map(p => this.print(p)))]), softline, '>']);
+  }
+
+  private printTypeArguments(typeArguments: ts.NodeArray<ts.TypeNode> | undefined): Doc {
+    return typeArguments ? ['<', join(', ', typeArguments.map(t => this.print(t))), '>'] : '';
+  }
+
+  private printTypeAnnotation(type: ts.TypeNode | undefined): Doc {
+    return type ? [': ', this.print(type)] : '';
+  }
+
+  private printParameters(node: ts.SignatureDeclaration): Doc {
+    const parameters = node.parameters;
+    const closePos = this.closingTokenPos(node, ts.SyntaxKind.CloseParenToken);
+
+    if (ts.isArrowFunction(node) && this.canOmitArrowParens(node)) {
+      return this.print(parameters[0]);
+    }
+
+    // 구조 분해 매개변수 하나는 괄호에 붙여 출력
+    if (parameters.length === 1 && !parameters[0].dotDotDotToken &&
+      (ts.isObjectBindingPattern(parameters[0].name) || (parameters[0].type && ts.isTypeLiteralNode(parameters[0].type)))) {
+      return ['(', this.print(parameters[0]), this.printListDanglingComments(closePos), ')'];
+    }
+
+    const hasRest = parameters.some(parameter => parameter.dotDotDotToken);
+    return this.printList('(', parameters, ')', node, {
+      trailingComma: this.allTrailingComma && !hasRest
+    });
+  }
+
+  private canOmitArrowParens(node: ts.ArrowFunction): boolean {
+    if (this.convention.arrowParens !== 'avoid' || node.parameters.length !== 1 || node.typeParameters || node.type) {
+      return false;
+    }
+    const parameter = node.parameters[0];
+    const parenToken = node.getChildren(this.sourceFile).find(c => c.kind === ts.SyntaxKind.OpenParenToken);
+    return ts.isIdentifier(parameter.name) && !parameter.type && !parameter.initializer &&
+      !parameter.dotDotDotToken && !parameter.questionToken && !parameter.modifiers &&
+      (!parenToken || (this.unprintedLeadingComments(parameter.pos).length === 0 &&
+        this.unprintedLeadingComments(this.closingTokenPos(node, ts.SyntaxKind.CloseParenToken)).length === 0));
+  }
+
+  private printArguments(node: ts.CallExpression | ts.NewExpression): Doc {
+    const args = node.arguments ?? ts.factory.createNodeArray<ts.Expression>();
+    const closePos = this.closingTokenPos(node, ts.SyntaxKind.CloseParenToken);
+
+    if (this.shouldHugLastArgument(args) || this.shouldHugFirstArgument(args)) {
+      return ['(', join(', ', args.map(arg => this.print(arg))), this.printListDanglingComments(closePos), ')'];
+    }
+
+    return this.printList('(', args, ')', node, {
+      trailingComma: this.allTrailingComma && !args.some(ts.isSpreadElement)
+    });
+  }
+
+  /**
+   * 마지막 인자가 함수/객체/배열이면 괄호에 붙여 출력합니다. (`foo(a, () => { ... })`)
+   */
+  private shouldHugLastArgument(args: readonly ts.Expression[]): boolean {
+    if (args.length === 0) {
+      return false;
+    }
+    const last = args[args.length - 1];
+    const isHuggable = ts.isArrowFunction(last) || ts.isFunctionExpression(last) ||
+      (ts.isObjectLiteralExpression(last) && last.properties.length > 0) ||
+      (ts.isArrayLiteralExpression(last) && last.elements.length > 0);
+
+    return isHuggable && args.slice(0, -1).every(arg => this.isSimpleArgument(arg));
+  }
+
+  /**
+   * 첫 인자가 블록 본문 함수이고 두 번째 인자가 단순하면 함수를 괄호에 붙여 출력합니다.
+   * (`useEffect(() => { ... }, [deps])`, `setTimeout(() => { ... }, 1000)`)
+   */
+  private shouldHugFirstArgument(args: readonly ts.Expression[]): boolean {
+    if (args.length !== 2) {
+      return false;
+    }
+    const [first, second] = args;
+    const isBlockFunction = (ts.isArrowFunction(first) && ts.isBlock(first.body)) || ts.isFunctionExpression(first);
+    const isSimpleSecond = this.isSimpleArgument(second) ||
+      (ts.isArrayLiteralExpression(second) && second.elements.every(element => this.isSimpleArgument(element)));
+    return isBlockFunction && isSimpleSecond;
+  }
+
+  private isSimpleArgument(node: ts.Expression): boolean {
+    return ts.isIdentifier(node) || ts.isStringLiteral(node) || ts.isNumericLiteral(node) ||
+      ts.isNoSubstitutionTemplateLiteral(node) || node.kind === ts.SyntaxKind.ThisKeyword ||
+      node.kind === ts.SyntaxKind.NullKeyword || node.kind === ts.SyntaxKind.TrueKeyword ||
+      node.kind === ts.SyntaxKind.FalseKeyword ||
+      (ts.isPropertyAccessExpression(node) && this.isSimpleArgument(node.expression));
+  }
+
+  // ===== 리터럴 =====
+
+  /**
+   * 문자열 리터럴을 컨벤션의 따옴표로 출력합니다. 이스케이프가 더 적게 필요한 따옴표가 있으면 그쪽을 씁니다.
+   */
+  private printStringLiteral(node: ts.StringLiteral | ts.StringLiteralLike): Doc {
+    const raw = this.getText(node);
+    if (raw[0] !== '"' && raw[0] !== "'") {
+      return raw;
+    }
+
+    const content = raw.slice(1, -1);
+    const preferred = this.convention.quoteStyle === 'single' ? "'" : '"';
+    const alternate = preferred === '"' ? "'" : '"';
+    const count = (quote: string) => content.split(quote).length - 1;
+    const enclosing = count(preferred) > count(alternate) ? alternate : preferred;
+    const other = enclosing === '"' ? "'" : '"';
+
+    const body = content.replace(/\\([\s\S])|(["'])/g, (match, escaped: string | undefined, quote: string | undefined) => {
+      if (escaped === other) {
+        return escaped;
+      }
+      if (quote === enclosing) {
+        return '\\' + quote;
+      }
+      return quote ?? match;
+    });
+    return enclosing + body + enclosing;
+  }
+
+  /**
+   * JSX 속성 문자열을 출력합니다. JSX 속성에는 이스케이프가 없으므로 바꿀 수 있을 때만 따옴표를 바꿉니다.
+   */
+  private printJsxAttributeString(node: ts.StringLiteral): Doc {
+    const raw = this.getText(node);
+    const content = raw.slice(1, -1);
+    const preferred = this.convention.jsxQuoteStyle === 'single' ? "'" : '"';
+    return content.includes(preferred) ? raw : preferred + content + preferred;
+  }
+
+  // ===== 노드별 출력 =====
+
+  private printSourceFile(): Doc {
+    const parts: Doc[] = [];
+    const shebang = ts.getShebang(this.text);
+    if (shebang) {
+      parts.push(shebang, hardline);
+    }
+
+    const statements = this.printStatements(this.sourceFile.statements);
+    if (statements) {
+      parts.push(statements);
+    }
+
+    const endPos = this.sourceFile.endOfFileToken.pos;
+    const lastStatement = this.sourceFile.statements[this.sourceFile.statements.length - 1];
+    const firstComment = this.unprintedLeadingComments(endPos)[0];
+    const dangling = this.printDanglingCommentLines(endPos);
+    if (dangling) {
+      if (statements) {
+        parts.push(hardline);
+        if (lastStatement && firstComment && this.hasBlankLine(lastStatement.end, firstComment.pos)) {
+          parts.push(hardline);
+        }
+      }
+      parts.push(dangling);
+    }
+
+    return parts;
+  }
+
+  private printModifiers(node: ts.Node): Doc {
+    const modifiers = (node as { modifiers?: ts.NodeArray<ts.ModifierLike> }).modifiers;
+    if (!modifiers) {
+      return '';
+    }
+
+    return modifiers.map(modifier => {
+      if (ts.isDecorator(modifier)) {
+        const next = this.text.slice(modifier.end).match(/^[ \t]*(\r?\n)?/);
+        return [this.print(modifier), next?.[1] ? hardline : ' '];
+      }
+      return this.getText(modifier) + ' ';
+    });
+  }
+
+  private printNode(node: ts.Node): Doc {
+    if (ts.isExpressionStatement(node)) {
+      return [this.print(node.expression), this.semi];
+    }
+    if (ts.isVariableStatement(node)) {
+      return [this.printModifiers(node), this.printVariableDeclarationList(node.declarationList), this.semi];
+    }
+    if (ts.isVariableDeclarationList(node)) {
+      return this.printVariableDeclarationList(node);
+    }
+    if (ts.isVariableDeclaration(node)) {
+      return [
+        this.print(node.name),
+        node.exclamationToken ? '!' : '',
+        this.printTypeAnnotation(node.type),
+        node.initializer ? this.printAssignment([this.operatorSpace, '='], node.initializer) : ''
+      ];
+    }
+    if (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node)) {
+      return this.printFunction(node);
+    }
+    if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+      return this.printClass(node);
+    }
+    if (ts.isInterfaceDeclaration(node)) {
+      return [
+        this.printModifiers(node),
+        'interface ',
+        this.print(node.name),
+        this.printTypeParameters(node, node.typeParameters),
+        this.printHeritageClauses(node.heritageClauses),
+        this.printBody(this.printTypeMemberLines(node.members), node, this.declarationBraceStyle)
+      ];
+    }
+    if (ts.isTypeAliasDeclaration(node)) {
+      const type = ts.isUnionTypeNode(node.type)
+        ? group(indent([line, ifBreak('| '), join([line, '| '], node.type.types.map(t => this.print(t)))]))
+        : [' ', this.print(node.type)];
+      return [
+        this.printModifiers(node),
+        'type ',
+        this.print(node.name),
+        this.printTypeParameters(node, node.typeParameters),
+        ' =',
+        type,
+        this.semi
+      ];
+    }
+    if (ts.isEnumDeclaration(node)) {
+      const members = this.printLines(node.members, (member, index) => [
+        this.print(member),
+        index < node.members.length - 1 || this.es5TrailingComma ? ',' : ''
+      ]);
+      return [
+        this.printModifiers(node),
+        'enum ',
+        this.print(node.name),
+        this.printBody(members, node, this.declarationBraceStyle)
+      ];
+    }
+    if (ts.isEnumMember(node)) {
+      return [this.print(node.name), node.initializer ? [' = ', this.print(node.initializer)] : ''];
+    }
+    if (ts.isModuleDeclaration(node)) {
+      return this.printModuleDeclaration(node);
+    }
+    if (ts.isImportDeclaration(node)) {
+      return this.printImportDeclaration(node);
+    }
+    if (ts.isImportEqualsDeclaration(node)) {
+      return [
+        this.printModifiers(node),
+        'import ',
+        node.isTypeOnly ? 'type ' : '',
+        this.print(node.name),
+        ' = ',
+        this.print(node.moduleReference),
+        this.semi
+      ];
+    }
+    if (ts.isExternalModuleReference(node)) {
+      return ['require(', this.print(node.expression), ')'];
+    }
+    if (ts.isNamespaceImport(node)) {
+      return ['* as ', this.print(node.name)];
+    }
+    if (ts.isNamespaceExport(node)) {
+      return ['* as ', this.print(node.name)];
+    }
+    if (ts.isNamedImports(node) || ts.isNamedExports(node)) {
+      return this.printList('{', node.elements, '}', node, {
+        trailingComma: this.es5TrailingComma,
+        padding: this.convention.spaceInObjectBraces
+      });
+    }
+    if (ts.isImportSpecifier(node) || ts.isExportSpecifier(node)) {
+      return [
+        node.isTypeOnly ? 'type ' : '',
+        node.propertyName ? [this.print(node.propertyName), ' as '] : '',
+        this.print(node.name)
+      ];
+    }
+    if (ts.isExportDeclaration(node)) {
+      return [
+        this.printModifiers(node),
+        'export ',
+        node.isTypeOnly ? 'type ' : '',
+        node.exportClause ? this.print(node.exportClause) : '*',
+        node.moduleSpecifier ? [' from ', this.print(node.moduleSpecifier)] : '',
+        node.attributes ? [' ', this.printVerbatim(node.attributes)] : '',
+        this.semi
+      ];
+    }
+    if (ts.isExportAssignment(node)) {
+      return [
+        this.printModifiers(node),
+        'export ',
+        node.isExportEquals ? '= ' : 'default ',
+        this.print(node.expression),
+        this.semi
+      ];
+    }
+    if (ts.isBlock(node)) {
+      return [this.printBraces(this.printStatements(node.statements), node)];
+    }
+    if (ts.isIfStatement(node)) {
+      return this.printIfStatement(node);
+    }
+    if (ts.isForStatement(node)) {
+      return [
+        'for (',
+        node.initializer ? this.print(node.initializer) : '',
+        ';',
+        node.condition ? [' ', this.print(node.condition)] : '',
+        ';',
+        node.incrementor ? [' ', this.print(node.incrementor)] : '',
+        ')',
+        this.printClause(node.statement)
+      ];
+    }
+    if (ts.isForInStatement(node)) {
+      return ['for (', this.print(node.initializer), ' in ', this.print(node.expression), ')', this.printClause(node.statement)];
+    }
+    if (ts.isForOfStatement(node)) {
+      return [
+        'for',
+        node.awaitModifier ? ' await' : '',
+        ' (',
+        this.print(node.initializer),
+        ' of ',
+        this.print(node.expression),
+        ')',
+        this.printClause(node.statement)
+      ];
+    }
+    if (ts.isWhileStatement(node)) {
+      return ['while (', this.print(node.expression), ')', this.printClause(node.statement)];
+    }
+    if (ts.isDoStatement(node)) {
+      return [
+        'do',
+        this.printClause(node.statement),
+        this.clauseSeparator(node.statement),
+        'while (',
+        this.print(node.expression),
+        ')',
+        this.semi
+      ];
+    }
+    if (ts.isReturnStatement(node) || ts.isThrowStatement(node)) {
+      const keyword = ts.isReturnStatement(node) ? 'return' : 'throw';
+      return [keyword, node.expression ? [' ', this.printReturnArgument(node.expression)] : '', this.semi];
+    }
+    if (ts.isBreakStatement(node) || ts.isContinueStatement(node)) {
+      const keyword = ts.isBreakStatement(node) ? 'break' : 'continue';
+      return [keyword, node.label ? [' ', this.print(node.label)] : '', this.semi];
+    }
+    if (node.kind === ts.SyntaxKind.DebuggerStatement) {
+      return ['debugger', this.semi];
+    }
+    if (ts.isEmptyStatement(node)) {
+      return ';';
+    }
+    if (ts.isLabeledStatement(node)) {
+      return [this.print(node.label), ': ', this.print(node.statement)];
+    }
+    if (ts.isSwitchStatement(node)) {
+      const clauses = this.printLines(node.caseBlock.clauses, clause => this.print(clause));
+      return [
+        'switch (',
+        this.print(node.expression),
+        ')',
+        this.printBody(clauses, node.caseBlock)
+      ];
+    }
+    if (ts.isCaseClause(node) || ts.isDefaultClause(node)) {
+      return this.printCaseClause(node);
+    }
+    if (ts.isTryStatement(node)) {
+      return this.printTryStatement(node);
+    }
+
+    // 클래스/인터페이스 멤버
+    if (ts.isPropertyDeclaration(node)) {
+      return [
+        this.printModifiers(node),
+        this.print(node.name),
+        node.questionToken ? '?' : '',
+        node.exclamationToken ? '!' : '',
+        this.printTypeAnnotation(node.type),
+        node.initializer ? this.printAssignment([this.operatorSpace, '='], node.initializer) : ''
+      ];
+    }
+    if (ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) {
+      return this.printMethod(node);
+    }
+    if (ts.isClassStaticBlockDeclaration(node)) {
+      return ['static', this.printBlock(node.body, this.declarationBraceStyle)];
+    }
+    if (ts.isIndexSignatureDeclaration(node)) {
+      return [
+        this.printModifiers(node),
+        '[',
+        join(', ', node.parameters.map(p => this.print(p))),
+        ']',
+        this.printTypeAnnotation(node.type)
+      ];
+    }
+    if (ts.isPropertySignature(node)) {
+      return [this.printModifiers(node), this.print(node.name), node.questionToken ? '?' : '', this.printTypeAnnotation(node.type)];
+    }
+    if (ts.isMethodSignature(node)) {
+      return [
+        this.print(node.name),
+        node.questionToken ? '?' : '',
+        this.printTypeParameters(node, node.typeParameters),
+        this.printParameters(node),
+        this.printTypeAnnotation(node.type)
+      ];
+    }
+    if (ts.isCallSignatureDeclaration(node) || ts.isConstructSignatureDeclaration(node)) {
+      return [
+        ts.isConstructSignatureDeclaration(node) ? 'new ' : '',
+        this.printTypeParameters(node, node.typeParameters),
+        this.printParameters(node),
+        this.printTypeAnnotation(node.type)
+      ];
+    }
+    if (ts.isParameter(node)) {
+      return [
+        this.printModifiers(node),
+        node.dotDotDotToken ? '...' : '',
+        this.print(node.name),
+        node.questionToken ? '?' : '',
+        this.printTypeAnnotation(node.type),
+        node.initializer ? [this.operatorSpace, '=', this.operatorSpace, this.print(node.initializer)] : ''
+      ];
+    }
+    if (ts.isTypeParameterDeclaration(node)) {
+      return [
+        this.printModifiers(node),
+        this.print(node.name),
+        node.constraint ? [' extends ', this.print(node.constraint)] : '',
+        node.default ? [' = ', this.print(node.default)] : ''
+      ];
+    }
+    if (ts.isDecorator(node)) {
+      return ['@', this.print(node.expression)];
+    }
+    if (ts.isHeritageClause(node)) {
+      return [
+        node.token === ts.SyntaxKind.ExtendsKeyword ? 'extends ' : 'implements ',
+        join(', ', node.types.map(t => this.print(t)))
+      ];
+    }
+    if (ts.isExpressionWithTypeArguments(node)) {
+      return [this.print(node.expression), this.printTypeArguments(node.typeArguments)];
+    }
+
+    // 바인딩 패턴
+    if (ts.isObjectBindingPattern(node)) {
+      return this.printList('{', node.elements, '}', node, {
+        padding: this.convention.spaceInObjectBraces,
+        shouldBreak: this.startsOnNewLine(node, node.elements[0])
+      });
+    }
+    if (ts.isArrayBindingPattern(node)) {
+      const last = node.elements[node.elements.length - 1];
+      return this.printList('[', node.elements, ']', node, {
+        padding: this.convention.spaceInArrayBrackets,
+        forceTrailingComma: !!last && ts.isOmittedExpression(last)
+      });
+    }
+    if (ts.isBindingElement(node)) {
+      return [
+        node.dotDotDotToken ? '...' : '',
+        node.propertyName ? [this.print(node.propertyName), ': '] : '',
+        this.print(node.name),
+        node.initializer ? [this.operatorSpace, '=', this.operatorSpace, this.print(node.initializer)] : ''
+      ];
+    }
+
+    const expression = this.printExpression(node);
+    if (expression !== undefined) {
+      return expression;
+    }
+    const type = this.printType(node);
+    if (type !== undefined) {
+      return type;
+    }
+    const jsx = this.printJsx(node);
+    if (jsx !== undefined) {
+      return jsx;
+    }
+
+    // 식별자, 키워드, 숫자 등 나머지는 원본 그대로
+    return this.printVerbatim(node);
+  }
+
+  private printVariableDeclarationList(node: ts.VariableDeclarationList): Doc {
+    const blockScope = node.flags & (ts.NodeFlags.Let | ts.NodeFlags.Const | ts.NodeFlags.Using);
+    const keyword = blockScope === ts.NodeFlags.Let ? 'let'
+      : blockScope === ts.NodeFlags.Const ? 'const'
+      : blockScope === ts.NodeFlags.AwaitUsing ? 'await using'
+      : blockScope === ts.NodeFlags.Using ? 'using'
+      : 'var';
+
+    const [first, ...rest] = node.declarations.map(declaration => this.print(declaration));
+    if (first === undefined) {
+      return keyword;
+    }
+    const hasInitializers = node.declarations.length > 1 && node.declarations.some(d => d.initializer);
+    return group([
+      keyword,
+      ' ',
+      first,
+      indent(rest.map(declaration => [',', hasInitializers ? hardline : line, declaration]))
+    ]);
+  }
+
+  /**
+   * 대입 오른쪽을 출력합니다. 이항/조건 연산식이 길면 연산자 뒤에서 줄을 바꿉니다.
+   * @param operator 연산자 (앞 공백 포함)
+   */
+  private printAssignment(operator: Doc, right: ts.Expression): Doc {
+    const spaced = this.convention.spaceAroundOperators || ts.isPropertyAssignment(right.parent);
+    const breakAfterOperator = (ts.isBinaryExpression(right) && !this.isAssignmentOperator(right.operatorToken.kind)) ||
+      (ts.isStringLiteral(right) && this.getText(right).length > 20);
+    if (breakAfterOperator) {
+      return group([operator, group(indent([spaced ? line : softline, this.print(right)]))]);
+    }
+    if (this.isJsxLike(right)) {
+      return [operator, spaced ? ' ' : '', this.printWrappedJsx(right)];
+    }
+
+    // 함수/객체/배열 등은 자체적으로 줄을 나누므로 연산자 뒤에 바로 이어 출력
+    const attached = ts.isArrowFunction(right) || ts.isFunctionExpression(right) || ts.isClassExpression(right) ||
+      ts.isObjectLiteralExpression(right) || ts.isArrayLiteralExpression(right) ||
+      ts.isTemplateExpression(right) || ts.isNoSubstitutionTemplateLiteral(right) || ts.isTaggedTemplateExpression(right);
+    if (attached) {
+      return [operator, spaced ? ' ' : '', this.print(right)];
+    }
+
+    // 오른쪽의 첫 줄이 들어가지 않을 때만 연산자 뒤에서 줄을 바꿈
+    const groupId = Symbol('assignment');
+    const printed = this.print(right);
+    return group([
+      operator,
+      group(indent(spaced ? line : softline), false, groupId),
+      ifBreak(indent(printed), printed, groupId)
+    ]);
+  }
+
+  private printReturnArgument(expression: ts.Expression): Doc {
+    if (this.isJsxLike(expression)) {
+      return this.printWrappedJsx(expression);
+    }
+    if (ts.isBinaryExpression(expression) && !this.isAssignmentOperator(expression.operatorToken.kind)) {
+      return group([ifBreak('('), indent([softline, this.print(expression)]), softline, ifBreak(')')]);
+    }
+    return this.print(expression);
+  }
+
+  private printFunction(node: ts.FunctionDeclaration | ts.FunctionExpression): Doc {
+    const name = node.name ? [' ', this.print(node.name)] : ' ';
+    const body = node.body
+      ? this.printBlock(node.body, ts.isFunctionExpression(node) ? 'kr' : this.declarationBraceStyle)
+      : this.semi;
+
+    return [
+      this.printModifiers(node),
+      'function',
+      node.asteriskToken ? '*' : '',
+      name,
+      this.printTypeParameters(node, node.typeParameters),
+      node.name ? this.functionParenSpace : '',
+      group([this.printParameters(node), this.printTypeAnnotation(node.type)]),
+      body
+    ];
+  }
+
+  private printMethod(node: ts.MethodDeclaration | ts.ConstructorDeclaration | ts.AccessorDeclaration): Doc {
+    let name: Doc;
+    if (ts.isConstructorDeclaration(node)) {
+      name = 'constructor';
+    } else if (ts.isGetAccessorDeclaration(node)) {
+      name = ['get ', this.print(node.name)];
+    } else if (ts.isSetAccessorDeclaration(node)) {
+      name = ['set ', this.print(node.name)];
+    } else {
+      name = [node.asteriskToken ? '*' : '', this.print(node.name), node.questionToken ? '?' : ''];
+    }
+
+    return [
+      this.printModifiers(node),
+      name,
+      this.printTypeParameters(node, node.typeParameters),
+      this.functionParenSpace,
+      group([this.printParameters(node), this.printTypeAnnotation(node.type)]),
+      node.body ? this.printBlock(node.body, this.declarationBraceStyle) : ''
+    ];
+  }
+
+  private printClass(node: ts.ClassDeclaration | ts.ClassExpression): Doc {
+    const members = this.printLines(node.members, (member, index) =>
+      [this.print(member), this.classMemberTerminator(member, node.members[index + 1])]);
+
+    return [
+      this.printModifiers(node),
+      'class',
+      node.name ? [' ', this.print(node.name)] : '',
+      this.printTypeParameters(node, node.typeParameters),
+      this.printHeritageClauses(node.heritageClauses),
+      this.printBody(members, node, ts.isClassExpression(node) ? 'kr' : this.declarationBraceStyle)
+    ];
+  }
+
+  /**
+   * 클래스 멤버 뒤의 세미콜론을 결정합니다.
+   * 세미콜론을 생략하더라도 다음 멤버가 `[`, `(`, `*`로 시작하면 ASI 오류를 막기 위해 붙입니다.
+   */
+  private classMemberTerminator(member: ts.ClassElement, next: ts.ClassElement | undefined): string {
+    const needsTerminator = ts.isPropertyDeclaration(member) || ts.isIndexSignatureDeclaration(member) ||
+      ((ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member) || ts.isAccessor(member)) && !member.body);
+    if (!needsTerminator) {
+      return '';
+    }
+    if (this.convention.useSemicolons) {
+      return ';';
+    }
+    const nextToken = next?.getFirstToken(this.sourceFile);
+    const hazard = nextToken && [
+      ts.SyntaxKind.OpenBracketToken, ts.SyntaxKind.OpenParenToken, ts.SyntaxKind.AsteriskToken
+    ].includes(nextToken.kind);
+    return hazard ? ';' : '';
+  }
+
+  private printHeritageClauses(clauses: ts.NodeArray<ts.HeritageClause> | undefined): Doc {
+    return clauses ? clauses.map(clause => [' ', this.print(clause)]) : '';
+  }
+
+  /**
+   * 인터페이스 멤버를 줄마다 출력합니다.
+   */
+  private printTypeMemberLines(members: ts.NodeArray<ts.TypeElement>): Doc | null {
+    return this.printLines(members, member => [this.print(member), this.semi]);
+  }
+
+  private printModuleDeclaration(node: ts.ModuleDeclaration): Doc {
+    const keyword = node.flags & ts.NodeFlags.GlobalAugmentation ? ''
+      : node.flags & ts.NodeFlags.Namespace ? 'namespace '
+      : 'module ';
+
+    const name: Doc[] = [this.print(node.name)];
+    let body = node.body;
+    while (body && ts.isModuleDeclaration(body)) {
+      name.push('.', this.print(body.name));
+      body = body.body;
+    }
+
+    if (!body) {
+      return [this.printModifiers(node), keyword, name, this.semi];
+    }
+    return [
+      this.printModifiers(node),
+      keyword,
+      name,
+      this.printBody(ts.isModuleBlock(body) ? this.printStatements(body.statements) : null, body, this.declarationBraceStyle)
+    ];
+  }
+
+  private printImportDeclaration(node: ts.ImportDeclaration): Doc {
+    const clause = node.importClause;
+    const parts: Doc[] = [this.printModifiers(node), 'import'];
+
+    if (clause) {
+      const phase = clause.phaseModifier ? ts.tokenToString(clause.phaseModifier) + ' ' : '';
+      const defaultName = clause.name ? this.print(clause.name) : '';
+      const bindings = clause.namedBindings ? this.print(clause.namedBindings) : '';
+      parts.push(' ', phase, defaultName, clause.name && clause.namedBindings ? ', ' : '', bindings, ' from');
+    }
+
+    parts.push(' ', this.print(node.moduleSpecifier));
+    if (node.attributes) {
+      parts.push(' ', this.printVerbatim(node.attributes));
+    }
+    parts.push(this.semi);
+    return parts;
+  }
+
+  private printIfStatement(node: ts.IfStatement): Doc {
+    const parts: Doc[] = ['if (', group([indent([softline, this.print(node.expression)]), softline]), ')', this.printClause(node.thenStatement)];
+
+    if (node.elseStatement) {
+      parts.push(this.clauseSeparator(node.thenStatement), 'else');
+      if (ts.isIfStatement(node.elseStatement)) {
+        parts.push(' ', this.printLeadingComments(node.elseStatement), this.printIfStatement(node.elseStatement),
+          this.printTrailingComments(node.elseStatement));
+      } else {
+        parts.push(this.printClause(node.elseStatement));
+      }
+    }
+
+    return parts;
+  }
+
+  private printCaseClause(node: ts.CaseClause | ts.DefaultClause): Doc {
+    const label = ts.isCaseClause(node) ? ['case ', this.print(node.expression), ':'] : 'default:';
+    // `case 1: // 설명`의 주석은 첫 문장보다 먼저 출력해 레이블 줄에 남김
+    const opening = this.printOpeningComments(node, ts.SyntaxKind.ColonToken);
+    const statements = node.statements;
+
+    if (statements.length === 1 && ts.isBlock(statements[0]) && opening.length === 0) {
+      return [label, ' ', this.print(statements[0])];
+    }
+    const body = this.printStatements(statements);
+    return body ? [label, opening, indent([hardline, body])] : [label, opening];
+  }
+
+  private printTryStatement(node: ts.TryStatement): Doc {
+    const parts: Doc[] = ['try', this.printBlock(node.tryBlock)];
+
+    if (node.catchClause) {
+      const clause = node.catchClause;
+      parts.push(
+        this.clauseSeparator(node.tryBlock),
+        'catch',
+        clause.variableDeclaration ? [' (', this.print(clause.variableDeclaration), ')'] : '',
+        this.printBlock(clause.block)
+      );
+    }
+    if (node.finallyBlock) {
+      parts.push(this.clauseSeparator(node.catchClause?.block ?? node.tryBlock), 'finally', this.printBlock(node.finallyBlock));
+    }
+
+    return parts;
+  }
+
+  // ===== 표현식 =====
+
+  private isAssignmentOperator(kind: ts.SyntaxKind): boolean {
+    return kind >= ts.SyntaxKind.FirstAssignment && kind <= ts.SyntaxKind.LastAssignment;
+  }
+
+  private printExpression(node: ts.Node): Doc | undefined {
+    if (ts.isStringLiteral(node)) {
+      return this.printStringLiteral(node);
+    }
+    if (ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) {
+      return this.printVerbatim(node);
+    }
+    if (ts.isTaggedTemplateExpression(node)) {
+      return [this.print(node.tag), this.printTypeArguments(node.typeArguments), this.print(node.template)];
+    }
+    if (ts.isArrayLiteralExpression(node)) {
+      const last = node.elements[node.elements.length - 1];
+      return this.printList('[', node.elements, ']', node, {
+        trailingComma: this.es5TrailingComma,
+        padding: this.convention.spaceInArrayBrackets,
+        forceTrailingComma: !!last && ts.isOmittedExpression(last),
+        shouldBreak: this.isArrayOfObjects(node)
+      });
+    }
+    if (ts.isObjectLiteralExpression(node)) {
+      return this.printList('{', node.properties, '}', node, {
+        trailingComma: this.es5TrailingComma,
+        padding: this.convention.spaceInObjectBraces,
+        shouldBreak: this.startsOnNewLine(node, node.properties[0])
+      });
+    }
+    if (ts.isPropertyAssignment(node)) {
+      return [this.print(node.name), this.printAssignment(':', node.initializer)];
+    }
+    if (ts.isShorthandPropertyAssignment(node)) {
+      return [
+        this.print(node.name),
+        node.objectAssignmentInitializer
+          ? [this.operatorSpace, '=', this.operatorSpace, this.print(node.objectAssignmentInitializer)]
+          : ''
+      ];
+    }
+    if (ts.isSpreadAssignment(node) || ts.isSpreadElement(node)) {
+      return ['...', this.print(node.expression)];
+    }
+    if (ts.isComputedPropertyName(node)) {
+      return ['[', this.print(node.expression), ']'];
+    }
+    if (ts.isOmittedExpression(node)) {
+      return '';
+    }
+    if (ts.isCallExpression(node)) {
+      const chain = this.printMemberChain(node);
+      if (chain) {
+        return chain;
+      }
+      return [
+        this.print(node.expression),
+        node.questionDotToken ? '?.' : '',
+        this.printTypeArguments(node.typeArguments),
+        this.printArguments(node)
+      ];
+    }
+    if (ts.isNewExpression(node)) {
+      return ['new ', this.print(node.expression), this.printTypeArguments(node.typeArguments), this.printArguments(node)];
+    }
+    if (ts.isPropertyAccessExpression(node)) {
+      return [this.print(node.expression), node.questionDotToken ? '?.' : '.', this.print(node.name)];
+    }
+    if (ts.isElementAccessExpression(node)) {
+      return [
+        this.print(node.expression),
+        node.questionDotToken ? '?.' : '',
+        '[',
+        this.print(node.argumentExpression),
+        ']'
+      ];
+    }
+    if (ts.isParenthesizedExpression(node)) {
+      return group(['(', indent([softline, this.print(node.expression)]), softline, ')']);
+    }
+    if (ts.isArrowFunction(node)) {
+      return this.printArrowFunction(node);
+    }
+    if (ts.isDeleteExpression(node)) {
+      return ['delete ', this.print(node.expression)];
+    }
+    if (ts.isTypeOfExpression(node)) {
+      return ['typeof ', this.print(node.expression)];
+    }
+    if (ts.isVoidExpression(node)) {
+      return ['void ', this.print(node.expression)];
+    }
+    if (ts.isAwaitExpression(node)) {
+      return ['await ', this.print(node.expression)];
+    }
+    if (ts.isYieldExpression(node)) {
+      return ['yield', node.asteriskToken ? '*' : '', node.expression ? [' ', this.print(node.expression)] : ''];
+    }
+    if (ts.isPrefixUnaryExpression(node)) {
+      const operator = ts.tokenToString(node.operator) ?? '';
+      const operand = node.operand;
+      const needsSpace = ts.isPrefixUnaryExpression(operand) && (
+        (operator === '+' && [ts.SyntaxKind.PlusToken, ts.SyntaxKind.PlusPlusToken].includes(operand.operator)) ||
+        (operator === '-' && [ts.SyntaxKind.MinusToken, ts.SyntaxKind.MinusMinusToken].includes(operand.operator)));
+      return [operator, needsSpace ? ' ' : '', this.print(operand)];
+    }
+    if (ts.isPostfixUnaryExpression(node)) {
+      return [this.print(node.operand), ts.tokenToString(node.operator) ?? ''];
+    }
+    if (ts.isBinaryExpression(node)) {
+      return this.printBinaryExpression(node);
+    }
+    if (ts.isConditionalExpression(node)) {
+      // JSX 분기는 괄호로 감싸 `cond ? (<a />) : (<b />)` 형태로 출력
+      if (this.isAttachedOperand(node.whenTrue) || this.isAttachedOperand(node.whenFalse)) {
+        const branch = (expression: ts.Expression) =>
+          this.isJsxLike(expression) ? this.printWrappedJsx(expression) : this.print(expression);
+        return group([this.print(node.condition), ' ? ', branch(node.whenTrue), ' : ', branch(node.whenFalse)]);
+      }
+      return group([
+        this.print(node.condition),
+        indent([line, '? ', this.print(node.whenTrue), line, ': ', this.print(node.whenFalse)])
+      ]);
+    }
+    if (ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+      return [this.print(node.expression), ts.isAsExpression(node) ? ' as ' : ' satisfies ', this.print(node.type)];
+    }
+    if (ts.isNonNullExpression(node)) {
+      return [this.print(node.expression), '!'];
+    }
+    if (ts.isTypeAssertionExpression(node)) {
+      return ['<', this.print(node.type), '>', this.print(node.expression)];
+    }
+    return undefined;
+  }
+
+  /**
+   * 속성이 둘 이상인 객체(또는 배열)만 나열한 배열인지 확인합니다. 이런 배열은 항상 여러 줄로 출력합니다.
+   */
+  private isArrayOfObjects(node: ts.ArrayLiteralExpression): boolean {
+    return node.elements.length > 1 && node.elements.every(element =>
+      (ts.isObjectLiteralExpression(element) && element.properties.length > 1) ||
+      (ts.isArrayLiteralExpression(element) && element.elements.length > 1));
+  }
+
+  private printArrowFunction(node: ts.ArrowFunction): Doc {
+    const head: Doc = [
+      this.printModifiers(node),
+      this.printTypeParameters(node, node.typeParameters),
+      group([this.printParameters(node), this.printTypeAnnotation(node.type)]),
+      ' =>'
+    ];
+    const body = node.body;
+
+    if (ts.isBlock(body)) {
+      return [head, ' ', this.print(body)];
+    }
+    if (this.isJsxLike(body)) {
+      return [head, ' ', this.printWrappedJsx(body)];
+    }
+    const hugBody = ts.isObjectLiteralExpression(body) || ts.isArrayLiteralExpression(body) ||
+      ts.isParenthesizedExpression(body) || ts.isCallExpression(body) || ts.isTemplateExpression(body) ||
+      ts.isNoSubstitutionTemplateLiteral(body) || ts.isArrowFunction(body);
+    return hugBody ? [head, ' ', this.print(body)] : group([head, indent([line, this.print(body)])]);
+  }
+
+  /**
+   * 이항 연산식을 출력합니다. 같은 우선순위가 이어지면 펼쳐서 연산자 뒤에서 줄을 바꿉니다.
+   */
+  private printBinaryExpression(node: ts.BinaryExpression): Doc {
+    const kind = node.operatorToken.kind;
+    const operator = ts.tokenToString(kind) ?? this.getText(node.operatorToken);
+
+    if (kind === ts.SyntaxKind.CommaToken) {
+      return [this.print(node.left), ',', line, this.print(node.right)];
+    }
+    if (this.isAssignmentOperator(kind)) {
+      return [this.print(node.left), this.printAssignment([this.operatorSpace, operator], node.right)];
+    }
+
+    const [first, ...rest] = this.flattenBinary(node);
+    // `cond && (<jsx />)`처럼 오른쪽이 괄호로 감싼 JSX면 들여쓰지 않고 이어 붙임
+    return group([first, this.isAttachedOperand(node.right) ? rest : indent(rest)]);
+  }
+
+  private flattenBinary(node: ts.BinaryExpression): Doc[] {
+    const kind = node.operatorToken.kind;
+    const operatorGroup = BINARY_OPERATOR_GROUPS.find(candidate => candidate.has(kind));
+    const left = node.left;
+    const leftParts = ts.isBinaryExpression(left) && operatorGroup?.has(left.operatorToken.kind) &&
+      !this.verbatimNodes.has(left) && this.unprintedLeadingComments(left.pos).length === 0
+      ? [this.printLeadingComments(left), ...this.flattenBinary(left), this.printTrailingComments(left)]
+      : [this.print(left)];
+
+    const operator = ts.tokenToString(kind) ?? this.getText(node.operatorToken);
+    const isKeyword = kind === ts.SyntaxKind.InKeyword || kind === ts.SyntaxKind.InstanceOfKeyword;
+    const right = node.right;
+
+    // `a - -b`, `a + ++b`처럼 붙이면 다른 연산자가 되는 경우는 공백 유지
+    const sign = kind === ts.SyntaxKind.PlusToken ? '+' : kind === ts.SyntaxKind.MinusToken ? '-' : null;
+    const ambiguous = sign !== null && (
+      (ts.isPrefixUnaryExpression(right) && (ts.tokenToString(right.operator) ?? '').startsWith(sign)) ||
+      (ts.isPostfixUnaryExpression(left) && (ts.tokenToString(left.operator) ?? '').startsWith(sign)));
+    const spaced = this.convention.spaceAroundOperators || isKeyword || ambiguous;
+
+    if (this.isAttachedOperand(right)) {
+      const printedRight = ts.isParenthesizedExpression(right) ? this.print(right) : this.printWrappedJsx(right);
+      return [...leftParts, ' ', operator, ' ', printedRight];
+    }
+    return [...leftParts, spaced ? ' ' : '', operator, spaced ? line : softline, this.print(right)];
+  }
+
+  private isAttachedOperand(node: ts.Expression): boolean {
+    return this.isJsxLike(node) || (ts.isParenthesizedExpression(node) && this.isJsxLike(node.expression));
+  }
+
+  /**
+   * 메서드 호출이 3번 이상 이어지면 한 줄에 들어가지 않을 때 호출마다 줄을 바꿉니다.
+   */
+  private printMemberChain(node: ts.CallExpression): Doc | undefined {
+    const links: ts.Expression[] = [];
+    let current: ts.Expression = node;
+
+    while (ts.isCallExpression(current) || ts.isPropertyAccessExpression(current) ||
+      ts.isElementAccessExpression(current) || ts.isNonNullExpression(current)) {
+      // 중간에 주석이 있거나 원본 그대로 출력할 노드가 있으면 일반 출력
+      if (current !== node && (this.verbatimNodes.has(current) ||
+        this.unprintedLeadingComments(current.end).length > 0)) {
+        return undefined;
+      }
+      links.unshift(current);
+      current = current.expression;
+    }
+
+    if (links.filter(link => ts.isCallExpression(link)).length < 3) {
+      return undefined;
+    }
+
+    const printLink = (link: ts.Expression): Doc => {
+      if (ts.isCallExpression(link)) {
+        return [link.questionDotToken ? '?.' : '', this.printTypeArguments(link.typeArguments), this.printArguments(link)];
+      }
+      if (ts.isPropertyAccessExpression(link)) {
+        return [link.questionDotToken ? '?.' : '.', this.print(link.name)];
+      }
+      if (ts.isElementAccessExpression(link)) {
+        return [link.questionDotToken ? '?.' : '', '[', this.print(link.argumentExpression), ']'];
+      }
+      return '!';
+    };
+
+    // 첫 속성 접근 전까지는 머리로 묶음 (짧은 식별자/this는 첫 호출까지 포함)
+    const head: Doc[] = [this.print(current)];
+    let index = 0;
+    const takeUntilProperty = (target: Doc[]) => {
+      while (index < links.length && !ts.isPropertyAccessExpression(links[index])) {
+        target.push(printLink(links[index++]));
+      }
+    };
+    takeUntilProperty(head);
+
+    const isShortHead = (ts.isIdentifier(current) && this.getText(current).length <= this.convention.indentSize) ||
+      current.kind === ts.SyntaxKind.ThisKeyword;
+    if (isShortHead && index < links.length) {
+      head.push(printLink(links[index++]));
+      takeUntilProperty(head);
+    }
+
+    const segments: Doc[] = [];
+    while (index < links.length) {
+      const segment: Doc[] = [printLink(links[index++])];
+      takeUntilProperty(segment);
+      segments.push(segment);
+    }
+
+    return group([head, indent(segments.map(segment => [softline, segment]))]);
+  }
+
+  // ===== 타입 =====
+
+  private printType(node: ts.Node): Doc | undefined {
+    if (ts.isTypeReferenceNode(node)) {
+      return [this.print(node.typeName), this.printTypeArguments(node.typeArguments)];
+    }
+    if (ts.isQualifiedName(node)) {
+      return [this.print(node.left), '.', this.print(node.right)];
+    }
+    if (ts.isArrayTypeNode(node)) {
+      return [this.print(node.elementType), '[]'];
+    }
+    if (ts.isTupleTypeNode(node)) {
+      return this.printList('[', node.elements, ']', node, { trailingComma: this.es5TrailingComma });
+    }
+    if (ts.isNamedTupleMember(node)) {
+      return [
+        node.dotDotDotToken ? '...' : '',
+        this.print(node.name),
+        node.questionToken ? '?' : '',
+        ': ',
+        this.print(node.type)
+      ];
+    }
+    if (ts.isOptionalTypeNode(node)) {
+      return [this.print(node.type), '?'];
+    }
+    if (ts.isRestTypeNode(node)) {
+      return ['...', this.print(node.type)];
+    }
+    if (ts.isUnionTypeNode(node)) {
+      const [first, ...rest] = node.types.map(t => this.print(t));
+      return group([first, indent(rest.map(t => [' |', line, t]))]);
+    }
+    if (ts.isIntersectionTypeNode(node)) {
+      return join(' & ', node.types.map(t => this.print(t)));
+    }
+    if (ts.isFunctionTypeNode(node) || ts.isConstructorTypeNode(node)) {
+      return [
+        this.printModifiers(node),
+        ts.isConstructorTypeNode(node) ? 'new ' : '',
+        this.printTypeParameters(node, node.typeParameters),
+        this.printParameters(node),
+        ' => ',
+        this.print(node.type)
+      ];
+    }
+    if (ts.isTypeLiteralNode(node)) {
+      const members = node.members.map(member => this.print(member));
+      const opening = this.printOpeningComments(node, ts.SyntaxKind.OpenBraceToken);
+      const dangling = this.printListDanglingComments(this.closingTokenPos(node, ts.SyntaxKind.CloseBraceToken));
+      if (members.length === 0) {
+        return opening.length === 0 && dangling.length === 0 ? '{}' : group(['{', opening, indent(dangling), softline, '}']);
+      }
+      const edge = this.convention.spaceInObjectBraces ? line : softline;
+      return group([
+        '{',
+        opening,
+        indent([edge, join([ifBreak(this.semi, ';'), line], members), ifBreak(this.semi), dangling]),
+        edge,
+        '}'
+      ], this.startsOnNewLine(node, node.members[0]));
+    }
+    if (ts.isLiteralTypeNode(node)) {
+      return this.print(node.literal);
+    }
+    if (ts.isParenthesizedTypeNode(node)) {
+      return ['(', this.print(node.type), ')'];
+    }
+    if (ts.isTypeOperatorNode(node)) {
+      return [ts.tokenToString(node.operator) ?? '', ' ', this.print(node.type)];
+    }
+    if (ts.isIndexedAccessTypeNode(node)) {
+      return [this.print(node.objectType), '[', this.print(node.indexType), ']'];
+    }
+    if (ts.isMappedTypeNode(node)) {
+      const edge = this.convention.spaceInObjectBraces ? line : softline;
+      return group([
+        '{',
+        indent([
+          edge,
+          node.readonlyToken ? [this.getText(node.readonlyToken), ' '] : '',
+          '[',
+          this.print(node.typeParameter.name),
+          ' in ',
+          this.print(node.typeParameter.constraint),
+          node.nameType ? [' as ', this.print(node.nameType)] : '',
+          ']',
+          node.questionToken ? this.getText(node.questionToken) : '',
+          this.printTypeAnnotation(node.type),
+          ifBreak(this.semi)
+        ]),
+        edge,
+        '}'
+      ]);
+    }
+    if (ts.isConditionalTypeNode(node)) {
+      return group([
+        this.print(node.checkType),
+        ' extends ',
+        this.print(node.extendsType),
+        indent([line, '? ', this.print(node.trueType), line, ': ', this.print(node.falseType)])
+      ]);
+    }
+    if (ts.isInferTypeNode(node)) {
+      return ['infer ', this.print(node.typeParameter)];
+    }
+    if (ts.isTypeQueryNode(node)) {
+      return ['typeof ', this.print(node.exprName), this.printTypeArguments(node.typeArguments)];
+    }
+    if (ts.isTypePredicateNode(node)) {
+      return [
+        node.assertsModifier ? 'asserts ' : '',
+        this.print(node.parameterName),
+        node.type ? [' is ', this.print(node.type)] : ''
+      ];
+    }
+    return undefined;
+  }
+
+  // ===== JSX =====
+
+  private isJsxLike(node: ts.Node): boolean {
+    return ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node);
+  }
+
+  /**
+   * 여러 줄 JSX를 괄호로 감쌉니다.
+   */
+  private printWrappedJsx(node: ts.Expression): Doc {
+    return group([ifBreak('('), indent([softline, this.print(node)]), softline, ifBreak(')')]);
+  }
+
+  private printJsx(node: ts.Node): Doc | undefined {
+    if (ts.isJsxElement(node)) {
+      const opening = node.openingElement;
+      return this.printJsxWithChildren(
+        this.printJsxOpening(opening.tagName, opening.typeArguments, opening.attributes, false),
+        node.children,
+        ['</', this.print(node.closingElement.tagName), '>']
+      );
+    }
+    if (ts.isJsxSelfClosingElement(node)) {
+      return this.printJsxOpening(node.tagName, node.typeArguments, node.attributes, true);
+    }
+    if (ts.isJsxFragment(node)) {
+      return this.printJsxWithChildren('<>', node.children, '</>');
+    }
+    if (ts.isJsxAttribute(node)) {
+      const initializer = node.initializer;
+      if (!initializer) {
+        return this.print(node.name);
+      }
+      return [
+        this.print(node.name),
+        '=',
+        ts.isStringLiteral(initializer) ? this.printJsxAttributeString(initializer) : this.print(initializer)
+      ];
+    }
+    if (ts.isJsxSpreadAttribute(node)) {
+      return ['{...', this.print(node.expression), '}'];
+    }
+    if (ts.isJsxExpression(node)) {
+      if (!node.expression) {
+        return this.printVerbatim(node);
+      }
+      if (this.isJsxLike(node.expression)) {
+        return group(['{', indent([softline, this.print(node.expression)]), softline, '}']);
+      }
+      return ['{', node.dotDotDotToken ? '...' : '', this.print(node.expression), '}'];
+    }
+    if (ts.isJsxNamespacedName(node)) {
+      return [this.print(node.namespace), ':', this.print(node.name)];
+    }
+    return undefined;
+  }
+
+  private printJsxOpening(
+    tagName: ts.JsxTagNameExpression,
+    typeArguments: ts.NodeArray<ts.TypeNode> | undefined,
+    attributes: ts.JsxAttributes,
+    selfClosing: boolean
+  ): Doc {
+    const head: Doc = ['<', this.print(tagName), this.printTypeArguments(typeArguments)];
+    const attrs = attributes.properties.map(attribute => this.print(attribute));
+
+    if (attrs.length === 0) {
+      return [head, selfClosing ? ' />' : '>'];
+    }
+
+    const close = selfClosing
+      ? [line, '/>']
+      : [this.convention.jsxBracketSameLine ? '' : softline, '>'];
+    return group([head, indent([line, join(line, attrs)]), close]);
+  }
+
+  /**
+   * JSX 자식을 출력합니다.
+   * 원본에서 개행을 포함한 공백은 JSX에서 의미가 없으므로 그 자리에서만 줄을 바꾸고,
+   * 같은 줄의 텍스트 사이 공백은 그대로 유지합니다.
+   */
+  private printJsxWithChildren(opening: Doc, children: ts.NodeArray<ts.JsxChild>, closing: Doc): Doc {
+    // 개행을 포함한 공백은 줄바꿈 위치(빈 줄 여부 포함)로 기록
+    const items: Array<{ doc: Doc } | { blankLine: boolean }> = [];
+
+    for (const child of children) {
+      if (!ts.isJsxText(child)) {
+        items.push({ doc: this.print(child) });
+        continue;
+      }
+      const text = this.text.slice(child.pos, child.end);
+      text.split(/([ \t\r]*\n\s*)/).forEach((piece, index) => {
+        if (index % 2 === 1) {
+          items.push({ blankLine: piece.split('\n').length > 2 });
+        } else if (piece.length > 0) {
+          items.push({ doc: piece });
+        }
+      });
+    }
+
+    const startsWithSeparator = items.length > 0 && !('doc' in items[0]);
+    const endsWithSeparator = items.length > 0 && !('doc' in items[items.length - 1]);
+    const parts: Doc[] = [];
+    let hasSeparator = false;
+    let hasBlankLine = false;
+    for (const item of items) {
+      if (!('doc' in item)) {
+        hasSeparator = true;
+        hasBlankLine = hasBlankLine || item.blankLine;
+        continue;
+      }
+      if (hasSeparator && parts.length > 0) {
+        parts.push(hasBlankLine ? [hardline, hardline] : hardline);
+      }
+      hasSeparator = false;
+      hasBlankLine = false;
+      parts.push(item.doc);
+    }
+
+    if (parts.length === 0) {
+      return [opening, closing];
+    }
+
+    // 텍스트 가장자리의 공백은 의미가 있으므로 그 옆에서는 줄을 바꾸지 않음
+    const first = children[0];
+    const last = children[children.length - 1];
+    const startBreak = startsWithSeparator ? hardline
+      : first && ts.isJsxText(first) && /^[ \t]/.test(this.text.slice(first.pos, first.end)) ? '' : softline;
+    const endBreak = endsWithSeparator ? hardline
+      : last && ts.isJsxText(last) && /[ \t]$/.test(this.text.slice(last.pos, last.end)) ? '' : softline;
+
+    return group([opening, indent([startBreak, parts]), endBreak, closing]);
+  }
+}
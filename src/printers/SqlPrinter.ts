@@ -0,0 +1,1116 @@
+/**
+ * SQL 구문 트리 출력기
+ * 구조 파서가 나눈 문을 절(WITH, SELECT, FROM, JOIN, WHERE ...) 단위로 나누고 레이아웃 문서(Doc)로 변환해 출력합니다.
+ * 서브쿼리, CTE, CASE 식, 괄호로 묶은 조건은 깊이마다 한 단계씩 들여쓰며,
+ * 쉼표 위치, 조건 줄바꿈, 함수 인자 줄바꿈 규칙은 어느 깊이에서나 똑같이 적용합니다.
+ * CREATE TABLE은 컬럼 정의를 한 줄에 하나씩 정렬하고, 프로시저 본문(BEGIN ... END, IF, LOOP, DECLARE)은
+ * 세미콜론으로 나뉜 문을 이어 블록 깊이만큼 들여씁니다.
+ */
+
+import { SqlFormattingConvention } from '../types/FormattingTypes';
+import { SqlDialectRules, SqlGroupNode, SqlNode, SqlStatement, SqlTokenNode } from '../types/SqlTypes';
+import { TokenUtils } from '../tokenizers/TokenUtils';
+import { Doc, DocBuilder, DocPrinter } from './Doc';
+
+const { group, indent, lineSuffix, join } = DocBuilder;
+const { line, softline, hardline, breakParent } = DocBuilder;
+
+/** 모든 방언에 공통인 절 키워드 (방언 절 키워드는 SqlDialectRules.clauseKeywords) */
+const COMMON_CLAUSES = [
+  'WITH RECURSIVE', 'WITH', 'SELECT', 'INSERT INTO', 'INSERT', 'UPDATE', 'DELETE FROM', 'DELETE',
+  'FROM', 'WHERE', 'GROUP BY', 'HAVING', 'ORDER BY', 'VALUES', 'SET',
+  'UNION ALL', 'UNION DISTINCT', 'UNION', 'INTERSECT ALL', 'INTERSECT DISTINCT', 'INTERSECT',
+  'EXCEPT ALL', 'EXCEPT DISTINCT', 'EXCEPT'
+];
+
+/** 문 맨 앞에서만 절로 보는 키워드 (WITH TIES, WITH (NOLOCK)과 구분) */
+const FIRST_CLAUSES: ReadonlySet<string> = new Set(['WITH', 'WITH RECURSIVE']);
+
+/** 문 맨 앞이나 WITH 절 바로 뒤에서만 절로 보는 키워드 (ON DELETE CASCADE, FOR UPDATE와 구분) */
+const HEAD_CLAUSES: ReadonlySet<string> = new Set(['INSERT INTO', 'INSERT', 'UPDATE', 'DELETE FROM', 'DELETE']);
+
+/** 항목을 쉼표로 나열하는 절 */
+const LIST_CLAUSES: ReadonlySet<string> = new Set([
+  'WITH', 'WITH RECURSIVE', 'SELECT', 'FROM', 'VALUES', 'SET', 'GROUP BY', 'ORDER BY', 'RETURNING', 'WINDOW',
+  'ON DUPLICATE KEY UPDATE'
+]);
+
+/** 조건을 AND/OR로 나열하는 절 */
+const CONDITION_CLAUSES: ReadonlySet<string> = new Set(['WHERE', 'HAVING', 'QUALIFY']);
+
+/** 두 쿼리를 잇는 집합 연산자 */
+const SET_OPERATORS: ReadonlySet<string> = new Set(['UNION', 'INTERSECT', 'EXCEPT', 'MINUS']);
+
+/** JOIN/APPLY 앞에 오는 수식어 */
+const JOIN_MODIFIERS: ReadonlySet<string> = new Set(['NATURAL', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'OUTER']);
+
+/** 쿼리를 시작하는 키워드 (괄호 안이 서브쿼리인지 판단) */
+const QUERY_STARTS: ReadonlySet<string> = new Set(['SELECT', 'WITH', 'VALUES']);
+
+/** 바로 뒤에 괄호가 와도 함수 호출로 보지 않는 키워드 */
+const NON_CALL_KEYWORDS: ReadonlySet<string> = new Set([
+  'IN', 'EXISTS', 'ANY', 'SOME', 'ALL', 'AS', 'ON', 'USING', 'OVER', 'AND', 'OR', 'NOT', 'WHEN', 'THEN',
+  'ELSE', 'VALUES', 'FILTER', 'WITHIN', 'LATERAL', 'INTO', 'TABLE', 'KEY', 'CONFLICT', 'OPTION', 'IS', 'LIKE'
+]);
+
+/** CREATE와 TABLE 사이에 오는 수식어 */
+const TABLE_MODIFIERS: ReadonlySet<string> = new Set([
+  'OR', 'REPLACE', 'GLOBAL', 'LOCAL', 'TEMPORARY', 'TEMP', 'UNLOGGED', 'EXTERNAL'
+]);
+
+/** 컬럼 정의에서 타입 뒤 제약 조건을 시작하는 단어 */
+const COLUMN_CONSTRAINTS: ReadonlySet<string> = new Set([
+  'NOT', 'NULL', 'DEFAULT', 'PRIMARY', 'REFERENCES', 'UNIQUE', 'CHECK', 'CONSTRAINT', 'AUTO_INCREMENT',
+  'IDENTITY', 'GENERATED', 'COLLATE', 'COMMENT', 'ON'
+]);
+
+/** 컬럼이 아닌 테이블 제약 조건을 시작하는 단어 */
+const TABLE_CONSTRAINTS: ReadonlySet<string> = new Set([
+  'CONSTRAINT', 'PRIMARY', 'FOREIGN', 'UNIQUE', 'CHECK', 'INDEX', 'KEY', 'FULLTEXT', 'SPATIAL', 'EXCLUDE', 'LIKE'
+]);
+
+/** 블록이 아닌 트랜잭션 BEGIN 뒤에 오는 단어 */
+const TRANSACTION_WORDS: ReadonlySet<string> = new Set(['TRAN', 'TRANSACTION', 'WORK', 'DISTRIBUTED', 'ISOLATION', 'READ']);
+
+/** BEGIN과 같은 줄에 두는 단어 (BEGIN TRY, BEGIN ATOMIC) */
+const BEGIN_SUFFIXES: ReadonlySet<string> = new Set(['TRY', 'CATCH', 'ATOMIC']);
+
+/** END 뒤에 붙어 닫는 블록을 밝히는 단어 (END IF, END LOOP) */
+const END_SUFFIXES: ReadonlySet<string> = new Set(['IF', 'LOOP', 'WHILE', 'REPEAT', 'CASE', 'FOR', 'TRY', 'CATCH']);
+
+/** 선언부 뒤에 IS/AS가 오는 루틴 키워드 */
+const ROUTINE_KEYWORDS: ReadonlySet<string> = new Set(['PROCEDURE', 'FUNCTION', 'PACKAGE', 'TRIGGER']);
+
+/**
+ * 열린 절차형 블록 종류
+ * - ARM: CASE 문이나 EXCEPTION 처리부의 WHEN/ELSE 가지 (다음 가지나 END에서 저절로 닫힘)
+ * - HANDLERS: EXCEPTION 뒤로 이어지는 BEGIN 블록
+ */
+type SqlBlockKind = 'BEGIN' | 'IF' | 'LOOP' | 'CASE' | 'DECLARE' | 'HANDLERS' | 'ARM';
+
+/**
+ * 블록 깊이에 맞춰 새 줄에서 시작하는 문 조각
+ */
+interface SqlSegment {
+  nodes: SqlNode[];
+  depth: number;
+}
+
+/**
+ * CREATE TABLE의 컬럼 정의 하나 (테이블 제약 조건은 나누지 않음)
+ */
+interface SqlColumnDefinition {
+  name: SqlNode[];
+  type: SqlNode[];
+  constraints: SqlNode[];
+}
+
+/**
+ * 쿼리를 이루는 절 하나 (첫 절 키워드 앞 부분은 name이 null)
+ */
+interface SqlClause {
+  /** 절 키워드 (대문자, 단어 사이 공백 하나, JOIN 계열은 'JOIN') */
+  name: string | null;
+  keywords: SqlTokenNode[];
+  body: SqlNode[];
+}
+
+/**
+ * 최상위 쉼표로 나눈 목록
+ */
+interface SqlList {
+  items: SqlNode[][];
+  /** items 사이의 쉼표 (항목 수보다 하나 적음) */
+  separators: SqlTokenNode[];
+}
+
+/**
+ * AND/OR로 나눈 조건 하나 (첫 조건은 operator가 null)
+ */
+interface SqlCondition {
+  operator: SqlTokenNode | null;
+  nodes: SqlNode[];
+}
+
+/**
+ * 출력 문맥
+ */
+interface PrintContext {
+  /** 들여쓰지 않는 서브쿼리 안인지 여부 (절과 목록을 강제로 줄바꿈하지 않음) */
+  inline: boolean;
+  /** 조건을 한 줄에 하나씩 나누는 중인지 여부 (괄호로 묶은 조건도 나눔) */
+  conditions: boolean;
+  /** DDL 머리 안인지 여부 (이름이나 타입 뒤 괄호를 함수 호출로 보지 않음) */
+  ddl: boolean;
+}
+
+export class SqlPrinter {
+  private readonly convention: SqlFormattingConvention;
+  private readonly rules: SqlDialectRules;
+  /** 절 키워드 단어 목록 (긴 키워드부터) */
+  private readonly clauseWords: string[][];
+  /** 앞 문에서 열려 아직 닫히지 않은 절차형 블록 */
+  private readonly blocks: SqlBlockKind[] = [];
+
+  constructor(convention: SqlFormattingConvention, rules: SqlDialectRules) {
+    this.convention = convention;
+    this.rules = rules;
+    this.clauseWords = [...COMMON_CLAUSES, ...rules.clauseKeywords]
+      .map(keyword => keyword.split(' '))
+      .sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * 문 목록을 컨벤션에 맞춰 출력합니다.
+   * 스크립트를 조각마다 나눠 출력할 때는 같은 printer를 써야 앞 조각에서 열린 블록의 깊이가 이어집니다.
+   * @param statements 구조 파서가 나눈 문 목록
+   * @returns 출력된 코드 (파일 끝 개행 제외, 첫 줄도 블록 깊이만큼 들여씀)
+   */
+  public print(statements: SqlStatement[]): string {
+    return DocPrinter.print(this.printStatements(statements), {
+      printWidth: this.convention.maxLineLength > 0 ? this.convention.maxLineLength : Number.POSITIVE_INFINITY,
+      indentUnit: this.indentUnit,
+      indentWidth: this.convention.indentSize
+    });
+  }
+
+  private get indentUnit(): string {
+    return this.convention.indentationType === 'tab' ? '\t' : ' '.repeat(this.convention.indentSize);
+  }
+
+  /**
+   * 문을 한 줄 이상씩 출력합니다. 절차형 블록 안의 문 조각은 블록 깊이만큼 들여씁니다.
+   */
+  private printStatements(statements: SqlStatement[]): Doc {
+    const parts: Doc[] = [];
+    statements.forEach((statement, index) => {
+      this.printStatement(statement).forEach((entry, lineIndex) => {
+        if (index === 0 && lineIndex === 0) {
+          // 첫 줄은 앞에 줄바꿈이 없어 indent가 적용되지 않으므로 직접 들여씀
+          parts.push(this.indentTo(entry.depth, [this.indentUnit.repeat(entry.depth), entry.doc]));
+          return;
+        }
+        parts.push(this.indentTo(entry.depth, [
+          hardline,
+          index > 0 && lineIndex === 0 && statement.blankLineBefore ? hardline : '',
+          entry.doc
+        ]));
+      });
+    });
+    return parts;
+  }
+
+  /**
+   * 문 하나를 줄 단위로 출력합니다. 앞 주석은 첫 조각의 깊이에 둡니다.
+   */
+  private printStatement(statement: SqlStatement): { doc: Doc; depth: number }[] {
+    const segments = this.splitSegments(statement.nodes, statement.terminator !== null);
+    const depth = segments[0]?.depth ?? this.blocks.length;
+    const lines: { doc: Doc; depth: number }[] = statement.leadingComments
+      .map(comment => ({ doc: comment.token.value, depth }));
+
+    for (const segment of segments) {
+      const ctx: PrintContext = { inline: false, conditions: false, ddl: false };
+      lines.push({ doc: this.printQuery(segment.nodes, ctx, true), depth: segment.depth });
+    }
+    if (statement.terminator) {
+      const terminator = this.printToken(statement.terminator);
+      if (segments.length > 0) {
+        lines[lines.length - 1].doc = [lines[lines.length - 1].doc, terminator];
+      } else {
+        lines.push({ doc: terminator, depth });
+      }
+    }
+    return lines;
+  }
+
+  private indentTo(depth: number, doc: Doc): Doc {
+    for (let i = 0; i < depth; i++) {
+      doc = indent(doc);
+    }
+    return doc;
+  }
+
+  /**
+   * 쿼리(또는 절로 나뉘지 않는 문)를 절마다 한 줄씩 출력합니다.
+   * @param lineStart 첫 토큰이 줄 맨 앞에 오는지 여부 (앞 주석 배치용)
+   */
+  private printQuery(nodes: SqlNode[], ctx: PrintContext, lineStart: boolean): Doc[] {
+    const parts: Doc[] = [];
+    this.splitClauses(nodes).forEach((clause, index) => {
+      let clauseLineStart = lineStart && index === 0;
+      if (index > 0) {
+        const separator = this.getClauseSeparator(clause, ctx);
+        parts.push(separator);
+        clauseLineStart = separator === hardline;
+      }
+      parts.push(this.printClause(clause, ctx, clauseLineStart));
+    });
+    return parts;
+  }
+
+  /**
+   * 절 앞의 구분을 정합니다. JOIN과 VALUES는 컨벤션에 따라 앞 절과 같은 줄에 이어 씁니다.
+   */
+  private getClauseSeparator(clause: SqlClause, ctx: PrintContext): Doc {
+    if (clause.name === 'JOIN' && !this.convention.joinOnNewLine) {
+      return ' ';
+    }
+    if (clause.name === 'VALUES' && !this.convention.insertValuesOnNewLine) {
+      return ' ';
+    }
+    return ctx.inline ? line : hardline;
+  }
+
+  private printClause(clause: SqlClause, ctx: PrintContext, lineStart: boolean): Doc {
+    if (clause.name === null) {
+      return this.printPreamble(clause.body, ctx, lineStart);
+    }
+
+    const keyword = join(' ', clause.keywords.map((node, index) => this.printToken(node, lineStart && index === 0)));
+    if (clause.body.length === 0) {
+      return keyword;
+    }
+    if (CONDITION_CLAUSES.has(clause.name)) {
+      return this.printConditionClause(keyword, clause.body, ctx);
+    }
+    if (LIST_CLAUSES.has(clause.name)) {
+      return this.printListClause(clause.name, keyword, clause.body, ctx);
+    }
+    return [keyword, ' ', this.printExpression(clause.body, { ...ctx, conditions: false }, false)];
+  }
+
+  /**
+   * 첫 절 키워드 앞 부분을 출력합니다. CREATE/ALTER 문이면 DDL로 출력합니다.
+   * - CREATE TABLE: 컬럼 정의와 테이블 제약 조건을 한 줄에 하나씩 두고, 컨벤션에 따라 이름/타입/제약 조건을 정렬
+   * - ALTER TABLE: 쉼표로 나열한 동작이 둘 이상이면 동작마다 줄바꿈
+   */
+  private printPreamble(nodes: SqlNode[], ctx: PrintContext, lineStart: boolean): Doc {
+    const command = this.isKeyword(nodes[0]) ? this.getWord(nodes[0]) : '';
+    if (command !== 'CREATE' && command !== 'ALTER') {
+      return this.printExpression(nodes, ctx, lineStart);
+    }
+
+    const ddlCtx: PrintContext = { ...ctx, ddl: true };
+    const nameEnd = this.findTableNameEnd(nodes);
+    if (nameEnd === -1) {
+      return this.printExpression(nodes, ddlCtx, lineStart);
+    }
+
+    const head = this.printExpression(nodes.slice(0, nameEnd), ddlCtx, lineStart);
+    const columns = nodes[nameEnd];
+    if (command === 'CREATE' && columns?.kind === 'group' && columns.children.length > 0) {
+      const rest = nodes.slice(nameEnd + 1);
+      return [
+        head,
+        ' ',
+        this.printColumnDefinitions(columns, ddlCtx),
+        rest.length > 0 ? [this.needsSpace(columns, rest[0]) ? ' ' : '', this.printExpression(rest, ddlCtx, false)] : ''
+      ];
+    }
+
+    const actions = this.splitList(nodes.slice(nameEnd));
+    if (command === 'ALTER' && actions.items.length > 1 && !ctx.inline) {
+      return [head, indent([hardline, this.printList(actions, hardline, ddlCtx, true, false)])];
+    }
+    return this.printExpression(nodes, ddlCtx, lineStart);
+  }
+
+  /**
+   * CREATE TABLE의 괄호를 컬럼 정의마다 한 줄씩 출력합니다.
+   */
+  private printColumnDefinitions(node: SqlGroupNode, ctx: PrintContext): Doc {
+    const list = this.splitList(node.children);
+    const definitions = list.items.map(item => this.splitColumnDefinition(item));
+    const align = this.convention.alignColumnDefinitions;
+    const width = (nodes: SqlNode[]): number => this.flatText(nodes).length;
+    const nameWidth = Math.max(0, ...definitions.map(definition => definition ? width(definition.name) : 0));
+    const typeWidth = Math.max(0, ...definitions.map(definition =>
+      definition && definition.constraints.length > 0 ? width(definition.type) : 0));
+    const pad = (nodes: SqlNode[], columnWidth: number): string => ' '.repeat(align ? columnWidth - width(nodes) + 1 : 1);
+    // 앞 쉼표면 둘째 줄부터 ', '만큼 밀리므로 첫 컬럼도 그만큼 띄움
+    const firstIndent = align && this.convention.commaPosition === 'leading' && list.items.length > 1 ? '  ' : '';
+
+    const printItem = (item: SqlNode[], lineStart: boolean, index: number): Doc => {
+      const definition = definitions[index];
+      if (!definition) {
+        return this.printExpression(item, ctx, lineStart);
+      }
+      const { name, type, constraints } = definition;
+      const parts: Doc[] = [
+        index === 0 && name[0].leadingComments.length === 0 ? firstIndent : '',
+        this.printExpression(name, ctx, lineStart)
+      ];
+      if (type.length > 0) {
+        parts.push(pad(name, nameWidth), this.printExpression(type, ctx, false));
+      }
+      if (constraints.length > 0) {
+        parts.push(type.length > 0 ? pad(type, typeWidth) : pad(name, nameWidth + (align ? typeWidth + 1 : 0)));
+        parts.push(this.printExpression(constraints, ctx, false));
+      }
+      return parts;
+    };
+
+    return [
+      this.printLeadingComments(node, false),
+      this.printToken(node.open),
+      indent([hardline, this.printList(list, hardline, ctx, true, false, printItem)]),
+      hardline,
+      this.printToken(node.close),
+      this.printTrailingComments(node)
+    ];
+  }
+
+  /**
+   * WHERE/HAVING/QUALIFY 절을 출력합니다. 조건이 둘 이상이면 컨벤션에 따라 AND/OR마다 줄을 나눕니다.
+   */
+  private printConditionClause(keyword: Doc, body: SqlNode[], ctx: PrintContext): Doc {
+    const conditionCtx: PrintContext = {
+      ...ctx,
+      conditions: this.convention.whereConditionsOnNewLine && !ctx.inline
+    };
+    const conditions = this.splitConditions(body);
+    if (!conditionCtx.conditions || conditions.length < 2) {
+      return [keyword, ' ', this.printExpression(body, conditionCtx, false)];
+    }
+
+    return [
+      keyword,
+      ' ',
+      this.printCondition(conditions[0], conditionCtx, false),
+      indent(conditions.slice(1).map(condition => [hardline, this.printCondition(condition, conditionCtx, true)]))
+    ];
+  }
+
+  /**
+   * 쉼표 목록 절(SELECT, WITH, SET, VALUES, ORDER BY ...)을 출력합니다.
+   */
+  private printListClause(name: string, keyword: Doc, body: SqlNode[], ctx: PrintContext): Doc {
+    const itemCtx: PrintContext = { ...ctx, conditions: false };
+    let head = keyword;
+
+    // DISTINCT, TOP 10 같은 수식어는 컬럼이 아니므로 SELECT와 같은 줄에 둠
+    if (name === 'SELECT') {
+      const modifierLength = this.getSelectModifierLength(body);
+      if (modifierLength > 0) {
+        head = [keyword, ' ', this.printExpression(body.slice(0, modifierLength), itemCtx, false)];
+        body = body.slice(modifierLength);
+      }
+      if (body.length === 0) {
+        return head;
+      }
+    }
+
+    const list = this.splitList(body);
+    const count = list.items.length;
+
+    // CTE는 WITH와 같은 깊이에 하나씩 둠
+    if (FIRST_CLAUSES.has(name) && count > 1 && !ctx.inline) {
+      return [head, ' ', this.printList(list, hardline, itemCtx, false, false)];
+    }
+    if (!ctx.inline && this.isListBroken(name, count)) {
+      return [head, indent([hardline, this.printList(list, hardline, itemCtx, true, false)])];
+    }
+    return [head, ' ', group(this.printList(list, line, itemCtx, false, true))];
+  }
+
+  /**
+   * 목록 절을 항목마다 줄바꿈할지 결정합니다.
+   */
+  private isListBroken(name: string, count: number): boolean {
+    switch (name) {
+      case 'SELECT':
+        return this.convention.selectColumnsOnNewLine && count > 1;
+      case 'VALUES':
+        return this.convention.insertValuesOnNewLine && count > 1;
+      case 'SET':
+      case 'ON DUPLICATE KEY UPDATE':
+        return count > 1;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 쉼표 목록을 출력합니다. 쉼표는 commaPosition에 따라 항목 뒤나 다음 줄 앞에 둡니다.
+   * @param separator 항목 사이 줄바꿈 (hardline이면 항상, line이면 줄이 넘칠 때만)
+   * @param firstLineStart 첫 항목이 줄 맨 앞에 오는지 여부
+   * @param indentItems 둘째 항목부터 한 단계 들여쓸지 여부
+   * @param printItem 항목 출력 방식 (기본은 식 그대로)
+   */
+  private printList(
+    list: SqlList,
+    separator: Doc,
+    ctx: PrintContext,
+    firstLineStart: boolean,
+    indentItems: boolean,
+    printItem: (item: SqlNode[], lineStart: boolean, index: number) => Doc =
+      (item, lineStart) => this.printExpression(item, ctx, lineStart)
+  ): Doc[] {
+    const leadingComma = this.convention.commaPosition === 'leading';
+    const broken = separator === hardline;
+    const parts: Doc[] = [printItem(list.items[0], firstLineStart, 0)];
+
+    list.separators.forEach((comma, index) => {
+      const item = list.items[index + 1];
+      let chunk: Doc[];
+      if (leadingComma) {
+        // 한 줄에 들어가면 'a, b'가 되도록 쉼표 앞 줄바꿈은 공백 없이 두고, 쉼표 뒤 주석은 앞 항목 줄에 남김
+        parts.push(this.printTrailingComments(comma));
+        chunk = [
+          broken ? hardline : softline,
+          this.printLeadingComments(comma, broken),
+          comma.token.value,
+          item.length > 0 ? ' ' : '',
+          printItem(item, false, index + 1)
+        ];
+      } else {
+        parts.push(this.printToken(comma));
+        chunk = [separator, printItem(item, broken, index + 1)];
+      }
+      parts.push(indentItems ? indent(chunk) : chunk);
+    });
+    return parts;
+  }
+
+  /**
+   * AND/OR로 시작하는 조건 하나를 출력합니다.
+   */
+  private printCondition(condition: SqlCondition, ctx: PrintContext, lineStart: boolean): Doc {
+    if (!condition.operator) {
+      return this.printExpression(condition.nodes, ctx, lineStart);
+    }
+    return [
+      this.printToken(condition.operator, lineStart),
+      condition.nodes.length > 0 ? ' ' : '',
+      this.printExpression(condition.nodes, ctx, false)
+    ];
+  }
+
+  /**
+   * 식을 원래 토큰 간격대로 이어 출력합니다. 괄호 그룹과 CASE 식은 구조에 맞춰 줄을 나눕니다.
+   */
+  private printExpression(nodes: SqlNode[], ctx: PrintContext, lineStart: boolean): Doc[] {
+    const parts: Doc[] = [];
+
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      const nodeLineStart = lineStart && i === 0;
+      if (i > 0 && this.needsSpace(nodes[i - 1], node)) {
+        parts.push(' ');
+      }
+
+      if (node.kind === 'group') {
+        parts.push(this.printGroup(node, nodes[i - 1], ctx, nodeLineStart));
+        continue;
+      }
+
+      const caseEnd = this.isKeyword(node, 'CASE') ? this.findCaseEnd(nodes, i) : -1;
+      if (caseEnd !== -1) {
+        parts.push(this.printCase(nodes.slice(i, caseEnd + 1), ctx, nodeLineStart));
+        i = caseEnd;
+        continue;
+      }
+
+      parts.push(this.printToken(node, nodeLineStart));
+    }
+    return parts;
+  }
+
+  /**
+   * 괄호 그룹을 출력합니다.
+   * - 서브쿼리: indentSubqueries면 괄호 안을 한 단계 들여써 절마다 줄바꿈, 아니면 한 줄로 이어 씀
+   * - 함수 호출: 인자 수가 functionArgWrapThreshold보다 많으면 인자마다 줄바꿈 (DDL 머리의 타입, 컬럼 목록 제외)
+   * - 조건 묶음: 조건을 나누는 중이고 AND/OR 조건이 둘 이상이면 조건마다 줄바꿈
+   * - 그 밖: 한 줄에 들어가지 않을 때만 줄바꿈
+   */
+  private printGroup(node: SqlGroupNode, previous: SqlNode | undefined, ctx: PrintContext, lineStart: boolean): Doc {
+    const leading = this.printLeadingComments(node, lineStart);
+    const open = this.printToken(node.open);
+    const close = [this.printToken(node.close), this.printTrailingComments(node)];
+    const children = node.children;
+
+    if (children.length === 0) {
+      return [leading, open, close];
+    }
+
+    if (this.isQuery(children)) {
+      if (this.convention.indentSubqueries && !ctx.inline) {
+        const query = this.printQuery(children, { inline: false, conditions: false, ddl: false }, true);
+        return [leading, open, indent([hardline, query]), hardline, close];
+      }
+      const query = this.printQuery(children, { inline: true, conditions: false, ddl: false }, false);
+      return [leading, group([open, indent([softline, query]), softline, close])];
+    }
+
+    const itemCtx: PrintContext = { ...ctx, conditions: false };
+    const list = this.splitList(children);
+
+    if (!ctx.ddl && this.isFunctionCall(node, previous)) {
+      if (list.items.length > this.convention.functionArgWrapThreshold) {
+        return [leading, open, indent([hardline, this.printList(list, hardline, itemCtx, true, false)]), hardline, close];
+      }
+      return [leading, group([open, indent([softline, this.printList(list, line, itemCtx, false, false)]), softline, close])];
+    }
+
+    if (ctx.conditions) {
+      const conditions = this.splitConditions(children);
+      if (conditions.length > 1) {
+        const lines = conditions.map(condition => [hardline, this.printCondition(condition, ctx, true)]);
+        return [leading, open, indent(lines), hardline, close];
+      }
+    }
+
+    const contents = list.items.length > 1
+      ? this.printList(list, line, itemCtx, false, false)
+      : this.printExpression(children, ctx, false);
+    return [leading, group([open, indent([softline, contents]), softline, close])];
+  }
+
+  /**
+   * CASE 식을 출력합니다. WHEN이 둘 이상이면 조건 줄바꿈 규칙에 따라 WHEN/ELSE마다 줄을 나누고
+   * END를 CASE 줄의 깊이에 맞춥니다. 그 밖에는 한 줄에 들어가지 않을 때만 나눕니다.
+   * @param nodes CASE부터 END까지의 노드
+   */
+  private printCase(nodes: SqlNode[], ctx: PrintContext, lineStart: boolean): Doc {
+    const caseCtx: PrintContext = { ...ctx, conditions: false };
+    const caseNode = nodes[0] as SqlTokenNode;
+    const endNode = nodes[nodes.length - 1] as SqlTokenNode;
+    const branches: SqlNode[][] = [[]];
+    let depth = 0;
+
+    for (const node of nodes.slice(1, -1)) {
+      if (this.isKeyword(node, 'CASE')) {
+        depth++;
+      } else if (this.isKeyword(node, 'END')) {
+        depth--;
+      } else if (depth === 0 && (this.isKeyword(node, 'WHEN') || this.isKeyword(node, 'ELSE'))) {
+        branches.push([]);
+      }
+      branches[branches.length - 1].push(node);
+    }
+
+    const [operand, ...rest] = branches;
+    const whenCount = rest.filter(branch => this.isKeyword(branch[0], 'WHEN')).length;
+    return group([
+      this.printToken(caseNode, lineStart),
+      operand.length > 0 ? [' ', this.printExpression(operand, caseCtx, false)] : '',
+      indent(rest.map(branch => [line, this.printExpression(branch, caseCtx, true)])),
+      line,
+      this.printToken(endNode, true)
+    ], whenCount > 1 && this.convention.whereConditionsOnNewLine && !ctx.inline);
+  }
+
+  /**
+   * 토큰을 앞뒤 주석과 함께 출력합니다.
+   * @param lineStart 토큰이 줄 맨 앞에 오는지 여부
+   */
+  private printToken(node: SqlTokenNode, lineStart: boolean = false): Doc {
+    return [this.printLeadingComments(node, lineStart), node.token.value, this.printTrailingComments(node)];
+  }
+
+  /**
+   * 노드 앞 줄의 주석을 출력합니다. 노드가 줄 중간에 오면 주석을 앞 줄 끝으로 옮깁니다.
+   */
+  private printLeadingComments(node: SqlNode, lineStart: boolean): Doc {
+    const comments = node.leadingComments.map(comment => comment.token.value);
+    if (comments.length === 0) {
+      return '';
+    }
+    if (lineStart) {
+      return comments.map(comment => [comment, hardline]);
+    }
+    return [lineSuffix(comments.map((comment, index) => [index === 0 ? ' ' : hardline, comment])), breakParent];
+  }
+
+  /**
+   * 노드 뒤의 주석을 출력합니다.
+   * 블록 주석은 그 자리에 두고(옵티마이저 힌트 등), 한 줄 주석부터는 줄 끝으로 미룹니다.
+   */
+  private printTrailingComments(node: SqlNode): Doc {
+    const inline: Doc[] = [];
+    const suffix: Doc[] = [];
+
+    for (const comment of node.trailingComments) {
+      if (suffix.length === 0 && !this.isLineComment(comment)) {
+        inline.push(' ', comment.token.value);
+      } else {
+        suffix.push(suffix.length === 0 && !comment.ownLine ? ' ' : hardline, comment.token.value);
+      }
+    }
+    return suffix.length > 0 ? [inline, lineSuffix(suffix), breakParent] : inline;
+  }
+
+  /**
+   * 문을 절차형 블록 경계(BEGIN, END, IF ... THEN, ELSE, LOOP, DECLARE ...)에서 조각으로 나누고 블록 깊이를 매깁니다.
+   * 블록은 세미콜론으로 나뉜 여러 문에 걸치므로 열린 블록을 printer에 남겨 다음 문으로 넘깁니다.
+   * CASE 식과 괄호 안은 나누지 않으며, 블록 키워드가 없는 문은 조각 하나가 됩니다.
+   * @param terminated 문이 세미콜론으로 끝나는지 여부 (BEGIN; 트랜잭션과 구분)
+   */
+  private splitSegments(nodes: SqlNode[], terminated: boolean): SqlSegment[] {
+    const segments: SqlSegment[] = [];
+    const blocks = this.blocks;
+    let current: SqlSegment | null = null;
+    const top = (): SqlBlockKind | undefined => blocks[blocks.length - 1];
+    const add = (node: SqlNode, depth: number = blocks.length): void => {
+      if (!current) {
+        current = { nodes: [], depth };
+        segments.push(current);
+      }
+      current.nodes.push(node);
+    };
+    // start부터 end까지 넣고 조각을 닫음
+    const close = (start: number, end: number, depth?: number): number => {
+      for (let i = start; i <= end; i++) {
+        add(nodes[i], depth);
+      }
+      current = null;
+      return end;
+    };
+
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      const word = this.isKeyword(node) ? this.getWord(node) : '';
+      const atStart = current === null;
+
+      if (word === 'CASE') {
+        const caseEnd = this.findCaseEnd(nodes, i);
+        if (caseEnd !== -1) {
+          for (let k = i; k <= caseEnd; k++) {
+            add(nodes[k]);
+          }
+          i = caseEnd;
+          continue;
+        }
+        // END CASE로 끝나는 CASE 문은 WHEN 가지를 한 단계 들여씀
+        if (atStart) {
+          add(node);
+          blocks.push('CASE');
+          continue;
+        }
+      }
+
+      if (word === 'BEGIN' && !TRANSACTION_WORDS.has(this.getWord(nodes[i + 1])) &&
+        !(nodes.length === 1 && terminated)) {
+        current = null;
+        if (top() === 'DECLARE') {
+          blocks.pop();
+        }
+        const end = BEGIN_SUFFIXES.has(this.getWord(nodes[i + 1])) ? i + 1 : i;
+        i = close(i, end);
+        blocks.push('BEGIN');
+        continue;
+      }
+
+      if (word === 'END' && blocks.length > 0) {
+        current = null;
+        while (top() === 'ARM') {
+          blocks.pop();
+        }
+        blocks.pop();
+        const next = nodes[i + 1];
+        const labelled = next?.kind === 'token' && next.token.type === 'identifier' && i + 2 === nodes.length;
+        i = close(i, END_SUFFIXES.has(this.getWord(next)) && this.isKeyword(next) || labelled ? i + 1 : i);
+        continue;
+      }
+
+      if (atStart && word === 'IF') {
+        const then = this.findThen(nodes, i);
+        if (then !== -1) {
+          i = close(i, then);
+          blocks.push('IF');
+          continue;
+        }
+      }
+
+      if (atStart && (word === 'ELSIF' || word === 'ELSEIF') && top() === 'IF') {
+        const then = this.findThen(nodes, i);
+        if (then !== -1) {
+          i = close(i, then, blocks.length - 1);
+          continue;
+        }
+      }
+
+      if (word === 'WHEN' && (top() === 'CASE' || top() === 'HANDLERS' || top() === 'ARM')) {
+        const then = this.findThen(nodes, i);
+        if (then !== -1) {
+          current = null;
+          if (top() === 'ARM') {
+            blocks.pop();
+          }
+          i = close(i, then);
+          blocks.push('ARM');
+          continue;
+        }
+      }
+
+      if (word === 'ELSE') {
+        // T-SQL의 IF ... ELSE는 블록을 열지 않으므로 다음 문과 이어 씀
+        if (top() === 'ARM') {
+          current = null;
+          blocks.pop();
+          i = close(i, i);
+          blocks.push('ARM');
+          continue;
+        }
+        if (top() === 'IF') {
+          current = null;
+          i = close(i, i, blocks.length - 1);
+          continue;
+        }
+      }
+
+      if (atStart && word === 'EXCEPTION' && top() === 'BEGIN') {
+        i = close(i, i, blocks.length - 1);
+        blocks[blocks.length - 1] = 'HANDLERS';
+        continue;
+      }
+
+      if (atStart && word === 'REPEAT') {
+        i = close(i, i);
+        blocks.push('LOOP');
+        continue;
+      }
+
+      // REPEAT ... UNTIL 조건 END REPEAT는 UNTIL부터 한 줄
+      if (atStart && word === 'UNTIL' && top() === 'LOOP') {
+        const end = nodes.findIndex((candidate, index) => index > i && this.isKeyword(candidate, 'END'));
+        if (end !== -1) {
+          blocks.pop();
+          i = close(i, this.isKeyword(nodes[end + 1], 'REPEAT') ? end + 1 : end);
+          continue;
+        }
+      }
+
+      // WHILE ... LOOP, FOR ... LOOP, LOOP, MySQL WHILE ... DO
+      if (word === 'LOOP' || (word === 'DO' && !atStart && this.getWord(current!.nodes[0]) === 'WHILE')) {
+        i = close(i, i);
+        blocks.push('LOOP');
+        continue;
+      }
+
+      if (this.rules.declareSections) {
+        if (atStart && word === 'DECLARE') {
+          i = close(i, i);
+          blocks.push('DECLARE');
+          continue;
+        }
+        // 프로시저/함수 머리 뒤 IS/AS부터 BEGIN까지가 선언부
+        if ((word === 'IS' || word === 'AS') && !atStart && this.isRoutineHead(current!.nodes)) {
+          i = close(i, i);
+          blocks.push('DECLARE');
+          continue;
+        }
+      }
+
+      add(node);
+    }
+    return segments;
+  }
+
+  /**
+   * 조각이 프로시저/함수 머리(CREATE PROCEDURE p, 패키지 안의 FUNCTION f ...)인지 확인합니다.
+   */
+  private isRoutineHead(nodes: SqlNode[]): boolean {
+    const first = this.getWord(nodes[0]);
+    if (ROUTINE_KEYWORDS.has(first)) {
+      return true;
+    }
+    return first === 'CREATE' && nodes.some(node => this.isKeyword(node) && ROUTINE_KEYWORDS.has(this.getWord(node)));
+  }
+
+  /**
+   * index부터 CASE 식 밖의 첫 THEN 위치를 찾습니다. 없으면 -1을 반환합니다.
+   */
+  private findThen(nodes: SqlNode[], index: number): number {
+    for (let i = index; i < nodes.length; i++) {
+      if (this.isKeyword(nodes[i], 'CASE')) {
+        const caseEnd = this.findCaseEnd(nodes, i);
+        if (caseEnd !== -1) {
+          i = caseEnd;
+          continue;
+        }
+      }
+      if (this.isKeyword(nodes[i], 'THEN')) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * CREATE/ALTER [수식어] TABLE [IF NOT EXISTS] 이름 뒤의 위치를 반환합니다. TABLE 문이 아니면 -1을 반환합니다.
+   */
+  private findTableNameEnd(nodes: SqlNode[]): number {
+    let index = 1;
+    while (index < nodes.length && !this.isKeyword(nodes[index], 'TABLE')) {
+      if (!TABLE_MODIFIERS.has(this.getWord(nodes[index]))) {
+        return -1;
+      }
+      index++;
+    }
+    index++;
+    while (['IF', 'NOT', 'EXISTS', 'ONLY'].includes(this.getWord(nodes[index])) && this.isKeyword(nodes[index])) {
+      index++;
+    }
+    if (nodes[index]?.kind !== 'token') {
+      return -1;
+    }
+
+    // schema.table
+    index++;
+    while (this.isPunctuation(nodes[index], '.') && nodes[index + 1]?.kind === 'token') {
+      index += 2;
+    }
+    return index;
+  }
+
+  /**
+   * 컬럼 정의를 이름, 타입, 제약 조건으로 나눕니다. 테이블 제약 조건이면 null을 반환합니다.
+   */
+  private splitColumnDefinition(item: SqlNode[]): SqlColumnDefinition | null {
+    if (item.length === 0 || TABLE_CONSTRAINTS.has(this.getWord(item[0]))) {
+      return null;
+    }
+    let typeEnd = 1;
+    while (typeEnd < item.length && !COLUMN_CONSTRAINTS.has(this.getWord(item[typeEnd]))) {
+      typeEnd++;
+    }
+    return { name: item.slice(0, 1), type: item.slice(1, typeEnd), constraints: item.slice(typeEnd) };
+  }
+
+  /**
+   * 노드를 줄바꿈 없이 출력했을 때의 텍스트를 반환합니다. (주석 제외, 정렬 폭 계산용)
+   */
+  private flatText(nodes: SqlNode[]): string {
+    return nodes.map((node, index) => {
+      const space = index > 0 && this.needsSpace(nodes[index - 1], node) ? ' ' : '';
+      const text = node.kind === 'token'
+        ? node.token.value
+        : `${node.open.token.value}${this.flatText(node.children)}${node.close.token.value}`;
+      return space + text;
+    }).join('');
+  }
+
+  /**
+   * 노드를 절 단위로 나눕니다. 괄호 안은 나누지 않습니다.
+   */
+  private splitClauses(nodes: SqlNode[]): SqlClause[] {
+    const clauses: SqlClause[] = [{ name: null, keywords: [], body: [] }];
+
+    for (let i = 0; i < nodes.length; i++) {
+      const match = this.matchClause(nodes, i, clauses);
+      if (match) {
+        clauses.push({ name: match.name, keywords: nodes.slice(i, i + match.length) as SqlTokenNode[], body: [] });
+        i += match.length - 1;
+        continue;
+      }
+      clauses[clauses.length - 1].body.push(nodes[i]);
+    }
+
+    return clauses[0].body.length === 0 ? clauses.slice(1) : clauses;
+  }
+
+  /**
+   * 위치 index에서 시작하는 절 키워드를 찾습니다.
+   * @param clauses 지금까지 나눈 절 (마지막이 현재 절)
+   */
+  private matchClause(nodes: SqlNode[], index: number, clauses: SqlClause[]): { name: string; length: number } | null {
+    const joinLength = this.matchJoin(nodes, index);
+    if (joinLength > 0) {
+      return { name: 'JOIN', length: joinLength };
+    }
+    if (!this.isKeyword(nodes[index])) {
+      return null;
+    }
+
+    const previous = nodes[index - 1];
+    const current = clauses[clauses.length - 1];
+    const inPreamble = current.name === null && current.body.length > 0;
+
+    for (const words of this.clauseWords) {
+      if (!words.every((word, offset) => this.getWord(nodes[index + offset]) === word)) {
+        continue;
+      }
+
+      const name = words.join(' ');
+      // CREATE VIEW v AS WITH ...는 AS 뒤에서도 절로 봄
+      if (FIRST_CLAUSES.has(name) && (clauses.length > 1 || inPreamble) &&
+        !(clauses.length === 1 && this.isKeyword(previous, 'AS'))) {
+        continue;
+      }
+      if (HEAD_CLAUSES.has(name) &&
+        (inPreamble || !clauses.every(clause => clause.name === null || FIRST_CLAUSES.has(clause.name)))) {
+        continue;
+      }
+      // INSERT의 VALUES만 절로 봄 (ON DUPLICATE KEY UPDATE a = VALUES(a)와 구분)
+      if (name === 'VALUES' && !(clauses.length === 1 && !inPreamble) && !current.name?.startsWith('INSERT')) {
+        continue;
+      }
+      // ALTER TABLE ... SET 같은 DDL 안의 SET은 그대로 둠
+      if (name === 'SET' && inPreamble) {
+        continue;
+      }
+      // IS DISTINCT FROM
+      if (name === 'FROM' && this.isKeyword(previous, 'DISTINCT')) {
+        continue;
+      }
+      // BigQuery SELECT * EXCEPT (...)
+      if (SET_OPERATORS.has(words[0]) && previous?.kind === 'token' && previous.token.value === '*') {
+        continue;
+      }
+      return { name, length: words.length };
+    }
+    return null;
+  }
+
+  /**
+   * JOIN 계열 키워드([NATURAL] [LEFT|RIGHT|FULL|INNER|CROSS] [OUTER] JOIN, CROSS/OUTER APPLY)의 단어 수를 반환합니다.
+   */
+  private matchJoin(nodes: SqlNode[], index: number): number {
+    let end = index;
+    while (end < nodes.length && JOIN_MODIFIERS.has(this.getWord(nodes[end]))) {
+      end++;
+    }
+
+    const word = this.isKeyword(nodes[end]) ? this.getWord(nodes[end]) : '';
+    if (word === 'JOIN' || word === 'STRAIGHT_JOIN' || (word === 'APPLY' && end > index)) {
+      return end - index + 1;
+    }
+    return 0;
+  }
+
+  /**
+   * 최상위 쉼표로 목록을 나눕니다.
+   */
+  private splitList(nodes: SqlNode[]): SqlList {
+    const list: SqlList = { items: [[]], separators: [] };
+    for (const node of nodes) {
+      if (node.kind === 'token' && node.token.value === ',') {
+        list.separators.push(node);
+        list.items.push([]);
+      } else {
+        list.items[list.items.length - 1].push(node);
+      }
+    }
+    return list;
+  }
+
+  /**
+   * 최상위 AND/OR로 조건을 나눕니다. BETWEEN ... AND와 CASE 식 안의 AND/OR는 나누지 않습니다.
+   */
+  private splitConditions(nodes: SqlNode[]): SqlCondition[] {
+    const conditions: SqlCondition[] = [{ operator: null, nodes: [] }];
+    let caseDepth = 0;
+    let inBetween = false;
+
+    for (const node of nodes) {
+      const word = this.isKeyword(node) ? this.getWord(node) : '';
+      if (word === 'CASE') {
+        caseDepth++;
+      } else if (word === 'END' && caseDepth > 0) {
+        caseDepth--;
+      } else if (word === 'BETWEEN') {
+        inBetween = true;
+      } else if ((word === 'AND' || word === 'OR') && caseDepth === 0) {
+        if (word === 'AND' && inBetween) {
+          inBetween = false;
+        } else {
+          conditions.push({ operator: node as SqlTokenNode, nodes: [] });
+          continue;
+        }
+      }
+      conditions[conditions.length - 1].nodes.push(node);
+    }
+    return conditions;
+  }
+
+  /**
+   * index의 CASE와 짝이 맞는 END 위치를 찾습니다. 없으면 -1을 반환합니다.
+   */
+  private findCaseEnd(nodes: SqlNode[], index: number): number {
+    let depth = 0;
+    for (let i = index; i < nodes.length; i++) {
+      if (this.isKeyword(nodes[i], 'CASE')) {
+        depth++;
+      } else if (this.isKeyword(nodes[i], 'END') && --depth === 0) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * SELECT 수식어(방언 수식어, DISTINCT, ALL)가 차지하는 노드 수를 반환합니다.
+   */
+  private getSelectModifierLength(body: SqlNode[]): number {
+    const text = (nodes: SqlNode[]): string => nodes
+      .map(node => node.kind === 'token' ? node.token.value : `(${text(node.children)})`)
+      .join(' ');
+
+    const columns = text(body);
+    const match = this.rules.selectModifier?.exec(columns) ?? /^(?:DISTINCT|ALL)\b/i.exec(columns);
+    if (!match) {
+      return 0;
+    }
+
+    for (let length = 1; length <= body.length; length++) {
+      if (text(body.slice(0, length)).length >= match[0].length) {
+        return length;
+      }
+    }
+    return body.length;
+  }
+
+  private isQuery(children: SqlNode[]): boolean {
+    return this.isKeyword(children[0]) && QUERY_STARTS.has(this.getWord(children[0]));
+  }
+
+  /**
+   * 괄호 그룹이 함수 호출 인자인지 확인합니다. (식별자 뒤, 또는 공백 없이 붙은 키워드 뒤)
+   */
+  private isFunctionCall(node: SqlGroupNode, previous: SqlNode | undefined): boolean {
+    if (previous?.kind !== 'token') {
+      return false;
+    }
+    if (previous.token.type === 'identifier') {
+      return true;
+    }
+    return previous.token.type === 'keyword' && !node.open.spaceBefore &&
+      !NON_CALL_KEYWORDS.has(previous.token.value.toUpperCase());
+  }
+
+  private needsSpace(previous: SqlNode, node: SqlNode): boolean {
+    if (node.kind === 'token' && (node.token.value === ',' || node.token.value === ';')) {
+      return false;
+    }
+    if (previous.kind === 'token' && previous.token.value === ',') {
+      return true;
+    }
+    return node.kind === 'token' ? node.spaceBefore : node.open.spaceBefore;
+  }
+
+  private isKeyword(node: SqlNode | undefined, word?: string): boolean {
+    return node?.kind === 'token' && node.token.type === 'keyword' &&
+      (word === undefined || node.token.value.toUpperCase() === word);
+  }
+
+  /**
+   * 키워드나 따옴표 없는 식별자의 대문자 값을 반환합니다. 그 밖의 노드는 빈 문자열입니다.
+   */
+  private getWord(node: SqlNode | undefined): string {
+    if (node?.kind !== 'token' || (node.token.type !== 'keyword' && node.token.type !== 'identifier') ||
+      TokenUtils.isOpaque(node.token)) {
+      return '';
+    }
+    return node.token.value.toUpperCase();
+  }
+
+  private isPunctuation(node: SqlNode | undefined, value: string): boolean {
+    return node?.kind === 'token' && node.token.value === value;
+  }
+
+  private isLineComment(comment: SqlTokenNode): boolean {
+    return !comment.token.value.startsWith('/*');
+  }
+}
@@ -0,0 +1,548 @@
+/**
+ * 줄 단위 비교(diff) 서비스
+ * Myers 알고리즘으로 두 텍스트의 최소 편집 경로를 구해 헝크로 묶고,
+ * 일부만 바뀐 줄은 문자 단위로 다시 비교해 바뀐 범위를 표시합니다.
+ */
+
+import { CharRange, DiffHunk, DiffLine, DiffResult, LineRange, UnifiedDiffFile } from '../types/DiffTypes';
+
+/**
+ * 편집 연산 (원소 하나 단위)
+ */
+type EditOperation = 'equal' | 'delete' | 'insert';
+
+export class DiffService {
+  /** 헝크 앞뒤에 붙이는 기본 문맥 줄 수 */
+  public static readonly DEFAULT_CONTEXT_LINES = 3;
+
+  /** 삭제/추가 줄을 수정 줄로 묶는 최소 문자 유사도 (0~1) */
+  private static readonly MODIFIED_SIMILARITY = 0.5;
+
+  /** 문자 단위 비교를 수행할 최대 줄 길이 (넘으면 앞뒤 공통 부분만 제외) */
+  private static readonly MAX_CHAR_DIFF_LENGTH = 2000;
+
+  /**
+   * 두 텍스트를 줄 단위로 비교합니다.
+   * @param original 원본 텍스트
+   * @param formatted 비교할 텍스트
+   * @param contextLines 변경 줄 앞뒤에 포함할 문맥 줄 수 (Infinity이면 전체를 하나의 헝크로 반환)
+   * @returns 비교 결과
+   */
+  public static computeDiff(
+    original: string,
+    formatted: string,
+    contextLines: number = DiffService.DEFAULT_CONTEXT_LINES
+  ): DiffResult {
+    return this.computeLineDiff(original.split('\n'), formatted.split('\n'), contextLines);
+  }
+
+  /**
+   * 두 줄 배열을 비교합니다.
+   * @param oldLines 원본 줄 배열
+   * @param newLines 비교할 줄 배열
+   * @param contextLines 변경 줄 앞뒤에 포함할 문맥 줄 수
+   * @returns 비교 결과
+   */
+  public static computeLineDiff(
+    oldLines: string[],
+    newLines: string[],
+    contextLines: number = DiffService.DEFAULT_CONTEXT_LINES
+  ): DiffResult {
+    const lines = this.buildDiffLines(oldLines, newLines);
+    const result: DiffResult = {
+      hunks: this.groupHunks(lines, contextLines),
+      addedLines: lines.filter(line => line.type === 'added').length,
+      removedLines: lines.filter(line => line.type === 'removed').length,
+      modifiedLines: lines.filter(line => line.type === 'modified').length,
+      changedLines: 0
+    };
+    result.changedLines = result.addedLines + result.removedLines + result.modifiedLines;
+    return result;
+  }
+
+  /**
+   * 변경된 줄 수를 계산합니다. (추가 + 삭제 + 수정)
+   * @param originalLines 원본 줄 배열
+   * @param formattedLines 포매팅된 줄 배열
+   */
+  public static countChangedLines(originalLines: string[], formattedLines: string[]): number {
+    return this.computeLineDiff(originalLines, formattedLines, 0).changedLines;
+  }
+
+  /**
+   * unified diff를 파일별 변경 줄 범위로 읽습니다.
+   * `a/`, `b/` 접두사(git 기본값)는 떼어내며, 변경 후 파일에서 '+'로 시작하는 줄만 변경 줄로 봅니다.
+   * @param diff unified diff 텍스트 (`git diff`, `diff -u` 출력)
+   * @returns 파일별 변경 정보 (diff 순서)
+   */
+  public static parseUnifiedDiff(diff: string): UnifiedDiffFile[] {
+    const files: UnifiedDiffFile[] = [];
+    let oldPath: string | null = null;
+    let current: { file: UnifiedDiffFile; lines: number[] } | null = null;
+    let oldRemaining = 0;
+    let newRemaining = 0;
+    let newLineNumber = 0;
+
+    const finish = () => {
+      if (current) {
+        current.file.changedRanges = this.toLineRanges(current.lines);
+        files.push(current.file);
+        current = null;
+      }
+    };
+
+    for (const rawLine of diff.split('\n')) {
+      const line = rawLine.replace(/\r$/, '');
+
+      // 헝크 본문: 헤더의 줄 수만큼 읽음
+      if (oldRemaining > 0 || newRemaining > 0) {
+        if (line.startsWith('\\')) {
+          continue;
+        }
+        if (line.startsWith('+')) {
+          current?.lines.push(newLineNumber);
+          newLineNumber++;
+          newRemaining--;
+        } else if (line.startsWith('-')) {
+          oldRemaining--;
+        } else {
+          newLineNumber++;
+          oldRemaining--;
+          newRemaining--;
+        }
+        continue;
+      }
+
+      if (line.startsWith('diff ')) {
+        finish();
+      } else if (line.startsWith('--- ')) {
+        finish();
+        oldPath = this.parseDiffPath(line.slice(4));
+      } else if (line.startsWith('+++ ')) {
+        const newPath = this.parseDiffPath(line.slice(4));
+        const stripPrefix = (oldPath === null || oldPath.startsWith('a/')) && (newPath === null || newPath.startsWith('b/'));
+        current = {
+          file: {
+            oldPath: stripPrefix && oldPath ? oldPath.slice(2) : oldPath,
+            newPath: stripPrefix && newPath ? newPath.slice(2) : newPath,
+            changedRanges: []
+          },
+          lines: []
+        };
+      } else if (current) {
+        const header = line.match(/^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+        if (header) {
+          oldRemaining = header[1] === undefined ? 1 : Number(header[1]);
+          newLineNumber = Number(header[2]);
+          newRemaining = header[3] === undefined ? 1 : Number(header[3]);
+        }
+      }
+    }
+
+    finish();
+    return files;
+  }
+
+  /**
+   * diff 헤더의 경로를 읽습니다. (탭 뒤의 타임스탬프와 따옴표 제거, /dev/null이면 null)
+   */
+  private static parseDiffPath(value: string): string | null {
+    const path = value.split('\t')[0].trim();
+    const unquoted = /^".*"$/.test(path) ? path.slice(1, -1).replace(/\\(.)/g, '$1') : path;
+    return unquoted === '/dev/null' ? null : unquoted;
+  }
+
+  /**
+   * 오름차순 줄 번호를 연속된 범위로 묶습니다.
+   */
+  private static toLineRanges(lineNumbers: number[]): LineRange[] {
+    const ranges: LineRange[] = [];
+    for (const lineNumber of lineNumbers) {
+      const last = ranges[ranges.length - 1];
+      if (last && last.endLine + 1 === lineNumber) {
+        last.endLine = lineNumber;
+      } else {
+        ranges.push({ startLine: lineNumber, endLine: lineNumber });
+      }
+    }
+    return ranges;
+  }
+
+  /**
+   * 편집 연산을 비교 줄 목록으로 변환합니다.
+   * 연속된 삭제/추가 구간은 순서대로 짝지어 비슷한 줄이면 수정 줄로 묶습니다.
+   */
+  private static buildDiffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+    const operations = this.diffSequences(this.toSymbols(oldLines, newLines));
+    const lines: DiffLine[] = [];
+    let oldIndex = 0;
+    let newIndex = 0;
+    let index = 0;
+
+    while (index < operations.length) {
+      if (operations[index] === 'equal') {
+        lines.push({
+          type: 'context',
+          oldLineNumber: oldIndex + 1,
+          newLineNumber: newIndex + 1,
+          oldText: oldLines[oldIndex],
+          newText: newLines[newIndex]
+        });
+        oldIndex++;
+        newIndex++;
+        index++;
+        continue;
+      }
+
+      // 변경 구간 (삭제와 추가가 섞여 있을 수 있음)
+      const deleted: number[] = [];
+      const inserted: number[] = [];
+      while (index < operations.length && operations[index] !== 'equal') {
+        if (operations[index] === 'delete') {
+          deleted.push(oldIndex++);
+        } else {
+          inserted.push(newIndex++);
+        }
+        index++;
+      }
+
+      const pairCount = Math.min(deleted.length, inserted.length);
+      const removedLines: DiffLine[] = [];
+      const addedLines: DiffLine[] = [];
+      for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) {
+        const oldLine = deleted[i];
+        const newLine = inserted[i];
+        if (i < pairCount) {
+          const ranges = this.diffCharacters(oldLines[oldLine], newLines[newLine]);
+          if (ranges.similarity >= this.MODIFIED_SIMILARITY) {
+            lines.push({
+              type: 'modified',
+              oldLineNumber: oldLine + 1,
+              newLineNumber: newLine + 1,
+              oldText: oldLines[oldLine],
+              newText: newLines[newLine],
+              oldRanges: ranges.oldRanges,
+              newRanges: ranges.newRanges
+            });
+            continue;
+          }
+        }
+        if (oldLine !== undefined) {
+          removedLines.push({ type: 'removed', oldLineNumber: oldLine + 1, oldText: oldLines[oldLine] });
+        }
+        if (newLine !== undefined) {
+          addedLines.push({ type: 'added', newLineNumber: newLine + 1, newText: newLines[newLine] });
+        }
+      }
+      lines.push(...removedLines, ...addedLines);
+    }
+
+    return lines;
+  }
+
+  /**
+   * 비교 줄을 문맥 줄 수에 맞춰 헝크로 묶습니다.
+   */
+  private static groupHunks(lines: DiffLine[], contextLines: number): DiffHunk[] {
+    const changedIndexes = lines
+      .map((line, index) => (line.type === 'context' ? -1 : index))
+      .filter(index => index !== -1);
+
+    if (!isFinite(contextLines)) {
+      return lines.length > 0 ? [this.createHunk(lines, 0, lines.length - 1)] : [];
+    }
+
+    const hunks: DiffHunk[] = [];
+    let start = -1;
+    let end = -1;
+    for (const index of changedIndexes) {
+      if (start !== -1 && index - contextLines <= end + 1) {
+        end = Math.min(lines.length - 1, index + contextLines);
+        continue;
+      }
+      if (start !== -1) {
+        hunks.push(this.createHunk(lines, start, end));
+      }
+      start = Math.max(0, index - contextLines);
+      end = Math.min(lines.length - 1, index + contextLines);
+    }
+    if (start !== -1) {
+      hunks.push(this.createHunk(lines, start, end));
+    }
+
+    return hunks;
+  }
+
+  private static createHunk(lines: DiffLine[], start: number, end: number): DiffHunk {
+    const hunkLines = lines.slice(start, end + 1);
+    const oldNumbers = hunkLines.filter(line => line.oldLineNumber !== undefined).map(line => line.oldLineNumber!);
+    const newNumbers = hunkLines.filter(line => line.newLineNumber !== undefined).map(line => line.newLineNumber!);
+
+    return {
+      oldStart: oldNumbers[0] ?? this.previousLineNumber(lines, start, 'oldLineNumber'),
+      oldLines: oldNumbers.length,
+      newStart: newNumbers[0] ?? this.previousLineNumber(lines, start, 'newLineNumber'),
+      newLines: newNumbers.length,
+      lines: hunkLines
+    };
+  }
+
+  /**
+   * 한쪽 줄이 없는 헝크의 시작 번호 (unified diff 관례에 따라 헝크 직전 줄 번호, 없으면 0)
+   */
+  private static previousLineNumber(
+    lines: DiffLine[],
+    start: number,
+    key: 'oldLineNumber' | 'newLineNumber'
+  ): number {
+    for (let index = start - 1; index >= 0; index--) {
+      const lineNumber = lines[index][key];
+      if (lineNumber !== undefined) {
+        return lineNumber;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * 두 줄을 문자 단위로 비교해 바뀐 범위와 유사도를 구합니다.
+   */
+  private static diffCharacters(oldText: string, newText: string): {
+    oldRanges: CharRange[];
+    newRanges: CharRange[];
+    similarity: number;
+  } {
+    const totalLength = oldText.length + newText.length;
+    if (totalLength === 0) {
+      return { oldRanges: [], newRanges: [], similarity: 1 };
+    }
+
+    // 너무 긴 줄은 앞뒤 공통 부분만 제외하고 가운데를 바뀐 범위로 표시
+    if (oldText.length > this.MAX_CHAR_DIFF_LENGTH || newText.length > this.MAX_CHAR_DIFF_LENGTH) {
+      let prefix = 0;
+      while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) {
+        prefix++;
+      }
+      let suffix = 0;
+      while (
+        suffix < oldText.length - prefix && suffix < newText.length - prefix &&
+        oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+      ) {
+        suffix++;
+      }
+      return {
+        oldRanges: prefix < oldText.length - suffix ? [{ start: prefix, end: oldText.length - suffix }] : [],
+        newRanges: prefix < newText.length - suffix ? [{ start: prefix, end: newText.length - suffix }] : [],
+        similarity: (prefix + suffix) * 2 / totalLength
+      };
+    }
+
+    const operations = this.diffSequences(this.toSymbols(Array.from(oldText), Array.from(newText)));
+    const oldRanges: CharRange[] = [];
+    const newRanges: CharRange[] = [];
+    let oldIndex = 0;
+    let newIndex = 0;
+    let equalCount = 0;
+
+    const addRange = (ranges: CharRange[], position: number) => {
+      const last = ranges[ranges.length - 1];
+      if (last && last.end === position) {
+        last.end++;
+      } else {
+        ranges.push({ start: position, end: position + 1 });
+      }
+    };
+
+    // Array.from은 서로게이트 쌍을 한 문자로 다루므로 UTF-16 오프셋으로 변환하며 진행
+    const oldChars = Array.from(oldText);
+    const newChars = Array.from(newText);
+    let oldOffset = 0;
+    let newOffset = 0;
+    for (const operation of operations) {
+      if (operation === 'equal') {
+        equalCount += 2;
+        oldOffset += oldChars[oldIndex++].length;
+        newOffset += newChars[newIndex++].length;
+      } else if (operation === 'delete') {
+        const length = oldChars[oldIndex++].length;
+        for (let i = 0; i < length; i++) {
+          addRange(oldRanges, oldOffset + i);
+        }
+        oldOffset += length;
+      } else {
+        const length = newChars[newIndex++].length;
+        for (let i = 0; i < length; i++) {
+          addRange(newRanges, newOffset + i);
+        }
+        newOffset += length;
+      }
+    }
+
+    return {
+      oldRanges,
+      newRanges,
+      similarity: equalCount / (oldChars.length + newChars.length)
+    };
+  }
+
+  /**
+   * 두 배열의 원소를 정수 기호로 바꿉니다. (같은 값은 같은 기호)
+   */
+  private static toSymbols(oldItems: string[], newItems: string[]): [number[], number[]] {
+    const symbols = new Map<string, number>();
+    const toSymbol = (item: string): number => {
+      let symbol = symbols.get(item);
+      if (symbol === undefined) {
+        symbol = symbols.size;
+        symbols.set(item, symbol);
+      }
+      return symbol;
+    };
+    return [oldItems.map(toSymbol), newItems.map(toSymbol)];
+  }
+
+  /**
+   * Myers 알고리즘으로 두 수열의 최소 편집 연산을 구합니다.
+   * 가운데 스네이크(middle snake)를 찾아 나누어 정복하므로 메모리는 선형으로 사용합니다.
+   */
+  private static diffSequences([oldItems, newItems]: [number[], number[]]): EditOperation[] {
+    const operations: EditOperation[] = [];
+    this.diffRange(oldItems, 0, oldItems.length, newItems, 0, newItems.length, operations);
+    return operations;
+  }
+
+  private static diffRange(
+    a: number[], aStart: number, aEnd: number,
+    b: number[], bStart: number, bEnd: number,
+    operations: EditOperation[]
+  ): void {
+    // 공통 앞부분
+    let prefix = 0;
+    while (aStart + prefix < aEnd && bStart + prefix < bEnd && a[aStart + prefix] === b[bStart + prefix]) {
+      prefix++;
+    }
+    for (let i = 0; i < prefix; i++) {
+      operations.push('equal');
+    }
+    aStart += prefix;
+    bStart += prefix;
+
+    // 공통 뒷부분 (마지막에 추가)
+    let suffix = 0;
+    while (aStart < aEnd - suffix && bStart < bEnd - suffix && a[aEnd - 1 - suffix] === b[bEnd - 1 - suffix]) {
+      suffix++;
+    }
+    aEnd -= suffix;
+    bEnd -= suffix;
+
+    if (aStart === aEnd) {
+      for (let i = bStart; i < bEnd; i++) {
+        operations.push('insert');
+      }
+    } else if (bStart === bEnd) {
+      for (let i = aStart; i < aEnd; i++) {
+        operations.push('delete');
+      }
+    } else {
+      const [x, y] = this.findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd);
+      if ((x === aStart && y === bStart) || (x === aEnd && y === bEnd)) {
+        // 나눌 수 없는 경우 (공통 원소 없음)
+        for (let i = aStart; i < aEnd; i++) {
+          operations.push('delete');
+        }
+        for (let i = bStart; i < bEnd; i++) {
+          operations.push('insert');
+        }
+      } else {
+        this.diffRange(a, aStart, x, b, bStart, y, operations);
+        this.diffRange(a, x, aEnd, b, y, bEnd, operations);
+      }
+    }
+
+    for (let i = 0; i < suffix; i++) {
+      operations.push('equal');
+    }
+  }
+
+  /**
+   * 정방향/역방향 탐색이 만나는 지점을 찾습니다.
+   * @returns 분할 지점 [a 위치, b 위치]
+   */
+  private static findMiddleSnake(
+    a: number[], aStart: number, aEnd: number,
+    b: number[], bStart: number, bEnd: number
+  ): [number, number] {
+    const n = aEnd - aStart;
+    const m = bEnd - bStart;
+    const maxD = Math.ceil((n + m) / 2);
+    const offset = maxD;
+    const size = 2 * maxD + 2;
+    const forward = new Int32Array(size).fill(-1);
+    const backward = new Int32Array(size).fill(-1);
+    forward[offset + 1] = 0;
+    backward[offset + 1] = 0;
+    const delta = n - m;
+    const frontCheck = delta % 2 !== 0;
+    let forwardStart = 0;
+    let forwardEnd = 0;
+    let backwardStart = 0;
+    let backwardEnd = 0;
+
+    for (let d = 0; d < maxD; d++) {
+      // 정방향 탐색
+      for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+        const index = offset + k;
+        let x = k === -d || (k !== d && forward[index - 1] < forward[index + 1])
+          ? forward[index + 1]
+          : forward[index - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+          x++;
+          y++;
+        }
+        forward[index] = x;
+        if (x > n) {
+          forwardEnd += 2;
+        } else if (y > m) {
+          forwardStart += 2;
+        } else if (frontCheck) {
+          const backwardIndex = offset + delta - k;
+          if (backwardIndex >= 0 && backwardIndex < size && backward[backwardIndex] !== -1 &&
+            x >= n - backward[backwardIndex]) {
+            return [aStart + x, bStart + y];
+          }
+        }
+      }
+
+      // 역방향 탐색
+      for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+        const index = offset + k;
+        let x = k === -d || (k !== d && backward[index - 1] < backward[index + 1])
+          ? backward[index + 1]
+          : backward[index - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+          x++;
+          y++;
+        }
+        backward[index] = x;
+        if (x > n) {
+          backwardEnd += 2;
+        } else if (y > m) {
+          backwardStart += 2;
+        } else if (!frontCheck) {
+          const forwardIndex = offset + delta - k;
+          if (forwardIndex >= 0 && forwardIndex < size && forward[forwardIndex] !== -1) {
+            const forwardX = forward[forwardIndex];
+            const forwardY = forwardX - (forwardIndex - offset);
+            if (forwardX >= n - x) {
+              return [aStart + forwardX, bStart + forwardY];
+            }
+          }
+        }
+      }
+    }
+
+    return [aStart, bStart];
+  }
+}
@@ -7,29 +7,35 @@ import {
   SupportedLanguage, 
   FormattingConvention, 
   FormattingResult,
+  RangeFormattingResult,
+  Diagnostic,
   PresetConvention,
   IdeExportResult,
   IdeExportFormat,
-  JavaFormattingConvention,
-  JsonFormattingConvention,
-  JavaScriptFormattingConvention,
-  KotlinFormattingConvention,
-  SqlFormattingConvention
+  IdeImportOptions,
+  IdeImportResult,
+  LanguageDetectionResult,
+  SqlDialect
 } from '../types/FormattingTypes';
 
-import { 
-  ALL_PRESETS, 
-  PRESETS_BY_LANGUAGE, 
-  POPULAR_PRESETS, 
-  OFFICIAL_PRESETS 
-} from '../constants/PresetConventions';
+import { ConventionFieldDescriptor } from '../types/ConventionSchemaTypes';
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { StyleDetectionResult } from '../types/StyleDetectionTypes';
+import { LineRange, UnifiedDiffFile } from '../types/DiffTypes';
 
-import { JavaFormatter } from '../formatters/JavaFormatter';
 import { JsonFormatter } from '../formatters/JsonFormatter';
-import { JavaScriptFormatter } from '../formatters/JavaScriptFormatter';
-import { KotlinFormatter } from '../formatters/KotlinFormatter';
+import { YamlFormatter } from '../formatters/YamlFormatter';
 import { SqlFormatter } from '../formatters/SqlFormatter';
 import { IdeExporter } from '../utils/IdeExporter';
+import { IdeImporter } from '../utils/IdeImporter';
+import { StyleDetector } from '../utils/StyleDetector';
+import { LanguageDetector } from '../utils/LanguageDetector';
+import { FormattingVerifier } from '../utils/FormattingVerifier';
+import { DiagnosticCollector } from '../utils/DiagnosticCollector';
+import { RangeFormatter } from '../utils/RangeFormatter';
+import { DiffService } from './DiffService';
+import { UserPresetService } from './UserPresetService';
+import { LanguageRegistry } from './LanguageRegistry';
 
 /**
  * 포매팅 서비스 메인 클래스
@@ -37,8 +43,19 @@ import { IdeExporter } from '../utils/IdeExporter';
  */
 export class FormattingService {
   
+  /**
+   * 언어의 포매터가 쓰는 모듈을 불러옵니다. (JavaScript/TypeScript의 TypeScript 파서 등)
+   * 포매팅 API는 동기이므로 formatCode, formatRange, formatChangedLines 전에 완료돼야 합니다.
+   * @param language 프로그래밍 언어
+   */
+  public static async loadLanguage(language: SupportedLanguage): Promise<void> {
+    await LanguageRegistry.require(language).load?.();
+  }
+
   /**
    * 지정된 언어와 컨벤션으로 코드를 포매팅합니다.
+   * 결과를 다시 포매팅해도 같은지(멱등성), 공백을 제외한 토큰 흐름이 원본과 같은지 검증하며,
+   * 검증에 실패하면 원본 코드와 함께 오류를 반환합니다.
    * @param code 포매팅할 코드
    * @param language 프로그래밍 언어
    * @param convention 포매팅 컨벤션
@@ -52,51 +69,241 @@ export class FormattingService {
     try {
       // 입력 검증
       if (!code || code.trim() === '') {
+        const diagnostics = new DiagnosticCollector();
+        diagnostics.warning('empty-input', '입력된 코드가 비어있습니다.');
         return {
           formattedCode: code,
           changedLines: 0,
-          warnings: ['입력된 코드가 비어있습니다.'],
-          errors: [],
+          warnings: diagnostics.warnings,
+          errors: diagnostics.errors,
+          diagnostics: diagnostics.diagnostics,
           processingTime: 0
         };
       }
 
-      // 언어별 포매터 생성 및 실행
-      switch (language) {
-        case 'java':
-          const javaFormatter = new JavaFormatter(convention as JavaFormattingConvention);
-          return javaFormatter.format(code);
-          
-        case 'json':
-          const jsonFormatter = new JsonFormatter(convention as JsonFormattingConvention);
-          return jsonFormatter.format(code);
-          
-        case 'javascript':
-          const jsFormatter = new JavaScriptFormatter(convention as JavaScriptFormattingConvention);
-          return jsFormatter.format(code);
-          
-        case 'kotlin':
-          const kotlinFormatter = new KotlinFormatter(convention as KotlinFormattingConvention);
-          return kotlinFormatter.format(code);
-          
-        case 'sql':
-          const sqlFormatter = new SqlFormatter(convention as SqlFormattingConvention);
-          return sqlFormatter.format(code);
-          
-        default:
-          throw new Error(`지원되지 않는 언어입니다: ${language}`);
+      const startTime = Date.now();
+      const result = this.runFormatter(code, language, convention);
+      if (result.errors.length > 0 || result.formattedCode === code) {
+        return result;
+      }
+
+      // 결과 검증 (의미 보존, 멱등성)
+      const verificationError = FormattingVerifier.verify(
+        language,
+        code,
+        result.formattedCode,
+        formatted => this.runFormatter(formatted, language, convention),
+        convention
+      );
+      if (verificationError) {
+        // 포매팅 결과를 버리므로 결과 기준의 진단도 함께 버림
+        const diagnostics = new DiagnosticCollector();
+        diagnostics.error(
+          `verify-${verificationError.check}`,
+          `포매팅 결과 검증 실패: ${verificationError.message}`,
+          {
+            startLine: verificationError.line,
+            startColumn: verificationError.column,
+            endLine: verificationError.line,
+            endColumn: verificationError.column
+          }
+        );
+        return {
+          formattedCode: code,
+          changedLines: 0,
+          warnings: diagnostics.warnings,
+          errors: diagnostics.errors,
+          diagnostics: diagnostics.diagnostics,
+          processingTime: Date.now() - startTime,
+          verificationError
+        };
       }
+
+      return { ...result, processingTime: Date.now() - startTime };
     } catch (error) {
+      const diagnostics = new DiagnosticCollector();
+      diagnostics.error('internal-error', `포매팅 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
       return {
         formattedCode: code,
         changedLines: 0,
-        warnings: [],
-        errors: [`포매팅 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`],
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
         processingTime: 0
       };
     }
   }
 
+  /**
+   * 선택한 줄만 포매팅합니다.
+   * 범위를 떼어 formatCode와 같은 검증을 거쳐 포매팅하고, 바로 앞 코드 줄에서 추론한 들여쓰기를 붙입니다.
+   * Python/YAML처럼 들여쓰기가 구조인 언어는 범위 첫 줄의 원래 들여쓰기를 붙입니다.
+   * 붙인 전체 코드도 의미 보존과 구문 분석을 다시 검증하며, 실패하면 원본 코드와 함께 오류를 반환합니다.
+   * 범위 밖의 줄은 바이트 단위로 그대로 유지됩니다.
+   * @param code 전체 코드
+   * @param language 프로그래밍 언어
+   * @param convention 포매팅 컨벤션
+   * @param startLine 시작 줄 (1부터 시작)
+   * @param endLine 끝 줄 (포함)
+   * @returns 범위 포매팅 결과 (startLine/endLine은 결과 코드 기준 범위)
+   */
+  public static formatRange(
+    code: string,
+    language: SupportedLanguage,
+    convention: FormattingConvention,
+    startLine: number,
+    endLine: number
+  ): RangeFormattingResult {
+    const result = RangeFormatter.format(
+      code,
+      startLine,
+      endLine,
+      convention,
+      (snippet, snippetConvention) => this.formatCode(snippet, language, snippetConvention),
+      LanguageRegistry.get(language)?.indentationSensitive ?? false
+    );
+    if (result.errors.length > 0 || result.formattedCode === code) {
+      return result;
+    }
+
+    // 조각만으로는 올바르지만 주변 코드와 합치면 구조가 바뀌는 경우를 막기 위해 전체 코드를 다시 검증
+    const spliceError = this.checkSplicedCode(code, result.formattedCode, language, convention);
+    if (spliceError) {
+      const diagnostics = new DiagnosticCollector();
+      diagnostics.error('verify-range', `범위 포매팅 결과 검증 실패: ${spliceError}`, {
+        startLine,
+        startColumn: 1,
+        endLine: Math.min(endLine, code.split('\n').length),
+        endColumn: 1
+      });
+      return {
+        formattedCode: code,
+        changedLines: 0,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
+        processingTime: result.processingTime,
+        startLine,
+        endLine
+      };
+    }
+    return result;
+  }
+
+  /**
+   * 범위 포매팅 결과를 붙인 전체 코드가 원본과 같은 의미이고 여전히 구문 분석되는지 확인합니다.
+   * @returns 실패 이유 (통과하면 null)
+   */
+  private static checkSplicedCode(
+    original: string,
+    spliced: string,
+    language: SupportedLanguage,
+    convention: FormattingConvention
+  ): string | null {
+    const verificationError = FormattingVerifier.verifySemantics(language, original, spliced, convention);
+    if (verificationError) {
+      return verificationError.message;
+    }
+
+    // 원본부터 구문 분석되지 않는 파일은 범위 밖 코드 때문이므로 비교하지 않음
+    const reparsed = this.runFormatter(spliced, language, convention);
+    if (reparsed.errors.length > 0 && this.runFormatter(original, language, convention).errors.length === 0) {
+      return `범위를 붙인 코드를 구문 분석할 수 없습니다: ${reparsed.errors[0]}`;
+    }
+    return null;
+  }
+
+  /**
+   * 바뀐 줄 범위만 포매팅합니다. (diff가 건드린 줄에만 컨벤션 적용)
+   * 범위마다 formatRange를 아래쪽부터 적용하며, 포매팅할 수 없는 범위(문장 일부만 바뀐 경우 등)는
+   * 경고를 남기고 그대로 둡니다. 범위 밖의 줄은 바이트 단위로 그대로 유지됩니다.
+   * @param code 전체 코드
+   * @param language 프로그래밍 언어
+   * @param convention 포매팅 컨벤션
+   * @param ranges 포매팅할 줄 범위 (원본 코드 기준)
+   * @returns 포매팅 결과
+   */
+  public static formatChangedLines(
+    code: string,
+    language: SupportedLanguage,
+    convention: FormattingConvention,
+    ranges: LineRange[]
+  ): FormattingResult {
+    const startTime = Date.now();
+    const sorted = [...ranges].sort((a, b) => a.startLine - b.startLine);
+    const merged: LineRange[] = [];
+    for (const range of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && range.startLine <= last.endLine + 1) {
+        last.endLine = Math.max(last.endLine, range.endLine);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+
+    let formattedCode = code;
+    let changedLines = 0;
+    let diagnostics: Diagnostic[] = [];
+    // 아래 범위부터 포매팅해 위쪽 범위의 줄 번호가 바뀌지 않게 함
+    for (const range of merged.reverse()) {
+      const result = this.formatRange(formattedCode, language, convention, range.startLine, range.endLine);
+      if (result.errors.length > 0) {
+        const skipped = new DiagnosticCollector();
+        skipped.warning(
+          'changed-lines-skipped',
+          `${range.startLine}~${range.endLine}줄을 포매팅하지 못해 그대로 둡니다: ${result.errors[0]}`,
+          { startLine: range.startLine, startColumn: 1, endLine: range.endLine, endColumn: 1 }
+        );
+        diagnostics = [...skipped.diagnostics, ...diagnostics];
+        continue;
+      }
+
+      // 이미 처리한 아래쪽 진단은 줄 수 변화만큼 이동
+      const lineDelta = result.endLine - range.endLine;
+      diagnostics = [
+        ...result.diagnostics,
+        ...diagnostics.map(diagnostic => ({
+          ...diagnostic,
+          startLine: diagnostic.startLine + lineDelta,
+          endLine: diagnostic.endLine + lineDelta
+        }))
+      ];
+      formattedCode = result.formattedCode;
+      changedLines += result.changedLines;
+    }
+
+    return {
+      formattedCode,
+      changedLines,
+      warnings: diagnostics.filter(diagnostic => diagnostic.severity === 'warning').map(diagnostic => diagnostic.message),
+      errors: diagnostics.filter(diagnostic => diagnostic.severity === 'error').map(diagnostic => diagnostic.message),
+      diagnostics,
+      processingTime: Date.now() - startTime
+    };
+  }
+
+  /**
+   * unified diff(`git diff` 출력)를 파일별 변경 줄 범위로 읽습니다.
+   * 각 파일의 changedRanges를 formatChangedLines에 넘기면 diff가 건드린 줄만 포매팅됩니다.
+   * @param diff unified diff 텍스트
+   * @returns 파일별 변경 정보
+   */
+  public static parseUnifiedDiff(diff: string): UnifiedDiffFile[] {
+    return DiffService.parseUnifiedDiff(diff);
+  }
+
+  /**
+   * 언어별 포매터를 생성해 실행합니다.
+   */
+  private static runFormatter(
+    code: string,
+    language: SupportedLanguage,
+    convention: FormattingConvention
+  ): FormattingResult {
+    const plugin = LanguageRegistry.require(language);
+    return plugin.createFormatter(convention).format(code);
+  }
+
   /**
    * JSON을 압축합니다 (한 줄로)
    * @param code JSON 코드
@@ -147,15 +354,51 @@ export class FormattingService {
     return jsonFormatter.prettify(code);
   }
 
+  /**
+   * YAML을 압축합니다 (주석과 빈 줄 제거)
+   * @param code YAML 코드
+   * @returns 압축된 YAML 결과
+   */
+  public static minifyYaml(code: string): FormattingResult {
+    return this.createYamlFormatter('YAML Minifier', 'YAML 압축 도구').minify(code);
+  }
+
+  /**
+   * YAML을 정리합니다 (기본 2 스페이스 들여쓰기)
+   * @param code YAML 코드
+   * @returns 정리된 YAML 결과
+   */
+  public static prettifyYaml(code: string): FormattingResult {
+    return this.createYamlFormatter('YAML Prettifier', 'YAML 정리 도구').prettify(code);
+  }
+
+  private static createYamlFormatter(name: string, description: string): YamlFormatter {
+    return new YamlFormatter({
+      name,
+      description,
+      indentationType: 'space',
+      indentSize: 2,
+      maxLineLength: 120,
+      insertFinalNewline: false,
+      trimTrailingWhitespace: true,
+      quoteStyle: 'single',
+      indentSequences: true,
+      bracketSpacing: true,
+      sortKeys: false
+    });
+  }
+
   /**
    * SQL을 압축합니다
    * @param code SQL 코드
+   * @param dialect SQL 방언 (주석, 따옴표, 배치 구분자를 읽는 규칙)
    * @returns 압축된 SQL 결과
    */
-  public static minifySql(code: string): FormattingResult {
+  public static minifySql(code: string, dialect: SqlDialect = 'standard'): FormattingResult {
     const sqlFormatter = new SqlFormatter({
       name: 'SQL Minifier',
       description: 'SQL 압축 도구',
+      dialect,
       indentationType: 'space',
       indentSize: 0,
       maxLineLength: 0,
@@ -169,7 +412,9 @@ export class FormattingService {
       joinOnNewLine: false,
       indentSubqueries: false,
       functionArgWrapThreshold: 999,
-      insertValuesOnNewLine: false
+      insertValuesOnNewLine: false,
+      alignColumnDefinitions: false,
+      lintQueries: false
     });
     
     return sqlFormatter.minify(code);
@@ -183,19 +428,19 @@ export class FormattingService {
    */
   public static alignByDelimiter(code: string, delimiter: string = '/'): FormattingResult {
     const startTime = Date.now();
-    const warnings: string[] = [];
-    const errors: string[] = [];
+    const diagnostics = new DiagnosticCollector();
 
     try {
       const lines = code.split('\n').filter(line => line.trim() !== '');
       
       if (lines.length === 0) {
-        warnings.push('정렬할 내용이 없습니다.');
+        diagnostics.warning('empty-input', '정렬할 내용이 없습니다.');
         return {
           formattedCode: code,
           changedLines: 0,
-          warnings,
-          errors,
+          warnings: diagnostics.warnings,
+          errors: diagnostics.errors,
+          diagnostics: diagnostics.diagnostics,
           processingTime: Date.now() - startTime
         };
       }
@@ -236,33 +481,35 @@ export class FormattingService {
       const formattedCode = alignedLines.join('\n');
       const originalLines = code.split('\n');
       const newLines = formattedCode.split('\n');
-      const changedLines = this.countChangedLines(originalLines, newLines);
+      const changedLines = DiffService.countChangedLines(originalLines, newLines);
 
       return {
         formattedCode,
         changedLines,
-        warnings,
-        errors,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
         processingTime: Date.now() - startTime
       };
     } catch (error) {
-      errors.push(`정렬 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
+      diagnostics.error('internal-error', `정렬 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
       return {
         formattedCode: code,
         changedLines: 0,
-        warnings,
-        errors,
+        warnings: diagnostics.warnings,
+        errors: diagnostics.errors,
+        diagnostics: diagnostics.diagnostics,
         processingTime: Date.now() - startTime
       };
     }
   }
 
   /**
-   * 모든 프리셋 컨벤션을 반환합니다.
+   * 모든 프리셋 컨벤션을 반환합니다. (내장 프리셋 뒤에 사용자 프리셋)
    * @returns 모든 프리셋 컨벤션 배열
    */
   public static getAllPresets(): PresetConvention[] {
-    return ALL_PRESETS;
+    return [...LanguageRegistry.getAllPresets(), ...UserPresetService.getAll()];
   }
 
   /**
@@ -271,7 +518,17 @@ export class FormattingService {
    * @returns 해당 언어의 프리셋 컨벤션 배열
    */
   public static getPresetsByLanguage(language: SupportedLanguage): PresetConvention[] {
-    return PRESETS_BY_LANGUAGE[language] || [];
+    return LanguageRegistry.get(language)?.presets ?? [];
+  }
+
+  /**
+   * 언어의 기본 프리셋을 반환합니다. (공식 프리셋 우선, 없으면 첫 프리셋)
+   * @param language 프로그래밍 언어
+   * @returns 기본 프리셋 또는 undefined
+   */
+  public static getDefaultPreset(language: SupportedLanguage): PresetConvention | undefined {
+    const presets = this.getPresetsByLanguage(language);
+    return presets.find(preset => preset.isOfficial) || presets[0];
   }
 
   /**
@@ -279,7 +536,9 @@ export class FormattingService {
    * @returns 인기순으로 정렬된 프리셋 컨벤션 배열
    */
   public static getPopularPresets(): PresetConvention[] {
-    return POPULAR_PRESETS;
+    return [...LanguageRegistry.getAllPresets()]
+      .sort((a, b) => b.popularity - a.popularity)
+      .slice(0, 10);
   }
 
   /**
@@ -287,16 +546,27 @@ export class FormattingService {
    * @returns 공식 프리셋 컨벤션 배열
    */
   public static getOfficialPresets(): PresetConvention[] {
-    return OFFICIAL_PRESETS;
+    return LanguageRegistry.getAllPresets()
+      .filter(preset => preset.isOfficial)
+      .sort((a, b) => b.popularity - a.popularity);
   }
 
   /**
-   * 프리셋 ID로 특정 프리셋을 찾습니다.
+   * 프리셋 ID로 특정 프리셋을 찾습니다. 내장 프리셋에 없으면 사용자 프리셋에서 찾습니다.
    * @param presetId 프리셋 ID
    * @returns 해당 프리셋 또는 undefined
    */
   public static getPresetById(presetId: string): PresetConvention | undefined {
-    return ALL_PRESETS.find(preset => preset.id === presetId);
+    return LanguageRegistry.getAllPresets().find(preset => preset.id === presetId) ?? UserPresetService.getById(presetId);
+  }
+
+  /**
+   * 컨벤션 편집기에 표시할 언어별 필드 목록을 반환합니다.
+   * @param language 프로그래밍 언어
+   * @returns 스키마 순서대로 정렬된 필드 목록
+   */
+  public static getConventionFields(language: SupportedLanguage): ConventionFieldDescriptor[] {
+    return LanguageRegistry.getConventionFields(language);
   }
 
   /**
@@ -314,6 +584,35 @@ export class FormattingService {
     return IdeExporter.exportToIde(convention, language, format);
   }
 
+  /**
+   * IDE/도구 설정 파일을 읽어 같은 결과를 내는 컨벤션을 만듭니다.
+   * @param content 설정 파일 내용
+   * @param options 파일 이름, 언어 등 가져오기 옵션
+   * @returns 가져온 컨벤션과 매핑되지 않은 설정에 대한 경고
+   */
+  public static importFromIde(content: string, options: IdeImportOptions): IdeImportResult {
+    return IdeImporter.importConfig(content, options);
+  }
+
+  /**
+   * 코드에서 스타일을 추론하고 가장 가까운 프리셋을 찾습니다.
+   * @param code 분석할 코드
+   * @param language 코드 언어
+   * @returns 추론한 필드별 값/신뢰도와 일치도 순 프리셋 목록
+   */
+  public static detectStyle(code: string, language: SupportedLanguage): StyleDetectionResult {
+    return StyleDetector.detect(code, language);
+  }
+
+  /**
+   * 코드가 어떤 언어인지 추정합니다.
+   * @param code 입력 코드
+   * @returns 가장 가능성이 높은 언어와 언어별 신뢰도 (단서가 없으면 language는 null)
+   */
+  public static detectLanguage(code: string): LanguageDetectionResult {
+    return LanguageDetector.detect(code);
+  }
+
   /**
    * 특정 언어가 지원하는 IDE 형식 목록을 반환합니다.
    * @param language 프로그래밍 언어
@@ -328,7 +627,29 @@ export class FormattingService {
    * @returns 지원되는 언어 배열
    */
   public static getSupportedLanguages(): SupportedLanguage[] {
-    return ['java', 'json', 'javascript', 'kotlin', 'sql'];
+    return LanguageRegistry.getLanguages();
+  }
+
+  /**
+   * 언어 플러그인을 등록합니다. 등록한 언어는 언어/컨벤션 선택, IDE 내보내기, CLI에 바로 나타납니다.
+   * @param plugin 언어 플러그인
+   * @throws 언어 ID, 확장자, 프리셋 ID가 이미 등록되어 있으면 Error
+   */
+  public static registerLanguage<L extends SupportedLanguage>(plugin: LanguagePlugin<L>): void {
+    LanguageRegistry.register(plugin);
+  }
+
+  /**
+   * 파일 이름의 확장자로 언어를 찾습니다.
+   * @param filename 파일 이름 또는 경로
+   * @returns 해당 언어 또는 undefined
+   */
+  public static getLanguageByFilename(filename: string): SupportedLanguage | undefined {
+    const extension = filename.slice(filename.lastIndexOf('.') + 1).toLowerCase();
+    if (!filename.includes('.') || extension === '') {
+      return undefined;
+    }
+    return LanguageRegistry.getByExtension(extension)?.id;
   }
 
   /**
@@ -337,15 +658,7 @@ export class FormattingService {
    * @returns 언어 표시명
    */
   public static getLanguageDisplayName(language: SupportedLanguage): string {
-    const displayNames: Record<SupportedLanguage, string> = {
-      java: 'Java',
-      json: 'JSON',
-      javascript: 'JavaScript/TypeScript',
-      kotlin: 'Kotlin',
-      sql: 'SQL'
-    };
-    
-    return displayNames[language] || language;
+    return LanguageRegistry.get(language)?.displayName ?? language;
   }
 
   /**
@@ -354,117 +667,7 @@ export class FormattingService {
    * @returns 예시 코드
    */
   public static getExampleCode(language: SupportedLanguage): string {
-    const examples: Record<SupportedLanguage, string> = {
-      java: `public class HelloWorld {
-    private static final String MESSAGE = "Hello, World!";
-    
-    public static void main(String[] args) {
-        System.out.println(MESSAGE);
-        for(int i = 0; i < 5; i++) {
-            System.out.println("Count: " + i);
-        }
-    }
-    
-    private void exampleMethod(){
-        if(true){
-            doSomething();
-        }
-    }
-}`,
-
-      json: `{
-  "name": "my-project",
-  "version": "1.0.0",
-  "description": "A sample project",
-  "main": "index.js",
-  "scripts": {
-    "start": "node index.js",
-    "test": "jest"
-  },
-  "dependencies": {
-    "express": "^4.18.0",
-    "lodash": "^4.17.21"
-  },
-  "devDependencies": {
-    "jest": "^29.0.0",
-    "nodemon": "^2.0.20"
-  }
-}`,
-
-      javascript: `const express = require('express');
-const app = express();
-
-function calculateSum(a,b){
-return a+b;
-}
-
-app.get('/api/users',(req,res)=>{
-const users=[
-{id:1,name:'John'},
-{id:2,name:'Jane'}
-];
-res.json(users);
-});
-
-const PORT=process.env.PORT||3000;
-app.listen(PORT,()=>{
-console.log(\`Server running on port \${PORT}\`);
-});`,
-
-      kotlin: `package com.example.demo
-
-import kotlin.random.Random
-
-class UserService{
-private val users=mutableListOf<User>()
-
-fun addUser(name:String,email:String):User{
-val user=User(
-id=Random.nextInt(),
-name=name,
-email=email
-)
-users.add(user)
-return user
-}
-
-fun findUserById(id:Int):User?{
-return users.find{it.id==id}
-}
-}
-
-data class User(val id:Int,val name:String,val email:String)`,
-
-      sql: `SELECT u.id,u.name,u.email,COUNT(o.id) as order_count FROM users u LEFT JOIN orders o ON u.id=o.user_id WHERE u.created_at>=DATE_SUB(NOW(),INTERVAL 30 DAY) GROUP BY u.id,u.name,u.email HAVING COUNT(o.id)>5 ORDER BY order_count DESC,u.name ASC;
-
-INSERT INTO products(name,price,category_id,description) VALUES('Laptop',999.99,1,'High-performance laptop'),('Mouse',29.99,2,'Wireless optical mouse'),('Keyboard',79.99,2,'Mechanical gaming keyboard');
-
-UPDATE users SET last_login=NOW(),login_count=login_count+1 WHERE id=123 AND active=1;`
-    };
-    
-    return examples[language] || '';
-  }
-
-  /**
-   * 변경된 줄 수를 계산합니다.
-   * @param originalLines 원본 줄 배열
-   * @param formattedLines 포매팅된 줄 배열
-   * @returns 변경된 줄 수
-   */
-  private static countChangedLines(originalLines: string[], formattedLines: string[]): number {
-    let changedCount = 0;
-    const maxLength = Math.max(originalLines.length, formattedLines.length);
-    
-    for (let i = 0; i < maxLength; i++) {
-      const originalLine = originalLines[i] || '';
-      const formattedLine = formattedLines[i] || '';
-      
-      if (originalLine !== formattedLine) {
-        changedCount++;
-      }
-    }
-    
-    return changedCount;
+    return LanguageRegistry.get(language)?.exampleCode ?? '';
   }
 
   /**
@@ -479,6 +682,7 @@ UPDATE users SET last_login=NOW(),login_count=login_count+1 WHERE id=123 AND act
         changedLines: 0,
         warnings: [],
         errors: [],
+        diagnostics: [],
         processingTime: 0
       };
     }
@@ -492,6 +696,7 @@ UPDATE users SET last_login=NOW(),login_count=login_count+1 WHERE id=123 AND act
       changedLines: results.reduce((sum, result) => sum + result.changedLines, 0),
       warnings: results.flatMap(result => result.warnings),
       errors: results.flatMap(result => result.errors),
+      diagnostics: results.flatMap(result => result.diagnostics),
       processingTime: results.reduce((sum, result) => sum + result.processingTime, 0)
     };
   }
@@ -0,0 +1,127 @@
+/**
+ * 언어 플러그인 레지스트리
+ * 지원 언어 목록, 표시명, 확장자, 컨벤션 스키마, 기본 프리셋, 포매터를 플러그인에서 찾습니다.
+ * 플러그인을 등록하면 언어 선택, 컨벤션 선택, IDE 내보내기, CLI에 바로 나타납니다.
+ */
+
+import { SupportedLanguage, PresetConvention } from '../types/FormattingTypes';
+import { ConventionFieldSchema, ConventionFieldDescriptor } from '../types/ConventionSchemaTypes';
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { BASE_CONVENTION_SCHEMA } from '../constants/ConventionSchemas';
+import { BUILT_IN_PLUGINS } from '../plugins/BuiltInPlugins';
+
+export class LanguageRegistry {
+  /** 변경될 때마다 새 배열로 교체되는 플러그인 목록 (구독자가 변경 여부를 참조 비교로 판단) */
+  private static plugins: LanguagePlugin[] = [...BUILT_IN_PLUGINS];
+  private static readonly listeners = new Set<() => void>();
+
+  /**
+   * 등록된 모든 플러그인을 등록 순서대로 반환합니다.
+   */
+  public static getAll = (): LanguagePlugin[] => LanguageRegistry.plugins;
+
+  /**
+   * 언어 ID로 플러그인을 찾습니다.
+   */
+  public static get(language: string): LanguagePlugin | undefined {
+    return this.plugins.find(plugin => plugin.id === language);
+  }
+
+  /**
+   * 언어 ID로 플러그인을 찾습니다.
+   * @throws 등록되지 않은 언어면 Error
+   */
+  public static require(language: string): LanguagePlugin {
+    const plugin = this.get(language);
+    if (!plugin) {
+      throw new Error(`지원되지 않는 언어입니다: ${language}`);
+    }
+    return plugin;
+  }
+
+  /**
+   * 등록된 언어 ID 목록을 반환합니다.
+   */
+  public static getLanguages(): SupportedLanguage[] {
+    return this.plugins.map(plugin => plugin.id);
+  }
+
+  /**
+   * 확장자(점 제외, 대소문자 무시)를 가진 언어의 플러그인을 찾습니다.
+   */
+  public static getByExtension(extension: string): LanguagePlugin | undefined {
+    const normalized = extension.toLowerCase();
+    return this.plugins.find(plugin => plugin.extensions.includes(normalized));
+  }
+
+  /**
+   * 모든 언어의 기본 프리셋을 플러그인 등록 순서대로 반환합니다.
+   */
+  public static getAllPresets(): PresetConvention[] {
+    return this.plugins.flatMap(plugin => plugin.presets);
+  }
+
+  /**
+   * 언어의 컨벤션 스키마를 반환합니다. (등록되지 않은 언어면 undefined)
+   */
+  public static getSchema(language: string): Record<string, ConventionFieldSchema> | undefined {
+    return this.get(language)?.conventionSchema;
+  }
+
+  /**
+   * 언어의 편집 가능한 필드를 스키마 순서대로 반환합니다.
+   */
+  public static getConventionFields(language: SupportedLanguage): ConventionFieldDescriptor[] {
+    return Object.entries(this.getSchema(language) ?? {}).map(([key, schema]) => ({
+      key,
+      schema,
+      isCommon: key in BASE_CONVENTION_SCHEMA
+    }));
+  }
+
+  /**
+   * 언어 플러그인을 등록합니다.
+   * @param plugin 등록할 플러그인
+   * @throws 언어 ID나 확장자가 이미 등록되어 있거나, 프리셋이 없거나 언어가 다르면 Error
+   */
+  public static register<L extends SupportedLanguage>(plugin: LanguagePlugin<L>): void {
+    if (!plugin.id) {
+      throw new Error('플러그인에 언어 ID가 필요합니다.');
+    }
+    if (this.get(plugin.id)) {
+      throw new Error(`이미 등록된 언어입니다: ${plugin.id}`);
+    }
+    if (plugin.presets.length === 0) {
+      throw new Error(`${plugin.id} 플러그인에 기본 프리셋이 없습니다.`);
+    }
+
+    const foreignPreset = plugin.presets.find(preset => preset.language !== plugin.id);
+    if (foreignPreset) {
+      throw new Error(`${plugin.id} 플러그인의 프리셋 '${foreignPreset.id}'은(는) ${foreignPreset.language} 언어입니다.`);
+    }
+    const duplicatePreset = plugin.presets.find(preset => this.getAllPresets().some(item => item.id === preset.id));
+    if (duplicatePreset) {
+      throw new Error(`이미 등록된 프리셋 ID입니다: ${duplicatePreset.id}`);
+    }
+
+    const extensions = plugin.extensions.map(extension => extension.replace(/^\./, '').toLowerCase());
+    const claimed = extensions.find(extension => this.getByExtension(extension));
+    if (claimed) {
+      throw new Error(`'.${claimed}' 확장자는 ${this.getByExtension(claimed)!.id} 언어가 이미 사용합니다.`);
+    }
+
+    this.plugins = [...this.plugins, { ...plugin, extensions } as LanguagePlugin];
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * 플러그인 목록 변경을 구독합니다. (useSyncExternalStore용)
+   * @returns 구독 해제 함수
+   */
+  public static subscribe = (listener: () => void): (() => void) => {
+    LanguageRegistry.listeners.add(listener);
+    return () => {
+      LanguageRegistry.listeners.delete(listener);
+    };
+  };
+}
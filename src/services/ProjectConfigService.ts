@@ -0,0 +1,384 @@
+/**
+ * 프로젝트 설정 서비스
+ * 파일 위치에서 상위 디렉토리로 올라가며 .webalignrc와 .webalignignore를 찾고,
+ * 파일 경로에 적용되는 언어/프리셋/컨벤션을 결정합니다.
+ * 하위 디렉토리의 설정이 상위 설정을, 같은 파일 안에서는 뒤의 항목이 앞의 항목을 덮어씁니다.
+ */
+
+import { SupportedLanguage, FormattingConvention } from '../types/FormattingTypes';
+import {
+  ProjectConfig,
+  ProjectConfigOverride,
+  ConfigFileReader,
+  ProjectConventionResult
+} from '../types/ProjectConfigTypes';
+import { PresetValidationError } from '../types/PresetLibraryTypes';
+import { PresetValidator } from '../utils/PresetValidator';
+import { GlobMatcher } from '../utils/GlobMatcher';
+import { FormattingService } from './FormattingService';
+import { LanguageRegistry } from './LanguageRegistry';
+
+/**
+ * 무시 파일의 패턴 하나 (.gitignore 문법의 부분 집합)
+ */
+interface IgnoreRule {
+  /** 글롭 패턴 ('/'를 포함하면 무시 파일 디렉토리에 고정) */
+  pattern: string;
+  /** '!'로 시작해 다시 포함하는 규칙인지 여부 */
+  negated: boolean;
+  /** '/'로 끝나 디렉토리에만 적용되는지 여부 */
+  directoryOnly: boolean;
+}
+
+/**
+ * 디렉토리 하나의 설정/무시 파일
+ */
+interface ConfigLayer {
+  /** 디렉토리 경로 */
+  directory: string;
+  /** 설정 파일 경로 */
+  configPath: string;
+  /** 설정 파일 내용 (없으면 null) */
+  config: ProjectConfig | null;
+  /** 무시 규칙 (무시 파일이 없으면 빈 배열) */
+  ignoreRules: IgnoreRule[];
+}
+
+export class ProjectConfigService {
+  /** 프로젝트 설정 파일 이름 */
+  public static readonly CONFIG_FILENAME = '.webalignrc';
+
+  /** 무시 파일 이름 */
+  public static readonly IGNORE_FILENAME = '.webalignignore';
+
+  /** 읽기 함수별로 읽어 둔 디렉토리 설정 (같은 디렉토리의 파일을 여러 개 처리할 때 재사용) */
+  private static readonly layerCache = new WeakMap<ConfigFileReader, Map<string, ConfigLayer>>();
+
+  /**
+   * 파일 경로에 적용되는 컨벤션을 결정합니다.
+   * @param filePath 대상 파일의 절대 경로
+   * @param reader 설정 파일 읽기 함수
+   * @returns 언어, 기준 프리셋, 덮어쓰기를 적용한 컨벤션 (무시된 파일이면 ignored: true)
+   * @throws 설정 파일이 유효하지 않거나 프리셋 언어가 파일 언어와 다르면 Error (메시지는 설정 파일 경로로 시작)
+   */
+  public static resolveConvention(filePath: string, reader: ConfigFileReader): ProjectConventionResult {
+    const normalizedPath = filePath.replace(/\\/g, '/');
+    const layers = this.collectLayers(normalizedPath, reader);
+    const empty: ProjectConventionResult = {
+      filePath,
+      ignored: false,
+      language: null,
+      presetId: null,
+      convention: null,
+      configFiles: []
+    };
+
+    if (this.matchesIgnoreRules(normalizedPath, layers)) {
+      return { ...empty, ignored: true };
+    }
+
+    let language = FormattingService.getLanguageByFilename(normalizedPath) ?? null;
+    let presetId: string | null = null;
+    let presetSource = '';
+    const fields: Record<string, unknown> = {};
+    const configFiles: string[] = [];
+
+    for (const layer of layers) {
+      const relativePath = this.relative(normalizedPath, layer.directory);
+      for (const override of layer.config?.overrides ?? []) {
+        if (!this.matchesOverride(override, relativePath)) {
+          continue;
+        }
+        language = override.language ?? language;
+        if (override.preset) {
+          presetId = override.preset;
+          presetSource = layer.configPath;
+        }
+        Object.assign(fields, override.convention);
+        if (!configFiles.includes(layer.configPath)) {
+          configFiles.push(layer.configPath);
+        }
+      }
+    }
+
+    if (!language) {
+      return { ...empty, configFiles };
+    }
+
+    const preset = presetId ? FormattingService.getPresetById(presetId) : FormattingService.getDefaultPreset(language);
+    if (!preset) {
+      throw new Error(`${language} 언어의 프리셋이 없습니다.`);
+    }
+    if (preset.language !== language) {
+      throw new Error(`${presetSource}: 프리셋 '${preset.id}'의 언어(${preset.language})가 파일 언어(${language})와 다릅니다.`);
+    }
+
+    return {
+      filePath,
+      ignored: false,
+      language,
+      presetId: preset.id,
+      convention: this.applyFields(configFiles, language, preset.convention, fields),
+      configFiles
+    };
+  }
+
+  /**
+   * 파일이 무시 파일(.webalignignore)에 의해 제외되는지 확인합니다.
+   * @param filePath 대상 파일의 절대 경로
+   * @param reader 설정 파일 읽기 함수
+   */
+  public static isIgnored(filePath: string, reader: ConfigFileReader): boolean {
+    const normalizedPath = filePath.replace(/\\/g, '/');
+    return this.matchesIgnoreRules(normalizedPath, this.collectLayers(normalizedPath, reader));
+  }
+
+  /**
+   * .webalignrc 내용을 검사합니다.
+   * @param content 설정 파일 내용
+   * @returns 필드 단위 오류 목록 (비어 있으면 유효)
+   */
+  public static validateConfig(content: string): PresetValidationError[] {
+    let value: unknown;
+    try {
+      value = JSON.parse(content);
+    } catch (error) {
+      return [{ path: '$', message: `JSON 구문 오류: ${error instanceof Error ? error.message : String(error)}` }];
+    }
+    if (!PresetValidator.isObject(value)) {
+      return [{ path: '$', message: '설정 파일은 객체여야 합니다.' }];
+    }
+
+    const errors: PresetValidationError[] = [];
+    for (const key of Object.keys(value)) {
+      if (key !== 'root' && key !== 'overrides') {
+        errors.push({ path: key, message: '알 수 없는 필드입니다.' });
+      }
+    }
+    if (value.root !== undefined && typeof value.root !== 'boolean') {
+      errors.push({ path: 'root', message: 'true 또는 false여야 합니다.' });
+    }
+    if (value.overrides !== undefined) {
+      if (!Array.isArray(value.overrides)) {
+        errors.push({ path: 'overrides', message: '배열이어야 합니다.' });
+      } else {
+        value.overrides.forEach((override, index) => {
+          errors.push(...this.validateOverride(override, `overrides[${index}]`));
+        });
+      }
+    }
+    return errors;
+  }
+
+  private static validateOverride(override: unknown, path: string): PresetValidationError[] {
+    if (!PresetValidator.isObject(override)) {
+      return [{ path, message: '객체여야 합니다.' }];
+    }
+
+    const errors: PresetValidationError[] = [];
+    const allowedKeys = ['files', 'excludeFiles', 'language', 'preset', 'convention'];
+    for (const key of Object.keys(override)) {
+      if (!allowedKeys.includes(key)) {
+        errors.push({ path: `${path}.${key}`, message: '알 수 없는 필드입니다.' });
+      }
+    }
+
+    if (!this.isGlobList(override.files, false)) {
+      errors.push({ path: `${path}.files`, message: '글롭 문자열 또는 비어 있지 않은 문자열 배열이어야 합니다.' });
+    }
+    if (override.excludeFiles !== undefined && !this.isGlobList(override.excludeFiles, true)) {
+      errors.push({ path: `${path}.excludeFiles`, message: '글롭 문자열 또는 문자열 배열이어야 합니다.' });
+    }
+
+    const languages = FormattingService.getSupportedLanguages();
+    if (override.language !== undefined && !languages.includes(override.language as SupportedLanguage)) {
+      errors.push({
+        path: `${path}.language`,
+        message: `지원하지 않는 언어입니다: ${JSON.stringify(override.language)} (허용: ${languages.join(', ')})`
+      });
+    }
+
+    if (override.preset !== undefined) {
+      const preset = typeof override.preset === 'string' ? FormattingService.getPresetById(override.preset) : undefined;
+      if (!preset) {
+        errors.push({ path: `${path}.preset`, message: `프리셋을 찾을 수 없습니다: ${JSON.stringify(override.preset)}` });
+      } else if (override.language !== undefined && preset.language !== override.language) {
+        errors.push({ path: `${path}.preset`, message: `프리셋 언어(${preset.language})가 language와 다릅니다.` });
+      }
+    }
+
+    if (override.convention !== undefined) {
+      if (!PresetValidator.isObject(override.convention)) {
+        errors.push({ path: `${path}.convention`, message: '객체여야 합니다.' });
+      } else {
+        // 여러 언어에 걸친 글롭을 허용하므로 어느 언어에도 없는 필드만 오류로 보고
+        const knownFields = new Set(LanguageRegistry.getAll().flatMap(plugin => Object.keys(plugin.conventionSchema)));
+        for (const key of Object.keys(override.convention)) {
+          if (!knownFields.has(key)) {
+            errors.push({ path: `${path}.convention.${key}`, message: '알 수 없는 필드입니다.' });
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  private static isGlobList(value: unknown, allowEmpty: boolean): boolean {
+    if (typeof value === 'string') {
+      return value !== '';
+    }
+    return Array.isArray(value) &&
+      (allowEmpty || value.length > 0) &&
+      value.every(item => typeof item === 'string' && item !== '');
+  }
+
+  /**
+   * 파일 디렉토리부터 루트(또는 root: true 설정)까지의 설정을 상위 디렉토리 순서로 모읍니다.
+   */
+  private static collectLayers(filePath: string, reader: ConfigFileReader): ConfigLayer[] {
+    const layers: ConfigLayer[] = [];
+    let directory: string | null = this.dirname(filePath);
+
+    while (directory !== null) {
+      const layer = this.loadLayer(directory, reader);
+      layers.push(layer);
+      if (layer.config?.root) {
+        break;
+      }
+      directory = this.parent(directory);
+    }
+
+    return layers.reverse();
+  }
+
+  private static loadLayer(directory: string, reader: ConfigFileReader): ConfigLayer {
+    let cache = this.layerCache.get(reader);
+    if (!cache) {
+      cache = new Map();
+      this.layerCache.set(reader, cache);
+    }
+
+    const cached = cache.get(directory);
+    if (cached) {
+      return cached;
+    }
+
+    const configPath = this.join(directory, this.CONFIG_FILENAME);
+    const content = reader.readFile(configPath);
+    let config: ProjectConfig | null = null;
+    if (content !== null) {
+      const errors = this.validateConfig(content);
+      if (errors.length > 0) {
+        throw new Error(`${configPath}: 유효하지 않은 설정입니다.\n${errors.map(error => `  ${error.path}: ${error.message}`).join('\n')}`);
+      }
+      config = JSON.parse(content) as ProjectConfig;
+    }
+
+    const ignoreContent = reader.readFile(this.join(directory, this.IGNORE_FILENAME));
+    const layer: ConfigLayer = {
+      directory,
+      configPath,
+      config,
+      ignoreRules: ignoreContent === null ? [] : this.parseIgnoreRules(ignoreContent)
+    };
+    cache.set(directory, layer);
+    return layer;
+  }
+
+  /**
+   * 무시 파일을 규칙 목록으로 변환합니다. (빈 줄과 '#' 주석은 건너뜀)
+   */
+  private static parseIgnoreRules(content: string): IgnoreRule[] {
+    return content.split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line !== '' && !line.startsWith('#'))
+      .map(line => {
+        const negated = line.startsWith('!');
+        const pattern = negated ? line.slice(1) : line;
+        const directoryOnly = pattern.endsWith('/');
+        return { pattern: directoryOnly ? pattern.slice(0, -1) : pattern, negated, directoryOnly };
+      })
+      .filter(rule => rule.pattern !== '');
+  }
+
+  /**
+   * 파일이 무시 대상인지 확인합니다. 상위 디렉토리 규칙부터 적용하며 마지막으로 일치한 규칙이 이깁니다.
+   */
+  private static matchesIgnoreRules(filePath: string, layers: ConfigLayer[]): boolean {
+    let ignored = false;
+
+    for (const layer of layers) {
+      if (layer.ignoreRules.length === 0) {
+        continue;
+      }
+      const segments = this.relative(filePath, layer.directory).split('/');
+      for (const rule of layer.ignoreRules) {
+        // 파일 자신 또는 상위 디렉토리 중 하나라도 일치하면 적용
+        const matched = segments.some((_, index) => {
+          const isDirectory = index < segments.length - 1;
+          return (isDirectory || !rule.directoryOnly) &&
+            GlobMatcher.matches(rule.pattern, segments.slice(0, index + 1).join('/'));
+        });
+        if (matched) {
+          ignored = !rule.negated;
+        }
+      }
+    }
+
+    return ignored;
+  }
+
+  private static matchesOverride(override: ProjectConfigOverride, relativePath: string): boolean {
+    const toList = (value: string | string[] | undefined) => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+    return toList(override.files).some(pattern => GlobMatcher.matches(pattern, relativePath)) &&
+      !toList(override.excludeFiles).some(pattern => GlobMatcher.matches(pattern, relativePath));
+  }
+
+  /**
+   * 프리셋 컨벤션에 덮어쓰기를 적용합니다. 언어 스키마에 없는 필드는 건너뜁니다.
+   */
+  private static applyFields(
+    configFiles: string[],
+    language: SupportedLanguage,
+    base: FormattingConvention,
+    fields: Record<string, unknown>
+  ): FormattingConvention {
+    const schema = LanguageRegistry.require(language).conventionSchema;
+    const convention: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(fields)) {
+      if (key in schema) {
+        convention[key] = value;
+      }
+    }
+
+    const errors = PresetValidator.validateConvention(language, convention, 'convention');
+    if (errors.length > 0) {
+      throw new Error(`${configFiles.join(', ')}: 컨벤션이 유효하지 않습니다.\n${errors.map(error => `  ${error.path}: ${error.message}`).join('\n')}`);
+    }
+    return convention as unknown as FormattingConvention;
+  }
+
+  private static dirname(path: string): string {
+    const index = path.lastIndexOf('/');
+    return index <= 0 ? '/' : path.slice(0, index);
+  }
+
+  /**
+   * 상위 디렉토리를 반환합니다. (루트나 드라이브 루트면 null)
+   */
+  private static parent(directory: string): string | null {
+    if (directory === '/' || /^[A-Za-z]:$/.test(directory)) {
+      return null;
+    }
+    return this.dirname(directory);
+  }
+
+  private static join(directory: string, name: string): string {
+    return directory.endsWith('/') ? `${directory}${name}` : `${directory}/${name}`;
+  }
+
+  private static relative(filePath: string, directory: string): string {
+    return directory === '/' ? filePath.replace(/^\//, '') : filePath.slice(directory.length + 1);
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * 사용자 프리셋 서비스
+ * 컨벤션 편집기에서 저장한 사용자 정의 컨벤션을 localStorage에 보관하고,
+ * 버전이 있는 JSON 라이브러리 파일로 내보내거나 가져옵니다.
+ */
+
+import {
+  SupportedLanguage,
+  PresetConvention,
+  FormattingConvention
+} from '../types/FormattingTypes';
+import {
+  PresetLibraryFile,
+  PresetImportResult,
+  PresetValidationError
+} from '../types/PresetLibraryTypes';
+import { PresetValidator } from '../utils/PresetValidator';
+
+export class UserPresetService {
+  /** 사용자 프리셋 ID 접두사 */
+  public static readonly ID_PREFIX = 'user-';
+
+  /** 라이브러리 파일 형식 식별자 */
+  public static readonly LIBRARY_FORMAT = 'code-formatter-preset-library';
+
+  /** 라이브러리 파일 형식 버전 */
+  public static readonly LIBRARY_VERSION = 1;
+
+  /** localStorage 키 */
+  private static readonly STORAGE_KEY = 'code-formatter.user-presets';
+
+  /** 읽지 못한 프리셋이 있을 때 원본을 남겨 두는 localStorage 키 (다음 저장에서 덮어쓰지 않도록) */
+  private static readonly BACKUP_KEY = 'code-formatter.user-presets.backup';
+
+  /** 변경될 때마다 새 배열로 교체되는 프리셋 목록 (구독자가 변경 여부를 참조 비교로 판단) */
+  private static presets: PresetConvention[] = UserPresetService.load();
+  private static readonly listeners = new Set<() => void>();
+
+  /**
+   * 모든 사용자 프리셋을 반환합니다.
+   */
+  public static getAll = (): PresetConvention[] => UserPresetService.presets;
+
+  /**
+   * 특정 언어의 사용자 프리셋을 반환합니다.
+   */
+  public static getByLanguage(language: SupportedLanguage): PresetConvention[] {
+    return this.presets.filter(preset => preset.language === language);
+  }
+
+  /**
+   * ID로 사용자 프리셋을 찾습니다.
+   */
+  public static getById(presetId: string): PresetConvention | undefined {
+    return this.presets.find(preset => preset.id === presetId);
+  }
+
+  /**
+   * 사용자 프리셋 여부를 반환합니다.
+   */
+  public static isUserPreset(presetId: string): boolean {
+    return presetId.startsWith(this.ID_PREFIX);
+  }
+
+  /**
+   * 편집한 컨벤션으로 새 사용자 프리셋을 만듭니다.
+   * @param name 프리셋 이름
+   * @param language 프로그래밍 언어
+   * @param convention 컨벤션 설정
+   * @param description 프리셋 설명
+   */
+  public static createPreset(
+    name: string,
+    language: SupportedLanguage,
+    convention: FormattingConvention,
+    description: string = ''
+  ): PresetConvention {
+    return {
+      id: this.generateId(language),
+      name,
+      language,
+      description,
+      popularity: 0,
+      isOfficial: false,
+      convention: { ...convention, name, description }
+    };
+  }
+
+  /**
+   * 사용자 프리셋을 저장합니다. 같은 ID가 있으면 덮어씁니다.
+   */
+  public static save(preset: PresetConvention): void {
+    const exists = this.presets.some(item => item.id === preset.id);
+    this.update(exists
+      ? this.presets.map(item => (item.id === preset.id ? preset : item))
+      : [...this.presets, preset]);
+  }
+
+  /**
+   * 사용자 프리셋을 삭제합니다.
+   */
+  public static remove(presetId: string): void {
+    this.update(this.presets.filter(preset => preset.id !== presetId));
+  }
+
+  /**
+   * 사용자 프리셋을 라이브러리 파일 내용으로 내보냅니다.
+   * @param presets 내보낼 프리셋 (생략하면 전체)
+   * @returns JSON 문자열
+   */
+  public static exportLibrary(presets: PresetConvention[] = this.presets): string {
+    const library: PresetLibraryFile = {
+      format: this.LIBRARY_FORMAT,
+      version: this.LIBRARY_VERSION,
+      exportedAt: new Date().toISOString(),
+      presets
+    };
+    return JSON.stringify(library, null, 2);
+  }
+
+  /**
+   * 라이브러리 파일 내용을 검증합니다.
+   * @param content JSON 문자열
+   * @returns 유효한 프리셋과 필드 단위 오류 (오류가 있는 프리셋은 제외)
+   */
+  public static parseLibrary(content: string): PresetImportResult {
+    let library: unknown;
+    try {
+      library = JSON.parse(content);
+    } catch (error) {
+      return {
+        imported: [],
+        errors: [{ path: '$', message: `JSON 구문 오류: ${error instanceof Error ? error.message : String(error)}` }]
+      };
+    }
+
+    const errors: PresetValidationError[] = [];
+    if (!PresetValidator.isObject(library)) {
+      return { imported: [], errors: [{ path: '$', message: '라이브러리 파일은 객체여야 합니다.' }] };
+    }
+    if (library.format !== this.LIBRARY_FORMAT) {
+      errors.push({ path: 'format', message: `'${this.LIBRARY_FORMAT}' 형식이 아닙니다.` });
+    }
+    if (typeof library.version !== 'number' || !Number.isInteger(library.version) || library.version < 1) {
+      errors.push({ path: 'version', message: '버전은 1 이상의 정수여야 합니다.' });
+    } else if (library.version > this.LIBRARY_VERSION) {
+      errors.push({
+        path: 'version',
+        message: `지원하지 않는 버전입니다: ${library.version} (지원: ${this.LIBRARY_VERSION} 이하)`
+      });
+    }
+    if (!Array.isArray(library.presets)) {
+      errors.push({ path: 'presets', message: '프리셋 목록은 배열이어야 합니다.' });
+    }
+    if (errors.length > 0) {
+      return { imported: [], errors };
+    }
+
+    const imported: PresetConvention[] = [];
+    (library.presets as unknown[]).forEach((value, index) => {
+      const presetErrors = PresetValidator.validatePreset(value, `presets[${index}]`);
+      if (presetErrors.length > 0) {
+        errors.push(...presetErrors);
+      } else {
+        imported.push(PresetValidator.toPreset(value as Record<string, unknown>));
+      }
+    });
+
+    return { imported, errors };
+  }
+
+  /**
+   * 라이브러리 파일을 가져와 사용자 프리셋에 합칩니다.
+   * 같은 ID의 사용자 프리셋은 덮어쓰고, 사용자 프리셋 ID가 아니면 새 ID를 부여합니다.
+   * @param content JSON 문자열
+   * @returns 가져온 프리셋과 필드 단위 오류
+   */
+  public static importLibrary(content: string): PresetImportResult {
+    const result = this.parseLibrary(content);
+    const imported = result.imported.map(preset => (this.isUserPreset(preset.id)
+      ? preset
+      : { ...preset, id: this.generateId(preset.language) }));
+
+    if (imported.length > 0) {
+      const importedIds = new Set(imported.map(preset => preset.id));
+      this.update([...this.presets.filter(preset => !importedIds.has(preset.id)), ...imported]);
+    }
+
+    return { imported, errors: result.errors };
+  }
+
+  /**
+   * 프리셋 목록 변경을 구독합니다.
+   * @returns 구독 해제 함수
+   */
+  public static subscribe = (listener: () => void): (() => void) => {
+    UserPresetService.listeners.add(listener);
+    return () => {
+      UserPresetService.listeners.delete(listener);
+    };
+  };
+
+  private static generateId(language: SupportedLanguage): string {
+    return `${this.ID_PREFIX}${language}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  }
+
+  private static update(presets: PresetConvention[]): void {
+    this.presets = presets;
+    this.persist();
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * localStorage에서 사용자 프리셋을 읽습니다. (저장소가 없는 환경에서는 빈 목록)
+   */
+  private static load(): PresetConvention[] {
+    if (typeof localStorage === 'undefined') {
+      return [];
+    }
+
+    const content = localStorage.getItem(this.STORAGE_KEY);
+    if (!content) {
+      return [];
+    }
+
+    const { imported, errors } = this.parseLibrary(content);
+    if (errors.length > 0) {
+      console.warn(`저장된 사용자 프리셋 중 일부를 읽지 못해 원본을 '${this.BACKUP_KEY}'에 보관했습니다.`, errors);
+      try {
+        localStorage.setItem(this.BACKUP_KEY, content);
+      } catch {
+        // 보관하지 못해도 읽은 프리셋은 그대로 사용
+      }
+    }
+    return imported;
+  }
+
+  /**
+   * 사용자 프리셋을 localStorage에 저장합니다.
+   */
+  private static persist(): void {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, this.exportLibrary());
+    } catch (error) {
+      console.warn('사용자 프리셋을 저장하지 못했습니다.', error);
+    }
+  }
+}
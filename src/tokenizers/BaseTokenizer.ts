@@ -0,0 +1,233 @@
+/**
+ * 토크나이저 기본 클래스
+ * 언어별 토크나이저가 공유하는 스캔 로직을 제공합니다.
+ * 문자열과 주석을 하나의 토큰으로 읽어 포매팅 규칙이 그 내용을 건드리지 않도록 합니다.
+ */
+
+import { Token, TokenType } from '../types/TokenTypes';
+
+/**
+ * 언어별 리터럴 읽기 결과
+ */
+export interface LiteralMatch {
+  /** 토큰 종류 */
+  type: TokenType;
+  /** 리터럴 끝 오프셋 (미포함) */
+  end: number;
+}
+
+export abstract class BaseTokenizer {
+  /** 언어 키워드 목록 */
+  protected abstract readonly keywords: ReadonlySet<string>;
+  /** 구두점/연산자 목록 (긴 것부터 매칭) */
+  protected abstract readonly punctuators: string[];
+  /** 한 줄 주석 시작 문자열 */
+  protected readonly lineCommentPrefixes: string[] = ['//'];
+  /** 블록 주석 시작/끝 문자열 */
+  protected readonly blockComment: [string, string] | null = ['/*', '*/'];
+  /** 중첩 블록 주석 허용 여부 (Kotlin) */
+  protected readonly nestedBlockComments: boolean = false;
+  /** 키워드 대소문자 무시 여부 (SQL) */
+  protected readonly caseInsensitiveKeywords: boolean = false;
+
+  private static readonly NUMBER_PATTERN =
+    /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|(?:\d[\d_]*(?:\.\d[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?)[a-zA-Z]*/y;
+  private static readonly IDENTIFIER_PATTERN = /[\p{L}_$][\p{L}\p{N}_$]*/uy;
+
+  /**
+   * 코드를 토큰 배열로 변환합니다.
+   * 모든 토큰의 값을 이어 붙이면 원본 코드와 동일합니다.
+   * @param code 토큰화할 코드
+   * @returns 토큰 배열
+   */
+  public tokenize(code: string): Token[] {
+    const tokens: Token[] = [];
+    let pos = 0;
+    let line = 1;
+    let column = 1;
+
+    while (pos < code.length) {
+      const match = this.readToken(code, pos, tokens);
+      const value = code.slice(pos, match.end);
+      tokens.push({ type: match.type, value, start: pos, end: match.end, line, column });
+
+      // 줄/열 위치 갱신
+      const newlineCount = (value.match(/\n/g) || []).length;
+      if (newlineCount > 0) {
+        line += newlineCount;
+        column = value.length - value.lastIndexOf('\n');
+      } else {
+        column += value.length;
+      }
+      pos = match.end;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * 키워드 여부를 확인합니다.
+   */
+  public isKeyword(word: string): boolean {
+    return this.keywords.has(this.caseInsensitiveKeywords ? word.toUpperCase() : word);
+  }
+
+  /**
+   * 현재 위치에서 토큰 하나를 읽습니다.
+   */
+  private readToken(code: string, pos: number, tokens: Token[]): LiteralMatch {
+    const char = code[pos];
+
+    // 개행
+    if (char === '\n') {
+      return { type: 'newline', end: pos + 1 };
+    }
+    if (char === '\r' && code[pos + 1] === '\n') {
+      return { type: 'newline', end: pos + 2 };
+    }
+
+    // 공백
+    if (/[ \t\f\v\r]/.test(char)) {
+      let end = pos + 1;
+      while (end < code.length && /[ \t\f\v]/.test(code[end])) {
+        end++;
+      }
+      return { type: 'whitespace', end };
+    }
+
+    // 주석
+    const commentEnd = this.readComment(code, pos);
+    if (commentEnd !== null) {
+      return { type: 'comment', end: commentEnd };
+    }
+
+    // 언어별 리터럴 (문자열, 정규식 등)
+    const literal = this.readLiteral(code, pos, tokens);
+    if (literal) {
+      return literal;
+    }
+
+    // 숫자
+    if (/\d/.test(char) || (char === '.' && /\d/.test(code[pos + 1] || ''))) {
+      BaseTokenizer.NUMBER_PATTERN.lastIndex = pos;
+      const numberMatch = BaseTokenizer.NUMBER_PATTERN.exec(code);
+      if (numberMatch) {
+        return { type: 'number', end: pos + numberMatch[0].length };
+      }
+    }
+
+    // 식별자/키워드
+    BaseTokenizer.IDENTIFIER_PATTERN.lastIndex = pos;
+    const identifierMatch = BaseTokenizer.IDENTIFIER_PATTERN.exec(code);
+    if (identifierMatch) {
+      const word = identifierMatch[0];
+      return { type: this.isKeyword(word) ? 'keyword' : 'identifier', end: pos + word.length };
+    }
+
+    // 구두점/연산자
+    const punctuator = this.punctuators.find(candidate => code.startsWith(candidate, pos));
+    return { type: 'punctuation', end: pos + (punctuator ? punctuator.length : 1) };
+  }
+
+  /**
+   * 주석을 읽고 끝 오프셋을 반환합니다. 주석이 아니면 null을 반환합니다.
+   */
+  protected readComment(code: string, pos: number): number | null {
+    for (const prefix of this.lineCommentPrefixes) {
+      if (code.startsWith(prefix, pos)) {
+        const newlineIndex = code.indexOf('\n', pos);
+        let end = newlineIndex === -1 ? code.length : newlineIndex;
+        if (code[end - 1] === '\r') {
+          end--;
+        }
+        return end;
+      }
+    }
+
+    if (this.blockComment && code.startsWith(this.blockComment[0], pos)) {
+      const [open, close] = this.blockComment;
+      let depth = 1;
+      let end = pos + open.length;
+      while (end < code.length && depth > 0) {
+        if (this.nestedBlockComments && code.startsWith(open, end)) {
+          depth++;
+          end += open.length;
+        } else if (code.startsWith(close, end)) {
+          depth--;
+          end += close.length;
+        } else {
+          end++;
+        }
+      }
+      return end;
+    }
+
+    return null;
+  }
+
+  /**
+   * 언어별 리터럴을 읽습니다. 해당 위치가 리터럴이 아니면 null을 반환합니다.
+   * @param code 전체 코드
+   * @param pos 현재 위치
+   * @param tokens 지금까지 읽은 토큰 (문맥 판단용)
+   */
+  protected abstract readLiteral(code: string, pos: number, tokens: Token[]): LiteralMatch | null;
+
+  /**
+   * 따옴표로 감싼 리터럴의 끝 오프셋을 반환합니다.
+   * @param code 전체 코드
+   * @param pos 여는 따옴표 위치
+   * @param quote 따옴표 문자열
+   * @param escape 이스케이프 방식 ('backslash': \" / 'double': "" / 'none')
+   */
+  protected readQuoted(
+    code: string,
+    pos: number,
+    quote: string,
+    escape: 'backslash' | 'double' | 'none' = 'backslash'
+  ): number {
+    let end = pos + quote.length;
+    while (end < code.length) {
+      if (escape === 'backslash' && code[end] === '\\') {
+        end += 2;
+        continue;
+      }
+      if (code.startsWith(quote, end)) {
+        if (escape === 'double' && code.startsWith(quote, end + quote.length)) {
+          end += quote.length * 2;
+          continue;
+        }
+        return end + quote.length;
+      }
+      end++;
+    }
+    return code.length;
+  }
+
+  /**
+   * 여는 괄호 다음 위치부터 짝이 맞는 닫는 괄호까지 건너뜁니다.
+   * 문자열 보간(`${...}`) 내부처럼 코드가 중첩된 영역을 읽을 때 사용합니다.
+   * @returns 닫는 괄호 다음 오프셋
+   */
+  protected skipBalanced(code: string, pos: number, open: string, close: string): number {
+    const innerTokens: Token[] = [];
+    let depth = 1;
+    let end = pos;
+    while (end < code.length) {
+      const match = this.readToken(code, end, innerTokens);
+      const value = code.slice(end, match.end);
+      innerTokens.push({ type: match.type, value, start: end, end: match.end, line: 0, column: 0 });
+      end = match.end;
+
+      if (match.type === 'punctuation' && value === open) {
+        depth++;
+      } else if (match.type === 'punctuation' && value === close) {
+        depth--;
+        if (depth === 0) {
+          return end;
+        }
+      }
+    }
+    return code.length;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * C# 토크나이저
+ * 일반/축자(@"...")/보간($"...{x}...") 문자열, raw 문자열("""), 문자 리터럴, @식별자, 전처리기 지시문(#region)을 구분합니다.
+ * 전처리기 지시문은 줄 끝까지 주석처럼 다룹니다.
+ */
+
+import { BaseTokenizer, LiteralMatch } from './BaseTokenizer';
+
+export class CSharpTokenizer extends BaseTokenizer {
+  protected readonly keywords: ReadonlySet<string> = new Set([
+    'abstract', 'as', 'async', 'await', 'base', 'bool', 'break', 'byte', 'case', 'catch', 'char',
+    'checked', 'class', 'const', 'continue', 'decimal', 'default', 'delegate', 'do', 'double', 'else',
+    'enum', 'event', 'explicit', 'extern', 'false', 'finally', 'fixed', 'float', 'for', 'foreach',
+    'get', 'global', 'goto', 'if', 'implicit', 'in', 'init', 'int', 'interface', 'internal', 'is',
+    'lock', 'long', 'namespace', 'new', 'null', 'object', 'operator', 'out', 'override', 'params',
+    'partial', 'private', 'protected', 'public', 'readonly', 'record', 'ref', 'return', 'sbyte',
+    'sealed', 'set', 'short', 'sizeof', 'stackalloc', 'static', 'string', 'struct', 'switch', 'this',
+    'throw', 'true', 'try', 'typeof', 'uint', 'ulong', 'unchecked', 'unsafe', 'ushort', 'using', 'var',
+    'virtual', 'void', 'volatile', 'when', 'where', 'while', 'yield'
+  ]);
+
+  protected readonly punctuators: string[] = [
+    '??=', '<<=', '>>=', '?.', '??', '=>', '->', '::', '==', '!=', '<=', '>=', '&&', '||',
+    '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<', '>>', '..'
+  ];
+
+  protected readonly lineCommentPrefixes: string[] = ['//', '#'];
+
+  /** 문자열 접두사 ($, @, $@, @$, $$ 등) 뒤의 따옴표 */
+  private static readonly STRING_START = /(\$*)(@?)(\$*)("+)/y;
+
+  protected readLiteral(code: string, pos: number): LiteralMatch | null {
+    const char = code[pos];
+    if (char === "'") {
+      return { type: 'string', end: this.readQuoted(code, pos, "'") };
+    }
+    if (char === '@' && /[\p{L}_]/u.test(code[pos + 1] ?? '')) {
+      const identifier = /@[\p{L}_][\p{L}\p{N}_]*/uy;
+      identifier.lastIndex = pos;
+      return { type: 'identifier', end: pos + identifier.exec(code)![0].length };
+    }
+    if (char !== '"' && char !== '$' && char !== '@') {
+      return null;
+    }
+
+    CSharpTokenizer.STRING_START.lastIndex = pos;
+    const match = CSharpTokenizer.STRING_START.exec(code);
+    if (!match) {
+      return null;
+    }
+    const interpolated = match[1].length + match[3].length > 0;
+    const verbatim = match[2] === '@';
+    const quotes = match[4];
+    const bodyStart = pos + match[0].length - quotes.length;
+
+    // raw 문자열 (""" ... """): 같은 개수의 따옴표로 닫음
+    if (quotes.length >= 3 && !verbatim) {
+      const end = code.indexOf(quotes, bodyStart + quotes.length);
+      return { type: 'string', end: end === -1 ? code.length : end + quotes.length };
+    }
+    return { type: 'string', end: this.readString(code, bodyStart, interpolated, verbatim) };
+  }
+
+  /**
+   * 일반/축자/보간 문자열을 읽습니다. 보간 식 안의 중첩 문자열도 처리합니다.
+   * @param pos 여는 따옴표 위치
+   */
+  private readString(code: string, pos: number, interpolated: boolean, verbatim: boolean): number {
+    let end = pos + 1;
+    while (end < code.length) {
+      const char = code[end];
+      if (!verbatim && char === '\\') {
+        end += 2;
+      } else if (char === '"') {
+        if (verbatim && code[end + 1] === '"') {
+          end += 2;
+          continue;
+        }
+        return end + 1;
+      } else if (!verbatim && char === '\n') {
+        return end;
+      } else if (interpolated && code.startsWith('{{', end)) {
+        end += 2;
+      } else if (interpolated && char === '{') {
+        end = this.skipBalanced(code, end + 1, '{', '}');
+      } else {
+        end++;
+      }
+    }
+    return code.length;
+  }
+}
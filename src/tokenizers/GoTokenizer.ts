@@ -0,0 +1,31 @@
+/**
+ * Go 토크나이저
+ * 해석 문자열("..."), raw 문자열(`...`, 여러 줄 가능), 룬 리터럴('a')을 구분합니다.
+ */
+
+import { BaseTokenizer, LiteralMatch } from './BaseTokenizer';
+
+export class GoTokenizer extends BaseTokenizer {
+  protected readonly keywords: ReadonlySet<string> = new Set([
+    'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for',
+    'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select',
+    'struct', 'switch', 'type', 'var'
+  ]);
+
+  protected readonly punctuators: string[] = [
+    '<<=', '>>=', '&^=', '...', '&&', '||', '<-', '++', '--', '==', '!=', '<=', '>=', ':=',
+    '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<', '>>', '&^'
+  ];
+
+  protected readLiteral(code: string, pos: number): LiteralMatch | null {
+    const char = code[pos];
+    if (char === '"' || char === "'") {
+      return { type: 'string', end: this.readQuoted(code, pos, char) };
+    }
+    if (char === '`') {
+      return { type: 'string', end: this.readQuoted(code, pos, '`', 'none') };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * JavaScript/TypeScript 토크나이저
+ * 문자열, 템플릿 리터럴(보간 포함), 정규식 리터럴, 주석을 구분합니다.
+ */
+
+import { Token } from '../types/TokenTypes';
+import { BaseTokenizer, LiteralMatch } from './BaseTokenizer';
+
+export class JavaScriptTokenizer extends BaseTokenizer {
+  protected readonly keywords: ReadonlySet<string> = new Set([
+    'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+    'debugger', 'declare', 'default', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'false',
+    'finally', 'for', 'from', 'function', 'if', 'implements', 'import', 'in', 'instanceof',
+    'interface', 'keyof', 'let', 'namespace', 'new', 'null', 'of', 'private', 'protected', 'public',
+    'readonly', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type',
+    'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield'
+  ]);
+
+  protected readonly punctuators: string[] = [
+    '>>>=', '...', '===', '!==', '**=', '<<=', '>>=', '>>>', '&&=', '||=', '??=',
+    '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '++', '--',
+    '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '**', '<<', '>>'
+  ];
+
+  /** 정규식 리터럴이 올 수 있는 직전 키워드 */
+  private static readonly REGEX_PRECEDING_KEYWORDS = new Set([
+    'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw',
+    'case', 'do', 'else', 'yield', 'await'
+  ]);
+
+  protected readLiteral(code: string, pos: number, tokens: Token[]): LiteralMatch | null {
+    const char = code[pos];
+
+    if (char === '"' || char === "'") {
+      return { type: 'string', end: this.readQuoted(code, pos, char) };
+    }
+
+    if (char === '`') {
+      return { type: 'string', end: this.readTemplate(code, pos) };
+    }
+
+    if (char === '/' && this.isRegexAllowed(tokens)) {
+      const end = this.readRegex(code, pos);
+      if (end !== null) {
+        return { type: 'regex', end };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 템플릿 리터럴을 읽습니다. `${...}` 내부의 중첩 템플릿도 처리합니다.
+   */
+  private readTemplate(code: string, pos: number): number {
+    let end = pos + 1;
+    while (end < code.length) {
+      if (code[end] === '\\') {
+        end += 2;
+      } else if (code[end] === '`') {
+        return end + 1;
+      } else if (code.startsWith('${', end)) {
+        end = this.skipBalanced(code, end + 2, '{', '}');
+      } else {
+        end++;
+      }
+    }
+    return code.length;
+  }
+
+  /**
+   * 정규식 리터럴을 읽습니다. 줄이 끝날 때까지 닫히지 않으면 null을 반환합니다.
+   */
+  private readRegex(code: string, pos: number): number | null {
+    let end = pos + 1;
+    let inClass = false;
+    while (end < code.length && code[end] !== '\n') {
+      const char = code[end];
+      if (char === '\\') {
+        end += 2;
+        continue;
+      }
+      if (char === '[') {
+        inClass = true;
+      } else if (char === ']') {
+        inClass = false;
+      } else if (char === '/' && !inClass) {
+        end++;
+        while (end < code.length && /[a-z]/i.test(code[end])) {
+          end++;
+        }
+        return end;
+      }
+      end++;
+    }
+    return null;
+  }
+
+  /**
+   * 직전 토큰을 보고 `/`가 정규식 시작인지 나눗셈인지 판단합니다.
+   */
+  private isRegexAllowed(tokens: Token[]): boolean {
+    for (let i = tokens.length - 1; i >= 0; i--) {
+      const token = tokens[i];
+      if (token.type === 'whitespace' || token.type === 'newline' || token.type === 'comment') {
+        continue;
+      }
+      if (token.type === 'keyword') {
+        return JavaScriptTokenizer.REGEX_PRECEDING_KEYWORDS.has(token.value);
+      }
+      if (token.type === 'punctuation') {
+        return ![')', ']', '}'].includes(token.value);
+      }
+      return false;
+    }
+    return true;
+  }
+}
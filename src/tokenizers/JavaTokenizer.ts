@@ -0,0 +1,35 @@
+/**
+ * Java 토크나이저
+ * 문자열, 텍스트 블록("""), 문자 리터럴, 주석을 구분합니다.
+ */
+
+import { BaseTokenizer, LiteralMatch } from './BaseTokenizer';
+
+export class JavaTokenizer extends BaseTokenizer {
+  protected readonly keywords: ReadonlySet<string> = new Set([
+    'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const',
+    'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'finally',
+    'float', 'for', 'goto', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long',
+    'native', 'new', 'null', 'package', 'private', 'protected', 'public', 'record', 'return',
+    'short', 'static', 'strictfp', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws',
+    'transient', 'true', 'try', 'var', 'void', 'volatile', 'while', 'yield'
+  ]);
+
+  protected readonly punctuators: string[] = [
+    '>>>=', '<<=', '>>=', '>>>', '...', '->', '::', '==', '!=', '<=', '>=', '&&', '||',
+    '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<', '>>'
+  ];
+
+  protected readLiteral(code: string, pos: number): LiteralMatch | null {
+    if (code.startsWith('"""', pos)) {
+      return { type: 'string', end: this.readQuoted(code, pos, '"""') };
+    }
+
+    const char = code[pos];
+    if (char === '"' || char === "'") {
+      return { type: 'string', end: this.readQuoted(code, pos, char) };
+    }
+
+    return null;
+  }
+}
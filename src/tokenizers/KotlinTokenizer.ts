@@ -0,0 +1,83 @@
+/**
+ * Kotlin 토크나이저
+ * 문자열 템플릿(${...}), raw 문자열("""), 문자 리터럴, 백틱 식별자, 중첩 블록 주석을 구분합니다.
+ */
+
+import { BaseTokenizer, LiteralMatch } from './BaseTokenizer';
+
+export class KotlinTokenizer extends BaseTokenizer {
+  protected readonly keywords: ReadonlySet<string> = new Set([
+    'abstract', 'as', 'break', 'by', 'class', 'companion', 'const', 'constructor', 'continue',
+    'data', 'do', 'else', 'enum', 'false', 'final', 'for', 'fun', 'if', 'import', 'in', 'init',
+    'inline', 'interface', 'internal', 'is', 'lateinit', 'null', 'object', 'open', 'override',
+    'package', 'private', 'protected', 'public', 'return', 'sealed', 'super', 'suspend', 'this',
+    'throw', 'true', 'try', 'typealias', 'val', 'var', 'vararg', 'when', 'where', 'while'
+  ]);
+
+  protected readonly punctuators: string[] = [
+    '!==', '===', '..<', '?.', '?:', '!!', '->', '::', '..', '==', '!=', '<=', '>=', '&&', '||',
+    '++', '--', '+=', '-=', '*=', '/=', '%='
+  ];
+
+  protected readonly nestedBlockComments: boolean = true;
+
+  protected readLiteral(code: string, pos: number): LiteralMatch | null {
+    if (code.startsWith('"""', pos)) {
+      return { type: 'string', end: this.readRawString(code, pos) };
+    }
+
+    const char = code[pos];
+    if (char === '"') {
+      return { type: 'string', end: this.readTemplateString(code, pos) };
+    }
+    if (char === "'") {
+      return { type: 'string', end: this.readQuoted(code, pos, "'") };
+    }
+    if (char === '`') {
+      return { type: 'identifier', end: this.readQuoted(code, pos, '`', 'none') };
+    }
+
+    return null;
+  }
+
+  /**
+   * 일반 문자열을 읽습니다. `${...}` 보간 내부의 중첩 문자열도 처리합니다.
+   */
+  private readTemplateString(code: string, pos: number): number {
+    let end = pos + 1;
+    while (end < code.length && code[end] !== '\n') {
+      if (code[end] === '\\') {
+        end += 2;
+      } else if (code[end] === '"') {
+        return end + 1;
+      } else if (code.startsWith('${', end)) {
+        end = this.skipBalanced(code, end + 2, '{', '}');
+      } else {
+        end++;
+      }
+    }
+    return end;
+  }
+
+  /**
+   * raw 문자열을 읽습니다. 닫는 따옴표 뒤에 이어지는 따옴표도 문자열에 포함됩니다.
+   */
+  private readRawString(code: string, pos: number): number {
+    let end = pos + 3;
+    while (end < code.length) {
+      if (code.startsWith('"""', end)) {
+        end += 3;
+        while (code[end] === '"') {
+          end++;
+        }
+        return end;
+      }
+      if (code.startsWith('${', end)) {
+        end = this.skipBalanced(code, end + 2, '{', '}');
+      } else {
+        end++;
+      }
+    }
+    return code.length;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Python 토크나이저
+ * 접두사(r, b, f, u 조합)가 붙은 문자열, 세 따옴표 문자열, '#' 주석, 8진수 리터럴을 구분합니다.
+ */
+
+import { BaseTokenizer, LiteralMatch } from './BaseTokenizer';
+
+export class PythonTokenizer extends BaseTokenizer {
+  protected readonly keywords: ReadonlySet<string> = new Set([
+    'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+    'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+    'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'
+  ]);
+
+  protected readonly punctuators: string[] = [
+    '**=', '//=', '>>=', '<<=', '...', '->', ':=', '**', '//', '<<', '>>', '<=', '>=', '==', '!=',
+    '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@='
+  ];
+
+  protected readonly lineCommentPrefixes: string[] = ['#'];
+
+  protected readonly blockComment: [string, string] | null = null;
+
+  /** 문자열 시작 (접두사 + 여는 따옴표) */
+  private static readonly STRING_START = /(?:[rR][bBfF]?|[bBfF][rR]?|[uU])?('''|"""|'|")/y;
+
+  /** 기본 숫자 패턴이 나누어 읽는 숫자 (0o17, 1.) */
+  private static readonly NUMBER = /0[oO][0-7_]+|\d[\d_]*\.(?![\w.])/y;
+
+  protected readLiteral(code: string, pos: number): LiteralMatch | null {
+    PythonTokenizer.STRING_START.lastIndex = pos;
+    const string = PythonTokenizer.STRING_START.exec(code);
+    if (string) {
+      const quote = string[1];
+      const quoteStart = pos + string[0].length - quote.length;
+      return { type: 'string', end: this.readString(code, quoteStart, quote) };
+    }
+
+    PythonTokenizer.NUMBER.lastIndex = pos;
+    const number = PythonTokenizer.NUMBER.exec(code);
+    if (number) {
+      return { type: 'number', end: pos + number[0].length };
+    }
+
+    return null;
+  }
+
+  /**
+   * 문자열을 읽습니다. 한 줄 문자열은 닫히지 않으면 줄 끝에서 멈춥니다.
+   */
+  private readString(code: string, pos: number, quote: string): number {
+    if (quote.length === 3) {
+      return this.readQuoted(code, pos, quote);
+    }
+
+    let end = pos + 1;
+    while (end < code.length && code[end] !== '\n') {
+      if (code[end] === '\\') {
+        end += code[end + 1] === '\r' && code[end + 2] === '\n' ? 3 : 2;
+      } else if (code[end] === quote) {
+        return end + 1;
+      } else {
+        end++;
+      }
+    }
+    return Math.min(end, code.length);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Rust 토크나이저
+ * 문자열, 바이트 문자열(b"..."), raw 문자열(r#"..."#), 문자 리터럴과 라이프타임('a), 중첩 블록 주석을 구분합니다.
+ */
+
+import { BaseTokenizer, LiteralMatch } from './BaseTokenizer';
+
+export class RustTokenizer extends BaseTokenizer {
+  protected readonly keywords: ReadonlySet<string> = new Set([
+    'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern',
+    'false', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub',
+    'ref', 'return', 'self', 'Self', 'static', 'struct', 'super', 'trait', 'true', 'type', 'unsafe',
+    'use', 'where', 'while'
+  ]);
+
+  protected readonly punctuators: string[] = [
+    '<<=', '>>=', '..=', '...', '::', '->', '=>', '==', '!=', '<=', '>=', '&&', '||',
+    '+=', '-=', '*=', '/=', '%=', '^=', '&=', '|=', '<<', '>>', '..'
+  ];
+
+  protected readonly nestedBlockComments: boolean = true;
+
+  /** raw 문자열 시작 (r"", r#""#, br"") */
+  private static readonly RAW_STRING_START = /b?r(#*)"/y;
+
+  protected readLiteral(code: string, pos: number): LiteralMatch | null {
+    RustTokenizer.RAW_STRING_START.lastIndex = pos;
+    const raw = RustTokenizer.RAW_STRING_START.exec(code);
+    if (raw) {
+      const closing = `"${raw[1]}`;
+      const end = code.indexOf(closing, pos + raw[0].length);
+      return { type: 'string', end: end === -1 ? code.length : end + closing.length };
+    }
+
+    const char = code[pos];
+    if (char === 'b' && (code[pos + 1] === '"' || code[pos + 1] === "'")) {
+      return { type: 'string', end: this.readQuoted(code, pos + 1, code[pos + 1]) };
+    }
+    if (char === '"') {
+      return { type: 'string', end: this.readQuoted(code, pos, '"') };
+    }
+    if (char === "'") {
+      return this.readCharOrLifetime(code, pos);
+    }
+
+    return null;
+  }
+
+  /**
+   * 문자 리터럴('a', '\n', '\u{1F600}') 또는 라이프타임('a, 'static)을 읽습니다.
+   */
+  private readCharOrLifetime(code: string, pos: number): LiteralMatch {
+    if (code[pos + 1] === '\\') {
+      return { type: 'string', end: this.readQuoted(code, pos, "'") };
+    }
+    const next = code.codePointAt(pos + 1);
+    const charLength = next !== undefined && next > 0xffff ? 2 : 1;
+    if (code[pos + 1 + charLength] === "'") {
+      return { type: 'string', end: pos + 2 + charLength };
+    }
+
+    const lifetime = /'[\p{L}_][\p{L}\p{N}_]*/uy;
+    lifetime.lastIndex = pos;
+    const match = lifetime.exec(code);
+    return { type: 'identifier', end: match ? pos + match[0].length : pos + 1 };
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * SQL 토크나이저
+ * 문자열 리터럴('...'), 따옴표 식별자("...", `...`, [...]), 주석(--, /* *\/, #)을 구분합니다.
+ * 따옴표 종류, 문자열 접두사(N'...', E'...'), 달러 인용($$...$$), 배치 구분자(GO)는 방언 규칙을 따릅니다.
+ * 키워드는 대소문자를 구분하지 않습니다.
+ */
+
+import { BaseTokenizer, LiteralMatch } from './BaseTokenizer';
+import { Token } from '../types/TokenTypes';
+import { SqlDialect } from '../types/FormattingTypes';
+import { SqlDialectRules, SqlStringEscape } from '../types/SqlTypes';
+import { SQL_DIALECTS } from '../constants/SqlDialects';
+
+/**
+ * SQL 키워드 목록 (여러 단어로 된 키워드 포함)
+ * 모든 방언에 공통이며, 방언별 키워드는 SQL_DIALECTS에 있습니다.
+ */
+export const SQL_KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'JOIN', 'INNER JOIN', 'LEFT JOIN', 'RIGHT JOIN', 'FULL JOIN',
+  'GROUP BY', 'ORDER BY', 'HAVING', 'INSERT', 'UPDATE', 'DELETE', 'CREATE', 'DROP',
+  'ALTER', 'INDEX', 'TABLE', 'DATABASE', 'SCHEMA', 'VIEW', 'PROCEDURE', 'FUNCTION',
+  'TRIGGER', 'CONSTRAINT', 'PRIMARY KEY', 'FOREIGN KEY', 'UNIQUE', 'NOT NULL',
+  'AND', 'OR', 'NOT', 'IN', 'EXISTS', 'BETWEEN', 'LIKE', 'IS', 'NULL',
+  'UNION', 'INTERSECT', 'EXCEPT', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END',
+  'AS', 'DISTINCT', 'ALL', 'ANY', 'SOME', 'COUNT', 'SUM', 'AVG', 'MIN', 'MAX',
+  'CAST', 'CONVERT', 'SUBSTRING', 'LENGTH', 'UPPER', 'LOWER', 'TRIM',
+  'DECLARE', 'SET', 'IF', 'WHILE', 'FOR', 'CURSOR', 'OPEN', 'FETCH', 'CLOSE',
+  'INTO', 'VALUES', 'ON', 'ASC', 'DESC', 'LIMIT', 'OFFSET', 'WITH', 'RECURSIVE', 'USING',
+  'CROSS JOIN', 'OUTER', 'NATURAL', 'OVER', 'PARTITION BY', 'DEFAULT', 'REFERENCES', 'CHECK', 'ADD',
+  'COLUMN', 'RENAME', 'TO', 'CASCADE', 'REPLACE', 'TEMPORARY', 'BEGIN', 'LOOP', 'REPEAT', 'UNTIL',
+  'ELSEIF', 'RETURN', 'DO', 'BEFORE', 'AFTER', 'EACH', 'ROW'
+];
+
+export class SqlTokenizer extends BaseTokenizer {
+  /** 방언 규칙 */
+  public readonly rules: SqlDialectRules;
+
+  protected readonly keywords: ReadonlySet<string>;
+
+  protected readonly punctuators: string[] = ['<>', '!=', '<=', '>=', '||', '::', ':='];
+
+  protected readonly lineCommentPrefixes: string[];
+
+  protected readonly nestedBlockComments: boolean;
+
+  protected readonly caseInsensitiveKeywords: boolean = true;
+
+  /** 달러 인용 시작 태그 ($$, $body$) */
+  private static readonly DOLLAR_TAG = /\$(?:[A-Za-z_]\w*)?\$/y;
+
+  /** Oracle 대체 인용 시작 (q'[, nq'{) */
+  private static readonly ALTERNATIVE_QUOTE_START = /n?q'(.)/iy;
+
+  /** 대체 인용의 여는 괄호별 닫는 괄호 (그 밖의 문자는 같은 문자로 닫음) */
+  private static readonly ALTERNATIVE_QUOTE_PAIRS: Record<string, string> = { '[': ']', '{': '}', '(': ')', '<': '>' };
+
+  /**
+   * @param dialect SQL 방언 (이전 버전에서 저장한 컨벤션처럼 방언이 없으면 표준 SQL)
+   */
+  constructor(dialect: SqlDialect = 'standard') {
+    super();
+    this.rules = SQL_DIALECTS[dialect] ?? SQL_DIALECTS.standard;
+    this.keywords = new Set(
+      [...SQL_KEYWORDS, ...this.rules.keywords].flatMap(keyword => keyword.split(' '))
+    );
+    this.lineCommentPrefixes = this.rules.hashComments ? ['--', '#'] : ['--'];
+    this.nestedBlockComments = this.rules.nestedBlockComments;
+  }
+
+  protected readLiteral(code: string, pos: number, tokens: Token[]): LiteralMatch | null {
+    const char = code[pos];
+
+    if (this.rules.batchSeparator && this.isBatchSeparator(code, pos, tokens)) {
+      return { type: 'keyword', end: pos + this.rules.batchSeparator.length };
+    }
+
+    const prefixed = this.readPrefixedString(code, pos);
+    if (prefixed !== null) {
+      return { type: 'string', end: prefixed };
+    }
+
+    if (this.rules.dollarQuoting && char === '$') {
+      SqlTokenizer.DOLLAR_TAG.lastIndex = pos;
+      const tag = SqlTokenizer.DOLLAR_TAG.exec(code);
+      if (tag) {
+        const end = code.indexOf(tag[0], pos + tag[0].length);
+        return { type: 'string', end: end === -1 ? code.length : end + tag[0].length };
+      }
+    }
+
+    if (char === "'") {
+      return { type: 'string', end: this.readString(code, pos, this.rules.stringEscape) };
+    }
+    if (char === '"') {
+      return this.rules.identifierQuotes.includes('"')
+        ? { type: 'identifier', end: this.readQuoted(code, pos, '"', 'double') }
+        : { type: 'string', end: this.readString(code, pos, this.rules.stringEscape) };
+    }
+    if (char === '`' && this.rules.identifierQuotes.includes('`')) {
+      return { type: 'identifier', end: this.readQuoted(code, pos, '`', 'double') };
+    }
+    if (char === '[' && this.rules.identifierQuotes.includes('[')) {
+      // 여는 대괄호 한 글자를 건너뛰고 ]]는 이스케이프로 읽음
+      return { type: 'identifier', end: this.readQuoted(code, pos, ']', 'double') };
+    }
+
+    return null;
+  }
+
+  /**
+   * 줄에 홀로 쓴 배치 구분자인지 확인합니다. (GO, GO 5)
+   */
+  private isBatchSeparator(code: string, pos: number, tokens: Token[]): boolean {
+    const separator = this.rules.batchSeparator!;
+    if (code.slice(pos, pos + separator.length).toUpperCase() !== separator) {
+      return false;
+    }
+
+    let index = tokens.length - 1;
+    if (tokens[index]?.type === 'whitespace') {
+      index--;
+    }
+    if (index >= 0 && tokens[index].type !== 'newline') {
+      return false;
+    }
+
+    const rest = /[ \t]*(?:\d+[ \t]*)?(?:--.*)?(?:\r?\n|$)/y;
+    rest.lastIndex = pos + separator.length;
+    return rest.test(code);
+  }
+
+  /**
+   * 접두사가 붙은 문자열(N'...', E'...', rb"...", q'[...]')을 읽고 끝 오프셋을 반환합니다.
+   * 접두사 문자열이 아니면 null을 반환합니다.
+   */
+  private readPrefixedString(code: string, pos: number): number | null {
+    if (!/[A-Za-z]/.test(code[pos])) {
+      return null;
+    }
+
+    if (this.rules.alternativeQuoting) {
+      SqlTokenizer.ALTERNATIVE_QUOTE_START.lastIndex = pos;
+      const start = SqlTokenizer.ALTERNATIVE_QUOTE_START.exec(code);
+      if (start && !/\s/.test(start[1])) {
+        const closing = (SqlTokenizer.ALTERNATIVE_QUOTE_PAIRS[start[1]] ?? start[1]) + "'";
+        const end = code.indexOf(closing, pos + start[0].length);
+        return end === -1 ? code.length : end + closing.length;
+      }
+    }
+
+    // 긴 접두사부터 확인 (RB가 R보다 먼저)
+    const prefixes = Object.keys(this.rules.stringPrefixes).sort((a, b) => b.length - a.length);
+    for (const prefix of prefixes) {
+      const quotePos = pos + prefix.length;
+      if (code.slice(pos, quotePos).toUpperCase() === prefix && this.isStringQuote(code[quotePos])) {
+        return this.readString(code, quotePos, this.rules.stringPrefixes[prefix]);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 문자열을 여는 따옴표인지 확인합니다. (식별자 따옴표로 쓰는 큰따옴표는 제외)
+   */
+  private isStringQuote(char: string | undefined): boolean {
+    return char === "'" || (char === '"' && !this.rules.identifierQuotes.includes('"'));
+  }
+
+  /**
+   * 문자열을 읽고 끝 오프셋을 반환합니다. 방언이 허용하면 세 따옴표 문자열도 읽습니다.
+   * @param pos 여는 따옴표 위치
+   */
+  private readString(code: string, pos: number, escape: SqlStringEscape): number {
+    const quote = code[pos];
+    if (this.rules.tripleQuotedStrings && code.startsWith(quote.repeat(3), pos)) {
+      return this.readQuoted(code, pos, quote.repeat(3), escape === 'double' ? 'none' : escape);
+    }
+    return this.readQuoted(code, pos, quote, escape);
+  }
+}
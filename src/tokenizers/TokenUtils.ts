@@ -0,0 +1,244 @@
+/**
+ * 토큰 배열 처리 유틸리티
+ * 포매팅 규칙이 토큰 단위로 동작하도록 공백 조정, 리터럴 보호 등의 기능을 제공합니다.
+ */
+
+import { Token, TokenType, MaskedCode } from '../types/TokenTypes';
+
+/**
+ * 토큰 조건 함수
+ * @param token 검사할 토큰
+ * @param index 토큰 배열 내 위치
+ * @param tokens 전체 토큰 배열
+ */
+export type TokenPredicate = (token: Token, index: number, tokens: Token[]) => boolean;
+
+export class TokenUtils {
+  /** 자리표시자 시작/끝 문자 (유니코드 사설 영역) */
+  private static readonly MASK_START = '\uE000';
+  private static readonly MASK_END = '\uE001';
+  private static readonly MASK_PATTERN = /\uE000(\d+)\uE001/g;
+
+  /** 피연산자로 취급하는 키워드 (단항/이항 연산자 판별용) */
+  private static readonly OPERAND_KEYWORDS = new Set([
+    'this', 'super', 'null', 'true', 'false', 'undefined', 'it'
+  ]);
+
+  /**
+   * 토큰 배열을 코드 문자열로 변환합니다.
+   */
+  public static stringify(tokens: Token[]): string {
+    return tokens.map(token => token.value).join('');
+  }
+
+  /**
+   * 포매팅 규칙이 내용을 바꾸면 안 되는 토큰인지 확인합니다.
+   * 문자열, 주석, 정규식, 따옴표로 감싼 식별자가 해당됩니다.
+   */
+  public static isOpaque(token: Token): boolean {
+    return token.type === 'string' ||
+      token.type === 'comment' ||
+      token.type === 'regex' ||
+      (token.type === 'identifier' && /^["`\[]/.test(token.value));
+  }
+
+  /**
+   * 공백/개행/주석이 아닌 토큰인지 확인합니다.
+   */
+  public static isSignificant(token: Token): boolean {
+    return token.type !== 'whitespace' && token.type !== 'newline' && token.type !== 'comment';
+  }
+
+  /**
+   * 지정된 위치 이전의 의미 있는 토큰을 반환합니다.
+   */
+  public static previousSignificant(tokens: Token[], index: number): Token | undefined {
+    for (let i = index - 1; i >= 0; i--) {
+      if (this.isSignificant(tokens[i])) {
+        return tokens[i];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 지정된 위치 이후의 의미 있는 토큰을 반환합니다.
+   */
+  public static nextSignificant(tokens: Token[], index: number): Token | undefined {
+    for (let i = index + 1; i < tokens.length; i++) {
+      if (this.isSignificant(tokens[i])) {
+        return tokens[i];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 토큰이 피연산자(식별자, 리터럴, 닫는 괄호)인지 확인합니다.
+   */
+  public static isOperand(token: Token | undefined): boolean {
+    if (!token) {
+      return false;
+    }
+    if (token.type === 'keyword') {
+      return this.OPERAND_KEYWORDS.has(token.value);
+    }
+    if (token.type === 'punctuation') {
+      return token.value === ')' || token.value === ']';
+    }
+    return token.type === 'identifier' || token.type === 'number' || token.type === 'string';
+  }
+
+  /**
+   * 이항 연산자로 쓰인 토큰인지 확인합니다.
+   * 단항 연산자(-1, !x)와 제네릭 꺾쇠(List<String>)는 제외합니다.
+   * @param tokens 전체 토큰 배열
+   * @param index 검사할 위치
+   * @param operators 이항 연산자 목록
+   */
+  public static isBinaryOperator(tokens: Token[], index: number, operators: ReadonlySet<string>): boolean {
+    const token = tokens[index];
+    if (token.type !== 'punctuation' || !operators.has(token.value)) {
+      return false;
+    }
+
+    // 직전이 피연산자가 아니면 단항 연산자 또는 와일드카드 (-x, import a.*)
+    if (!this.isOperand(this.previousSignificant(tokens, index))) {
+      return false;
+    }
+
+    // 꺾쇠는 원본에 공백이 있거나 숫자와 비교할 때만 비교 연산자로 취급 (제네릭과 구분)
+    // 닫는 꺾쇠는 앞에, 여는 꺾쇠는 뒤에 공백이 있어야 함 (List<String> items의 '>'는 제네릭)
+    if (['<', '>', '>>', '>>>'].includes(token.value)) {
+      const before = tokens[index - 1];
+      const after = tokens[index + 1];
+      const spaced = token.value === '<'
+        ? after?.type === 'whitespace'
+        : before?.type === 'whitespace';
+      return spaced || before?.type === 'number' || after?.type === 'number';
+    }
+
+    return true;
+  }
+
+  /**
+   * 조건에 맞는 토큰 앞뒤의 공백을 조정합니다.
+   * 줄의 시작/끝에서는 공백을 추가하지 않으며, 리터럴 내부는 건드리지 않습니다.
+   * @param tokens 토큰 배열
+   * @param predicate 대상 토큰 조건
+   * @param before 앞 공백 (true: 한 칸, false: 제거, undefined: 유지)
+   * @param after 뒤 공백 (true: 한 칸, false: 제거, undefined: 유지)
+   * @returns 공백이 조정된 새 토큰 배열
+   */
+  public static adjustSpacing(
+    tokens: Token[],
+    predicate: TokenPredicate,
+    before?: boolean,
+    after?: boolean
+  ): Token[] {
+    const result: Token[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (!predicate(token, i, tokens)) {
+        result.push(token);
+        continue;
+      }
+
+      if (before !== undefined) {
+        while (result.length > 0 && result[result.length - 1].type === 'whitespace') {
+          result.pop();
+        }
+        const previous = result[result.length - 1];
+        if (before && previous && previous.type !== 'newline') {
+          result.push(this.createToken('whitespace', ' ', token));
+        }
+      }
+
+      result.push(token);
+
+      if (after !== undefined) {
+        let next = i + 1;
+        while (next < tokens.length && tokens[next].type === 'whitespace') {
+          next++;
+        }
+        const following = tokens[next];
+        if (after && following && following.type !== 'newline') {
+          result.push(this.createToken('whitespace', ' ', token));
+        }
+        i = next - 1;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 리터럴과 주석의 내용을 자리표시자로 가립니다.
+   * 따옴표와 주석 기호는 남겨 두어 줄 단위 규칙이 종류를 판별할 수 있게 합니다.
+   * @param tokens 토큰 배열
+   * @returns 가려진 코드와 원본 내용
+   */
+  public static mask(tokens: Token[]): MaskedCode {
+    const literals: string[] = [];
+    const parts = tokens.map(token => {
+      if (!this.isOpaque(token)) {
+        return token.value;
+      }
+      const [head, tail] = this.getDelimiters(token);
+      const index = literals.length;
+      literals.push(token.value.slice(head.length, token.value.length - tail.length));
+      return `${head}${this.MASK_START}${index}${this.MASK_END}${tail}`;
+    });
+
+    return { code: parts.join(''), literals };
+  }
+
+  /**
+   * 자리표시자를 원본 내용으로 복원합니다.
+   */
+  public static unmask(code: string, literals: string[]): string {
+    return code.replace(this.MASK_PATTERN, (match, index) => literals[Number(index)] ?? match);
+  }
+
+  /**
+   * 가릴 때 남겨 둘 토큰의 시작/끝 기호를 반환합니다.
+   */
+  private static getDelimiters(token: Token): [string, string] {
+    const value = token.value;
+
+    if (token.type === 'comment') {
+      if (value.startsWith('/*')) {
+        return ['/*', value.length >= 4 && value.endsWith('*/') ? '*/' : ''];
+      }
+      const prefix = value.match(/^(\/\/|--|#)/);
+      return [prefix ? prefix[1] : '', ''];
+    }
+
+    if (token.type === 'regex') {
+      return ['', ''];
+    }
+
+    const quote = value.match(/^("""|"|'|`|\[)/);
+    if (!quote || value.length < quote[1].length * 2) {
+      return ['', ''];
+    }
+    const closing = quote[1] === '[' ? ']' : quote[1];
+    return value.endsWith(closing) ? [quote[1], closing] : [quote[1], ''];
+  }
+
+  /**
+   * 포매팅 규칙이 삽입할 토큰을 생성합니다.
+   * 위치 정보는 기준 토큰의 것을 사용합니다.
+   */
+  public static createToken(type: TokenType, value: string, reference: Token): Token {
+    return {
+      type,
+      value,
+      start: reference.start,
+      end: reference.start,
+      line: reference.line,
+      column: reference.column
+    };
+  }
+}
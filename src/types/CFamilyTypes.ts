@@ -0,0 +1,74 @@
+/**
+ * 중괄호 언어(C 계열) 포매팅 엔진 관련 TypeScript 타입 정의
+ * Java, Kotlin, Go, Rust, C# 포매터가 CFamilyFormatter에 넘기는 언어별 문법 설정을 정의합니다.
+ */
+
+/**
+ * import 문 정렬 규칙
+ * 파일 앞부분(헤더 선언과 주석 다음)에 이어진 import 문만 정렬하고, 블록 안의 import 문은 옮기지 않습니다.
+ */
+export interface CFamilyImportRules {
+  /** import 문 한 줄 패턴 (앞뒤 공백을 뺀 줄에 적용) */
+  statement: RegExp;
+  /** import 문보다 먼저 오는 헤더 선언 패턴 (package 등) */
+  header?: RegExp;
+  /** 따로 모아 맨 앞에 둘 import 문 패턴 (Java static import) */
+  leading?: RegExp;
+  /** leading 묶음과 나머지 import 문 사이 빈 줄 여부 */
+  separateLeading?: boolean;
+  /** 그룹 순서 (처음 맞는 패턴의 그룹에 넣고, 맞는 패턴이 없으면 마지막 그룹) */
+  groups: RegExp[];
+  /**
+   * 그룹을 더 나눌 최상위 이름 패턴 (첫 번째 캡처 그룹)
+   * C#처럼 최상위 네임스페이스가 바뀔 때마다 빈 줄을 넣는 언어에서 씁니다.
+   */
+  rootName?: RegExp;
+}
+
+/**
+ * 빈 줄 규칙에 쓰는 선언 줄 패턴 (앞뒤 공백을 뺀 줄에 적용)
+ */
+export interface CFamilyDeclarationRules {
+  /** 타입 선언 (class, struct, interface, enum 등) */
+  type: RegExp;
+  /** 함수/메서드 선언 */
+  function: RegExp;
+  /** 선언 앞에 붙는 어노테이션/특성 줄 (@Override, [Obsolete], #[derive(...)]) */
+  annotation: RegExp;
+}
+
+/**
+ * 언어별 문법 설정
+ */
+export interface CFamilyGrammar {
+  /** 공백을 적용할 이항 연산자 */
+  binaryOperators: ReadonlySet<string>;
+  /** 조건 연산자(a ? b : c)가 있는지 여부 (이항 연산자처럼 앞뒤 공백을 맞춤) */
+  ternaryOperator?: boolean;
+  /** 괄호 앞 공백 규칙을 적용할 제어문 키워드 */
+  controlKeywords: ReadonlySet<string>;
+  /** 여는 중괄호 앞 공백을 맞출지 여부 (Go 복합 리터럴처럼 붙여 쓰는 언어는 false) */
+  spaceBeforeOpenBrace: boolean;
+  /** case 레이블이 있는 블록을 여는 키워드 (switch, select) */
+  switchKeywords: ReadonlySet<string>;
+  /**
+   * 한 줄에 쓴 블록을 펼칠 때 블록을 여는 것으로 볼 줄 첫 키워드 (if, else, try 등)
+   * 함수 선언은 declarations.function으로 판별하고, 그 밖의 중괄호(초기화식, 람다, 복합 리터럴)는 펼치지 않습니다.
+   */
+  blockKeywords: ReadonlySet<string>;
+  /** case 레이블을 switch 줄보다 한 단계 들여쓸지 여부 (gofmt는 switch와 같은 열) */
+  indentCaseLabels: boolean;
+  /** 중괄호 위치를 그대로 둘지 여부 (Go는 세미콜론 자동 삽입 때문에 K&R로만 쓸 수 있어 옮길 필요가 없음) */
+  preserveBracePlacement?: boolean;
+  /**
+   * Allman 스타일에서 여는 중괄호를 다음 줄로 옮길 줄 패턴 (없으면 모든 블록)
+   * Kotlin 후행 람다처럼 줄을 바꾸면 의미가 달라지는 중괄호를 제외할 때 씁니다.
+   */
+  allmanBlockLine?: RegExp;
+  /** 줄 끝의 문 구분 세미콜론을 지울지 여부 (gofmt처럼 세미콜론 자동 삽입에 맡기는 언어) */
+  omitStatementSemicolons?: boolean;
+  /** import 정렬 규칙 (없으면 import 문을 옮기지 않음) */
+  imports?: CFamilyImportRules;
+  /** 선언 줄 패턴 */
+  declarations: CFamilyDeclarationRules;
+}
@@ -0,0 +1,68 @@
+/**
+ * 명령줄 인터페이스 관련 TypeScript 타입 정의
+ * CLI 인자 파싱 결과와 입력 소스를 정의합니다.
+ */
+
+import { SupportedLanguage, IdeExportFormat, FormattingConvention } from './FormattingTypes';
+
+/**
+ * CLI 명령
+ * - format: 코드 포매팅 (--write면 파일을 덮어씀)
+ * - check: 포매팅이 필요한 파일이 있으면 종료 코드 1
+ * - align: 구분자 기반 컬럼 정렬
+ * - json: JSON 압축(minify)/정리(prettify)
+ * - export-ide: 컨벤션을 IDE/도구 설정 파일로 내보내기
+ */
+export type CliCommand = 'format' | 'check' | 'align' | 'json' | 'yaml' | 'export-ide';
+
+/**
+ * 파싱된 CLI 인자
+ */
+export interface CliOptions {
+  /** 실행할 명령 (없으면 도움말) */
+  command: CliCommand | null;
+  /** 명령 뒤의 위치 인자 (파일, 글롭, '-'는 표준 입력) */
+  args: string[];
+  /** 언어 (생략하면 파일 확장자나 코드 내용으로 추론) */
+  language?: SupportedLanguage;
+  /** 프리셋 ID */
+  preset?: string;
+  /** 컨벤션/프리셋 JSON 파일 경로 */
+  config?: string;
+  /** 결과를 원본 파일에 덮어쓸지 여부 */
+  write: boolean;
+  /** 위치 인자(없으면 표준 입력)를 unified diff로 읽고 바뀐 줄만 포매팅할지 여부 (format/check) */
+  diff: boolean;
+  /** 컬럼 정렬 구분자 */
+  delimiter?: string;
+  /** IDE 설정 파일 형식 */
+  ideFormat?: IdeExportFormat;
+  /** 출력 파일 경로 */
+  output?: string;
+  /** 도움말 출력 여부 */
+  help: boolean;
+  /** 버전 출력 여부 */
+  version: boolean;
+}
+
+/**
+ * CLI 입력 소스
+ */
+export interface CliInput {
+  /** 파일 경로 (표준 입력이면 null) */
+  path: string | null;
+  /** 입력 내용 */
+  content: string;
+}
+
+/**
+ * --preset/--config로 고른 컨벤션
+ */
+export interface ResolvedConvention {
+  /** 컨벤션 언어 */
+  language: SupportedLanguage;
+  /** 포매팅 컨벤션 */
+  convention: FormattingConvention;
+  /** 출처 표시명 (프리셋 이름 또는 파일 경로) */
+  source: string;
+}
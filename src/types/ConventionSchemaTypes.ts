@@ -0,0 +1,83 @@
+/**
+ * 컨벤션 편집기 스키마 관련 TypeScript 타입 정의
+ * 언어별 컨벤션 필드를 어떤 입력 컨트롤로 편집할지 기술합니다.
+ */
+
+import { BaseFormattingConvention } from './FormattingTypes';
+
+/**
+ * 선택지 하나
+ */
+export interface ConventionFieldOption {
+  /** 저장되는 값 */
+  value: string;
+  /** 화면 표시명 */
+  label: string;
+}
+
+/**
+ * 필드 공통 속성
+ */
+interface ConventionFieldBase {
+  /** 화면 표시명 */
+  label: string;
+  /** 도움말 */
+  description?: string;
+}
+
+/**
+ * 선택지 중 하나를 고르는 필드
+ */
+export interface EnumFieldSchema extends ConventionFieldBase {
+  type: 'enum';
+  /** 선택지 목록 */
+  options: ConventionFieldOption[];
+}
+
+/**
+ * 숫자 필드
+ */
+export interface NumberFieldSchema extends ConventionFieldBase {
+  type: 'number';
+  /** 최솟값 */
+  min: number;
+  /** 최댓값 */
+  max: number;
+}
+
+/**
+ * 켜기/끄기 필드
+ */
+export interface BooleanFieldSchema extends ConventionFieldBase {
+  type: 'boolean';
+}
+
+/**
+ * 컨벤션 필드 스키마
+ */
+export type ConventionFieldSchema = EnumFieldSchema | NumberFieldSchema | BooleanFieldSchema;
+
+/**
+ * 컨벤션 인터페이스의 편집 가능한 필드 이름 (이름/설명 제외)
+ */
+export type EditableConventionKey<T extends BaseFormattingConvention> = Exclude<keyof T, 'name' | 'description'>;
+
+/**
+ * 컨벤션 인터페이스의 모든 편집 가능한 필드에 대한 스키마
+ * 인터페이스에 필드가 추가되면 스키마에도 추가해야 컴파일됩니다.
+ */
+export type ConventionSchema<T extends BaseFormattingConvention> = {
+  [K in EditableConventionKey<T>]-?: ConventionFieldSchema;
+};
+
+/**
+ * 편집기에 표시할 필드 (스키마 순서대로)
+ */
+export interface ConventionFieldDescriptor {
+  /** 컨벤션 필드 이름 */
+  key: string;
+  /** 필드 스키마 */
+  schema: ConventionFieldSchema;
+  /** 모든 언어에 공통인 필드 여부 */
+  isCommon: boolean;
+}
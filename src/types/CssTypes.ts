@@ -0,0 +1,76 @@
+/**
+ * CSS/SCSS/Less 구조 관련 TypeScript 타입 정의
+ * 포매터가 선택자, 값, 주석 원문을 보존하면서 블록 구조만 다시 쓸 수 있도록
+ * 규칙, at-rule, 선언 단위로 해석한 노드를 정의합니다.
+ */
+
+/**
+ * 모든 노드에 공통인 필드
+ */
+interface CssNodeBase {
+  /** 원문에서 앞에 빈 줄이 있었는지 여부 */
+  blankBefore: boolean;
+  /** 같은 줄 뒤에 붙은 주석 (예: color: red; // 강조색) */
+  trailingComment?: string;
+}
+
+/**
+ * 규칙 (선택자 { ... })
+ */
+export interface CssRule extends CssNodeBase {
+  kind: 'rule';
+  /** 선택자 원문 */
+  selector: string;
+  children: CssNode[];
+}
+
+/**
+ * at-rule (@media, @include, @import 등)
+ */
+export interface CssAtRule extends CssNodeBase {
+  kind: 'atrule';
+  /** '@'를 뺀 이름 (예: 'media', 'include') */
+  name: string;
+  /** 이름 뒤 원문 (예: 'screen and (min-width: 768px)') */
+  params: string;
+  /** 이름과 params 사이에 공백이 있었는지 여부 (@media(...)처럼 붙여 쓴 경우 유지) */
+  spaceAfterName: boolean;
+  /** 블록 내용 (세미콜론으로 끝나는 문이면 null) */
+  children: CssNode[] | null;
+}
+
+/**
+ * 선언 (속성: 값)
+ * SCSS/Less 변수($color: red, @color: red)와 커스텀 속성(--color: red)도 선언으로 읽습니다.
+ */
+export interface CssDeclaration extends CssNodeBase {
+  kind: 'decl';
+  property: string;
+  /** 값 원문 */
+  value: string;
+  /** 선언이 시작한 열의 원문 들여쓰기 (여러 줄 값의 들여쓰기를 맞출 때 사용) */
+  sourceIndent: string;
+}
+
+/**
+ * 원문 그대로 출력하는 문 (Less 믹스인 호출 .mixin();, IE 핵 *zoom: 1; 등)
+ */
+export interface CssRawStatement extends CssNodeBase {
+  kind: 'raw';
+  text: string;
+}
+
+/**
+ * 주석 (블록 주석 또는 SCSS/Less의 // 주석)
+ */
+export interface CssComment extends CssNodeBase {
+  kind: 'comment';
+  text: string;
+  /** 주석이 시작한 열의 원문 들여쓰기 (여러 줄 주석의 들여쓰기를 맞출 때 사용) */
+  sourceIndent: string;
+}
+
+/**
+ * CSS 노드
+ */
+export type CssNode = CssRule | CssAtRule | CssDeclaration | CssRawStatement | CssComment;
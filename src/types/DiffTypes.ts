@@ -0,0 +1,93 @@
+/**
+ * 줄 단위 비교(diff) 관련 TypeScript 타입 정의
+ * 입력 코드와 포매팅 결과의 차이를 헝크(hunk) 단위로 표현합니다.
+ */
+
+/**
+ * 비교 줄 종류
+ * - context: 양쪽에 같은 줄
+ * - added: 결과에만 있는 줄
+ * - removed: 원본에만 있는 줄
+ * - modified: 일부 문자만 바뀐 줄 (원본/결과 한 쌍)
+ */
+export type DiffLineType = 'context' | 'added' | 'removed' | 'modified';
+
+/**
+ * 줄 안의 문자 범위 (0부터 시작, 끝 미포함)
+ */
+export interface CharRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 비교 결과의 한 줄
+ */
+export interface DiffLine {
+  /** 줄 종류 */
+  type: DiffLineType;
+  /** 원본 줄 번호 (1부터 시작, added 줄은 없음) */
+  oldLineNumber?: number;
+  /** 결과 줄 번호 (1부터 시작, removed 줄은 없음) */
+  newLineNumber?: number;
+  /** 원본 줄 내용 */
+  oldText?: string;
+  /** 결과 줄 내용 */
+  newText?: string;
+  /** modified 줄에서 원본의 바뀐 문자 범위 */
+  oldRanges?: CharRange[];
+  /** modified 줄에서 결과의 바뀐 문자 범위 */
+  newRanges?: CharRange[];
+}
+
+/**
+ * 변경 부분과 주변 문맥 줄을 묶은 단위
+ */
+export interface DiffHunk {
+  /** 원본 시작 줄 번호 (1부터 시작) */
+  oldStart: number;
+  /** 원본 줄 수 */
+  oldLines: number;
+  /** 결과 시작 줄 번호 (1부터 시작) */
+  newStart: number;
+  /** 결과 줄 수 */
+  newLines: number;
+  /** 헝크에 포함된 줄 */
+  lines: DiffLine[];
+}
+
+/**
+ * 비교 결과
+ */
+export interface DiffResult {
+  /** 변경 헝크 목록 */
+  hunks: DiffHunk[];
+  /** 추가된 줄 수 */
+  addedLines: number;
+  /** 삭제된 줄 수 */
+  removedLines: number;
+  /** 수정된 줄 수 */
+  modifiedLines: number;
+  /** 변경된 줄 수 (추가 + 삭제 + 수정) */
+  changedLines: number;
+}
+
+/**
+ * 줄 범위 (1부터 시작, 끝 줄 포함)
+ */
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * unified diff(`git diff` 출력)에서 읽은 파일 하나의 변경 정보
+ */
+export interface UnifiedDiffFile {
+  /** 변경 전 경로 (새 파일이면 null) */
+  oldPath: string | null;
+  /** 변경 후 경로 (삭제된 파일이면 null) */
+  newPath: string | null;
+  /** 변경 후 파일에서 추가되거나 바뀐 줄 범위 (삭제만 된 위치는 포함하지 않음) */
+  changedRanges: LineRange[];
+}
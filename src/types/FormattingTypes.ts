@@ -4,9 +4,9 @@
  */
 
 /**
- * 지원되는 프로그래밍 언어 목록
+ * 지원되는 프로그래밍 언어 목록 (LanguageConventionMap의 키)
  */
-export type SupportedLanguage = 'java' | 'json' | 'javascript' | 'kotlin' | 'sql';
+export type SupportedLanguage = keyof LanguageConventionMap;
 
 /**
  * 들여쓰기 타입 (탭 또는 스페이스)
@@ -23,6 +23,27 @@ export type BraceStyle = 'kr' | 'allman' | 'gnu' | 'horstmann';
  */
 export type QuoteStyle = 'single' | 'double';
 
+/**
+ * 태그 속성 줄바꿈 방식
+ * - auto: 태그가 maxLineLength를 넘을 때만 속성을 한 줄에 하나씩 씀
+ * - always: 속성이 둘 이상이면 항상 한 줄에 하나씩 씀
+ * - never: 속성을 항상 태그와 같은 줄에 씀
+ */
+export type AttributeWrapping = 'auto' | 'always' | 'never';
+
+/**
+ * CSS 속성 정렬 방식
+ * - none: 원문 순서 유지
+ * - alphabetical: 알파벳 순 (벤더 접두사는 떼고 비교)
+ * - grouped: 위치 → 박스 모델 → 테두리 → 글꼴 → 시각 효과 → 애니메이션 순
+ */
+export type PropertySortOrder = 'none' | 'alphabetical' | 'grouped';
+
+/**
+ * SQL 방언 (따옴표 식별자, 주석, 문자열 표기와 키워드 목록이 달라짐)
+ */
+export type SqlDialect = 'standard' | 'postgresql' | 'mysql' | 'tsql' | 'oracle' | 'bigquery';
+
 /**
  * 기본 포매팅 컨벤션 인터페이스
  * 모든 언어에 공통으로 적용되는 기본 규칙들을 정의합니다.
@@ -45,25 +66,32 @@ export interface BaseFormattingConvention {
 }
 
 /**
- * Java 언어 특화 포매팅 컨벤션
+ * 중괄호 언어(Java, Kotlin, Go, Rust, C#) 공통 포매팅 컨벤션
+ * CFamilyFormatter 엔진이 읽는 필드입니다.
  */
-export interface JavaFormattingConvention extends BaseFormattingConvention {
+export interface CFamilyFormattingConvention extends BaseFormattingConvention {
   /** 중괄호 스타일 */
   braceStyle: BraceStyle;
   /** import 문 정렬 여부 */
   organizeImports: boolean;
-  /** static import와 일반 import 사이 빈 줄 추가 */
-  separateStaticImports: boolean;
   /** 각 import 그룹 사이 빈 줄 추가 */
   separateImportGroups: boolean;
-  /** 메서드 사이 빈 줄 개수 */
+  /** 메서드(함수) 사이 빈 줄 개수 */
   blankLinesBetweenMethods: number;
-  /** 클래스 사이 빈 줄 개수 */
+  /** 클래스(타입 선언) 사이 빈 줄 개수 */
   blankLinesBetweenClasses: number;
-  /** 어노테이션과 메서드/클래스 사이 빈 줄 여부 */
-  blankLineAfterAnnotations: boolean;
   /** 연산자 주변 공백 추가 */
   spaceAroundOperators: boolean;
+}
+
+/**
+ * Java 언어 특화 포매팅 컨벤션
+ */
+export interface JavaFormattingConvention extends CFamilyFormattingConvention {
+  /** static import와 일반 import 사이 빈 줄 추가 */
+  separateStaticImports: boolean;
+  /** 어노테이션과 메서드/클래스 사이 빈 줄 여부 */
+  blankLineAfterAnnotations: boolean;
   /** 메서드 괄호 앞 공백 여부 */
   spaceBeforeMethodParens: boolean;
   /** if/for/while 괄호 앞 공백 여부 */
@@ -88,6 +116,89 @@ export interface JsonFormattingConvention extends BaseFormattingConvention {
   sortKeys: boolean;
 }
 
+/**
+ * YAML 언어 특화 포매팅 컨벤션
+ * YAML은 들여쓰기에 탭을 쓸 수 없으므로 indentationType이 tab이어도 스페이스로 들여씁니다.
+ */
+export interface YamlFormattingConvention extends BaseFormattingConvention {
+  /** 따옴표로 감싼 스칼라의 따옴표 스타일 (바꾸면 이스케이프가 필요한 값은 그대로 둠) */
+  quoteStyle: QuoteStyle;
+  /** 매핑 값인 시퀀스를 키보다 한 단계 들여쓸지 여부 (false면 '- '를 키와 같은 열에 둠) */
+  indentSequences: boolean;
+  /** 플로우 매핑 중괄호 안쪽 공백 여부 ({ a: 1 }) */
+  bracketSpacing: boolean;
+  /** 매핑 키 정렬 여부 (알파벳 순, 별칭이 앵커보다 앞서게 되면 정렬하지 않음) */
+  sortKeys: boolean;
+}
+
+/**
+ * XML/HTML 공통 포매팅 컨벤션
+ */
+export interface MarkupFormattingConvention extends BaseFormattingConvention {
+  /** 속성 줄바꿈 방식 */
+  attributeWrapping: AttributeWrapping;
+  /** 속성을 줄바꿈할 때 첫 번째 속성을 태그 이름과 같은 줄에 둘지 여부 (Android 스타일) */
+  firstAttributeOnTagLine: boolean;
+  /** 속성을 줄바꿈할 때 '>'를 마지막 속성 뒤에 둘지 여부 (false면 다음 줄에 둠) */
+  bracketSameLine: boolean;
+  /** 스스로 닫는 태그의 '/>' 앞 공백 여부 (<br /> / <br/>) */
+  selfClosingSpace: boolean;
+}
+
+/**
+ * XML 언어 특화 포매팅 컨벤션
+ */
+export interface XmlFormattingConvention extends MarkupFormattingConvention {
+  /** 내용이 없는 요소를 스스로 닫는 태그로 바꿀지 여부 (<a></a> → <a />) */
+  collapseEmptyElements: boolean;
+}
+
+/**
+ * HTML 언어 특화 포매팅 컨벤션
+ */
+export interface HtmlFormattingConvention extends MarkupFormattingConvention {
+  /** 빈 요소(br, img, input 등)를 '/>'로 닫을지 여부 (<br /> / <br>) */
+  closeVoidElements: boolean;
+}
+
+/**
+ * CSS/SCSS/Less 포매팅 컨벤션
+ */
+export interface CssFormattingConvention extends BaseFormattingConvention {
+  /** 쉼표로 나열한 선택자를 한 줄에 하나씩 쓸지 여부 */
+  selectorPerLine: boolean;
+  /** 속성 정렬 방식 (변수, 커스텀 속성, @include 등은 옮기지 않음) */
+  propertySort: PropertySortOrder;
+  /** 16진수 색상 대소문자 (#FFF / #fff) */
+  colorCase: 'lower' | 'upper' | 'preserve';
+  /** 값이 0인 길이의 단위 제거 여부 (0px → 0, calc() 안은 제외) */
+  removeZeroUnits: boolean;
+  /** 문자열 따옴표 스타일 (바꾸면 이스케이프가 필요한 문자열은 그대로 둠) */
+  quoteStyle: QuoteStyle;
+  /** url() 주소 따옴표 (always: 항상 감쌈, never: 가능하면 뺌, preserve: 원문 유지) */
+  urlQuotes: 'always' | 'never' | 'preserve';
+  /** 규칙({ } 블록) 사이 빈 줄 개수 (블록의 첫 규칙 앞에는 넣지 않음) */
+  blankLinesBetweenRules: number;
+}
+
+/**
+ * Python 언어 특화 포매팅 컨벤션
+ */
+export interface PythonFormattingConvention extends BaseFormattingConvention {
+  /** 한 따옴표 문자열 스타일 (preserve: 원문 유지, 세 따옴표는 바꾸면 항상 큰따옴표) */
+  quoteStyle: QuoteStyle | 'preserve';
+  /** 괄호 안 마지막 쉼표가 있으면 한 줄에 들어가도 요소마다 나눌지 여부 (Black magic trailing comma) */
+  magicTrailingComma: boolean;
+  /** 최상위 def/class 앞뒤 빈 줄 개수 */
+  blankLinesTopLevel: number;
+  /** 블록 안 def/class(메서드) 앞뒤 빈 줄 개수 */
+  blankLinesBetweenMethods: number;
+  /** 최상위 import 문을 isort 방식으로 정렬할지 여부 */
+  sortImports: boolean;
+  /** import 문과 from import 문을 섞어 모듈 이름 순으로 정렬할지 여부 */
+  forceSortWithinSections: boolean;
+}
+
 /**
  * JavaScript 언어 특화 포매팅 컨벤션
  */
@@ -119,19 +230,7 @@ export interface JavaScriptFormattingConvention extends BaseFormattingConvention
 /**
  * Kotlin 언어 특화 포매팅 컨벤션
  */
-export interface KotlinFormattingConvention extends BaseFormattingConvention {
-  /** 중괄호 스타일 */
-  braceStyle: BraceStyle;
-  /** import 문 정렬 여부 */
-  organizeImports: boolean;
-  /** 각 import 그룹 사이 빈 줄 추가 */
-  separateImportGroups: boolean;
-  /** 메서드 사이 빈 줄 개수 */
-  blankLinesBetweenMethods: number;
-  /** 클래스 사이 빈 줄 개수 */
-  blankLinesBetweenClasses: number;
-  /** 연산자 주변 공백 추가 */
-  spaceAroundOperators: boolean;
+export interface KotlinFormattingConvention extends CFamilyFormattingConvention {
   /** 함수 괄호 앞 공백 여부 */
   spaceBeforeFunctionParens: boolean;
   /** 타입 어노테이션 콜론 주변 공백 */
@@ -144,10 +243,39 @@ export interface KotlinFormattingConvention extends BaseFormattingConvention {
   chainedCallWrapping: 'off' | 'if_long' | 'always';
 }
 
+/**
+ * Go 언어 특화 포매팅 컨벤션
+ * gofmt는 설정이 거의 없으므로 import 그룹(goimports)과 빈 줄 정도만 고를 수 있습니다.
+ * 중괄호는 세미콜론 자동 삽입 때문에 K&R만 허용됩니다.
+ */
+export interface GoFormattingConvention extends CFamilyFormattingConvention {}
+
+/**
+ * Rust 언어 특화 포매팅 컨벤션 (rustfmt 옵션 대응)
+ */
+export interface RustFormattingConvention extends CFamilyFormattingConvention {
+  /** 타입 콜론 뒤 공백 여부 (rustfmt space_after_colon, 콜론 앞 공백은 항상 제거) */
+  spaceAfterColon: boolean;
+}
+
+/**
+ * C# 언어 특화 포매팅 컨벤션 (.editorconfig의 dotnet_/csharp_ 옵션 대응)
+ */
+export interface CSharpFormattingConvention extends CFamilyFormattingConvention {
+  /** using 정렬 시 System.* 를 맨 앞에 둘지 여부 */
+  systemUsingsFirst: boolean;
+  /** 메서드 이름과 여는 괄호 사이 공백 여부 */
+  spaceBeforeMethodParens: boolean;
+  /** if/for/foreach/while 등 제어문 키워드 뒤 공백 여부 */
+  spaceBeforeControlParens: boolean;
+}
+
 /**
  * SQL 언어 특화 포매팅 컨벤션
  */
 export interface SqlFormattingConvention extends BaseFormattingConvention {
+  /** SQL 방언 */
+  dialect: SqlDialect;
   /** SQL 키워드 대소문자 스타일 */
   keywordCase: 'upper' | 'lower' | 'capitalize';
   /** 테이블/컬럼명 대소문자 스타일 */
@@ -166,17 +294,37 @@ export interface SqlFormattingConvention extends BaseFormattingConvention {
   functionArgWrapThreshold: number;
   /** INSERT 문에서 VALUES 절 줄바꿈 */
   insertValuesOnNewLine: boolean;
+  /** CREATE TABLE 컬럼 정의의 이름/타입/제약 조건 세로 정렬 */
+  alignColumnDefinitions: boolean;
+  /** SELECT *, WHERE 없는 UPDATE/DELETE 같은 위험한 쿼리 패턴을 경고로 보고 */
+  lintQueries: boolean;
+}
+
+/**
+ * 언어 ID별 컨벤션 타입
+ * 플러그인으로 언어를 추가할 때는 모듈 보강으로 항목을 추가합니다.
+ * (예: declare module '.../types/FormattingTypes' { interface LanguageConventionMap { mydsl: MyDslConvention } })
+ */
+export interface LanguageConventionMap {
+  java: JavaFormattingConvention;
+  json: JsonFormattingConvention;
+  yaml: YamlFormattingConvention;
+  xml: XmlFormattingConvention;
+  html: HtmlFormattingConvention;
+  css: CssFormattingConvention;
+  python: PythonFormattingConvention;
+  javascript: JavaScriptFormattingConvention;
+  kotlin: KotlinFormattingConvention;
+  go: GoFormattingConvention;
+  rust: RustFormattingConvention;
+  csharp: CSharpFormattingConvention;
+  sql: SqlFormattingConvention;
 }
 
 /**
  * 전체 포매팅 컨벤션을 담는 유니온 타입
  */
-export type FormattingConvention = 
-  | JavaFormattingConvention 
-  | JsonFormattingConvention 
-  | JavaScriptFormattingConvention 
-  | KotlinFormattingConvention 
-  | SqlFormattingConvention;
+export type FormattingConvention = LanguageConventionMap[SupportedLanguage];
 
 /**
  * 포매팅 결과 인터페이스
@@ -186,12 +334,124 @@ export interface FormattingResult {
   formattedCode: string;
   /** 변경된 줄 수 */
   changedLines: number;
-  /** 포매팅 과정에서 발견된 경고 메시지 */
+  /** 포매팅 과정에서 발견된 경고 메시지 (diagnostics 중 warning의 메시지) */
   warnings: string[];
-  /** 포매팅 과정에서 발생한 오류 메시지 */
+  /** 포매팅 과정에서 발생한 오류 메시지 (diagnostics 중 error의 메시지) */
   errors: string[];
+  /** 위치 정보가 포함된 진단 목록 (위치는 formattedCode 기준) */
+  diagnostics: Diagnostic[];
   /** 포매팅 소요 시간 (밀리초) */
   processingTime: number;
+  /** 결과 검증 실패 정보 (실패 시 원본 코드가 반환됨) */
+  verificationError?: FormattingVerificationError;
+  /** SQL 문별 결과 (SQL 포매팅에서만 채움) */
+  statements?: SqlStatementResult[];
+}
+
+/**
+ * SQL 문 하나의 포매팅 상태
+ * - formatted: 포매팅해서 바뀜
+ * - unchanged: 포매팅했지만 원본과 같음
+ * - skipped: 포매팅할 수 없어 원본 그대로 둠 (다른 문은 계속 포매팅)
+ */
+export type SqlStatementStatus = 'formatted' | 'unchanged' | 'skipped';
+
+/**
+ * SQL 문별 포매팅 결과
+ */
+export interface SqlStatementResult {
+  /** 문 첫 줄 요약 (앞 주석 제외) */
+  summary: string;
+  /** 포매팅 상태 */
+  status: SqlStatementStatus;
+  /** 원본 코드에서 문이 시작하는 줄 (1부터 시작) */
+  sourceStartLine: number;
+  /** 원본 코드에서 문이 끝나는 줄 */
+  sourceEndLine: number;
+  /** 결과 코드에서 문이 시작하는 줄 */
+  startLine: number;
+  /** 결과 코드에서 문이 끝나는 줄 */
+  endLine: number;
+  /** 이 문의 진단 (위치는 결과 코드 기준) */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * 범위 포매팅 결과 (범위 밖의 줄은 원본 그대로)
+ */
+export interface RangeFormattingResult extends FormattingResult {
+  /** 결과 코드에서 포매팅한 범위의 시작 줄 (1부터 시작) */
+  startLine: number;
+  /** 결과 코드에서 포매팅한 범위의 끝 줄 */
+  endLine: number;
+}
+
+/**
+ * 진단 심각도
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * 코드 내 위치 범위 (줄/열은 1부터 시작, 끝 위치는 미포함)
+ */
+export interface SourceRange {
+  /** 시작 줄 번호 */
+  startLine: number;
+  /** 시작 열 번호 */
+  startColumn: number;
+  /** 끝 줄 번호 */
+  endLine: number;
+  /** 끝 열 번호 */
+  endColumn: number;
+}
+
+/**
+ * 진단에 대한 수정 제안
+ */
+export interface DiagnosticFix {
+  /** 수정 내용 설명 */
+  description: string;
+  /** 진단 범위를 대체할 텍스트 */
+  replacement: string;
+}
+
+/**
+ * 포매팅 진단 정보
+ */
+export interface Diagnostic extends SourceRange {
+  /** 심각도 */
+  severity: DiagnosticSeverity;
+  /** 규칙 ID (예: "syntax-error", "max-line-length") */
+  ruleId: string;
+  /** 진단 메시지 */
+  message: string;
+  /** 수정 제안 */
+  fix?: DiagnosticFix;
+}
+
+/**
+ * 포매팅 결과 검증 종류
+ * - idempotency: 결과를 다시 포매팅해도 같은 코드가 나오는지
+ * - semantic: 공백을 제외한 토큰 흐름이 원본과 같은지
+ */
+export type FormattingVerificationCheck = 'idempotency' | 'semantic';
+
+/**
+ * 포매팅 결과 검증 실패 정보
+ */
+export interface FormattingVerificationError {
+  /** 실패한 검증 종류 */
+  check: FormattingVerificationCheck;
+  /** 오류 메시지 */
+  message: string;
+  /** 원본 코드에서 차이가 시작되는 줄 번호 (1부터 시작, 특정할 수 없으면 1) */
+  line: number;
+  /** 원본 코드에서 차이가 시작되는 열 번호 (1부터 시작) */
+  column: number;
+  /** 기대한 내용 (원본 토큰 또는 첫 포매팅 결과의 줄) */
+  expected: string;
+  /** 실제 내용 (포매팅된 토큰 또는 재포매팅 결과의 줄) */
+  actual: string;
 }
 
 /**
@@ -203,6 +463,8 @@ export type IdeExportFormat =
   | 'eclipse' 
   | 'prettier' 
   | 'eslint' 
+  | 'stylelint'
+  | 'pyproject'
   | 'editorconfig';
 
 /**
@@ -219,6 +481,70 @@ export interface IdeExportResult {
   instructions: string;
 }
 
+/**
+ * 가져올 수 있는 설정 파일 형식
+ */
+export type IdeImportFormat =
+  | 'editorconfig'
+  | 'prettier'
+  | 'eslint'
+  | 'intellij'
+  | 'eclipse';
+
+/**
+ * 설정 파일 가져오기 옵션
+ */
+export interface IdeImportOptions {
+  /** 설정 파일 이름 (형식 판별에 사용, 예: ".editorconfig", ".eslintrc.json") */
+  filename: string;
+  /** 컨벤션을 적용할 언어 (생략하면 설정 파일에서 추론) */
+  language?: SupportedLanguage;
+  /** 설정 파일에 없는 필드를 채울 기준 컨벤션 (생략하면 언어의 첫 프리셋) */
+  baseConvention?: FormattingConvention;
+  /** .editorconfig 섹션과 overrides를 비교할 대상 파일 경로 (생략하면 언어의 대표 확장자) */
+  targetPath?: string;
+}
+
+/**
+ * 설정 파일 가져오기 결과
+ */
+export interface IdeImportResult {
+  /** 인식한 설정 파일 형식 */
+  format: IdeImportFormat;
+  /** 컨벤션을 적용할 언어 */
+  language: SupportedLanguage;
+  /** 기준 컨벤션에 설정 파일 값을 덮어쓴 컨벤션 */
+  convention: FormattingConvention;
+  /** 설정 파일에서 가져온 컨벤션 필드 */
+  appliedFields: string[];
+  /** 매핑되지 않았거나 적용할 수 없는 설정에 대한 경고 */
+  warnings: string[];
+}
+
+/**
+ * 언어별 감지 점수
+ */
+export interface LanguageScore {
+  /** 언어 */
+  language: SupportedLanguage;
+  /** 일치한 키워드/구문 단서의 가중치 합 */
+  score: number;
+  /** 신뢰도 (0~1) */
+  confidence: number;
+}
+
+/**
+ * 언어 감지 결과
+ */
+export interface LanguageDetectionResult {
+  /** 가장 가능성이 높은 언어 (단서가 하나도 없으면 null) */
+  language: SupportedLanguage | null;
+  /** 감지한 언어의 신뢰도 (0~1) */
+  confidence: number;
+  /** 점수 순으로 정렬된 언어별 점수 */
+  scores: LanguageScore[];
+}
+
 /**
  * 프리셋 컨벤션 타입
  */
@@ -0,0 +1,112 @@
+/**
+ * 언어 플러그인 관련 TypeScript 타입 정의
+ * 언어 하나를 지원하는 데 필요한 정보(포매터, 컨벤션 스키마, 프리셋, 확장자 등)를 한곳에 모읍니다.
+ */
+
+import {
+  SupportedLanguage,
+  LanguageConventionMap,
+  FormattingResult,
+  PresetConvention,
+  IdeExportFormat
+} from './FormattingTypes';
+import { ConventionFieldSchema } from './ConventionSchemaTypes';
+import { BaseTokenizer } from '../tokenizers/BaseTokenizer';
+
+/**
+ * 언어 포매터
+ */
+export interface LanguageFormatter {
+  /**
+   * 코드를 포매팅합니다.
+   * @param code 포매팅할 코드
+   * @returns 포매팅 결과
+   */
+  format(code: string): FormattingResult;
+}
+
+/**
+ * 포매팅 결과의 의미 보존 검사 방식
+ * - tokens: 토크나이저의 토큰 흐름 비교
+ * - tokens-case-insensitive: 키워드와 따옴표 없는 식별자의 대소문자를 무시하고 비교 (SQL)
+ * - go: 세미콜론 자동 삽입 규칙을 적용한 토큰 흐름 비교 (줄 끝 세미콜론 유무 무시)
+ * - json: 파싱한 값 비교
+ * - yaml: 구조 트리의 값 비교 (키 순서, 따옴표 종류, 주석 무시)
+ * - javascript: TypeScript 구문 트리의 토큰 흐름 비교
+ * - python: 들여쓰기 블록(INDENT/DEDENT)을 포함한 토큰 흐름 비교
+ * - markup: XML/HTML 요소 트리 비교 (공백만 있는 텍스트 무시)
+ * - css: 규칙/선언 트리 비교 (속성 정렬, 따옴표, 색상 대소문자, 0 단위 무시)
+ * - none: 검사하지 않음 (멱등성만 검사)
+ */
+export type SemanticCheckMode = 'tokens' | 'tokens-case-insensitive' | 'go' | 'json' | 'yaml' | 'javascript' | 'python' | 'markup' | 'css' | 'none';
+
+/**
+ * 언어 판별 단서
+ */
+export interface LanguageCue {
+  /** 단서 패턴 (g 플래그 필수) */
+  pattern: RegExp;
+  /** 일치 1회당 가중치 */
+  weight: number;
+}
+
+/**
+ * 언어 감지 규칙
+ */
+export interface LanguageDetectionRules {
+  /** 키워드/구문 단서 (문자열/주석을 가린 코드에 적용) */
+  cues: LanguageCue[];
+  /** 단서를 문자열/주석을 가리지 않은 원본 코드에 적용할지 여부 (JSON처럼 문자열이 구조인 언어) */
+  matchRawCode?: boolean;
+  /** 단서와 별도로 코드 전체를 보고 더하는 점수 (예: 유효한 JSON 문서) */
+  scoreDocument?: (code: string) => number;
+}
+
+/**
+ * 언어 플러그인
+ * LanguageRegistry에 등록하면 언어 선택, 컨벤션 선택, IDE 내보내기, CLI에 언어가 나타납니다.
+ */
+export interface LanguagePlugin<L extends SupportedLanguage = SupportedLanguage> {
+  /** 언어 ID */
+  id: L;
+  /** 화면 표시명 */
+  displayName: string;
+  /** 파일 확장자 (점 제외, 첫 번째가 대표 확장자) */
+  extensions: string[];
+  /** 컨벤션 필드 스키마 (편집기 표시 순서, 검증, 설정 가져오기에 사용) */
+  conventionSchema: Record<string, ConventionFieldSchema>;
+  /** 기본 프리셋 (공식 프리셋이 있으면 그중 첫 번째, 없으면 첫 프리셋이 언어의 기본값) */
+  presets: PresetConvention[];
+  /** 예시 코드 */
+  exampleCode: string;
+  /** 내보낼 수 있는 IDE/도구 설정 파일 형식 */
+  exportFormats: IdeExportFormat[];
+  /** 언어 선택 화면의 아이콘 (이모지) */
+  icon?: string;
+  /** 언어 태그 색상 (antd Tag color) */
+  color?: string;
+  /** 포매팅 결과의 의미 보존 검사 방식 (생략하면 none) */
+  semanticCheck?: SemanticCheckMode;
+  /** 들여쓰기가 블록 구조인 언어인지 여부 (범위 포매팅에서 범위 첫 줄의 들여쓰기를 그대로 유지) */
+  indentationSensitive?: boolean;
+  /** 언어 감지 규칙 (생략하면 자동 감지 대상에서 제외) */
+  detection?: LanguageDetectionRules;
+
+  /**
+   * 포매터와 의미 보존 검사가 쓰는 큰 모듈(파서 등)을 불러옵니다. (생략하면 불러올 것이 없음)
+   * 웹 번들을 나누기 위한 것으로, createFormatter와 검증은 이 Promise가 끝난 뒤에 호출해야 합니다.
+   */
+  load?(): Promise<void>;
+
+  /**
+   * 컨벤션으로 포매터를 만듭니다.
+   * @param convention 포매팅 컨벤션
+   */
+  createFormatter(convention: LanguageConventionMap[L]): LanguageFormatter;
+
+  /**
+   * 토큰 흐름 비교와 스타일 감지에 쓰는 토크나이저를 만듭니다. (생략하면 JavaScript 토크나이저)
+   * @param convention 포매팅 컨벤션 (SQL 방언처럼 읽는 규칙이 컨벤션에 따라 달라지는 언어용, 스타일 감지에서는 없음)
+   */
+  createTokenizer?(convention?: LanguageConventionMap[L]): BaseTokenizer;
+}
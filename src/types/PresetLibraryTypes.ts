@@ -0,0 +1,40 @@
+/**
+ * 사용자 프리셋 라이브러리 파일 관련 TypeScript 타입 정의
+ * 여러 기기에서 같은 컨벤션을 쓰도록 사용자 프리셋을 JSON 파일로 주고받습니다.
+ */
+
+import { PresetConvention } from './FormattingTypes';
+
+/**
+ * 프리셋 라이브러리 파일
+ */
+export interface PresetLibraryFile {
+  /** 파일 형식 식별자 */
+  format: string;
+  /** 파일 형식 버전 */
+  version: number;
+  /** 내보낸 시각 (ISO 8601) */
+  exportedAt: string;
+  /** 프리셋 목록 */
+  presets: PresetConvention[];
+}
+
+/**
+ * 검증 오류 (필드 단위)
+ */
+export interface PresetValidationError {
+  /** 오류가 난 필드 경로 (예: "presets[0].convention.indentSize") */
+  path: string;
+  /** 오류 메시지 */
+  message: string;
+}
+
+/**
+ * 프리셋 라이브러리 가져오기 결과
+ */
+export interface PresetImportResult {
+  /** 가져온 프리셋 */
+  imported: PresetConvention[];
+  /** 검증 오류 (오류가 있는 프리셋은 가져오지 않음) */
+  errors: PresetValidationError[];
+}
@@ -0,0 +1,62 @@
+/**
+ * 프로젝트 설정 파일(.webalignrc) 관련 TypeScript 타입 정의
+ * 파일 글롭별 언어, 프리셋, 컨벤션 필드 덮어쓰기를 저장소에 두고 공유합니다.
+ */
+
+import { SupportedLanguage, FormattingConvention } from './FormattingTypes';
+
+/**
+ * 글롭별 설정 (뒤에 오는 항목과 하위 디렉토리 설정이 앞선 값을 덮어씀)
+ */
+export interface ProjectConfigOverride {
+  /** 적용할 파일 글롭 (설정 파일 디렉토리 기준, '/'가 없으면 모든 깊이의 파일 이름과 비교) */
+  files: string | string[];
+  /** 제외할 파일 글롭 */
+  excludeFiles?: string | string[];
+  /** 파일 언어 (생략하면 확장자로 추론) */
+  language?: SupportedLanguage;
+  /** 기준 프리셋 ID (생략하면 언어의 기본 프리셋) */
+  preset?: string;
+  /** 프리셋 위에 덮어쓸 컨벤션 필드 */
+  convention?: Record<string, unknown>;
+}
+
+/**
+ * .webalignrc 파일 내용
+ */
+export interface ProjectConfig {
+  /** true면 상위 디렉토리의 설정/무시 파일을 더 찾지 않음 */
+  root?: boolean;
+  /** 글롭별 설정 목록 */
+  overrides?: ProjectConfigOverride[];
+}
+
+/**
+ * 설정 파일 읽기 함수 모음 (Node, 브라우저 등 실행 환경별로 구현)
+ */
+export interface ConfigFileReader {
+  /**
+   * 파일 내용을 읽습니다.
+   * @param path '/' 구분 절대 경로
+   * @returns 파일 내용 (파일이 없으면 null)
+   */
+  readFile(path: string): string | null;
+}
+
+/**
+ * 파일 경로에 적용되는 컨벤션
+ */
+export interface ProjectConventionResult {
+  /** 대상 파일 경로 */
+  filePath: string;
+  /** 무시 파일에 의해 제외되었는지 여부 */
+  ignored: boolean;
+  /** 파일 언어 (알 수 없거나 무시된 파일이면 null) */
+  language: SupportedLanguage | null;
+  /** 기준 프리셋 ID (언어를 알 수 없거나 무시된 파일이면 null) */
+  presetId: string | null;
+  /** 프리셋에 덮어쓰기를 적용한 컨벤션 (언어를 알 수 없거나 무시된 파일이면 null) */
+  convention: FormattingConvention | null;
+  /** 적용된 설정 파일 경로 (상위 디렉토리부터) */
+  configFiles: string[];
+}
@@ -0,0 +1,49 @@
+/**
+ * Python import 정렬 관련 TypeScript 타입 정의
+ * 포매터가 최상위 import 문을 해석해 isort 방식으로 다시 쓸 때 쓰는 구조를 정의합니다.
+ */
+
+/**
+ * import 구역 (isort 순서)
+ * - future: from __future__ import ...
+ * - stdlib: 표준 라이브러리
+ * - thirdparty: 그 밖의 절대 경로 모듈
+ * - local: 상대 경로 모듈 (from . import ...)
+ */
+export type PythonImportSection = 'future' | 'stdlib' | 'thirdparty' | 'local';
+
+/**
+ * from import로 가져온 이름
+ */
+export interface PythonImportName {
+  /** 이름 ('*' 포함) */
+  name: string;
+  /** 별칭 (as 뒤 이름) */
+  alias?: string;
+}
+
+/**
+ * import 문 하나 (import a.b as c / from m import x, y as z)
+ */
+export interface PythonImport {
+  /** from import 여부 */
+  isFrom: boolean;
+  /** 모듈 이름 (상대 경로면 '.'으로 시작) */
+  module: string;
+  /** import 문의 별칭 (import a as b) */
+  alias?: string;
+  /** from import로 가져온 이름 (import 문이면 빈 배열) */
+  names: PythonImportName[];
+  /** 줄 끝 주석 (있으면 다른 문과 합치지 않음) */
+  comment?: string;
+}
+
+/**
+ * import 정렬 옵션
+ */
+export interface PythonImportSortOptions {
+  /** import 문과 from import 문을 섞어 모듈 이름 순으로 정렬할지 여부 */
+  forceSortWithinSections: boolean;
+  /** 한 줄 최대 길이 (넘는 from import는 괄호로 감싸 포매터가 나누도록 함) */
+  maxLineLength: number;
+}
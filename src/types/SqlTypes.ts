@@ -0,0 +1,136 @@
+/**
+ * SQL 방언 관련 TypeScript 타입 정의
+ * 토크나이저와 포매터가 방언마다 다르게 읽고 배치해야 하는 규칙과 구문 트리를 정의합니다.
+ */
+
+import { Token } from './TokenTypes';
+import { DiagnosticFix } from './FormattingTypes';
+
+/**
+ * 문자열 안의 따옴표 이스케이프 방식
+ * - double: 따옴표를 두 번 씀 ('it''s')
+ * - backslash: 백슬래시 ('it\'s')
+ * - none: 이스케이프 없음 (BigQuery raw 문자열)
+ */
+export type SqlStringEscape = 'double' | 'backslash' | 'none';
+
+/**
+ * 식별자를 감싸는 따옴표 ("name", `name`, [name])
+ */
+export type SqlIdentifierQuote = '"' | '`' | '[';
+
+/**
+ * 방언별 규칙
+ */
+export interface SqlDialectRules {
+  /** 화면 표시명 */
+  displayName: string;
+  /** 공통 키워드(SQL_KEYWORDS)에 더할 키워드 (여러 단어로 된 키워드 포함) */
+  keywords: string[];
+  /** 식별자 따옴표 (목록에 없는 큰따옴표는 문자열로 읽음) */
+  identifierQuotes: SqlIdentifierQuote[];
+  /** 접두사 없는 문자열의 이스케이프 방식 */
+  stringEscape: SqlStringEscape;
+  /** 문자열 접두사와 그 문자열의 이스케이프 방식 (대문자로 적고 대소문자 무시, N'...', E'...', r"...") */
+  stringPrefixes: Record<string, SqlStringEscape>;
+  /** 세 따옴표 문자열 ('''...''', """...""") 허용 여부 (BigQuery) */
+  tripleQuotedStrings: boolean;
+  /** 달러 인용 문자열 ($$...$$, $tag$...$tag$) 허용 여부 (PostgreSQL) */
+  dollarQuoting: boolean;
+  /** 대체 인용 문자열 (q'[...]') 허용 여부 (Oracle) */
+  alternativeQuoting: boolean;
+  /** # 한 줄 주석 허용 여부 */
+  hashComments: boolean;
+  /** 중첩 블록 주석 허용 여부 */
+  nestedBlockComments: boolean;
+  /** 한 줄에 홀로 쓰는 배치 구분자 (T-SQL GO, SQL*Plus /) */
+  batchSeparator?: string;
+  /** 문 구분자를 바꾸는 DELIMITER 명령 허용 여부 (MySQL 클라이언트) */
+  delimiterCommand: boolean;
+  /** SELECT 바로 뒤에 붙여 쓰는 수식어 패턴 (DISTINCT/ALL 외, 컬럼 목록 앞에 적용) */
+  selectModifier?: RegExp;
+  /** 새 줄에서 시작하는 방언 절 키워드 (SELECT, FROM, WHERE 같은 공통 절 외) */
+  clauseKeywords: string[];
+  /** DECLARE와 프로시저/함수 머리의 IS/AS 뒤에 BEGIN 전까지 선언부 블록을 두는지 여부 (PL/SQL) */
+  declareSections: boolean;
+}
+
+/**
+ * 구문 노드 공통 속성
+ * 주석은 노드로 두지 않고 앞뒤 노드에 붙입니다.
+ */
+interface SqlNodeBase {
+  /** 노드 앞 줄에 홀로 쓴 주석 */
+  leadingComments: SqlTokenNode[];
+  /** 노드 뒤에 붙은 주석 (같은 줄의 주석, 괄호/문 끝에 남은 주석) */
+  trailingComments: SqlTokenNode[];
+}
+
+/**
+ * 토큰 노드 (공백/개행은 노드로 만들지 않고 앞 공백 여부만 기록)
+ */
+export interface SqlTokenNode extends SqlNodeBase {
+  kind: 'token';
+  token: Token;
+  /** 원문에서 앞에 공백이나 개행이 있었는지 여부 */
+  spaceBefore: boolean;
+  /** 원문에서 줄의 첫 토큰이었는지 여부 */
+  ownLine: boolean;
+}
+
+/**
+ * 괄호 그룹 노드 (서브쿼리, 함수 인자, 값 목록, 조건 묶음)
+ */
+export interface SqlGroupNode extends SqlNodeBase {
+  kind: 'group';
+  open: SqlTokenNode;
+  children: SqlNode[];
+  close: SqlTokenNode;
+}
+
+export type SqlNode = SqlTokenNode | SqlGroupNode;
+
+/**
+ * 세미콜론이나 배치 구분자로 나눈 문 하나
+ */
+export interface SqlStatement {
+  /** 문 앞 줄에 홀로 쓴 주석 (노드가 없으면 주석만 있는 문) */
+  leadingComments: SqlTokenNode[];
+  nodes: SqlNode[];
+  /** 문을 끝낸 세미콜론이나 사용자 지정 구분자 (없으면 null) */
+  terminator: SqlTokenNode | null;
+  /** 원문에서 앞에 빈 줄이 있었는지 여부 */
+  blankLineBefore: boolean;
+}
+
+/**
+ * 문 분리기가 나눈 원문 조각
+ * 문 하나(앞 주석과 같은 줄의 뒤 주석 포함), 또는 DELIMITER/배치 구분자 명령 한 줄입니다.
+ */
+export interface SqlSourceStatement {
+  /** 조각의 토큰 (앞 공백/개행 포함, 사용자 지정 구분자는 토큰 하나로 합침) */
+  tokens: Token[];
+  /** 원문에서 첫 토큰(공백 제외) 시작 오프셋 */
+  start: number;
+  /** 원문에서 마지막 토큰 끝 오프셋 (미포함) */
+  end: number;
+  /** 조각을 끝낸 사용자 지정 구분자 (세미콜론이면 null) */
+  delimiter: string | null;
+  /** 명령 줄 종류 (DELIMITER //는 'delimiter', GO와 /는 'batch', 문이면 null) */
+  command: 'delimiter' | 'batch' | null;
+}
+
+/**
+ * SQL 린터가 찾은 문제 하나
+ */
+export interface SqlLintIssue {
+  /** 규칙 ID (select-star, missing-where, ...) */
+  ruleId: string;
+  message: string;
+  /** 원문에서 문제 범위 시작 오프셋 */
+  start: number;
+  /** 원문에서 문제 범위 끝 오프셋 (미포함) */
+  end: number;
+  /** 범위를 바꿔 고치는 수정 제안 */
+  fix?: DiagnosticFix;
+}
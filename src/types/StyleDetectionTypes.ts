@@ -0,0 +1,62 @@
+/**
+ * 코드 스타일 감지 관련 TypeScript 타입 정의
+ * 붙여넣은 코드에서 추론한 컨벤션 필드와 프리셋 일치도를 표현합니다.
+ */
+
+import { SupportedLanguage, FormattingConvention, PresetConvention } from './FormattingTypes';
+
+/**
+ * 코드에서 추론한 컨벤션 필드
+ */
+export interface DetectedStyleField {
+  /** 컨벤션 필드 키 (예: "indentSize", "quoteStyle") */
+  key: string;
+  /** 추론한 값 */
+  value: string | number | boolean;
+  /** 신뢰도 (0~1, 가장 많은 표본의 비율에 표본 수 보정을 곱한 값) */
+  confidence: number;
+  /** 판단에 사용한 표본 수 */
+  samples: number;
+}
+
+/**
+ * 프리셋 필드별 비교 결과
+ */
+export interface PresetFieldMatch {
+  /** 컨벤션 필드 키 */
+  key: string;
+  /** 코드에서 추론한 값 */
+  detected: string | number | boolean;
+  /** 프리셋의 값 */
+  expected: string | number | boolean;
+  /** 추론한 값의 신뢰도 (0~1) */
+  confidence: number;
+  /** 값 일치 여부 */
+  matches: boolean;
+}
+
+/**
+ * 프리셋 일치도
+ */
+export interface PresetMatch {
+  /** 비교한 프리셋 */
+  preset: PresetConvention;
+  /** 일치도 (0~1, 신뢰도로 가중한 필드 일치 비율) */
+  score: number;
+  /** 필드별 비교 결과 */
+  fields: PresetFieldMatch[];
+}
+
+/**
+ * 스타일 감지 결과
+ */
+export interface StyleDetectionResult {
+  /** 분석한 언어 */
+  language: SupportedLanguage;
+  /** 추론한 컨벤션 필드 (표본이 없는 필드는 제외) */
+  fields: DetectedStyleField[];
+  /** 일치도 순으로 정렬된 프리셋 목록 */
+  matches: PresetMatch[];
+  /** 가장 가까운 프리셋에 추론한 값을 덮어쓴 컨벤션 */
+  convention: FormattingConvention;
+}
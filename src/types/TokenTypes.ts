@@ -0,0 +1,51 @@
+/**
+ * 토크나이저 관련 TypeScript 타입 정의
+ * 언어별 토크나이저가 생성하는 토큰의 구조를 정의합니다.
+ */
+
+/**
+ * 토큰 종류
+ * - string: 문자열/문자/템플릿 리터럴
+ * - comment: 한 줄/블록 주석
+ * - regex: 정규식 리터럴 (JavaScript)
+ * - whitespace: 개행을 제외한 공백
+ * - newline: 개행 문자
+ */
+export type TokenType =
+  | 'string'
+  | 'comment'
+  | 'regex'
+  | 'identifier'
+  | 'keyword'
+  | 'number'
+  | 'punctuation'
+  | 'whitespace'
+  | 'newline';
+
+/**
+ * 토큰 인터페이스
+ */
+export interface Token {
+  /** 토큰 종류 */
+  type: TokenType;
+  /** 원본 텍스트 */
+  value: string;
+  /** 원본 코드 내 시작 오프셋 */
+  start: number;
+  /** 원본 코드 내 끝 오프셋 (미포함) */
+  end: number;
+  /** 시작 줄 번호 (1부터 시작) */
+  line: number;
+  /** 시작 열 번호 (1부터 시작) */
+  column: number;
+}
+
+/**
+ * 리터럴/주석을 자리표시자로 가린 코드
+ */
+export interface MaskedCode {
+  /** 자리표시자가 삽입된 코드 */
+  code: string;
+  /** 자리표시자 인덱스별 원본 내용 */
+  literals: string[];
+}
@@ -0,0 +1,61 @@
+/**
+ * XML/HTML 구조 관련 TypeScript 타입 정의
+ * 포매터가 속성 값, 텍스트, 주석, CDATA 원문을 그대로 보존할 수 있도록
+ * 태그 구조와 원본 위치만 해석한 노드를 정의합니다.
+ */
+
+/**
+ * 태그 속성
+ */
+export interface XmlAttribute {
+  /** 속성 이름 (예: 'android:layout_width') */
+  name: string;
+  /** 따옴표를 포함한 값 원문 (값 없는 HTML 속성이면 null) */
+  value: string | null;
+}
+
+/**
+ * 요소
+ */
+export interface XmlElement {
+  kind: 'element';
+  /** 태그 이름 (원문 대소문자 유지) */
+  name: string;
+  attributes: XmlAttribute[];
+  /** '/>'로 닫은 태그이거나 HTML 빈 요소(br, img 등)인지 여부 */
+  selfClosing: boolean;
+  /** 닫는 태그가 원문에 있는지 여부 (HTML에서 생략 가능한 닫는 태그를 생략했으면 false) */
+  hasEndTag: boolean;
+  children: XmlNode[];
+  /** 원문 그대로 출력할 요소인지 여부 (<pre>, <script>, xml:space="preserve" 등) */
+  preserve: boolean;
+  /** 여는 태그부터 닫는 태그까지의 원문 */
+  source: string;
+  /** 여는 태그와 닫는 태그 사이의 원문 */
+  content: string;
+}
+
+/**
+ * 텍스트 (엔티티와 공백을 포함한 원문)
+ */
+export interface XmlText {
+  kind: 'text';
+  text: string;
+}
+
+/**
+ * 원문 그대로 출력하는 노드
+ * - comment: <!-- ... -->
+ * - cdata: <![CDATA[ ... ]]>
+ * - instruction: <?xml ...?> 같은 처리 명령
+ * - doctype: <!DOCTYPE ...>
+ */
+export interface XmlRawNode {
+  kind: 'comment' | 'cdata' | 'instruction' | 'doctype';
+  text: string;
+}
+
+/**
+ * XML/HTML 노드
+ */
+export type XmlNode = XmlElement | XmlText | XmlRawNode;
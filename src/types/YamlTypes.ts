@@ -0,0 +1,104 @@
+/**
+ * YAML 구조 관련 TypeScript 타입 정의
+ * 포매터가 주석, 앵커/별칭, 태그, 스칼라 원문을 그대로 보존할 수 있도록
+ * 값으로 해석하지 않은 블록 구조를 정의합니다.
+ */
+
+/**
+ * 노드 앞뒤의 주석/빈 줄 (주석은 '#'부터의 원문, 빈 줄은 '')
+ */
+export type YamlTrivia = string[];
+
+/**
+ * 키나 시퀀스 항목 뒤에 오는 값
+ */
+export interface YamlValue {
+  /** 앵커/태그 원문 (예: '&base', '!!map', 없으면 '') */
+  props: string;
+  /** 키/대시와 같은 줄에 있는 주석 (없으면 '') */
+  comment: string;
+  /** 값 노드 (빈 값이면 null) */
+  node: YamlNode | null;
+}
+
+/**
+ * 블록 매핑의 항목
+ */
+export interface YamlEntry {
+  /** 항목 앞의 주석/빈 줄 */
+  leading: YamlTrivia;
+  /** 키 원문 (앵커/태그/따옴표 포함) */
+  key: string;
+  /** 값 */
+  value: YamlValue;
+}
+
+/**
+ * 블록 시퀀스의 항목
+ */
+export interface YamlItem {
+  /** 항목 앞의 주석/빈 줄 */
+  leading: YamlTrivia;
+  /** 값 */
+  value: YamlValue;
+}
+
+/**
+ * 블록 매핑 (key: value)
+ */
+export interface YamlMapping {
+  kind: 'mapping';
+  entries: YamlEntry[];
+  /** 마지막 항목 뒤, 같은 들여쓰기 이상에 있는 주석 */
+  trailing: YamlTrivia;
+}
+
+/**
+ * 블록 시퀀스 (- item)
+ */
+export interface YamlSequence {
+  kind: 'sequence';
+  items: YamlItem[];
+  /** 마지막 항목 뒤, 같은 들여쓰기 이상에 있는 주석 */
+  trailing: YamlTrivia;
+}
+
+/**
+ * 플로우 스칼라 또는 플로우 컬렉션 (plain, 따옴표, [..], {..})
+ * 여러 줄에 걸친 값은 줄마다 앞쪽 공백을 제거해 보관합니다.
+ */
+export interface YamlScalar {
+  kind: 'scalar';
+  lines: string[];
+}
+
+/**
+ * 블록 스칼라 (| 또는 >)
+ */
+export interface YamlBlockScalar {
+  kind: 'block';
+  /** 헤더 원문 (예: '|', '>-', '|2+') */
+  header: string;
+  /** 내용 들여쓰기를 뺀 줄 (빈 줄은 '') */
+  lines: string[];
+  /** 들여쓰기 지시자가 있을 때 원본의 부모 들여쓰기로부터 내용까지의 거리 (없으면 null) */
+  explicitOffset: number | null;
+}
+
+/**
+ * YAML 블록 구조 노드
+ */
+export type YamlNode = YamlMapping | YamlSequence | YamlScalar | YamlBlockScalar;
+
+/**
+ * 스트림을 이루는 부분
+ * - directive: '%YAML 1.2' 같은 지시문
+ * - marker: 문서 시작/끝 표시 ('---', '...')
+ * - document: 문서 본문
+ * - verbatim: 구조를 해석하지 않고 그대로 두는 본문
+ */
+export type YamlStreamPart =
+  | { kind: 'directive'; text: string }
+  | { kind: 'marker'; text: string }
+  | { kind: 'document'; leading: YamlTrivia; root: YamlNode | null; trailing: YamlTrivia }
+  | { kind: 'verbatim'; lines: string[] };
@@ -0,0 +1,244 @@
+/**
+ * CSS/SCSS/Less 구조 파서
+ * 포매팅을 위해 스타일시트를 규칙, at-rule, 선언, 주석 노드로 나눕니다.
+ * 선택자와 값은 해석하지 않고 원문 그대로 담으며, 문자열/주석/괄호/보간(#{...}, @{...}) 안의
+ * ';', '{', '}'는 구조로 보지 않습니다.
+ */
+
+import { CssNode } from '../types/CssTypes';
+import { SourceParseError } from './SourceParseError';
+
+/**
+ * 파싱하는 동안의 상태
+ */
+interface ParseContext {
+  code: string;
+  index: number;
+}
+
+/**
+ * 문 하나를 읽은 결과
+ */
+interface Statement {
+  /** 앞뒤 공백을 뺀 문 원문 */
+  text: string;
+  /** 문 시작 위치 */
+  start: number;
+  /** 문을 끝낸 문자 (입력 끝이면 null) */
+  terminator: ';' | '{' | '}' | null;
+}
+
+export class CssStructureParser {
+  /** 선언의 속성 이름 (커스텀 속성, SCSS/Less 변수, 보간 포함) */
+  private static readonly DECLARATION = /^((?:--|\$|@)?[\w-]+|(?:[\w-]*#\{[^}]*\})+[\w-]*)\s*:/;
+
+  /** 커스텀 속성 선언의 시작 */
+  private static readonly CUSTOM_PROPERTY = /--[\w-]*\s*:/y;
+
+  /**
+   * 스타일시트를 노드로 나눕니다.
+   * @param code 줄바꿈이 \n인 스타일시트
+   * @returns 최상위 노드 목록
+   * @throws 중괄호, 문자열, 주석이 닫히지 않았으면 'CSS N번째 줄: ...' SourceParseError
+   */
+  public static parse(code: string): CssNode[] {
+    return this.parseBlock({ code, index: 0 }, null);
+  }
+
+  /**
+   * '//'가 줄 주석의 시작인지 확인합니다. (url(http://...) 같은 값 안의 '//'는 제외)
+   */
+  public static isLineComment(code: string, index: number): boolean {
+    return code.startsWith('//', index) && (index === 0 || /[\s,;{}]/.test(code[index - 1]));
+  }
+
+  /**
+   * 블록 내용을 읽습니다.
+   * @param openBrace 블록을 연 '{' 위치 (최상위면 null)
+   */
+  private static parseBlock(ctx: ParseContext, openBrace: number | null): CssNode[] {
+    const nodes: CssNode[] = [];
+
+    while (true) {
+      const gapStart = ctx.index;
+      while (ctx.index < ctx.code.length && /\s/.test(ctx.code[ctx.index])) {
+        ctx.index++;
+      }
+      const gap = ctx.code.slice(gapStart, ctx.index);
+      const blankBefore = /\n[^\S\n]*\n/.test(gap);
+
+      if (ctx.index >= ctx.code.length) {
+        if (openBrace !== null) {
+          this.fail(ctx, openBrace, "블록을 닫는 '}'가 없습니다.");
+        }
+        return nodes;
+      }
+
+      const char = ctx.code[ctx.index];
+      if (char === '}') {
+        if (openBrace === null) {
+          this.fail(ctx, ctx.index, "여는 '{' 없이 '}'가 있습니다.");
+        }
+        ctx.index++;
+        return nodes;
+      }
+      if (char === ';') {
+        ctx.index++;
+        continue;
+      }
+
+      if (ctx.code.startsWith('/*', ctx.index) || this.isLineComment(ctx.code, ctx.index)) {
+        const start = ctx.index;
+        const text = this.readComment(ctx);
+        const previous = nodes[nodes.length - 1];
+        if (previous && !gap.includes('\n') && previous.kind !== 'comment' && !previous.trailingComment) {
+          previous.trailingComment = text;
+        } else {
+          nodes.push({ kind: 'comment', text, sourceIndent: this.sourceIndent(ctx, start), blankBefore });
+        }
+        continue;
+      }
+
+      const statement = this.readStatement(ctx);
+      if (statement.terminator === '{') {
+        const openIndex = ctx.index;
+        ctx.index++;
+        const children = this.parseBlock(ctx, openIndex);
+        nodes.push(statement.text.startsWith('@') && !statement.text.startsWith('@{')
+          ? { kind: 'atrule', ...this.splitAtRule(statement.text), children, blankBefore }
+          : { kind: 'rule', selector: statement.text, children, blankBefore });
+        continue;
+      }
+      if (statement.terminator === ';') {
+        ctx.index++;
+      }
+      nodes.push(this.createStatement(ctx, statement, blankBefore));
+    }
+  }
+
+  /**
+   * '{' 없이 끝난 문을 at-rule, 선언, 원문 문 중 하나로 만듭니다.
+   */
+  private static createStatement(ctx: ParseContext, statement: Statement, blankBefore: boolean): CssNode {
+    const declaration = statement.text.match(this.DECLARATION);
+    if (declaration) {
+      return {
+        kind: 'decl',
+        property: declaration[1],
+        value: statement.text.slice(declaration[0].length).trim(),
+        sourceIndent: this.sourceIndent(ctx, statement.start),
+        blankBefore
+      };
+    }
+    if (statement.text.startsWith('@') && !statement.text.startsWith('@{')) {
+      return { kind: 'atrule', ...this.splitAtRule(statement.text), children: null, blankBefore };
+    }
+    return { kind: 'raw', text: statement.text, blankBefore };
+  }
+
+  private static splitAtRule(text: string): { name: string; params: string; spaceAfterName: boolean } {
+    const match = text.match(/^@([\w-]*)(\s*)([\s\S]*)$/)!;
+    return { name: match[1], params: match[3].trim(), spaceAfterName: match[2] !== '' };
+  }
+
+  /**
+   * 최상위 깊이의 ';', '{', '}' 또는 입력 끝까지 문 하나를 읽습니다. (끝낸 문자는 소비하지 않음)
+   */
+  private static readStatement(ctx: ParseContext): Statement {
+    const { code } = ctx;
+    const start = ctx.index;
+    let depth = 0;
+    let interpolation = 0;
+    // 커스텀 속성 값(--x: { ... })의 중괄호는 블록이 아니라 값의 일부
+    this.CUSTOM_PROPERTY.lastIndex = start;
+    const isCustomProperty = this.CUSTOM_PROPERTY.test(code);
+
+    while (ctx.index < code.length) {
+      const char = code[ctx.index];
+
+      if (char === '"' || char === "'") {
+        this.skipString(ctx);
+        continue;
+      }
+      if (code.startsWith('/*', ctx.index) || this.isLineComment(code, ctx.index)) {
+        this.readComment(ctx);
+        continue;
+      }
+      if ((char === '#' || char === '@') && code[ctx.index + 1] === '{') {
+        interpolation++;
+        ctx.index += 2;
+        continue;
+      }
+
+      if (interpolation > 0) {
+        if (char === '{') interpolation++;
+        if (char === '}') interpolation--;
+      } else if (char === '(' || char === '[' || (char === '{' && isCustomProperty)) {
+        depth++;
+      } else if ((char === ')' || char === ']' || char === '}') && depth > 0) {
+        depth--;
+      } else if (depth === 0 && (char === ';' || char === '{' || char === '}')) {
+        return { text: code.slice(start, ctx.index).trim(), start, terminator: char };
+      }
+      ctx.index++;
+    }
+
+    if (interpolation > 0) {
+      this.fail(ctx, start, "보간(#{...})을 닫는 '}'가 없습니다.");
+    }
+    return { text: code.slice(start).trim(), start, terminator: null };
+  }
+
+  /**
+   * 블록 주석이나 줄 주석을 읽습니다. (줄 주석은 줄바꿈 앞까지)
+   */
+  private static readComment(ctx: ParseContext): string {
+    const start = ctx.index;
+    if (ctx.code.startsWith('//', start)) {
+      const newline = ctx.code.indexOf('\n', start);
+      ctx.index = newline === -1 ? ctx.code.length : newline;
+      return ctx.code.slice(start, ctx.index).trimEnd();
+    }
+
+    const end = ctx.code.indexOf('*/', start + 2);
+    if (end === -1) {
+      this.fail(ctx, start, '주석(/*)이 닫히지 않았습니다.');
+    }
+    ctx.index = end + 2;
+    return ctx.code.slice(start, ctx.index);
+  }
+
+  private static skipString(ctx: ParseContext): void {
+    const start = ctx.index;
+    const quote = ctx.code[start];
+    ctx.index++;
+    while (ctx.index < ctx.code.length) {
+      const char = ctx.code[ctx.index];
+      if (char === '\\') {
+        ctx.index += 2;
+        continue;
+      }
+      if (char === '\n') {
+        break;
+      }
+      ctx.index++;
+      if (char === quote) {
+        return;
+      }
+    }
+    this.fail(ctx, start, '문자열이 닫히지 않았습니다.');
+  }
+
+  /**
+   * 위치가 줄의 첫 글자이면 그 앞의 들여쓰기를, 아니면 빈 문자열을 반환합니다.
+   */
+  private static sourceIndent(ctx: ParseContext, offset: number): string {
+    const lineStart = ctx.code.lastIndexOf('\n', offset - 1) + 1;
+    const prefix = ctx.code.slice(lineStart, offset);
+    return /^[ \t]*$/.test(prefix) ? prefix : '';
+  }
+
+  private static fail(ctx: ParseContext, offset: number, message: string): never {
+    throw SourceParseError.at('CSS', ctx.code, offset, message);
+  }
+}
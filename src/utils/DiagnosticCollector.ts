@@ -0,0 +1,163 @@
+/**
+ * 진단 수집 유틸리티
+ * 포매터가 발견한 오류/경고를 위치 정보와 함께 모으고,
+ * 기존 warnings/errors 메시지 배열도 함께 제공합니다.
+ */
+
+import {
+  Diagnostic,
+  DiagnosticFix,
+  DiagnosticSeverity,
+  SourceRange
+} from '../types/FormattingTypes';
+import { SourceParseError } from './SourceParseError';
+
+export class DiagnosticCollector {
+  /** 특정 위치가 없는 진단에 쓰는 문서 시작 위치 */
+  public static readonly DOCUMENT_START: SourceRange = { startLine: 1, startColumn: 1, endLine: 1, endColumn: 1 };
+
+  private readonly items: Diagnostic[] = [];
+
+  /**
+   * 오류를 추가합니다.
+   */
+  public error(ruleId: string, message: string, range: SourceRange = DiagnosticCollector.DOCUMENT_START, fix?: DiagnosticFix): void {
+    this.add('error', ruleId, message, range, fix);
+  }
+
+  /**
+   * 경고를 추가합니다.
+   */
+  public warning(ruleId: string, message: string, range: SourceRange = DiagnosticCollector.DOCUMENT_START, fix?: DiagnosticFix): void {
+    this.add('warning', ruleId, message, range, fix);
+  }
+
+  /**
+   * 진단을 추가합니다.
+   */
+  public add(
+    severity: DiagnosticSeverity,
+    ruleId: string,
+    message: string,
+    range: SourceRange = DiagnosticCollector.DOCUMENT_START,
+    fix?: DiagnosticFix
+  ): void {
+    this.items.push({ severity, ruleId, message, ...range, ...(fix ? { fix } : {}) });
+  }
+
+  /**
+   * 구조 파서 오류를 줄 위치와 함께 오류로 추가합니다. ('<언어>-parse-error', 열을 알면 그 열부터 줄 끝까지)
+   * 파서 오류가 아니면 위치 없는 internal-error로 추가합니다.
+   * @param code 파싱한 코드
+   * @param error 잡은 오류
+   * @param label 파서 오류가 아닐 때 메시지 앞에 붙일 작업 이름 (예: 'CSS 포매팅')
+   */
+  public parseError(code: string, error: unknown, label: string): void {
+    if (!(error instanceof SourceParseError)) {
+      this.error('internal-error', `${label} 중 오류 발생: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    const length = code.split('\n')[error.line - 1]?.replace(/\r$/, '').length ?? 0;
+    this.error(`${error.language.toLowerCase()}-parse-error`, `유효하지 않은 ${error.language} 형식: ${error.message}`, {
+      startLine: error.line,
+      startColumn: Math.min(error.column ?? 1, length + 1),
+      endLine: error.line,
+      endColumn: length + 1
+    });
+  }
+
+  /**
+   * 최대 줄 길이를 넘는 줄마다 경고를 추가합니다.
+   * @param code 검사할 코드
+   * @param maxLineLength 최대 줄 길이 (0 이하이면 검사하지 않음)
+   * @param firstLine code의 첫 줄이 전체 코드에서 몇 번째 줄인지 (부분 코드를 검사할 때)
+   */
+  public reportLongLines(code: string, maxLineLength: number, firstLine: number = 1): void {
+    if (maxLineLength <= 0) {
+      return;
+    }
+
+    code.split('\n').forEach((line, index) => {
+      if (line.length > maxLineLength) {
+        this.warning(
+          'max-line-length',
+          `줄 길이(${line.length}자)가 최대 줄 길이(${maxLineLength}자)를 초과합니다.`,
+          { startLine: firstLine + index, startColumn: maxLineLength + 1, endLine: firstLine + index, endColumn: line.length + 1 }
+        );
+      }
+    });
+  }
+
+  /** 수집된 진단 목록 */
+  public get diagnostics(): Diagnostic[] {
+    return [...this.items];
+  }
+
+  /** 오류 메시지 목록 */
+  public get errors(): string[] {
+    return this.messagesOf('error');
+  }
+
+  /** 경고 메시지 목록 */
+  public get warnings(): string[] {
+    return this.messagesOf('warning');
+  }
+
+  private messagesOf(severity: DiagnosticSeverity): string[] {
+    return this.items.filter(item => item.severity === severity).map(item => item.message);
+  }
+
+  /**
+   * 문자열 오프셋 범위를 줄/열 범위로 변환합니다.
+   * @param code 전체 코드
+   * @param start 시작 오프셋
+   * @param end 끝 오프셋 (미포함)
+   */
+  public static rangeFromOffsets(code: string, start: number, end: number = start): SourceRange {
+    const startPosition = this.positionAt(code, start);
+    const endPosition = this.positionAt(code, Math.max(start, end));
+    return {
+      startLine: startPosition.line,
+      startColumn: startPosition.column,
+      endLine: endPosition.line,
+      endColumn: endPosition.column
+    };
+  }
+
+  /**
+   * 줄/열 범위를 문자열 오프셋으로 변환합니다.
+   */
+  public static offsetAt(code: string, line: number, column: number): number {
+    let offset = 0;
+    for (let current = 1; current < line; current++) {
+      const newlineIndex = code.indexOf('\n', offset);
+      if (newlineIndex === -1) {
+        return code.length;
+      }
+      offset = newlineIndex + 1;
+    }
+    return Math.min(code.length, offset + column - 1);
+  }
+
+  /**
+   * 진단의 수정 제안을 코드에 적용합니다. 수정 제안이 없으면 코드를 그대로 반환합니다.
+   */
+  public static applyFix(code: string, diagnostic: Diagnostic): string {
+    if (!diagnostic.fix) {
+      return code;
+    }
+    const start = this.offsetAt(code, diagnostic.startLine, diagnostic.startColumn);
+    const end = this.offsetAt(code, diagnostic.endLine, diagnostic.endColumn);
+    return code.slice(0, start) + diagnostic.fix.replacement + code.slice(end);
+  }
+
+  private static positionAt(code: string, offset: number): { line: number; column: number } {
+    const before = code.slice(0, Math.min(offset, code.length));
+    const lineStart = before.lastIndexOf('\n') + 1;
+    return {
+      line: (before.match(/\n/g) || []).length + 1,
+      column: before.length - lineStart + 1
+    };
+  }
+}
@@ -0,0 +1,891 @@
+/**
+ * 포매팅 결과 검증 유틸리티
+ * 포매팅이 코드의 의미를 바꾸지 않았는지(토큰 흐름 비교), 결과를 다시 포매팅해도
+ * 같은 코드가 나오는지(멱등성)를 확인합니다.
+ */
+
+import {
+  SupportedLanguage,
+  FormattingConvention,
+  FormattingResult,
+  FormattingVerificationError
+} from '../types/FormattingTypes';
+import { Token } from '../types/TokenTypes';
+import { YamlNode, YamlValue } from '../types/YamlTypes';
+import { XmlNode } from '../types/XmlTypes';
+import { CssNode } from '../types/CssTypes';
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { BaseTokenizer } from '../tokenizers/BaseTokenizer';
+import { LanguageRegistry } from '../services/LanguageRegistry';
+import { JavaScriptModuleLoader } from './JavaScriptModuleLoader';
+import { PythonImportSorter } from './PythonImportSorter';
+import { YamlStructureParser } from './YamlStructureParser';
+import { XmlStructureParser } from './XmlStructureParser';
+import { CssStructureParser } from './CssStructureParser';
+
+/**
+ * 비교용 토큰 (정규화된 텍스트와 위치)
+ */
+export interface SemanticToken {
+  text: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * 비교용 토큰 흐름
+ * 주석과 import 문은 포매터가 위치를 옮길 수 있으므로 순서와 무관하게 비교합니다.
+ */
+export interface SemanticStream {
+  tokens: SemanticToken[];
+  comments: SemanticToken[];
+  imports: SemanticToken[];
+}
+
+export class FormattingVerifier {
+  /** 줄 앞에 오면 import 문으로 보는 키워드 (Rust use, C# using 포함) */
+  private static readonly IMPORT_KEYWORDS: ReadonlySet<string> = new Set(['import', 'use', 'using']);
+
+  /** 0이면 CSS 포매터가 뺄 수 있는 길이 단위가 붙은 값 */
+  private static readonly CSS_ZERO_LENGTH = new RegExp(
+    '(^|[\\s,(:/*+])[-+]?(?:0+(?:\\.0*)?|\\.0+)(?:' +
+    'px|em|rem|ex|ch|lh|rlh|vw|vh|vmin|vmax|vi|vb|svw|svh|lvw|lvh|dvw|dvh|cqw|cqh|cqi|cqb|cqmin|cqmax|' +
+    'cm|mm|q|in|pt|pc)(?![\\w%-])',
+    'gi'
+  );
+
+  /** 줄 끝에 오면 Go가 세미콜론을 넣는 토큰 (이름, 리터럴, ++, --, 닫는 괄호) */
+  private static readonly GO_STATEMENT_END = /^(?:[\p{L}\p{N}_"'`]|\.\d|(?:\+\+|--|[)\]}])$)/u;
+
+  /** 본문을 같은 줄에 쓸 수 있는 Python 복합문 키워드 */
+  private static readonly PYTHON_COMPOUND_KEYWORDS: ReadonlySet<string> = new Set([
+    'if', 'elif', 'else', 'while', 'for', 'try', 'except', 'finally', 'with', 'def', 'class', 'async'
+  ]);
+
+  /** 줄 처음에서 블록을 여는 문일 때만 키워드인 Python 이름 (soft keyword) */
+  private static readonly PYTHON_SOFT_KEYWORDS: ReadonlySet<string> = new Set(['match', 'case']);
+
+  /**
+   * 포매팅 결과를 검증합니다.
+   * @param language 프로그래밍 언어
+   * @param original 원본 코드
+   * @param formatted 포매팅된 코드
+   * @param reformat 같은 컨벤션으로 다시 포매팅하는 함수 (멱등성 검사용)
+   * @param convention 포매팅 컨벤션 (토크나이저가 컨벤션에 따라 읽는 언어용)
+   * @returns 검증 실패 정보 (통과하면 null)
+   */
+  public static verify(
+    language: SupportedLanguage,
+    original: string,
+    formatted: string,
+    reformat: (code: string) => FormattingResult,
+    convention?: FormattingConvention
+  ): FormattingVerificationError | null {
+    return this.checkSemantics(language, original, formatted, convention) ??
+      this.checkIdempotency(formatted, reformat(formatted));
+  }
+
+  /**
+   * 포매팅 결과의 의미가 원본과 같은지만 검증합니다. (멱등성은 검사하지 않음)
+   * 범위 포매팅 결과를 전체 코드에 붙인 뒤 확인할 때 씁니다.
+   * @returns 검증 실패 정보 (통과하면 null)
+   */
+  public static verifySemantics(
+    language: SupportedLanguage,
+    original: string,
+    formatted: string,
+    convention?: FormattingConvention
+  ): FormattingVerificationError | null {
+    return this.checkSemantics(language, original, formatted, convention);
+  }
+
+  /**
+   * 결과를 다시 포매팅했을 때 달라지는 첫 줄을 찾습니다.
+   */
+  private static checkIdempotency(formatted: string, second: FormattingResult): FormattingVerificationError | null {
+    if (second.errors.length > 0) {
+      return {
+        check: 'idempotency',
+        message: `포매팅 결과를 다시 포매팅할 수 없습니다: ${second.errors[0]}`,
+        line: 1,
+        column: 1,
+        expected: '',
+        actual: second.errors[0]
+      };
+    }
+    if (second.formattedCode === formatted) {
+      return null;
+    }
+
+    const firstLines = formatted.split('\n');
+    const secondLines = second.formattedCode.split('\n');
+    let index = 0;
+    while (index < firstLines.length && firstLines[index] === secondLines[index]) {
+      index++;
+    }
+
+    // 차이는 포매팅 결과에서 발생하므로 원본 위치는 특정할 수 없음
+    return {
+      check: 'idempotency',
+      message: `포매팅 결과가 멱등하지 않습니다: 다시 포매팅하면 결과의 ${index + 1}번째 줄이 달라집니다.`,
+      line: 1,
+      column: 1,
+      expected: firstLines[index] ?? '',
+      actual: secondLines[index] ?? ''
+    };
+  }
+
+  /**
+   * 공백을 제외한 토큰 흐름이 원본과 같은지 확인합니다.
+   */
+  private static checkSemantics(
+    language: SupportedLanguage,
+    original: string,
+    formatted: string,
+    convention?: FormattingConvention
+  ): FormattingVerificationError | null {
+    const plugin = LanguageRegistry.get(language);
+    const mode = plugin?.semanticCheck ?? 'none';
+    if (!plugin || mode === 'none') {
+      return null;
+    }
+    if (mode === 'json') {
+      return this.checkParsedValue('JSON', original, formatted, code => JSON.parse(code));
+    }
+    if (mode === 'yaml') {
+      return this.checkParsedValue('YAML', original, formatted, code => this.getYamlValue(code));
+    }
+    if (mode === 'markup') {
+      const html = language === 'html';
+      return this.checkParsedValue(html ? 'HTML' : 'XML', original, formatted,
+        code => this.getMarkupValue(XmlStructureParser.parse(code.replace(/\r\n/g, '\n'), html)));
+    }
+    if (mode === 'css') {
+      return this.checkParsedValue('CSS', original, formatted,
+        code => this.getCssValue(CssStructureParser.parse(code.replace(/\r\n/g, '\n'))));
+    }
+
+    const before = this.getSemanticStream(plugin, original, convention);
+    const after = this.getSemanticStream(plugin, formatted, convention);
+    if (!after) {
+      return this.semanticError('포매팅된 코드를 구문 분석할 수 없습니다', { text: '', line: 1, column: 1 }, '', '');
+    }
+    if (!before) {
+      return null;
+    }
+
+    return this.compareSequence(before.tokens, after.tokens, '코드') ??
+      this.compareUnordered(before.imports, after.imports, 'import 문') ??
+      this.compareUnordered(before.comments, after.comments, '주석');
+  }
+
+  /**
+   * 순서대로 토큰을 비교합니다.
+   */
+  private static compareSequence(
+    expected: SemanticToken[],
+    actual: SemanticToken[],
+    label: string
+  ): FormattingVerificationError | null {
+    const length = Math.max(expected.length, actual.length);
+    for (let i = 0; i < length; i++) {
+      if (expected[i]?.text === actual[i]?.text) {
+        continue;
+      }
+      const location = expected[i] ?? expected[expected.length - 1] ?? { text: '', line: 1, column: 1 };
+      return this.semanticError(
+        `포매팅 후 ${label}의 토큰 흐름이 달라졌습니다: '${expected[i]?.text ?? ''}' → '${actual[i]?.text ?? ''}'`,
+        location,
+        expected[i]?.text ?? '',
+        actual[i]?.text ?? ''
+      );
+    }
+    return null;
+  }
+
+  /**
+   * 순서와 무관하게 토큰 목록을 비교합니다.
+   */
+  private static compareUnordered(
+    expected: SemanticToken[],
+    actual: SemanticToken[],
+    label: string
+  ): FormattingVerificationError | null {
+    const remaining = new Map<string, number>();
+    expected.forEach(token => remaining.set(token.text, (remaining.get(token.text) ?? 0) + 1));
+
+    for (const token of actual) {
+      const count = remaining.get(token.text) ?? 0;
+      if (count === 0) {
+        return this.semanticError(`포매팅 후 원본에 없던 ${label}이 생겼습니다`, { ...token, line: 1, column: 1 }, '', token.text);
+      }
+      remaining.set(token.text, count - 1);
+    }
+
+    const missing = expected.find(token => (remaining.get(token.text) ?? 0) > 0);
+    if (missing) {
+      return this.semanticError(`포매팅 후 원본의 ${label}이 사라졌습니다`, missing, missing.text, '');
+    }
+    return null;
+  }
+
+  /**
+   * 의미 보존 검증 실패 정보를 만듭니다. 위치는 원본 코드 기준입니다.
+   */
+  private static semanticError(
+    message: string,
+    location: SemanticToken,
+    expected: string,
+    actual: string
+  ): FormattingVerificationError {
+    return {
+      check: 'semantic',
+      message,
+      line: location.line,
+      column: location.column,
+      expected,
+      actual
+    };
+  }
+
+  /**
+   * 구조 파서로 읽은 값을 비교합니다. (JSON/YAML은 키 순서, 마크업/CSS는 공백과 표기 차이를 무시)
+   * 원본을 파싱할 수 없으면 비교하지 않습니다.
+   */
+  private static checkParsedValue(
+    label: string,
+    original: string,
+    formatted: string,
+    parse: (code: string) => unknown
+  ): FormattingVerificationError | null {
+    let before: unknown;
+    let after: unknown;
+    try {
+      before = parse(original);
+    } catch {
+      return null;
+    }
+    try {
+      after = parse(formatted);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.semanticError(`포매팅된 ${label}을 파싱할 수 없습니다: ${message}`, { text: '', line: 1, column: 1 }, '', '');
+    }
+
+    const expected = this.canonicalJson(before);
+    const actual = this.canonicalJson(after);
+    return expected === actual
+      ? null
+      : this.semanticError(`포매팅 후 ${label} 값이 달라졌습니다`, { text: '', line: 1, column: 1 }, expected, actual);
+  }
+
+  /**
+   * 키를 정렬한 JSON 문자열을 만듭니다.
+   */
+  private static canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalJson(item)).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+      const entries = Object.keys(value).sort()
+        .map(key => `${JSON.stringify(key)}:${this.canonicalJson((value as Record<string, unknown>)[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+
+  /**
+   * YAML 구조 트리를 비교용 값으로 바꿉니다.
+   * 매핑은 객체(키 순서 무시), 시퀀스는 배열, 스칼라는 따옴표 종류와 플로우 컬렉션 안의 공백을 정규화한 문자열로 바꾸고
+   * 앵커/태그는 값을 감싸는 키로 둡니다. 주석과 빈 줄, 들여쓰기 너비는 비교하지 않습니다.
+   */
+  private static getYamlValue(code: string): unknown {
+    return YamlStructureParser.parse(code).map(part => {
+      switch (part.kind) {
+        case 'document':
+          return this.getYamlNodeValue(part.root);
+        case 'verbatim':
+          return part.lines.join('\n');
+        default:
+          return part.text;
+      }
+    });
+  }
+
+  private static getYamlNodeValue(node: YamlNode | null): unknown {
+    if (!node) {
+      return null;
+    }
+    const withProps = (value: YamlValue) => {
+      const nodeValue = this.getYamlNodeValue(value.node);
+      return value.props ? { [value.props]: nodeValue } : nodeValue;
+    };
+
+    switch (node.kind) {
+      case 'mapping':
+        return Object.fromEntries(node.entries.map(entry => [this.normalizeYamlScalar(entry.key), withProps(entry.value)]));
+      case 'sequence':
+        return node.items.map(item => withProps(item.value));
+      case 'scalar':
+        return this.normalizeYamlScalar(node.lines.join(' '));
+      case 'block':
+        return `${node.header}\n${node.lines.join('\n')}`;
+    }
+  }
+
+  /**
+   * 스칼라나 플로우 컬렉션 원문을 정규화합니다.
+   * 따옴표 문자열은 값의 JSON 문자열로 바꾸고, 따옴표 밖의 공백은 하나로 줄이며 괄호/쉼표/콜론 옆 공백은 지웁니다.
+   */
+  private static normalizeYamlScalar(text: string): string {
+    let result = '';
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index];
+      // 따옴표는 값이 시작하는 자리에서만 문자열을 엶 (plain 스칼라 안의 don't 등은 제외)
+      if ((char === '"' || char === '\'') && (result === '' || /[[{,:]$/.test(result))) {
+        let end = index + 1;
+        while (end < text.length) {
+          if (char === '"' && text[end] === '\\') {
+            end += 2;
+          } else if (char === '\'' && text[end] === '\'' && text[end + 1] === '\'') {
+            end += 2;
+          } else if (text[end] === char) {
+            break;
+          } else {
+            end++;
+          }
+        }
+        const body = text.slice(index + 1, end);
+        result += JSON.stringify(char === '\''
+          ? body.replace(/''/g, '\'')
+          : body.replace(/\\([\s\S])/g, (escape, escaped) => (escaped === '"' ? '"' : escape)));
+        index = end;
+        continue;
+      }
+      if (/\s/.test(char)) {
+        while (index + 1 < text.length && /\s/.test(text[index + 1])) index++;
+        if (result !== '' && !/[[{,:]$/.test(result) && index + 1 < text.length && !/[\]},:]/.test(text[index + 1])) {
+          result += ' ';
+        }
+        continue;
+      }
+      result += char;
+    }
+    return result;
+  }
+
+  /**
+   * XML/HTML 구조 트리를 비교용 값으로 바꿉니다.
+   * 요소는 이름, 속성 원문, 자식으로 비교하며 (<a></a>와 <a/>는 같음), 텍스트와 주석은 공백을 하나로 줄이고
+   * 공백만 있는 텍스트는 버립니다. 원문을 보존하는 요소(<pre> 등)는 원문 그대로 비교합니다.
+   */
+  private static getMarkupValue(nodes: XmlNode[]): unknown[] {
+    return nodes.flatMap((node): unknown[] => {
+      switch (node.kind) {
+        case 'text': {
+          const text = node.text.replace(/\s+/g, ' ').trim();
+          return text ? [text] : [];
+        }
+        case 'element':
+          return [node.preserve
+            ? [node.name, node.source]
+            : [
+              node.name,
+              node.attributes.map(attribute => (attribute.value === null ? attribute.name : `${attribute.name}=${attribute.value}`)),
+              this.getMarkupValue(node.children)
+            ]];
+        default:
+          return [`${node.kind}:${node.text.replace(/\s+/g, ' ')}`];
+      }
+    });
+  }
+
+  /**
+   * CSS 구조 트리를 비교용 값으로 바꿉니다.
+   * 선택자와 값은 normalizeCssText로 정규화하고, 속성 정렬로 순서가 바뀔 수 있는 연속한 선언은 정렬해서 비교합니다.
+   */
+  private static getCssValue(nodes: CssNode[]): unknown[] {
+    const result: unknown[] = [];
+    let run: string[] = [];
+    const flushRun = () => {
+      result.push(...run.sort());
+      run = [];
+    };
+
+    for (const node of nodes) {
+      const comment = node.trailingComment ? ` ${this.normalizeComment(node.trailingComment)}` : '';
+      if (node.kind === 'decl') {
+        const sortable = /^-?[A-Za-z][\w-]*$/.test(node.property);
+        const declaration = `${sortable ? node.property.toLowerCase() : node.property}:${this.normalizeCssText(node.value)}${comment}`;
+        if (sortable) {
+          run.push(declaration);
+          continue;
+        }
+        flushRun();
+        result.push(declaration);
+        continue;
+      }
+
+      flushRun();
+      switch (node.kind) {
+        case 'rule':
+          result.push([this.normalizeCssText(node.selector) + comment, this.getCssValue(node.children)]);
+          break;
+        case 'atrule':
+          result.push([
+            `@${node.name.toLowerCase()} ${this.normalizeCssText(node.params)}${comment}`,
+            node.children ? this.getCssValue(node.children) : null
+          ]);
+          break;
+        case 'raw':
+          result.push(this.normalizeCssText(node.text) + comment);
+          break;
+        case 'comment':
+          result.push(this.normalizeComment(node.text) + comment);
+          break;
+      }
+    }
+    flushRun();
+    return result;
+  }
+
+  /**
+   * CSS 선택자/값 원문을 정규화합니다.
+   * 문자열 따옴표 종류, url() 따옴표, 16진수 색상 대소문자, 0 값의 길이 단위, 공백(구분자와 결합자 주변은 제거)을 무시합니다.
+   */
+  private static normalizeCssText(text: string): string {
+    let result = '';
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index];
+      if (char === '"' || char === '\'') {
+        let end = index + 1;
+        while (end < text.length && text[end] !== char) {
+          end += text[end] === '\\' ? 2 : 1;
+        }
+        result += `"${text.slice(index + 1, end)}"`;
+        index = end;
+      } else if (text.startsWith('/*', index)) {
+        const end = text.indexOf('*/', index + 2);
+        const close = end === -1 ? text.length : end + 2;
+        result += this.normalizeComment(text.slice(index, close));
+        index = close - 1;
+      } else {
+        result += char;
+      }
+    }
+
+    return result
+      .replace(/url\(\s*"([^"]*)"\s*\)/gi, 'url($1)')
+      .replace(/\s+/g, ' ')
+      .replace(/\s*([,>+~:;(){}[\]]|!(?=\s*[a-z]))\s*/gi, '$1')
+      .replace(/!(important|default|global|optional)\b/gi, flag => flag.toLowerCase())
+      .replace(/#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})(?![\w-])/gi, color => color.toLowerCase())
+      .replace(this.CSS_ZERO_LENGTH, (_, boundary: string) => `${boundary}0`)
+      .trim();
+  }
+
+  /**
+   * 플러그인의 검사 방식으로 비교용 토큰 흐름을 만듭니다. 구문 분석에 실패하면 null을 반환합니다.
+   */
+  private static getSemanticStream(
+    plugin: LanguagePlugin,
+    code: string,
+    convention?: FormattingConvention
+  ): SemanticStream | null {
+    const tokenizer = plugin.createTokenizer?.(convention);
+    switch (plugin.semanticCheck) {
+      case 'javascript':
+        return JavaScriptModuleLoader.require().JavaScriptSemanticStream.create(code);
+      case 'tokens':
+        return tokenizer ? this.getTokenizerStream(tokenizer, code, false) : null;
+      case 'tokens-case-insensitive':
+        return tokenizer ? this.getTokenizerStream(tokenizer, code, true) : null;
+      case 'go':
+        return tokenizer ? this.getGoStream(tokenizer, code) : null;
+      case 'python':
+        return tokenizer ? this.getPythonStream(tokenizer, code) : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 토크나이저로 토큰 흐름을 만듭니다.
+   * import 문(import, use, using으로 시작해 개행 또는 세미콜론까지)은 정렬될 수 있으므로 따로 모읍니다.
+   * Go의 import ( ... ) 블록은 블록 안의 각 줄을 import 문 하나로 봅니다.
+   * @param caseInsensitive 키워드와 따옴표 없는 식별자의 대소문자 무시 여부 (SQL)
+   */
+  private static getTokenizerStream(tokenizer: BaseTokenizer, code: string, caseInsensitive: boolean): SemanticStream {
+    const stream: SemanticStream = { tokens: [], comments: [], imports: [] };
+    const toSemantic = (token: Token, text: string): SemanticToken => ({ text, line: token.line, column: token.column });
+    let currentImport: Token[] | null = null;
+    let inImportBlock = false;
+    let lineStart = true;
+
+    const closeImport = () => {
+      if (currentImport && currentImport.length > 0) {
+        const text = currentImport.map(token => token.value).join(' ');
+        stream.imports.push(toSemantic(currentImport[0], text));
+        if (text === 'import (') {
+          inImportBlock = true;
+        } else if (text === ')') {
+          inImportBlock = false;
+        }
+      }
+      currentImport = null;
+    };
+
+    for (const token of tokenizer.tokenize(code)) {
+      if (token.type === 'newline') {
+        closeImport();
+        lineStart = true;
+        continue;
+      }
+      if (token.type === 'whitespace') {
+        continue;
+      }
+      if (token.type === 'comment') {
+        stream.comments.push(toSemantic(token, this.normalizeComment(token.value)));
+        continue;
+      }
+
+      const atLineStart = lineStart;
+      lineStart = false;
+
+      if (currentImport) {
+        currentImport.push(token);
+        if (token.value === ';') {
+          closeImport();
+        }
+        continue;
+      }
+      if (!caseInsensitive && atLineStart &&
+        (inImportBlock || (token.type === 'keyword' && this.IMPORT_KEYWORDS.has(token.value)))) {
+        currentImport = [token];
+        continue;
+      }
+
+      const normalized = caseInsensitive && (token.type === 'keyword' || token.type === 'identifier') &&
+        !/^["`\[]/.test(token.value)
+        ? token.value.toUpperCase()
+        : token.value;
+      stream.tokens.push(toSemantic(token, normalized));
+    }
+    closeImport();
+
+    return stream;
+  }
+
+  /**
+   * Go 토큰 흐름을 만듭니다.
+   * 세미콜론 자동 삽입 규칙대로 줄 끝에 ';'를 넣고 ')'와 '}' 앞의 ';'는 버려, 생략할 수 있는 세미콜론의 유무를 같게 봅니다.
+   */
+  private static getGoStream(tokenizer: BaseTokenizer, code: string): SemanticStream {
+    const stream = this.getTokenizerStream(tokenizer, code, false);
+    const tokens: SemanticToken[] = [];
+    stream.tokens.forEach((token, index) => {
+      tokens.push(token);
+      const next = stream.tokens[index + 1];
+      const endLine = token.line + (token.text.match(/\n/g)?.length ?? 0);
+      if ((!next || next.line > endLine) && this.GO_STATEMENT_END.test(token.text)) {
+        tokens.push({ text: ';', line: endLine, column: token.column });
+      }
+    });
+    stream.tokens = tokens.filter((token, index) => token.text !== ';' || !/^[)}]$/.test(tokens[index + 1]?.text ?? ''));
+    return stream;
+  }
+
+  /**
+   * Python 토큰 흐름을 만듭니다.
+   * 논리 줄의 들여쓰기는 <INDENT>/<DEDENT> 토큰으로 바꿔 블록 구조를 비교하고, 한 줄에 쓴 복합문 본문과
+   * ';'로 이은 문은 포매터처럼 나누어 봅니다. 따옴표 종류, 닫는 괄호 앞 쉼표, 대입/return/조건 전체를 감싼 괄호,
+   * docstring 안의 공백은 무시하며, 최상위 import 문은 정렬되고 합쳐지므로 가져오는 이름 단위로 따로 모읍니다.
+   * 괄호나 들여쓰기가 맞지 않으면(IndentationError) null을 반환합니다.
+   */
+  private static getPythonStream(tokenizer: BaseTokenizer, code: string): SemanticStream | null {
+    const stream: SemanticStream = { tokens: [], comments: [], imports: [] };
+    const toSemantic = (token: Token, text: string): SemanticToken => ({ text, line: token.line, column: token.column });
+    const lines: { indentWidth: number; tokens: Token[] }[] = [];
+    let current: Token[] = [];
+    let indentWidth = 0;
+    let depth = 0;
+    let continued = false;
+
+    for (const token of tokenizer.tokenize(code)) {
+      if (token.type === 'whitespace') {
+        if (current.length === 0 && !continued) {
+          indentWidth = this.measurePythonIndent(token.value);
+        }
+        continue;
+      }
+      if (token.type === 'comment') {
+        stream.comments.push(toSemantic(token, this.normalizeComment(token.value.replace(/^#(?=[^\s!:#'])/, '# '))));
+        continue;
+      }
+      if (token.type === 'newline') {
+        if (depth === 0 && !continued && current.length > 0) {
+          lines.push({ indentWidth, tokens: current });
+          current = [];
+        }
+        if (current.length === 0) {
+          indentWidth = 0;
+        }
+        continued = false;
+        continue;
+      }
+      if (token.type === 'punctuation' && token.value === '\\') {
+        continued = true;
+        continue;
+      }
+      if (this.isPythonBracket(token, '([{')) {
+        depth++;
+      } else if (this.isPythonBracket(token, ')]}') && --depth < 0) {
+        return null;
+      }
+      current.push(token);
+    }
+    if (depth !== 0) {
+      return null;
+    }
+    if (current.length > 0) {
+      lines.push({ indentWidth, tokens: current });
+    }
+
+    const seenImports = new Set<string>();
+    const stack = [0];
+    let opensBlock = false;
+    const emit = (tokens: Token[]) => {
+      const normalized = this.unwrapPythonOptionalParens(tokens);
+      const docstring = normalized.length === 1 && normalized[0].type === 'string';
+      normalized.forEach((token, index) => {
+        if (token.value === ',' && this.isPythonBracket(normalized[index + 1], ')]}')) {
+          return;
+        }
+        stream.tokens.push(toSemantic(token, token.type === 'string'
+          ? this.normalizePythonString(token.value, docstring)
+          : token.value));
+      });
+      stream.tokens.push(toSemantic(tokens[tokens.length - 1], '<NEWLINE>'));
+    };
+
+    for (const line of lines) {
+      const first = line.tokens[0];
+      if (opensBlock) {
+        if (line.indentWidth <= stack[stack.length - 1]) {
+          return null;
+        }
+        stack.push(line.indentWidth);
+        stream.tokens.push(toSemantic(first, '<INDENT>'));
+      } else if (line.indentWidth > stack[stack.length - 1]) {
+        return null;
+      } else {
+        while (line.indentWidth < stack[stack.length - 1]) {
+          stack.pop();
+          stream.tokens.push(toSemantic(first, '<DEDENT>'));
+        }
+        if (line.indentWidth !== stack[stack.length - 1]) {
+          return null;
+        }
+      }
+
+      // 한 줄에 쓴 본문(if x: y)은 포매터가 다음 줄로 나누므로 들여쓴 블록으로 봄
+      const colon = (first.type === 'keyword' && this.PYTHON_COMPOUND_KEYWORDS.has(first.value)) ||
+        this.isPythonSoftKeywordStatement(line.tokens)
+        ? this.findPythonBlockColon(line.tokens)
+        : -1;
+      const inlineBody = colon !== -1 && colon < line.tokens.length - 1;
+      const parts = this.splitPythonStatements(inlineBody ? line.tokens.slice(colon + 1) : line.tokens);
+      opensBlock = !inlineBody && line.tokens[line.tokens.length - 1].value === ':';
+
+      if (inlineBody) {
+        emit(line.tokens.slice(0, colon + 1));
+        stream.tokens.push(toSemantic(line.tokens[colon + 1], '<INDENT>'));
+      }
+      for (const part of parts) {
+        const imports = stack.length === 1 && !inlineBody && (part[0].value === 'import' || part[0].value === 'from')
+          ? PythonImportSorter.parse(part)
+          : null;
+        if (!imports) {
+          emit(part);
+          continue;
+        }
+        // 정렬, 중복 제거, 같은 모듈 합치기와 무관하도록 가져오는 이름 하나를 import 하나로 봄
+        for (const item of imports) {
+          const keys = item.isFrom
+            ? item.names.map(name => `from ${item.module} import ${name.name}${name.alias ? ` as ${name.alias}` : ''}`)
+            : [`import ${item.module}${item.alias ? ` as ${item.alias}` : ''}`];
+          for (const key of keys.filter(candidate => !seenImports.has(candidate))) {
+            seenImports.add(key);
+            stream.imports.push(toSemantic(part[0], key));
+          }
+        }
+      }
+      if (inlineBody) {
+        stream.tokens.push(toSemantic(first, '<DEDENT>'));
+      }
+    }
+    // 파일 끝에서 열린 블록을 닫음 (한 줄 본문을 나눈 결과와 같은 흐름이 되도록)
+    const last = lines[lines.length - 1]?.tokens[0];
+    for (let level = 1; level < stack.length && last; level++) {
+      stream.tokens.push(toSemantic(last, '<DEDENT>'));
+    }
+
+    return stream;
+  }
+
+  /**
+   * ';'로 이은 문을 나눕니다. (괄호 안의 ';'는 제외, 빈 문은 버림)
+   */
+  private static splitPythonStatements(tokens: Token[]): Token[][] {
+    const parts: Token[][] = [];
+    let current: Token[] = [];
+    let depth = 0;
+    for (const token of tokens) {
+      if (this.isPythonBracket(token, '([{')) depth++;
+      if (this.isPythonBracket(token, ')]}')) depth--;
+      if (depth === 0 && token.type === 'punctuation' && token.value === ';') {
+        if (current.length > 0) parts.push(current);
+        current = [];
+        continue;
+      }
+      current.push(token);
+    }
+    if (current.length > 0) {
+      parts.push(current);
+    }
+    return parts;
+  }
+
+  /**
+   * match/case 문인지 확인합니다. (PythonFormatter와 같은 기준: 줄 처음에서 블록의 ':'가 있는 문을 열 때만 키워드)
+   */
+  private static isPythonSoftKeywordStatement(tokens: Token[]): boolean {
+    const [first, second] = tokens;
+    if (first.type !== 'identifier' || !this.PYTHON_SOFT_KEYWORDS.has(first.value) || !second) {
+      return false;
+    }
+    if (second.type === 'punctuation' && (!'([{-*'.includes(second.value) || second.start === first.end)) {
+      return false;
+    }
+    const colon = this.findPythonBlockColon(tokens);
+    return first.value === 'match' ? colon === tokens.length - 1 : colon !== -1;
+  }
+
+  /**
+   * 복합문 머리의 ':' 위치를 찾습니다. (괄호 안과 lambda의 ':'는 제외, 없으면 -1)
+   */
+  private static findPythonBlockColon(tokens: Token[]): number {
+    let depth = 0;
+    let lambdas = 0;
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index];
+      if (token.type === 'keyword' && token.value === 'lambda' && depth === 0) {
+        lambdas++;
+      } else if (token.type === 'punctuation') {
+        if ('([{'.includes(token.value)) depth++;
+        if (')]}'.includes(token.value)) depth--;
+        if (depth === 0 && token.value === ':') {
+          if (lambdas === 0) {
+            return index;
+          }
+          lambdas--;
+        }
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * return/if/elif/while 뒤나 대입 오른쪽 전체를 감싼 괄호를 벗깁니다. (포매터가 긴 줄을 나눌 때 넣는 괄호)
+   */
+  private static unwrapPythonOptionalParens(tokens: Token[]): Token[] {
+    let start = -1;
+    let end = tokens.length;
+    if (tokens[0].value === 'return') {
+      start = 1;
+    } else if (['if', 'elif', 'while'].includes(tokens[0].value) && tokens[tokens.length - 1].value === ':') {
+      start = 1;
+      end = tokens.length - 1;
+    } else {
+      let depth = 0;
+      let lambdas = 0;
+      tokens.forEach((token, index) => {
+        if (this.isPythonBracket(token, '([{')) {
+          depth++;
+        } else if (this.isPythonBracket(token, ')]}')) {
+          depth--;
+        } else if (depth === 0 && token.type === 'keyword' && token.value === 'lambda') {
+          lambdas++;
+        } else if (depth === 0 && token.value === ':' && lambdas > 0) {
+          lambdas--;
+        } else if (depth === 0 && lambdas === 0 && token.type === 'punctuation' &&
+          /^(?:[-+*/%&|^@]|\*\*|\/\/|<<|>>)?=$/.test(token.value)) {
+          start = index + 1;
+        }
+      });
+    }
+
+    let result = tokens;
+    while (start !== -1 && start < end - 1 && this.isPythonBracket(result[start], '(') &&
+      this.findPythonClosingBracket(result, start) === end - 1) {
+      result = [...result.slice(0, start), ...result.slice(start + 1, end - 1), ...result.slice(end)];
+      end -= 2;
+    }
+    return result;
+  }
+
+  /**
+   * 여는 괄호와 짝이 맞는 닫는 괄호 위치를 찾습니다. (없으면 -1)
+   */
+  private static findPythonClosingBracket(tokens: Token[], open: number): number {
+    let depth = 0;
+    for (let index = open; index < tokens.length; index++) {
+      if (this.isPythonBracket(tokens[index], '([{')) depth++;
+      if (this.isPythonBracket(tokens[index], ')]}') && --depth === 0) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private static isPythonBracket(token: Token | undefined, brackets: string): boolean {
+    return token !== undefined && token.type === 'punctuation' && token.value.length === 1 && brackets.includes(token.value);
+  }
+
+  /**
+   * Python 문자열을 비교용으로 정규화합니다.
+   * 접두사의 u와 대소문자, 따옴표 종류, 따옴표 이스케이프를 무시하고, docstring은 공백 차이도 무시합니다.
+   */
+  private static normalizePythonString(value: string, docstring: boolean): string {
+    const match = value.match(/^([A-Za-z]*)('''|"""|'|")([\s\S]*)$/);
+    if (!match) {
+      return value;
+    }
+    const quote = match[2];
+    let body = match[3].slice(0, -quote.length);
+    if (quote.length === 1) {
+      body = body.replace(/\\([\s\S])/g, (escape, char) => (char === '"' || char === '\'' ? char : escape));
+    } else if (docstring) {
+      body = body.replace(/\s+/g, ' ').trim();
+    }
+    return `${match[1].toLowerCase().replace('u', '')}${quote.length === 3 ? '"""' : '"'}${body}`;
+  }
+
+  /**
+   * 들여쓰기 너비를 계산합니다. (탭은 다음 8의 배수까지)
+   */
+  private static measurePythonIndent(text: string): number {
+    let width = 0;
+    for (const char of text) {
+      width = char === '\t' ? (Math.floor(width / 8) + 1) * 8 : width + 1;
+    }
+    return width;
+  }
+
+  /**
+   * 주석의 들여쓰기 차이를 무시하도록 공백을 정규화합니다.
+   */
+  public static normalizeComment(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * 글롭 패턴 매칭 유틸리티
+ * .editorconfig 섹션과 설정 파일의 overrides에서 쓰는 글롭 패턴을 파일 경로와 비교합니다.
+ * 지원 문법: *, **, ?, [abc], [!abc], {a,b}, {1..3}
+ */
+
+export class GlobMatcher {
+  private static readonly cache = new Map<string, RegExp>();
+
+  /**
+   * 경로가 글롭 패턴과 일치하는지 확인합니다.
+   * 패턴에 '/'가 없으면 경로의 모든 위치(파일 이름 기준)에서 일치를 찾습니다.
+   * @param pattern 글롭 패턴
+   * @param path 비교할 경로 ('/' 구분)
+   */
+  public static matches(pattern: string, path: string): boolean {
+    const normalizedPath = path.replace(/\\/g, '/').replace(/^\.\//, '');
+    return this.toRegExp(pattern).test(normalizedPath);
+  }
+
+  /**
+   * 글롭 패턴을 정규식으로 변환합니다.
+   */
+  public static toRegExp(pattern: string): RegExp {
+    const cached = this.cache.get(pattern);
+    if (cached) {
+      return cached;
+    }
+
+    // '/'가 있는 패턴은 기준 디렉토리에 고정, 없으면 어느 디렉토리의 파일 이름과도 비교
+    const body = pattern.replace(/^\.?\//, '');
+    const prefix = pattern.replace(/^\.\//, '').includes('/') ? '' : '(?:.*/)?';
+
+    const regExp = new RegExp(`^${prefix}${this.translate(body)}$`);
+    this.cache.set(pattern, regExp);
+    return regExp;
+  }
+
+  private static translate(pattern: string): string {
+    let result = '';
+    let index = 0;
+
+    while (index < pattern.length) {
+      const char = pattern[index];
+
+      if (char === '*') {
+        if (pattern[index + 1] === '*') {
+          // '**/'는 0개 이상의 디렉토리, 그 밖의 '**'는 '/'를 포함한 모든 문자
+          if (pattern[index + 2] === '/') {
+            result += '(?:.*/)?';
+            index += 3;
+          } else {
+            result += '.*';
+            index += 2;
+          }
+        } else {
+          result += '[^/]*';
+          index++;
+        }
+        continue;
+      }
+
+      if (char === '?') {
+        result += '[^/]';
+        index++;
+        continue;
+      }
+
+      if (char === '[') {
+        const end = pattern.indexOf(']', index + 1);
+        if (end !== -1) {
+          let set = pattern.slice(index + 1, end);
+          if (set.startsWith('!')) {
+            set = `^${set.slice(1)}`;
+          }
+          result += `[${set.replace(/\\/g, '\\\\')}]`;
+          index = end + 1;
+          continue;
+        }
+      }
+
+      if (char === '{') {
+        const end = this.findClosingBrace(pattern, index);
+        if (end !== -1) {
+          const inner = pattern.slice(index + 1, end);
+          const range = inner.match(/^(-?\d+)\.\.(-?\d+)$/);
+          if (range) {
+            const from = Math.min(Number(range[1]), Number(range[2]));
+            const to = Math.max(Number(range[1]), Number(range[2]));
+            const values = Array.from({ length: Math.min(to - from + 1, 1000) }, (_, offset) => String(from + offset));
+            result += `(?:${values.join('|')})`;
+          } else {
+            const alternatives = this.splitAlternatives(inner);
+            result += alternatives.length > 1
+              ? `(?:${alternatives.map(alternative => this.translate(alternative)).join('|')})`
+              : `\\{${this.translate(inner)}\\}`;
+          }
+          index = end + 1;
+          continue;
+        }
+      }
+
+      if (char === '\\' && index + 1 < pattern.length) {
+        result += this.escape(pattern[index + 1]);
+        index += 2;
+        continue;
+      }
+
+      result += this.escape(char);
+      index++;
+    }
+
+    return result;
+  }
+
+  private static findClosingBrace(pattern: string, start: number): number {
+    let depth = 0;
+    for (let index = start; index < pattern.length; index++) {
+      if (pattern[index] === '\\') {
+        index++;
+      } else if (pattern[index] === '{') {
+        depth++;
+      } else if (pattern[index] === '}' && --depth === 0) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * 중괄호 안의 대안을 최상위 쉼표 기준으로 나눕니다.
+   */
+  private static splitAlternatives(inner: string): string[] {
+    const alternatives: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (let index = 0; index < inner.length; index++) {
+      const char = inner[index];
+      if (char === '\\' && index + 1 < inner.length) {
+        current += char + inner[++index];
+        continue;
+      }
+      if (char === '{') depth++;
+      if (char === '}') depth--;
+      if (char === ',' && depth === 0) {
+        alternatives.push(current);
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    alternatives.push(current);
+    return alternatives;
+  }
+
+  private static escape(char: string): string {
+    return /[.+^$()|\\/{}[\]*?]/.test(char) ? `\\${char}` : char;
+  }
+}
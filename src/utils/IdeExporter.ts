@@ -7,12 +7,24 @@ import {
   FormattingConvention, 
   IdeExportResult, 
   IdeExportFormat, 
+  AttributeWrapping,
   SupportedLanguage,
   JavaFormattingConvention,
   JsonFormattingConvention,
+  YamlFormattingConvention,
+  XmlFormattingConvention,
+  HtmlFormattingConvention,
+  CssFormattingConvention,
+  PythonFormattingConvention,
   JavaScriptFormattingConvention,
   KotlinFormattingConvention,
+  CFamilyFormattingConvention,
+  GoFormattingConvention,
+  RustFormattingConvention,
+  CSharpFormattingConvention,
 } from '../types/FormattingTypes';
+import { LanguageRegistry } from '../services/LanguageRegistry';
+import { CSS_PROPERTY_GROUPS } from '../constants/CssPropertyGroups';
 
 export class IdeExporter {
   
@@ -39,6 +51,10 @@ export class IdeExporter {
         return this.exportToPrettier(convention, language);
       case 'eslint':
         return this.exportToEslint(convention, language);
+      case 'stylelint':
+        return this.exportToStylelint(convention, language);
+      case 'pyproject':
+        return this.exportToPyproject(convention, language);
       case 'editorconfig':
         return this.exportToEditorConfig(convention, language);
       default:
@@ -54,15 +70,15 @@ export class IdeExporter {
       [`[${this.getLanguageId(language)}]`]: {
         "editor.insertSpaces": convention.indentationType === 'space',
         "editor.tabSize": convention.indentSize,
-        "editor.rulers": [convention.maxLineLength],
+        "editor.rulers": convention.maxLineLength > 0 ? [convention.maxLineLength] : [],
         "files.insertFinalNewline": convention.insertFinalNewline,
         "files.trimTrailingWhitespace": convention.trimTrailingWhitespace,
       }
     };
 
     // 언어별 특화 설정
-    if (language === 'javascript' || language === 'json') {
-      const jsConvention = convention as JavaScriptFormattingConvention | JsonFormattingConvention;
+    if (language === 'javascript' || language === 'json' || language === 'yaml' || language === 'css') {
+      const jsConvention = convention as JavaScriptFormattingConvention | JsonFormattingConvention | YamlFormattingConvention | CssFormattingConvention;
       if ('quoteStyle' in jsConvention) {
         settings[`[${this.getLanguageId(language)}]`]["prettier.singleQuote"] = jsConvention.quoteStyle === 'single';
       }
@@ -77,6 +93,82 @@ export class IdeExporter {
       });
     }
 
+    if (language === 'html') {
+      const htmlConvention = convention as HtmlFormattingConvention;
+      Object.assign(settings[`[${this.getLanguageId(language)}]`], {
+        "html.format.wrapLineLength": convention.maxLineLength,
+        "html.format.wrapAttributes": this.getVsCodeHtmlWrapAttributes(htmlConvention)
+      });
+    }
+
+    if (language === 'xml') {
+      const xmlConvention = convention as XmlFormattingConvention;
+      Object.assign(settings[`[${this.getLanguageId(language)}]`], {
+        "xml.format.maxLineWidth": convention.maxLineLength,
+        "xml.format.splitAttributes": xmlConvention.attributeWrapping === 'always',
+        "xml.format.closingBracketNewLine": !xmlConvention.bracketSameLine,
+        "xml.format.spaceBeforeEmptyCloseTag": xmlConvention.selfClosingSpace,
+        "xml.format.emptyElements": xmlConvention.collapseEmptyElements ? 'collapse' : 'ignore'
+      });
+    }
+
+    if (language === 'css') {
+      const cssConvention = convention as CssFormattingConvention;
+      // VS Code 내장 포매터는 css, scss, less 설정이 따로 있으므로 언어 블록 밖에 씀
+      for (const id of ['css', 'scss', 'less']) {
+        Object.assign(settings, {
+          [`${id}.format.newlineBetweenSelectors`]: cssConvention.selectorPerLine,
+          [`${id}.format.newlineBetweenRules`]: cssConvention.blankLinesBetweenRules > 0
+        });
+      }
+    }
+
+    if (language === 'python') {
+      const pythonConvention = convention as PythonFormattingConvention;
+      settings[`[${this.getLanguageId(language)}]`]["editor.defaultFormatter"] = "ms-python.black-formatter";
+      Object.assign(settings, {
+        "black-formatter.args": [
+          `--line-length=${convention.maxLineLength}`,
+          ...(pythonConvention.quoteStyle !== 'double' ? ["--skip-string-normalization"] : []),
+          ...(pythonConvention.magicTrailingComma ? [] : ["--skip-magic-trailing-comma"])
+        ],
+        "isort.args": ["--profile", "black", `--line-length=${convention.maxLineLength}`]
+      });
+    }
+
+    if (language === 'go') {
+      const goConvention = convention as GoFormattingConvention;
+      Object.assign(settings[`[${this.getLanguageId(language)}]`], {
+        "editor.defaultFormatter": "golang.go",
+        "editor.codeActionsOnSave": {
+          "source.organizeImports": goConvention.organizeImports ? "explicit" : "never"
+        }
+      });
+      // 표준 라이브러리 import 분리는 gofmt에 없는 goimports 기능
+      settings["go.formatTool"] = goConvention.separateImportGroups ? "goimports" : "gofmt";
+    }
+
+    if (language === 'rust') {
+      const rustConvention = convention as RustFormattingConvention;
+      settings[`[${this.getLanguageId(language)}]`]["editor.defaultFormatter"] = "rust-lang.rust-analyzer";
+      settings["rust-analyzer.rustfmt.extraArgs"] = [
+        "--config",
+        [
+          `max_width=${convention.maxLineLength || 100}`,
+          `hard_tabs=${convention.indentationType === 'tab'}`,
+          `tab_spaces=${convention.indentSize}`,
+          `reorder_imports=${rustConvention.organizeImports}`
+        ].join(',')
+      ];
+    }
+
+    if (language === 'csharp') {
+      const csharpConvention = convention as CSharpFormattingConvention;
+      settings[`[${this.getLanguageId(language)}]`]["editor.defaultFormatter"] = "ms-dotnettools.csharp";
+      // 나머지 C# 서식 옵션은 .editorconfig에서 읽음
+      settings["dotnet.formatting.organizeImportsOnFormat"] = csharpConvention.organizeImports;
+    }
+
     return {
       format: 'vscode',
       filename: 'settings.json',
@@ -147,6 +239,80 @@ VS Code 설정 적용 방법:
     <option name="BLANK_LINES_AROUND_METHOD" value="${kotlinConvention.blankLinesBetweenMethods}" />
     <option name="BLANK_LINES_AROUND_CLASS" value="${kotlinConvention.blankLinesBetweenClasses}" />
   </Kotlin>
+</code_scheme>
+      `.trim();
+    } else if (language === 'go' || language === 'rust' || language === 'csharp') {
+      const cFamilyConvention = convention as CFamilyFormattingConvention;
+      const languageTag = this.getIntelliJLanguageTag(language);
+      const goImportSorting = language === 'go'
+        ? `\n  <GoCodeStyleSettings>\n    <option name="IMPORT_SORTING" value="${cFamilyConvention.separateImportGroups ? 'GOIMPORTS' : 'GOFMT'}" />\n  </GoCodeStyleSettings>`
+        : '';
+      const csharpConvention = convention as CSharpFormattingConvention;
+      const parenSpacing = language === 'csharp'
+        ? `
+    <option name="SPACE_BEFORE_METHOD_PARENTHESES" value="${csharpConvention.spaceBeforeMethodParens}" />
+    <option name="SPACE_BEFORE_METHOD_CALL_PARENTHESES" value="${csharpConvention.spaceBeforeMethodParens}" />
+    <option name="SPACE_BEFORE_IF_PARENTHESES" value="${csharpConvention.spaceBeforeControlParens}" />
+    <option name="SPACE_BEFORE_FOR_PARENTHESES" value="${csharpConvention.spaceBeforeControlParens}" />
+    <option name="SPACE_BEFORE_WHILE_PARENTHESES" value="${csharpConvention.spaceBeforeControlParens}" />`
+        : '';
+      content = `
+<code_scheme name="${convention.name}">${goImportSorting}
+  <codeStyleSettings language="${languageTag}">
+    <option name="RIGHT_MARGIN" value="${convention.maxLineLength}" />
+    <option name="BRACE_STYLE" value="${this.getIntelliJBraceStyle(cFamilyConvention.braceStyle)}" />
+    <option name="CLASS_BRACE_STYLE" value="${this.getIntelliJBraceStyle(cFamilyConvention.braceStyle)}" />
+    <option name="METHOD_BRACE_STYLE" value="${this.getIntelliJBraceStyle(cFamilyConvention.braceStyle)}" />${parenSpacing}
+    <option name="SPACE_AROUND_ASSIGNMENT_OPERATORS" value="${cFamilyConvention.spaceAroundOperators}" />
+    <option name="SPACE_AROUND_LOGICAL_OPERATORS" value="${cFamilyConvention.spaceAroundOperators}" />
+    <option name="BLANK_LINES_AROUND_METHOD" value="${cFamilyConvention.blankLinesBetweenMethods}" />
+    <option name="BLANK_LINES_AROUND_CLASS" value="${cFamilyConvention.blankLinesBetweenClasses}" />
+    <indentOptions>
+      <option name="INDENT_SIZE" value="${convention.indentSize}" />
+      <option name="TAB_SIZE" value="${convention.indentSize}" />
+      <option name="USE_TAB_CHARACTER" value="${convention.indentationType === 'tab'}" />
+    </indentOptions>
+  </codeStyleSettings>
+</code_scheme>
+      `.trim();
+    } else if (language === 'xml' || language === 'html') {
+      const markupConvention = convention as XmlFormattingConvention | HtmlFormattingConvention;
+      const prefix = language === 'xml' ? 'XML' : 'HTML';
+      content = `
+<code_scheme name="${convention.name}">
+  <option name="RIGHT_MARGIN" value="${convention.maxLineLength}" />
+  <${language === 'xml' ? 'XML' : 'HTMLCodeStyleSettings'}>
+    <option name="${prefix}_ATTRIBUTE_WRAP" value="${this.getIntelliJWrapType(markupConvention.attributeWrapping)}" />
+    <option name="${prefix}_SPACE_INSIDE_EMPTY_TAG" value="${markupConvention.selfClosingSpace}" />
+  </${language === 'xml' ? 'XML' : 'HTMLCodeStyleSettings'}>
+  <codeStyleSettings language="${prefix}">
+    <indentOptions>
+      <option name="INDENT_SIZE" value="${convention.indentSize}" />
+      <option name="TAB_SIZE" value="${convention.indentSize}" />
+      <option name="USE_TAB_CHARACTER" value="${convention.indentationType === 'tab'}" />
+    </indentOptions>
+  </codeStyleSettings>
+</code_scheme>
+      `.trim();
+    } else if (language === 'css') {
+      const cssConvention = convention as CssFormattingConvention;
+      const colorCase = cssConvention.colorCase === 'preserve'
+        ? ''
+        : `\n    <option name="HEX_COLOR_${cssConvention.colorCase.toUpperCase()}_CASE" value="true" />`;
+      content = `
+<code_scheme name="${convention.name}">
+  <option name="RIGHT_MARGIN" value="${convention.maxLineLength}" />
+  <CssCodeStyleSettings>
+    <option name="BLANK_LINES_BETWEEN_BLOCKS" value="${cssConvention.blankLinesBetweenRules}" />${colorCase}
+    <option name="USE_DOUBLE_QUOTES" value="${cssConvention.quoteStyle === 'double'}" />
+  </CssCodeStyleSettings>
+  <codeStyleSettings language="CSS">
+    <indentOptions>
+      <option name="INDENT_SIZE" value="${convention.indentSize}" />
+      <option name="TAB_SIZE" value="${convention.indentSize}" />
+      <option name="USE_TAB_CHARACTER" value="${convention.indentationType === 'tab'}" />
+    </indentOptions>
+  </codeStyleSettings>
 </code_scheme>
       `.trim();
     }
@@ -219,8 +385,8 @@ Eclipse 설정 적용 방법:
    * Prettier 설정으로 내보냅니다.
    */
   private static exportToPrettier(convention: FormattingConvention, language: SupportedLanguage): IdeExportResult {
-    if (language !== 'javascript' && language !== 'json') {
-      throw new Error('Prettier는 JavaScript와 JSON만 지원됩니다.');
+    if (!['javascript', 'json', 'yaml', 'xml', 'html', 'css'].includes(language)) {
+      throw new Error('Prettier는 JavaScript, JSON, YAML, XML, HTML, CSS만 지원됩니다.');
     }
 
     const config: any = {
@@ -250,6 +416,45 @@ Eclipse 설정 적용 방법:
       });
     }
 
+    if (language === 'yaml') {
+      const yamlConvention = convention as YamlFormattingConvention;
+      Object.assign(config, {
+        useTabs: false,
+        singleQuote: yamlConvention.quoteStyle === 'single',
+        bracketSpacing: yamlConvention.bracketSpacing
+      });
+    }
+
+    if (language === 'xml' || language === 'html') {
+      const markupConvention = convention as XmlFormattingConvention | HtmlFormattingConvention;
+      Object.assign(config, {
+        bracketSameLine: markupConvention.bracketSameLine,
+        singleAttributePerLine: markupConvention.attributeWrapping === 'always'
+      });
+    }
+
+    if (language === 'html') {
+      Object.assign(config, {
+        parser: "html"
+      });
+    }
+
+    if (language === 'css') {
+      // parser를 지정하지 않아야 .scss, .less 파일에 맞는 파서를 확장자로 고름
+      Object.assign(config, {
+        singleQuote: (convention as CssFormattingConvention).quoteStyle === 'single'
+      });
+    }
+
+    if (language === 'xml') {
+      // XML은 @prettier/plugin-xml이 필요함
+      Object.assign(config, {
+        plugins: ["@prettier/plugin-xml"],
+        parser: "xml",
+        xmlSelfClosingSpace: (convention as XmlFormattingConvention).selfClosingSpace
+      });
+    }
+
     return {
       format: 'prettier',
       filename: '.prettierrc',
@@ -262,7 +467,7 @@ Prettier 설정 적용 방법:
 
 package.json에 추가할 스크립트:
 "scripts": {
-  "format": "prettier --write \"src/**/*.{js,jsx,ts,tsx,json}\""
+  "format": "prettier --write \"src/**/*.{js,jsx,ts,tsx,json,yaml,yml,html,xml,css,scss,less}\""
 }
 
 VS Code에서 자동 포매팅 활성화:
@@ -354,11 +559,135 @@ ESLint 설정 적용 방법:
     };
   }
 
+  /**
+   * Stylelint 설정으로 내보냅니다.
+   * Stylelint 16부터 코드 모양 규칙이 @stylistic/stylelint-plugin으로 옮겨졌으므로 그 규칙 이름을 씁니다.
+   */
+  private static exportToStylelint(convention: FormattingConvention, language: SupportedLanguage): IdeExportResult {
+    if (language !== 'css') {
+      throw new Error('Stylelint는 CSS/SCSS/Less만 지원됩니다.');
+    }
+
+    const cssConvention = convention as CssFormattingConvention;
+    const plugins = ["@stylistic/stylelint-plugin"];
+    const rules: Record<string, unknown> = {
+      "@stylistic/indentation": convention.indentationType === 'tab' ? "tab" : convention.indentSize,
+      "@stylistic/max-line-length": convention.maxLineLength > 0 ? convention.maxLineLength : null,
+      "@stylistic/string-quotes": cssConvention.quoteStyle,
+      "@stylistic/color-hex-case": cssConvention.colorCase === 'preserve' ? null : cssConvention.colorCase,
+      "@stylistic/selector-list-comma-newline-after": cssConvention.selectorPerLine ? "always" : null,
+      "@stylistic/selector-list-comma-space-after": cssConvention.selectorPerLine ? null : "always-single-line",
+      "@stylistic/no-eol-whitespace": convention.trimTrailingWhitespace ? true : null,
+      "@stylistic/no-missing-end-of-source-newline": convention.insertFinalNewline ? true : null,
+      "length-zero-no-unit": cssConvention.removeZeroUnits ? true : null,
+      "function-url-quotes": cssConvention.urlQuotes === 'preserve' ? null : cssConvention.urlQuotes,
+      "rule-empty-line-before": cssConvention.blankLinesBetweenRules > 0
+        ? ["always-multi-line", { "except": ["first-nested"], "ignore": ["after-comment"] }]
+        : ["never-multi-line"]
+    };
+
+    if (cssConvention.propertySort === 'alphabetical') {
+      plugins.push("stylelint-order");
+      rules["order/properties-alphabetical-order"] = true;
+    }
+    if (cssConvention.propertySort === 'grouped') {
+      plugins.push("stylelint-order");
+      rules["order/properties-order"] = [
+        CSS_PROPERTY_GROUPS.map(group => ({ groupName: group.name, properties: group.properties })),
+        { "unspecified": "bottom" }
+      ];
+    }
+
+    const config = {
+      "extends": ["stylelint-config-standard"],
+      "plugins": plugins,
+      "rules": rules
+    };
+
+    return {
+      format: 'stylelint',
+      filename: '.stylelintrc.json',
+      content: JSON.stringify(config, null, 2),
+      instructions: `
+Stylelint 설정 적용 방법:
+1. 프로젝트에 Stylelint와 플러그인을 설치합니다:
+   npm install --save-dev stylelint stylelint-config-standard ${plugins.join(' ')}
+   (SCSS는 stylelint-config-standard-scss, Less는 postcss-less도 설치합니다.)
+
+2. 프로젝트 루트에 .stylelintrc.json 파일을 생성하고 설정을 저장합니다.
+
+3. package.json에 스크립트를 추가합니다:
+   "scripts": {
+     "lint:css": "stylelint \"src/**/*.{css,scss,less}\"",
+     "lint:css:fix": "stylelint \"src/**/*.{css,scss,less}\" --fix"
+   }
+
+4. VS Code Stylelint 확장을 설치하면 실시간으로 린팅이 적용됩니다.
+      `.trim()
+    };
+  }
+
+  /**
+   * pyproject.toml의 Black, isort 설정으로 내보냅니다.
+   * Black은 작은따옴표로 바꾸는 옵션이 없으므로 큰따옴표가 아니면 따옴표 정규화를 끕니다.
+   */
+  private static exportToPyproject(convention: FormattingConvention, language: SupportedLanguage): IdeExportResult {
+    if (language !== 'python') {
+      throw new Error('pyproject.toml은 Python만 지원됩니다.');
+    }
+
+    const pythonConvention = convention as PythonFormattingConvention;
+    const content = `
+[tool.black]
+line-length = ${convention.maxLineLength}
+skip-string-normalization = ${pythonConvention.quoteStyle !== 'double'}
+skip-magic-trailing-comma = ${!pythonConvention.magicTrailingComma}
+
+[tool.isort]
+profile = "black"
+line_length = ${convention.maxLineLength}
+multi_line_output = 3
+include_trailing_comma = true
+force_grid_wrap = 0
+use_parentheses = true
+ensure_newline_before_comments = true
+force_sort_within_sections = ${pythonConvention.forceSortWithinSections}
+    `.trim();
+
+    return {
+      format: 'pyproject',
+      filename: 'pyproject.toml',
+      content,
+      instructions: `
+pyproject.toml 설정 적용 방법:
+1. 프로젝트에 Black과 isort를 설치합니다:
+   pip install black isort
+
+2. 프로젝트 루트의 pyproject.toml에 생성된 [tool.black], [tool.isort] 섹션을 추가합니다.
+   (파일에 같은 섹션이 있으면 그 섹션의 값을 바꿉니다.)
+
+3. 포매팅을 실행합니다:
+   isort . && black .
+
+4. VS Code에서는 "Black Formatter"와 "isort" 확장을 설치하면 저장할 때 적용됩니다.
+
+참고: Black은 공백 4칸 들여쓰기와 def/class 사이 빈 줄(최상위 2줄, 메서드 1줄)을 바꿀 수 없고,
+import 정렬은 isort가 맡습니다. 그 밖의 들여쓰기 설정은 .editorconfig로 내보내세요.
+${pythonConvention.sortImports ? '' : '\n이 컨벤션은 import를 정렬하지 않으므로 [tool.isort] 섹션과 isort 실행은 빼도 됩니다.'}
+      `.trim()
+    };
+  }
+
   /**
    * EditorConfig 설정으로 내보냅니다.
    */
   private static exportToEditorConfig(convention: FormattingConvention, language: SupportedLanguage): IdeExportResult {
     const fileExtensions = this.getFileExtensions(language);
+    // EditorConfig 글롭에서 항목이 하나뿐인 {go}는 중괄호 문자 그대로 해석됨
+    const fileGlob = fileExtensions.length === 1 ? `*.${fileExtensions[0]}` : `*.{${fileExtensions.join(',')}}`;
+    const languageProperties = language === 'csharp'
+      ? `\n\n${this.getDotnetEditorConfigProperties(convention as CSharpFormattingConvention)}`
+      : '';
     
     const content = `
 # EditorConfig is awesome: https://EditorConfig.org
@@ -374,10 +703,10 @@ insert_final_newline = ${convention.insertFinalNewline}
 trim_trailing_whitespace = ${convention.trimTrailingWhitespace}
 
 # ${language} 파일 설정
-[*.{${fileExtensions.join(',')}}]
-indent_style = ${convention.indentationType}
+[${fileGlob}]
+indent_style = ${language === 'yaml' ? 'space' : convention.indentationType}
 indent_size = ${convention.indentSize}
-max_line_length = ${convention.maxLineLength}
+max_line_length = ${convention.maxLineLength > 0 ? convention.maxLineLength : 'off'}${languageProperties}
     `.trim();
 
     return {
@@ -404,23 +733,31 @@ VS Code에서 확장 기능이 필요한 경우:
   }
 
   /**
-   * 언어별 파일 확장자를 반환합니다.
+   * .NET 코드 스타일 규칙(dotnet_*, csharp_*)을 .editorconfig 속성으로 변환합니다.
    */
-  private static getFileExtensions(language: SupportedLanguage): string[] {
-    switch (language) {
-      case 'java':
-        return ['java'];
-      case 'json':
-        return ['json', 'jsonc'];
-      case 'javascript':
-        return ['js', 'jsx', 'ts', 'tsx', 'mjs'];
-      case 'kotlin':
-        return ['kt', 'kts'];
-      case 'sql':
-        return ['sql', 'mysql', 'pgsql', 'plsql'];
-      default:
-        return [];
-    }
+  private static getDotnetEditorConfigProperties(convention: CSharpFormattingConvention): string {
+    return `
+# .NET 코드 스타일
+dotnet_sort_system_directives_first = ${convention.systemUsingsFirst}
+dotnet_separate_import_directive_groups = ${convention.separateImportGroups}
+csharp_new_line_before_open_brace = ${convention.braceStyle === 'kr' ? 'none' : 'all'}
+csharp_new_line_before_else = ${convention.braceStyle !== 'kr'}
+csharp_new_line_before_catch = ${convention.braceStyle !== 'kr'}
+csharp_new_line_before_finally = ${convention.braceStyle !== 'kr'}
+csharp_indent_case_contents = true
+csharp_indent_switch_labels = true
+csharp_space_after_keywords_in_control_flow_statements = ${convention.spaceBeforeControlParens}
+csharp_space_between_method_declaration_name_and_open_parenthesis = ${convention.spaceBeforeMethodParens}
+csharp_space_between_method_call_name_and_opening_parenthesis = ${convention.spaceBeforeMethodParens}
+csharp_space_around_binary_operators = ${convention.spaceAroundOperators ? 'before_and_after' : 'ignore'}
+    `.trim();
+  }
+
+  /**
+   * 언어별 파일 확장자를 반환합니다. (첫 번째가 대표 확장자)
+   */
+  public static getFileExtensions(language: SupportedLanguage): string[] {
+    return LanguageRegistry.get(language)?.extensions ?? [];
   }
 
   /**
@@ -432,10 +769,26 @@ VS Code에서 확장 기능이 필요한 경우:
         return 'java';
       case 'json':
         return 'json';
+      case 'yaml':
+        return 'yaml';
+      case 'xml':
+        return 'xml';
+      case 'html':
+        return 'html';
+      case 'css':
+        return 'css';
+      case 'python':
+        return 'python';
       case 'javascript':
         return 'javascript';
       case 'kotlin':
         return 'kotlin';
+      case 'go':
+        return 'go';
+      case 'rust':
+        return 'rust';
+      case 'csharp':
+        return 'csharp';
       case 'sql':
         return 'sql';
       default:
@@ -454,11 +807,45 @@ VS Code에서 확장 기능이 필요한 경우:
         return 'JavaScript';
       case 'kotlin':
         return 'Kotlin';
+      case 'go':
+        return 'go';
+      case 'rust':
+        return 'Rust';
+      case 'csharp':
+        return 'C#';
       default:
         return language.toUpperCase();
     }
   }
 
+  /**
+   * IntelliJ 줄바꿈 방식 값을 반환합니다. (0: 안 함, 1: 필요할 때, 2: 항상)
+   */
+  private static getIntelliJWrapType(wrapping: AttributeWrapping): number {
+    switch (wrapping) {
+      case 'never':
+        return 0;
+      case 'always':
+        return 2;
+      default:
+        return 1;
+    }
+  }
+
+  /**
+   * VS Code html.format.wrapAttributes 값을 반환합니다.
+   */
+  private static getVsCodeHtmlWrapAttributes(convention: HtmlFormattingConvention): string {
+    switch (convention.attributeWrapping) {
+      case 'never':
+        return 'preserve';
+      case 'always':
+        return convention.firstAttributeOnTagLine ? 'force' : 'force-expand-multiline';
+      default:
+        return 'auto';
+    }
+  }
+
   /**
    * IntelliJ 중괄호 스타일을 반환합니다.
    */
@@ -481,21 +868,6 @@ VS Code에서 확장 기능이 필요한 경우:
    * 모든 지원되는 IDE 형식 목록을 반환합니다.
    */
   public static getSupportedFormats(language: SupportedLanguage): IdeExportFormat[] {
-    const commonFormats: IdeExportFormat[] = ['vscode', 'editorconfig'];
-    
-    switch (language) {
-      case 'java':
-        return [...commonFormats, 'intellij', 'eclipse'];
-      case 'javascript':
-        return [...commonFormats, 'intellij', 'prettier', 'eslint'];
-      case 'kotlin':
-        return [...commonFormats, 'intellij'];
-      case 'json':
-        return [...commonFormats, 'prettier'];
-      case 'sql':
-        return [...commonFormats, 'intellij'];
-      default:
-        return commonFormats;
-    }
+    return LanguageRegistry.get(language)?.exportFormats ?? ['vscode', 'editorconfig'];
   }
 }
\ No newline at end of file
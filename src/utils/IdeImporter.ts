@@ -0,0 +1,827 @@
+/**
+ * IDE 설정 파일 가져오기 유틸리티
+ * .editorconfig, .prettierrc, .eslintrc, IntelliJ 코드 스타일 XML, Eclipse 포매터 프로필을 읽어
+ * 같은 결과를 내는 포매팅 컨벤션을 만듭니다. 대응하는 필드가 없는 설정은 경고로 보고합니다.
+ */
+
+import {
+  FormattingConvention,
+  IdeImportFormat,
+  IdeImportOptions,
+  IdeImportResult,
+  SupportedLanguage
+} from '../types/FormattingTypes';
+import { LanguageRegistry } from '../services/LanguageRegistry';
+import { IdeExporter } from './IdeExporter';
+import { GlobMatcher } from './GlobMatcher';
+import { PresetValidator } from './PresetValidator';
+import { YamlConfigParser } from './YamlConfigParser';
+
+/**
+ * 설정 파일에서 읽은 값 하나
+ */
+interface ImportedSetting {
+  /** 설정 파일의 키 (경고 메시지에 사용) */
+  source: string;
+  /** 값을 넣을 컨벤션 필드 후보 (언어 스키마에 있는 첫 필드에 적용) */
+  fields: string[];
+  /** 컨벤션 필드 값 */
+  value: unknown;
+}
+
+/**
+ * 형식별 파서 결과
+ */
+interface ParsedConfig {
+  /** 설정 파일에서 추론한 언어 */
+  language?: SupportedLanguage;
+  settings: ImportedSetting[];
+  warnings: string[];
+}
+
+export class IdeImporter {
+  /** IntelliJ 중괄호 스타일 값 (IDE가 저장한 XML은 숫자 값을 씀) */
+  private static readonly INTELLIJ_BRACE_STYLES: Record<string, string> = {
+    END_OF_LINE: 'kr',
+    NEXT_LINE: 'allman',
+    NEXT_LINE_SHIFTED: 'gnu',
+    NEXT_LINE_SHIFTED2: 'gnu',
+    NEXT_LINE_IF_WRAPPED: 'horstmann',
+    1: 'kr',
+    2: 'allman',
+    3: 'gnu',
+    4: 'gnu',
+    5: 'horstmann'
+  };
+
+  /** Eclipse 중괄호 위치 값 */
+  private static readonly ECLIPSE_BRACE_STYLES: Record<string, string> = {
+    end_of_line: 'kr',
+    next_line: 'allman',
+    next_line_shifted: 'gnu',
+    next_line_on_wrap: 'horstmann'
+  };
+
+  /** IntelliJ 언어 섹션 태그 */
+  private static readonly INTELLIJ_LANGUAGE_TAGS: Record<string, SupportedLanguage> = {
+    JAVA: 'java',
+    JavaCodeStyleSettings: 'java',
+    Kotlin: 'kotlin',
+    kotlin: 'kotlin',
+    JetCodeStyleSettings: 'kotlin',
+    go: 'go',
+    GoCodeStyleSettings: 'go',
+    Rust: 'rust',
+    'C#': 'csharp',
+    JavaScript: 'javascript',
+    TypeScript: 'javascript',
+    JSCodeStyleSettings: 'javascript',
+    TypeScriptCodeStyleSettings: 'javascript',
+    JSON: 'json',
+    JsonCodeStyleSettings: 'json',
+    SQL: 'sql',
+    SqlCodeStyleSettings: 'sql',
+    XML: 'xml',
+    HTML: 'html',
+    HTMLCodeStyleSettings: 'html',
+    CSS: 'css',
+    CssCodeStyleSettings: 'css',
+    SCSS: 'css',
+    LESS: 'css'
+  };
+
+  /**
+   * 설정 파일을 컨벤션으로 가져옵니다.
+   * @param content 설정 파일 내용
+   * @param options 가져오기 옵션
+   * @returns 가져온 컨벤션과 경고
+   * @throws 지원하지 않는 형식이거나 파일을 읽을 수 없으면 Error
+   */
+  public static importConfig(content: string, options: IdeImportOptions): IdeImportResult {
+    const format = this.detectFormat(options.filename, content);
+    let parsed: ParsedConfig;
+
+    switch (format) {
+      case 'editorconfig':
+        parsed = this.parseEditorConfig(content, options);
+        break;
+      case 'prettier':
+        parsed = this.parsePrettier(content, options);
+        break;
+      case 'eslint':
+        parsed = this.parseEslint(content, options);
+        break;
+      case 'intellij':
+        parsed = this.parseIntelliJ(content, options);
+        break;
+      case 'eclipse':
+        parsed = this.parseEclipse(content, options);
+        break;
+      default:
+        throw new Error(`지원되지 않는 설정 파일 형식: ${format}`);
+    }
+
+    const language = options.language ?? parsed.language;
+    if (!language) {
+      throw new Error(`${options.filename}에서 언어를 추론할 수 없습니다. 언어를 지정해주세요.`);
+    }
+
+    const built = this.buildConvention(language, parsed, options);
+    return {
+      format,
+      language,
+      convention: built.convention,
+      appliedFields: built.appliedFields,
+      warnings: [...parsed.warnings, ...built.warnings]
+    };
+  }
+
+  /**
+   * 파일 이름과 내용으로 설정 파일 형식을 판별합니다.
+   */
+  public static detectFormat(filename: string, content: string): IdeImportFormat {
+    const basename = filename.replace(/\\/g, '/').split('/').pop()!.toLowerCase();
+
+    if (basename === '.editorconfig') {
+      return 'editorconfig';
+    }
+    if (basename.startsWith('.prettierrc') || basename === 'package.json') {
+      return 'prettier';
+    }
+    if (basename.startsWith('.eslintrc')) {
+      return 'eslint';
+    }
+    if (basename.endsWith('.xml') || content.trimStart().startsWith('<')) {
+      if (/<profiles[\s>]/.test(content)) {
+        return 'eclipse';
+      }
+      if (/<code_scheme[\s>]/.test(content)) {
+        return 'intellij';
+      }
+    }
+    if (/^(prettier\.config|\.prettierrc)\.(c|m)?js$/.test(basename) || /^eslint\.config\./.test(basename)) {
+      throw new Error(`${filename}: 자바스크립트 설정 파일은 실행해야 읽을 수 있어 지원하지 않습니다. JSON 또는 YAML 형식으로 변환해주세요.`);
+    }
+
+    throw new Error(`${filename}: 인식할 수 없는 설정 파일입니다.`);
+  }
+
+  /**
+   * 기준 컨벤션에 읽은 값을 적용하고, 언어에 없는 필드나 허용되지 않는 값은 경고로 남깁니다.
+   */
+  private static buildConvention(
+    language: SupportedLanguage,
+    parsed: ParsedConfig,
+    options: IdeImportOptions
+  ): { convention: FormattingConvention; appliedFields: string[]; warnings: string[] } {
+    const plugin = LanguageRegistry.require(language);
+    const base = options.baseConvention ?? plugin.presets[0].convention;
+    const schema = plugin.conventionSchema;
+    const convention: Record<string, unknown> = { ...base };
+    const applied = new Map<string, string>();
+    const warnings: string[] = [];
+
+    for (const setting of parsed.settings) {
+      const field = setting.fields.find(candidate => candidate in schema);
+      if (!field) {
+        warnings.push(`'${setting.source}' 설정에 해당하는 필드가 ${language} 컨벤션에 없어 무시했습니다.`);
+        continue;
+      }
+      convention[field] = setting.value;
+      applied.set(field, setting.source);
+    }
+
+    // 범위를 벗어나거나 허용되지 않는 값은 기준 컨벤션 값으로 되돌림
+    for (const error of PresetValidator.validateConvention(language, convention, '')) {
+      const field = error.path.slice(1);
+      if (applied.has(field)) {
+        warnings.push(`'${applied.get(field)}' 값을 적용할 수 없습니다: ${error.message}`);
+        convention[field] = (base as unknown as Record<string, unknown>)[field];
+        applied.delete(field);
+      }
+    }
+
+    const basename = options.filename.replace(/\\/g, '/').split('/').pop();
+    convention.name = `${basename}에서 가져온 컨벤션`;
+    convention.description = `${basename} 설정을 ${base.name} 위에 적용한 컨벤션`;
+
+    return {
+      convention: convention as unknown as FormattingConvention,
+      appliedFields: Array.from(applied.keys()),
+      warnings
+    };
+  }
+
+  // ───────────────────────── EditorConfig ─────────────────────────
+
+  /**
+   * .editorconfig를 읽습니다. 대상 파일과 일치하는 섹션을 순서대로 적용합니다.
+   */
+  private static parseEditorConfig(content: string, options: IdeImportOptions): ParsedConfig {
+    const sections: { glob: string; properties: [string, string, number][] }[] = [];
+    let current: { glob: string; properties: [string, string, number][] } | null = null;
+
+    content.split(/\r?\n/).forEach((raw, index) => {
+      const line = raw.trim();
+      if (line === '' || line.startsWith('#') || line.startsWith(';')) {
+        return;
+      }
+      const section = line.match(/^\[(.*)\]$/);
+      if (section) {
+        current = { glob: section[1], properties: [] };
+        sections.push(current);
+        return;
+      }
+      const property = line.match(/^([^=:]+?)\s*[=:]\s*(.*)$/);
+      if (property && current) {
+        current.properties.push([property[1].toLowerCase(), property[2].trim(), index + 1]);
+      }
+    });
+
+    const language = options.language ?? this.inferEditorConfigLanguage(sections.map(section => section.glob));
+    const targetPath = options.targetPath ?? (language ? `example.${IdeExporter.getFileExtensions(language)[0]}` : undefined);
+    if (!targetPath) {
+      return { settings: [], warnings: [] };
+    }
+
+    // 나중 섹션이 앞 섹션을 덮어씀
+    const properties = new Map<string, { value: string; line: number }>();
+    for (const section of sections) {
+      if (GlobMatcher.matches(section.glob, targetPath)) {
+        for (const [key, value, line] of section.properties) {
+          properties.set(key, { value, line });
+        }
+      }
+    }
+
+    const settings: ImportedSetting[] = [];
+    const warnings: string[] = [];
+    const indentStyle = properties.get('indent_style')?.value.toLowerCase();
+    const tabWidth = properties.get('tab_width')?.value;
+
+    properties.forEach(({ value: rawValue }, key) => {
+      const value = rawValue.toLowerCase();
+      if (value === 'unset') {
+        return;
+      }
+
+      switch (key) {
+        case 'indent_style':
+          settings.push({ source: key, fields: ['indentationType'], value });
+          break;
+        case 'indent_size':
+          settings.push({
+            source: key,
+            fields: ['indentSize'],
+            value: value === 'tab' ? Number(tabWidth ?? 4) : Number(value)
+          });
+          break;
+        case 'tab_width':
+          // 탭 들여쓰기에서 indent_size가 없으면 탭 너비를 들여쓰기 크기로 사용
+          if (indentStyle === 'tab' && !properties.has('indent_size')) {
+            settings.push({ source: key, fields: ['indentSize'], value: Number(value) });
+          }
+          break;
+        case 'max_line_length':
+          settings.push({ source: key, fields: ['maxLineLength'], value: value === 'off' ? 0 : Number(value) });
+          break;
+        case 'insert_final_newline':
+          settings.push({ source: key, fields: ['insertFinalNewline'], value: value === 'true' });
+          break;
+        case 'trim_trailing_whitespace':
+          settings.push({ source: key, fields: ['trimTrailingWhitespace'], value: value === 'true' });
+          break;
+        case 'dotnet_sort_system_directives_first':
+          settings.push({ source: key, fields: ['systemUsingsFirst'], value: value === 'true' });
+          break;
+        case 'dotnet_separate_import_directive_groups':
+          settings.push({ source: key, fields: ['separateImportGroups'], value: value === 'true' });
+          break;
+        case 'csharp_new_line_before_open_brace':
+          settings.push({ source: key, fields: ['braceStyle'], value: value === 'none' ? 'kr' : 'allman' });
+          break;
+        case 'csharp_space_after_keywords_in_control_flow_statements':
+          settings.push({ source: key, fields: ['spaceBeforeControlParens'], value: value === 'true' });
+          break;
+        case 'csharp_space_between_method_declaration_name_and_open_parenthesis':
+          settings.push({ source: key, fields: ['spaceBeforeMethodParens'], value: value === 'true' });
+          break;
+        case 'csharp_space_around_binary_operators':
+          settings.push({ source: key, fields: ['spaceAroundOperators'], value: value === 'before_and_after' });
+          break;
+        default:
+          warnings.push(`'${key}' 설정은 대응하는 컨벤션 필드가 없어 무시했습니다.`);
+      }
+    });
+
+    return { language, settings, warnings };
+  }
+
+  /**
+   * 섹션 글롭이 가리키는 언어를 추론합니다. ([*] 같은 전체 섹션은 제외)
+   */
+  private static inferEditorConfigLanguage(globs: string[]): SupportedLanguage | undefined {
+    const specificGlobs = globs.filter(glob => glob !== '*' && glob !== '**');
+    return LanguageRegistry.getAll().find(plugin =>
+      plugin.extensions.some(extension =>
+        specificGlobs.some(glob => GlobMatcher.matches(glob, `example.${extension}`))
+      )
+    )?.id;
+  }
+
+  // ───────────────────────── Prettier ─────────────────────────
+
+  /**
+   * .prettierrc(JSON/YAML) 또는 package.json의 prettier 항목을 읽습니다.
+   */
+  private static parsePrettier(content: string, options: IdeImportOptions): ParsedConfig {
+    let config = this.parseJsonOrYaml(content, options.filename);
+    if (options.filename.replace(/\\/g, '/').split('/').pop() === 'package.json') {
+      config = PresetValidator.isObject(config) ? config.prettier : undefined;
+    }
+    if (typeof config === 'string') {
+      throw new Error(`${options.filename}: 공유 설정 패키지('${config}')는 가져올 수 없습니다.`);
+    }
+    if (!PresetValidator.isObject(config)) {
+      throw new Error(`${options.filename}: Prettier 설정 객체가 없습니다.`);
+    }
+
+    const language = options.language ?? this.inferPrettierLanguage(config.parser);
+    const targetPath = options.targetPath ?? `example.${IdeExporter.getFileExtensions(language)[0]}`;
+    const merged: Record<string, unknown> = { ...config };
+    delete merged.overrides;
+
+    if (Array.isArray(config.overrides)) {
+      for (const override of config.overrides) {
+        if (!PresetValidator.isObject(override) || !PresetValidator.isObject(override.options)) {
+          continue;
+        }
+        const files = ([] as unknown[]).concat(override.files ?? []).map(String);
+        const excluded = ([] as unknown[]).concat(override.excludeFiles ?? []).map(String);
+        if (files.some(glob => GlobMatcher.matches(glob, targetPath)) &&
+          !excluded.some(glob => GlobMatcher.matches(glob, targetPath))) {
+          Object.assign(merged, override.options);
+        }
+      }
+    }
+
+    const settings: ImportedSetting[] = [];
+    const warnings: string[] = [];
+
+    for (const [key, value] of Object.entries(merged)) {
+      switch (key) {
+        case 'printWidth':
+          settings.push({ source: key, fields: ['maxLineLength'], value });
+          break;
+        case 'tabWidth':
+          settings.push({ source: key, fields: ['indentSize'], value });
+          break;
+        case 'useTabs':
+          settings.push({ source: key, fields: ['indentationType'], value: value ? 'tab' : 'space' });
+          break;
+        case 'semi':
+          settings.push({ source: key, fields: ['useSemicolons'], value });
+          break;
+        case 'singleQuote':
+          settings.push({ source: key, fields: ['quoteStyle'], value: value ? 'single' : 'double' });
+          break;
+        case 'jsxSingleQuote':
+          settings.push({ source: key, fields: ['jsxQuoteStyle'], value: value ? 'single' : 'double' });
+          break;
+        case 'trailingComma':
+          settings.push({ source: key, fields: ['trailingComma'], value: language === 'json' ? value !== 'none' : value });
+          break;
+        case 'arrowParens':
+          settings.push({ source: key, fields: ['arrowParens'], value });
+          break;
+        case 'bracketSpacing':
+          settings.push({ source: key, fields: ['spaceInObjectBraces', 'bracketSpacing'], value });
+          break;
+        case 'bracketSameLine':
+        case 'jsxBracketSameLine':
+          settings.push({ source: key, fields: ['jsxBracketSameLine', 'bracketSameLine'], value });
+          break;
+        case 'singleAttributePerLine':
+          settings.push({ source: key, fields: ['attributeWrapping'], value: value ? 'always' : 'auto' });
+          break;
+        case 'xmlSelfClosingSpace':
+          settings.push({ source: key, fields: ['selfClosingSpace'], value });
+          break;
+        case 'parser':
+        case 'plugins':
+        case '$schema':
+          break;
+        default:
+          warnings.push(`'${key}' 설정은 대응하는 컨벤션 필드가 없어 무시했습니다.`);
+      }
+    }
+
+    return { language, settings, warnings };
+  }
+
+  /**
+   * Prettier parser 옵션이 가리키는 언어를 추론합니다. (없으면 JavaScript)
+   */
+  private static inferPrettierLanguage(parser: unknown): SupportedLanguage {
+    switch (parser) {
+      case 'json':
+      case 'json5':
+        return 'json';
+      case 'yaml':
+      case 'xml':
+      case 'html':
+        return parser;
+      case 'css':
+      case 'scss':
+      case 'less':
+        return 'css';
+      default:
+        return 'javascript';
+    }
+  }
+
+  // ───────────────────────── ESLint ─────────────────────────
+
+  /**
+   * .eslintrc(.json/.yaml)의 서식 관련 규칙을 읽습니다.
+   */
+  private static parseEslint(content: string, options: IdeImportOptions): ParsedConfig {
+    const config = this.parseJsonOrYaml(content, options.filename);
+    if (!PresetValidator.isObject(config)) {
+      throw new Error(`${options.filename}: ESLint 설정 객체가 없습니다.`);
+    }
+
+    const settings: ImportedSetting[] = [];
+    const warnings: string[] = [];
+
+    if (config.extends !== undefined) {
+      warnings.push(`확장 설정(extends: ${([] as unknown[]).concat(config.extends).join(', ')})의 규칙은 가져오지 않았습니다.`);
+    }
+    if (config.overrides !== undefined) {
+      warnings.push('overrides의 규칙은 가져오지 않았습니다.');
+    }
+
+    const rules = PresetValidator.isObject(config.rules) ? config.rules : {};
+    for (const [name, entry] of Object.entries(rules)) {
+      const rule = name.replace(/^@stylistic\/(js\/|ts\/|jsx\/)?/, '');
+      const [severity, ...ruleOptions] = Array.isArray(entry) ? entry : [entry];
+      if (severity === 'off' || severity === 0) {
+        warnings.push(`'${name}' 규칙이 꺼져 있어 적용하지 않았습니다.`);
+        continue;
+      }
+
+      const option = ruleOptions[0];
+      const setting = this.mapEslintRule(name, rule, option);
+      if (setting === null) {
+        warnings.push(`'${name}' 규칙은 대응하는 컨벤션 필드가 없어 무시했습니다.`);
+      } else if (typeof setting === 'string') {
+        warnings.push(setting);
+      } else {
+        settings.push(...setting);
+      }
+    }
+
+    return { language: 'javascript', settings, warnings };
+  }
+
+  /**
+   * ESLint 규칙 하나를 컨벤션 값으로 변환합니다.
+   * @returns 변환된 값, 적용할 수 없는 이유(문자열), 또는 대응 필드 없음(null)
+   */
+  private static mapEslintRule(source: string, rule: string, option: unknown): ImportedSetting[] | string | null {
+    const always = (value: unknown, fallback: boolean) => (value === undefined ? fallback : value === 'always');
+
+    switch (rule) {
+      case 'indent':
+        return option === 'tab'
+          ? [{ source, fields: ['indentationType'], value: 'tab' }]
+          : [
+            { source, fields: ['indentationType'], value: 'space' },
+            { source, fields: ['indentSize'], value: option ?? 4 }
+          ];
+      case 'quotes':
+        if (option === 'backtick') {
+          return `'${source}': 백틱 따옴표는 지원하지 않습니다.`;
+        }
+        return [{ source, fields: ['quoteStyle'], value: option ?? 'double' }];
+      case 'semi':
+        return [{ source, fields: ['useSemicolons'], value: always(option, true) }];
+      case 'comma-dangle':
+        return [{ source, fields: ['trailingComma'], value: this.mapEslintCommaDangle(option) }];
+      case 'max-len': {
+        const code = PresetValidator.isObject(option) ? option.code : option;
+        return [{ source, fields: ['maxLineLength'], value: code ?? 80 }];
+      }
+      case 'space-before-function-paren': {
+        const named = PresetValidator.isObject(option) ? option.named : option;
+        return [{ source, fields: ['spaceBeforeFunctionParens'], value: always(named, true) }];
+      }
+      case 'object-curly-spacing':
+        return [{ source, fields: ['spaceInObjectBraces'], value: always(option, false) }];
+      case 'array-bracket-spacing':
+        return [{ source, fields: ['spaceInArrayBrackets'], value: always(option, false) }];
+      case 'brace-style':
+        if (option === 'allman') {
+          return [{ source, fields: ['braceStyle'], value: 'allman' }];
+        }
+        return [{ source, fields: ['braceStyle'], value: 'kr' }];
+      case 'jsx-quotes':
+        return [{ source, fields: ['jsxQuoteStyle'], value: option === 'prefer-single' ? 'single' : 'double' }];
+      case 'eol-last':
+        return [{ source, fields: ['insertFinalNewline'], value: option !== 'never' }];
+      case 'no-trailing-spaces':
+        return [{ source, fields: ['trimTrailingWhitespace'], value: true }];
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * comma-dangle 옵션을 trailingComma 값으로 변환합니다.
+   */
+  private static mapEslintCommaDangle(option: unknown): string {
+    if (PresetValidator.isObject(option)) {
+      const enabled = (value: unknown) => typeof value === 'string' && value !== 'never';
+      if (enabled(option.functions)) return 'all';
+      if (enabled(option.arrays) || enabled(option.objects)) return 'es5';
+      return 'none';
+    }
+    switch (option) {
+      case undefined:
+      case 'never':
+      case 'none':
+        return 'none';
+      case 'es5':
+        return 'es5';
+      default:
+        return 'all';
+    }
+  }
+
+  // ───────────────────────── IntelliJ ─────────────────────────
+
+  /**
+   * IntelliJ 코드 스타일 XML을 읽습니다. 언어 섹션 밖의 옵션은 모든 언어에 적용됩니다.
+   */
+  private static parseIntelliJ(content: string, options: IdeImportOptions): ParsedConfig {
+    const found: { name: string; value: string; language?: SupportedLanguage }[] = [];
+    const stack: (SupportedLanguage | undefined)[] = [];
+    const tagPattern = /<(\/?)([\w.:-]+)((?:\s+[\w.:-]+\s*=\s*"[^"]*")*)\s*(\/?)>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(content)) !== null) {
+      const [, closing, tag, attributeText, selfClosing] = match;
+      if (closing) {
+        stack.pop();
+        continue;
+      }
+
+      const attributes = this.parseXmlAttributes(attributeText);
+      const parentLanguage = [...stack].reverse().find(language => language !== undefined);
+      const language = this.INTELLIJ_LANGUAGE_TAGS[tag] ??
+        (attributes.language ? this.INTELLIJ_LANGUAGE_TAGS[attributes.language] : undefined) ??
+        parentLanguage;
+
+      if (tag === 'option' && attributes.name !== undefined && attributes.value !== undefined) {
+        found.push({ name: attributes.name, value: attributes.value, language });
+      }
+      if (!selfClosing) {
+        stack.push(language);
+      }
+    }
+
+    const language = options.language ?? found.find(option => option.language)?.language;
+    const settings: ImportedSetting[] = [];
+    const warnings: string[] = [];
+
+    // 전체 옵션을 먼저, 언어 옵션을 나중에 적용
+    const relevant = [
+      ...found.filter(option => option.language === undefined),
+      ...found.filter(option => option.language !== undefined && option.language === language)
+    ];
+    for (const option of relevant) {
+      const setting = this.mapIntelliJOption(option.name, option.value);
+      if (setting) {
+        settings.push(setting);
+      } else {
+        warnings.push(`'${option.name}' 설정은 대응하는 컨벤션 필드가 없어 무시했습니다.`);
+      }
+    }
+
+    return { language, settings, warnings };
+  }
+
+  private static mapIntelliJOption(name: string, value: string): ImportedSetting | null {
+    const source = name;
+    const bool = value === 'true';
+
+    switch (name) {
+      case 'RIGHT_MARGIN':
+        return { source, fields: ['maxLineLength'], value: Number(value) };
+      case 'INDENT_SIZE':
+        return { source, fields: ['indentSize'], value: Number(value) };
+      case 'USE_TAB_CHARACTER':
+        return { source, fields: ['indentationType'], value: bool ? 'tab' : 'space' };
+      case 'BRACE_STYLE':
+      case 'CLASS_BRACE_STYLE':
+      case 'METHOD_BRACE_STYLE':
+        return { source, fields: ['braceStyle'], value: this.INTELLIJ_BRACE_STYLES[value] ?? value };
+      case 'SPACE_BEFORE_METHOD_PARENTHESES':
+        return { source, fields: ['spaceBeforeMethodParens', 'spaceBeforeFunctionParens'], value: bool };
+      case 'SPACE_BEFORE_IF_PARENTHESES':
+      case 'SPACE_BEFORE_FOR_PARENTHESES':
+      case 'SPACE_BEFORE_WHILE_PARENTHESES':
+        return { source, fields: ['spaceBeforeControlParens'], value: bool };
+      case 'SPACE_AROUND_ASSIGNMENT_OPERATORS':
+      case 'SPACE_AROUND_LOGICAL_OPERATORS':
+      case 'SPACE_AROUND_EQUALITY_OPERATORS':
+      case 'SPACE_AROUND_RELATIONAL_OPERATORS':
+      case 'SPACE_AROUND_ADDITIVE_OPERATORS':
+      case 'SPACE_AROUND_MULTIPLICATIVE_OPERATORS':
+        return { source, fields: ['spaceAroundOperators'], value: bool };
+      case 'BLANK_LINES_AROUND_METHOD':
+        return { source, fields: ['blankLinesBetweenMethods'], value: Number(value) };
+      case 'BLANK_LINES_AROUND_CLASS':
+        return { source, fields: ['blankLinesBetweenClasses'], value: Number(value) };
+      case 'BLANK_LINES_BETWEEN_IMPORTS':
+        return { source, fields: ['separateImportGroups'], value: Number(value) > 0 };
+      case 'SPACE_BEFORE_TYPE_COLON':
+      case 'SPACE_AFTER_TYPE_COLON':
+        return { source, fields: ['spaceAroundTypeColon'], value: bool };
+      case 'USE_SEMICOLON_AFTER_STATEMENT':
+        return { source, fields: ['useSemicolons'], value: bool };
+      case 'USE_DOUBLE_QUOTES':
+        return { source, fields: ['quoteStyle'], value: bool ? 'double' : 'single' };
+      case 'SPACES_WITHIN_OBJECT_LITERAL_BRACES':
+        return { source, fields: ['spaceInObjectBraces'], value: bool };
+      case 'SPACE_WITHIN_ARRAY_INITIALIZER_BRACKETS':
+        return { source, fields: ['spaceInArrayBrackets'], value: bool };
+      case 'XML_ATTRIBUTE_WRAP':
+      case 'HTML_ATTRIBUTE_WRAP':
+        return { source, fields: ['attributeWrapping'], value: value === '0' ? 'never' : value === '1' ? 'auto' : 'always' };
+      case 'HEX_COLOR_LOWER_CASE':
+        return { source, fields: ['colorCase'], value: bool ? 'lower' : 'preserve' };
+      case 'HEX_COLOR_UPPER_CASE':
+        return { source, fields: ['colorCase'], value: bool ? 'upper' : 'preserve' };
+      case 'BLANK_LINES_BETWEEN_BLOCKS':
+        return { source, fields: ['blankLinesBetweenRules'], value: Number(value) };
+      case 'XML_SPACE_INSIDE_EMPTY_TAG':
+      case 'HTML_SPACE_INSIDE_EMPTY_TAG':
+        return { source, fields: ['selfClosingSpace'], value: bool };
+      default:
+        return null;
+    }
+  }
+
+  // ───────────────────────── Eclipse ─────────────────────────
+
+  /**
+   * Eclipse 포매터 프로필 XML을 읽습니다. 프로필이 여러 개면 첫 번째를 사용합니다.
+   */
+  private static parseEclipse(content: string, options: IdeImportOptions): ParsedConfig {
+    const warnings: string[] = [];
+    const profiles = content.match(/<profile\b[\s\S]*?<\/profile>/g) ?? [content];
+    if (profiles.length > 1) {
+      const name = this.parseXmlAttributes(profiles[0].match(/<profile\b([^>]*)>/)?.[1] ?? '').name;
+      warnings.push(`프로필이 ${profiles.length}개 있어 첫 번째 프로필('${name}')만 가져왔습니다.`);
+    }
+    if (options.language && options.language !== 'java') {
+      warnings.push('Eclipse 포매터 프로필은 Java 설정이므로 다른 언어에는 일부만 적용됩니다.');
+    }
+
+    const values = new Map<string, string>();
+    for (const match of profiles[0].matchAll(/<setting\b([^>]*?)\/?>/g)) {
+      const attributes = this.parseXmlAttributes(match[1]);
+      if (attributes.id !== undefined && attributes.value !== undefined) {
+        values.set(attributes.id, attributes.value);
+      }
+    }
+
+    const prefix = 'org.eclipse.jdt.core.formatter.';
+    const tabChar = values.get(`${prefix}tabulation.char`);
+    if (tabChar === 'mixed') {
+      warnings.push(`'${prefix}tabulation.char' 값 'mixed'는 지원하지 않아 탭으로 적용했습니다.`);
+    }
+
+    const settings: ImportedSetting[] = [];
+    values.forEach((value, id) => {
+      const key = id.startsWith(prefix) ? id.slice(prefix.length) : id;
+      const setting = this.mapEclipseSetting(id, key, value, tabChar);
+      if (setting === null) {
+        warnings.push(`'${id}' 설정은 대응하는 컨벤션 필드가 없어 무시했습니다.`);
+      } else if (setting !== undefined) {
+        settings.push(setting);
+      }
+    });
+
+    return { language: 'java', settings, warnings };
+  }
+
+  /**
+   * @returns 변환된 값, 다른 설정에 포함되어 따로 적용하지 않음(undefined), 또는 대응 필드 없음(null)
+   */
+  private static mapEclipseSetting(
+    source: string,
+    key: string,
+    value: string,
+    tabChar: string | undefined
+  ): ImportedSetting | null | undefined {
+    const inserted = value === 'insert';
+
+    switch (key) {
+      case 'tabulation.char':
+        return { source, fields: ['indentationType'], value: value === 'space' ? 'space' : 'tab' };
+      case 'tabulation.size':
+        return tabChar === 'mixed' ? undefined : { source, fields: ['indentSize'], value: Number(value) };
+      case 'indentation.size':
+        return tabChar === 'mixed' ? { source, fields: ['indentSize'], value: Number(value) } : undefined;
+      case 'lineSplit':
+        return { source, fields: ['maxLineLength'], value: Number(value) };
+      case 'insert_space_before_opening_paren_in_method_declaration':
+        return { source, fields: ['spaceBeforeMethodParens', 'spaceBeforeFunctionParens'], value: inserted };
+      case 'insert_space_before_opening_paren_in_if':
+      case 'insert_space_before_opening_paren_in_for':
+      case 'insert_space_before_opening_paren_in_while':
+        return { source, fields: ['spaceBeforeControlParens'], value: inserted };
+      case 'insert_space_before_assignment_operator':
+      case 'insert_space_after_assignment_operator':
+      case 'insert_space_before_binary_operator':
+      case 'insert_space_after_binary_operator':
+        return { source, fields: ['spaceAroundOperators'], value: inserted };
+      case 'brace_position_for_type_declaration':
+      case 'brace_position_for_method_declaration':
+        return { source, fields: ['braceStyle'], value: this.ECLIPSE_BRACE_STYLES[value] ?? value };
+      case 'blank_lines_between_import_groups':
+        return { source, fields: ['separateImportGroups'], value: Number(value) > 0 };
+      case 'blank_lines_before_method':
+        return { source, fields: ['blankLinesBetweenMethods'], value: Number(value) };
+      default:
+        return null;
+    }
+  }
+
+  // ───────────────────────── 공통 ─────────────────────────
+
+  /**
+   * JSON(주석 허용) 또는 YAML 설정 파일을 읽습니다.
+   */
+  private static parseJsonOrYaml(content: string, filename: string): unknown {
+    const isYaml = /\.ya?ml$/i.test(filename);
+    if (!isYaml) {
+      try {
+        return JSON.parse(this.stripJsonComments(content));
+      } catch (jsonError) {
+        // 확장자 없는 .prettierrc/.eslintrc는 YAML일 수 있음
+        if (/\.json$/i.test(filename)) {
+          throw new Error(`${filename}: JSON 구문 오류: ${jsonError instanceof Error ? jsonError.message : String(jsonError)}`);
+        }
+      }
+    }
+
+    try {
+      return YamlConfigParser.parse(content);
+    } catch (yamlError) {
+      throw new Error(`${filename}: ${yamlError instanceof Error ? yamlError.message : String(yamlError)}`);
+    }
+  }
+
+  /**
+   * 문자열 밖의 // 및 /* *\/ 주석을 제거합니다.
+   */
+  private static stripJsonComments(content: string): string {
+    let result = '';
+    let index = 0;
+    while (index < content.length) {
+      const char = content[index];
+      if (char === '"') {
+        const start = index++;
+        while (index < content.length && content[index] !== '"') {
+          index += content[index] === '\\' ? 2 : 1;
+        }
+        result += content.slice(start, ++index);
+      } else if (char === '/' && content[index + 1] === '/') {
+        while (index < content.length && content[index] !== '\n') index++;
+      } else if (char === '/' && content[index + 1] === '*') {
+        const end = content.indexOf('*/', index + 2);
+        index = end === -1 ? content.length : end + 2;
+      } else {
+        result += char;
+        index++;
+      }
+    }
+    return result;
+  }
+
+  private static parseXmlAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of text.matchAll(/([\w.:-]+)\s*=\s*"([^"]*)"/g)) {
+      attributes[match[1]] = match[2]
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+    }
+    return attributes;
+  }
+}
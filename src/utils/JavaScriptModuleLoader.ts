@@ -0,0 +1,54 @@
+/**
+ * JavaScript/TypeScript 모듈 로더
+ * 포매터와 의미 보존 검사가 쓰는 TypeScript 파서(typescript 패키지)는 수 MB라서
+ * 웹 번들에서는 JavaScript/TypeScript를 처음 포매팅할 때 동적 import로 따로 받습니다.
+ */
+
+import type { JavaScriptFormatter } from '../formatters/JavaScriptFormatter';
+import type { JavaScriptSemanticStream } from './JavaScriptSemanticStream';
+
+/**
+ * TypeScript 파서를 쓰는 모듈
+ */
+export interface JavaScriptModules {
+  JavaScriptFormatter: typeof JavaScriptFormatter;
+  JavaScriptSemanticStream: typeof JavaScriptSemanticStream;
+}
+
+export class JavaScriptModuleLoader {
+  private static modules: JavaScriptModules | null = null;
+  private static loading: Promise<JavaScriptModules> | null = null;
+
+  /**
+   * 모듈을 불러옵니다. 이미 불러왔으면 바로 완료되고, 실패하면 다음 호출에서 다시 시도합니다.
+   */
+  public static load(): Promise<JavaScriptModules> {
+    if (!this.loading) {
+      this.loading = Promise.all([
+        import('../formatters/JavaScriptFormatter'),
+        import('./JavaScriptSemanticStream')
+      ]).then(([formatter, semanticStream]) => {
+        this.modules = {
+          JavaScriptFormatter: formatter.JavaScriptFormatter,
+          JavaScriptSemanticStream: semanticStream.JavaScriptSemanticStream
+        };
+        return this.modules;
+      }).catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * 불러온 모듈을 반환합니다.
+   * @throws load가 끝나기 전에 호출한 경우
+   */
+  public static require(): JavaScriptModules {
+    if (!this.modules) {
+      throw new Error('JavaScript/TypeScript 파서를 아직 불러오지 않았습니다. FormattingService.loadLanguage로 먼저 불러오세요.');
+    }
+    return this.modules;
+  }
+}
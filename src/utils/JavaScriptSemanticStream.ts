@@ -0,0 +1,146 @@
+/**
+ * JavaScript/TypeScript 의미 보존 검사용 토큰 흐름
+ * TypeScript 구문 트리를 쓰므로 포매터와 함께 JavaScriptModuleLoader로 불러옵니다.
+ */
+
+import * as ts from 'typescript';
+import { JavaScriptFormatter } from '../formatters/JavaScriptFormatter';
+import { FormattingVerifier, SemanticStream, SemanticToken } from './FormattingVerifier';
+
+export class JavaScriptSemanticStream {
+  /** 구조에 이미 반영되어 비교에서 제외하는 토큰 (괄호, 구분자) */
+  private static readonly IGNORED_TOKENS: ReadonlySet<ts.SyntaxKind> = new Set([
+    ts.SyntaxKind.OpenParenToken,
+    ts.SyntaxKind.CloseParenToken,
+    ts.SyntaxKind.CommaToken,
+    ts.SyntaxKind.SemicolonToken,
+    ts.SyntaxKind.EndOfFileToken
+  ]);
+
+  /**
+   * JavaScript/TypeScript 구문 트리로 토큰 흐름을 만듭니다.
+   * 노드 종류를 함께 기록해 괄호 추가/제거, 따옴표 변경, 세미콜론/trailing comma처럼
+   * 의미를 바꾸지 않는 차이는 무시하고 연산 순서가 바뀌는 차이만 잡아냅니다.
+   */
+  public static create(code: string): SemanticStream | null {
+    const { sourceFile, diagnostics } = JavaScriptFormatter.parse(code);
+    if (diagnostics.length > 0) {
+      return null;
+    }
+
+    const stream: SemanticStream = { tokens: [], comments: [], imports: [] };
+    const seenComments = new Set<number>();
+    const toSemantic = (pos: number, text: string): SemanticToken => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(pos);
+      return { text, line: line + 1, column: character + 1 };
+    };
+    const collectComments = (ranges: ts.CommentRange[] | undefined, anchor = '') => {
+      for (const range of ranges ?? []) {
+        if (!seenComments.has(range.pos)) {
+          seenComments.add(range.pos);
+          stream.comments.push(toSemantic(range.pos, anchor + FormattingVerifier.normalizeComment(code.slice(range.pos, range.end))));
+        }
+      }
+    };
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isParenthesizedExpression(node) || ts.isParenthesizedTypeNode(node)) {
+        collectComments(ts.getLeadingCommentRanges(code, node.pos));
+        visit(ts.isParenthesizedExpression(node) ? node.expression : node.type);
+        return;
+      }
+      if (ts.isEmptyStatement(node) || node.kind === ts.SyntaxKind.SemicolonClassElement) {
+        return;
+      }
+
+      const children = node.getChildren(sourceFile);
+      if (children.length > 0) {
+        if (node.kind !== ts.SyntaxKind.SyntaxList) {
+          stream.tokens.push(toSemantic(node.getStart(sourceFile), ts.SyntaxKind[node.kind]));
+        }
+        children.forEach(visit);
+        if (node.kind !== ts.SyntaxKind.SyntaxList) {
+          stream.tokens.push(toSemantic(node.end, '/'));
+        }
+        return;
+      }
+
+      if (node.kind !== ts.SyntaxKind.JsxText) {
+        collectComments(ts.getLeadingCommentRanges(code, node.pos));
+        // 여는 괄호 줄 끝의 주석(`{ // 설명`)은 괄호와 묶어 비교해 첫 문장 뒤로 옮겨지는 것을 잡아냄
+        const trailing = ts.getTrailingCommentRanges(code, node.end);
+        const lineEnd = /[ \t]*(\r?\n|$)/y;
+        lineEnd.lastIndex = trailing?.[trailing.length - 1].end ?? 0;
+        const endsLine = !!trailing?.length && lineEnd.test(code);
+        collectComments(trailing, endsLine && this.isOpeningToken(node) ? `${node.getText(sourceFile)} ` : '');
+      }
+      if (this.IGNORED_TOKENS.has(node.kind) || this.isTypeOperatorPrefix(node)) {
+        return;
+      }
+
+      const start = node.getStart(sourceFile);
+      if (node.kind === ts.SyntaxKind.JsxText) {
+        const text = this.normalizeJsxText(node.getText(sourceFile));
+        if (text) {
+          stream.tokens.push(toSemantic(start, text));
+        }
+      } else if (ts.isStringLiteral(node)) {
+        stream.tokens.push(toSemantic(start, JSON.stringify(node.text)));
+      } else {
+        stream.tokens.push(toSemantic(start, node.getText(sourceFile)));
+      }
+    };
+
+    visit(sourceFile);
+    return stream;
+  }
+
+  /**
+   * 여는 괄호나 case/default 레이블의 `:`처럼 뒤에 본문이 이어지는 토큰인지 확인합니다.
+   */
+  private static isOpeningToken(node: ts.Node): boolean {
+    switch (node.kind) {
+      case ts.SyntaxKind.OpenBraceToken:
+      case ts.SyntaxKind.OpenBracketToken:
+      case ts.SyntaxKind.OpenParenToken:
+        return true;
+      case ts.SyntaxKind.ColonToken:
+        return ts.isCaseClause(node.parent) || ts.isDefaultClause(node.parent);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 유니온/교차 타입의 `|`, `&` 구분자인지 확인합니다. (맨 앞 구분자 추가/제거 허용)
+   */
+  private static isTypeOperatorPrefix(node: ts.Node): boolean {
+    const list = node.parent;
+    return (node.kind === ts.SyntaxKind.BarToken || node.kind === ts.SyntaxKind.AmpersandToken) &&
+      list !== undefined &&
+      (ts.isUnionTypeNode(list.parent) || ts.isIntersectionTypeNode(list.parent) ||
+        ts.isUnionTypeNode(list) || ts.isIntersectionTypeNode(list));
+  }
+
+  /**
+   * JSX 텍스트를 화면에 출력되는 형태로 정규화합니다.
+   * 개행이 포함된 공백은 제거되고 나머지 공백은 하나로 합쳐집니다.
+   */
+  private static normalizeJsxText(text: string): string {
+    const lines = text.split(/\r?\n/);
+    return lines
+      .map((line, index) => {
+        let result = line;
+        if (index > 0) {
+          result = result.trimStart();
+        }
+        if (index < lines.length - 1) {
+          result = result.trimEnd();
+        }
+        return result;
+      })
+      .filter(line => line !== '')
+      .join(' ')
+      .replace(/\s+/g, ' ');
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * 언어 감지 유틸리티
+ * 입력 코드를 언어 플러그인의 키워드/구문 단서와 비교해 어떤 언어인지 추정합니다.
+ * (예: Kotlin의 fun/val, SQL의 SELECT ... FROM, 유효한 JSON 문서)
+ */
+
+import {
+  LanguageScore,
+  LanguageDetectionResult
+} from '../types/FormattingTypes';
+import { LanguageCue } from '../types/LanguagePluginTypes';
+import { LanguageRegistry } from '../services/LanguageRegistry';
+
+export class LanguageDetector {
+  /** 단서 하나가 점수에 반영되는 최대 일치 횟수 (반복되는 단서의 과대평가 방지) */
+  private static readonly MAX_CUE_HITS = 3;
+
+  /** 신뢰도 계산 시 근거 양 보정 상수 (점수가 낮을수록 신뢰도를 낮춤) */
+  private static readonly EVIDENCE_SMOOTHING = 3;
+
+  /** 문자열/주석 패턴 (SQL 주석 '-- '은 단서로 쓰므로 남김) */
+  private static readonly LITERAL_PATTERN =
+    /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`|\/\*[\s\S]*?\*\/|\/\/[^\n]*/g;
+
+  /**
+   * 코드의 언어를 추정합니다.
+   * @param code 입력 코드
+   * @returns 가장 가능성이 높은 언어와 언어별 점수/신뢰도
+   */
+  public static detect(code: string): LanguageDetectionResult {
+    const masked = this.maskLiterals(code);
+    const rawScores = LanguageRegistry.getAll().flatMap(({ id, detection }) => detection
+      ? [{
+        language: id,
+        score: this.scoreCues(detection.matchRawCode ? code : masked, detection.cues) +
+          (detection.scoreDocument?.(code) ?? 0)
+      }]
+      : []);
+
+    const total = rawScores.reduce((sum, item) => sum + item.score, 0);
+    const scores: LanguageScore[] = rawScores
+      .map(item => ({
+        ...item,
+        confidence: total > 0
+          ? Math.round((item.score / total) * (item.score / (item.score + this.EVIDENCE_SMOOTHING)) * 100) / 100
+          : 0
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const best = scores[0];
+    return best.score > 0
+      ? { language: best.language, confidence: best.confidence, scores }
+      : { language: null, confidence: 0, scores };
+  }
+
+  /**
+   * 문자열 리터럴을 빈 문자열로, 주석을 공백으로 바꿉니다.
+   */
+  private static maskLiterals(code: string): string {
+    return code.replace(this.LITERAL_PATTERN, match => {
+      if (match.startsWith('/')) {
+        return ' ';
+      }
+      return match[0] + match[0];
+    });
+  }
+
+  private static scoreCues(code: string, cues: LanguageCue[]): number {
+    return cues.reduce((sum, cue) => {
+      const hits = Math.min(code.match(cue.pattern)?.length ?? 0, this.MAX_CUE_HITS);
+      return sum + cue.weight * hits;
+    }, 0);
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * 프리셋 검증 유틸리티
+ * 가져온 프리셋 라이브러리를 언어별 컨벤션 스키마로 검사하고 필드 단위 오류를 보고합니다.
+ */
+
+import { SupportedLanguage, PresetConvention } from '../types/FormattingTypes';
+import { PresetValidationError } from '../types/PresetLibraryTypes';
+import { LanguageRegistry } from '../services/LanguageRegistry';
+
+export class PresetValidator {
+  /**
+   * 알 수 없는 값이 프리셋인지 검사합니다.
+   * @param value 검사할 값
+   * @param path 오류 경로 접두사
+   * @returns 필드 단위 오류 목록 (비어 있으면 유효)
+   */
+  public static validatePreset(value: unknown, path: string): PresetValidationError[] {
+    const errors: PresetValidationError[] = [];
+    if (!this.isObject(value)) {
+      return [{ path, message: '프리셋은 객체여야 합니다.' }];
+    }
+
+    this.expectString(value, 'id', path, errors);
+    this.expectString(value, 'name', path, errors);
+    if (value.description !== undefined && typeof value.description !== 'string') {
+      errors.push({ path: `${path}.description`, message: '문자열이어야 합니다.' });
+    }
+
+    const language = value.language;
+    if (typeof language !== 'string' || !LanguageRegistry.get(language)) {
+      errors.push({
+        path: `${path}.language`,
+        message: `지원하지 않는 언어입니다: ${JSON.stringify(language)} (허용: ${LanguageRegistry.getLanguages().join(', ')})`
+      });
+      return errors;
+    }
+
+    if (!this.isObject(value.convention)) {
+      errors.push({ path: `${path}.convention`, message: '컨벤션은 객체여야 합니다.' });
+      return errors;
+    }
+    const convention = this.fillMissingFields(language as SupportedLanguage, value.convention);
+    errors.push(...this.validateConvention(language as SupportedLanguage, convention, `${path}.convention`));
+
+    return errors;
+  }
+
+  /**
+   * 컨벤션 객체를 언어 스키마로 검사합니다.
+   */
+  public static validateConvention(
+    language: SupportedLanguage,
+    convention: Record<string, unknown>,
+    path: string
+  ): PresetValidationError[] {
+    const errors: PresetValidationError[] = [];
+    const schema = LanguageRegistry.require(language).conventionSchema;
+
+    for (const [key, field] of Object.entries(schema)) {
+      const fieldPath = `${path}.${key}`;
+      const fieldValue = convention[key];
+
+      if (fieldValue === undefined) {
+        errors.push({ path: fieldPath, message: '필수 필드가 없습니다.' });
+        continue;
+      }
+
+      switch (field.type) {
+        case 'enum':
+          if (!field.options.some(option => option.value === fieldValue)) {
+            errors.push({
+              path: fieldPath,
+              message: `허용되지 않는 값입니다: ${JSON.stringify(fieldValue)} (허용: ${field.options.map(option => option.value).join(', ')})`
+            });
+          }
+          break;
+        case 'number':
+          if (typeof fieldValue !== 'number' || !Number.isInteger(fieldValue)) {
+            errors.push({ path: fieldPath, message: '정수여야 합니다.' });
+          } else if (fieldValue < field.min || fieldValue > field.max) {
+            errors.push({ path: fieldPath, message: `${field.min}~${field.max} 범위여야 합니다. (현재: ${fieldValue})` });
+          }
+          break;
+        case 'boolean':
+          if (typeof fieldValue !== 'boolean') {
+            errors.push({ path: fieldPath, message: 'true 또는 false여야 합니다.' });
+          }
+          break;
+      }
+    }
+
+    for (const key of Object.keys(convention)) {
+      if (key !== 'name' && key !== 'description' && !(key in schema)) {
+        errors.push({ path: `${path}.${key}`, message: '알 수 없는 필드입니다.' });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * 컨벤션에 없는 스키마 필드를 언어 기본 프리셋 값으로 채웁니다.
+   * 스키마에 필드가 추가되기 전에 저장하거나 내보낸 프리셋도 그대로 읽을 수 있습니다.
+   */
+  public static fillMissingFields(language: SupportedLanguage, convention: Record<string, unknown>): Record<string, unknown> {
+    const plugin = LanguageRegistry.require(language);
+    const base = (plugin.presets.find(preset => preset.isOfficial) || plugin.presets[0])?.convention as unknown as Record<string, unknown> | undefined;
+    if (!base) {
+      return convention;
+    }
+
+    const filled: Record<string, unknown> = { ...convention };
+    for (const key of Object.keys(plugin.conventionSchema)) {
+      if (filled[key] === undefined) {
+        filled[key] = base[key];
+      }
+    }
+    return filled;
+  }
+
+  /**
+   * 검증을 통과한 값을 프리셋으로 변환합니다. (스키마에 없는 값은 버리고 없는 값은 기본값으로 채움)
+   */
+  public static toPreset(value: Record<string, unknown>): PresetConvention {
+    const language = value.language as SupportedLanguage;
+    const convention = this.fillMissingFields(language, value.convention as Record<string, unknown>);
+    const name = value.name as string;
+    const description = typeof value.description === 'string' ? value.description : '';
+
+    return {
+      id: value.id as string,
+      name,
+      language,
+      description,
+      popularity: 0,
+      isOfficial: false,
+      convention: {
+        ...Object.fromEntries(Object.keys(LanguageRegistry.require(language).conventionSchema).map(key => [key, convention[key]])),
+        name,
+        description
+      } as unknown as PresetConvention['convention']
+    };
+  }
+
+  public static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static expectString(
+    value: Record<string, unknown>,
+    key: string,
+    path: string,
+    errors: PresetValidationError[]
+  ): void {
+    if (typeof value[key] !== 'string' || (value[key] as string).trim() === '') {
+      errors.push({ path: `${path}.${key}`, message: '비어 있지 않은 문자열이어야 합니다.' });
+    }
+  }
+}
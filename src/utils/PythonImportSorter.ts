@@ -0,0 +1,239 @@
+/**
+ * Python import 정렬 유틸리티
+ * isort 기본 규칙에 따라 import 문을 구역(__future__ → 표준 라이브러리 → 서드파티 → 상대 경로)으로 나누고 정렬합니다.
+ * - import a, b는 한 줄에 하나씩 나누고, 같은 모듈의 from import는 한 문으로 합칩니다. (별칭, '*', 주석이 붙은 문은 따로 둠)
+ * - 이름은 상수(ALL_CAPS) → 클래스(CamelCase) → 그 밖의 이름 순으로, 대소문자를 무시하고 정렬합니다.
+ */
+
+import { Token } from '../types/TokenTypes';
+import {
+  PythonImport,
+  PythonImportName,
+  PythonImportSection,
+  PythonImportSortOptions
+} from '../types/PythonTypes';
+import { PYTHON_STDLIB_MODULES } from '../constants/PythonStdlibModules';
+
+export class PythonImportSorter {
+  /** 구역 출력 순서 */
+  private static readonly SECTION_ORDER: PythonImportSection[] = ['future', 'stdlib', 'thirdparty', 'local'];
+
+  /** 모듈 경로 또는 이름 */
+  private static readonly DOTTED_NAME = /^(?:\.+|\.*[\p{L}_][\p{L}\p{N}_]*(?:\.[\p{L}_][\p{L}\p{N}_]*)*)$/u;
+
+  /**
+   * import 문 토큰을 해석합니다.
+   * @param tokens 공백과 개행을 뺀 토큰 (줄 끝 주석 포함 가능)
+   * @returns import 목록 (import a, b는 둘), 해석할 수 없으면 null
+   */
+  public static parse(tokens: Token[]): PythonImport[] | null {
+    const last = tokens[tokens.length - 1];
+    const comment = last?.type === 'comment' ? last.value : undefined;
+    const code = comment ? tokens.slice(0, -1) : tokens;
+    if (code.some(token => token.type === 'comment')) {
+      return null;
+    }
+
+    const words = code.map(token => token.value);
+    if (words[0] === 'import') {
+      const parts = this.splitList(words.slice(1));
+      if (!parts || (comment && parts.length > 1)) {
+        return null;
+      }
+      const imports: PythonImport[] = [];
+      for (const part of parts) {
+        const name = this.parseName(part);
+        if (!name || name.name === '*' || name.name.startsWith('.')) {
+          return null;
+        }
+        imports.push({ isFrom: false, module: name.name, alias: name.alias, names: [], comment });
+      }
+      return imports;
+    }
+
+    const importIndex = words.indexOf('import');
+    if (words[0] !== 'from' || importIndex < 2) {
+      return null;
+    }
+    const module = words.slice(1, importIndex).join('');
+    let nameWords = words.slice(importIndex + 1);
+    if (nameWords[0] === '(' && nameWords[nameWords.length - 1] === ')') {
+      nameWords = nameWords.slice(1, -1);
+    }
+    const parts = this.splitList(nameWords);
+    if (!this.DOTTED_NAME.test(module) || !parts) {
+      return null;
+    }
+    const names: PythonImportName[] = [];
+    for (const part of parts) {
+      const name = this.parseName(part);
+      if (!name || name.name.includes('.')) {
+        return null;
+      }
+      names.push(name);
+    }
+    return [{ isFrom: true, module, names, comment }];
+  }
+
+  /**
+   * import 목록을 구역별로 정렬한 줄을 반환합니다.
+   * @returns 구역별 줄 목록 (빈 구역 제외)
+   */
+  public static sort(imports: PythonImport[], options: PythonImportSortOptions): string[][] {
+    const merged = this.merge(imports);
+    return this.SECTION_ORDER
+      .map(section => merged
+        .filter(item => this.getSection(item.module) === section)
+        .sort((a, b) => this.compare(a, b, options))
+        .map(item => this.render(item, options)))
+      .filter(lines => lines.length > 0);
+  }
+
+  /**
+   * 모듈이 속한 구역을 반환합니다.
+   */
+  public static getSection(module: string): PythonImportSection {
+    if (module.startsWith('.')) {
+      return 'local';
+    }
+    const root = module.split('.')[0];
+    if (root === '__future__') {
+      return 'future';
+    }
+    return PYTHON_STDLIB_MODULES.has(root) ? 'stdlib' : 'thirdparty';
+  }
+
+  /**
+   * 중복을 없애고 같은 모듈의 from import를 합칩니다.
+   */
+  private static merge(imports: PythonImport[]): PythonImport[] {
+    const result: PythonImport[] = [];
+    const seen = new Set<string>();
+    const fromByModule = new Map<string, PythonImport>();
+
+    const add = (item: PythonImport) => {
+      const key = `${item.isFrom}|${item.module}|${item.alias ?? ''}|${item.names.map(name => `${name.name} as ${name.alias ?? ''}`).join(',')}|${item.comment ?? ''}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        result.push(item);
+      }
+    };
+
+    for (const item of imports) {
+      if (!item.isFrom || item.comment) {
+        add({ ...item, names: this.sortNames(item.names) });
+        continue;
+      }
+
+      for (const name of item.names) {
+        if (name.alias || name.name === '*') {
+          add({ isFrom: true, module: item.module, names: [name] });
+          continue;
+        }
+        const existing = fromByModule.get(item.module);
+        if (!existing) {
+          const statement: PythonImport = { isFrom: true, module: item.module, names: [name] };
+          fromByModule.set(item.module, statement);
+          result.push(statement);
+        } else if (!existing.names.some(other => other.name === name.name)) {
+          existing.names.push(name);
+        }
+      }
+    }
+
+    fromByModule.forEach(statement => {
+      statement.names = this.sortNames(statement.names);
+    });
+    return result;
+  }
+
+  private static compare(a: PythonImport, b: PythonImport, options: PythonImportSortOptions): number {
+    if (!options.forceSortWithinSections && a.isFrom !== b.isFrom) {
+      return a.isFrom ? 1 : -1;
+    }
+    return this.compareKeys(a.module.toLowerCase(), b.module.toLowerCase()) ||
+      (a.isFrom === b.isFrom ? 0 : a.isFrom ? 1 : -1) ||
+      this.compareKeys(this.statementTail(a), this.statementTail(b));
+  }
+
+  /**
+   * 같은 모듈의 문끼리 비교할 때 쓰는 키 (별칭 없는 문이 먼저)
+   */
+  private static statementTail(item: PythonImport): string {
+    const alias = item.alias ?? item.names.find(name => name.alias)?.alias;
+    return `${alias ? 1 : 0}${item.names.map(name => this.nameKey(name.name)).join(',')}${alias ?? ''}`;
+  }
+
+  private static sortNames(names: PythonImportName[]): PythonImportName[] {
+    return [...names].sort((a, b) => this.compareKeys(this.nameKey(a.name), this.nameKey(b.name)) ||
+      this.compareKeys(a.alias ?? '', b.alias ?? ''));
+  }
+
+  /**
+   * 이름 정렬 키 (isort order_by_type: 상수 → 클래스 → 그 밖의 이름)
+   */
+  private static nameKey(name: string): string {
+    const prefix = name.length > 1 && name === name.toUpperCase() && name !== name.toLowerCase()
+      ? 'A'
+      : /^[A-Z]/.test(name) ? 'B' : 'C';
+    return prefix + name.toLowerCase();
+  }
+
+  private static compareKeys(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  /**
+   * import 문 한 줄을 만듭니다. 줄이 너무 긴 from import는 괄호로 감쌉니다.
+   */
+  private static render(item: PythonImport, options: PythonImportSortOptions): string {
+    let line: string;
+    if (item.isFrom) {
+      const names = item.names.map(name => (name.alias ? `${name.name} as ${name.alias}` : name.name)).join(', ');
+      line = `from ${item.module} import ${names}`;
+      if (options.maxLineLength > 0 && line.length > options.maxLineLength && item.names[0].name !== '*') {
+        line = `from ${item.module} import (${names})`;
+      }
+    } else {
+      line = `import ${item.module}${item.alias ? ` as ${item.alias}` : ''}`;
+    }
+    return item.comment ? `${line}  ${item.comment}` : line;
+  }
+
+  /**
+   * 쉼표로 나눈 이름 목록을 반환합니다. (마지막 쉼표 허용, 빈 항목이 있으면 null)
+   */
+  private static splitList(words: string[]): string[][] | null {
+    const parts: string[][] = [[]];
+    for (const word of words) {
+      if (word === ',') {
+        parts.push([]);
+      } else {
+        parts[parts.length - 1].push(word);
+      }
+    }
+    if (parts.length > 1 && parts[parts.length - 1].length === 0) {
+      parts.pop();
+    }
+    return parts.every(part => part.length > 0) ? parts : null;
+  }
+
+  /**
+   * 'a.b' 또는 'a.b as c' 형태의 항목을 해석합니다.
+   */
+  private static parseName(words: string[]): PythonImportName | null {
+    const asIndex = words.indexOf('as');
+    const nameWords = asIndex === -1 ? words : words.slice(0, asIndex);
+    const name = nameWords.join('');
+    if (name !== '*' && !this.DOTTED_NAME.test(name)) {
+      return null;
+    }
+    if (asIndex === -1) {
+      return { name };
+    }
+    const alias = words.slice(asIndex + 1);
+    return alias.length === 1 && this.DOTTED_NAME.test(alias[0]) && !alias[0].includes('.')
+      ? { name, alias: alias[0] }
+      : null;
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * 범위 포매팅 유틸리티
+ * 선택한 줄만 떼어 포매팅하고, 바로 앞 코드 줄에서 추론한 들여쓰기를 붙여 제자리에 돌려놓습니다.
+ * 들여쓰기가 구조인 언어(Python, YAML)는 범위 첫 줄의 원래 들여쓰기를 그대로 붙입니다.
+ * 범위 밖의 줄은 바이트 단위로 그대로 유지됩니다.
+ */
+
+import {
+  FormattingConvention,
+  FormattingResult,
+  RangeFormattingResult,
+  Diagnostic
+} from '../types/FormattingTypes';
+import { DiagnosticCollector } from './DiagnosticCollector';
+import { DiffService } from '../services/DiffService';
+
+/**
+ * 잘라낸 코드 조각을 포매팅하는 함수
+ */
+export type SnippetFormatter = (snippet: string, convention: FormattingConvention) => FormattingResult;
+
+export class RangeFormatter {
+  /** 줄 끝에 오면 다음 줄의 들여쓰기를 한 단계 늘리는 여는 괄호 */
+  private static readonly OPENING_BRACKET = /[{([]$/;
+
+  /** 줄 처음에 오면 들여쓰기를 한 단계 줄이는 닫는 괄호 */
+  private static readonly CLOSING_BRACKET = /^[})\]]/;
+
+  /** 들여쓰기만큼 줄인 최대 줄 길이의 하한 (깊게 중첩된 범위가 한 단어씩 줄바꿈되지 않도록) */
+  private static readonly MIN_LINE_LENGTH = 40;
+
+  /**
+   * 코드의 일부 줄만 포매팅합니다.
+   * @param code 전체 코드
+   * @param startLine 시작 줄 (1부터 시작)
+   * @param endLine 끝 줄 (포함)
+   * @param convention 포매팅 컨벤션
+   * @param formatSnippet 잘라낸 조각을 포매팅하는 함수
+   * @param indentationSensitive 들여쓰기가 블록 구조인 언어인지 여부 (범위 첫 줄의 들여쓰기를 유지)
+   * @returns 범위만 바뀐 전체 코드 (실패하면 원본 코드와 오류)
+   */
+  public static format(
+    code: string,
+    startLine: number,
+    endLine: number,
+    convention: FormattingConvention,
+    formatSnippet: SnippetFormatter,
+    indentationSensitive = false
+  ): RangeFormattingResult {
+    const lines = code.split('\n');
+    if (!Number.isInteger(startLine) || !Number.isInteger(endLine) ||
+        startLine < 1 || endLine < startLine || startLine > lines.length) {
+      const diagnostics = new DiagnosticCollector();
+      diagnostics.error('invalid-range', `잘못된 범위입니다: ${startLine}~${endLine}줄 (전체 ${lines.length}줄)`);
+      return this.unchanged(code, startLine, endLine, diagnostics.diagnostics);
+    }
+    const lastLine = Math.min(endLine, lines.length);
+
+    // 범위 앞뒤의 빈 줄은 그대로 두고 코드가 있는 줄만 포매팅
+    let first = startLine - 1;
+    let last = lastLine - 1;
+    while (first <= last && lines[first].trim() === '') first++;
+    while (last >= first && lines[last].trim() === '') last--;
+    if (first > last) {
+      return this.unchanged(code, startLine, lastLine, []);
+    }
+
+    const crlf = lines[first].endsWith('\r');
+    const selected = lines.slice(first, last + 1).map(line => line.replace(/\r$/, ''));
+    const removedIndent = this.commonIndent(selected);
+    if (indentationSensitive && selected[0].match(/^[ \t]*/)![0] !== removedIndent) {
+      const diagnostics = new DiagnosticCollector();
+      diagnostics.error(
+        'range-indent-mismatch',
+        `범위 첫 줄보다 덜 들여쓴 줄이 있어 들여쓰기 구조를 유지할 수 없습니다: ${first + 1}~${last + 1}줄 (블록 단위로 선택하세요)`
+      );
+      return this.unchanged(code, startLine, lastLine, diagnostics.diagnostics);
+    }
+    const snippet = selected.map(line => line.slice(removedIndent.length)).join('\n');
+
+    // 들여쓰기가 구조인 언어는 블록이 바뀌지 않도록 범위 첫 줄의 들여쓰기를 그대로 씀
+    const baseIndent = indentationSensitive ? removedIndent : this.inferBaseIndent(lines, first, convention);
+    const baseWidth = this.indentWidth(baseIndent, convention.indentSize);
+    const snippetConvention = convention.maxLineLength > 0
+      ? { ...convention, maxLineLength: Math.max(convention.maxLineLength - baseWidth, this.MIN_LINE_LENGTH) }
+      : convention;
+
+    const result = formatSnippet(snippet, snippetConvention);
+    if (result.errors.length > 0) {
+      return {
+        ...this.unchanged(code, startLine, lastLine, this.shift(result.diagnostics, first, removedIndent.length)),
+        processingTime: result.processingTime,
+        verificationError: result.verificationError
+      };
+    }
+
+    // 조각의 첫 줄이 들여쓰기 0에서 시작하지 않으면 주변 코드와의 들여쓰기 관계가 바뀜
+    const formattedSnippet = result.formattedCode.replace(/\n+$/, '');
+    if (indentationSensitive && /^[ \t]/.test(formattedSnippet)) {
+      const diagnostics = new DiagnosticCollector();
+      diagnostics.error('range-indent-mismatch', `포매팅하면 범위의 들여쓰기 구조가 바뀝니다: ${first + 1}~${last + 1}줄`);
+      return { ...this.unchanged(code, startLine, lastLine, diagnostics.diagnostics), processingTime: result.processingTime };
+    }
+
+    const formattedLines = formattedSnippet.split('\n')
+      .map(line => (line === '' ? '' : baseIndent + line) + (crlf ? '\r' : ''));
+    const changedLines = DiffService.countChangedLines(lines.slice(first, last + 1), formattedLines);
+    const output = [...lines.slice(0, first), ...formattedLines, ...lines.slice(last + 1)];
+    const rangeEnd = lastLine + formattedLines.length - (last - first + 1);
+
+    return {
+      ...result,
+      formattedCode: changedLines === 0 ? code : output.join('\n'),
+      changedLines,
+      diagnostics: this.shift(result.diagnostics, first, baseIndent.length),
+      statements: result.statements?.map(statement => ({
+        ...statement,
+        sourceStartLine: statement.sourceStartLine + first,
+        sourceEndLine: statement.sourceEndLine + first,
+        startLine: statement.startLine + first,
+        endLine: statement.endLine + first,
+        diagnostics: this.shift(statement.diagnostics, first, baseIndent.length)
+      })),
+      startLine,
+      endLine: rangeEnd
+    };
+  }
+
+  /**
+   * 범위 바로 앞의 코드 줄에서 범위 첫 줄의 들여쓰기를 추론합니다.
+   * 앞 줄이 여는 괄호로 끝나면 한 단계 깊게, 범위가 닫는 괄호로 시작하면 한 단계 얕게 둡니다.
+   * 들여쓰기 단위는 앞 줄이 탭을 쓰면 탭, 아니면 컨벤션을 따릅니다.
+   */
+  private static inferBaseIndent(lines: string[], first: number, convention: FormattingConvention): string {
+    let previous = first - 1;
+    while (previous >= 0 && lines[previous].trim() === '') previous--;
+    if (previous < 0) {
+      return '';
+    }
+
+    const previousLine = lines[previous].replace(/\r$/, '');
+    const previousIndent = previousLine.match(/^[ \t]*/)![0];
+    const unit = previousIndent.includes('\t') || convention.indentationType === 'tab'
+      ? '\t'
+      : ' '.repeat(convention.indentSize);
+
+    let indent = this.OPENING_BRACKET.test(previousLine.trimEnd()) ? previousIndent + unit : previousIndent;
+    if (this.CLOSING_BRACKET.test(lines[first].trim()) && indent.endsWith(unit)) {
+      indent = indent.slice(0, -unit.length);
+    }
+    return indent;
+  }
+
+  /**
+   * 코드가 있는 줄에 공통된 앞쪽 공백을 반환합니다.
+   */
+  private static commonIndent(lines: string[]): string {
+    let common: string | null = null;
+    for (const line of lines) {
+      if (line.trim() === '') {
+        continue;
+      }
+      const indent = line.match(/^[ \t]*/)![0];
+      if (common === null) {
+        common = indent;
+        continue;
+      }
+      let length = 0;
+      while (length < common.length && length < indent.length && common[length] === indent[length]) length++;
+      common = common.slice(0, length);
+    }
+    return common ?? '';
+  }
+
+  private static indentWidth(indent: string, tabWidth: number): number {
+    return [...indent].reduce((width, char) => width + (char === '\t' ? tabWidth : 1), 0);
+  }
+
+  /**
+   * 조각 기준의 진단 위치를 전체 코드 기준으로 옮깁니다.
+   */
+  private static shift(diagnostics: Diagnostic[], lineOffset: number, columnOffset: number): Diagnostic[] {
+    return diagnostics.map(diagnostic => ({
+      ...diagnostic,
+      startLine: diagnostic.startLine + lineOffset,
+      startColumn: diagnostic.startColumn + columnOffset,
+      endLine: diagnostic.endLine + lineOffset,
+      endColumn: diagnostic.endColumn + columnOffset
+    }));
+  }
+
+  private static unchanged(code: string, startLine: number, endLine: number, diagnostics: Diagnostic[]): RangeFormattingResult {
+    return {
+      formattedCode: code,
+      changedLines: 0,
+      warnings: diagnostics.filter(diagnostic => diagnostic.severity === 'warning').map(diagnostic => diagnostic.message),
+      errors: diagnostics.filter(diagnostic => diagnostic.severity === 'error').map(diagnostic => diagnostic.message),
+      diagnostics,
+      processingTime: 0,
+      startLine,
+      endLine
+    };
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * 구조 파서 오류
+ * 구조 파서가 코드를 읽지 못했을 때 위치와 함께 던지며, 포매터는 DiagnosticCollector.parseError로 진단에 추가합니다.
+ * 메시지는 '<언어> N번째 줄: <내용>' 형식입니다. (예: 'YAML 3번째 줄: 들여쓰기에 탭을 사용할 수 없습니다.')
+ */
+
+export class SourceParseError extends Error {
+  /** 언어 표시명 (YAML, CSS, XML, HTML, Python, SQL) */
+  public readonly language: string;
+  /** 오류 줄 (1부터 시작) */
+  public readonly line: number;
+  /** 오류 열 (1부터 시작, 알 수 없으면 null) */
+  public readonly column: number | null;
+  /** 위치를 뺀 오류 내용 */
+  public readonly detail: string;
+
+  constructor(language: string, line: number, column: number | null, detail: string) {
+    super(`${language.toUpperCase()} ${line}번째 줄: ${detail}`);
+    this.name = 'SourceParseError';
+    this.language = language;
+    this.line = line;
+    this.column = column;
+    this.detail = detail;
+  }
+
+  /**
+   * 오프셋 위치의 오류를 만듭니다.
+   * @param code 파싱 중인 전체 코드
+   * @param offset 오류 위치 오프셋
+   */
+  public static at(language: string, code: string, offset: number, detail: string): SourceParseError {
+    const before = code.slice(0, offset);
+    return new SourceParseError(language, before.split('\n').length, offset - before.lastIndexOf('\n'), detail);
+  }
+}
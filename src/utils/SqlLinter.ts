@@ -0,0 +1,583 @@
+/**
+ * SQL 린터
+ * 구조 파서가 묶은 문에서 실수하기 쉬운 쿼리 패턴을 찾습니다.
+ * - SELECT *, FROM 절의 쉼표 조인, WHERE 없는 UPDATE/DELETE
+ * - 한 문 안에서 AS를 붙인 별칭과 붙이지 않은 별칭이 섞인 경우 (컬럼/테이블 별칭 따로)
+ * - 여러 테이블을 조회하면서 테이블을 밝히지 않은 컬럼, NULL이 나올 수 있는 NOT IN 서브쿼리
+ * 괄호 밖의 키워드로만 쿼리와 절을 나누며, 테이블 정의를 모르므로 컬럼이 실제로 모호한지는 확인하지 않습니다.
+ */
+
+import { SqlDialectRules, SqlLintIssue, SqlNode, SqlStatement, SqlTokenNode } from '../types/SqlTypes';
+
+/** 쿼리 블록을 시작하는 키워드 */
+const QUERY_HEADS: ReadonlySet<string> = new Set(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+
+/** 바로 앞에 오면 INSERT/UPDATE/DELETE를 쿼리 머리로 보지 않는 키워드 (FOR UPDATE, ON DELETE CASCADE, BEFORE INSERT OR UPDATE) */
+const NON_HEAD_PREVIOUS: ReadonlySet<string> = new Set(['FOR', 'KEY', 'ON', 'OF', 'OR', 'BEFORE', 'AFTER']);
+
+/** 쿼리 안의 절 키워드 (방언 절 키워드는 SqlDialectRules.clauseKeywords) */
+const LINT_CLAUSES = [
+  'FROM', 'WHERE', 'GROUP BY', 'HAVING', 'ORDER BY', 'SET', 'VALUES', 'INTO', 'ON', 'USING',
+  'UNION', 'INTERSECT', 'EXCEPT', 'MINUS', 'LIMIT', 'OFFSET', 'FETCH', 'RETURNING', 'WINDOW', 'QUALIFY'
+];
+
+/** JOIN 뒤에서만 절로 보는 키워드 (DISTINCT ON, MERGE ... USING과 구분) */
+const JOIN_CONDITIONS: ReadonlySet<string> = new Set(['ON', 'USING']);
+
+/** JOIN/APPLY 앞에 오는 수식어 */
+const JOIN_MODIFIERS: ReadonlySet<string> = new Set(['NATURAL', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'OUTER']);
+
+/** 컬럼 목록 앞의 SELECT 수식어 (TOP n과 DISTINCT ON (...)은 따로 처리) */
+const SELECT_MODIFIERS: ReadonlySet<string> = new Set([
+  'DISTINCT', 'ALL', 'DISTINCTROW', 'PERCENT', 'STRAIGHT_JOIN', 'SQL_CALC_FOUND_ROWS'
+]);
+
+/** 테이블 이름 앞의 수식어 (LATERAL (...), ONLY t, UPDATE LOW_PRIORITY t) */
+const TABLE_PREFIXES: ReadonlySet<string> = new Set(['LATERAL', 'ONLY', 'LOW_PRIORITY', 'IGNORE', 'QUICK']);
+
+/** 쉼표 뒤에 와도 조인 조건이 필요 없는 항목 (배열 펼치기, 상관 서브쿼리) */
+const CORRELATED_ITEMS: ReadonlySet<string> = new Set(['UNNEST', 'LATERAL']);
+
+/** 컬럼이 모호한지 볼 절 */
+const COLUMN_CLAUSES: ReadonlySet<string> = new Set(['SELECT', 'WHERE', 'ON', 'GROUP BY', 'HAVING', 'ORDER BY', 'QUALIFY']);
+
+/** 키워드 목록에 없어 식별자로 읽히는 리터럴 */
+const LITERAL_WORDS: ReadonlySet<string> = new Set(['TRUE', 'FALSE', 'NULL', 'UNKNOWN']);
+
+/** 테이블 없이 써도 되는 의사 컬럼과 함수 */
+const PSEUDO_COLUMNS: ReadonlySet<string> = new Set([
+  'ROWNUM', 'ROWID', 'LEVEL', 'SYSDATE', 'SYSTIMESTAMP', 'CURRENT_DATE', 'CURRENT_TIME', 'CURRENT_TIMESTAMP',
+  'CURRENT_USER', 'SESSION_USER', 'USER'
+]);
+
+/**
+ * 쿼리를 이루는 절 하나 (쿼리 머리 앞 부분은 name이 null, JOIN 계열은 'JOIN')
+ */
+interface SqlLintClause {
+  name: string | null;
+  keywords: SqlTokenNode[];
+  body: SqlNode[];
+}
+
+/**
+ * 쿼리 머리(SELECT, UPDATE, ...)부터 다음 머리 전까지의 블록
+ */
+interface SqlQueryBlock {
+  head: string | null;
+  clauses: SqlLintClause[];
+}
+
+/**
+ * SELECT 항목이나 FROM/JOIN 항목에 붙은 별칭
+ */
+interface SqlAlias {
+  kind: 'column' | 'table';
+  name: SqlTokenNode;
+  /** 별칭 앞의 AS (없으면 null) */
+  as: SqlTokenNode | null;
+}
+
+/**
+ * FROM/JOIN 항목 하나
+ */
+interface SqlTableReference {
+  /** 테이블 이름의 마지막 부분 (서브쿼리면 null) */
+  name: SqlTokenNode | null;
+  alias: SqlAlias | null;
+}
+
+/**
+ * 문 하나를 검사하는 동안 모으는 상태
+ */
+interface LintContext {
+  clauseWords: string[][];
+  aliases: SqlAlias[];
+  issues: SqlLintIssue[];
+}
+
+export class SqlLinter {
+  /**
+   * 문 목록을 검사합니다.
+   * @param statements 구조 파서가 묶은 문
+   * @param rules 방언 규칙 (방언 절 키워드로 절을 나눔)
+   * @returns 원문 순서의 문제 목록
+   */
+  public static lint(statements: SqlStatement[], rules: SqlDialectRules): SqlLintIssue[] {
+    // 여러 단어 키워드부터 비교 (ON CONFLICT가 ON보다 먼저)
+    const clauseWords = [...LINT_CLAUSES, ...rules.clauseKeywords]
+      .map(keyword => keyword.split(' '))
+      .sort((a, b) => b.length - a.length);
+    const issues: SqlLintIssue[] = [];
+
+    for (const statement of statements) {
+      const ctx: LintContext = { clauseWords, aliases: [], issues };
+      this.lintNodes(statement.nodes, ctx, false);
+      this.checkAliasStyle(ctx);
+    }
+
+    return issues.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * 노드를 쿼리 블록으로 나눠 검사하고, 괄호 안의 서브쿼리도 같은 방법으로 검사합니다.
+   * @param inExists EXISTS (...) 안인지 여부 (SELECT *를 허용)
+   */
+  private static lintNodes(nodes: SqlNode[], ctx: LintContext, inExists: boolean): void {
+    for (const block of this.splitBlocks(nodes, ctx.clauseWords)) {
+      this.lintBlock(block, ctx, inExists);
+    }
+
+    nodes.forEach((node, index) => {
+      if (node.kind !== 'group') {
+        return;
+      }
+      if (!this.isQuery(node.children)) {
+        this.lintNodes(node.children, ctx, false);
+        return;
+      }
+      if (this.isKeyword(nodes[index - 1], 'IN') && this.isKeyword(nodes[index - 2], 'NOT')) {
+        this.checkNotIn(nodes[index - 2], node.children, node.close, ctx);
+      }
+      this.lintNodes(node.children, ctx, this.isKeyword(nodes[index - 1], 'EXISTS'));
+    });
+  }
+
+  /**
+   * 쿼리 블록 하나를 검사합니다.
+   */
+  private static lintBlock(block: SqlQueryBlock, ctx: LintContext, inExists: boolean): void {
+    if (block.head !== 'SELECT' && block.head !== 'UPDATE' && block.head !== 'DELETE') {
+      return;
+    }
+
+    // SELECT 항목
+    const selectItems = block.head === 'SELECT' ? this.splitList(this.skipSelectModifiers(block.clauses[0].body)) : [];
+    const columnAliases: SqlAlias[] = [];
+    for (const item of selectItems) {
+      if (this.isPunctuation(item[0], '*') && !inExists) {
+        this.report(ctx, 'select-star', 'SELECT *는 테이블 컬럼이 바뀌면 결과도 바뀝니다. 필요한 컬럼을 나열하세요.', item[0], item[0]);
+      }
+      const alias = this.findColumnAlias(item);
+      if (alias) {
+        columnAliases.push(alias);
+      }
+    }
+
+    // FROM/JOIN 항목 (UPDATE는 대상 테이블 포함)
+    const tables: SqlTableReference[] = [];
+    for (const clause of block.clauses) {
+      if (clause.name === 'FROM') {
+        this.splitList(clause.body).forEach((item, index) => {
+          if (item.length === 0) {
+            return;
+          }
+          if (index > 0 && !CORRELATED_ITEMS.has(this.getWord(item[0]))) {
+            this.report(
+              ctx,
+              'implicit-join',
+              'FROM 절의 쉼표 조인은 조인 조건을 빠뜨리기 쉽습니다. JOIN ... ON으로 바꾸세요.',
+              item[0],
+              item[item.length - 1]
+            );
+          }
+          tables.push(this.parseTableReference(item));
+        });
+      } else if (clause.name === 'JOIN' || (clause.name === 'UPDATE' && clause.body.length > 0)) {
+        tables.push(this.parseTableReference(clause.body));
+      }
+    }
+    ctx.aliases.push(...columnAliases, ...tables.flatMap(table => table.alias ? [table.alias] : []));
+
+    // WHERE 없는 UPDATE/DELETE (SET이 없는 UPDATE STATISTICS 같은 명령은 제외)
+    const hasClause = (name: string): boolean => block.clauses.some(clause => clause.name === name);
+    if ((block.head === 'DELETE' || (block.head === 'UPDATE' && hasClause('SET'))) && !hasClause('WHERE')) {
+      const head = block.clauses[0].keywords[0];
+      this.report(
+        ctx,
+        'missing-where',
+        block.head === 'UPDATE'
+          ? 'WHERE 없는 UPDATE는 테이블의 모든 행을 바꿉니다. 의도한 것이 아니면 조건을 추가하세요.'
+          : 'WHERE 없는 DELETE는 테이블의 모든 행을 지웁니다. 의도한 것이 아니면 조건을 추가하세요.',
+        head,
+        head
+      );
+    }
+
+    if (tables.length >= 2) {
+      this.checkUnqualifiedColumns(block, tables, columnAliases, ctx);
+    }
+  }
+
+  /**
+   * 여러 테이블을 조회하는 쿼리에서 테이블 이름이나 별칭 없이 쓴 컬럼을 이름마다 한 번 보고합니다.
+   * 테이블 이름, 테이블 별칭, SELECT 별칭과 같은 이름은 컬럼으로 보지 않습니다.
+   */
+  private static checkUnqualifiedColumns(
+    block: SqlQueryBlock,
+    tables: SqlTableReference[],
+    columnAliases: SqlAlias[],
+    ctx: LintContext
+  ): void {
+    const known = new Set<string>();
+    for (const table of tables) {
+      for (const node of [table.name, table.alias?.name]) {
+        if (node) {
+          known.add(node.token.value.toUpperCase());
+        }
+      }
+    }
+    for (const alias of columnAliases) {
+      known.add(alias.name.token.value.toUpperCase());
+    }
+
+    const columns: SqlTokenNode[] = [];
+    for (const clause of block.clauses) {
+      if (clause.name !== null && COLUMN_CLAUSES.has(clause.name)) {
+        this.collectColumns(clause.name === 'SELECT' ? this.skipSelectModifiers(clause.body) : clause.body, columns);
+      }
+    }
+
+    const reported = new Set<string>();
+    for (const column of columns) {
+      const name = column.token.value.toUpperCase();
+      if (known.has(name) || PSEUDO_COLUMNS.has(name) || reported.has(name)) {
+        continue;
+      }
+      reported.add(name);
+      this.report(
+        ctx,
+        'ambiguous-column',
+        `여러 테이블을 조회하는 쿼리에서 컬럼 '${column.token.value}'의 테이블을 밝히지 않았습니다. 테이블 이름이나 별칭을 붙이세요.`,
+        column,
+        column
+      );
+    }
+  }
+
+  /**
+   * 테이블 없이 쓴 컬럼 식별자를 모읍니다. 함수 이름, 별칭, 변수, 형 변환 대상과 서브쿼리 안은 제외합니다.
+   */
+  private static collectColumns(nodes: SqlNode[], columns: SqlTokenNode[]): void {
+    nodes.forEach((node, index) => {
+      if (node.kind === 'group') {
+        if (!this.isQuery(node.children)) {
+          this.collectColumns(node.children, columns);
+        }
+        return;
+      }
+
+      const previous = nodes[index - 1];
+      const next = nodes[index + 1];
+      if (node.token.type !== 'identifier' || /^[@:$?]/.test(node.token.value) ||
+        LITERAL_WORDS.has(node.token.value.toUpperCase()) || this.isPunctuation(previous, '.') || this.isPunctuation(next, '.') || next?.kind === 'group') {
+        return;
+      }
+      // 변수(@x, :x), 형 변환(x::int), 별칭(AS x), 이름 있는 창(OVER w), 날짜 단위(EXTRACT(YEAR FROM d)), 별칭(expr x)
+      if (['@', ':', '::'].some(value => this.isPunctuation(previous, value)) ||
+        this.isKeyword(previous, 'AS') || this.isKeyword(previous, 'OVER') || this.isKeyword(next, 'FROM') ||
+        this.isImplicitAlias(previous, next)) {
+        return;
+      }
+      columns.push(node);
+    });
+  }
+
+  /**
+   * NOT IN 서브쿼리에 IS NOT NULL 조건이 없으면 보고합니다.
+   */
+  private static checkNotIn(not: SqlNode, subquery: SqlNode[], close: SqlNode, ctx: LintContext): void {
+    const words = subquery.filter(node => node.kind === 'token').map(node => this.getWord(node));
+    const guarded = words.some((word, index) => word === 'IS' && words[index + 1] === 'NOT' && words[index + 2] === 'NULL');
+    if (!guarded) {
+      this.report(
+        ctx,
+        'not-in-null',
+        'NOT IN 서브쿼리 결과에 NULL이 하나라도 있으면 조건이 참이 되지 않아 행이 나오지 않습니다. ' +
+          'NOT EXISTS를 쓰거나 서브쿼리에 IS NOT NULL 조건을 추가하세요.',
+        not,
+        close
+      );
+    }
+  }
+
+  /**
+   * 한 문 안에서 별칭 스타일(AS 유무)이 섞였으면 첫 별칭과 다른 별칭을 보고합니다. 컬럼과 테이블 별칭은 따로 봅니다.
+   */
+  private static checkAliasStyle(ctx: LintContext): void {
+    for (const kind of ['column', 'table'] as const) {
+      const aliases = ctx.aliases
+        .filter(alias => alias.kind === kind)
+        .sort((a, b) => a.name.token.start - b.name.token.start);
+      const explicit = aliases.find(alias => alias.as !== null);
+      if (!explicit || aliases.every(alias => alias.as !== null)) {
+        continue;
+      }
+
+      const label = kind === 'column' ? '컬럼' : '테이블';
+      const useAs = aliases[0].as !== null;
+      for (const alias of aliases) {
+        const name = alias.name.token.value;
+        if (useAs && alias.as === null) {
+          this.report(
+            ctx,
+            'alias-style',
+            `${label} 별칭 '${name}'에 AS가 없습니다. 이 문의 다른 ${label} 별칭은 AS를 붙입니다.`,
+            alias.name,
+            alias.name,
+            { description: 'AS 추가', replacement: `${explicit.as!.token.value} ${name}` }
+          );
+        } else if (!useAs && alias.as !== null) {
+          this.report(
+            ctx,
+            'alias-style',
+            `${label} 별칭 '${name}'에 AS가 붙어 있습니다. 이 문의 다른 ${label} 별칭은 AS 없이 씁니다.`,
+            alias.as,
+            alias.name,
+            { description: 'AS 제거', replacement: name }
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * 노드를 쿼리 블록과 절로 나눕니다. 괄호 안은 나누지 않습니다.
+   */
+  private static splitBlocks(nodes: SqlNode[], clauseWords: string[][]): SqlQueryBlock[] {
+    const blocks: SqlQueryBlock[] = [{ head: null, clauses: [{ name: null, keywords: [], body: [] }] }];
+
+    for (let i = 0; i < nodes.length; i++) {
+      const block = blocks[blocks.length - 1];
+      const clause = block.clauses[block.clauses.length - 1];
+      const node = nodes[i];
+      // MERGE는 일부 방언에서만 키워드이므로 문 맨 앞이면 식별자도 받음
+      const word = this.isKeyword(node) || (i === 0 && this.getWord(node) === 'MERGE') ? this.getWord(node) : '';
+
+      if (QUERY_HEADS.has(word) && this.isQueryHead(nodes[i - 1], word, block)) {
+        blocks.push({ head: word, clauses: [{ name: word, keywords: [node as SqlTokenNode], body: [] }] });
+        continue;
+      }
+
+      const joinLength = this.matchJoin(nodes, i);
+      const match = joinLength > 0 ? { name: 'JOIN', length: joinLength } : this.matchClause(nodes, i, clause, clauseWords);
+      if (match) {
+        block.clauses.push({ name: match.name, keywords: nodes.slice(i, i + match.length) as SqlTokenNode[], body: [] });
+        i += match.length - 1;
+        continue;
+      }
+
+      clause.body.push(node);
+    }
+
+    return blocks.filter(block => block.head !== null);
+  }
+
+  /**
+   * SELECT/INSERT/UPDATE/DELETE/MERGE 키워드가 새 쿼리를 시작하는지 확인합니다.
+   * MERGE의 WHEN ... THEN UPDATE와 INSERT ... ON CONFLICT DO UPDATE는 바깥 쿼리의 일부로 봅니다.
+   */
+  private static isQueryHead(previous: SqlNode | undefined, word: string, block: SqlQueryBlock): boolean {
+    // GRANT SELECT, UPDATE ON ...
+    if (this.isPunctuation(previous, ',') || this.isKeyword(previous, 'GRANT') || this.isKeyword(previous, 'REVOKE')) {
+      return false;
+    }
+    if (word === 'SELECT') {
+      return true;
+    }
+    if (this.isKeyword(previous) && NON_HEAD_PREVIOUS.has(this.getWord(previous))) {
+      return false;
+    }
+    return block.head !== 'MERGE' && !(block.head === 'INSERT' && this.isKeyword(previous, 'DO'));
+  }
+
+  /**
+   * 위치 index에서 시작하는 절 키워드를 찾습니다.
+   * @param clause 현재 절
+   */
+  private static matchClause(
+    nodes: SqlNode[],
+    index: number,
+    clause: SqlLintClause,
+    clauseWords: string[][]
+  ): { name: string; length: number } | null {
+    if (!this.isKeyword(nodes[index])) {
+      return null;
+    }
+
+    for (const words of clauseWords) {
+      if (!words.every((word, offset) => this.getWord(nodes[index + offset]) === word)) {
+        continue;
+      }
+      const name = words.join(' ');
+      if (JOIN_CONDITIONS.has(name) && clause.name !== 'JOIN') {
+        continue;
+      }
+      // IS DISTINCT FROM
+      if (name === 'FROM' && this.isKeyword(nodes[index - 1], 'DISTINCT')) {
+        continue;
+      }
+      return { name, length: words.length };
+    }
+    return null;
+  }
+
+  /**
+   * JOIN 계열 키워드([NATURAL] [LEFT|RIGHT|FULL|INNER|CROSS] [OUTER] JOIN, CROSS/OUTER APPLY)의 단어 수를 반환합니다.
+   */
+  private static matchJoin(nodes: SqlNode[], index: number): number {
+    let end = index;
+    while (end < nodes.length && JOIN_MODIFIERS.has(this.getWord(nodes[end]))) {
+      end++;
+    }
+
+    const word = this.isKeyword(nodes[end]) ? this.getWord(nodes[end]) : '';
+    if (word === 'JOIN' || word === 'STRAIGHT_JOIN' || (word === 'APPLY' && end > index)) {
+      return end - index + 1;
+    }
+    return 0;
+  }
+
+  /**
+   * SELECT 수식어(DISTINCT, TOP n, DISTINCT ON (...), AS STRUCT)를 건너뛴 컬럼 목록을 반환합니다.
+   */
+  private static skipSelectModifiers(body: SqlNode[]): SqlNode[] {
+    let index = 0;
+    while (index < body.length && this.isKeyword(body[index])) {
+      const word = this.getWord(body[index]);
+      if (SELECT_MODIFIERS.has(word)) {
+        index++;
+      } else if (word === 'TOP' || (word === 'ON' && index > 0) || (word === 'AS' && index === 0) ||
+        (word === 'WITH' && this.getWord(body[index + 1]) === 'TIES')) {
+        index += 2;
+      } else {
+        break;
+      }
+    }
+    return body.slice(index);
+  }
+
+  /**
+   * SELECT 항목 끝의 별칭을 찾습니다. (expr AS x, expr x)
+   */
+  private static findColumnAlias(item: SqlNode[]): SqlAlias | null {
+    const last = item[item.length - 1];
+    if (item.length < 2 || last.kind !== 'token' || last.token.type !== 'identifier') {
+      return null;
+    }
+
+    const previous = item[item.length - 2];
+    if (this.isKeyword(previous, 'AS')) {
+      return item.length > 2 ? { kind: 'column', name: last, as: previous as SqlTokenNode } : null;
+    }
+    return this.isImplicitAlias(previous, undefined) ? { kind: 'column', name: last, as: null } : null;
+  }
+
+  /**
+   * 앞 노드 바로 뒤의 식별자가 AS 없는 별칭 자리인지 확인합니다. (컬럼, 리터럴, 괄호, CASE ... END 뒤)
+   * @param next 식별자 다음 노드 (다음 항목으로 넘어가거나 문이 끝나야 별칭)
+   */
+  private static isImplicitAlias(previous: SqlNode | undefined, next: SqlNode | undefined): boolean {
+    if (next && !this.isPunctuation(next, ',') && !this.isKeyword(next)) {
+      return false;
+    }
+    if (previous?.kind === 'group') {
+      return true;
+    }
+    return previous?.kind === 'token' &&
+      (['identifier', 'string', 'number'].includes(previous.token.type) || this.isKeyword(previous, 'END'));
+  }
+
+  /**
+   * FROM/JOIN 항목에서 테이블 이름과 별칭을 읽습니다. ([LATERAL] schema.table [AS] alias, (subquery) [AS] alias, fn(...) [AS] alias)
+   */
+  private static parseTableReference(item: SqlNode[]): SqlTableReference {
+    let index = 0;
+    while (this.isKeyword(item[index]) && (TABLE_PREFIXES.has(this.getWord(item[index])) || this.getWord(item[index]) === 'TOP')) {
+      index += this.getWord(item[index]) === 'TOP' ? 2 : 1;
+    }
+
+    let name: SqlTokenNode | null = null;
+    while (item[index]?.kind === 'token' && !this.isPunctuation(item[index], '.')) {
+      const node = item[index] as SqlTokenNode;
+      if (node.token.type !== 'identifier' && node.token.type !== 'keyword') {
+        break;
+      }
+      name = node;
+      index++;
+      if (!this.isPunctuation(item[index], '.')) {
+        break;
+      }
+      index++;
+    }
+    // 서브쿼리, 테이블 함수 인자
+    if (item[index]?.kind === 'group') {
+      if (name?.token.type === 'keyword') {
+        name = null;
+      }
+      index++;
+    }
+
+    const as = this.isKeyword(item[index], 'AS') ? item[index] as SqlTokenNode : null;
+    const candidate = item[as ? index + 1 : index];
+    const alias: SqlAlias | null = candidate?.kind === 'token' && candidate.token.type === 'identifier'
+      ? { kind: 'table', name: candidate, as }
+      : null;
+    return { name, alias };
+  }
+
+  /**
+   * 최상위 쉼표로 목록을 나눕니다.
+   */
+  private static splitList(nodes: SqlNode[]): SqlNode[][] {
+    const items: SqlNode[][] = [[]];
+    for (const node of nodes) {
+      if (this.isPunctuation(node, ',')) {
+        items.push([]);
+      } else {
+        items[items.length - 1].push(node);
+      }
+    }
+    return items;
+  }
+
+  private static report(
+    ctx: LintContext,
+    ruleId: string,
+    message: string,
+    first: SqlNode,
+    last: SqlNode,
+    fix?: SqlLintIssue['fix']
+  ): void {
+    ctx.issues.push({
+      ruleId,
+      message,
+      start: first.kind === 'token' ? first.token.start : first.open.token.start,
+      end: last.kind === 'token' ? last.token.end : last.close.token.end,
+      ...(fix ? { fix } : {})
+    });
+  }
+
+  private static isQuery(children: SqlNode[]): boolean {
+    const word = this.isKeyword(children[0]) ? this.getWord(children[0]) : '';
+    return word === 'SELECT' || word === 'WITH';
+  }
+
+  private static isKeyword(node: SqlNode | undefined, word?: string): boolean {
+    return node?.kind === 'token' && node.token.type === 'keyword' &&
+      (word === undefined || node.token.value.toUpperCase() === word);
+  }
+
+  /**
+   * 키워드나 식별자의 대문자 값을 반환합니다. 그 밖의 노드는 빈 문자열입니다.
+   */
+  private static getWord(node: SqlNode | undefined): string {
+    if (node?.kind !== 'token' || (node.token.type !== 'keyword' && node.token.type !== 'identifier')) {
+      return '';
+    }
+    return node.token.value.toUpperCase();
+  }
+
+  private static isPunctuation(node: SqlNode | undefined, value: string): boolean {
+    return node?.kind === 'token' && node.token.value === value;
+  }
+}
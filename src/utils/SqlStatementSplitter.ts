@@ -0,0 +1,151 @@
+/**
+ * SQL 문 분리기
+ * 스크립트를 문 단위 조각으로 나눠 문마다 따로 포매팅할 수 있게 합니다.
+ * 문자열, 주석, 달러 인용은 토크나이저가 토큰 하나로 읽으므로 그 안의 세미콜론은 구분자가 되지 않습니다.
+ * 괄호 짝은 보지 않아 닫히지 않은 괄호가 있어도 그 문에서 끝납니다.
+ */
+
+import { Token } from '../types/TokenTypes';
+import { SqlDialectRules, SqlSourceStatement } from '../types/SqlTypes';
+
+/** 루틴을 만드는 CREATE 문의 객체 키워드 */
+const ROUTINE_OBJECTS: ReadonlySet<string> = new Set(['PROCEDURE', 'PROC', 'FUNCTION', 'TRIGGER', 'PACKAGE']);
+
+/** 블록이 아닌 트랜잭션 BEGIN 뒤에 오는 단어 */
+const TRANSACTION_WORDS: ReadonlySet<string> = new Set(['TRAN', 'TRANSACTION', 'WORK', 'DISTRIBUTED']);
+
+export class SqlStatementSplitter {
+  /**
+   * 토큰을 문 조각으로 나눕니다.
+   * - 세미콜론(또는 DELIMITER로 바꾼 구분자)에서 문이 끝나고, 같은 줄의 뒤 주석은 그 문에 남깁니다.
+   * - DELIMITER 명령 줄과 배치 구분자 줄(GO, /)은 각각 명령 조각이 됩니다.
+   * - 배치 구분자가 있는 방언에서 루틴 정의와 익명 블록(CREATE PROCEDURE, BEGIN, DECLARE)은 본문의 세미콜론에서
+   *   나누지 않고 배치 구분자까지 한 문으로 둡니다.
+   * @param code 원본 코드
+   * @param tokens SQL 토크나이저가 만든 토큰
+   * @param rules 방언 규칙
+   * @returns 원문 순서의 조각 목록 (공백만 있는 조각 제외)
+   */
+  public static split(code: string, tokens: Token[], rules: SqlDialectRules): SqlSourceStatement[] {
+    const statements: SqlSourceStatement[] = [];
+    let current: Token[] = [];
+    let delimiter = ';';
+    let closedBy: string | null = null;
+    // 구분자 뒤 같은 줄의 주석까지 현재 문에 넣는 중인지 여부
+    let closing = false;
+    let atLineStart = true;
+
+    const finish = (command: SqlSourceStatement['command']): void => {
+      const content = current.filter(token => token.type !== 'whitespace' && token.type !== 'newline');
+      closing = false;
+      // 공백만 있으면 다음 조각 앞 공백으로 넘겨 빈 줄 정보를 남김
+      if (content.length === 0) {
+        return;
+      }
+      statements.push({
+        tokens: current,
+        start: content[0].start,
+        end: content[content.length - 1].end,
+        delimiter: closedBy,
+        command
+      });
+      current = [];
+      closedBy = null;
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const lineStart = atLineStart;
+      if (token.type === 'newline') {
+        atLineStart = true;
+        if (closing) {
+          finish(null);
+        }
+        current.push(token);
+        continue;
+      }
+      if (token.type === 'whitespace') {
+        current.push(token);
+        continue;
+      }
+      atLineStart = false;
+
+      if (closing && token.type !== 'comment') {
+        finish(null);
+      }
+
+      // 명령은 줄 끝까지 한 조각
+      const isDelimiterCommand = rules.delimiterCommand && lineStart && token.type === 'keyword' &&
+        token.value.toUpperCase() === 'DELIMITER';
+      const isBatchSeparator = token.type === 'keyword' && token.value.toUpperCase() === rules.batchSeparator;
+      if (isDelimiterCommand || isBatchSeparator) {
+        finish(null);
+        let end = i;
+        while (end + 1 < tokens.length && tokens[end + 1].type !== 'newline') {
+          end++;
+        }
+        current.push(...tokens.slice(i, end + 1));
+        if (isDelimiterCommand) {
+          delimiter = code.slice(token.end, tokens[end].end).trim() || delimiter;
+        }
+        finish(isDelimiterCommand ? 'delimiter' : 'batch');
+        i = end;
+        continue;
+      }
+
+      if (token.value === ';' && delimiter === ';' && rules.batchSeparator && this.startsBlock(current, rules)) {
+        current.push(token);
+        continue;
+      }
+      if (delimiter === ';' ? token.value === ';' : code.startsWith(delimiter, token.start)) {
+        const end = this.findDelimiterEnd(tokens, i, token.start + delimiter.length);
+        if (end !== -1) {
+          current.push(delimiter === ';' ? token : { ...token, type: 'punctuation', value: delimiter, end: tokens[end].end });
+          closedBy = delimiter === ';' ? null : delimiter;
+          closing = true;
+          i = end;
+          continue;
+        }
+      }
+
+      current.push(token);
+    }
+
+    finish(null);
+    return statements;
+  }
+
+  /**
+   * 문이 배치 구분자까지 이어지는 루틴 정의나 익명 블록으로 시작하는지 확인합니다.
+   */
+  private static startsBlock(tokens: Token[], rules: SqlDialectRules): boolean {
+    const words = tokens
+      .filter(token => token.type === 'keyword' || token.type === 'identifier' || token.type === 'punctuation')
+      .slice(0, 6)
+      .map(token => token.value.toUpperCase());
+
+    switch (words[0]) {
+      case 'CREATE':
+        return words.some(word => ROUTINE_OBJECTS.has(word));
+      case 'BEGIN':
+        return words.length > 1 && !TRANSACTION_WORDS.has(words[1]);
+      case 'DECLARE':
+        return rules.declareSections;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 구분자가 토큰 경계에서 끝나면 마지막 토큰 위치를 반환합니다. (토큰 중간에서 끝나면 -1)
+   * @param end 구분자 끝 오프셋
+   */
+  private static findDelimiterEnd(tokens: Token[], index: number, end: number): number {
+    for (let i = index; i < tokens.length && tokens[i].start < end; i++) {
+      if (tokens[i].end === end) {
+        return i;
+      }
+    }
+    return -1;
+  }
+}
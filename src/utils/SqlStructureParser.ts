@@ -0,0 +1,191 @@
+/**
+ * SQL 구조 파서
+ * 포매팅을 위해 토큰을 세미콜론/배치 구분자로 나눈 문과 괄호 그룹 트리로 묶습니다.
+ * 절과 식은 해석하지 않으며, 주석은 앞뒤 노드에 붙여 출력기가 원래 자리 근처에 다시 둘 수 있게 합니다.
+ */
+
+import { Token } from '../types/TokenTypes';
+import { SqlNode, SqlStatement, SqlTokenNode } from '../types/SqlTypes';
+import { SourceParseError } from './SourceParseError';
+
+/**
+ * 아직 닫히지 않은 괄호 (최상위는 open이 null)
+ */
+interface ParseFrame {
+  open: SqlTokenNode | null;
+  nodes: SqlNode[];
+  /** 여는 괄호 앞 줄에 홀로 쓴 주석 */
+  leadingComments: SqlTokenNode[];
+}
+
+export class SqlStructureParser {
+  /**
+   * 토큰을 문 목록으로 나눕니다.
+   * @param tokens SQL 토크나이저가 만든 토큰 (공백/개행 포함)
+   * @param batchSeparator 한 줄에 홀로 쓰는 배치 구분자 (T-SQL GO)
+   * @param delimiter 세미콜론 외에 문을 끝내는 사용자 지정 구분자 (MySQL DELIMITER //)
+   * @returns 원문 순서의 문 목록
+   * @throws 괄호 짝이 맞지 않으면 'SQL N번째 줄: ...' SourceParseError
+   */
+  public static parse(tokens: Token[], batchSeparator?: string, delimiter?: string): SqlStatement[] {
+    const statements: SqlStatement[] = [];
+    const frames: ParseFrame[] = [{ open: null, nodes: [], leadingComments: [] }];
+    let statement = this.createStatement();
+    let pending: SqlTokenNode[] = [];
+    let lastNode: SqlNode | null = null;
+    let spaceBefore = false;
+    let ownLine = true;
+    let newlines = 0;
+    let inBatchSeparator = false;
+
+    const top = (): ParseFrame => frames[frames.length - 1];
+    const isStatementEmpty = (): boolean =>
+      frames.length === 1 && top().nodes.length === 0 && statement.leadingComments.length === 0 && pending.length === 0;
+    const finish = (terminator: SqlTokenNode | null): void => {
+      statement.nodes = frames[0].nodes;
+      statement.terminator = terminator;
+      if (statement.nodes.length > 0 || statement.leadingComments.length > 0 || terminator) {
+        statements.push(statement);
+      }
+      frames[0].nodes = [];
+      statement = this.createStatement();
+    };
+    // 괄호나 문 끝에 남은 주석은 마지막 노드 뒤에 붙임
+    const attachDangling = (fallback: SqlTokenNode | null): void => {
+      const nodes = top().nodes;
+      const target = nodes[nodes.length - 1] ?? fallback;
+      if (target && pending.length > 0) {
+        target.trailingComments.push(...pending);
+        pending = [];
+      }
+    };
+
+    for (const token of tokens) {
+      if (token.type === 'newline') {
+        spaceBefore = true;
+        ownLine = true;
+        newlines++;
+        continue;
+      }
+      if (token.type === 'whitespace') {
+        spaceBefore = true;
+        continue;
+      }
+
+      const node: SqlTokenNode = { kind: 'token', token, spaceBefore, ownLine, leadingComments: [], trailingComments: [] };
+      const blankLineBefore = newlines >= 2;
+      spaceBefore = false;
+      ownLine = false;
+      newlines = 0;
+
+      // 배치 구분자 줄이 끝나면 다음 문 시작
+      if (inBatchSeparator && node.ownLine) {
+        finish(null);
+        inBatchSeparator = false;
+      }
+
+      if (token.type === 'comment') {
+        if (!node.ownLine && lastNode) {
+          lastNode.trailingComments.push(node);
+          continue;
+        }
+        if (frames.length === 1 && top().nodes.length === 0) {
+          // 빈 줄로 떨어진 주석 묶음은 주석만 있는 문으로 둠
+          if (blankLineBefore && pending.length > 0) {
+            statement.leadingComments = pending;
+            pending = [];
+            finish(null);
+          }
+          if (isStatementEmpty()) {
+            statement.blankLineBefore = blankLineBefore && statements.length > 0;
+          }
+        }
+        pending.push(node);
+        continue;
+      }
+
+      if (isStatementEmpty()) {
+        statement.blankLineBefore = blankLineBefore && statements.length > 0;
+      }
+
+      if (token.value === ')') {
+        if (frames.length === 1) {
+          this.fail(token, "여는 '(' 없이 ')'가 있습니다.");
+        }
+        attachDangling(top().open);
+        const frame = frames.pop()!;
+        const group: SqlNode = {
+          kind: 'group',
+          open: frame.open!,
+          children: frame.nodes,
+          close: node,
+          leadingComments: frame.leadingComments,
+          trailingComments: []
+        };
+        top().nodes.push(group);
+        lastNode = group;
+        continue;
+      }
+
+      if ((token.value === ';' || token.value === delimiter) && frames.length === 1) {
+        attachDangling(null);
+        statement.leadingComments.push(...pending);
+        pending = [];
+        finish(node);
+        lastNode = node;
+        continue;
+      }
+
+      const leadingComments = pending;
+      const atStatementStart = frames.length === 1 && top().nodes.length === 0;
+      pending = [];
+
+      if (batchSeparator && token.type === 'keyword' && frames.length === 1 &&
+        token.value.toUpperCase() === batchSeparator) {
+        // 배치 구분자는 앞 문을 끝내고 그 줄과 함께 따로 한 문이 됨
+        if (!atStatementStart) {
+          finish(null);
+          statement.blankLineBefore = blankLineBefore;
+        }
+        statement.leadingComments.push(...leadingComments);
+        top().nodes.push(node);
+        inBatchSeparator = true;
+      } else if (token.value === '(') {
+        if (atStatementStart) {
+          statement.leadingComments.push(...leadingComments);
+        }
+        frames.push({ open: node, nodes: [], leadingComments: atStatementStart ? [] : leadingComments });
+      } else {
+        if (atStatementStart) {
+          statement.leadingComments.push(...leadingComments);
+        } else {
+          node.leadingComments = leadingComments;
+        }
+        top().nodes.push(node);
+      }
+      lastNode = node;
+    }
+
+    if (frames.length > 1) {
+      this.fail(top().open!.token, "괄호를 닫는 ')'가 없습니다.");
+    }
+
+    if (pending.length > 0) {
+      if (frames[0].nodes.length > 0) {
+        attachDangling(null);
+      } else {
+        statement.leadingComments.push(...pending);
+      }
+    }
+    finish(null);
+    return statements;
+  }
+
+  private static createStatement(): SqlStatement {
+    return { leadingComments: [], nodes: [], terminator: null, blankLineBefore: false };
+  }
+
+  private static fail(token: Token, message: string): never {
+    throw new SourceParseError('SQL', token.line, token.column, message);
+  }
+}
@@ -0,0 +1,446 @@
+/**
+ * 코드 스타일 감지 유틸리티
+ * 붙여넣은 코드에서 들여쓰기, 중괄호 위치, 따옴표, 세미콜론, trailing comma,
+ * SQL 키워드 대소문자와 쉼표 위치를 추론하고 언어별 프리셋과의 일치도를 계산합니다.
+ */
+
+import {
+  SupportedLanguage,
+  FormattingConvention,
+  PresetConvention
+} from '../types/FormattingTypes';
+import {
+  DetectedStyleField,
+  PresetFieldMatch,
+  PresetMatch,
+  StyleDetectionResult
+} from '../types/StyleDetectionTypes';
+import { Token } from '../types/TokenTypes';
+import { LanguagePlugin } from '../types/LanguagePluginTypes';
+import { BaseTokenizer } from '../tokenizers/BaseTokenizer';
+import { JavaScriptTokenizer } from '../tokenizers/JavaScriptTokenizer';
+import { TokenUtils } from '../tokenizers/TokenUtils';
+import { LanguageRegistry } from '../services/LanguageRegistry';
+
+type FieldValue = string | number | boolean;
+
+/**
+ * 필드별 표본 집계 (값 → 표본 수)
+ */
+type VoteMap = Map<FieldValue, number>;
+
+/**
+ * 여닫는 괄호 스택 항목
+ */
+interface OpenBracket {
+  token: Token;
+  /** 객체/배열 리터럴 여부 (trailing comma 판단 대상) */
+  isCollection: boolean;
+}
+
+export class StyleDetector {
+  /** 추론할 수 있는 들여쓰기 증가폭 상한 */
+  private static readonly MAX_INDENT_STEP = 8;
+
+  /** 탭을 열 너비로 환산할 때의 폭 (중괄호 위치 비교용) */
+  private static readonly TAB_WIDTH = 4;
+
+  /** 신뢰도 계산 시 표본 수 보정 상수 (표본이 적을수록 신뢰도를 낮춤) */
+  private static readonly SAMPLE_SMOOTHING = 2;
+
+  /** 블록을 여는 중괄호 앞에 오는 키워드 */
+  private static readonly BLOCK_KEYWORDS = new Set(['else', 'try', 'finally', 'do', 'init']);
+
+  /** 타입 선언 키워드 (선언 줄의 중괄호는 블록) */
+  private static readonly DECLARATION_KEYWORDS = new Set(['class', 'interface', 'enum', 'object', 'record']);
+
+  /** 객체 리터럴 중괄호 앞에 오는 토큰 (JavaScript) */
+  private static readonly OBJECT_LITERAL_PRECEDING = new Set([
+    '=', '(', ',', ':', '[', '?', '||', '&&', '??', 'return', '...'
+  ]);
+
+  /** 문장을 이어가는 키워드 (앞 줄이 끝난 문장이 아님을 뜻함) */
+  private static readonly CONTINUATION_KEYWORDS = new Set([
+    'else', 'catch', 'finally', 'instanceof', 'in', 'of', 'as', 'extends', 'implements', 'from'
+  ]);
+
+  /**
+   * 코드에서 스타일을 추론하고 프리셋을 일치도 순으로 정렬합니다.
+   * @param code 분석할 코드
+   * @param language 코드 언어
+   * @returns 스타일 감지 결과
+   */
+  public static detect(code: string, language: SupportedLanguage): StyleDetectionResult {
+    const plugin = LanguageRegistry.require(language);
+    const presets: PresetConvention[] = plugin.presets;
+    const baseConvention = presets[0].convention as unknown as Record<string, unknown>;
+    const tokens = this.getTokenizer(plugin).tokenize(code.replace(/\r\n/g, '\n'));
+
+    const votes = new Map<string, VoteMap>();
+    const vote = (key: string, value: FieldValue) => {
+      if (!(key in baseConvention)) {
+        return;
+      }
+      const fieldVotes = votes.get(key) ?? new Map<FieldValue, number>();
+      fieldVotes.set(value, (fieldVotes.get(value) ?? 0) + 1);
+      votes.set(key, fieldVotes);
+    };
+
+    const lineIndents = this.collectLineIndents(tokens);
+    this.detectIndentation(lineIndents, vote);
+    if (language === 'sql') {
+      this.detectSqlStyle(tokens, vote);
+    } else {
+      this.detectBraceStyle(tokens, lineIndents, language, vote);
+      this.detectQuoteStyle(tokens, vote);
+      this.detectSemicolons(tokens, vote);
+      if ('trailingComma' in baseConvention) {
+        this.detectTrailingCommas(tokens, language, votes);
+      }
+    }
+
+    const fields = this.summarize(votes);
+    const matches = this.rankPresets(presets, fields);
+    return {
+      language,
+      fields,
+      matches,
+      convention: this.buildConvention(matches[0].preset, fields)
+    };
+  }
+
+  /**
+   * 언어의 토크나이저를 반환합니다. 토크나이저가 없는 언어(JSON 등)는 JavaScript 토크나이저로 읽습니다.
+   */
+  private static getTokenizer(plugin: LanguagePlugin): BaseTokenizer {
+    return plugin.createTokenizer?.() ?? new JavaScriptTokenizer();
+  }
+
+  /**
+   * 코드로 시작하는 줄의 앞쪽 공백을 줄 번호별로 모읍니다.
+   * 주석만 있는 줄(Javadoc의 ' * ' 등)과 여러 줄 문자열 내부 줄은 제외됩니다.
+   */
+  private static collectLineIndents(tokens: Token[]): Map<number, string> {
+    const indents = new Map<number, string>();
+    tokens.forEach((token, index) => {
+      const lineStart = index === 0 || tokens[index - 1].type === 'newline';
+      if (!lineStart) {
+        return;
+      }
+      const first = token.type === 'whitespace' ? tokens[index + 1] : token;
+      if (first && first.type !== 'newline' && first.type !== 'comment') {
+        indents.set(token.line, token.type === 'whitespace' ? token.value : '');
+      }
+    });
+    return indents;
+  }
+
+  /**
+   * 들여쓰기 종류와 크기를 추론합니다.
+   * 크기는 공백으로 들여쓴 줄이 바로 앞 줄보다 깊어질 때의 증가폭으로 판단합니다.
+   */
+  private static detectIndentation(
+    lineIndents: Map<number, string>,
+    vote: (key: string, value: FieldValue) => void
+  ): void {
+    let previousWidth: number | null = null;
+    for (const indent of lineIndents.values()) {
+      if (indent.startsWith('\t')) {
+        vote('indentationType', 'tab');
+        previousWidth = null;
+        continue;
+      }
+      if (indent.length > 0) {
+        vote('indentationType', 'space');
+      }
+
+      const width = indent.length;
+      if (previousWidth !== null && width > previousWidth && width - previousWidth <= this.MAX_INDENT_STEP) {
+        vote('indentSize', width - previousWidth);
+      }
+      previousWidth = width;
+    }
+  }
+
+  /**
+   * 블록 중괄호의 위치로 중괄호 스타일을 추론합니다.
+   */
+  private static detectBraceStyle(
+    tokens: Token[],
+    lineIndents: Map<number, string>,
+    language: SupportedLanguage,
+    vote: (key: string, value: FieldValue) => void
+  ): void {
+    if (language === 'json') {
+      return;
+    }
+
+    const declarationLines = new Set(tokens
+      .filter(token => token.type === 'keyword' && this.DECLARATION_KEYWORDS.has(token.value))
+      .map(token => token.line));
+
+    tokens.forEach((token, index) => {
+      if (token.value !== '{') {
+        return;
+      }
+      const previous = TokenUtils.previousSignificant(tokens, index);
+      if (!previous || !this.isBlockBrace(previous, declarationLines)) {
+        return;
+      }
+
+      if (previous.line === token.line) {
+        vote('braceStyle', 'kr');
+        return;
+      }
+
+      const next = TokenUtils.nextSignificant(tokens, index);
+      if (next && next.line === token.line && next.value !== '}') {
+        vote('braceStyle', 'horstmann');
+        return;
+      }
+
+      const braceWidth = this.indentWidth(lineIndents.get(token.line) ?? '');
+      const ownerWidth = this.indentWidth(lineIndents.get(previous.line) ?? '');
+      vote('braceStyle', braceWidth > ownerWidth ? 'gnu' : 'allman');
+    });
+  }
+
+  /**
+   * 중괄호가 제어문/함수/타입 선언의 블록을 여는지 확인합니다.
+   * JavaScript 객체 리터럴과 Kotlin 람다 인자처럼 스타일과 무관한 중괄호는 제외합니다.
+   */
+  private static isBlockBrace(previous: Token, declarationLines: Set<number>): boolean {
+    if (previous.value === ')' || this.BLOCK_KEYWORDS.has(previous.value)) {
+      return true;
+    }
+    if (previous.type !== 'identifier' && previous.value !== '>') {
+      return false;
+    }
+    // 선언 줄에 class/interface 등이 있으면 타입 본문
+    return declarationLines.has(previous.line);
+  }
+
+  private static indentWidth(indent: string): number {
+    return indent.replace(/\t/g, ' '.repeat(this.TAB_WIDTH)).length;
+  }
+
+  /**
+   * 문자열 리터럴의 따옴표로 따옴표 스타일을 추론합니다.
+   * 반대 따옴표를 포함해 선택의 여지가 없는 문자열은 제외합니다.
+   */
+  private static detectQuoteStyle(tokens: Token[], vote: (key: string, value: FieldValue) => void): void {
+    for (const token of tokens) {
+      if (token.type !== 'string') {
+        continue;
+      }
+      const quote = token.value[0];
+      const body = token.value.slice(1, -1);
+      if (quote === '\'' && !body.includes('"')) {
+        vote('quoteStyle', 'single');
+      } else if (quote === '"' && !body.includes('\'')) {
+        vote('quoteStyle', 'double');
+      }
+    }
+  }
+
+  /**
+   * 줄 끝에서 문장이 끝나는 방식으로 세미콜론 사용 여부를 추론합니다.
+   * 세미콜론 없이 끝난 줄은 다음 줄이 새 문장(식별자/키워드)으로 시작할 때만 셉니다.
+   */
+  private static detectSemicolons(tokens: Token[], vote: (key: string, value: FieldValue) => void): void {
+    let parenDepth = 0;
+
+    tokens.forEach((token, index) => {
+      if (token.value === '(' || token.value === '[') {
+        parenDepth++;
+      } else if (token.value === ')' || token.value === ']') {
+        parenDepth = Math.max(0, parenDepth - 1);
+      }
+      if (token.type !== 'newline' || parenDepth > 0) {
+        return;
+      }
+
+      const last = TokenUtils.previousSignificant(tokens, index);
+      if (!last || last.line !== token.line) {
+        return;
+      }
+      if (last.value === ';') {
+        vote('useSemicolons', true);
+        return;
+      }
+
+      const endsExpression = ['identifier', 'number', 'string', 'regex'].includes(last.type) || last.value === ']';
+      const next = TokenUtils.nextSignificant(tokens, index);
+      const startsStatement = next !== undefined &&
+        (next.type === 'identifier' || next.type === 'keyword') &&
+        !this.CONTINUATION_KEYWORDS.has(next.value);
+      if (endsExpression && startsStatement) {
+        vote('useSemicolons', false);
+      }
+    });
+  }
+
+  /**
+   * 여러 줄로 펼친 객체/배열(과 함수 인자)의 마지막 요소 뒤 쉼표로 trailing comma를 추론합니다.
+   */
+  private static detectTrailingCommas(
+    tokens: Token[],
+    language: SupportedLanguage,
+    votes: Map<string, VoteMap>
+  ): void {
+    const stack: OpenBracket[] = [];
+    const collectionVotes: VoteMap = new Map();
+    const argumentVotes: VoteMap = new Map();
+
+    tokens.forEach((token, index) => {
+      if (token.value === '{' || token.value === '[' || token.value === '(') {
+        const previous = TokenUtils.previousSignificant(tokens, index);
+        const isCollection = token.value === '[' ||
+          (token.value === '{' && (language === 'json' || !previous || this.OBJECT_LITERAL_PRECEDING.has(previous.value)));
+        stack.push({ token, isCollection });
+        return;
+      }
+      if (token.value !== '}' && token.value !== ']' && token.value !== ')') {
+        return;
+      }
+
+      const open = stack.pop();
+      const last = TokenUtils.previousSignificant(tokens, index);
+      if (!open || !last || last === open.token || last.line === token.line || open.token.line === token.line) {
+        return;
+      }
+
+      const target = open.token.value === '(' ? argumentVotes : open.isCollection ? collectionVotes : null;
+      if (target) {
+        const hasComma = last.value === ',';
+        target.set(hasComma, (target.get(hasComma) ?? 0) + 1);
+      }
+    });
+
+    if (language === 'json') {
+      if (collectionVotes.size > 0) {
+        votes.set('trailingComma', collectionVotes);
+      }
+      return;
+    }
+
+    // JavaScript: 객체/배열로 none 여부를, 함수 인자로 es5/all을 구분
+    const collection = this.pickWinner(collectionVotes);
+    if (!collection) {
+      return;
+    }
+    const argument = this.pickWinner(argumentVotes);
+    const value = !collection.value ? 'none' : argument?.value ? 'all' : 'es5';
+    const fieldVotes: VoteMap = new Map([[value, collection.count]]);
+    if (collection.total > collection.count) {
+      fieldVotes.set(collection.value ? 'none' : 'es5', collection.total - collection.count);
+    }
+    votes.set('trailingComma', fieldVotes);
+  }
+
+  /**
+   * SQL 키워드 대소문자와 쉼표 위치를 추론합니다.
+   */
+  private static detectSqlStyle(tokens: Token[], vote: (key: string, value: FieldValue) => void): void {
+    tokens.forEach((token, index) => {
+      if (token.type === 'keyword') {
+        if (/^[A-Z]+$/.test(token.value)) {
+          vote('keywordCase', 'upper');
+        } else if (/^[a-z]+$/.test(token.value)) {
+          vote('keywordCase', 'lower');
+        } else if (/^[A-Z][a-z]+$/.test(token.value)) {
+          vote('keywordCase', 'capitalize');
+        }
+        return;
+      }
+
+      if (token.value !== ',') {
+        return;
+      }
+      const previous = TokenUtils.previousSignificant(tokens, index);
+      const next = TokenUtils.nextSignificant(tokens, index);
+      if (previous && previous.line !== token.line) {
+        vote('commaPosition', 'leading');
+      } else if (next && next.line !== token.line) {
+        vote('commaPosition', 'trailing');
+      }
+    });
+  }
+
+  /**
+   * 가장 많은 표본을 얻은 값을 반환합니다.
+   */
+  private static pickWinner(votes: VoteMap): { value: FieldValue; count: number; total: number } | null {
+    let winner: { value: FieldValue; count: number } | null = null;
+    let total = 0;
+    for (const [value, count] of votes) {
+      total += count;
+      if (!winner || count > winner.count) {
+        winner = { value, count };
+      }
+    }
+    return winner ? { ...winner, total } : null;
+  }
+
+  /**
+   * 필드별 표본을 추론 결과로 정리합니다.
+   * 신뢰도 = (최다 값 표본 비율) × n / (n + 보정 상수)
+   */
+  private static summarize(votes: Map<string, VoteMap>): DetectedStyleField[] {
+    const fields: DetectedStyleField[] = [];
+    for (const [key, fieldVotes] of votes) {
+      const winner = this.pickWinner(fieldVotes);
+      if (!winner) {
+        continue;
+      }
+      const confidence = (winner.count / winner.total) * (winner.total / (winner.total + this.SAMPLE_SMOOTHING));
+      fields.push({ key, value: winner.value, confidence: Math.round(confidence * 100) / 100, samples: winner.total });
+    }
+
+    // 탭 들여쓰기에서는 증가폭 표본이 없으므로 크기를 추론하지 않음
+    const indentationType = fields.find(field => field.key === 'indentationType');
+    return indentationType?.value === 'tab'
+      ? fields.filter(field => field.key !== 'indentSize')
+      : fields;
+  }
+
+  /**
+   * 프리셋을 신뢰도로 가중한 필드 일치 비율 순으로 정렬합니다. 동점이면 인기도 순입니다.
+   */
+  private static rankPresets(presets: PresetConvention[], fields: DetectedStyleField[]): PresetMatch[] {
+    const totalWeight = fields.reduce((sum, field) => sum + field.confidence, 0);
+
+    return presets
+      .map(preset => {
+        const convention = preset.convention as unknown as Record<string, FieldValue>;
+        const fieldMatches: PresetFieldMatch[] = fields.map(field => ({
+          key: field.key,
+          detected: field.value,
+          expected: convention[field.key],
+          confidence: field.confidence,
+          matches: convention[field.key] === field.value
+        }));
+        const matchedWeight = fieldMatches
+          .filter(field => field.matches)
+          .reduce((sum, field) => sum + field.confidence, 0);
+        const score = totalWeight > 0 ? Math.round((matchedWeight / totalWeight) * 100) / 100 : 0;
+        return { preset, score, fields: fieldMatches };
+      })
+      .sort((a, b) => b.score - a.score || b.preset.popularity - a.preset.popularity);
+  }
+
+  /**
+   * 가장 가까운 프리셋에 추론한 값을 덮어쓴 컨벤션을 만듭니다.
+   */
+  private static buildConvention(preset: PresetConvention, fields: DetectedStyleField[]): FormattingConvention {
+    const convention: Record<string, unknown> = {
+      ...preset.convention,
+      name: `감지한 컨벤션 (${preset.name} 기반)`,
+      description: `코드에서 ${fields.length}개 필드를 추론하고 나머지는 ${preset.name} 값을 사용합니다.`
+    };
+    fields.forEach(field => {
+      convention[field.key] = field.value;
+    });
+    return convention as unknown as FormattingConvention;
+  }
+}
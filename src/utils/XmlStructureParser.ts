@@ -0,0 +1,426 @@
+/**
+ * XML/HTML 구조 파서
+ * 포매팅을 위해 문서를 요소, 텍스트, 주석, CDATA, 처리 명령, DOCTYPE 노드로 나눕니다.
+ * 엔티티나 속성 값을 해석하지 않으므로 텍스트와 값이 원문 그대로 남습니다.
+ * HTML에서는 빈 요소(br, img 등), 원문 텍스트 요소(script, style 등), 생략 가능한 닫는 태그(li, p 등)를 처리합니다.
+ */
+
+import { XmlAttribute, XmlElement, XmlNode } from '../types/XmlTypes';
+import { SourceParseError } from './SourceParseError';
+
+/**
+ * 닫는 태그를 기다리는 요소
+ */
+interface OpenElement {
+  element: XmlElement;
+  /** 여는 태그 시작 위치 */
+  start: number;
+  /** 내용 시작 위치 (여는 태그 바로 뒤) */
+  contentStart: number;
+}
+
+/**
+ * 파싱하는 동안의 상태
+ */
+interface ParseContext {
+  code: string;
+  html: boolean;
+  index: number;
+  root: XmlNode[];
+  stack: OpenElement[];
+}
+
+export class XmlStructureParser {
+  /** HTML 빈 요소 (닫는 태그가 없음) */
+  private static readonly VOID_ELEMENTS = new Set([
+    'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+    'link', 'meta', 'param', 'source', 'track', 'wbr'
+  ]);
+
+  /** HTML 인라인 요소 (앞뒤에 줄바꿈을 넣으면 화면에 공백이 생김) */
+  private static readonly INLINE_ELEMENTS = new Set([
+    'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'button', 'cite', 'code', 'data', 'del', 'dfn', 'em',
+    'i', 'img', 'input', 'ins', 'kbd', 'label', 'mark', 'meter', 'output', 'progress', 'q', 's',
+    'samp', 'select', 'small', 'span', 'strong', 'sub', 'sup', 'svg', 'textarea', 'time', 'u', 'var', 'wbr'
+  ]);
+
+  /** HTML에서 내용을 태그로 해석하지 않는 요소 */
+  private static readonly RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+  /** 공백이 의미를 가져 원문 그대로 두는 요소 */
+  private static readonly PRESERVED_ELEMENTS = new Set(['pre', 'textarea', 'script', 'style']);
+
+  /** HTML에서 닫는 태그를 생략할 수 있는 요소 */
+  private static readonly OPTIONAL_END_ELEMENTS = new Set([
+    'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'option', 'optgroup',
+    'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'colgroup', 'rt', 'rp'
+  ]);
+
+  /** 열린 <p>를 닫는 블록 요소 */
+  private static readonly CLOSES_PARAGRAPH = [
+    'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figure',
+    'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav',
+    'ol', 'p', 'pre', 'section', 'table', 'ul'
+  ];
+
+  /** HTML 여는 태그가 암시적으로 닫는 (바로 위에 열린) 요소 */
+  private static readonly IMPLIED_END: Record<string, string[]> = {
+    li: ['li'],
+    dt: ['dt', 'dd'],
+    dd: ['dt', 'dd'],
+    option: ['option'],
+    optgroup: ['option', 'optgroup'],
+    tr: ['tr', 'td', 'th'],
+    td: ['td', 'th'],
+    th: ['td', 'th'],
+    thead: ['tbody', 'tfoot', 'tr', 'td', 'th'],
+    tbody: ['thead', 'tbody', 'tr', 'td', 'th'],
+    tfoot: ['thead', 'tbody', 'tr', 'td', 'th'],
+    rt: ['rt', 'rp'],
+    rp: ['rt', 'rp'],
+    body: ['head'],
+    ...Object.fromEntries(XmlStructureParser.CLOSES_PARAGRAPH.map(name => [name, ['p']]))
+  };
+
+  private static readonly TAG_NAME = /[A-Za-z_:][-\w:.]*/y;
+  private static readonly ATTRIBUTE_NAME = /[^\s"'<>/=]+/y;
+  private static readonly UNQUOTED_VALUE = /[^\s"'<>=`]+/y;
+  private static readonly CLOSE_TAG = /<\/([^\s<>/]+)\s*>/y;
+
+  /**
+   * 문서를 노드 목록으로 파싱합니다.
+   * @param code XML/HTML 코드
+   * @param html HTML 규칙(빈 요소, 원문 텍스트 요소, 생략 가능한 닫는 태그, 대소문자 무시)을 적용할지 여부
+   * @returns 최상위 노드 목록
+   * @throws 태그 구조가 잘못되었으면 'XML N번째 줄: ...' (HTML이면 'HTML N번째 줄: ...') SourceParseError
+   */
+  public static parse(code: string, html: boolean): XmlNode[] {
+    const ctx: ParseContext = { code, html, index: 0, root: [], stack: [] };
+    let textStart = 0;
+
+    while (ctx.index < code.length) {
+      const lt = code.indexOf('<', ctx.index);
+      if (lt < 0) {
+        break;
+      }
+      if (!this.isMarkup(ctx, lt)) {
+        ctx.index = lt + 1;
+        continue;
+      }
+
+      this.pushText(ctx, textStart, lt);
+      ctx.index = lt;
+      this.readMarkup(ctx);
+      textStart = ctx.index;
+    }
+
+    this.pushText(ctx, textStart, code.length);
+    this.closeAtEnd(ctx);
+    return ctx.root;
+  }
+
+  /**
+   * HTML 빈 요소(br, img 등)인지 확인합니다.
+   */
+  public static isVoidElement(name: string): boolean {
+    return this.VOID_ELEMENTS.has(name.toLowerCase());
+  }
+
+  /**
+   * HTML 인라인 요소(a, span, strong 등)인지 확인합니다.
+   */
+  public static isInlineElement(name: string): boolean {
+    return this.INLINE_ELEMENTS.has(name.toLowerCase());
+  }
+
+  /**
+   * '<'가 태그/주석 등의 시작인지 확인합니다. HTML에서는 'a < b' 같은 '<'를 텍스트로 봅니다.
+   */
+  private static isMarkup(ctx: ParseContext, lt: number): boolean {
+    const next = ctx.code[lt + 1] ?? '';
+    if (/[A-Za-z_:/!?]/.test(next)) {
+      return true;
+    }
+    if (ctx.html) {
+      return false;
+    }
+    this.fail(ctx, lt, "텍스트의 '<'는 &lt;로 써야 합니다.");
+  }
+
+  private static readMarkup(ctx: ParseContext): void {
+    const { code, index } = ctx;
+
+    if (code.startsWith('<!--', index)) {
+      this.pushRaw(ctx, 'comment', this.readUntil(ctx, '-->', '주석이 닫히지 않았습니다.'));
+    } else if (code.startsWith('<![CDATA[', index)) {
+      this.pushRaw(ctx, 'cdata', this.readUntil(ctx, ']]>', 'CDATA 구역이 닫히지 않았습니다.'));
+    } else if (code.startsWith('<!', index)) {
+      this.pushRaw(ctx, 'doctype', this.readDoctype(ctx));
+    } else if (code.startsWith('<?', index)) {
+      this.pushRaw(ctx, 'instruction', this.readUntil(ctx, '?>', '처리 명령(<?...?>)이 닫히지 않았습니다.'));
+    } else if (code.startsWith('</', index)) {
+      this.readCloseTag(ctx);
+    } else {
+      this.readOpenTag(ctx);
+    }
+  }
+
+  /**
+   * 종료 문자열까지 읽고 원문을 반환합니다.
+   */
+  private static readUntil(ctx: ParseContext, terminator: string, message: string): string {
+    const end = ctx.code.indexOf(terminator, ctx.index + 2);
+    if (end < 0) {
+      this.fail(ctx, ctx.index, message);
+    }
+    const text = ctx.code.slice(ctx.index, end + terminator.length);
+    ctx.index = end + terminator.length;
+    return text;
+  }
+
+  /**
+   * <!DOCTYPE ...>를 읽습니다. 내부 부분집합([...])과 따옴표 안의 '>'는 건너뜁니다.
+   */
+  private static readDoctype(ctx: ParseContext): string {
+    const { code } = ctx;
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = ctx.index + 2; i < code.length; i++) {
+      const char = code[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === '\'') {
+        quote = char;
+      } else if (char === '[') {
+        depth++;
+      } else if (char === ']') {
+        depth--;
+      } else if (char === '>' && depth <= 0) {
+        const text = code.slice(ctx.index, i + 1);
+        ctx.index = i + 1;
+        return text;
+      }
+    }
+    this.fail(ctx, ctx.index, '선언(<!...>)이 닫히지 않았습니다.');
+  }
+
+  private static readOpenTag(ctx: ParseContext): void {
+    const { code, html } = ctx;
+    const start = ctx.index;
+    const name = this.match(this.TAG_NAME, code, start + 1);
+    if (!name) {
+      this.fail(ctx, start, '태그 이름이 없습니다.');
+    }
+
+    ctx.index = start + 1 + name.length;
+    const attributes = this.readAttributes(ctx, name);
+    const writtenSelfClosing = code.startsWith('/>', ctx.index);
+    ctx.index += writtenSelfClosing ? 2 : 1;
+
+    const key = html ? name.toLowerCase() : name;
+    if (html) {
+      this.closeImplied(ctx, key, start);
+    }
+
+    const element: XmlElement = {
+      kind: 'element',
+      name,
+      attributes,
+      selfClosing: writtenSelfClosing || (html && this.VOID_ELEMENTS.has(key)),
+      hasEndTag: false,
+      children: [],
+      preserve: this.PRESERVED_ELEMENTS.has(key) || attributes.some(attribute =>
+        attribute.name === 'xml:space' && attribute.value?.slice(1, -1) === 'preserve'),
+      source: '',
+      content: ''
+    };
+    this.children(ctx).push(element);
+
+    if (element.selfClosing) {
+      element.source = code.slice(start, ctx.index);
+      return;
+    }
+
+    if (html && this.RAW_TEXT_ELEMENTS.has(key)) {
+      const close = new RegExp(`</${key}\\s*>`, 'ig');
+      close.lastIndex = ctx.index;
+      const match = close.exec(code);
+      if (!match) {
+        this.fail(ctx, start, `<${name}> 태그가 닫히지 않았습니다.`);
+      }
+      element.content = code.slice(ctx.index, match.index);
+      if (element.content !== '') {
+        element.children.push({ kind: 'text', text: element.content });
+      }
+      element.hasEndTag = true;
+      element.source = code.slice(start, match.index + match[0].length);
+      ctx.index = match.index + match[0].length;
+      return;
+    }
+
+    ctx.stack.push({ element, start, contentStart: ctx.index });
+  }
+
+  /**
+   * 여는 태그의 속성을 '>' 또는 '/>' 직전까지 읽습니다.
+   */
+  private static readAttributes(ctx: ParseContext, tagName: string): XmlAttribute[] {
+    const { code, html } = ctx;
+    const attributes: XmlAttribute[] = [];
+
+    for (;;) {
+      while (/\s/.test(code[ctx.index] ?? '')) ctx.index++;
+      if (ctx.index >= code.length) {
+        this.fail(ctx, ctx.index - 1, `<${tagName}> 태그가 '>'로 끝나지 않았습니다.`);
+      }
+      if (code[ctx.index] === '>' || code.startsWith('/>', ctx.index)) {
+        return attributes;
+      }
+      if (html && code[ctx.index] === '/') {
+        ctx.index++;
+        continue;
+      }
+
+      const name = this.match(this.ATTRIBUTE_NAME, code, ctx.index);
+      if (!name) {
+        this.fail(ctx, ctx.index, `<${tagName}> 태그 안에 잘못된 문자 '${code[ctx.index]}'가 있습니다.`);
+      }
+      ctx.index += name.length;
+
+      const equals = /\s*=\s*/y;
+      equals.lastIndex = ctx.index;
+      if (!equals.test(code)) {
+        if (!html) {
+          this.fail(ctx, ctx.index, `속성 ${name}에 값이 없습니다.`);
+        }
+        attributes.push({ name, value: null });
+        continue;
+      }
+      ctx.index = equals.lastIndex;
+      attributes.push({ name, value: this.readAttributeValue(ctx, name) });
+    }
+  }
+
+  private static readAttributeValue(ctx: ParseContext, name: string): string {
+    const { code } = ctx;
+    const quote = code[ctx.index];
+
+    if (quote === '"' || quote === '\'') {
+      const end = code.indexOf(quote, ctx.index + 1);
+      if (end < 0) {
+        this.fail(ctx, ctx.index, `속성 ${name}의 따옴표가 닫히지 않았습니다.`);
+      }
+      const value = code.slice(ctx.index, end + 1);
+      ctx.index = end + 1;
+      return value;
+    }
+
+    const value = ctx.html ? this.match(this.UNQUOTED_VALUE, code, ctx.index) : null;
+    if (!value) {
+      this.fail(ctx, ctx.index, `속성 ${name}의 값은 따옴표로 감싸야 합니다.`);
+    }
+    ctx.index += value.length;
+    return value;
+  }
+
+  /**
+   * 닫는 태그를 읽고 맞는 요소를 닫습니다.
+   * HTML에서는 사이에 열린 생략 가능한 요소(li, p 등)를 암시적으로 닫습니다.
+   */
+  private static readCloseTag(ctx: ParseContext): void {
+    const { code, html, stack } = ctx;
+    const start = ctx.index;
+    this.CLOSE_TAG.lastIndex = start;
+    const match = this.CLOSE_TAG.exec(code);
+    if (!match) {
+      this.fail(ctx, start, '닫는 태그 형식이 잘못되었습니다.');
+    }
+
+    const name = match[1];
+    const same = (element: XmlElement) => html
+      ? element.name.toLowerCase() === name.toLowerCase()
+      : element.name === name;
+
+    let target = stack.length - 1;
+    while (target >= 0 && !same(stack[target].element)) target--;
+
+    const top = stack[stack.length - 1];
+    if (target < 0) {
+      this.fail(ctx, start, top
+        ? `</${name}> 닫는 태그가 <${top.element.name}>와 맞지 않습니다.`
+        : `여는 태그가 없는 </${name}>입니다.`);
+    }
+
+    const skipped = stack.slice(target + 1);
+    if (skipped.some(open => !html || !this.OPTIONAL_END_ELEMENTS.has(open.element.name.toLowerCase()))) {
+      this.fail(ctx, start, `</${name}> 닫는 태그가 <${top.element.name}>와 맞지 않습니다.`);
+    }
+
+    while (stack.length - 1 > target) {
+      this.closeTop(ctx, start, start);
+    }
+    ctx.index = start + match[0].length;
+    this.closeTop(ctx, start, ctx.index);
+  }
+
+  /**
+   * 새 HTML 요소가 암시적으로 닫는 요소를 닫습니다. (<li> 다음의 <li> 등)
+   */
+  private static closeImplied(ctx: ParseContext, key: string, position: number): void {
+    const closes = this.IMPLIED_END[key];
+    while (closes && ctx.stack.length > 0 &&
+      closes.includes(ctx.stack[ctx.stack.length - 1].element.name.toLowerCase())) {
+      this.closeTop(ctx, position, position);
+    }
+  }
+
+  /**
+   * 문서 끝에서 열린 요소를 닫습니다. HTML의 생략 가능한 요소만 닫을 수 있습니다.
+   */
+  private static closeAtEnd(ctx: ParseContext): void {
+    const unclosed = ctx.stack.find(open =>
+      !ctx.html || !this.OPTIONAL_END_ELEMENTS.has(open.element.name.toLowerCase()));
+    if (unclosed) {
+      this.fail(ctx, unclosed.start, `<${unclosed.element.name}> 태그가 닫히지 않았습니다.`);
+    }
+    while (ctx.stack.length > 0) {
+      this.closeTop(ctx, ctx.code.length, ctx.code.length);
+    }
+  }
+
+  /**
+   * 가장 안쪽 요소를 닫습니다.
+   * @param contentEnd 내용이 끝나는 위치 (닫는 태그 시작)
+   * @param end 요소가 끝나는 위치 (닫는 태그 끝, 암시적으로 닫으면 contentEnd와 같음)
+   */
+  private static closeTop(ctx: ParseContext, contentEnd: number, end: number): void {
+    const open = ctx.stack.pop()!;
+    open.element.content = ctx.code.slice(open.contentStart, contentEnd);
+    open.element.source = ctx.code.slice(open.start, end);
+    open.element.hasEndTag = end > contentEnd;
+  }
+
+  private static children(ctx: ParseContext): XmlNode[] {
+    return ctx.stack.length > 0 ? ctx.stack[ctx.stack.length - 1].element.children : ctx.root;
+  }
+
+  private static pushText(ctx: ParseContext, start: number, end: number): void {
+    if (end > start) {
+      this.children(ctx).push({ kind: 'text', text: ctx.code.slice(start, end) });
+    }
+  }
+
+  private static pushRaw(ctx: ParseContext, kind: 'comment' | 'cdata' | 'instruction' | 'doctype', text: string): void {
+    this.children(ctx).push({ kind, text });
+  }
+
+  private static match(pattern: RegExp, code: string, index: number): string | null {
+    pattern.lastIndex = index;
+    return pattern.exec(code)?.[0] ?? null;
+  }
+
+  private static fail(ctx: ParseContext, offset: number, message: string): never {
+    throw SourceParseError.at(ctx.html ? 'HTML' : 'XML', ctx.code, offset, message);
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * YAML 설정 파일 파서
+ * .prettierrc.yaml 같은 설정 파일에 쓰이는 YAML의 부분 집합을 읽습니다.
+ * 지원 문법: 블록 매핑/시퀀스, 한 줄 플로우 컬렉션([a, b], {a: 1}), 따옴표 문자열, 주석
+ */
+
+import { SourceParseError } from './SourceParseError';
+
+/**
+ * 주석과 빈 줄을 제거한 줄
+ */
+interface YamlLine {
+  indent: number;
+  text: string;
+  lineNumber: number;
+}
+
+export class YamlConfigParser {
+  /**
+   * YAML 문자열을 값으로 변환합니다.
+   * @param content YAML 문자열
+   * @returns 변환된 값 (빈 문서는 null)
+   * @throws 지원하지 않거나 잘못된 문법이면 줄 번호가 포함된 Error
+   */
+  public static parse(content: string): unknown {
+    const lines = this.tokenizeLines(content);
+    if (lines.length === 0) {
+      return null;
+    }
+
+    const state = { index: 0 };
+    const value = this.parseBlock(lines, state, lines[0].indent);
+    if (state.index < lines.length) {
+      this.fail(lines[state.index], '들여쓰기가 올바르지 않습니다.');
+    }
+    return value;
+  }
+
+  private static tokenizeLines(content: string): YamlLine[] {
+    const lines: YamlLine[] = [];
+    content.split(/\r?\n/).forEach((raw, index) => {
+      const text = this.stripComment(raw).trimEnd();
+      if (text.trim() === '' || text === '---' || text === '...') {
+        return;
+      }
+      const indent = text.length - text.trimStart().length;
+      if (text.slice(0, indent).includes('\t')) {
+        throw new SourceParseError('YAML', index + 1, 1, '들여쓰기에 탭을 사용할 수 없습니다.');
+      }
+      lines.push({ indent, text: text.trimStart(), lineNumber: index + 1 });
+    });
+    return lines;
+  }
+
+  /**
+   * 따옴표 밖의 주석을 제거합니다.
+   */
+  private static stripComment(line: string): string {
+    let quote: string | null = null;
+    for (let index = 0; index < line.length; index++) {
+      const char = line[index];
+      if (quote) {
+        if (char === '\\' && quote === '"') {
+          index++;
+        } else if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '"' || char === '\'') {
+        quote = char;
+      } else if (char === '#' && (index === 0 || /\s/.test(line[index - 1]))) {
+        return line.slice(0, index);
+      }
+    }
+    return line;
+  }
+
+  private static parseBlock(lines: YamlLine[], state: { index: number }, indent: number): unknown {
+    const first = lines[state.index];
+    return first.text === '-' || first.text.startsWith('- ')
+      ? this.parseSequence(lines, state, indent)
+      : this.parseMapping(lines, state, indent);
+  }
+
+  private static parseSequence(lines: YamlLine[], state: { index: number }, indent: number): unknown[] {
+    const items: unknown[] = [];
+
+    while (state.index < lines.length) {
+      const line = lines[state.index];
+      if (line.indent < indent) break;
+      if (line.indent > indent) this.fail(line, '들여쓰기가 올바르지 않습니다.');
+      if (line.text !== '-' && !line.text.startsWith('- ')) break;
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest === '') {
+        state.index++;
+        items.push(this.parseNested(lines, state, indent));
+      } else if (this.findMappingColon(rest) !== -1 && !/^["'[{]/.test(rest)) {
+        // "- key: value" 형태는 항목 안의 매핑 (이어지는 키는 '- ' 뒤 위치에 맞춰 들여씀)
+        const itemIndent = indent + (line.text.length - rest.length);
+        lines[state.index] = { indent: itemIndent, text: rest, lineNumber: line.lineNumber };
+        items.push(this.parseMapping(lines, state, itemIndent));
+      } else {
+        state.index++;
+        items.push(this.parseScalarOrFlow(rest, line));
+      }
+    }
+
+    return items;
+  }
+
+  private static parseMapping(lines: YamlLine[], state: { index: number }, indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+
+    while (state.index < lines.length) {
+      const line = lines[state.index];
+      if (line.indent < indent) break;
+      if (line.indent > indent) this.fail(line, '들여쓰기가 올바르지 않습니다.');
+      if (line.text === '-' || line.text.startsWith('- ')) break;
+
+      const colon = this.findMappingColon(line.text);
+      if (colon === -1) {
+        this.fail(line, `'키: 값' 형식이 아닙니다: ${line.text}`);
+      }
+
+      const key = this.parseKey(line.text.slice(0, colon).trim());
+      const rest = line.text.slice(colon + 1).trim();
+      state.index++;
+
+      if (rest === '') {
+        // 같은 들여쓰기의 시퀀스도 값으로 허용 (key:\n- a)
+        const next = lines[state.index];
+        const sequenceAtSameIndent = next && next.indent === indent && (next.text === '-' || next.text.startsWith('- '));
+        mapping[key] = sequenceAtSameIndent
+          ? this.parseSequence(lines, state, indent)
+          : this.parseNested(lines, state, indent);
+      } else if (rest === '|' || rest === '>' || /^[|>][+-]?$/.test(rest)) {
+        mapping[key] = this.parseBlockScalar(lines, state, indent, rest[0] === '|');
+      } else {
+        mapping[key] = this.parseScalarOrFlow(rest, line);
+      }
+    }
+
+    return mapping;
+  }
+
+  /**
+   * 키 뒤에 오는 들여쓴 블록을 읽습니다. 블록이 없으면 null입니다.
+   */
+  private static parseNested(lines: YamlLine[], state: { index: number }, parentIndent: number): unknown {
+    const next = lines[state.index];
+    if (!next || next.indent <= parentIndent) {
+      return null;
+    }
+    return this.parseBlock(lines, state, next.indent);
+  }
+
+  private static parseBlockScalar(lines: YamlLine[], state: { index: number }, parentIndent: number, literal: boolean): string {
+    const parts: string[] = [];
+    while (state.index < lines.length && lines[state.index].indent > parentIndent) {
+      parts.push(lines[state.index].text);
+      state.index++;
+    }
+    return parts.join(literal ? '\n' : ' ');
+  }
+
+  /**
+   * 매핑의 키/값 구분 콜론 위치를 찾습니다. (따옴표와 플로우 컬렉션 안은 제외)
+   */
+  private static findMappingColon(text: string): number {
+    let quote: string | null = null;
+    let depth = 0;
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index];
+      if (quote) {
+        if (char === '\\' && quote === '"') index++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === '\'') {
+        quote = char;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === '}') {
+        depth--;
+      } else if (char === ':' && depth === 0 && (index + 1 === text.length || /\s/.test(text[index + 1]))) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private static parseKey(text: string): string {
+    const value = this.parseScalar(text);
+    return value === null ? 'null' : String(value);
+  }
+
+  private static parseScalarOrFlow(text: string, line: YamlLine): unknown {
+    if (text.startsWith('[') || text.startsWith('{')) {
+      const state = { index: 0 };
+      const value = this.parseFlow(text, state, line);
+      if (text.slice(state.index).trim() !== '') {
+        this.fail(line, `플로우 컬렉션 뒤에 알 수 없는 내용이 있습니다: ${text.slice(state.index)}`);
+      }
+      return value;
+    }
+    return this.parseScalar(text);
+  }
+
+  private static parseFlow(text: string, state: { index: number }, line: YamlLine): unknown {
+    this.skipSpaces(text, state);
+    const open = text[state.index];
+
+    if (open === '[' || open === '{') {
+      const close = open === '[' ? ']' : '}';
+      const items: unknown[] = [];
+      const mapping: Record<string, unknown> = {};
+      state.index++;
+
+      while (true) {
+        this.skipSpaces(text, state);
+        if (text[state.index] === close) {
+          state.index++;
+          break;
+        }
+        if (state.index >= text.length) {
+          this.fail(line, `'${close}'가 없습니다.`);
+        }
+
+        if (open === '[') {
+          items.push(this.parseFlow(text, state, line));
+        } else {
+          const key = this.readFlowToken(text, state, true);
+          this.skipSpaces(text, state);
+          if (text[state.index] === ':') {
+            state.index++;
+            mapping[this.parseKey(key)] = this.parseFlow(text, state, line);
+          } else {
+            mapping[this.parseKey(key)] = null;
+          }
+        }
+
+        this.skipSpaces(text, state);
+        if (text[state.index] === ',') {
+          state.index++;
+        } else if (text[state.index] !== close) {
+          this.fail(line, `',' 또는 '${close}'가 필요합니다.`);
+        }
+      }
+
+      return open === '[' ? items : mapping;
+    }
+
+    return this.parseScalar(this.readFlowToken(text, state, false));
+  }
+
+  private static readFlowToken(text: string, state: { index: number }, isKey: boolean): string {
+    this.skipSpaces(text, state);
+    const start = state.index;
+    const quote = text[start];
+
+    if (quote === '"' || quote === '\'') {
+      state.index++;
+      while (state.index < text.length && text[state.index] !== quote) {
+        if (text[state.index] === '\\' && quote === '"') state.index++;
+        state.index++;
+      }
+      state.index++;
+      return text.slice(start, state.index);
+    }
+
+    while (state.index < text.length && !/[,\]}]/.test(text[state.index]) && !(isKey && text[state.index] === ':')) {
+      state.index++;
+    }
+    return text.slice(start, state.index).trim();
+  }
+
+  private static skipSpaces(text: string, state: { index: number }): void {
+    while (state.index < text.length && /\s/.test(text[state.index])) {
+      state.index++;
+    }
+  }
+
+  /**
+   * 스칼라 값을 변환합니다. (YAML 1.2 core 스키마)
+   */
+  private static parseScalar(text: string): unknown {
+    if (text.startsWith('"') && text.endsWith('"') && text.length >= 2) {
+      return JSON.parse(text.replace(/\\'/g, '\''));
+    }
+    if (text.startsWith('\'') && text.endsWith('\'') && text.length >= 2) {
+      return text.slice(1, -1).replace(/''/g, '\'');
+    }
+    if (/^(null|Null|NULL|~)?$/.test(text)) {
+      return null;
+    }
+    if (/^(true|True|TRUE)$/.test(text)) {
+      return true;
+    }
+    if (/^(false|False|FALSE)$/.test(text)) {
+      return false;
+    }
+    if (/^[-+]?(\d+|\d*\.\d+|\d+\.\d*)([eE][-+]?\d+)?$/.test(text)) {
+      return Number(text);
+    }
+    if (/^0x[0-9a-fA-F]+$/.test(text)) {
+      return parseInt(text, 16);
+    }
+    return text;
+  }
+
+  private static fail(line: YamlLine, message: string): never {
+    throw new SourceParseError('YAML', line.lineNumber, line.indent + 1, message);
+  }
+}
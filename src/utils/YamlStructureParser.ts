@@ -0,0 +1,543 @@
+/**
+ * YAML 구조 파서
+ * 포매팅을 위해 YAML 스트림을 문서와 블록 구조(매핑/시퀀스/스칼라)로 나눕니다.
+ * 값을 해석하지 않으므로 주석, 앵커/별칭, 태그, 따옴표, 블록 스칼라 내용이 원문 그대로 남습니다.
+ * 복합 키(? key)는 지원하지 않으며, '---' 뒤에 내용이 오는 문서는 그대로 둡니다.
+ */
+
+import {
+  YamlBlockScalar,
+  YamlItem,
+  YamlEntry,
+  YamlMapping,
+  YamlNode,
+  YamlScalar,
+  YamlSequence,
+  YamlStreamPart,
+  YamlTrivia,
+  YamlValue
+} from '../types/YamlTypes';
+import { SourceParseError } from './SourceParseError';
+
+/**
+ * 원본 줄
+ */
+interface SourceLine {
+  /** 앞쪽 스페이스 수 */
+  indent: number;
+  /** 들여쓰기와 줄 끝 공백을 뺀 내용 */
+  text: string;
+  /** 원문 (블록 스칼라 내용용) */
+  raw: string;
+  lineNumber: number;
+}
+
+/**
+ * 문서 하나를 파싱하는 동안의 상태
+ */
+interface ParseContext {
+  lines: SourceLine[];
+  index: number;
+}
+
+/**
+ * 따옴표/플로우 컬렉션 스캔 상태 (여러 줄에 걸쳐 이어짐)
+ */
+interface FlowScanState {
+  quote: '"' | '\'' | null;
+  depth: number;
+  /** 마지막으로 읽은 공백이 아닌 문자 (따옴표가 새 스칼라를 여는지 판단) */
+  previous: string;
+}
+
+/**
+ * 값 머리(키/대시 뒤 같은 줄)를 내용과 주석으로 나눈 결과
+ */
+interface ValueHead {
+  content: string;
+  comment: string;
+  /** 닫히지 않은 따옴표/괄호가 있어 다음 줄로 이어지는지 여부 */
+  state: FlowScanState | null;
+}
+
+export class YamlStructureParser {
+  /** 블록 스칼라 헤더 (|, >, 들여쓰기/chomping 지시자) */
+  private static readonly BLOCK_HEADER = /^[|>]([1-9][+-]?|[+-][1-9]?)?$/;
+
+  /** 문서 시작/끝 표시 줄 */
+  private static readonly DOCUMENT_MARKER = /^(---|\.\.\.)(?=\s|$)/;
+
+  /**
+   * YAML 스트림을 문서 단위로 파싱합니다.
+   * @param code YAML 코드
+   * @returns 지시문, 문서 표시, 문서 본문 목록
+   * @throws 들여쓰기나 문법이 잘못되었으면 'YAML N번째 줄: ...' SourceParseError
+   */
+  public static parse(code: string): YamlStreamPart[] {
+    const parts: YamlStreamPart[] = [];
+    let body: SourceLine[] = [];
+    let verbatim = false;
+
+    const flush = () => {
+      if (body.some(line => line.text !== '')) {
+        parts.push(verbatim ? this.toVerbatim(body) : this.parseDocument(body));
+      }
+      body = [];
+    };
+
+    code.split('\n').forEach((raw, index) => {
+      const marker = raw.match(this.DOCUMENT_MARKER);
+      if (marker) {
+        flush();
+        const rest = raw.slice(3).trim();
+        parts.push({ kind: 'marker', text: rest ? `${marker[1]} ${rest}` : marker[1] });
+        // '--- !tag'이나 '--- # 주석'이 아니라 값이 같은 줄에 오면 본문을 해석하지 않음
+        const content = this.splitProps(rest).rest;
+        verbatim = marker[1] === '---' && content !== '' && !content.startsWith('#');
+        return;
+      }
+      if (raw.startsWith('%') && body.every(line => line.text === '' || line.text.startsWith('#'))) {
+        flush();
+        parts.push({ kind: 'directive', text: raw.trimEnd() });
+        return;
+      }
+
+      const indent = raw.length - raw.replace(/^ +/, '').length;
+      body.push({ indent, text: raw.slice(indent).trimEnd(), raw, lineNumber: index + 1 });
+    });
+    flush();
+
+    return parts;
+  }
+
+  private static toVerbatim(lines: SourceLine[]): YamlStreamPart {
+    const raw = lines.map(line => line.raw.trimEnd());
+    while (raw.length > 0 && raw[raw.length - 1] === '') raw.pop();
+    return { kind: 'verbatim', lines: raw };
+  }
+
+  private static parseDocument(lines: SourceLine[]): YamlStreamPart {
+    const ctx: ParseContext = { lines, index: 0 };
+    const start = this.triviaEnd(ctx, 0);
+    const leading = this.readTrivia(ctx, 0, start);
+    if (start >= lines.length) {
+      return { kind: 'document', leading, root: null, trailing: [] };
+    }
+
+    ctx.index = start;
+    const root = this.parseBlock(ctx, -1);
+    const end = this.triviaEnd(ctx, ctx.index);
+    if (end < lines.length) {
+      this.fail(lines[end], '들여쓰기가 올바르지 않습니다.');
+    }
+    return { kind: 'document', leading, root, trailing: this.readTrivia(ctx, ctx.index, end) };
+  }
+
+  /**
+   * 현재 줄에서 시작하는 블록 노드를 읽습니다.
+   */
+  private static parseBlock(ctx: ParseContext, parentIndent: number): YamlNode {
+    const line = ctx.lines[ctx.index];
+    this.checkIndentation(line);
+
+    if (line.text === '?' || line.text.startsWith('? ')) {
+      this.fail(line, '복합 키(?)는 지원하지 않습니다.');
+    }
+    if (this.isSequenceItem(line.text)) {
+      return this.parseSequence(ctx, line.indent);
+    }
+    if (this.findMappingColon(line.text) >= 0) {
+      return this.parseMapping(ctx, line.indent);
+    }
+
+    ctx.index++;
+    const head = this.splitComment(line.text);
+    return this.BLOCK_HEADER.test(head.content)
+      ? this.parseBlockScalar(ctx, head.content, parentIndent)
+      : this.parseScalar(ctx, head, parentIndent, line);
+  }
+
+  private static parseMapping(ctx: ParseContext, indent: number): YamlMapping {
+    const entries: YamlEntry[] = [];
+
+    for (;;) {
+      const next = this.triviaEnd(ctx, ctx.index);
+      const line = ctx.lines[next];
+      if (!line || line.indent < indent || (line.indent === indent && this.isSequenceItem(line.text))) {
+        return { kind: 'mapping', entries, trailing: this.takeTrailing(ctx, next, indent) };
+      }
+      if (line.indent > indent) {
+        this.fail(line, '들여쓰기가 올바르지 않습니다.');
+      }
+      if (this.findMappingColon(line.text) < 0) {
+        this.fail(line, `'키: 값' 형식이 아닙니다: ${line.text}`);
+      }
+
+      const leading = this.readTrivia(ctx, ctx.index, next);
+      ctx.index = next + 1;
+      this.checkIndentation(line);
+
+      const colon = this.findMappingColon(line.text);
+      entries.push({
+        leading,
+        key: line.text.slice(0, colon).trimEnd(),
+        value: this.parseValue(ctx, line.text.slice(colon + 1), line, line.indent, true)
+      });
+    }
+  }
+
+  private static parseSequence(ctx: ParseContext, indent: number): YamlSequence {
+    const items: YamlItem[] = [];
+
+    for (;;) {
+      const next = this.triviaEnd(ctx, ctx.index);
+      const line = ctx.lines[next];
+      if (!line || line.indent < indent || (line.indent === indent && !this.isSequenceItem(line.text))) {
+        return { kind: 'sequence', items, trailing: this.takeTrailing(ctx, next, indent) };
+      }
+      if (line.indent > indent) {
+        this.fail(line, '들여쓰기가 올바르지 않습니다.');
+      }
+
+      const leading = this.readTrivia(ctx, ctx.index, next);
+      ctx.index = next + 1;
+      this.checkIndentation(line);
+      items.push({ leading, value: this.parseItem(ctx, line) });
+    }
+  }
+
+  /**
+   * 시퀀스 항목을 읽습니다. '- key: value'나 '- - item'처럼 대시 뒤에 블록이 이어지면
+   * 대시 다음 열에서 시작하는 줄로 바꿔 블록으로 읽습니다.
+   */
+  private static parseItem(ctx: ParseContext, line: SourceLine): YamlValue {
+    const head = line.text.slice(1);
+    const content = head.trimStart();
+    const compact = content !== '' && !content.startsWith('#') &&
+      (this.isSequenceItem(content) || this.findMappingColon(content) >= 0);
+
+    if (compact) {
+      ctx.index--;
+      ctx.lines[ctx.index] = { ...line, indent: line.indent + 1 + head.length - content.length, text: content };
+      return { props: '', comment: '', node: this.parseBlock(ctx, line.indent) };
+    }
+    return this.parseValue(ctx, head, line, line.indent, false);
+  }
+
+  /**
+   * 키/대시 뒤의 값을 읽습니다.
+   * @param head 키의 ':' 또는 대시 뒤 텍스트
+   * @param parentIndent 키/대시의 들여쓰기 (값의 다음 줄은 이보다 깊어야 함)
+   * @param allowFlushSequence 키와 같은 들여쓰기의 시퀀스를 값으로 허용할지 여부
+   */
+  private static parseValue(
+    ctx: ParseContext,
+    head: string,
+    line: SourceLine,
+    parentIndent: number,
+    allowFlushSequence: boolean
+  ): YamlValue {
+    const { props, rest } = this.splitProps(head.trim());
+    const parsed = this.splitComment(rest);
+
+    if (parsed.content === '') {
+      return { props, ...this.parseChild(ctx, parentIndent, allowFlushSequence, parsed.comment, line) };
+    }
+    if (this.BLOCK_HEADER.test(parsed.content)) {
+      return { props, comment: parsed.comment, node: this.parseBlockScalar(ctx, parsed.content, parentIndent) };
+    }
+    return { props, comment: parsed.comment, node: this.parseScalar(ctx, parsed, parentIndent, line) };
+  }
+
+  /**
+   * 다음 줄부터 시작하는 값 블록을 읽습니다. 값이 없으면 null입니다.
+   * 값 앞의 주석은 블록 첫 항목의 앞 주석이 됩니다.
+   */
+  private static parseChild(
+    ctx: ParseContext,
+    parentIndent: number,
+    allowFlushSequence: boolean,
+    comment: string,
+    line: SourceLine
+  ): { comment: string; node: YamlNode | null } {
+    const next = this.triviaEnd(ctx, ctx.index);
+    const child = ctx.lines[next];
+    const isChild = child && (child.indent > parentIndent ||
+      (allowFlushSequence && child.indent === parentIndent && this.isSequenceItem(child.text)));
+    if (!isChild) {
+      return { comment, node: null };
+    }
+
+    const trivia = this.readTrivia(ctx, ctx.index, next);
+    ctx.index = next;
+    const node = this.parseBlock(ctx, parentIndent);
+
+    if (node.kind === 'mapping' || node.kind === 'sequence') {
+      const first = node.kind === 'mapping' ? node.entries[0] : node.items[0];
+      first.leading = [...trivia, ...first.leading];
+      return { comment, node };
+    }
+
+    // 스칼라 값 앞의 주석은 키 줄의 주석으로 옮김 (한 줄일 때만)
+    const comments = trivia.filter(text => text !== '');
+    if (comments.length > 1 || (comments.length === 1 && comment !== '')) {
+      this.fail(line, '값 앞에 주석이 여러 개 있으면 포매팅할 수 없습니다.');
+    }
+    return { comment: comments[0] ?? comment, node };
+  }
+
+  /**
+   * 같은 줄에서 시작하는 스칼라/플로우 컬렉션을 읽습니다.
+   * 닫히지 않은 따옴표/괄호는 닫힐 때까지, plain 스칼라는 더 깊게 들여쓴 줄까지 이어서 읽습니다.
+   */
+  private static parseScalar(ctx: ParseContext, head: ValueHead, parentIndent: number, line: SourceLine): YamlScalar {
+    const lines = [head.content];
+
+    if (head.state) {
+      const state = head.state;
+      while (state.quote !== null || state.depth > 0) {
+        const next = ctx.lines[ctx.index++];
+        if (!next) {
+          this.fail(line, state.quote ? `닫히지 않은 따옴표(${state.quote})가 있습니다.` : '닫히지 않은 괄호가 있습니다.');
+        }
+        const text = next.raw.trim();
+        lines.push(text);
+        this.scanFlow(text, 0, state);
+      }
+      return { kind: 'scalar', lines };
+    }
+
+    const plain = !/^["'[{]/.test(head.content);
+    if (!plain || head.comment !== '') {
+      return { kind: 'scalar', lines };
+    }
+
+    for (;;) {
+      let next = ctx.index;
+      while (next < ctx.lines.length && ctx.lines[next].text === '') next++;
+      const continuation = ctx.lines[next];
+      if (!continuation || continuation.indent <= parentIndent || continuation.text.startsWith('#')) {
+        return { kind: 'scalar', lines };
+      }
+
+      this.checkIndentation(continuation);
+      if (this.findMappingColon(continuation.text) >= 0) {
+        this.fail(continuation, '여러 줄 값 안에 키(:)가 있습니다. 들여쓰기를 확인하세요.');
+      }
+      for (let blank = ctx.index; blank < next; blank++) lines.push('');
+      ctx.index = next + 1;
+
+      const parsed = this.splitComment(continuation.text);
+      lines.push(parsed.comment ? `${parsed.content} ${parsed.comment}` : parsed.content);
+      if (parsed.comment) {
+        return { kind: 'scalar', lines };
+      }
+    }
+  }
+
+  /**
+   * 블록 스칼라 내용을 읽습니다. 내용 들여쓰기는 지시자가 없으면 첫 내용 줄에서 정합니다.
+   * 끝의 빈 줄은 keep(+) chomping일 때만 내용에 포함합니다.
+   */
+  private static parseBlockScalar(ctx: ParseContext, header: string, parentIndent: number): YamlBlockScalar {
+    const indicator = header.match(/[1-9]/);
+    let contentIndent = indicator ? Math.max(parentIndent, 0) + Number(indicator[0]) : null;
+    const lines: string[] = [];
+    let pendingBlanks: string[] = [];
+
+    while (ctx.index < ctx.lines.length) {
+      const line = ctx.lines[ctx.index];
+      if (line.raw.trim() === '') {
+        pendingBlanks.push(contentIndent !== null && line.raw.length > contentIndent ? line.raw.slice(contentIndent) : '');
+        ctx.index++;
+        continue;
+      }
+      if (contentIndent === null) {
+        if (line.indent <= parentIndent) break;
+        contentIndent = line.indent;
+      }
+      if (line.indent < contentIndent) break;
+
+      lines.push(...pendingBlanks, line.raw.slice(contentIndent));
+      pendingBlanks = [];
+      ctx.index++;
+    }
+
+    if (header.includes('+')) {
+      lines.push(...pendingBlanks);
+    } else {
+      ctx.index -= pendingBlanks.length;
+    }
+
+    return {
+      kind: 'block',
+      header,
+      lines,
+      explicitOffset: indicator ? Number(indicator[0]) : null
+    };
+  }
+
+  /**
+   * 블록 끝의 주석 중 이 블록에 속하는 것(블록 들여쓰기 이상이고 다음 줄보다 깊은 주석)을 가져옵니다.
+   */
+  private static takeTrailing(ctx: ParseContext, next: number, indent: number): YamlTrivia {
+    const nextIndent = next < ctx.lines.length ? ctx.lines[next].indent : -1;
+    let end = ctx.index;
+    for (let index = ctx.index; index < next; index++) {
+      const line = ctx.lines[index];
+      if (line.text === '') continue;
+      if (line.indent < indent || line.indent <= nextIndent) break;
+      end = index + 1;
+    }
+
+    const trailing = this.readTrivia(ctx, ctx.index, end);
+    ctx.index = end;
+    return trailing;
+  }
+
+  /**
+   * from부터 주석/빈 줄을 건너뛴 다음 내용 줄의 위치를 반환합니다.
+   */
+  private static triviaEnd(ctx: ParseContext, from: number): number {
+    let index = from;
+    while (index < ctx.lines.length && (ctx.lines[index].text === '' || ctx.lines[index].text.startsWith('#'))) {
+      index++;
+    }
+    return index;
+  }
+
+  private static readTrivia(ctx: ParseContext, from: number, to: number): YamlTrivia {
+    return ctx.lines.slice(from, to).map(line => line.text);
+  }
+
+  /**
+   * 앞쪽의 앵커(&)/태그(!)를 떼어냅니다.
+   */
+  public static splitProps(text: string): { props: string; rest: string } {
+    const props: string[] = [];
+    let rest = text;
+    let match: RegExpMatchArray | null;
+    while ((match = rest.match(/^([&!]\S*)(?:\s+|$)/))) {
+      props.push(match[1]);
+      rest = rest.slice(match[0].length);
+    }
+    return { props: props.join(' '), rest };
+  }
+
+  /**
+   * 값을 내용과 줄 끝 주석으로 나눕니다.
+   */
+  private static splitComment(text: string): ValueHead {
+    if (text.startsWith('#')) {
+      return { content: '', comment: text, state: null };
+    }
+
+    if (/^["'[{]/.test(text)) {
+      const state: FlowScanState = { quote: null, depth: 0, previous: '' };
+      const commentStart = this.scanFlow(text, 0, state);
+      if (state.quote !== null || state.depth > 0) {
+        return { content: text, comment: '', state };
+      }
+      if (commentStart < 0) {
+        return { content: text, comment: '', state: null };
+      }
+      return { content: text.slice(0, commentStart).trimEnd(), comment: text.slice(commentStart), state: null };
+    }
+
+    const match = text.match(/\s#/);
+    return match
+      ? { content: text.slice(0, match.index).trimEnd(), comment: text.slice(match.index! + 1), state: null }
+      : { content: text, comment: '', state: null };
+  }
+
+  /**
+   * 따옴표와 플로우 괄호를 따라가며 텍스트를 훑습니다.
+   * @param untilClosed true면 처음 연 따옴표/괄호가 닫히는 곳에서 멈춤
+   * @returns untilClosed면 닫힌 다음 위치, 아니면 모든 따옴표/괄호가 닫힌 뒤 나온 주석의 시작 위치 (없으면 -1)
+   */
+  private static scanFlow(text: string, from: number, state: FlowScanState, untilClosed: boolean = false): number {
+    for (let index = from; index < text.length; index++) {
+      const char = text[index];
+      if (state.quote) {
+        if (char === '\\' && state.quote === '"') {
+          index++;
+        } else if (char === state.quote) {
+          if (state.quote === '\'' && text[index + 1] === '\'') {
+            index++;
+          } else {
+            state.quote = null;
+            state.previous = char;
+            if (untilClosed && state.depth === 0) return index + 1;
+          }
+        }
+        continue;
+      }
+
+      if ((char === '"' || char === '\'') && (state.previous === '' || '[{,:'.includes(state.previous))) {
+        state.quote = char;
+      } else if (char === '[' || char === '{') {
+        state.depth++;
+      } else if (char === ']' || char === '}') {
+        state.depth--;
+        if (untilClosed && state.depth === 0) return index + 1;
+      } else if (!untilClosed && char === '#' && state.depth <= 0 && (index === 0 || /\s/.test(text[index - 1]))) {
+        return index;
+      }
+      if (!/\s/.test(char)) {
+        state.previous = char;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * 텍스트 처음의 따옴표 스칼라나 플로우 컬렉션이 끝나는 위치를 반환합니다.
+   * @returns 닫는 따옴표/괄호 다음 위치 (닫히지 않으면 -1)
+   */
+  public static closingIndex(text: string): number {
+    return this.scanFlow(text, 0, { quote: null, depth: 0, previous: '' }, true);
+  }
+
+  /**
+   * '키: 값' 형식이면 키 뒤 ':'의 위치를, 아니면 -1을 반환합니다.
+   */
+  public static findMappingColon(text: string): number {
+    const { rest } = this.splitProps(text);
+    let index = text.length - rest.length;
+
+    if (/^["'[{]/.test(rest)) {
+      const end = this.closingIndex(rest);
+      if (end < 0) {
+        return -1;
+      }
+      index += end;
+      while (text[index] === ' ') index++;
+      // JSON 형식의 키("key":value)는 ':' 뒤 공백이 없어도 됨
+      return text[index] === ':' ? index : -1;
+    }
+
+    for (; index < text.length; index++) {
+      if (text[index] === ':' && (index + 1 === text.length || /\s/.test(text[index + 1]))) {
+        return index;
+      }
+      if (text[index] === '#' && index > 0 && /\s/.test(text[index - 1])) {
+        return -1;
+      }
+    }
+    return -1;
+  }
+
+  private static isSequenceItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ') || text.startsWith('-\t');
+  }
+
+  private static checkIndentation(line: SourceLine): void {
+    if (line.text.startsWith('\t')) {
+      this.fail(line, '들여쓰기에 탭을 사용할 수 없습니다.');
+    }
+  }
+
+  private static fail(line: SourceLine, message: string): never {
+    throw new SourceParseError('YAML', line.lineNumber, line.indent + 1, message);
+  }
+}
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// CLI 번들 설정: src/cli/index.ts를 Node용 CommonJS 파일 하나로 묶습니다.
+// (typescript 등 dependencies는 번들하지 않고 node_modules에서 불러옴)
+export default defineConfig({
+  build: {
+    ssr: 'src/cli/index.ts',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        format: 'cjs',
+        entryFileNames: 'code-formatter.cjs',
+        // 웹 번들을 나누려고 쓴 동적 import도 파일 하나에 포함
+        inlineDynamicImports: true,
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+})